@@ -99,12 +99,20 @@ export default function EmailsPage() {
             Review and approve AI-drafted email responses
           </p>
         </div>
-        <button
-          onClick={fetchEmails}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-        >
-          Refresh
-        </button>
+        <div className="flex space-x-3">
+          <a
+            href="/emails/threads"
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Conversations
+          </a>
+          <button
+            onClick={fetchEmails}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
       </div>
 
       {loading ? (
@@ -180,6 +188,14 @@ export default function EmailsPage() {
                   <div className="flex items-center space-x-2 mt-2">
                     {getStatusBadge(selectedEmail.status)}
                     {getCategoryBadge(selectedEmail.category)}
+                    {selectedEmail.thread_id && (
+                      <a
+                        href={`/emails/threads?thread=${selectedEmail.thread_id}`}
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        View conversation
+                      </a>
+                    )}
                   </div>
                 </div>
                 <button
@@ -0,0 +1,299 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface ThreadSummary {
+  id: string
+  subject: string
+  customer_email: string | null
+  participants: string[]
+  message_count: number
+  last_message_at: string
+  links: Array<{ link_type: string; reference_id: string }>
+}
+
+interface ConversationMessage {
+  id: string
+  direction: 'inbound' | 'outbound'
+  kind: 'email' | 'reply' | 'quote'
+  status: string
+  from: string
+  to: string | null
+  subject: string
+  body: string
+  at: string
+}
+
+interface Conversation {
+  thread: ThreadSummary
+  messages: ConversationMessage[]
+  quote_requests: any[]
+  orders: any[]
+  customer_interactions: any[]
+}
+
+const LINK_LABELS: Record<string, string> = {
+  quote_request: 'Quote',
+  order: 'Order',
+  customer_interaction: 'Interaction',
+}
+
+export default function EmailThreadsPage() {
+  const [threads, setThreads] = useState<ThreadSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+  const [conversationLoading, setConversationLoading] = useState(false)
+
+  useEffect(() => {
+    fetchThreads()
+    const threadId = new URLSearchParams(window.location.search).get('thread')
+    if (threadId) setSelectedId(threadId)
+  }, [])
+
+  useEffect(() => {
+    if (selectedId) fetchConversation(selectedId)
+  }, [selectedId])
+
+  const fetchThreads = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: '100' })
+      if (search) params.set('search', search)
+      const response = await fetch(`/api/agents/email/threads?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error('Error fetching threads:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchConversation = async (threadId: string) => {
+    setConversationLoading(true)
+    try {
+      const response = await fetch(`/api/agents/email/threads/${threadId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setConversation(data)
+    } catch (error) {
+      console.error('Error fetching conversation:', error)
+      setConversation(null)
+    } finally {
+      setConversationLoading(false)
+    }
+  }
+
+  const relink = async () => {
+    if (!selectedId) return
+    try {
+      const response = await fetch(`/api/agents/email/threads/${selectedId}/links`, { method: 'POST', headers: await approverAuthHeaders() })
+      if (!response.ok) throw new Error('Failed to relink thread')
+      fetchConversation(selectedId)
+      fetchThreads()
+    } catch (error) {
+      console.error('Error relinking thread:', error)
+      alert('Failed to relink thread. Please try again.')
+    }
+  }
+
+  const getMessageStyle = (message: ConversationMessage) => {
+    if (message.direction === 'inbound') return 'bg-white border-gray-200 mr-12'
+    if (message.status === 'sent') return 'bg-blue-50 border-blue-200 ml-12'
+    return 'bg-yellow-50 border-yellow-200 border-dashed ml-12'
+  }
+
+  const getMessageLabel = (message: ConversationMessage) => {
+    if (message.kind === 'quote') return `Quote email · ${message.status}`
+    if (message.kind === 'reply') return message.status === 'sent' ? 'Sent reply' : 'Draft reply'
+    return message.direction === 'inbound' ? 'Received' : 'Sent'
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6 flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Conversations</h1>
+          <p className="text-gray-600 mt-1">
+            Email threads with their quotes, orders and customer history
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <a
+            href="/emails"
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Email Queue
+          </a>
+          <button
+            onClick={fetchThreads}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Thread list */}
+        <div className="bg-white shadow sm:rounded-md overflow-hidden">
+          <div className="p-3 border-b border-gray-200">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && fetchThreads()}
+              placeholder="Search subject or customer..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              <p className="mt-2 text-gray-600">Loading conversations...</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 max-h-[75vh] overflow-y-auto">
+              {threads.map((thread) => (
+                <li key={thread.id}>
+                  <div
+                    className={`px-4 py-3 cursor-pointer hover:bg-gray-50 ${
+                      selectedId === thread.id ? 'bg-blue-50' : ''
+                    }`}
+                    onClick={() => setSelectedId(thread.id)}
+                  >
+                    <div className="flex justify-between items-start">
+                      <p className="text-sm font-medium text-gray-900 truncate flex-1">
+                        {thread.subject}
+                      </p>
+                      <span className="ml-2 text-xs text-gray-500">{thread.message_count}</span>
+                    </div>
+                    <p className="text-sm text-gray-500 truncate">
+                      {thread.customer_email || thread.participants.join(', ')}
+                    </p>
+                    <div className="flex items-center justify-between mt-1">
+                      <div className="flex space-x-1">
+                        {thread.links.map((link) => (
+                          <span
+                            key={`${link.link_type}:${link.reference_id}`}
+                            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                          >
+                            {LINK_LABELS[link.link_type]}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-400">
+                        {new Date(thread.last_message_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {threads.length === 0 && (
+                <li className="px-4 py-8 text-center text-sm text-gray-500">No conversations</li>
+              )}
+            </ul>
+          )}
+        </div>
+
+        {/* Conversation */}
+        <div className="lg:col-span-2 space-y-4">
+          {!selectedId ? (
+            <div className="bg-white shadow sm:rounded-md p-12 text-center text-gray-500">
+              Select a conversation
+            </div>
+          ) : conversationLoading || !conversation ? (
+            <div className="bg-white shadow sm:rounded-md p-12 text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+          ) : (
+            <>
+              <div className="bg-white shadow sm:rounded-md px-6 py-4 flex justify-between items-start">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">{conversation.thread.subject}</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {conversation.thread.participants.join(', ')}
+                  </p>
+                </div>
+                <button
+                  onClick={relink}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 text-xs rounded hover:bg-gray-300"
+                >
+                  Relink
+                </button>
+              </div>
+
+              {/* Linked records */}
+              {(conversation.quote_requests.length > 0 ||
+                conversation.orders.length > 0 ||
+                conversation.customer_interactions.length > 0) && (
+                <div className="bg-white shadow sm:rounded-md px-6 py-4 space-y-3">
+                  {conversation.quote_requests.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-1">Quote Requests</h3>
+                      {conversation.quote_requests.map((quote) => (
+                        <div key={quote.id} className="text-sm text-gray-900 flex justify-between">
+                          <span>
+                            {quote.customer_name || quote.customer_email} · {quote.status}
+                          </span>
+                          {quote.pdf_url && (
+                            <a href={quote.pdf_url} target="_blank" className="text-blue-600 hover:text-blue-800">
+                              PDF
+                            </a>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {conversation.orders.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-1">Orders</h3>
+                      {conversation.orders.map((order) => (
+                        <div key={order.order_no} className="text-sm text-gray-900">
+                          #{order.order_no} · {order.order_name || 'Unnamed'} · {order.supplier_status || 'No supplier status'}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {conversation.customer_interactions.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-700 mb-1">Customer Interactions</h3>
+                      {conversation.customer_interactions.map((interaction) => (
+                        <div key={interaction.id} className="text-sm text-gray-900">
+                          {new Date(interaction.interaction_date).toLocaleDateString()} · {interaction.interaction_type} · {interaction.summary || interaction.subject}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Messages */}
+              {conversation.messages.map((message) => (
+                <div key={message.id} className={`border rounded-lg p-4 ${getMessageStyle(message)}`}>
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{message.from}</p>
+                      {message.to && <p className="text-xs text-gray-500">To: {message.to}</p>}
+                    </div>
+                    <div className="text-right">
+                      <p className="text-xs font-medium text-gray-600">{getMessageLabel(message)}</p>
+                      <p className="text-xs text-gray-400">{new Date(message.at).toLocaleString()}</p>
+                    </div>
+                  </div>
+                  <pre className="text-sm text-gray-900 whitespace-pre-wrap font-sans">
+                    {message.kind === 'quote' ? message.body.replace(/<[^>]+>/g, '') : message.body}
+                  </pre>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { supabase, type OrderTracker } from '@/lib/supabase'
+import { approverAuthHeaders } from '@/lib/approver-session'
 
 import BookShipmentModal from '@/components/BookShipmentModal'
 
@@ -17,6 +18,7 @@ export default function OrdersPage() {
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [selectedOrderForBooking, setSelectedOrderForBooking] = useState<string | null>(null)
   const [bookingLoading, setBookingLoading] = useState(false)
+  const [invoicingOrder, setInvoicingOrder] = useState<string | null>(null)
 
   useEffect(() => {
     fetchOrders()
@@ -124,6 +126,29 @@ export default function OrdersPage() {
     }
   }
 
+  const issueInvoice = async (orderId: string, documentType: 'proforma' | 'tax_invoice') => {
+    const label = documentType === 'tax_invoice' ? 'tax invoice' : 'pro-forma invoice'
+    if (!confirm(`Issue a ${label} for order ${orderId}?`)) return
+
+    setInvoicingOrder(orderId)
+    try {
+      const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/invoices`, {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({ document_type: documentType, due_days: documentType === 'proforma' ? 7 : undefined })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      if (data.invoice.pdf_url) window.open(data.invoice.pdf_url, '_blank')
+      await fetchOrders()
+    } catch (error: any) {
+      alert(`Failed to issue ${label}: ${error.message}`)
+    } finally {
+      setInvoicingOrder(null)
+    }
+  }
+
   const openBookingModal = (orderId: string) => {
     setSelectedOrderForBooking(orderId)
     setIsModalOpen(true)
@@ -278,7 +303,12 @@ export default function OrdersPage() {
                   .filter(order => (showCompleted || (!order.flag_done && order.supplier_status !== 'Complete')) && !['Cancelled', 'Missing', 'Refunded'].includes(order.supplier_status || ''))
                   .map((order, idx) => (
                     <tr key={order.order_no} className={`hover:bg-white/5 transition-colors ${idx % 2 === 0 ? 'bg-transparent' : 'bg-white/[0.02]'}`}>
-                      <td className="p-2 font-mono text-gray-500">{order.order_no}</td>
+                      <td className="p-2 font-mono text-gray-500">
+                        {order.order_no}
+                        {order.source === 'quote' && (
+                          <span className="ml-1 px-1 py-0.5 rounded text-[9px] bg-lime-400/20 text-lime-400" title="Created from an accepted quote">Quote</span>
+                        )}
+                      </td>
                       <td className="p-2 max-w-[120px]">
                         <div className="truncate font-medium text-white" title={order.order_name || ''}>
                           {order.order_name?.split(' ')[0] || '-'}
@@ -337,7 +367,25 @@ export default function OrdersPage() {
                         }`}>
                         {order.profit ? `R${order.profit.toFixed(0)}` : '-'}
                       </td>
-                      <td className="p-2 text-center">
+                      <td className="p-2 text-center whitespace-nowrap">
+                        <button
+                          onClick={() => issueInvoice(order.order_no, 'proforma')}
+                          disabled={invoicingOrder === order.order_no}
+                          className="p-1 mr-1 rounded transition-colors bg-white/5 hover:bg-white/10 text-gray-400 disabled:opacity-50"
+                          title="Issue pro-forma invoice"
+                        >
+                          PF
+                        </button>
+                        {!order.invoice_no?.startsWith('INV-') && (
+                          <button
+                            onClick={() => issueInvoice(order.order_no, 'tax_invoice')}
+                            disabled={invoicingOrder === order.order_no}
+                            className="p-1 mr-1 rounded transition-colors bg-lime-400/10 hover:bg-lime-400/20 text-lime-400 disabled:opacity-50"
+                            title="Issue tax invoice"
+                          >
+                            INV
+                          </button>
+                        )}
                         {order.supplier_status !== 'Shipped' && (
                           <button
                             onClick={() => openBookingModal(order.order_no)}
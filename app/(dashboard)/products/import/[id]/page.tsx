@@ -0,0 +1,372 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+type ChangeType = 'new' | 'changed' | 'unchanged' | 'invalid'
+
+const FIELDS = ['sku', 'product_name', 'price', 'manufacturer', 'category', 'currency', 'stock'] as const
+type Field = typeof FIELDS[number]
+
+const FIELD_LABELS: Record<Field, string> = {
+    sku: 'SKU / Code',
+    product_name: 'Description',
+    price: 'Price',
+    manufacturer: 'Brand',
+    category: 'Category',
+    currency: 'Currency',
+    stock: 'Stock'
+}
+
+interface Summary {
+    new: number
+    changed: number
+    unchanged: number
+    invalid: number
+    missing: number
+    committed?: { added: number; updated: number; queued: number }
+}
+
+interface Upload {
+    id: string
+    filename: string
+    supplier_name: string | null
+    status: 'pending' | 'processing' | 'ready' | 'completed' | 'failed'
+    instruction: string | null
+    file_type: 'csv' | 'xlsx' | 'pdf' | null
+    mapping_template_id: string | null
+    column_mapping: Partial<Record<Field, string>> | null
+    headers: string[] | null
+    header_row: number | null
+    summary: Summary | null
+    error_message: string | null
+    committed_by: string | null
+}
+
+interface Row {
+    id: string
+    row_number: number
+    sku: string | null
+    product_name: string | null
+    price: number | null
+    currency: string | null
+    supplier_price: number | null
+    previous_price: number | null
+    price_change_pct: number | null
+    change_type: ChangeType
+    error: string | null
+    included: boolean
+}
+
+interface Template {
+    id: string
+    name: string
+    column_mapping: Partial<Record<Field, string>>
+    header_row: number | null
+}
+
+const CHANGE_COLORS: Record<ChangeType, string> = {
+    new: 'bg-blue-100 text-blue-800',
+    changed: 'bg-yellow-100 text-yellow-800',
+    unchanged: 'bg-gray-100 text-gray-800',
+    invalid: 'bg-red-100 text-red-800'
+}
+
+const formatPrice = (amount: number | null) =>
+    amount == null ? '-' : `R${Number(amount).toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export default function PriceListPreviewPage() {
+    const { id } = useParams<{ id: string }>()
+    const [upload, setUpload] = useState<Upload | null>(null)
+    const [rows, setRows] = useState<Row[]>([])
+    const [templates, setTemplates] = useState<Template[]>([])
+    const [filter, setFilter] = useState<ChangeType | 'all'>('all')
+    const [mapping, setMapping] = useState<Partial<Record<Field, string>>>({})
+    const [headerRow, setHeaderRow] = useState('')
+    const [templateName, setTemplateName] = useState('')
+    const [busy, setBusy] = useState(false)
+    const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+    const fetchPreview = async () => {
+        const res = await fetch(`/api/price-lists/${id}`)
+        const data = await res.json()
+        if (!res.ok) {
+            setMessage({ type: 'error', text: data.error })
+            return
+        }
+        setUpload(data.upload)
+        setRows(data.rows)
+        setTemplates(data.templates)
+        setMapping(data.upload.column_mapping || {})
+        setHeaderRow(data.upload.header_row ? String(data.upload.header_row) : '')
+    }
+
+    useEffect(() => {
+        fetchPreview()
+    }, [id])
+
+    const post = async (path: string, body: object, method: string = 'POST') => {
+        setBusy(true)
+        setMessage(null)
+        try {
+            const res = await fetch(`/api/price-lists/${id}${path}`, {
+                method,
+                headers: await approverAuthHeaders(),
+                body: JSON.stringify(body)
+            })
+            const data = await res.json()
+            if (!res.ok) throw new Error(data.error)
+            return data
+        } catch (error: any) {
+            setMessage({ type: 'error', text: error.message })
+            return null
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleReprocess = async () => {
+        const data = await post('/process', {
+            column_mapping: mapping,
+            header_row: headerRow ? parseInt(headerRow, 10) : null,
+            save_template_name: templateName || undefined
+        })
+        if (data) {
+            setTemplateName('')
+            await fetchPreview()
+        }
+    }
+
+    const handleTemplate = (templateId: string) => {
+        const template = templates.find(t => t.id === templateId)
+        if (!template) return
+        setMapping(template.column_mapping)
+        setHeaderRow(template.header_row ? String(template.header_row) : '')
+    }
+
+    const toggleRows = async (rowIds: string[], included: boolean) => {
+        const data = await post('/rows', { row_ids: rowIds, included }, 'PATCH')
+        if (data) {
+            setRows(rows.map(row => rowIds.includes(row.id) ? { ...row, included } : row))
+        }
+    }
+
+    const handleCommit = async () => {
+        const data = await post('/commit', {})
+        if (data) {
+            const committed = data.upload.summary?.committed
+            setMessage({
+                type: 'success',
+                text: `Committed: ${committed?.added ?? 0} new products, ${committed?.updated ?? 0} prices updated, ${committed?.queued ?? 0} changes queued for review.`
+            })
+            await fetchPreview()
+        }
+    }
+
+    if (!upload) {
+        return (
+            <div className="min-h-screen bg-gray-50 p-8">
+                <div className="max-w-6xl mx-auto text-gray-500">{message?.text || 'Loading...'}</div>
+            </div>
+        )
+    }
+
+    const editable = upload.status === 'ready'
+    const visible = filter === 'all' ? rows : rows.filter(row => row.change_type === filter)
+    const selectable = visible.filter(row => row.change_type === 'new' || row.change_type === 'changed')
+    const includedCount = rows.filter(row => row.included && (row.change_type === 'new' || row.change_type === 'changed')).length
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-6xl mx-auto">
+                <div className="mb-8 flex items-start justify-between">
+                    <div>
+                        <Link href="/products/import" className="text-sm text-blue-600 hover:underline">← Import Pricelist</Link>
+                        <h1 className="text-3xl font-bold text-gray-900 mt-2">{upload.filename}</h1>
+                        <p className="text-gray-600 mt-2">
+                            {upload.supplier_name} · {upload.status === 'completed' ? `Committed by ${upload.committed_by}` : upload.status}
+                        </p>
+                    </div>
+                    {editable && upload.summary && (
+                        <button
+                            onClick={handleCommit}
+                            disabled={busy || includedCount === 0}
+                            className={`px-6 py-2 rounded-md text-white font-medium ${busy || includedCount === 0
+                                ? 'bg-gray-400 cursor-not-allowed'
+                                : 'bg-blue-600 hover:bg-blue-700'
+                                }`}
+                        >
+                            Commit {includedCount} Rows
+                        </button>
+                    )}
+                </div>
+
+                {message && (
+                    <div className={`p-4 rounded-md mb-6 ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {upload.error_message && (
+                    <div className="p-4 rounded-md mb-6 bg-red-50 text-red-700">{upload.error_message}</div>
+                )}
+
+                {upload.summary && (
+                    <div className="grid grid-cols-5 gap-4 mb-8">
+                        {(['new', 'changed', 'unchanged', 'invalid'] as ChangeType[]).map(type => (
+                            <button
+                                key={type}
+                                onClick={() => setFilter(filter === type ? 'all' : type)}
+                                className={`bg-white rounded-lg shadow-sm border p-4 text-left ${filter === type ? 'border-blue-500' : 'border-gray-200'}`}
+                            >
+                                <p className="text-sm text-gray-500 capitalize">{type}</p>
+                                <p className="text-2xl font-bold text-gray-900">{upload.summary![type]}</p>
+                            </button>
+                        ))}
+                        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4" title="Catalogue products of this supplier not in the list">
+                            <p className="text-sm text-gray-500">Not in list</p>
+                            <p className="text-2xl font-bold text-gray-900">{upload.summary.missing}</p>
+                        </div>
+                    </div>
+                )}
+
+                {editable && upload.file_type !== 'pdf' && upload.headers && (
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-medium text-gray-900">Column Mapping</h3>
+                            {templates.length > 0 && (
+                                <select
+                                    defaultValue=""
+                                    onChange={(e) => handleTemplate(e.target.value)}
+                                    className="pl-3 pr-10 py-2 border-gray-300 sm:text-sm rounded-md text-gray-900"
+                                >
+                                    <option value="" disabled>Load template...</option>
+                                    {templates.map(template => (
+                                        <option key={template.id} value={template.id}>{template.name}</option>
+                                    ))}
+                                </select>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-4 gap-4">
+                            {FIELDS.map(field => (
+                                <div key={field}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">{FIELD_LABELS[field]}</label>
+                                    <select
+                                        value={mapping[field] || ''}
+                                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                                        className="block w-full pl-3 pr-10 py-2 border-gray-300 sm:text-sm rounded-md text-gray-900"
+                                    >
+                                        <option value="">-</option>
+                                        {upload.headers!.map(header => (
+                                            <option key={header} value={header}>{header}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Header Row</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={headerRow}
+                                    onChange={(e) => setHeaderRow(e.target.value)}
+                                    className="block w-full pl-3 sm:text-sm border-gray-300 rounded-md text-gray-900"
+                                    placeholder="Auto"
+                                />
+                            </div>
+                        </div>
+                        <div className="flex items-end justify-end gap-4 mt-4">
+                            <input
+                                type="text"
+                                value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                                className="pl-3 sm:text-sm border-gray-300 rounded-md text-gray-900"
+                                placeholder="Save as template (optional)"
+                            />
+                            <button
+                                onClick={handleReprocess}
+                                disabled={busy}
+                                className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+                            >
+                                {busy ? 'Processing...' : 'Re-process'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-3 text-left">
+                                        {editable && selectable.length > 0 && (
+                                            <input
+                                                type="checkbox"
+                                                checked={selectable.every(row => row.included)}
+                                                onChange={(e) => toggleRows(selectable.map(row => row.id), e.target.checked)}
+                                            />
+                                        )}
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">New</th>
+                                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {visible.map(row => (
+                                    <tr key={row.id} className={row.included ? '' : 'opacity-50'}>
+                                        <td className="px-4 py-3">
+                                            {(row.change_type === 'new' || row.change_type === 'changed') && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={row.included}
+                                                    disabled={!editable || busy}
+                                                    onChange={(e) => toggleRows([row.id], e.target.checked)}
+                                                />
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-500">{row.row_number}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{row.sku || '-'}</td>
+                                        <td className="px-4 py-3 text-sm text-gray-700">{row.product_name || '-'}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-500">{formatPrice(row.previous_price)}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                                            {formatPrice(row.supplier_price)}
+                                            {row.currency && row.currency !== 'ZAR' && row.price != null && (
+                                                <span className="block text-xs text-gray-500">{row.currency} {Number(row.price).toFixed(2)}</span>
+                                            )}
+                                        </td>
+                                        <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${(row.price_change_pct || 0) > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {row.price_change_pct != null && row.change_type === 'changed'
+                                                ? `${row.price_change_pct > 0 ? '+' : ''}${Number(row.price_change_pct).toFixed(1)}%`
+                                                : ''}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${CHANGE_COLORS[row.change_type]}`}>
+                                                {row.change_type}
+                                            </span>
+                                            {row.error && <p className="text-xs text-red-500 mt-1">{row.error}</p>}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {visible.length === 0 && (
+                                    <tr>
+                                        <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                                            No rows.
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,23 +1,57 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import { createBrowserClient } from '@supabase/ssr'
+import { approverAuthHeaders } from '@/lib/approver-session'
 
 import UploadStatusList from '@/components/UploadStatusList'
 
+interface SupplierOption {
+    id: string
+    company: string
+}
+
+interface MappingTemplateOption {
+    id: string
+    name: string
+}
+
 export default function ImportProductsPage() {
-    // ... (existing state) ...
+    const router = useRouter()
     const [file, setFile] = useState<File | null>(null)
     const [instruction, setInstruction] = useState('retail')
     const [markup, setMarkup] = useState('')
     const [uploading, setUploading] = useState(false)
-    const [supplierName, setSupplierName] = useState('')
+    const [suppliers, setSuppliers] = useState<SupplierOption[]>([])
+    const [supplierId, setSupplierId] = useState('')
+    const [templates, setTemplates] = useState<MappingTemplateOption[]>([])
+    const [templateId, setTemplateId] = useState('')
     const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
     const supabase = createBrowserClient(
         process.env.NEXT_PUBLIC_SUPABASE_URL!,
         process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     )
 
+    useEffect(() => {
+        supabase
+            .from('suppliers')
+            .select('id, company')
+            .order('company')
+            .then(({ data }) => setSuppliers(data || []))
+    }, [])
+
+    useEffect(() => {
+        setTemplateId('')
+        if (!supplierId) {
+            setTemplates([])
+            return
+        }
+        fetch(`/api/price-lists/templates?supplier_id=${supplierId}`)
+            .then(res => res.json())
+            .then(data => setTemplates(data.templates || []))
+    }, [supplierId])
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             setFile(e.target.files[0])
@@ -26,7 +60,7 @@ export default function ImportProductsPage() {
     }
 
     const handleUpload = async () => {
-        if (!file) return
+        if (!file || !supplierId) return
 
         setUploading(true)
         setMessage(null)
@@ -40,22 +74,34 @@ export default function ImportProductsPage() {
             if (error) throw error
 
             // Create record in price_list_uploads
-            const { error: dbError } = await supabase
+            const { data: upload, error: dbError } = await supabase
                 .from('price_list_uploads')
                 .insert({
                     filename: file.name,
                     storage_path: data.path,
-                    supplier_name: 'Manual Upload',
+                    supplier_id: supplierId,
+                    supplier_name: suppliers.find(s => s.id === supplierId)?.company || 'Manual Upload',
                     status: 'pending',
                     uploaded_by: 'dashboard_user',
                     instruction: instruction,
                     markup_pct: markup ? parseFloat(markup) : null
                 })
+                .select('id')
+                .single()
 
             if (dbError) throw dbError
 
-            setMessage({ type: 'success', text: 'File uploaded successfully! Processing started.' })
+            // Parse and diff against the supplier's catalogue, then review the preview
+            const res = await fetch(`/api/price-lists/${upload.id}/process`, {
+                method: 'POST',
+                headers: await approverAuthHeaders(),
+                body: JSON.stringify({ template_id: templateId || null })
+            })
+            const result = await res.json()
+            if (!res.ok) throw new Error(result.error || 'Processing failed')
+
             setFile(null)
+            router.push(`/products/import/${upload.id}`)
         } catch (error: any) {
             console.error('Upload failed:', error)
             setMessage({ type: 'error', text: error.message || 'Upload failed' })
@@ -75,6 +121,45 @@ export default function ImportProductsPage() {
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 mb-8">
                     <div className="space-y-6">
 
+                        {/* Supplier Selection */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Supplier
+                            </label>
+                            <select
+                                value={supplierId}
+                                onChange={(e) => setSupplierId(e.target.value)}
+                                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md text-gray-900"
+                            >
+                                <option value="">Select supplier...</option>
+                                {suppliers.map(supplier => (
+                                    <option key={supplier.id} value={supplier.id}>{supplier.company}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Column Mapping Template */}
+                        {templates.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    Column Mapping
+                                </label>
+                                <select
+                                    value={templateId}
+                                    onChange={(e) => setTemplateId(e.target.value)}
+                                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md text-gray-900"
+                                >
+                                    <option value="">Latest template ({templates[0].name})</option>
+                                    {templates.map(template => (
+                                        <option key={template.id} value={template.id}>{template.name}</option>
+                                    ))}
+                                </select>
+                                <p className="mt-1 text-sm text-gray-500">
+                                    Which columns hold the SKU, description and price. Can be changed in the preview.
+                                </p>
+                            </div>
+                        )}
+
                         {/* Price Type Selection */}
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -90,7 +175,7 @@ export default function ImportProductsPage() {
                                 <option value="retail">Retail Price - Use As Is</option>
                             </select>
                             <p className="mt-1 text-sm text-gray-500">
-                                Tell the AI how to interpret the prices in the file.
+                                How to interpret the prices in the file.
                             </p>
                         </div>
 
@@ -125,7 +210,7 @@ export default function ImportProductsPage() {
                                     id="file-upload"
                                     className="hidden"
                                     onChange={handleFileChange}
-                                    accept=".csv,.xlsx,.xls,.pdf"
+                                    accept=".csv,.xlsx,.pdf"
                                 />
                                 <div className="space-y-2">
                                     <div className="mx-auto h-12 w-12 text-gray-400">
@@ -136,7 +221,7 @@ export default function ImportProductsPage() {
                                     <div className="text-gray-600">
                                         <span className="text-blue-600 font-medium">Click to upload</span> or drag and drop
                                     </div>
-                                    <p className="text-xs text-gray-500">CSV, Excel, or PDF up to 10MB</p>
+                                    <p className="text-xs text-gray-500">CSV, Excel (.xlsx), or PDF up to 10MB</p>
                                 </div>
                             </label>
                         </div>
@@ -174,13 +259,13 @@ export default function ImportProductsPage() {
                         <div className="flex justify-end">
                             <button
                                 onClick={handleUpload}
-                                disabled={!file || uploading}
-                                className={`px-6 py-2 rounded-md text-white font-medium ${!file || uploading
+                                disabled={!file || !supplierId || uploading}
+                                className={`px-6 py-2 rounded-md text-white font-medium ${!file || !supplierId || uploading
                                     ? 'bg-gray-400 cursor-not-allowed'
                                     : 'bg-blue-600 hover:bg-blue-700'
                                     }`}
                             >
-                                {uploading ? 'Uploading...' : 'Process Pricelist'}
+                                {uploading ? 'Processing...' : 'Process Pricelist'}
                             </button>
                         </div>
                     </div>
@@ -0,0 +1,1694 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { 
+  Settings, 
+  Key, 
+  Mail, 
+  Facebook, 
+  Twitter, 
+  Instagram, 
+  Linkedin,
+  Youtube,
+  Globe,
+  Bell,
+  Clock,
+  DollarSign,
+  Power,
+  Save,
+  Eye,
+  EyeOff,
+  Plus,
+  Trash2,
+  Check,
+  X,
+  AlertCircle,
+  ShieldCheck,
+  Pencil,
+  UserCheck,
+  CalendarClock
+} from 'lucide-react'
+import { approverAuthHeaders, sendApproverSignInLink, signOutApprover } from '@/lib/approver-session'
+import type {
+  ApprovalPolicy,
+  ApprovalPolicyEvaluation,
+  Approver,
+  ApproverDelegation,
+  ApproverRole,
+  PolicyCondition
+} from '@/types/squad'
+
+type AgentConfig = {
+  id: string
+  name: string
+  enabled: boolean
+  schedule: {
+    enabled: boolean
+    intervals: string[]
+    timezone: string
+  }
+  token_budget: {
+    daily_limit: number
+    per_request_max: number
+    current_usage: number
+  }
+  behavior_settings: {
+    auto_approve: boolean
+    require_review: boolean
+    max_retries: number
+    timeout_seconds: number
+  }
+}
+
+type APICredential = {
+  id: string
+  service: string
+  key_name: string
+  key_value: string
+  expires_at: string | null
+  created_at: string
+}
+
+type NotificationPreference = {
+  id: string
+  event_type: string
+  enabled: boolean
+  channels: string[]
+  kenny_mentions_only: boolean
+}
+
+export default function AgentSettingsPage() {
+  const [activeTab, setActiveTab] = useState<'agents' | 'credentials' | 'notifications' | 'policies' | 'approvers'>('agents')
+  const [agents, setAgents] = useState<AgentConfig[]>([])
+  const [credentials, setCredentials] = useState<APICredential[]>([])
+  const [notifications, setNotifications] = useState<NotificationPreference[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showNewCredentialModal, setShowNewCredentialModal] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const [agentsData, credsData, notifsData] = await Promise.all([
+        supabase.from('agent_configs').select('*'),
+        supabase.from('api_credentials').select('*'),
+        supabase.from('notification_preferences').select('*')
+      ])
+
+      if (agentsData.data) setAgents(agentsData.data)
+      if (credsData.data) setCredentials(credsData.data)
+      if (notifsData.data) setNotifications(notifsData.data)
+    } catch (error) {
+      console.error('Failed to load settings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveAgentConfig = async (agentId: string, updates: Partial<AgentConfig>) => {
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('agent_configs')
+        .update(updates)
+        .eq('id', agentId)
+
+      if (!error) {
+        setAgents(agents.map(a => a.id === agentId ? { ...a, ...updates } : a))
+      }
+    } catch (error) {
+      console.error('Failed to save agent config:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveCredential = async (cred: Partial<APICredential>) => {
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('api_credentials')
+        .insert([cred])
+
+      if (!error) {
+        await loadData()
+        setShowNewCredentialModal(false)
+      }
+    } catch (error) {
+      console.error('Failed to save credential:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteCredential = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this credential?')) return
+    
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('api_credentials')
+        .delete()
+        .eq('id', id)
+
+      if (!error) {
+        setCredentials(credentials.filter(c => c.id !== id))
+      }
+    } catch (error) {
+      console.error('Failed to delete credential:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveNotificationPreference = async (notifId: string, updates: Partial<NotificationPreference>) => {
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .update(updates)
+        .eq('id', notifId)
+
+      if (!error) {
+        setNotifications(notifications.map(n => n.id === notifId ? { ...n, ...updates } : n))
+      }
+    } catch (error) {
+      console.error('Failed to save notification preference:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-gray-400">Loading settings...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Agent Settings</h1>
+          <p className="text-gray-400 mt-1">Configure AI agents, credentials, notifications, approval policies, and approvers</p>
+        </div>
+        <Settings className="text-lime-400" size={32} />
+      </div>
+
+      <div className="flex gap-2 border-b border-white/5">
+        <button
+          onClick={() => setActiveTab('agents')}
+          className={`px-6 py-3 font-medium transition-colors border-b-2 ${
+            activeTab === 'agents'
+              ? 'text-lime-400 border-lime-400'
+              : 'text-gray-400 border-transparent hover:text-white'
+          }`}
+        >
+          Agent Configuration
+        </button>
+        <button
+          onClick={() => setActiveTab('credentials')}
+          className={`px-6 py-3 font-medium transition-colors border-b-2 ${
+            activeTab === 'credentials'
+              ? 'text-lime-400 border-lime-400'
+              : 'text-gray-400 border-transparent hover:text-white'
+          }`}
+        >
+          API Credentials
+        </button>
+        <button
+          onClick={() => setActiveTab('notifications')}
+          className={`px-6 py-3 font-medium transition-colors border-b-2 ${
+            activeTab === 'notifications'
+              ? 'text-lime-400 border-lime-400'
+              : 'text-gray-400 border-transparent hover:text-white'
+          }`}
+        >
+          Notifications
+        </button>
+        <button
+          onClick={() => setActiveTab('policies')}
+          className={`px-6 py-3 font-medium transition-colors border-b-2 ${
+            activeTab === 'policies'
+              ? 'text-lime-400 border-lime-400'
+              : 'text-gray-400 border-transparent hover:text-white'
+          }`}
+        >
+          Approval Policies
+        </button>
+        <button
+          onClick={() => setActiveTab('approvers')}
+          className={`px-6 py-3 font-medium transition-colors border-b-2 ${
+            activeTab === 'approvers'
+              ? 'text-lime-400 border-lime-400'
+              : 'text-gray-400 border-transparent hover:text-white'
+          }`}
+        >
+          Approvers
+        </button>
+      </div>
+
+      <div className="mt-6">
+        {activeTab === 'agents' && (
+          <AgentsTab 
+            agents={agents} 
+            onSave={saveAgentConfig}
+            saving={saving}
+          />
+        )}
+        {activeTab === 'credentials' && (
+          <CredentialsTab 
+            credentials={credentials}
+            onDelete={deleteCredential}
+            onAdd={() => setShowNewCredentialModal(true)}
+            saving={saving}
+          />
+        )}
+        {activeTab === 'notifications' && (
+          <NotificationsTab 
+            notifications={notifications}
+            onSave={saveNotificationPreference}
+            saving={saving}
+          />
+        )}
+        {activeTab === 'policies' && (
+          <PoliciesTab agentNames={agents.map(a => a.name)} />
+        )}
+        {activeTab === 'approvers' && <ApproversTab />}
+      </div>
+
+      {showNewCredentialModal && (
+        <NewCredentialModal
+          onClose={() => setShowNewCredentialModal(false)}
+          onSave={saveCredential}
+          saving={saving}
+        />
+      )}
+    </div>
+  )
+}
+
+function AgentsTab({ agents, onSave, saving }: { 
+  agents: AgentConfig[]
+  onSave: (id: string, updates: Partial<AgentConfig>) => void
+  saving: boolean
+}) {
+  const [expandedAgent, setExpandedAgent] = useState<string | null>(null)
+
+  return (
+    <div className="space-y-4">
+      {agents.map(agent => (
+        <div key={agent.id} className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-4">
+              <div className={`w-3 h-3 rounded-full ${agent.enabled ? 'bg-lime-400 animate-pulse' : 'bg-gray-500'}`} />
+              <div>
+                <h3 className="text-lg font-semibold text-white">{agent.name}</h3>
+                <p className="text-sm text-gray-400">
+                  Token Budget: ${agent.token_budget.current_usage.toFixed(2)} / ${agent.token_budget.daily_limit.toFixed(2)}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => onSave(agent.id, { enabled: !agent.enabled })}
+                disabled={saving}
+                className={`px-4 py-2 rounded-xl font-medium transition-colors flex items-center gap-2 ${
+                  agent.enabled
+                    ? 'bg-lime-400/10 text-lime-400 hover:bg-lime-400/20'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                <Power size={16} />
+                {agent.enabled ? 'Enabled' : 'Disabled'}
+              </button>
+              <button
+                onClick={() => setExpandedAgent(expandedAgent === agent.id ? null : agent.id)}
+                className="p-2 rounded-xl bg-white/5 hover:bg-white/10 transition-colors"
+              >
+                <Settings size={18} className="text-gray-400" />
+              </button>
+            </div>
+          </div>
+
+          {expandedAgent === agent.id && (
+            <AgentConfigForm 
+              agent={agent} 
+              onSave={(updates) => onSave(agent.id, updates)}
+              saving={saving}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function AgentConfigForm({ agent, onSave, saving }: {
+  agent: AgentConfig
+  onSave: (updates: Partial<AgentConfig>) => void
+  saving: boolean
+}) {
+  const [localAgent, setLocalAgent] = useState(agent)
+  const [scheduleInterval, setScheduleInterval] = useState('')
+
+  const handleSave = () => {
+    onSave(localAgent)
+  }
+
+  const addScheduleInterval = () => {
+    if (!scheduleInterval.trim()) return
+    setLocalAgent({
+      ...localAgent,
+      schedule: {
+        ...localAgent.schedule,
+        intervals: [...localAgent.schedule.intervals, scheduleInterval]
+      }
+    })
+    setScheduleInterval('')
+  }
+
+  const removeScheduleInterval = (index: number) => {
+    setLocalAgent({
+      ...localAgent,
+      schedule: {
+        ...localAgent.schedule,
+        intervals: localAgent.schedule.intervals.filter((_, i) => i !== index)
+      }
+    })
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/5 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
+            <Clock size={16} className="text-lime-400" />
+            Schedule Configuration
+          </h4>
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id={`schedule-enabled-${agent.id}`}
+                checked={localAgent.schedule.enabled}
+                onChange={(e) => setLocalAgent({
+                  ...localAgent,
+                  schedule: { ...localAgent.schedule, enabled: e.target.checked }
+                })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-lime-400 focus:ring-lime-500"
+              />
+              <label htmlFor={`schedule-enabled-${agent.id}`} className="text-sm text-gray-300">
+                Enable scheduled execution
+              </label>
+            </div>
+            
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Timezone</label>
+              <input
+                type="text"
+                value={localAgent.schedule.timezone}
+                onChange={(e) => setLocalAgent({
+                  ...localAgent,
+                  schedule: { ...localAgent.schedule, timezone: e.target.value }
+                })}
+                className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+                placeholder="UTC, Africa/Johannesburg, etc."
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Run Intervals (cron format)</label>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  value={scheduleInterval}
+                  onChange={(e) => setScheduleInterval(e.target.value)}
+                  className="flex-1 px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+                  placeholder="*/5 * * * * (every 5 minutes)"
+                />
+                <button
+                  onClick={addScheduleInterval}
+                  className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black rounded-xl transition-colors"
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+              <div className="space-y-2">
+                {localAgent.schedule.intervals.map((interval, index) => (
+                  <div key={index} className="flex items-center justify-between p-2 bg-white/5 rounded-lg">
+                    <span className="text-sm text-gray-300 font-mono">{interval}</span>
+                    <button
+                      onClick={() => removeScheduleInterval(index)}
+                      className="p-1 hover:bg-red-500/20 rounded text-red-400 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
+            <DollarSign size={16} className="text-lime-400" />
+            Token Budget
+          </h4>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Daily Limit ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={localAgent.token_budget.daily_limit}
+                onChange={(e) => setLocalAgent({
+                  ...localAgent,
+                  token_budget: { ...localAgent.token_budget, daily_limit: parseFloat(e.target.value) }
+                })}
+                className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Per Request Max ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={localAgent.token_budget.per_request_max}
+                onChange={(e) => setLocalAgent({
+                  ...localAgent,
+                  token_budget: { ...localAgent.token_budget, per_request_max: parseFloat(e.target.value) }
+                })}
+                className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+              />
+            </div>
+            <div className="p-4 bg-lime-400/10 border border-lime-400/20 rounded-xl">
+              <div className="text-sm text-gray-400 mb-1">Current Usage</div>
+              <div className="text-2xl font-bold text-lime-400">
+                ${localAgent.token_budget.current_usage.toFixed(2)}
+              </div>
+              <div className="mt-2 h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div 
+                  className="h-full bg-gradient-to-r from-lime-400 to-emerald-400"
+                  style={{ width: `${Math.min((localAgent.token_budget.current_usage / localAgent.token_budget.daily_limit) * 100, 100)}%` }}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
+          <Settings size={16} className="text-lime-400" />
+          Behavior Settings
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id={`auto-approve-${agent.id}`}
+              checked={localAgent.behavior_settings.auto_approve}
+              onChange={(e) => setLocalAgent({
+                ...localAgent,
+                behavior_settings: { ...localAgent.behavior_settings, auto_approve: e.target.checked }
+              })}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-lime-400 focus:ring-lime-500"
+            />
+            <label htmlFor={`auto-approve-${agent.id}`} className="text-sm text-gray-300">
+              Auto-approve actions
+            </label>
+          </div>
+          
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id={`require-review-${agent.id}`}
+              checked={localAgent.behavior_settings.require_review}
+              onChange={(e) => setLocalAgent({
+                ...localAgent,
+                behavior_settings: { ...localAgent.behavior_settings, require_review: e.target.checked }
+              })}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-lime-400 focus:ring-lime-500"
+            />
+            <label htmlFor={`require-review-${agent.id}`} className="text-sm text-gray-300">
+              Require human review
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Max Retries</label>
+            <input
+              type="number"
+              value={localAgent.behavior_settings.max_retries}
+              onChange={(e) => setLocalAgent({
+                ...localAgent,
+                behavior_settings: { ...localAgent.behavior_settings, max_retries: parseInt(e.target.value) }
+              })}
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Timeout (seconds)</label>
+            <input
+              type="number"
+              value={localAgent.behavior_settings.timeout_seconds}
+              onChange={(e) => setLocalAgent({
+                ...localAgent,
+                behavior_settings: { ...localAgent.behavior_settings, timeout_seconds: parseInt(e.target.value) }
+              })}
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-3 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors disabled:opacity-50 flex items-center gap-2"
+        >
+          <Save size={16} />
+          Save Changes
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function CredentialsTab({ credentials, onDelete, onAdd, saving }: {
+  credentials: APICredential[]
+  onDelete: (id: string) => void
+  onAdd: () => void
+  saving: boolean
+}) {
+  const [showValues, setShowValues] = useState<Record<string, boolean>>({})
+
+  const getServiceIcon = (service: string) => {
+    switch (service.toLowerCase()) {
+      case 'gmail': return <Mail size={20} />
+      case 'facebook': return <Facebook size={20} />
+      case 'twitter': return <Twitter size={20} />
+      case 'instagram': return <Instagram size={20} />
+      case 'linkedin': return <Linkedin size={20} />
+      case 'youtube': return <Youtube size={20} />
+      case 'google_ads': return <Globe size={20} />
+      default: return <Key size={20} />
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">API Credentials</h3>
+          <p className="text-sm text-gray-400">Manage authentication keys for external services</p>
+        </div>
+        <button
+          onClick={onAdd}
+          className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Plus size={16} />
+          Add Credential
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {credentials.map(cred => (
+          <div key={cred.id} className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-3 rounded-xl bg-lime-400/10 text-lime-400">
+                  {getServiceIcon(cred.service)}
+                </div>
+                <div>
+                  <h4 className="font-semibold text-white">{cred.service}</h4>
+                  <p className="text-sm text-gray-400">{cred.key_name}</p>
+                </div>
+              </div>
+              <button
+                onClick={() => onDelete(cred.id)}
+                disabled={saving}
+                className="p-2 hover:bg-red-500/20 rounded-xl text-red-400 transition-colors"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type={showValues[cred.id] ? 'text' : 'password'}
+                  value={cred.key_value}
+                  readOnly
+                  className="flex-1 px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white text-sm font-mono"
+                />
+                <button
+                  onClick={() => setShowValues({ ...showValues, [cred.id]: !showValues[cred.id] })}
+                  className="p-2 hover:bg-white/10 rounded-xl text-gray-400 transition-colors"
+                >
+                  {showValues[cred.id] ? <EyeOff size={16} /> : <Eye size={16} />}
+                </button>
+              </div>
+              {cred.expires_at && (
+                <p className="text-xs text-gray-500">
+                  Expires: {new Date(cred.expires_at).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {credentials.length === 0 && (
+        <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-12 text-center">
+          <Key size={48} className="text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No credentials configured</h3>
+          <p className="text-gray-400 mb-6">Add API keys and OAuth tokens to enable agent integrations</p>
+          <button
+            onClick={onAdd}
+            className="px-6 py-3 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors"
+          >
+            Add Your First Credential
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function NotificationsTab({ notifications, onSave, saving }: {
+  notifications: NotificationPreference[]
+  onSave: (id: string, updates: Partial<NotificationPreference>) => void
+  saving: boolean
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-white">Notification Preferences</h3>
+        <p className="text-sm text-gray-400">Configure when and how you receive notifications</p>
+      </div>
+
+      <div className="space-y-4">
+        {notifications.map(notif => (
+          <div key={notif.id} className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <Bell className="text-lime-400" size={20} />
+                <div>
+                  <h4 className="font-semibold text-white capitalize">
+                    {notif.event_type.replace(/_/g, ' ')}
+                  </h4>
+                  <p className="text-sm text-gray-400">
+                    Channels: {notif.channels.join(', ') || 'None'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => onSave(notif.id, { enabled: !notif.enabled })}
+                disabled={saving}
+                className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+                  notif.enabled
+                    ? 'bg-lime-400/10 text-lime-400'
+                    : 'bg-gray-800 text-gray-400'
+                }`}
+              >
+                {notif.enabled ? 'Enabled' : 'Disabled'}
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl border border-white/5">
+                <input
+                  type="checkbox"
+                  id={`kenny-only-${notif.id}`}
+                  checked={notif.kenny_mentions_only}
+                  onChange={(e) => onSave(notif.id, { kenny_mentions_only: e.target.checked })}
+                  disabled={saving}
+                  className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-lime-400 focus:ring-lime-500"
+                />
+                <label htmlFor={`kenny-only-${notif.id}`} className="text-sm text-gray-300 flex items-center gap-2">
+                  <AlertCircle size={16} className="text-lime-400" />
+                  Only notify for Kenny mentions
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-2">Notification Channels</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {['email', 'slack', 'sms', 'dashboard'].map(channel => (
+                    <button
+                      key={channel}
+                      onClick={() => {
+                        const newChannels = notif.channels.includes(channel)
+                          ? notif.channels.filter(c => c !== channel)
+                          : [...notif.channels, channel]
+                        onSave(notif.id, { channels: newChannels })
+                      }}
+                      disabled={saving}
+                      className={`px-4 py-2 rounded-xl text-sm font-medium transition-colors capitalize ${
+                        notif.channels.includes(channel)
+                          ? 'bg-lime-400/10 text-lime-400 border border-lime-400/20'
+                          : 'bg-white/5 text-gray-400 border border-white/5 hover:bg-white/10'
+                      }`}
+                    >
+                      {notif.channels.includes(channel) && <Check size={14} className="inline mr-1" />}
+                      {channel}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {notifications.length === 0 && (
+        <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-12 text-center">
+          <Bell size={48} className="text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No notification preferences</h3>
+          <p className="text-gray-400">Notification settings will appear here once configured</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const POLICY_FIELDS = ['title', 'amount', 'customer_segment', 'time_of_day', 'priority', 'metadata.']
+const POLICY_OPERATORS: PolicyCondition['operator'][] = [
+  'eq', 'neq', 'in', 'not_in', 'contains', 'contains_any', 'gt', 'gte', 'lt', 'lte', 'exists', 'between'
+]
+const LIST_OPERATORS = ['in', 'not_in', 'contains_any', 'between']
+
+const severityColors: Record<string, string> = {
+  urgent: 'bg-red-500/10 text-red-400 border-red-500/20',
+  high: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  low: 'bg-lime-400/10 text-lime-400 border-lime-400/20'
+}
+
+function parseConditionValue(operator: string, raw: string): any {
+  const toScalar = (v: string) => {
+    const trimmed = v.trim()
+    return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed
+  }
+  if (operator === 'exists') return undefined
+  if (LIST_OPERATORS.includes(operator)) return raw.split(',').map(toScalar).filter(v => v !== '')
+  return toScalar(raw)
+}
+
+function formatConditionValue(value: any): string {
+  if (value === undefined || value === null) return ''
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+function PoliciesTab({ agentNames }: { agentNames: string[] }) {
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([])
+  const [evaluations, setEvaluations] = useState<ApprovalPolicyEvaluation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<Partial<ApprovalPolicy> | null>(null)
+
+  useEffect(() => {
+    loadPolicies()
+  }, [])
+
+  const loadPolicies = async () => {
+    setLoading(true)
+    try {
+      const [policiesRes, evaluationsRes] = await Promise.all([
+        fetch('/api/approval-policies'),
+        fetch('/api/approval-policies/evaluations?limit=20')
+      ])
+      const policiesData = await policiesRes.json()
+      const evaluationsData = await evaluationsRes.json()
+
+      if (policiesRes.ok) setPolicies(policiesData.policies || [])
+      if (evaluationsRes.ok) setEvaluations(evaluationsData.evaluations || [])
+    } catch (error) {
+      console.error('Failed to load approval policies:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const savePolicy = async (policy: Partial<ApprovalPolicy>) => {
+    setSaving(true)
+    try {
+      const response = await fetch(
+        policy.id ? `/api/approval-policies/${policy.id}` : '/api/approval-policies',
+        {
+          method: policy.id ? 'PATCH' : 'POST',
+          headers: await approverAuthHeaders(),
+          body: JSON.stringify(policy)
+        }
+      )
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      await loadPolicies()
+      setEditing(null)
+    } catch (error: any) {
+      console.error('Failed to save policy:', error)
+      alert('Failed to save policy: ' + error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deletePolicy = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this policy?')) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/approval-policies/${id}`, { method: 'DELETE', headers: await approverAuthHeaders() })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      setPolicies(policies.filter(p => p.id !== id))
+    } catch (error: any) {
+      console.error('Failed to delete policy:', error)
+      alert('Failed to delete policy: ' + error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-400">Loading policies...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Approval Policies</h3>
+          <p className="text-sm text-gray-400">
+            Highest priority first - the first matching policy decides. Tasks matching no policy require approval.
+          </p>
+        </div>
+        <button
+          onClick={() => setEditing({
+            name: '',
+            action: 'require_approval',
+            severity: 'medium',
+            conditions: [],
+            amount_field: 'metadata.amount',
+            required_approvals: 1,
+            priority: 0,
+            enabled: true
+          })}
+          className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Plus size={16} />
+          Add Policy
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {policies.map(policy => (
+          <div
+            key={policy.id}
+            className={`bg-[#1c1c1c] border border-white/5 rounded-2xl p-5 ${policy.enabled ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap mb-2">
+                  <h4 className="font-semibold text-white">{policy.name}</h4>
+                  <span className={`px-2 py-0.5 rounded-full text-xs border ${severityColors[policy.severity]}`}>
+                    {policy.severity}
+                  </span>
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-white/5 text-gray-300 border border-white/10">
+                    {policy.action === 'auto_execute' ? 'auto-execute' : 'require approval'}
+                  </span>
+                  {policy.required_role && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-blue-500/10 text-blue-400 border border-blue-500/20">
+                      {policy.required_role}
+                    </span>
+                  )}
+                  {policy.required_approvals > 1 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-purple-500/10 text-purple-400 border border-purple-500/20">
+                      {policy.required_approvals} approvers
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-400 mb-2">
+                  {policy.agent || 'All agents'} · priority {policy.priority}
+                  {policy.auto_approve_below != null && ` · auto-approve below ${policy.auto_approve_below} (${policy.amount_field})`}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {(policy.conditions || []).map((condition, index) => (
+                    <span key={index} className="px-2 py-1 bg-white/5 rounded-lg text-xs text-gray-300 font-mono">
+                      {condition.field} {condition.operator} {formatConditionValue(condition.value)}
+                    </span>
+                  ))}
+                  {(policy.conditions || []).length === 0 && (
+                    <span className="text-xs text-gray-500">Matches every task for this agent</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => savePolicy({ id: policy.id, enabled: !policy.enabled })}
+                  disabled={saving}
+                  className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-colors ${
+                    policy.enabled
+                      ? 'bg-lime-400/10 text-lime-400 hover:bg-lime-400/20'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {policy.enabled ? 'Enabled' : 'Disabled'}
+                </button>
+                <button
+                  onClick={() => setEditing(policy)}
+                  className="p-2 rounded-xl bg-white/5 hover:bg-white/10 text-gray-400 transition-colors"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => deletePolicy(policy.id)}
+                  disabled={saving}
+                  className="p-2 hover:bg-red-500/20 rounded-xl text-red-400 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {policies.length === 0 && (
+        <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-12 text-center">
+          <ShieldCheck size={48} className="text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-white mb-2">No approval policies</h3>
+          <p className="text-gray-400">Every task will require approval until policies are added</p>
+        </div>
+      )}
+
+      {evaluations.length > 0 && (
+        <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+          <h4 className="text-sm font-semibold text-white mb-4 flex items-center gap-2">
+            <ShieldCheck size={16} className="text-lime-400" />
+            Recent Decisions
+          </h4>
+          <div className="space-y-2">
+            {evaluations.map(evaluation => (
+              <div key={evaluation.id} className="flex items-center justify-between gap-4 p-2 bg-white/5 rounded-lg text-sm">
+                <div className="min-w-0">
+                  <span className="text-gray-300">{evaluation.policy_name || 'No policy matched'}</span>
+                  <span className="text-gray-500"> · task {evaluation.task_id.slice(0, 8)}</span>
+                </div>
+                <div className="flex items-center gap-2 whitespace-nowrap">
+                  <span className="text-xs text-gray-400">{evaluation.decision.replace(/_/g, ' ')}</span>
+                  <span className="text-xs text-gray-500">{new Date(evaluation.evaluated_at).toLocaleString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <PolicyEditorModal
+          policy={editing}
+          agentNames={agentNames}
+          onClose={() => setEditing(null)}
+          onSave={savePolicy}
+          saving={saving}
+        />
+      )}
+    </div>
+  )
+}
+
+function PolicyEditorModal({ policy, agentNames, onClose, onSave, saving }: {
+  policy: Partial<ApprovalPolicy>
+  agentNames: string[]
+  onClose: () => void
+  onSave: (policy: Partial<ApprovalPolicy>) => void
+  saving: boolean
+}) {
+  const [localPolicy, setLocalPolicy] = useState<Partial<ApprovalPolicy>>(policy)
+  const [conditionValues, setConditionValues] = useState<string[]>(
+    (policy.conditions || []).map(c => formatConditionValue(c.value))
+  )
+
+  const conditions = localPolicy.conditions || []
+
+  const updateCondition = (index: number, updates: Partial<PolicyCondition>) => {
+    setLocalPolicy({
+      ...localPolicy,
+      conditions: conditions.map((c, i) => i === index ? { ...c, ...updates } : c)
+    })
+  }
+
+  const addCondition = () => {
+    setLocalPolicy({ ...localPolicy, conditions: [...conditions, { field: 'title', operator: 'contains', value: '' }] })
+    setConditionValues([...conditionValues, ''])
+  }
+
+  const removeCondition = (index: number) => {
+    setLocalPolicy({ ...localPolicy, conditions: conditions.filter((_, i) => i !== index) })
+    setConditionValues(conditionValues.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      ...localPolicy,
+      agent: localPolicy.agent || null,
+      required_role: localPolicy.required_role || null,
+      conditions: conditions.map((c, i) => ({ ...c, value: parseConditionValue(c.operator, conditionValues[i] || '') }))
+    })
+  }
+
+  const inputClass = 'w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#1c1c1c] border border-white/10 rounded-2xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white">{policy.id ? 'Edit Policy' : 'Add Policy'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Name</label>
+              <input
+                type="text"
+                value={localPolicy.name || ''}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, name: e.target.value })}
+                required
+                className={inputClass}
+                placeholder="e.g., Large refunds"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Agent</label>
+              <select
+                value={localPolicy.agent || ''}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, agent: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">All agents</option>
+                {Array.from(new Set([...agentNames, ...(localPolicy.agent ? [localPolicy.agent] : [])])).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Action</label>
+              <select
+                value={localPolicy.action}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, action: e.target.value as ApprovalPolicy['action'] })}
+                className={inputClass}
+              >
+                <option value="require_approval">Require approval</option>
+                <option value="auto_execute">Auto-execute</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Severity</label>
+              <select
+                value={localPolicy.severity}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, severity: e.target.value as ApprovalPolicy['severity'] })}
+                className={inputClass}
+              >
+                {['low', 'medium', 'high', 'urgent'].map(s => (
+                  <option key={s} value={s}>{s}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Required Approver Role</label>
+              <select
+                value={localPolicy.required_role || ''}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, required_role: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any approver</option>
+                {['sales', 'accounts', 'marketing'].map(role => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Required Approvals</label>
+              <input
+                type="number"
+                min={1}
+                value={localPolicy.required_approvals ?? 1}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, required_approvals: Math.max(1, parseInt(e.target.value) || 1) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Priority</label>
+              <input
+                type="number"
+                value={localPolicy.priority ?? 0}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, priority: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Auto-approve Below (amount)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={localPolicy.auto_approve_below ?? ''}
+                onChange={(e) => setLocalPolicy({
+                  ...localPolicy,
+                  auto_approve_below: e.target.value === '' ? null : parseFloat(e.target.value)
+                })}
+                className={inputClass}
+                placeholder="Leave empty to always require approval"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Amount Field</label>
+              <input
+                type="text"
+                value={localPolicy.amount_field || ''}
+                onChange={(e) => setLocalPolicy({ ...localPolicy, amount_field: e.target.value })}
+                className={`${inputClass} font-mono text-sm`}
+                placeholder="metadata.amount"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm text-gray-400">Conditions (all must match)</label>
+              <button
+                type="button"
+                onClick={addCondition}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 text-gray-300 rounded-lg text-sm transition-colors flex items-center gap-1"
+              >
+                <Plus size={14} />
+                Add Condition
+              </button>
+            </div>
+            <div className="space-y-2">
+              {conditions.map((condition, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    list="policy-fields"
+                    value={condition.field}
+                    onChange={(e) => updateCondition(index, { field: e.target.value })}
+                    className={`${inputClass} font-mono text-sm`}
+                    placeholder="metadata.email_category"
+                  />
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(index, { operator: e.target.value as PolicyCondition['operator'] })}
+                    className={`${inputClass} w-40`}
+                  >
+                    {POLICY_OPERATORS.map(op => (
+                      <option key={op} value={op}>{op}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={conditionValues[index] || ''}
+                    onChange={(e) => setConditionValues(conditionValues.map((v, i) => i === index ? e.target.value : v))}
+                    disabled={condition.operator === 'exists'}
+                    className={`${inputClass} font-mono text-sm disabled:opacity-50`}
+                    placeholder={LIST_OPERATORS.includes(condition.operator) ? 'a, b (18:00, 07:00 for time)' : 'value'}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeCondition(index)}
+                    className="p-2 hover:bg-red-500/20 rounded-xl text-red-400 transition-colors"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <datalist id="policy-fields">
+                {POLICY_FIELDS.map(field => (
+                  <option key={field} value={field} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl transition-colors border border-white/10"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Policy'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+const APPROVER_ROLE_OPTIONS: ApproverRole[] = ['sales', 'accounts', 'marketing', 'admin']
+
+function ApproversTab() {
+  const [approvers, setApprovers] = useState<Approver[]>([])
+  const [delegations, setDelegations] = useState<ApproverDelegation[]>([])
+  const [me, setMe] = useState<Approver | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [signInEmail, setSignInEmail] = useState('')
+  const [newApprover, setNewApprover] = useState({ name: '', email: '' })
+  const [newDelegation, setNewDelegation] = useState({ delegator_id: '', delegate_id: '', ends_at: '', reason: '' })
+
+  useEffect(() => {
+    loadApprovers()
+  }, [])
+
+  const loadApprovers = async () => {
+    setLoading(true)
+    try {
+      const headers = await approverAuthHeaders()
+      const [approversRes, meRes] = await Promise.all([
+        fetch('/api/approvers'),
+        fetch('/api/approvers/me', { headers })
+      ])
+      const approversData = await approversRes.json()
+
+      if (approversRes.ok) {
+        setApprovers(approversData.approvers || [])
+        setDelegations(approversData.delegations || [])
+      }
+      setMe(meRes.ok ? (await meRes.json()).approver : null)
+    } catch (error) {
+      console.error('Failed to load approvers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const callApi = async (url: string, method: string, body?: Record<string, any>) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: await approverAuthHeaders(),
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      await loadApprovers()
+      return true
+    } catch (error: any) {
+      console.error(`Failed to ${method} ${url}:`, error)
+      alert('Failed to save: ' + error.message)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleRole = (approver: Approver, role: ApproverRole) => {
+    const roles = approver.roles.includes(role)
+      ? approver.roles.filter(r => r !== role)
+      : [...approver.roles, role]
+    callApi(`/api/approvers/${approver.id}`, 'PATCH', { roles })
+  }
+
+  const addApprover = async () => {
+    if (!newApprover.name.trim()) return
+    if (await callApi('/api/approvers', 'POST', newApprover)) {
+      setNewApprover({ name: '', email: '' })
+    }
+  }
+
+  const addDelegation = async () => {
+    if (!newDelegation.delegate_id || !newDelegation.ends_at) return
+    const created = await callApi('/api/approvers/delegations', 'POST', {
+      ...newDelegation,
+      delegator_id: newDelegation.delegator_id || undefined,
+      ends_at: new Date(`${newDelegation.ends_at}T23:59:59`).toISOString()
+    })
+    if (created) {
+      setNewDelegation({ delegator_id: '', delegate_id: '', ends_at: '', reason: '' })
+    }
+  }
+
+  const nameOf = (id: string) => approvers.find(a => a.id === id)?.name || 'Unknown'
+  const isAdmin = !!me?.roles.includes('admin')
+  const inputClass = 'px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50'
+
+  if (loading) {
+    return <div className="text-gray-400">Loading approvers...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Approvers</h3>
+          <p className="text-sm text-gray-400">
+            Who can approve agent tasks, by role. Approvers sign in with their email; admins manage roles.
+          </p>
+        </div>
+        {me ? (
+          <div className="text-right">
+            <div className="text-sm text-white flex items-center gap-2 justify-end">
+              <UserCheck size={16} className="text-lime-400" />
+              {me.name}
+            </div>
+            <button onClick={() => signOutApprover().then(loadApprovers)} className="text-xs text-gray-400 hover:text-white">
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={signInEmail}
+              onChange={(e) => setSignInEmail(e.target.value)}
+              placeholder="you@company.com"
+              className={inputClass}
+            />
+            <button
+              onClick={() => sendApproverSignInLink(signInEmail.trim())
+                .then(() => alert('Check your email for a sign-in link.'))
+                .catch((error) => alert('Failed to send sign-in link: ' + error.message))}
+              className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors whitespace-nowrap"
+            >
+              Sign in
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {approvers.map(approver => (
+          <div
+            key={approver.id}
+            className={`bg-[#1c1c1c] border border-white/5 rounded-2xl p-5 ${approver.is_active ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-start justify-between mb-3">
+              <div>
+                <h4 className="font-semibold text-white">{approver.name}</h4>
+                <p className="text-xs text-gray-500">
+                  {approver.user_id ? 'Account linked' : 'Not signed in yet'}
+                </p>
+              </div>
+              <button
+                onClick={() => callApi(`/api/approvers/${approver.id}`, 'PATCH', { is_active: !approver.is_active })}
+                disabled={saving || !isAdmin}
+                className={`px-3 py-1.5 rounded-xl text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  approver.is_active ? 'bg-lime-400/10 text-lime-400' : 'bg-gray-800 text-gray-400'
+                }`}
+              >
+                {approver.is_active ? 'Active' : 'Inactive'}
+              </button>
+            </div>
+            <input
+              type="email"
+              defaultValue={approver.email || ''}
+              disabled={!isAdmin}
+              onBlur={(e) => {
+                if (e.target.value !== (approver.email || '')) {
+                  callApi(`/api/approvers/${approver.id}`, 'PATCH', { email: e.target.value })
+                }
+              }}
+              placeholder="Sign-in email"
+              className={`${inputClass} w-full text-sm mb-3 disabled:opacity-60`}
+            />
+            <div className="flex flex-wrap gap-2">
+              {APPROVER_ROLE_OPTIONS.map(role => (
+                <button
+                  key={role}
+                  onClick={() => toggleRole(approver, role)}
+                  disabled={saving || !isAdmin}
+                  className={`px-3 py-1 rounded-xl text-xs font-medium transition-colors capitalize disabled:cursor-not-allowed ${
+                    approver.roles.includes(role)
+                      ? 'bg-lime-400/10 text-lime-400 border border-lime-400/20'
+                      : 'bg-white/5 text-gray-400 border border-white/5 hover:bg-white/10'
+                  }`}
+                >
+                  {approver.roles.includes(role) && <Check size={12} className="inline mr-1" />}
+                  {role}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isAdmin && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newApprover.name}
+            onChange={(e) => setNewApprover({ ...newApprover, name: e.target.value })}
+            placeholder="Name"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            type="email"
+            value={newApprover.email}
+            onChange={(e) => setNewApprover({ ...newApprover, email: e.target.value })}
+            placeholder="Email"
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            onClick={addApprover}
+            disabled={saving}
+            className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Plus size={16} />
+            Add Approver
+          </button>
+        </div>
+      )}
+
+      <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+        <h4 className="text-sm font-semibold text-white mb-1 flex items-center gap-2">
+          <CalendarClock size={16} className="text-lime-400" />
+          Delegations
+        </h4>
+        <p className="text-xs text-gray-400 mb-4">Hand your approval roles to a colleague while you are away.</p>
+
+        <div className="space-y-2 mb-4">
+          {delegations.map(delegation => (
+            <div key={delegation.id} className="flex items-center justify-between p-3 bg-white/5 rounded-xl text-sm">
+              <div className="text-gray-300">
+                {nameOf(delegation.delegator_id)} → <span className="text-white">{nameOf(delegation.delegate_id)}</span>
+                <span className="text-gray-500"> until {new Date(delegation.ends_at).toLocaleDateString()}</span>
+                {delegation.reason && <span className="text-gray-500"> · {delegation.reason}</span>}
+              </div>
+              {me && (isAdmin || delegation.delegator_id === me.id) && (
+                <button
+                  onClick={() => callApi(`/api/approvers/delegations?id=${delegation.id}`, 'DELETE')}
+                  disabled={saving}
+                  className="p-1 hover:bg-red-500/20 rounded text-red-400 transition-colors"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+          {delegations.length === 0 && (
+            <p className="text-sm text-gray-500">No active delegations</p>
+          )}
+        </div>
+
+        {me && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            <select
+              value={newDelegation.delegator_id}
+              onChange={(e) => setNewDelegation({ ...newDelegation, delegator_id: e.target.value })}
+              disabled={!isAdmin}
+              className={inputClass}
+            >
+              <option value="">{me.name} (me)</option>
+              {isAdmin && approvers.filter(a => a.id !== me.id).map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+            <select
+              value={newDelegation.delegate_id}
+              onChange={(e) => setNewDelegation({ ...newDelegation, delegate_id: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Delegate to...</option>
+              {approvers.filter(a => a.is_active && a.id !== (newDelegation.delegator_id || me.id)).map(a => (
+                <option key={a.id} value={a.id}>{a.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={newDelegation.ends_at}
+              onChange={(e) => setNewDelegation({ ...newDelegation, ends_at: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={newDelegation.reason}
+              onChange={(e) => setNewDelegation({ ...newDelegation, reason: e.target.value })}
+              placeholder="Reason (e.g. leave)"
+              className={inputClass}
+            />
+            <button
+              onClick={addDelegation}
+              disabled={saving}
+              className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors disabled:opacity-50"
+            >
+              Delegate
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function NewCredentialModal({ onClose, onSave, saving }: {
+  onClose: () => void
+  onSave: (cred: Partial<APICredential>) => void
+  saving: boolean
+}) {
+  const [service, setService] = useState('')
+  const [keyName, setKeyName] = useState('')
+  const [keyValue, setKeyValue] = useState('')
+  const [expiresAt, setExpiresAt] = useState('')
+
+  const services = [
+    'Gmail OAuth',
+    'Facebook',
+    'Twitter',
+    'Instagram',
+    'LinkedIn',
+    'YouTube',
+    'TikTok',
+    'Google Ads'
+  ]
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      service,
+      key_name: keyName,
+      key_value: keyValue,
+      expires_at: expiresAt || null
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#1c1c1c] border border-white/10 rounded-2xl w-full max-w-md p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-white">Add API Credential</h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-xl transition-colors"
+          >
+            <X size={20} className="text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Service</label>
+            <select
+              value={service}
+              onChange={(e) => setService(e.target.value)}
+              required
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white focus:outline-none focus:border-lime-500/50"
+            >
+              <option value="">Select a service</option>
+              {services.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Key Name</label>
+            <input
+              type="text"
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              placeholder="e.g., Client ID, API Key, OAuth Token"
+              required
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Key Value</label>
+            <textarea
+              value={keyValue}
+              onChange={(e) => setKeyValue(e.target.value)}
+              placeholder="Paste your API key, token, or credentials here"
+              required
+              rows={4}
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-500/50 font-mono text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">Expires At (Optional)</label>
+            <input
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-full px-4 py-2 bg-[#121212] border border-white/10 rounded-xl text-white focus:outline-none focus:border-lime-500/50"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl transition-colors border border-white/10"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-lime-400 hover:bg-lime-500 text-black font-semibold rounded-xl transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Add Credential'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
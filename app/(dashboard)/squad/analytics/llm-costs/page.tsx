@@ -0,0 +1,486 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { motion } from 'framer-motion'
+import {
+  BarChart,
+  Bar,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts'
+import {
+  Activity,
+  AlertTriangle,
+  Bot,
+  Coins,
+  Cpu,
+  FileText,
+  RefreshCw,
+  Save,
+  Wallet,
+  Workflow
+} from 'lucide-react'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costZar: number
+}
+
+interface BudgetStatus {
+  agent: string
+  allowed: boolean
+  spentTodayZar: number
+  spentMonthZar: number
+  dailyLimitZar: number | null
+  monthlyLimitZar: number | null
+  reason?: string
+}
+
+interface CostBreakdown {
+  from: string
+  to: string
+  totals: UsageTotals
+  byAgent: Array<UsageTotals & { agent: string }>
+  byModel: Array<UsageTotals & { model: string; provider: string }>
+  byDay: Array<{ day: string; costZar: number }>
+  byWorkflow: Array<UsageTotals & { workflow: string }>
+  topTasks: Array<UsageTotals & { taskId: string; title?: string }>
+  budgets: BudgetStatus[]
+}
+
+type DateRange = '7' | '30' | '90'
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export default function LlmCostsPage() {
+  const [breakdown, setBreakdown] = useState<CostBreakdown | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [dateRange, setDateRange] = useState<DateRange>('30')
+
+  useEffect(() => {
+    fetchBreakdown()
+  }, [dateRange])
+
+  const fetchBreakdown = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/llm-usage?from=${daysAgo(Number(dateRange) - 1)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load LLM costs')
+
+      setBreakdown(data)
+      setError(null)
+    } catch (error: any) {
+      console.error('Failed to fetch LLM costs:', error)
+      setError(error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const dailyTrend = useMemo(() => {
+    return (breakdown?.byDay || []).map(d => ({
+      date: new Date(d.day).toLocaleDateString('en-ZA', { day: 'numeric', month: 'short' }),
+      cost: d.costZar
+    }))
+  }, [breakdown])
+
+  const formatRand = (amount: number) => {
+    return new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR', minimumFractionDigits: 2 }).format(amount)
+  }
+
+  const formatTokens = (tokens: number) => {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`
+    return tokens.toString()
+  }
+
+  if (isLoading && !breakdown) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="flex items-center gap-3">
+          <RefreshCw className="animate-spin text-lime-400" size={24} />
+          <span className="text-lg">Loading LLM costs...</span>
+        </div>
+      </div>
+    )
+  }
+
+  const totals = breakdown?.totals || { calls: 0, inputTokens: 0, outputTokens: 0, costZar: 0 }
+  const overBudget = (breakdown?.budgets || []).filter(b => !b.allowed)
+
+  return (
+    <div className="min-h-screen bg-black text-white p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-[1800px] mx-auto space-y-6"
+      >
+        <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+              <Coins className="text-lime-400" />
+              LLM Costs
+            </h1>
+            <p className="text-gray-400 mt-1">Measured Anthropic/OpenAI usage per agent, task and workflow, in rand</p>
+          </div>
+
+          <div className="flex gap-3">
+            <select
+              value={dateRange}
+              onChange={(e) => setDateRange(e.target.value as DateRange)}
+              className="bg-[#1c1c1c] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-lime-500/50"
+            >
+              <option value="7">Last 7 Days</option>
+              <option value="30">Last 30 Days</option>
+              <option value="90">Last 90 Days</option>
+            </select>
+            <button
+              onClick={fetchBreakdown}
+              className="px-4 py-2 bg-lime-400 hover:bg-lime-500 text-black font-bold rounded-xl transition-colors flex items-center gap-2 shadow-[0_0_15px_rgba(163,230,53,0.3)]"
+            >
+              <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-4 text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <MetricCard
+            icon={<Wallet className="text-lime-400" />}
+            label="Total Cost"
+            value={formatRand(totals.costZar)}
+          />
+          <MetricCard
+            icon={<Activity className="text-blue-400" />}
+            label="LLM Calls"
+            value={totals.calls.toLocaleString()}
+          />
+          <MetricCard
+            icon={<Cpu className="text-purple-400" />}
+            label="Tokens (in / out)"
+            value={`${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}`}
+          />
+          <MetricCard
+            icon={<Coins className="text-yellow-400" />}
+            label="Avg Cost per Call"
+            value={formatRand(totals.calls > 0 ? totals.costZar / totals.calls : 0)}
+          />
+        </div>
+
+        {overBudget.length > 0 && (
+          <div className="bg-gradient-to-br from-red-500/10 to-orange-500/10 border border-red-500/30 rounded-2xl p-6">
+            <h3 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+              <AlertTriangle className="text-red-400" />
+              Over Budget ({overBudget.length})
+            </h3>
+            <ul className="space-y-1 text-sm text-gray-300">
+              {overBudget.map(b => (
+                <li key={b.agent}>{b.reason} - tasks are deferred until budget frees up</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartCard title="Daily Cost" icon={<Activity className="text-lime-400" />}>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={dailyTrend}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                <XAxis dataKey="date" stroke="#888" />
+                <YAxis stroke="#888" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1c1c1c', border: '1px solid #333', borderRadius: '8px' }}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value: any) => formatRand(Number(value))}
+                />
+                <Area type="monotone" dataKey="cost" stroke="#a3e635" fill="#a3e635" fillOpacity={0.2} name="Cost" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="Cost by Agent" icon={<Bot className="text-cyan-400" />}>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={breakdown?.byAgent || []}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                <XAxis dataKey="agent" stroke="#888" angle={-15} textAnchor="end" height={80} />
+                <YAxis stroke="#888" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1c1c1c', border: '1px solid #333', borderRadius: '8px' }}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value: any) => formatRand(Number(value))}
+                />
+                <Bar dataKey="costZar" fill="#a3e635" name="Cost" radius={[8, 8, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+        </div>
+
+        <BudgetsCard budgets={breakdown?.budgets || []} formatRand={formatRand} onSaved={fetchBreakdown} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <ChartCard title="By Model" icon={<Cpu className="text-purple-400" />}>
+            <UsageTable
+              rows={(breakdown?.byModel || []).map(m => ({ key: m.model, label: m.model, sublabel: m.provider, ...m }))}
+              formatRand={formatRand}
+              formatTokens={formatTokens}
+            />
+          </ChartCard>
+
+          <ChartCard title="By Workflow" icon={<Workflow className="text-orange-400" />}>
+            <UsageTable
+              rows={(breakdown?.byWorkflow || []).map(w => ({ key: w.workflow, label: w.workflow.replace(/_/g, ' '), ...w }))}
+              formatRand={formatRand}
+              formatTokens={formatTokens}
+            />
+          </ChartCard>
+
+          <ChartCard title="Most Expensive Tasks" icon={<FileText className="text-blue-400" />}>
+            <UsageTable
+              rows={(breakdown?.topTasks || []).map(t => ({ key: t.taskId, label: t.title || t.taskId.slice(0, 8), ...t }))}
+              formatRand={formatRand}
+              formatTokens={formatTokens}
+            />
+          </ChartCard>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
+
+function BudgetsCard({
+  budgets,
+  formatRand,
+  onSaved
+}: {
+  budgets: BudgetStatus[]
+  formatRand: (amount: number) => string
+  onSaved: () => void
+}) {
+  const [editing, setEditing] = useState<Record<string, { daily: string; monthly: string }>>({})
+  const [saving, setSaving] = useState<string | null>(null)
+
+  const startEdit = (budget: BudgetStatus) => {
+    setEditing(prev => ({
+      ...prev,
+      [budget.agent]: {
+        daily: budget.dailyLimitZar?.toString() ?? '',
+        monthly: budget.monthlyLimitZar?.toString() ?? ''
+      }
+    }))
+  }
+
+  const saveBudget = async (agent: string) => {
+    const values = editing[agent]
+    setSaving(agent)
+    try {
+      const response = await fetch('/api/llm-usage/budgets', {
+        method: 'PUT',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({
+          agent,
+          daily_limit_zar: values.daily === '' ? null : parseFloat(values.daily),
+          monthly_limit_zar: values.monthly === '' ? null : parseFloat(values.monthly)
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save budget')
+
+      setEditing(prev => {
+        const { [agent]: _, ...rest } = prev
+        return rest
+      })
+      onSaved()
+    } catch (error: any) {
+      alert(`Failed to save budget: ${error.message}`)
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <ChartCard title="Agent Budgets" icon={<Wallet className="text-lime-400" />}>
+      {budgets.length === 0 ? (
+        <p className="text-sm text-gray-400">No budgets configured</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {budgets.map(budget => {
+            const edit = editing[budget.agent]
+            return (
+              <div key={budget.agent} className="bg-black/40 rounded-xl p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-white">{budget.agent}</span>
+                  {edit ? (
+                    <button
+                      onClick={() => saveBudget(budget.agent)}
+                      disabled={saving === budget.agent}
+                      className="text-xs text-lime-400 hover:text-lime-300 flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <Save size={14} />
+                      Save
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => startEdit(budget)}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      Edit caps
+                    </button>
+                  )}
+                </div>
+
+                {edit ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-400">
+                      Daily (R)
+                      <input
+                        type="number"
+                        min="0"
+                        value={edit.daily}
+                        placeholder="No cap"
+                        onChange={(e) => setEditing(prev => ({ ...prev, [budget.agent]: { ...edit, daily: e.target.value } }))}
+                        className="mt-1 w-full bg-[#1c1c1c] border border-white/10 rounded-lg px-2 py-1 text-white"
+                      />
+                    </label>
+                    <label className="text-xs text-gray-400">
+                      Monthly (R)
+                      <input
+                        type="number"
+                        min="0"
+                        value={edit.monthly}
+                        placeholder="No cap"
+                        onChange={(e) => setEditing(prev => ({ ...prev, [budget.agent]: { ...edit, monthly: e.target.value } }))}
+                        className="mt-1 w-full bg-[#1c1c1c] border border-white/10 rounded-lg px-2 py-1 text-white"
+                      />
+                    </label>
+                  </div>
+                ) : (
+                  <>
+                    <BudgetBar label="Today" spent={budget.spentTodayZar} limit={budget.dailyLimitZar} formatRand={formatRand} />
+                    <BudgetBar label="This month" spent={budget.spentMonthZar} limit={budget.monthlyLimitZar} formatRand={formatRand} />
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </ChartCard>
+  )
+}
+
+function BudgetBar({
+  label,
+  spent,
+  limit,
+  formatRand
+}: {
+  label: string
+  spent: number
+  limit: number | null
+  formatRand: (amount: number) => string
+}) {
+  const percent = limit ? Math.min((spent / limit) * 100, 100) : 0
+  const color = percent >= 90 ? 'bg-red-500' : percent >= 75 ? 'bg-yellow-400' : 'bg-lime-400'
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-gray-300 font-mono">
+          {formatRand(spent)} / {limit !== null ? formatRand(limit) : 'no cap'}
+        </span>
+      </div>
+      <div className="h-2 bg-white/5 rounded-full overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function UsageTable({
+  rows,
+  formatRand,
+  formatTokens
+}: {
+  rows: Array<UsageTotals & { key: string; label: string; sublabel?: string }>
+  formatRand: (amount: number) => string
+  formatTokens: (tokens: number) => string
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-400">No usage recorded</p>
+  }
+
+  return (
+    <div className="space-y-2 max-h-[320px] overflow-y-auto pr-2">
+      {rows.map(row => (
+        <div key={row.key} className="flex items-center justify-between gap-3 bg-black/40 rounded-lg px-3 py-2">
+          <div className="min-w-0">
+            <p className="text-sm text-white truncate">{row.label}</p>
+            <p className="text-xs text-gray-500">
+              {row.sublabel ? `${row.sublabel} • ` : ''}{row.calls} calls • {formatTokens(row.inputTokens + row.outputTokens)} tokens
+            </p>
+          </div>
+          <span className="text-sm font-mono text-lime-400 shrink-0">{formatRand(row.costZar)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function MetricCard({
+  icon,
+  label,
+  value
+}: {
+  icon: React.ReactNode
+  label: string
+  value: string | number
+}) {
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-2">
+        {icon}
+      </div>
+      <p className="text-2xl font-bold text-white">{value}</p>
+      <p className="text-sm text-gray-400 mt-1">{label}</p>
+    </div>
+  )
+}
+
+function ChartCard({
+  title,
+  icon,
+  children
+}: {
+  title: string
+  icon: React.ReactNode
+  children: React.ReactNode
+}) {
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+      <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      {children}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { approverAuthHeaders, sendApproverSignInLink, signOutApprover } from '@/lib/approver-session'
 
 interface ApprovalTask {
   id: string
@@ -12,15 +13,31 @@ interface ApprovalTask {
   created_at: string
   deliverable_url?: string
   metadata?: any
+  required_approver_role?: string | null
+  required_approvals?: number | null
+  task_approvals?: Array<{ approver_name: string; decision: string }>
+}
+
+interface CurrentApprover {
+  approver: { id: string; name: string }
+  roles: Array<{ role: string; on_behalf_of: string | null }>
 }
 
 export default function ApprovalQueue() {
   const [tasks, setTasks] = useState<ApprovalTask[]>([])
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState<string | null>(null)
+  const [currentApprover, setCurrentApprover] = useState<CurrentApprover | null>(null)
+  const [signInEmail, setSignInEmail] = useState('')
 
   useEffect(() => {
     fetchTasks()
+    fetchCurrentApprover()
+
+    // Re-resolve the approver when the Supabase session changes
+    const { data: authListener } = supabase.auth.onAuthStateChange(() => {
+      fetchCurrentApprover()
+    })
 
     // Poll every 30 seconds
     const interval = setInterval(fetchTasks, 30000)
@@ -41,14 +58,35 @@ export default function ApprovalQueue() {
     return () => {
       clearInterval(interval)
       subscription.unsubscribe()
+      authListener.subscription.unsubscribe()
     }
   }, [])
 
+  async function fetchCurrentApprover() {
+    try {
+      const response = await fetch('/api/approvers/me', { headers: await approverAuthHeaders() })
+      setCurrentApprover(response.ok ? await response.json() : null)
+    } catch (error) {
+      console.error('Failed to resolve approver:', error)
+      setCurrentApprover(null)
+    }
+  }
+
+  async function signIn() {
+    if (!signInEmail.trim()) return
+    try {
+      await sendApproverSignInLink(signInEmail.trim())
+      alert('📧 Check your email for a sign-in link.')
+    } catch (error: any) {
+      alert('❌ Failed to send sign-in link: ' + error.message)
+    }
+  }
+
   async function fetchTasks() {
     try {
       const { data, error } = await supabase
         .from('squad_tasks')
-        .select('*')
+        .select('*, task_approvals(approver_name, decision)')
         .eq('requires_approval', true)
         .is('approved_at', null)
         .is('rejected_at', null)
@@ -69,15 +107,21 @@ export default function ApprovalQueue() {
   async function approveTask(taskId: string) {
     setProcessing(taskId)
     try {
-      const { error } = await supabase
-        .from('squad_tasks')
-        .update({
-          approved_by: 'Kenny',
-          approved_at: new Date().toISOString()
-        })
-        .eq('id', taskId)
+      const response = await fetch(`/api/tasks/${taskId}/approve`, {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
 
-      if (error) throw error
+      if (!response.ok) throw new Error(data.error)
+
+      if (data.status === 'pending') {
+        // Needs another approver - keep it in the list with the new count
+        await fetchTasks()
+        alert(`☑️ Approval recorded (${data.approvals}/${data.required}). Waiting for another approver.`)
+        return
+      }
 
       // Remove from list immediately
       setTasks(tasks.filter(t => t.id !== taskId))
@@ -100,17 +144,14 @@ export default function ApprovalQueue() {
 
     setProcessing(taskId)
     try {
-      const { error } = await supabase
-        .from('squad_tasks')
-        .update({
-          status: 'rejected',
-          rejected_by: 'Kenny',
-          rejected_at: new Date().toISOString(),
-          rejection_reason: reason.trim()
-        })
-        .eq('id', taskId)
+      const response = await fetch(`/api/tasks/${taskId}/reject`, {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({ reason: reason.trim() })
+      })
+      const data = await response.json()
 
-      if (error) throw error
+      if (!response.ok) throw new Error(data.error)
 
       // Remove from list immediately
       setTasks(tasks.filter(t => t.id !== taskId))
@@ -125,6 +166,27 @@ export default function ApprovalQueue() {
     }
   }
 
+  function canApprove(task: ApprovalTask) {
+    if (!currentApprover) return false
+    const roles = currentApprover.roles.map(r => r.role)
+    return roles.includes('admin') || !task.required_approver_role || roles.includes(task.required_approver_role)
+  }
+
+  function hasApproved(task: ApprovalTask) {
+    return (task.task_approvals || []).some(a => a.decision === 'approve' && a.approver_name === currentApprover?.approver.name)
+  }
+
+  // Quotes priced with an exchange rate older than the configured limit
+  function staleExchangeRates(task: ApprovalTask): Array<{ currency: string; ageDays: number }> {
+    const maxAgeDays = task.metadata?.exchange_rate_max_age_days ?? 7
+    return (task.metadata?.exchange_rates || [])
+      .map((rate: { currency: string; rate_date: string }) => ({
+        currency: rate.currency,
+        ageDays: Math.floor((Date.now() - new Date(rate.rate_date).getTime()) / (24 * 60 * 60 * 1000))
+      }))
+      .filter((rate: { ageDays: number }) => rate.ageDays > maxAgeDays)
+  }
+
   function getPriorityColor(priority: string) {
     switch (priority) {
       case 'urgent': return 'border-red-500 bg-red-50'
@@ -201,6 +263,34 @@ export default function ApprovalQueue() {
               </p>
             </div>
           </div>
+          {currentApprover ? (
+            <div className="text-right text-sm">
+              <div className="font-medium text-gray-900">👤 {currentApprover.approver.name}</div>
+              <div className="text-xs text-gray-500">
+                {currentApprover.roles.map(r => r.on_behalf_of ? `${r.role} (for ${r.on_behalf_of})` : r.role).join(', ')}
+                {' · '}
+                <button onClick={() => signOutApprover()} className="text-blue-600 hover:underline">
+                  Sign out
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="email"
+                value={signInEmail}
+                onChange={(e) => setSignInEmail(e.target.value)}
+                placeholder="you@company.com"
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900"
+              />
+              <button
+                onClick={signIn}
+                className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 whitespace-nowrap"
+              >
+                Sign in to approve
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -242,6 +332,26 @@ export default function ApprovalQueue() {
                       {task.metadata.email_category}
                     </span>
                   )}
+                  {task.required_approver_role && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                      🔑 {task.required_approver_role}
+                    </span>
+                  )}
+                  {(task.required_approvals || 1) > 1 && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                      👥 {(task.task_approvals || []).filter(a => a.decision === 'approve').length}/{task.required_approvals} approvals
+                      {(task.task_approvals || []).length > 0 && ` (${(task.task_approvals || []).map(a => a.approver_name).join(', ')})`}
+                    </span>
+                  )}
+                  {staleExchangeRates(task).map(rate => (
+                    <span
+                      key={rate.currency}
+                      title="Update the rate and regenerate the quote if it has moved"
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                    >
+                      ⚠️ {rate.currency} rate {rate.ageDays} days old
+                    </span>
+                  ))}
                   <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
                     {formatTimeAgo(task.created_at)}
                   </span>
@@ -267,14 +377,15 @@ export default function ApprovalQueue() {
               <div className="flex flex-col gap-2 ml-4">
                 <button
                   onClick={() => approveTask(task.id)}
-                  disabled={processing === task.id}
+                  disabled={processing === task.id || !canApprove(task) || hasApproved(task)}
+                  title={!currentApprover ? 'Sign in to approve' : !canApprove(task) ? `Requires the ${task.required_approver_role} role` : hasApproved(task) ? 'You already approved this task' : undefined}
                   className="px-4 py-2 bg-green-500 text-white text-sm font-medium rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors shadow-sm hover:shadow-md whitespace-nowrap"
                 >
                   {processing === task.id ? '⏳ Processing...' : '✅ Approve'}
                 </button>
                 <button
                   onClick={() => rejectTask(task.id)}
-                  disabled={processing === task.id}
+                  disabled={processing === task.id || !canApprove(task)}
                   className="px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-lg hover:bg-red-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors shadow-sm hover:shadow-md whitespace-nowrap"
                 >
                   {processing === task.id ? '⏳ Processing...' : '❌ Reject'}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface DeadLetterTask {
+  id: string
+  title: string
+  description: string
+  assigned_agent: string
+  priority: string
+  execution_attempts: number
+  execution_error?: string | null
+  dead_lettered_at?: string | null
+  replay_count?: number | null
+  created_at: string
+}
+
+export default function DeadLetterQueue() {
+  const [tasks, setTasks] = useState<DeadLetterTask[]>([])
+  const [loading, setLoading] = useState(true)
+  const [processing, setProcessing] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchTasks()
+
+    // Poll every 60 seconds
+    const interval = setInterval(fetchTasks, 60000)
+
+    // Subscribe to real-time updates
+    const subscription = supabase
+      .channel('dead_letter_queue')
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'squad_tasks'
+      }, (payload) => {
+        if (payload.new.status === 'dead_letter' || payload.old?.status === 'dead_letter') {
+          fetchTasks()
+        }
+      })
+      .subscribe()
+
+    return () => {
+      clearInterval(interval)
+      subscription.unsubscribe()
+    }
+  }, [])
+
+  async function fetchTasks() {
+    try {
+      const response = await fetch('/api/tasks/dead-letter')
+      const data = await response.json()
+
+      if (response.ok) {
+        setTasks(data.tasks || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch dead-letter tasks:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function replayTask(taskId: string) {
+    setProcessing(taskId)
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/replay`, {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      // Remove from list immediately
+      setTasks(tasks.filter(t => t.id !== taskId))
+
+      alert('🔁 Task re-queued! It will be executed within 2 minutes.')
+    } catch (error: any) {
+      console.error('Failed to replay task:', error)
+      alert('❌ Failed to replay task: ' + error.message)
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  function formatTimeAgo(dateString?: string | null) {
+    if (!dateString) return 'unknown'
+    const date = new Date(dateString)
+    const now = new Date()
+    const seconds = Math.floor((now.getTime() - date.getTime()) / 1000)
+
+    if (seconds < 60) return 'just now'
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+    return `${Math.floor(seconds / 86400)}d ago`
+  }
+
+  // Nothing to show while loading or when the queue is empty
+  if (loading || tasks.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <div className="text-2xl">☠️</div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">
+              Dead-Letter Queue
+            </h3>
+            <p className="text-sm text-gray-500">
+              {tasks.length} task{tasks.length !== 1 ? 's' : ''} failed all execution attempts
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {tasks.map(task => (
+          <div
+            key={task.id}
+            className="p-6 border-l-4 border-gray-700 bg-gray-50 transition-all hover:shadow-md"
+          >
+            <div className="flex justify-between items-start gap-4">
+              <div className="flex-1 min-w-0">
+                <h4 className="font-semibold text-gray-900 text-base mb-2">
+                  {task.title}
+                </h4>
+
+                {task.execution_error && (
+                  <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2 mb-3 font-mono whitespace-pre-wrap line-clamp-3">
+                    {task.execution_error}
+                  </p>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {task.assigned_agent}
+                  </span>
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    {task.execution_attempts} attempts
+                  </span>
+                  {!!task.replay_count && (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                      replayed {task.replay_count}×
+                    </span>
+                  )}
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                    dead-lettered {formatTimeAgo(task.dead_lettered_at)}
+                  </span>
+                </div>
+              </div>
+
+              <button
+                onClick={() => replayTask(task.id)}
+                disabled={processing === task.id}
+                className="px-4 py-2 bg-gray-800 text-white text-sm font-medium rounded-lg hover:bg-gray-900 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors shadow-sm hover:shadow-md whitespace-nowrap"
+              >
+                {processing === task.id ? '⏳ Processing...' : '🔁 Replay'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -22,9 +22,12 @@ import {
   Calendar,
   FileText,
   MessageSquare,
-  Activity
+  Activity,
+  Paperclip,
+  Download
 } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
+import { approverAuthHeaders } from '@/lib/approver-session'
 
 interface EmailLog {
   id: string
@@ -42,12 +45,34 @@ interface EmailLog {
     mentions_kenny?: boolean
     priority?: 'low' | 'medium' | 'high' | 'urgent'
     classification_reason?: string
+    classification_method?: 'llm' | 'rules' | 'label' | 'manual'
+    sub_intent?: string | null
+    sentiment?: 'positive' | 'neutral' | 'negative' | 'angry'
+    language?: string
+    entities?: {
+      order_numbers: string[]
+      skus: string[]
+      quote_numbers: string[]
+    }
     requires_action?: boolean
+    attachment_count?: number
   }
   created_at: string
   updated_at: string
 }
 
+interface EmailAttachment {
+  id: string
+  filename: string
+  file_type: 'pdf' | 'xlsx' | 'csv' | 'docx' | null
+  size_bytes: number | null
+  status: 'pending' | 'extracted' | 'skipped' | 'failed'
+  extracted_text: string | null
+  extracted_tables: Array<{ name: string; rows: string[][] }>
+  error: string | null
+  download_url: string | null
+}
+
 const CLASSIFICATION_BADGES = {
   urgent: { color: 'bg-red-500/20 text-red-400 border-red-500/30', icon: AlertTriangle },
   spam: { color: 'bg-gray-500/20 text-gray-400 border-gray-500/30', icon: Archive },
@@ -55,9 +80,24 @@ const CLASSIFICATION_BADGES = {
   info: { color: 'bg-purple-500/20 text-purple-400 border-purple-500/30', icon: MessageSquare },
   order: { color: 'bg-green-500/20 text-green-400 border-green-500/30', icon: CheckCircle2 },
   customer_service: { color: 'bg-orange-500/20 text-orange-400 border-orange-500/30', icon: User },
+  complaint: { color: 'bg-red-500/20 text-red-400 border-red-500/30', icon: AlertTriangle },
+  support: { color: 'bg-orange-500/20 text-orange-400 border-orange-500/30', icon: User },
+  inquiry: { color: 'bg-blue-500/20 text-blue-400 border-blue-500/30', icon: MessageSquare },
+  internal: { color: 'bg-gray-500/20 text-gray-400 border-gray-500/30', icon: Mail },
+  other: { color: 'bg-gray-500/20 text-gray-400 border-gray-500/30', icon: Tag },
   unclassified: { color: 'bg-gray-500/20 text-gray-400 border-gray-500/30', icon: Tag }
 }
 
+// Categories the classifier assigns (and the panel can re-categorise to)
+const EMAIL_CATEGORIES = ['complaint', 'support', 'inquiry', 'order', 'spam', 'internal', 'other']
+
+const SENTIMENT_COLORS = {
+  positive: 'text-lime-400',
+  neutral: 'text-gray-400',
+  negative: 'text-orange-400',
+  angry: 'text-red-400'
+}
+
 const STATUS_COLORS = {
   unread: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
   classified: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
@@ -209,6 +249,28 @@ export default function EmailAgentPanel() {
     }
   }
 
+  const handleRecategorise = async (email: EmailLog, category: string) => {
+    setActioningEmail(email.id)
+    try {
+      const res = await fetch('/api/agents/email/classify/feedback', {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({ email_id: email.id, category })
+      })
+
+      if (res.ok) {
+        await fetchEmails()
+      } else {
+        const data = await res.json()
+        console.error('Failed to re-categorise email:', data.error)
+      }
+    } catch (err) {
+      console.error('Failed to re-categorise email:', err)
+    } finally {
+      setActioningEmail(null)
+    }
+  }
+
   const handleSendDraft = async (email: EmailLog) => {
     setActioningEmail(email.id)
     try {
@@ -381,12 +443,9 @@ export default function EmailAgentPanel() {
             className="bg-[#1c1c1c] border border-white/5 rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50 appearance-none cursor-pointer"
           >
             <option value="all">All Categories</option>
-            <option value="urgent">Urgent</option>
-            <option value="quote">Quote</option>
-            <option value="order">Order</option>
-            <option value="customer_service">Customer Service</option>
-            <option value="spam">Spam</option>
-            <option value="info">Info</option>
+            {EMAIL_CATEGORIES.map(category => (
+              <option key={category} value={category} className="capitalize">{category}</option>
+            ))}
             <option value="unclassified">Unclassified</option>
           </select>
         </div>
@@ -543,6 +602,7 @@ export default function EmailAgentPanel() {
                 onSendDraft={() => handleSendDraft(selectedEmail)}
                 onApprove={() => handleApproveClassification(selectedEmail)}
                 onReject={() => handleRejectClassification(selectedEmail)}
+                onRecategorise={(category) => handleRecategorise(selectedEmail, category)}
                 editingDraft={editingDraft}
                 draftContent={draftContent}
                 setDraftContent={setDraftContent}
@@ -796,6 +856,7 @@ function EmailDetailPanel({
   onSendDraft,
   onApprove,
   onReject,
+  onRecategorise,
   editingDraft,
   draftContent,
   setDraftContent,
@@ -812,6 +873,7 @@ function EmailDetailPanel({
   onSendDraft: () => void
   onApprove: () => void
   onReject: () => void
+  onRecategorise: (category: string) => void
   editingDraft: boolean
   draftContent: string
   setDraftContent: (content: string) => void
@@ -909,6 +971,11 @@ function EmailDetailPanel({
           </div>
         )}
 
+        {/* Attachments */}
+        {email.payload.attachment_count !== 0 && (
+          <EmailAttachments emailId={email.id} attachmentCount={email.payload.attachment_count} />
+        )}
+
         {/* Draft Response */}
         {email.status === 'draft_created' && email.payload.draft_response && (
           <div className="pt-4 border-t border-white/5">
@@ -946,15 +1013,65 @@ function EmailDetailPanel({
         )}
 
         {/* Classification Info */}
-        {email.payload.classification_reason && (
-          <div className="pt-4 border-t border-white/5">
-            <p className="text-xs text-gray-400 mb-2">Classification Reason</p>
-            <p className="text-sm text-gray-300 italic">{email.payload.classification_reason}</p>
-            {email.payload.classification_confidence && (
-              <p className="text-xs text-gray-400 mt-2">
-                Confidence: {Math.round(email.payload.classification_confidence * 100)}%
-              </p>
+        {email.category !== 'unclassified' && (
+          <div className="pt-4 border-t border-white/5 space-y-3">
+            <p className="text-xs text-gray-400">Classification</p>
+            {email.payload.classification_reason && (
+              <p className="text-sm text-gray-300 italic">{email.payload.classification_reason}</p>
             )}
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {email.payload.sub_intent && (
+                <span className="px-2 py-1 rounded border border-white/10 text-gray-300">
+                  {email.payload.sub_intent.replace(/_/g, ' ')}
+                </span>
+              )}
+              {email.payload.sentiment && (
+                <span className={`px-2 py-1 rounded border border-white/10 ${SENTIMENT_COLORS[email.payload.sentiment]}`}>
+                  {email.payload.sentiment}
+                </span>
+              )}
+              {email.payload.language && (
+                <span className="px-2 py-1 rounded border border-white/10 text-gray-400 uppercase">
+                  {email.payload.language}
+                </span>
+              )}
+              {email.payload.classification_confidence !== undefined && (
+                <span className="text-gray-400">
+                  {Math.round(email.payload.classification_confidence * 100)}% confidence
+                  {email.payload.classification_method && ` (${email.payload.classification_method})`}
+                </span>
+              )}
+            </div>
+
+            {email.payload.entities && (
+              [...email.payload.entities.order_numbers, ...email.payload.entities.skus, ...email.payload.entities.quote_numbers].length > 0 && (
+                <div className="space-y-1 text-xs">
+                  {email.payload.entities.order_numbers.length > 0 && (
+                    <p className="text-gray-400">Orders: <span className="text-white font-mono">{email.payload.entities.order_numbers.join(', ')}</span></p>
+                  )}
+                  {email.payload.entities.skus.length > 0 && (
+                    <p className="text-gray-400">SKUs: <span className="text-white font-mono">{email.payload.entities.skus.join(', ')}</span></p>
+                  )}
+                  {email.payload.entities.quote_numbers.length > 0 && (
+                    <p className="text-gray-400">Quotes: <span className="text-white font-mono">{email.payload.entities.quote_numbers.join(', ')}</span></p>
+                  )}
+                </div>
+              )
+            )}
+
+            <div>
+              <p className="text-xs text-gray-400 mb-1">Re-categorise (teaches the classifier)</p>
+              <select
+                value={email.category}
+                onChange={(e) => onRecategorise(e.target.value)}
+                disabled={isActioning}
+                className="w-full bg-[#252525] border border-white/5 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50 appearance-none cursor-pointer disabled:opacity-50"
+              >
+                {EMAIL_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
           </div>
         )}
 
@@ -1027,3 +1144,129 @@ function EmailDetailPanel({
     </motion.div>
   )
 }
+
+// Email Attachments Component - previews the text and tables read from attachments
+function EmailAttachments({ emailId, attachmentCount }: { emailId: string, attachmentCount?: number }) {
+  const [attachments, setAttachments] = useState<EmailAttachment[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [processing, setProcessing] = useState(false)
+
+  useEffect(() => {
+    if (!attachmentCount) return
+    fetch(`/api/agents/email/attachments?email_id=${emailId}`)
+      .then(res => res.json())
+      .then(data => setAttachments(data.attachments || []))
+      .catch(err => console.error('Failed to load attachments:', err))
+  }, [emailId, attachmentCount])
+
+  const handleProcess = async () => {
+    setProcessing(true)
+    try {
+      const res = await fetch('/api/agents/email/attachments', {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({ email_id: emailId, retry_failed: true })
+      })
+      const data = await res.json()
+      if (res.ok) setAttachments(data.attachments || [])
+    } catch (err) {
+      console.error('Failed to process attachments:', err)
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const formatSize = (bytes: number | null) =>
+    bytes == null ? '' : bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+  // Emails ingested before attachments were recorded
+  if (attachmentCount == null && attachments.length === 0) {
+    return (
+      <div className="pt-4 border-t border-white/5">
+        <button
+          onClick={handleProcess}
+          disabled={processing}
+          className="text-xs text-gray-400 hover:text-white flex items-center gap-1 disabled:opacity-50"
+        >
+          <Paperclip size={12} />
+          {processing ? 'Checking attachments...' : 'Check for attachments'}
+        </button>
+      </div>
+    )
+  }
+
+  if (attachments.length === 0) return null
+
+  const hasUnread = attachments.some(a => a.status === 'pending' || (a.status === 'failed' && a.file_type))
+
+  return (
+    <div className="pt-4 border-t border-white/5 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400 flex items-center gap-1">
+          <Paperclip size={12} />
+          Attachments ({attachments.length})
+        </p>
+        {hasUnread && (
+          <button
+            onClick={handleProcess}
+            disabled={processing}
+            className="text-xs text-lime-400 hover:text-lime-300 disabled:opacity-50"
+          >
+            {processing ? 'Reading...' : 'Read attachments'}
+          </button>
+        )}
+      </div>
+
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="bg-[#252525] border border-white/5 rounded-lg">
+          <div className="flex items-center justify-between gap-2 p-3">
+            <button
+              onClick={() => setExpanded(expanded === attachment.id ? null : attachment.id)}
+              disabled={attachment.status !== 'extracted'}
+              className="flex-1 min-w-0 text-left"
+            >
+              <p className="text-sm text-white truncate">{attachment.filename}</p>
+              <p className="text-xs text-gray-500">
+                {[attachment.file_type?.toUpperCase(), formatSize(attachment.size_bytes), attachment.status].filter(Boolean).join(' · ')}
+                {attachment.error && ` - ${attachment.error}`}
+              </p>
+            </button>
+            {attachment.download_url && (
+              <a
+                href={attachment.download_url}
+                className="p-1.5 hover:bg-white/10 rounded-lg text-gray-400 hover:text-white"
+                title="Download"
+              >
+                <Download size={14} />
+              </a>
+            )}
+          </div>
+
+          {expanded === attachment.id && (
+            <div className="border-t border-white/5 p-3 space-y-3 max-h-[300px] overflow-y-auto">
+              {attachment.extracted_text && (
+                <p className="text-xs text-gray-300 whitespace-pre-wrap">{attachment.extracted_text.substring(0, 2000)}</p>
+              )}
+              {attachment.extracted_tables.map((table, idx) => (
+                <div key={idx}>
+                  <p className="text-xs text-gray-500 mb-1">{table.name} ({table.rows.length} rows)</p>
+                  <table className="w-full text-xs text-gray-300">
+                    <tbody>
+                      {table.rows.slice(0, 10).map((row, rowIdx) => (
+                        <tr key={rowIdx} className={rowIdx === 0 ? 'text-white font-medium' : ''}>
+                          {row.map((cell, cellIdx) => (
+                            <td key={cellIdx} className="pr-2 py-0.5 align-top">{cell}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -8,11 +8,11 @@ import {
   Activity,
   Calendar,
   Clock,
-  Zap,
   AlertCircle,
   CheckCircle2,
   Settings,
-  RefreshCw
+  RefreshCw,
+  Lock
 } from 'lucide-react'
 
 interface TokenBudget {
@@ -20,21 +20,24 @@ interface TokenBudget {
   used: number
   remaining: number
   agentUsage: Record<string, number>
+  costZar: number
+  agentCostZar: Record<string, number>
 }
 
-interface ConflictDetection {
-  customerId?: string
-  emailId?: string
-  quoteId?: string
-  orderId?: string
-  timestamp: Date
-  agents: string[]
+interface ResourceLock {
+  resourceType: 'customer' | 'email' | 'quote' | 'order'
+  resourceId: string
+  agent: string
   action: string
+  priority: number
+  acquiredAt: string
+  expiresAt: string
 }
 
 interface OrchestratorStatus {
   tokenBudget: TokenBudget
-  activeOperations: ConflictDetection[]
+  activeLocks: ResourceLock[]
+  lockBackend?: 'redis' | 'postgres'
   timestamp?: string
 }
 
@@ -65,8 +68,8 @@ const CRON_SCHEDULES: Omit<CronSchedule, 'nextRun'>[] = [
   { name: 'Email Classify', schedule: '*/10 * * * *', description: 'Classify unread emails every 10 minutes' },
   { name: 'Email Respond', schedule: '*/15 * * * *', description: 'Generate responses every 15 minutes' },
   { name: 'Status Update', schedule: '* * * * *', description: 'Update agent statuses every minute' },
-  { name: 'Conflict Check', schedule: '*/2 * * * *', description: 'Check for operation conflicts every 2 minutes' },
-  { name: 'Token Monitor', schedule: '*/5 * * * *', description: 'Monitor token usage every 5 minutes' },
+  { name: 'Conflict Check', schedule: '*/2 * * * *', description: 'Clear lapsed resource locks every 2 minutes' },
+  { name: 'Token Monitor', schedule: '*/5 * * * *', description: 'Check agent LLM spend against budgets every 5 minutes' },
 ]
 
 function parseCronSchedule(cronExpression: string): Date {
@@ -295,6 +298,12 @@ export default function OrchestratorPanel() {
           <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
             <Activity className="text-lime-400" />
             Token Budget
+            <a
+              href="/squad/analytics/llm-costs"
+              className="ml-auto text-xs font-medium text-lime-400 hover:text-lime-300"
+            >
+              Cost breakdown →
+            </a>
           </h3>
 
           {status?.tokenBudget ? (
@@ -316,7 +325,7 @@ export default function OrchestratorPanel() {
                 </div>
                 <div className="flex justify-between items-center mt-2">
                   <span className="text-xs text-gray-400">
-                    {tokenUsagePercent.toFixed(1)}% used
+                    {tokenUsagePercent.toFixed(1)}% used today · R{(status.tokenBudget.costZar || 0).toFixed(2)}
                   </span>
                   <span className="text-xs text-gray-400">
                     {status.tokenBudget.remaining.toLocaleString()} remaining
@@ -342,7 +351,7 @@ export default function OrchestratorPanel() {
                             <div className="flex justify-between items-baseline gap-2">
                               <span className="text-sm text-gray-300 truncate">{agent}</span>
                               <span className="text-xs text-gray-400 font-mono shrink-0">
-                                {usage.toLocaleString()}
+                                {usage.toLocaleString()} · R{(status.tokenBudget.agentCostZar?.[agent] || 0).toFixed(2)}
                               </span>
                             </div>
                             <div className="h-1 bg-white/5 rounded-full overflow-hidden mt-1">
@@ -369,7 +378,7 @@ export default function OrchestratorPanel() {
         </motion.div>
       </div>
 
-      {/* Active Operations */}
+      {/* Active Locks */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -377,60 +386,66 @@ export default function OrchestratorPanel() {
         className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6"
       >
         <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-          <Zap className="text-yellow-400" />
-          Active Operations
+          <Lock className="text-yellow-400" />
+          Active Locks
+          {status?.lockBackend && (
+            <span className="ml-auto text-xs font-medium text-gray-400 px-2 py-1 bg-white/5 rounded-lg">
+              {status.lockBackend === 'redis' ? 'Redis' : 'Postgres fallback'}
+            </span>
+          )}
         </h3>
 
-        {status?.activeOperations && status.activeOperations.length > 0 ? (
+        {status?.activeLocks && status.activeLocks.length > 0 ? (
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead>
                 <tr className="border-b border-white/5">
-                  <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Action</th>
-                  <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Agents</th>
                   <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Resource</th>
-                  <th className="text-left text-sm font-medium text-gray-400 pb-3">Time</th>
+                  <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Held By</th>
+                  <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Action</th>
+                  <th className="text-left text-sm font-medium text-gray-400 pb-3 pr-4">Since</th>
+                  <th className="text-left text-sm font-medium text-gray-400 pb-3">Expires</th>
                 </tr>
               </thead>
               <tbody>
-                {status.activeOperations.map((op, idx) => (
-                  <tr key={idx} className="border-b border-white/5 last:border-0">
-                    <td className="py-3 pr-4">
-                      <span className="text-sm text-white font-medium">{op.action}</span>
-                    </td>
-                    <td className="py-3 pr-4">
-                      <div className="flex items-center gap-1">
-                        {op.agents.map((agent, i) => {
-                          const agentConfig = AGENTS.find(a => a.name.toLowerCase() === agent.toLowerCase())
-                          return (
-                            <div
-                              key={i}
-                              className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-bold text-white"
-                              style={{ backgroundColor: agentConfig?.color || '#666' }}
-                              title={agent}
-                            >
-                              {agent[0].toUpperCase()}
-                            </div>
-                          )
-                        })}
-                      </div>
-                    </td>
-                    <td className="py-3 pr-4">
-                      <span className="text-xs text-gray-400">
-                        {op.emailId ? `Email ${op.emailId.substring(0, 8)}` : 
-                         op.customerId ? `Customer ${op.customerId.substring(0, 8)}` :
-                         op.orderId ? `Order ${op.orderId.substring(0, 8)}` :
-                         op.quoteId ? `Quote ${op.quoteId.substring(0, 8)}` :
-                         'Unknown'}
-                      </span>
-                    </td>
-                    <td className="py-3">
-                      <span className="text-xs text-gray-400">
-                        {new Date(op.timestamp).toLocaleTimeString()}
-                      </span>
-                    </td>
-                  </tr>
-                ))}
+                {status.activeLocks.map(lock => {
+                  const agentConfig = AGENTS.find(a => a.id === lock.agent.replace(/_/g, '-'))
+                  return (
+                    <tr key={`${lock.resourceType}:${lock.resourceId}`} className="border-b border-white/5 last:border-0">
+                      <td className="py-3 pr-4">
+                        <span className="text-sm text-white font-medium capitalize">{lock.resourceType}</span>
+                        <span className="text-xs text-gray-400 ml-2" title={lock.resourceId}>
+                          {lock.resourceType === 'customer' ? lock.resourceId : lock.resourceId.substring(0, 8)}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="w-2 h-2 rounded-full shrink-0"
+                            style={{ backgroundColor: agentConfig?.color || '#666' }}
+                          />
+                          <span className="text-sm text-gray-300">{agentConfig?.name || lock.agent}</span>
+                          <span className="text-[10px] text-gray-500 font-mono" title="Conflict priority (lower wins)">
+                            P{lock.priority}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span className="text-sm text-gray-300">{lock.action}</span>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span className="text-xs text-gray-400">
+                          {new Date(lock.acquiredAt).toLocaleTimeString()}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        <span className="text-xs text-gray-400">
+                          {new Date(lock.expiresAt).toLocaleTimeString()}
+                        </span>
+                      </td>
+                    </tr>
+                  )
+                })}
               </tbody>
             </table>
           </div>
@@ -438,7 +453,7 @@ export default function OrchestratorPanel() {
           <div className="flex items-center justify-center py-8 text-gray-400">
             <div className="text-center">
               <CheckCircle2 className="mx-auto mb-2 opacity-50" size={32} />
-              <p className="text-sm">No active operations</p>
+              <p className="text-sm">No customers, emails, quotes or orders locked</p>
             </div>
           </div>
         )}
@@ -36,6 +36,9 @@ import {
   Target
 } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
+import { approverAuthHeaders } from '@/lib/approver-session'
+import QuoteVersionHistory from './QuoteVersionHistory'
+import RfqRoundPanel from './RfqRoundPanel'
 
 interface QuoteRequest {
   id: string
@@ -140,6 +143,7 @@ export default function QuoteAutomationPanel() {
   const [filterStatus, setFilterStatus] = useState<string>('all')
   const [filterDateRange, setFilterDateRange] = useState<'today' | 'week' | 'month' | 'all'>('all')
   const [actioningId, setActioningId] = useState<string | null>(null)
+  const [versionsQuote, setVersionsQuote] = useState<QuoteRequest | null>(null)
 
   useEffect(() => {
     fetchAllData()
@@ -297,57 +301,32 @@ export default function QuoteAutomationPanel() {
     }
   }
 
-  const handleApprovePDF = async (pdf: PendingQuotePDF) => {
+  const submitQuoteDecision = async (pdf: PendingQuotePDF, body: Record<string, any>) => {
     setActioningId(pdf.id)
     try {
-      const { error } = await supabase
-        .from('quote_requests')
-        .update({
-          status: 'sent_to_customer',
-          metadata: {
-            ...pdf.quote_request?.metadata,
-            sent_at: new Date().toISOString(),
-            approved_by: 'Kenny'
-          },
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', pdf.quote_request_id)
+      const response = await fetch('/api/quotes/approve', {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({ quoteRequestId: pdf.quote_request_id, ...body })
+      })
+      const data = await response.json()
 
-      if (!error) {
-        await fetchAllData()
-      }
-    } catch (error) {
-      console.error('Failed to approve PDF:', error)
+      if (!response.ok) throw new Error(data.error || data.message)
+      if (data.pending) alert(`☑️ ${data.message}`)
+
+      await fetchAllData()
+    } catch (error: any) {
+      console.error(`Failed to ${body.action} PDF:`, error)
+      alert(`❌ Failed to ${body.action} quote: ${error.message}`)
     } finally {
       setActioningId(null)
     }
   }
 
-  const handleRejectPDF = async (pdf: PendingQuotePDF) => {
-    setActioningId(pdf.id)
-    try {
-      const { error } = await supabase
-        .from('quote_requests')
-        .update({
-          status: 'quotes_received',
-          metadata: {
-            ...pdf.quote_request?.metadata,
-            rejected_by: 'Kenny',
-            rejection_reason: 'Requires revision'
-          },
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', pdf.quote_request_id)
+  const handleApprovePDF = (pdf: PendingQuotePDF) => submitQuoteDecision(pdf, { action: 'approve' })
 
-      if (!error) {
-        await fetchAllData()
-      }
-    } catch (error) {
-      console.error('Failed to reject PDF:', error)
-    } finally {
-      setActioningId(null)
-    }
-  }
+  const handleRejectPDF = (pdf: PendingQuotePDF) =>
+    submitQuoteDecision(pdf, { action: 'reject', reason: 'Requires revision' })
 
   const formatTimeAgo = (dateString: string) => {
     const diff = Date.now() - new Date(dateString).getTime()
@@ -588,6 +567,7 @@ export default function QuoteAutomationPanel() {
                   <CompletedQuoteCard
                     key={quote.id}
                     quote={quote}
+                    onShowVersions={() => setVersionsQuote(quote)}
                     formatTimeAgo={formatTimeAgo}
                     formatCurrency={formatCurrency}
                   />
@@ -722,6 +702,42 @@ export default function QuoteAutomationPanel() {
           />
         )}
       </AnimatePresence>
+
+      {/* Version History Modal */}
+      <AnimatePresence>
+        {versionsQuote && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            onClick={() => setVersionsQuote(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-[#1c1c1c] border border-white/10 rounded-2xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+              onClick={(e: React.MouseEvent) => e.stopPropagation()}
+            >
+              <div className="flex items-start justify-between mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-white mb-2">Quote Versions</h2>
+                  <p className="text-sm text-gray-400">{versionsQuote.customer_name || versionsQuote.customer_email}</p>
+                </div>
+                <button
+                  onClick={() => setVersionsQuote(null)}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                >
+                  <XCircle size={24} className="text-gray-400" />
+                </button>
+              </div>
+              <QuoteVersionHistory quoteRequestId={versionsQuote.id} formatCurrency={formatCurrency} />
+              <RfqRoundPanel quoteRequestId={versionsQuote.id} formatCurrency={formatCurrency} />
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   )
 }
@@ -984,10 +1000,12 @@ function PDFApprovalCard({
 
 function CompletedQuoteCard({ 
   quote, 
+  onShowVersions,
   formatTimeAgo,
   formatCurrency
 }: {
   quote: QuoteRequest
+  onShowVersions: () => void
   formatTimeAgo: (date: string) => string
   formatCurrency: (amount: number) => string
 }) {
@@ -1026,6 +1044,13 @@ function CompletedQuoteCard({
           <Calendar size={12} />
           Completed {formatTimeAgo(quote.completed_at || quote.updated_at)}
         </span>
+        <button
+          onClick={onShowVersions}
+          className="flex items-center gap-1 text-gray-400 hover:text-white"
+        >
+          <Clock size={12} />
+          Versions
+        </button>
         {quote.pdf_url && (
           <a
             href={quote.pdf_url}
@@ -1150,6 +1175,9 @@ function PDFPreviewModal({
           )}
         </div>
 
+        <QuoteVersionHistory quoteRequestId={pdf.quote_request_id} formatCurrency={formatCurrency} />
+        <RfqRoundPanel quoteRequestId={pdf.quote_request_id} formatCurrency={formatCurrency} />
+
         <div className="flex gap-3">
           <button
             onClick={onReject}
@@ -0,0 +1,528 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { History, GitCompare, Edit3, Download, Send, XCircle, Eye, RefreshCw, Mail } from 'lucide-react'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface QuoteLineItem {
+  id: string
+  product_name: string
+  quantity: number
+  unit_price: number
+  total_price: number
+  supplier?: string
+  lead_time?: string
+  cost_price?: number | null
+  markup_percentage?: number | null
+  optional?: boolean
+  option_group?: string
+  tier?: 'good' | 'better' | 'best'
+  recommended?: boolean
+}
+
+interface QuoteBundle {
+  id: string
+  name: string
+  item_ids: string[]
+  discount_percentage: number
+}
+
+interface QuoteVersion {
+  id: string
+  version: number
+  quote_number: string
+  source: 'generated' | 'edit' | 'revision'
+  status: 'draft' | 'sent' | 'superseded' | 'accepted' | 'rejected' | 'expired'
+  items: QuoteLineItem[]
+  bundles: QuoteBundle[]
+  total: number
+  currency: string
+  pdf_url: string | null
+  change_summary: string[]
+  reason: string | null
+  created_by: string
+  sent_at: string | null
+  portal_viewed_at: string | null
+  created_at: string
+}
+
+interface QuoteItemDiff {
+  product_name: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  before: QuoteLineItem | null
+  after: QuoteLineItem | null
+  changed_fields: string[]
+}
+
+interface QuoteVersionDiff {
+  from_version: number
+  to_version: number
+  items: QuoteItemDiff[]
+  totals: Record<'subtotal' | 'tax' | 'shipping' | 'total', { before: number; after: number; change: number }>
+}
+
+interface QuoteFollowUp {
+  id: string
+  quote_version_id: string
+  step: string
+  scheduled_for: string
+  status: 'scheduled' | 'sent' | 'cancelled' | 'failed'
+  sent_at: string | null
+  cancelled_reason: string | null
+}
+
+const VERSION_STATUS_COLORS: Record<QuoteVersion['status'], string> = {
+  draft: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  sent: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  superseded: 'bg-white/5 text-gray-500 border-white/10',
+  accepted: 'bg-lime-500/20 text-lime-400 border-lime-500/30',
+  rejected: 'bg-red-500/20 text-red-400 border-red-500/30',
+  expired: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+}
+
+const DIFF_ROW_COLORS: Record<QuoteItemDiff['status'], string> = {
+  added: 'bg-lime-500/10',
+  removed: 'bg-red-500/10',
+  changed: 'bg-yellow-500/10',
+  unchanged: ''
+}
+
+export default function QuoteVersionHistory({
+  quoteRequestId,
+  formatCurrency
+}: {
+  quoteRequestId: string
+  formatCurrency: (amount: number) => string
+}) {
+  const [versions, setVersions] = useState<QuoteVersion[]>([])
+  const [compare, setCompare] = useState<[number, number] | null>(null)
+  const [diff, setDiff] = useState<QuoteVersionDiff | null>(null)
+  const [revising, setRevising] = useState(false)
+  const [draftItems, setDraftItems] = useState<QuoteLineItem[]>([])
+  const [draftBundles, setDraftBundles] = useState<QuoteBundle[]>([])
+  const [newBundle, setNewBundle] = useState({ name: '', discount: '', itemIds: [] as string[] })
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [followUps, setFollowUps] = useState<QuoteFollowUp[]>([])
+  const [requoting, setRequoting] = useState(false)
+  const [requoted, setRequoted] = useState(false)
+
+  useEffect(() => {
+    fetchVersions()
+    fetchFollowUps()
+  }, [quoteRequestId])
+
+  useEffect(() => {
+    if (compare) fetchDiff(compare[0], compare[1])
+  }, [compare])
+
+  const fetchVersions = async () => {
+    const response = await fetch(`/api/quotes/${quoteRequestId}/versions`)
+    const data = await response.json()
+    if (!response.ok) return
+
+    setVersions(data.versions || [])
+    if (data.versions?.length > 1) {
+      const latest = data.versions[data.versions.length - 1].version
+      setCompare([latest - 1, latest])
+    }
+  }
+
+  const fetchFollowUps = async () => {
+    const response = await fetch(`/api/quotes/${quoteRequestId}/follow-ups`)
+    const data = await response.json()
+    if (response.ok) setFollowUps(data.follow_ups || [])
+  }
+
+  const requote = async () => {
+    if (!confirm('Ask the suppliers for fresh prices and quote this customer again?')) return
+
+    setRequoting(true)
+    try {
+      const response = await fetch(`/api/quotes/${quoteRequestId}/requote`, {
+        method: 'POST',
+        headers: await approverAuthHeaders()
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setRequoted(true)
+      alert('✅ Re-quote started - suppliers will be asked for fresh prices')
+    } catch (error: any) {
+      console.error('Failed to re-quote:', error)
+      alert(`❌ Failed to re-quote: ${error.message}`)
+    } finally {
+      setRequoting(false)
+    }
+  }
+
+  const fetchDiff = async (from: number, to: number) => {
+    const response = await fetch(`/api/quotes/${quoteRequestId}/versions/diff?from=${from}&to=${to}`)
+    const data = await response.json()
+    setDiff(response.ok ? data : null)
+  }
+
+  const startRevision = () => {
+    const current = versions[versions.length - 1]
+    setDraftItems(current ? current.items.map(item => ({ ...item })) : [])
+    setDraftBundles(current?.bundles || [])
+    setNewBundle({ name: '', discount: '', itemIds: [] })
+    setReason('')
+    setRevising(true)
+  }
+
+  const updateDraftItem = (id: string, field: 'quantity' | 'unit_price', value: string) => {
+    setDraftItems(items => items.map(item =>
+      item.id === id ? { ...item, [field]: parseFloat(value) || 0 } : item
+    ))
+  }
+
+  const toggleDraftOptional = (id: string) => {
+    setDraftItems(items => items.map(item =>
+      item.id === id ? { ...item, optional: !item.optional } : item
+    ))
+  }
+
+  const setDraftRecommended = (id: string) => {
+    const group = draftItems.find(item => item.id === id)?.option_group
+    setDraftItems(items => items.map(item =>
+      item.option_group === group ? { ...item, recommended: item.id === id } : item
+    ))
+  }
+
+  const toggleNewBundleItem = (id: string) => {
+    setNewBundle(bundle => ({
+      ...bundle,
+      itemIds: bundle.itemIds.includes(id) ? bundle.itemIds.filter(i => i !== id) : [...bundle.itemIds, id]
+    }))
+  }
+
+  const addDraftBundle = () => {
+    setDraftBundles(bundles => [...bundles, {
+      id: `bundle-${Date.now()}`,
+      name: newBundle.name.trim(),
+      item_ids: newBundle.itemIds,
+      discount_percentage: parseFloat(newBundle.discount) || 0
+    }])
+    setNewBundle({ name: '', discount: '', itemIds: [] })
+  }
+
+  const submitRevision = async () => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/quotes/${quoteRequestId}/versions`, {
+        method: 'POST',
+        headers: await approverAuthHeaders(),
+        body: JSON.stringify({
+          items: draftItems.map(({ id, product_name, quantity, unit_price, optional, recommended }) => ({ id, product_name, quantity, unit_price, optional: optional || false, recommended: recommended || false })),
+          bundles: draftBundles.filter(bundle => bundle.item_ids.every(id => draftItems.some(item => item.id === id))),
+          reason: reason || undefined
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setRevising(false)
+      await fetchVersions()
+    } catch (error: any) {
+      console.error('Failed to revise quote:', error)
+      alert(`❌ Failed to revise quote: ${error.message}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (versions.length === 0) return null
+
+  const current = versions[versions.length - 1]
+  const currentFollowUps = followUps.filter(followUp => followUp.quote_version_id === current.id)
+
+  return (
+    <div className="bg-[#252525] rounded-xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-400 flex items-center gap-2">
+          <History size={16} />
+          Versions ({versions.length})
+        </h3>
+        {current.status === 'expired' && !requoted && (
+          <button
+            onClick={requote}
+            disabled={requoting}
+            className="px-3 py-1.5 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 text-xs rounded-lg transition-colors flex items-center gap-1 disabled:opacity-50"
+          >
+            <RefreshCw size={12} className={requoting ? 'animate-spin' : ''} />
+            Re-quote with Fresh Prices
+          </button>
+        )}
+        {!revising && current.status !== 'expired' && (
+          <button
+            onClick={startRevision}
+            className="px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 text-xs rounded-lg transition-colors flex items-center gap-1"
+          >
+            <Edit3 size={12} />
+            {current.sent_at ? 'Send Revised Quote' : 'Edit Quote'}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {versions.slice().reverse().map(version => (
+          <div key={version.id} className="bg-[#1c1c1c] border border-white/5 rounded-lg p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold text-white">v{version.version}</span>
+                <span className={`text-xs px-2 py-0.5 rounded border ${VERSION_STATUS_COLORS[version.status]}`}>
+                  {version.status}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {version.source} by {version.created_by} · {new Date(version.created_at).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                {version.portal_viewed_at && (
+                  <span
+                    className="text-gray-400"
+                    title={`Opened by the customer ${new Date(version.portal_viewed_at).toLocaleString()}`}
+                  >
+                    <Eye size={14} />
+                  </span>
+                )}
+                <span className="text-sm font-medium text-lime-400">{formatCurrency(Number(version.total))}</span>
+                {version.pdf_url && (
+                  <a
+                    href={version.pdf_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <Download size={14} />
+                  </a>
+                )}
+                {version.version > 1 && (
+                  <button
+                    onClick={() => setCompare([version.version - 1, version.version])}
+                    className={`hover:text-white ${compare?.[1] === version.version ? 'text-lime-400' : 'text-gray-400'}`}
+                    title={`Compare with v${version.version - 1}`}
+                  >
+                    <GitCompare size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+            {version.change_summary.length > 0 && (
+              <ul className="mt-2 text-xs text-gray-400 list-disc list-inside">
+                {version.change_summary.map((change, idx) => <li key={idx}>{change}</li>)}
+              </ul>
+            )}
+            {version.reason && <p className="mt-1 text-xs text-gray-500 italic">{version.reason}</p>}
+          </div>
+        ))}
+      </div>
+
+      {currentFollowUps.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-medium text-gray-400 mb-2 uppercase flex items-center gap-1">
+            <Mail size={12} />
+            Follow-ups for v{current.version}
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {currentFollowUps.map(followUp => (
+              <span
+                key={followUp.id}
+                className={`text-xs px-2 py-1 rounded border ${
+                  followUp.status === 'sent' ? 'border-lime-500/30 text-lime-400'
+                    : followUp.status === 'scheduled' ? 'border-blue-500/30 text-blue-400'
+                    : followUp.status === 'failed' ? 'border-red-500/30 text-red-400'
+                    : 'border-white/10 text-gray-500 line-through'
+                }`}
+                title={followUp.cancelled_reason ? `Stopped: ${followUp.cancelled_reason.replace(/_/g, ' ')}` : undefined}
+              >
+                {followUp.step} · {new Date(followUp.sent_at || followUp.scheduled_for).toLocaleDateString()}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diff && !revising && (
+        <div className="border-t border-white/5 pt-4">
+          <h4 className="text-xs font-medium text-gray-400 mb-3 uppercase">
+            v{diff.from_version} → v{diff.to_version}
+          </h4>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="pb-2 font-medium">Product</th>
+                <th className="pb-2 font-medium">v{diff.from_version}</th>
+                <th className="pb-2 font-medium">v{diff.to_version}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.items.map((item, idx) => (
+                <tr key={idx} className={`border-t border-white/5 ${DIFF_ROW_COLORS[item.status]}`}>
+                  <td className="py-2 pr-2 text-white">
+                    {item.product_name}
+                    {(item.after || item.before)?.optional && <span className="ml-1 text-gray-500">(optional)</span>}
+                    {(item.after || item.before)?.option_group && (
+                      <span className="ml-1 text-gray-500">
+                        ({(item.after || item.before)?.tier || 'option'} for {(item.after || item.before)?.option_group}{(item.after || item.before)?.recommended ? ', recommended' : ''})
+                      </span>
+                    )}
+                  </td>
+                  {[item.before, item.after].map((side, sideIdx) => (
+                    <td key={sideIdx} className="py-2 pr-2 text-gray-300">
+                      {side ? (
+                        <>
+                          <span className={item.changed_fields.includes('quantity') ? 'text-yellow-400' : ''}>{side.quantity}</span>
+                          {' × '}
+                          <span className={item.changed_fields.includes('unit_price') ? 'text-yellow-400' : ''}>{formatCurrency(side.unit_price)}</span>
+                          {side.supplier && (
+                            <span className={`block ${item.changed_fields.includes('supplier') ? 'text-yellow-400' : 'text-gray-500'}`}>
+                              {side.supplier}{side.markup_percentage != null ? ` · ${side.markup_percentage.toFixed(1)}% markup` : ''}
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-600">-</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t border-white/10 font-medium">
+                <td className="py-2 text-white">Total</td>
+                <td className="py-2 text-gray-300">{formatCurrency(diff.totals.total.before)}</td>
+                <td className={`py-2 ${diff.totals.total.change > 0 ? 'text-red-400' : diff.totals.total.change < 0 ? 'text-lime-400' : 'text-gray-300'}`}>
+                  {formatCurrency(diff.totals.total.after)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {revising && (
+        <div className="border-t border-white/5 pt-4 space-y-3">
+          {draftItems.map(item => (
+            <div key={item.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-white truncate">
+                {item.product_name}
+                {item.option_group && <span className="ml-1 text-xs text-gray-500">{item.tier || 'option'} · {item.option_group}</span>}
+              </span>
+              <input
+                type="number"
+                value={item.quantity}
+                onChange={(e) => updateDraftItem(item.id, 'quantity', e.target.value)}
+                className="w-20 bg-[#1c1c1c] border border-white/10 rounded px-2 py-1 text-white"
+              />
+              <input
+                type="number"
+                step="0.01"
+                value={item.unit_price}
+                onChange={(e) => updateDraftItem(item.id, 'unit_price', e.target.value)}
+                className="w-28 bg-[#1c1c1c] border border-white/10 rounded px-2 py-1 text-white"
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-400" title="Offered as an add-on the customer can select in the quote portal">
+                <input
+                  type="checkbox"
+                  checked={item.optional || false}
+                  onChange={() => toggleDraftOptional(item.id)}
+                />
+                Optional
+              </label>
+              {item.option_group && (
+                <label className="flex items-center gap-1 text-xs text-gray-400" title="The alternative counted in the total unless the customer picks another">
+                  <input
+                    type="radio"
+                    name={`recommended-${item.option_group}`}
+                    checked={item.recommended || false}
+                    onChange={() => setDraftRecommended(item.id)}
+                  />
+                  Recommended
+                </label>
+              )}
+            </div>
+          ))}
+          <div className="space-y-2 border-t border-white/5 pt-3">
+            <h4 className="text-xs font-medium text-gray-400 uppercase">Bundles</h4>
+            {draftBundles.map(bundle => (
+              <div key={bundle.id} className="flex items-center gap-2 text-xs text-gray-300">
+                <span className="flex-1">
+                  {bundle.name}: {bundle.discount_percentage}% off {bundle.item_ids
+                    .map(id => draftItems.find(item => item.id === id)?.product_name || id)
+                    .join(' + ')}
+                </span>
+                <button
+                  onClick={() => setDraftBundles(bundles => bundles.filter(b => b.id !== bundle.id))}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {draftItems.map(item => (
+                <label key={item.id} className="flex items-center gap-1 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={newBundle.itemIds.includes(item.id)}
+                    onChange={() => toggleNewBundleItem(item.id)}
+                  />
+                  {item.product_name}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newBundle.name}
+                onChange={(e) => setNewBundle(bundle => ({ ...bundle, name: e.target.value }))}
+                placeholder="Bundle name"
+                className="flex-1 bg-[#1c1c1c] border border-white/10 rounded px-2 py-1 text-sm text-white"
+              />
+              <input
+                type="number"
+                step="0.5"
+                value={newBundle.discount}
+                onChange={(e) => setNewBundle(bundle => ({ ...bundle, discount: e.target.value }))}
+                placeholder="% off"
+                className="w-20 bg-[#1c1c1c] border border-white/10 rounded px-2 py-1 text-sm text-white"
+              />
+              <button
+                onClick={addDraftBundle}
+                disabled={!newBundle.name.trim() || newBundle.itemIds.length < 2 || !(parseFloat(newBundle.discount) > 0)}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 text-gray-300 text-xs rounded transition-colors disabled:opacity-50"
+              >
+                Add bundle
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the revision (shown to approvers)"
+            className="w-full bg-[#1c1c1c] border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => setRevising(false)}
+              className="px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-400 text-sm rounded-lg transition-colors flex items-center gap-1"
+            >
+              <XCircle size={14} />
+              Cancel
+            </button>
+            <button
+              onClick={submitRevision}
+              disabled={submitting}
+              className="flex-1 px-4 py-2 bg-lime-500/20 hover:bg-lime-500/30 text-lime-400 text-sm rounded-lg transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+            >
+              <Send size={14} />
+              Create v{current.version + 1} for approval
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Gavel, Clock, Trophy } from 'lucide-react'
+
+interface RfqBid {
+  supplier_id: string
+  supplier_name: string
+  priced_product: string
+  unit_price: number
+  original_unit_price: number
+  original_currency: string
+  lead_time_days: number | null
+  stock_status: string | null
+  reliability_score: number | null
+  score: number
+}
+
+interface RfqComparisonRow {
+  product_name: string
+  quantity: number
+  bids: RfqBid[]
+  winner_supplier_id: string | null
+}
+
+interface RfqRoundSupplier {
+  id: string
+  supplier_id: string
+  contact_email: string
+  status: 'invited' | 'responded' | 'no_response' | 'awarded' | 'not_awarded'
+  reminder_count: number
+  responded_at: string | null
+  supplier?: { company: string; name: string } | null
+}
+
+interface RfqRound {
+  id: string
+  round_number: number
+  status: 'open' | 'closed' | 'awarded' | 'cancelled'
+  deadline: string
+  close_reason: 'all_responded' | 'deadline' | null
+  comparison: RfqComparisonRow[] | null
+  award_value: number | null
+  awarded_by: string | null
+  suppliers?: RfqRoundSupplier[]
+}
+
+const ROUND_STATUS_COLORS: Record<RfqRound['status'], string> = {
+  open: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  closed: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  awarded: 'bg-lime-500/20 text-lime-400 border-lime-500/30',
+  cancelled: 'bg-white/5 text-gray-500 border-white/10'
+}
+
+const SUPPLIER_STATUS_COLORS: Record<RfqRoundSupplier['status'], string> = {
+  invited: 'border-blue-500/30 text-blue-400',
+  responded: 'border-lime-500/30 text-lime-400',
+  no_response: 'border-white/10 text-gray-500 line-through',
+  awarded: 'border-lime-500/50 text-lime-300',
+  not_awarded: 'border-white/10 text-gray-400'
+}
+
+export default function RfqRoundPanel({
+  quoteRequestId,
+  formatCurrency
+}: {
+  quoteRequestId: string
+  formatCurrency: (amount: number) => string
+}) {
+  const [rounds, setRounds] = useState<RfqRound[]>([])
+
+  useEffect(() => {
+    fetchRounds()
+  }, [quoteRequestId])
+
+  const fetchRounds = async () => {
+    const response = await fetch(`/api/quotes/${quoteRequestId}/rfq`)
+    const data = await response.json()
+    if (response.ok) setRounds(data.rounds || [])
+  }
+
+  const round = rounds.find(r => r.status !== 'cancelled')
+  if (!round) return null
+
+  return (
+    <div className="bg-[#252525] rounded-xl p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-400 flex items-center gap-2">
+          <Gavel size={16} />
+          Supplier RFQ - Round {round.round_number}
+          <span className={`text-xs px-2 py-0.5 rounded border ${ROUND_STATUS_COLORS[round.status]}`}>
+            {round.status}
+          </span>
+        </h3>
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <Clock size={12} />
+          {round.status === 'open'
+            ? `Closes ${new Date(round.deadline).toLocaleString()}`
+            : round.close_reason === 'all_responded' ? 'All suppliers quoted' : 'Closed at deadline'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(round.suppliers || []).map(invited => (
+          <span
+            key={invited.id}
+            className={`text-xs px-2 py-1 rounded border ${SUPPLIER_STATUS_COLORS[invited.status]}`}
+            title={invited.reminder_count > 0 ? `Reminded ${invited.reminder_count}×` : invited.contact_email}
+          >
+            {invited.supplier?.company || invited.contact_email} · {invited.status.replace(/_/g, ' ')}
+          </span>
+        ))}
+      </div>
+
+      {round.comparison && round.comparison.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="pb-2 font-medium">Product</th>
+              <th className="pb-2 font-medium">Supplier</th>
+              <th className="pb-2 font-medium text-right">Price</th>
+              <th className="pb-2 font-medium text-right">Lead time</th>
+              <th className="pb-2 font-medium">Stock</th>
+              <th className="pb-2 font-medium text-right">Reliability</th>
+              <th className="pb-2 font-medium text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {round.comparison.map(row => row.bids.length === 0 ? (
+              <tr key={row.product_name} className="border-t border-white/5">
+                <td className="py-2 pr-2 text-white">{row.product_name} × {row.quantity}</td>
+                <td colSpan={6} className="py-2 text-gray-600">No bids</td>
+              </tr>
+            ) : row.bids.map((bid, idx) => (
+              <tr
+                key={`${row.product_name}-${bid.supplier_id}`}
+                className={`${idx === 0 ? 'border-t border-white/5' : ''} ${bid.supplier_id === row.winner_supplier_id ? 'bg-lime-500/10' : ''}`}
+              >
+                <td className="py-2 pr-2 text-white">{idx === 0 ? `${row.product_name} × ${row.quantity}` : ''}</td>
+                <td className="py-2 pr-2 text-gray-300">
+                  <span className="flex items-center gap-1">
+                    {bid.supplier_id === row.winner_supplier_id && <Trophy size={12} className="text-lime-400" />}
+                    {bid.supplier_name}
+                  </span>
+                </td>
+                <td className="py-2 pr-2 text-right text-gray-300">
+                  {formatCurrency(bid.unit_price)}
+                  {bid.original_currency !== 'ZAR' && (
+                    <span className="block text-gray-500">{bid.original_currency} {bid.original_unit_price.toFixed(2)}</span>
+                  )}
+                </td>
+                <td className="py-2 pr-2 text-right text-gray-300">{bid.lead_time_days != null ? `${bid.lead_time_days}d` : '-'}</td>
+                <td className="py-2 pr-2 text-gray-300">{bid.stock_status || '-'}</td>
+                <td className="py-2 pr-2 text-right text-gray-300">{bid.reliability_score != null ? Math.round(bid.reliability_score) : '-'}</td>
+                <td className="py-2 text-right font-medium text-white">{bid.score.toFixed(1)}</td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      )}
+
+      {round.award_value != null && (
+        <p className="mt-3 text-xs text-gray-400">
+          {round.status === 'awarded' ? `Awarded by ${round.awarded_by}` : 'Proposed award'}: <span className="text-lime-400 font-medium">{formatCurrency(Number(round.award_value))}</span>
+        </p>
+      )}
+    </div>
+  )
+}
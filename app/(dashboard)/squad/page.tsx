@@ -25,6 +25,7 @@ import {
 import { supabase } from '@/lib/supabase'
 import VisualContentPanel from './components/VisualContentPanel'
 import ApprovalQueue from './components/ApprovalQueue'
+import DeadLetterQueue from './components/DeadLetterQueue'
 import SupplierIntelligencePanel from './components/SupplierIntelligencePanel'
 import QuoteAutomationPanel from './components/QuoteAutomationPanel'
 import SocialAgentPanel from './components/SocialAgentPanel'
@@ -424,6 +425,9 @@ export default function MissionControl() {
       {/* Approval Queue - Phase 1 & 2 */}
       <ApprovalQueue />
 
+      {/* Dead-Letter Queue - tasks that exhausted their retries */}
+      <DeadLetterQueue />
+
       <div ref={taskBoardRef} className="bg-[#1c1c1c] border border-white/5 rounded-2xl overflow-hidden">
         <div className="border-b border-white/5 p-1 flex items-center gap-2 overflow-x-auto">
           <button
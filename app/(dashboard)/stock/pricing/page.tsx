@@ -95,6 +95,9 @@ export default function PricingConfigPage() {
                 <div className="mb-8">
                     <h1 className="text-3xl font-bold text-gray-900">Supplier Pricing Configuration</h1>
                     <p className="text-gray-600 mt-2">Configure pricing rules for MCP supplier feeds (cost vs retail, markup percentages)</p>
+                    <a href="/stock/pricing/rules" className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-800">
+                        Quote and reseller pricing rules →
+                    </a>
                 </div>
 
                 <div className="space-y-6">
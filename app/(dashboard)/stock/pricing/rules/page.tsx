@@ -0,0 +1,399 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { approverAuthHeaders } from '@/lib/approver-session'
+import type { PricingRule, PricingSimulation } from '@/services/pricing-rules'
+
+interface Supplier {
+    id: string
+    name: string
+}
+
+const EMPTY_RULE: Partial<PricingRule> = {
+    rule_name: '',
+    channel: 'quote',
+    priority: 0,
+    active: true
+}
+
+const formatRand = (amount: number) =>
+    `R${amount.toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export default function PricingRulesPage() {
+    const [rules, setRules] = useState<PricingRule[]>([])
+    const [suppliers, setSuppliers] = useState<Supplier[]>([])
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [editing, setEditing] = useState<Partial<PricingRule> | null>(null)
+    const [simulating, setSimulating] = useState(false)
+    const [simulation, setSimulation] = useState<PricingSimulation | null>(null)
+
+    useEffect(() => {
+        fetchData()
+    }, [])
+
+    const fetchData = async () => {
+        setLoading(true)
+        try {
+            const [rulesRes, { data: suppliersData }] = await Promise.all([
+                fetch('/api/pricing-rules'),
+                supabase.from('suppliers').select('id, name').eq('is_active', true).order('name')
+            ])
+            const rulesData = await rulesRes.json()
+
+            if (rulesRes.ok) setRules(rulesData.rules || [])
+            setSuppliers(suppliersData || [])
+        } catch (error) {
+            console.error('Failed to load pricing rules:', error)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const openEditor = (rule: Partial<PricingRule>) => {
+        setEditing(rule)
+        setSimulation(null)
+    }
+
+    const simulate = async (change: { rule?: Partial<PricingRule>; remove_rule_id?: string }) => {
+        setSimulating(true)
+        try {
+            const response = await fetch('/api/pricing-rules/simulate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(change)
+            })
+            const data = await response.json()
+
+            if (!response.ok) throw new Error(data.error)
+
+            setSimulation(data.simulation)
+        } catch (error: any) {
+            console.error('Failed to simulate rule change:', error)
+            alert('Failed to simulate: ' + error.message)
+        } finally {
+            setSimulating(false)
+        }
+    }
+
+    const saveRule = async (rule: Partial<PricingRule>) => {
+        setSaving(true)
+        try {
+            const response = await fetch(
+                rule.id ? `/api/pricing-rules/${rule.id}` : '/api/pricing-rules',
+                {
+                    method: rule.id ? 'PATCH' : 'POST',
+                    headers: await approverAuthHeaders(),
+                    // Attributed to whoever saves it, not the last editor
+                    body: JSON.stringify({ ...rule, updated_by: undefined })
+                }
+            )
+            const data = await response.json()
+
+            if (!response.ok) throw new Error(data.error)
+
+            await fetchData()
+            setEditing(null)
+            setSimulation(null)
+        } catch (error: any) {
+            console.error('Failed to save pricing rule:', error)
+            alert('Failed to save rule: ' + error.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const deleteRule = async (id: string) => {
+        if (!confirm('Are you sure you want to delete this rule?')) return
+
+        setSaving(true)
+        try {
+            const response = await fetch(`/api/pricing-rules/${id}`, { method: 'DELETE', headers: await approverAuthHeaders() })
+            const data = await response.json()
+
+            if (!response.ok) throw new Error(data.error)
+
+            setRules(rules.filter(r => r.id !== id))
+        } catch (error: any) {
+            console.error('Failed to delete pricing rule:', error)
+            alert('Failed to delete rule: ' + error.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    // Empty inputs clear the field rather than sending ''
+    const setField = (field: keyof PricingRule, value: string, numeric: boolean = false) => {
+        if (!editing) return
+        const parsed = value === '' ? null : numeric ? Number(value) : value
+        setEditing({ ...editing, [field]: parsed })
+    }
+
+    const describeScope = (rule: PricingRule) => {
+        const scope = [
+            rule.customer_tier && `tier ${rule.customer_tier}`,
+            rule.product_category && `category ${rule.product_category}`,
+            rule.brand && `brand ${rule.brand}`,
+            rule.supplier_id && `supplier ${suppliers.find(s => s.id === rule.supplier_id)?.name || rule.supplier_id}`,
+            rule.min_quantity && `qty ≥ ${rule.min_quantity}`
+        ].filter(Boolean)
+        return scope.length > 0 ? scope.join(', ') : 'Everything'
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center min-h-screen">
+                <div className="text-gray-500">Loading pricing rules...</div>
+            </div>
+        )
+    }
+
+    const inputClass = 'block w-full rounded-md border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500'
+
+    return (
+        <div className="min-h-screen bg-gray-50 p-8">
+            <div className="max-w-6xl mx-auto">
+                <div className="mb-8 flex items-start justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold text-gray-900">Pricing Rules</h1>
+                        <p className="text-gray-600 mt-2">
+                            Markups for quotes and reseller prices. The highest-priority matching rule sets the markup
+                            (quotes fall back to intelligent pricing); the highest matching margin floor always applies.
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => openEditor({ ...EMPTY_RULE })}
+                        className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 whitespace-nowrap"
+                    >
+                        + New Rule
+                    </button>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden mb-8">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left font-medium text-gray-500">Rule</th>
+                                <th className="px-4 py-3 text-left font-medium text-gray-500">Channel</th>
+                                <th className="px-4 py-3 text-right font-medium text-gray-500">Priority</th>
+                                <th className="px-4 py-3 text-left font-medium text-gray-500">Applies to</th>
+                                <th className="px-4 py-3 text-right font-medium text-gray-500">Markup</th>
+                                <th className="px-4 py-3 text-right font-medium text-gray-500">Margin floor</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {rules.map(rule => (
+                                <tr key={rule.id} className={rule.active ? '' : 'opacity-50'}>
+                                    <td className="px-4 py-3 text-gray-900">
+                                        {rule.rule_name}
+                                        {!rule.active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-600">{rule.channel}</td>
+                                    <td className="px-4 py-3 text-right text-gray-600">{rule.priority}</td>
+                                    <td className="px-4 py-3 text-gray-600">{describeScope(rule)}</td>
+                                    <td className="px-4 py-3 text-right text-gray-900">
+                                        {rule.markup_percentage != null ? `${rule.markup_percentage}%` : '-'}
+                                    </td>
+                                    <td className="px-4 py-3 text-right text-gray-900">
+                                        {rule.min_margin != null ? `${rule.min_margin}%` : '-'}
+                                    </td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                                        <button onClick={() => openEditor(rule)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                                        <button
+                                            onClick={() => simulate({ remove_rule_id: rule.id })}
+                                            disabled={simulating}
+                                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                                        >
+                                            Simulate removal
+                                        </button>
+                                        <button
+                                            onClick={() => deleteRule(rule.id)}
+                                            disabled={saving}
+                                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                                        >
+                                            Delete
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {rules.length === 0 && (
+                        <div className="text-center py-12 text-gray-500">
+                            No pricing rules yet - quotes use intelligent pricing only.
+                        </div>
+                    )}
+                </div>
+
+                {editing && (
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+                        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                            {editing.id ? `Edit ${editing.rule_name}` : 'New Rule'}
+                        </h2>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                                <input value={editing.rule_name || ''} onChange={e => setField('rule_name', e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+                                <select
+                                    value={editing.channel || 'all'}
+                                    onChange={e => setField('channel', e.target.value)}
+                                    className={inputClass}
+                                >
+                                    <option value="all">Quotes and resellers</option>
+                                    <option value="quote">Quotes</option>
+                                    <option value="reseller">Reseller prices</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                                <input type="number" step="1" value={editing.priority ?? 0} onChange={e => setField('priority', e.target.value, true)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Customer tier</label>
+                                <input
+                                    value={editing.customer_tier || ''}
+                                    onChange={e => setField('customer_tier', e.target.value)}
+                                    placeholder="Any (e.g. enterprise, platinum)"
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                                <input
+                                    value={editing.product_category || ''}
+                                    onChange={e => setField('product_category', e.target.value)}
+                                    placeholder="Any (e.g. audio, cables)"
+                                    className={inputClass}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
+                                <input value={editing.brand || ''} onChange={e => setField('brand', e.target.value)} placeholder="Any" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Supplier</label>
+                                <select value={editing.supplier_id || ''} onChange={e => setField('supplier_id', e.target.value)} className={inputClass}>
+                                    <option value="">Any</option>
+                                    {suppliers.map(supplier => (
+                                        <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">From quantity (volume break)</label>
+                                <input type="number" min="1" step="1" value={editing.min_quantity ?? ''} onChange={e => setField('min_quantity', e.target.value, true)} className={inputClass} />
+                            </div>
+                            <div className="flex items-end">
+                                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={editing.active ?? true}
+                                        onChange={e => setEditing({ ...editing, active: e.target.checked })}
+                                    />
+                                    <span>Active</span>
+                                </label>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Markup %</label>
+                                <input type="number" min="0" step="0.1" value={editing.markup_percentage ?? ''} onChange={e => setField('markup_percentage', e.target.value, true)} placeholder="Leave empty for a floor-only rule" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Margin floor %</label>
+                                <input type="number" min="0" max="99" step="0.1" value={editing.min_margin ?? ''} onChange={e => setField('min_margin', e.target.value, true)} placeholder="None" className={inputClass} />
+                            </div>
+                        </div>
+
+                        <div className="mt-6 flex items-center space-x-3">
+                            <button
+                                onClick={() => simulate({ rule: editing })}
+                                disabled={simulating}
+                                className="px-4 py-2 bg-gray-800 text-white text-sm font-medium rounded-md hover:bg-gray-900 disabled:opacity-50"
+                            >
+                                {simulating ? 'Simulating...' : 'Simulate last 90 days'}
+                            </button>
+                            <button
+                                onClick={() => saveRule(editing)}
+                                disabled={saving}
+                                className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                {saving ? 'Saving...' : 'Save Rule'}
+                            </button>
+                            <button
+                                onClick={() => { setEditing(null); setSimulation(null) }}
+                                className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {simulation && (
+                    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                        <h2 className="text-xl font-semibold text-gray-900 mb-1">Simulation - last {simulation.days} days</h2>
+                        <p className="text-sm text-gray-500 mb-4">
+                            {simulation.summary.quotes} quotes repriced, {simulation.summary.quotes_changed} would change
+                            ({simulation.summary.lines_changed} lines). Amounts exclude VAT.
+                        </p>
+
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                            {[
+                                { label: 'Revenue (all quotes)', current: simulation.summary.current_revenue, proposed: simulation.summary.proposed_revenue },
+                                { label: 'Profit (all quotes)', current: simulation.summary.current_profit, proposed: simulation.summary.proposed_profit },
+                                { label: 'Revenue (accepted)', current: simulation.summary.accepted_current_revenue, proposed: simulation.summary.accepted_proposed_revenue },
+                                { label: 'Profit (accepted)', current: simulation.summary.accepted_current_profit, proposed: simulation.summary.accepted_proposed_profit }
+                            ].map(card => {
+                                const change = card.proposed - card.current
+                                return (
+                                    <div key={card.label} className="rounded-lg border border-gray-200 p-4">
+                                        <div className="text-xs text-gray-500">{card.label}</div>
+                                        <div className="text-lg font-semibold text-gray-900">{formatRand(card.proposed)}</div>
+                                        <div className={`text-xs ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                            {change >= 0 ? '+' : ''}{formatRand(change)} vs current {formatRand(card.current)}
+                                        </div>
+                                    </div>
+                                )
+                            })}
+                        </div>
+
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left font-medium text-gray-500">Quote</th>
+                                    <th className="px-4 py-2 text-left font-medium text-gray-500">Outcome</th>
+                                    <th className="px-4 py-2 text-left font-medium text-gray-500">Segment</th>
+                                    <th className="px-4 py-2 text-right font-medium text-gray-500">Quoted</th>
+                                    <th className="px-4 py-2 text-right font-medium text-gray-500">Current rules</th>
+                                    <th className="px-4 py-2 text-right font-medium text-gray-500">Proposed</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {simulation.quotes.filter(quote => quote.changed_lines > 0).map(quote => (
+                                    <tr key={quote.quote_outcome_id}>
+                                        <td className="px-4 py-2 text-gray-900">{quote.quote_number}</td>
+                                        <td className="px-4 py-2 text-gray-600">{quote.outcome}</td>
+                                        <td className="px-4 py-2 text-gray-600">{quote.customer_segment || '-'}</td>
+                                        <td className="px-4 py-2 text-right text-gray-600">{formatRand(quote.quoted_subtotal)}</td>
+                                        <td className="px-4 py-2 text-right text-gray-600">{formatRand(quote.current_subtotal)}</td>
+                                        <td className={`px-4 py-2 text-right font-medium ${quote.proposed_subtotal > quote.current_subtotal ? 'text-green-700' : 'text-red-700'}`}>
+                                            {formatRand(quote.proposed_subtotal)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {simulation.summary.quotes_changed === 0 && (
+                            <div className="text-center py-6 text-gray-500">This change would not have changed any quote.</div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
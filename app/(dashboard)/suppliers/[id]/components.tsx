@@ -0,0 +1,666 @@
+import { useState } from 'react'
+import {
+  Send,
+  Mail,
+  FileText,
+  TrendingUp,
+  Package,
+  BarChart3,
+  GitMerge,
+  StickyNote,
+  CheckCircle,
+  Circle,
+  CreditCard,
+  Truck,
+  Pin,
+  PinOff,
+  Trash2,
+  Plus,
+  Edit2,
+  Save,
+  X,
+  Target,
+  Download
+} from 'lucide-react'
+
+export type TimelineEventType =
+  | 'rfq_sent'
+  | 'supplier_email'
+  | 'price_list'
+  | 'price_change'
+  | 'purchase_order'
+  | 'score_change'
+  | 'merge'
+  | 'note'
+  | 'task'
+
+export interface TimelineEvent {
+  id: string
+  type: TimelineEventType
+  occurred_at: string
+  title: string
+  detail: string | null
+  actor: string | null
+  data: Record<string, any>
+}
+
+export interface TeamMember {
+  id: string
+  name: string
+  is_active: boolean
+}
+
+export interface SupplierNote {
+  id: string
+  body: string
+  author: string
+  pinned: boolean
+  created_at: string
+}
+
+export interface SupplierTask {
+  id: string
+  title: string
+  description: string | null
+  status: 'open' | 'done' | 'cancelled'
+  due_date: string | null
+  assigned_to_id: string | null
+  created_by: string
+  completed_by: string | null
+  completed_at: string | null
+  assigned_to?: { id: string; name: string } | null
+}
+
+export interface TradingTerms {
+  account_manager_id: string | null
+  payment_terms: string | null
+  credit_limit: number | null
+  credit_currency: string
+  delivery_zones: string[]
+}
+
+export interface SlaTargets {
+  response_hours: number
+  response_met_pct: number
+  quote_accuracy_pct: number
+  price_tolerance_pct: number
+  on_time_pct: number
+  delivery_days: number
+}
+
+export type SlaMeasure = 'response' | 'quote_accuracy' | 'on_time_delivery'
+
+export interface SlaMetrics {
+  response: { rfqs: number; answered: number; within_target: number; missed: number; pending: number; avg_hours: number | null; within_target_pct: number | null }
+  quote_accuracy: { orders: number; accurate: number; avg_variance_pct: number | null; accuracy_pct: number | null }
+  delivery: { orders: number; on_time: number; late: number; pending: number; avg_days: number | null; on_time_pct: number | null }
+}
+
+export interface SlaReport {
+  month: string
+  targets: SlaTargets
+  overrides: Partial<SlaTargets>
+  defaults: SlaTargets
+  metrics: SlaMetrics
+  breaches: SlaMeasure[]
+}
+
+export interface SupplierScorecard {
+  id: string
+  period_start: string
+  metrics: SlaMetrics
+  breaches: SlaMeasure[]
+  pdf_url: string | null
+  email_task_id: string | null
+  sent_to: string | null
+  sent_at: string | null
+}
+
+export const TIMELINE_TYPES: Record<TimelineEventType, { label: string; icon: any; color: string }> = {
+  rfq_sent: { label: 'RFQs', icon: Send, color: 'text-blue-400 bg-blue-500/20' },
+  supplier_email: { label: 'Responses', icon: Mail, color: 'text-lime-400 bg-lime-500/20' },
+  price_list: { label: 'Price lists', icon: FileText, color: 'text-yellow-400 bg-yellow-500/20' },
+  price_change: { label: 'Price changes', icon: TrendingUp, color: 'text-orange-400 bg-orange-500/20' },
+  purchase_order: { label: 'Orders', icon: Package, color: 'text-purple-400 bg-purple-500/20' },
+  score_change: { label: 'Scores', icon: BarChart3, color: 'text-green-400 bg-green-500/20' },
+  merge: { label: 'Merges', icon: GitMerge, color: 'text-gray-400 bg-gray-500/20' },
+  note: { label: 'Notes', icon: StickyNote, color: 'text-pink-400 bg-pink-500/20' },
+  task: { label: 'Tasks', icon: CheckCircle, color: 'text-cyan-400 bg-cyan-500/20' }
+}
+
+export const formatMoney = (amount: number | null, currency: string = 'ZAR') =>
+  amount == null
+    ? '-'
+    : `${currency === 'ZAR' ? 'R' : `${currency} `}${Number(amount).toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export function TimelineItem({ event, isLast }: { event: TimelineEvent; isLast: boolean }) {
+  const config = TIMELINE_TYPES[event.type]
+  const Icon = config.icon
+
+  return (
+    <div className="flex gap-3">
+      <div className="flex flex-col items-center">
+        <div className={`p-2 rounded-lg ${config.color}`}>
+          <Icon size={14} />
+        </div>
+        {!isLast && <div className="w-px flex-1 bg-white/10 my-1" />}
+      </div>
+      <div className="flex-1 pb-5 min-w-0">
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-sm font-medium text-white">{event.title}</p>
+          <span className="text-xs text-gray-500 shrink-0">{new Date(event.occurred_at).toLocaleString('en-ZA')}</span>
+        </div>
+        {event.detail && (
+          <p className={`text-xs text-gray-400 mt-1 ${event.type === 'note' ? 'whitespace-pre-wrap' : 'truncate'}`}>{event.detail}</p>
+        )}
+        {event.actor && <p className="text-[10px] text-gray-500 mt-1">{event.actor}</p>}
+      </div>
+    </div>
+  )
+}
+
+export function TradingTermsCard({ terms, team, onSave }: {
+  terms: TradingTerms
+  team: TeamMember[]
+  onSave: (terms: TradingTerms) => Promise<void>
+}) {
+  const [editing, setEditing] = useState(false)
+  const [form, setForm] = useState({
+    account_manager_id: terms.account_manager_id || '',
+    payment_terms: terms.payment_terms || '',
+    credit_limit: terms.credit_limit == null ? '' : String(terms.credit_limit),
+    credit_currency: terms.credit_currency || 'ZAR',
+    delivery_zones: (terms.delivery_zones || []).join(', ')
+  })
+
+  const accountManager = team.find(member => member.id === terms.account_manager_id)
+
+  const handleSave = async () => {
+    await onSave({
+      account_manager_id: form.account_manager_id || null,
+      payment_terms: form.payment_terms || null,
+      credit_limit: form.credit_limit === '' ? null : Number(form.credit_limit),
+      credit_currency: form.credit_currency,
+      delivery_zones: form.delivery_zones.split(',').map(zone => zone.trim()).filter(Boolean)
+    })
+    setEditing(false)
+  }
+
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-white flex items-center gap-2">
+          <CreditCard size={16} className="text-lime-400" />
+          Account & Trading Terms
+        </h3>
+        {editing ? (
+          <div className="flex gap-1">
+            <button onClick={() => setEditing(false)} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Cancel">
+              <X size={14} className="text-gray-400" />
+            </button>
+            <button onClick={handleSave} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Save">
+              <Save size={14} className="text-lime-400" />
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setEditing(true)} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Edit">
+            <Edit2 size={14} className="text-gray-400" />
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-3">
+          <label className="block">
+            <span className="text-xs text-gray-400">Account manager</span>
+            <select
+              value={form.account_manager_id}
+              onChange={(e) => setForm({ ...form, account_manager_id: e.target.value })}
+              className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+            >
+              <option value="">Unassigned</option>
+              {team.filter(member => member.is_active || member.id === form.account_manager_id).map(member => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs text-gray-400">Payment terms</span>
+            <input
+              value={form.payment_terms}
+              onChange={(e) => setForm({ ...form, payment_terms: e.target.value })}
+              placeholder="e.g. 30 days from statement"
+              className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+            />
+          </label>
+          <div className="flex gap-2">
+            <label className="block flex-1">
+              <span className="text-xs text-gray-400">Credit limit</span>
+              <input
+                type="number"
+                min="0"
+                value={form.credit_limit}
+                onChange={(e) => setForm({ ...form, credit_limit: e.target.value })}
+                className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+              />
+            </label>
+            <label className="block w-24">
+              <span className="text-xs text-gray-400">Currency</span>
+              <input
+                value={form.credit_currency}
+                onChange={(e) => setForm({ ...form, credit_currency: e.target.value.toUpperCase() })}
+                maxLength={3}
+                className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-xs text-gray-400">Delivery zones (comma separated)</span>
+            <input
+              value={form.delivery_zones}
+              onChange={(e) => setForm({ ...form, delivery_zones: e.target.value })}
+              placeholder="Gauteng, Western Cape"
+              className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Account manager</p>
+            <p className="text-white">{accountManager?.name || <span className="text-gray-500">Unassigned</span>}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Payment terms</p>
+            <p className="text-white">{terms.payment_terms || <span className="text-gray-500">Not set</span>}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-400 mb-1">Credit limit</p>
+            <p className="text-white">
+              {terms.credit_limit == null ? <span className="text-gray-500">Not set</span> : formatMoney(terms.credit_limit, terms.credit_currency)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-400 mb-1 flex items-center gap-1">
+              <Truck size={12} />
+              Delivery zones
+            </p>
+            {terms.delivery_zones?.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {terms.delivery_zones.map(zone => (
+                  <span key={zone} className="text-[10px] px-2 py-1 rounded bg-blue-500/20 text-blue-400 border border-blue-500/30">
+                    {zone}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500">Not set</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function TasksCard({ tasks, team, onAdd, onUpdate }: {
+  tasks: SupplierTask[]
+  team: TeamMember[]
+  onAdd: (task: { title: string; due_date: string | null; assigned_to_id: string | null }) => Promise<void>
+  onUpdate: (task: SupplierTask, updates: Partial<SupplierTask>) => Promise<void>
+}) {
+  const [title, setTitle] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [assignedToId, setAssignedToId] = useState('')
+  const today = new Date().toISOString().split('T')[0]
+
+  const handleAdd = async () => {
+    if (!title.trim()) return
+    await onAdd({ title, due_date: dueDate || null, assigned_to_id: assignedToId || null })
+    setTitle('')
+    setDueDate('')
+    setAssignedToId('')
+  }
+
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-5">
+      <h3 className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+        <CheckCircle size={16} className="text-cyan-400" />
+        Tasks ({tasks.filter(task => task.status === 'open').length} open)
+      </h3>
+
+      <div className="space-y-2 mb-4">
+        {tasks.map(task => (
+          <div key={task.id} className={`flex items-start gap-2 ${task.status !== 'open' ? 'opacity-50' : ''}`}>
+            <button
+              onClick={() => onUpdate(task, { status: task.status === 'open' ? 'done' : 'open' })}
+              className="mt-0.5 shrink-0"
+              title={task.status === 'open' ? 'Mark done' : 'Reopen'}
+            >
+              {task.status === 'open'
+                ? <Circle size={16} className="text-gray-500 hover:text-lime-400" />
+                : <CheckCircle size={16} className="text-lime-400" />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm text-white ${task.status !== 'open' ? 'line-through' : ''}`}>{task.title}</p>
+              <p className="text-[10px] text-gray-500">
+                {[
+                  task.assigned_to?.name,
+                  task.due_date && (
+                    task.status === 'open' && task.due_date < today ? `overdue since ${task.due_date}` : `due ${task.due_date}`
+                  ),
+                  task.status !== 'open' && `${task.status} by ${task.completed_by}`
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            {task.status === 'open' && (
+              <button
+                onClick={() => onUpdate(task, { status: 'cancelled' })}
+                className="p-1 hover:bg-white/10 rounded transition-colors"
+                title="Cancel task"
+              >
+                <X size={12} className="text-gray-500" />
+              </button>
+            )}
+          </div>
+        ))}
+        {tasks.length === 0 && <p className="text-xs text-gray-500">No tasks</p>}
+      </div>
+
+      <div className="space-y-2 pt-3 border-t border-white/5">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="New task..."
+          className="w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+        />
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="flex-1 bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-lime-500/50"
+          />
+          <select
+            value={assignedToId}
+            onChange={(e) => setAssignedToId(e.target.value)}
+            className="flex-1 bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-lime-500/50"
+          >
+            <option value="">Account manager</option>
+            {team.filter(member => member.is_active).map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!title.trim()}
+            className="px-3 py-2 bg-lime-400 hover:bg-lime-500 disabled:opacity-50 text-black font-bold rounded-lg transition-all"
+            title="Add task"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function NotesCard({ notes, onAdd, onTogglePin, onDelete }: {
+  notes: SupplierNote[]
+  onAdd: (body: string) => Promise<void>
+  onTogglePin: (note: SupplierNote) => Promise<void>
+  onDelete: (note: SupplierNote) => Promise<void>
+}) {
+  const [body, setBody] = useState('')
+
+  const handleAdd = async () => {
+    if (!body.trim()) return
+    await onAdd(body)
+    setBody('')
+  }
+
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-5">
+      <h3 className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+        <StickyNote size={16} className="text-pink-400" />
+        Notes
+      </h3>
+
+      <div className="space-y-2 mb-4">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Add a note about this supplier..."
+          rows={3}
+          className="w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50 resize-none"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!body.trim()}
+          className="px-3 py-1.5 bg-lime-400 hover:bg-lime-500 disabled:opacity-50 text-black font-bold rounded-lg text-xs transition-all flex items-center gap-1"
+        >
+          <Plus size={12} />
+          Add Note
+        </button>
+      </div>
+
+      <div className="space-y-3 max-h-[400px] overflow-y-auto pr-1">
+        {notes.map(note => (
+          <div
+            key={note.id}
+            className={`p-3 rounded-lg border ${note.pinned ? 'border-pink-500/30 bg-pink-500/5' : 'border-white/5 bg-[#252525]'}`}
+          >
+            <p className="text-sm text-gray-200 whitespace-pre-wrap">{note.body}</p>
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-[10px] text-gray-500">
+                {note.author} · {new Date(note.created_at).toLocaleString('en-ZA')}
+              </span>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onTogglePin(note)}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title={note.pinned ? 'Unpin' : 'Pin'}
+                >
+                  {note.pinned ? <PinOff size={12} className="text-pink-400" /> : <Pin size={12} className="text-gray-500" />}
+                </button>
+                <button
+                  onClick={() => onDelete(note)}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 size={12} className="text-gray-500" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {notes.length === 0 && <p className="text-xs text-gray-500">No notes yet</p>}
+      </div>
+    </div>
+  )
+}
+
+const TARGET_FIELDS: Array<{ key: keyof SlaTargets; label: string; unit: string }> = [
+  { key: 'response_hours', label: 'Response time', unit: 'hours' },
+  { key: 'response_met_pct', label: 'RFQs answered in time', unit: '%' },
+  { key: 'quote_accuracy_pct', label: 'Accurate quotes', unit: '%' },
+  { key: 'price_tolerance_pct', label: 'Price tolerance', unit: '%' },
+  { key: 'on_time_pct', label: 'Orders shipped on time', unit: '%' },
+  { key: 'delivery_days', label: 'Delivery time', unit: 'days' }
+]
+
+const monthLabel = (periodStart: string) =>
+  new Date(`${periodStart}T00:00:00Z`).toLocaleDateString('en-ZA', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+function SlaMeasureRow({ label, actual, target, detail, missed }: {
+  label: string
+  actual: number | null
+  target: number
+  detail: string
+  missed: boolean
+}) {
+  return (
+    <div className="p-3 rounded-lg bg-[#252525] border border-white/5">
+      <p className="text-xs text-gray-400">{label}</p>
+      <p className={`text-2xl font-bold ${actual === null ? 'text-gray-500' : missed ? 'text-red-400' : 'text-green-400'}`}>
+        {actual === null ? '-' : `${actual}%`}
+      </p>
+      <p className="text-[10px] text-gray-500">Target {target}% · {detail}</p>
+    </div>
+  )
+}
+
+export function SlaCard({ report, scorecards, onSaveTargets, onGenerate, onEmail }: {
+  report: SlaReport
+  scorecards: SupplierScorecard[]
+  onSaveTargets: (targets: Record<string, number | null> | null) => Promise<void>
+  onGenerate: (month: string) => Promise<void>
+  onEmail: (scorecard: SupplierScorecard) => Promise<void>
+}) {
+  const { targets, metrics } = report
+  const [editing, setEditing] = useState(false)
+  const [form, setForm] = useState<Record<string, string>>(
+    Object.fromEntries(TARGET_FIELDS.map(field => [field.key, report.overrides[field.key] == null ? '' : String(report.overrides[field.key])]))
+  )
+  const lastMonth = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth() - 1, 1)).toISOString().slice(0, 7)
+  const [month, setMonth] = useState(lastMonth)
+
+  // Blank fields fall back to the default target
+  const handleSave = async () => {
+    await onSaveTargets(Object.fromEntries(TARGET_FIELDS.map(field => [field.key, form[field.key] === '' ? null : Number(form[field.key])])))
+    setEditing(false)
+  }
+
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Target size={18} className="text-lime-400" />
+          SLA & Scorecards
+        </h2>
+        {editing ? (
+          <div className="flex gap-1">
+            <button onClick={() => setEditing(false)} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Cancel">
+              <X size={14} className="text-gray-400" />
+            </button>
+            <button onClick={handleSave} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Save">
+              <Save size={14} className="text-lime-400" />
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setEditing(true)} className="p-1.5 hover:bg-white/10 rounded transition-colors" title="Edit targets">
+            <Edit2 size={14} className="text-gray-400" />
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+          {TARGET_FIELDS.map(field => (
+            <label key={field.key} className="block">
+              <span className="text-xs text-gray-400">{field.label} ({field.unit})</span>
+              <input
+                type="number"
+                min="0"
+                value={form[field.key]}
+                onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                placeholder={`Default ${report.defaults[field.key]}`}
+                className="mt-1 w-full bg-[#252525] border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-lime-500/50"
+              />
+            </label>
+          ))}
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400 mb-3">This month so far</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+            <SlaMeasureRow
+              label={`RFQs answered within ${targets.response_hours}h`}
+              actual={metrics.response.within_target_pct}
+              target={targets.response_met_pct}
+              detail={`${metrics.response.answered}/${metrics.response.rfqs} answered${metrics.response.avg_hours !== null ? `, avg ${metrics.response.avg_hours}h` : ''}`}
+              missed={report.breaches.includes('response')}
+            />
+            <SlaMeasureRow
+              label={`Quotes accurate to ${targets.price_tolerance_pct}%`}
+              actual={metrics.quote_accuracy.accuracy_pct}
+              target={targets.quote_accuracy_pct}
+              detail={`${metrics.quote_accuracy.accurate}/${metrics.quote_accuracy.orders} orders`}
+              missed={report.breaches.includes('quote_accuracy')}
+            />
+            <SlaMeasureRow
+              label={`Shipped within ${targets.delivery_days} days`}
+              actual={metrics.delivery.on_time_pct}
+              target={targets.on_time_pct}
+              detail={`${metrics.delivery.on_time} on time, ${metrics.delivery.late} late, ${metrics.delivery.pending} open`}
+              missed={report.breaches.includes('on_time_delivery')}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <p className="text-xs text-gray-400">Monthly scorecards</p>
+        <div className="flex gap-2">
+          <input
+            type="month"
+            value={month}
+            max={lastMonth}
+            onChange={(e) => setMonth(e.target.value)}
+            className="bg-[#252525] border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-lime-500/50"
+          />
+          <button
+            onClick={() => onGenerate(month)}
+            disabled={!month}
+            className="px-3 py-1.5 bg-lime-400 hover:bg-lime-500 disabled:opacity-50 text-black font-bold rounded-lg text-xs transition-all flex items-center gap-1"
+          >
+            <Plus size={12} />
+            Generate
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {scorecards.map(scorecard => (
+          <div key={scorecard.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-[#252525] border border-white/5">
+            <div className="min-w-0">
+              <p className="text-sm text-white">{monthLabel(scorecard.period_start)}</p>
+              <p className={`text-xs ${scorecard.breaches.length > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {scorecard.breaches.length > 0 ? `${scorecard.breaches.length} target(s) missed` : 'All measured targets met'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {scorecard.pdf_url && (
+                <a
+                  href={scorecard.pdf_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="p-1.5 hover:bg-white/10 rounded transition-colors"
+                  title="Download PDF"
+                >
+                  <Download size={14} className="text-gray-400" />
+                </a>
+              )}
+              {scorecard.sent_at ? (
+                <span className="text-[10px] text-gray-500" title={new Date(scorecard.sent_at).toLocaleString('en-ZA')}>
+                  Sent to {scorecard.sent_to}
+                </span>
+              ) : (
+                <button
+                  onClick={() => onEmail(scorecard)}
+                  className="px-2.5 py-1 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg text-xs transition-all flex items-center gap-1"
+                  title={scorecard.email_task_id ? 'An approval task was already requested' : 'Creates an approval task'}
+                >
+                  <Mail size={12} />
+                  {scorecard.email_task_id ? 'Awaiting approval' : 'Email to supplier'}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {scorecards.length === 0 && <p className="text-xs text-gray-500">No scorecards yet</p>}
+      </div>
+    </div>
+  )
+}
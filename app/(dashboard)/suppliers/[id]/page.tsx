@@ -0,0 +1,360 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import {
+  ArrowLeft,
+  Building2,
+  Mail,
+  Phone,
+  Star,
+  Send,
+  Package,
+  Tag,
+  TrendingUp,
+  BarChart3,
+  Clock,
+  Users
+} from 'lucide-react'
+import {
+  TimelineItem,
+  TradingTermsCard,
+  TasksCard,
+  NotesCard,
+  SlaCard,
+  TIMELINE_TYPES,
+  type TimelineEvent,
+  type TimelineEventType,
+  type TeamMember,
+  type SupplierNote,
+  type SupplierTask,
+  type TradingTerms,
+  type SlaReport,
+  type SupplierScorecard
+} from './components'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface SupplierProfile {
+  supplier: TradingTerms & {
+    id: string
+    name: string
+    company: string
+    email: string
+    phone: string | null
+    vat_number: string | null
+    specialties: string[] | null
+    tags: string[] | null
+    relationship_strength: number | null
+    reliability_score: number | null
+    avg_response_time_hours: number | null
+    is_active: boolean | null
+    merged_into_id: string | null
+  }
+  contacts: Array<{
+    id: string
+    contact_name: string
+    email: string
+    phone: string | null
+    role: string | null
+    preferred_contact: boolean
+  }>
+  notes: SupplierNote[]
+  tasks: SupplierTask[]
+  stats: {
+    products: number
+    rfqs_sent: number
+    rfqs_answered: number
+    supplier_emails: number
+    purchase_orders: number
+    open_tasks: number
+  }
+}
+
+export default function SupplierProfilePage() {
+  const { id } = useParams<{ id: string }>()
+  const [profile, setProfile] = useState<SupplierProfile | null>(null)
+  const [team, setTeam] = useState<TeamMember[]>([])
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [nextBefore, setNextBefore] = useState<string | null>(null)
+  const [typeFilter, setTypeFilter] = useState<TimelineEventType | 'all'>('all')
+  const [sla, setSla] = useState<SlaReport | null>(null)
+  const [scorecards, setScorecards] = useState<SupplierScorecard[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchProfile = async () => {
+    const res = await fetch(`/api/suppliers/${id}/profile`)
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error)
+      return
+    }
+    setProfile(data)
+  }
+
+  const fetchTimeline = async (before: string | null = null) => {
+    const query = new URLSearchParams()
+    if (before) query.set('before', before)
+    if (typeFilter !== 'all') query.set('types', typeFilter)
+
+    const res = await fetch(`/api/suppliers/${id}/timeline?${query}`)
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error)
+      return
+    }
+    setEvents(prev => before ? [...prev, ...data.events] : data.events)
+    setNextBefore(data.next_before)
+  }
+
+  const fetchSla = async () => {
+    const [slaRes, scorecardsRes] = await Promise.all([
+      fetch(`/api/suppliers/${id}/sla`),
+      fetch(`/api/suppliers/${id}/scorecards`)
+    ])
+    const [slaData, scorecardsData] = await Promise.all([slaRes.json(), scorecardsRes.json()])
+    if (slaRes.ok) setSla(slaData)
+    if (scorecardsRes.ok) setScorecards(scorecardsData.scorecards || [])
+  }
+
+  useEffect(() => {
+    Promise.all([
+      fetchProfile(),
+      fetchSla(),
+      fetch('/api/approvers').then(res => res.json()).then(data => setTeam(data.approvers || []))
+    ]).finally(() => setIsLoading(false))
+  }, [id])
+
+  useEffect(() => {
+    fetchTimeline()
+  }, [id, typeFilter])
+
+  // Notes, tasks and terms show on the timeline too - refresh both
+  const run = async (action: () => Promise<Response>, refresh: () => Promise<unknown> = () => Promise.all([fetchProfile(), fetchTimeline()])) => {
+    setError(null)
+    try {
+      const res = await action()
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      await refresh()
+    } catch (err: any) {
+      setError(err.message)
+    }
+  }
+
+  const request = async (method: string, path: string, body?: any) =>
+    fetch(`/api/suppliers/${id}/${path}`, {
+      method,
+      headers: await approverAuthHeaders(),
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+  const send = (method: string, path: string, body?: any) => run(() => request(method, path, body))
+
+  const sendSla = (method: string, path: string, body?: any) => run(() => request(method, path, body), fetchSla)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-lime-400" />
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="space-y-4">
+        <Link href="/suppliers/contacts" className="text-sm text-gray-400 hover:text-white flex items-center gap-1">
+          <ArrowLeft size={14} />
+          Supplier Contacts
+        </Link>
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm">{error || 'Supplier not found'}</div>
+      </div>
+    )
+  }
+
+  const { supplier, stats } = profile
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Link href="/suppliers/contacts" className="text-sm text-gray-400 hover:text-white flex items-center gap-1 mb-2">
+          <ArrowLeft size={14} />
+          Supplier Contacts
+        </Link>
+        <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Building2 className="text-lime-400" />
+          {supplier.company}
+          {!supplier.is_active && (
+            <span className="text-xs px-2 py-0.5 rounded bg-gray-500/20 text-gray-400 border border-gray-500/30">
+              {supplier.merged_into_id ? 'Merged' : 'Inactive'}
+            </span>
+          )}
+        </h1>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400 mt-2">
+          <span>{supplier.name}</span>
+          <span className="flex items-center gap-1"><Mail size={14} />{supplier.email}</span>
+          {supplier.phone && <span className="flex items-center gap-1"><Phone size={14} />{supplier.phone}</span>}
+          {supplier.vat_number && <span>VAT {supplier.vat_number}</span>}
+        </div>
+        {(supplier.specialties || []).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-3">
+            {(supplier.specialties || []).map(spec => (
+              <span key={spec} className="text-[10px] px-2 py-1 rounded bg-purple-500/20 text-purple-400 border border-purple-500/30">
+                {spec}
+              </span>
+            ))}
+          </div>
+        )}
+      </motion.div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm">{error}</div>
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid grid-cols-2 md:grid-cols-6 gap-4"
+      >
+        <StatCard label="Relationship" value={`${supplier.relationship_strength ?? '-'}%`} icon={TrendingUp} color="text-lime-400" />
+        <StatCard label="Reliability" value={`${supplier.reliability_score ?? '-'}%`} icon={BarChart3} color="text-green-400" />
+        <StatCard
+          label="Avg Response"
+          value={supplier.avg_response_time_hours != null ? `${Math.round(supplier.avg_response_time_hours)}h` : '-'}
+          icon={Clock}
+          color="text-blue-400"
+        />
+        <StatCard label="RFQs Answered" value={`${stats.rfqs_answered}/${stats.rfqs_sent}`} icon={Send} color="text-cyan-400" />
+        <StatCard label="Orders Sent" value={stats.purchase_orders} icon={Package} color="text-purple-400" />
+        <StatCard label="Products" value={stats.products} icon={Tag} color="text-yellow-400" />
+      </motion.div>
+
+      {sla && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+        >
+          <SlaCard
+            key={JSON.stringify(sla.overrides)}
+            report={sla}
+            scorecards={scorecards}
+            onSaveTargets={(targets) => sendSla('PATCH', 'sla', targets || { reset: true })}
+            onGenerate={(month) => sendSla('POST', 'scorecards', { month })}
+            onEmail={(scorecard) => sendSla('POST', `scorecards/${scorecard.id}/email`)}
+          />
+        </motion.div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="lg:col-span-2 bg-[#1c1c1c] border border-white/5 rounded-2xl p-6"
+        >
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+            <h2 className="text-xl font-bold text-white">Timeline</h2>
+            <div className="flex flex-wrap gap-1">
+              {(['all', ...Object.keys(TIMELINE_TYPES)] as Array<TimelineEventType | 'all'>).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setTypeFilter(type)}
+                  className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                    typeFilter === type ? 'bg-lime-400 text-black' : 'bg-white/5 text-gray-400 hover:bg-white/10'
+                  }`}
+                >
+                  {type === 'all' ? 'All' : TIMELINE_TYPES[type].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {events.map((event, idx) => (
+            <TimelineItem key={event.id} event={event} isLast={idx === events.length - 1} />
+          ))}
+          {events.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              <Clock className="mx-auto mb-2 opacity-50" size={32} />
+              Nothing on the timeline yet
+            </div>
+          )}
+          {nextBefore && (
+            <button
+              onClick={() => fetchTimeline(nextBefore)}
+              className="w-full mt-2 px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-xl text-sm transition-all"
+            >
+              Load older
+            </button>
+          )}
+        </motion.div>
+
+        <div className="space-y-6">
+          <TradingTermsCard
+            key={supplier.id + supplier.account_manager_id + supplier.payment_terms + supplier.credit_limit + (supplier.delivery_zones || []).join()}
+            terms={supplier}
+            team={team}
+            onSave={(terms) => send('PATCH', 'profile', terms)}
+          />
+          <TasksCard
+            tasks={profile.tasks}
+            team={team}
+            onAdd={(task) => send('POST', 'tasks', task)}
+            onUpdate={(task, updates) => send('PATCH', `tasks/${task.id}`, updates)}
+          />
+          <NotesCard
+            notes={profile.notes}
+            onAdd={(body) => send('POST', 'notes', { body })}
+            onTogglePin={(note) => send('PATCH', `notes/${note.id}`, { pinned: !note.pinned })}
+            onDelete={(note) => send('DELETE', `notes/${note.id}`)}
+          />
+
+          <div className="bg-[#1c1c1c] border border-white/5 rounded-2xl p-5">
+            <h3 className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+              <Users size={16} className="text-purple-400" />
+              Contacts ({profile.contacts.length})
+            </h3>
+            <div className="space-y-3">
+              {profile.contacts.map(contact => (
+                <div key={contact.id} className="text-sm">
+                  <p className="text-white flex items-center gap-1">
+                    {contact.contact_name}
+                    {contact.preferred_contact && <Star size={12} className="text-yellow-400 fill-yellow-400" />}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {[contact.role, contact.email, contact.phone].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              ))}
+              {profile.contacts.length === 0 && <p className="text-xs text-gray-500">No contacts</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function StatCard({ label, value, icon: Icon, color }: {
+  label: string
+  value: number | string
+  icon: any
+  color: string
+}) {
+  return (
+    <div className="bg-[#1c1c1c] border border-white/5 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Icon size={16} className={color} />
+        <p className="text-xs text-gray-400">{label}</p>
+      </div>
+      <p className={`text-2xl font-bold ${color}`}>{value}</p>
+    </div>
+  )
+}
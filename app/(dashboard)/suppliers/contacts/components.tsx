@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { motion } from 'framer-motion'
+import Link from 'next/link'
 import { supabase } from '@/lib/supabase'
 import {
   Building2,
@@ -16,7 +17,8 @@ import {
   Users,
   DollarSign,
   Package,
-  Send
+  Send,
+  ExternalLink
 } from 'lucide-react'
 
 export function SupplierDetailPanel({
@@ -46,6 +48,13 @@ export function SupplierDetailPanel({
           <div className="flex-1">
             <h3 className="text-lg font-bold text-white">{supplier.company}</h3>
             <p className="text-sm text-gray-400">{supplier.name}</p>
+            <Link
+              href={`/suppliers/${supplier.id}`}
+              className="text-xs text-lime-400 hover:text-lime-300 flex items-center gap-1 mt-1"
+            >
+              <ExternalLink size={12} />
+              Full profile & timeline
+            </Link>
           </div>
           <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-lg transition-colors">
             <X size={20} className="text-gray-400" />
@@ -336,6 +345,8 @@ export function SupplierFormModal({ title, supplier, onClose, onSubmit }: any) {
     name: supplier?.name || '',
     email: supplier?.email || '',
     phone: supplier?.phone || '',
+    vat_number: supplier?.vat_number || '',
+    registration_number: supplier?.registration_number || '',
     specialties: supplier?.specialties || [],
     tags: supplier?.tags || [],
     notes: supplier?.notes || ''
@@ -415,6 +426,26 @@ export function SupplierFormModal({ title, supplier, onClose, onSubmit }: any) {
               />
             </div>
           </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">VAT Number</label>
+              <input
+                type="text"
+                value={formData.vat_number}
+                onChange={e => setFormData(prev => ({ ...prev, vat_number: e.target.value }))}
+                className="w-full bg-[#252525] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-lime-500/50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Company Registration Number</label>
+              <input
+                type="text"
+                value={formData.registration_number}
+                onChange={e => setFormData(prev => ({ ...prev, registration_number: e.target.value }))}
+                className="w-full bg-[#252525] border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-lime-500/50"
+              />
+            </div>
+          </div>
           <div>
             <label className="block text-sm text-gray-400 mb-2">Specialties</label>
             <div className="flex flex-wrap gap-2">
@@ -31,8 +31,10 @@ import {
   Send,
   CheckCircle,
   XCircle,
-  Package
+  Package,
+  GitMerge
 } from 'lucide-react'
+import Link from 'next/link'
 import { supabase } from '@/lib/supabase'
 import {
   SupplierDetailPanel,
@@ -49,6 +51,8 @@ interface Supplier {
   company: string
   email: string
   phone: string | null
+  vat_number: string | null
+  registration_number: string | null
   specialties: string[]
   notes: string | null
   tags: string[]
@@ -201,6 +205,7 @@ export default function SupplierContactsPage() {
       const { data, error } = await supabase
         .from('suppliers')
         .select('*')
+        .is('merged_into_id', null)
         .order('company', { ascending: true })
 
       if (error) throw error
@@ -258,6 +263,8 @@ export default function SupplierContactsPage() {
           company: data.company,
           email: data.email,
           phone: data.phone || null,
+          vat_number: data.vat_number || null,
+          registration_number: data.registration_number || null,
           specialties: data.specialties || [],
           tags: data.tags || [],
           notes: data.notes || null,
@@ -287,6 +294,8 @@ export default function SupplierContactsPage() {
           company: data.company,
           email: data.email,
           phone: data.phone || null,
+          vat_number: data.vat_number || null,
+          registration_number: data.registration_number || null,
           specialties: data.specialties || [],
           tags: data.tags || [],
           notes: data.notes || null,
@@ -502,6 +511,13 @@ export default function SupplierContactsPage() {
           <p className="text-gray-400 mt-1">Manage your supplier network and relationships</p>
         </div>
         <div className="flex gap-2 flex-wrap">
+          <Link
+            href="/suppliers/duplicates"
+            className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl transition-all flex items-center gap-2"
+          >
+            <GitMerge size={18} />
+            Duplicates
+          </Link>
           <button
             onClick={() => setShowImportModal(true)}
             className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl transition-all flex items-center gap-2"
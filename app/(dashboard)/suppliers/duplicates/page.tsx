@@ -0,0 +1,275 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { motion } from 'framer-motion'
+import { GitMerge, RefreshCw, X, Undo2, ArrowLeft, Building2 } from 'lucide-react'
+import { approverAuthHeaders } from '@/lib/approver-session'
+
+interface SupplierRecord {
+  id: string
+  name: string
+  company: string
+  email: string
+  phone: string | null
+  vat_number: string | null
+  registration_number: string | null
+  reliability_score: number | null
+  is_active: boolean | null
+  created_at: string
+}
+
+interface DuplicateCandidate {
+  id: string
+  supplier_a_id: string
+  supplier_b_id: string
+  score: number
+  signals: string[]
+  name_similarity: number | null
+  supplier_a?: SupplierRecord
+  supplier_b?: SupplierRecord
+}
+
+interface SupplierMerge {
+  id: string
+  survivor_id: string
+  merged_id: string
+  status: 'merged' | 'undone'
+  moved_rows: Record<string, string[]>
+  survivor_before: SupplierRecord
+  merged_before: SupplierRecord
+  merged_by: string
+  merged_at: string
+  undone_by: string | null
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  vat_number: 'Same VAT number',
+  registration_number: 'Same registration number',
+  email: 'Same email',
+  email_domain: 'Same email domain',
+  phone: 'Same phone',
+  name: 'Similar name'
+}
+
+export default function SupplierDuplicatesPage() {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [merges, setMerges] = useState<SupplierMerge[]>([])
+  const [survivors, setSurvivors] = useState<Record<string, string>>({})
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchData = async () => {
+    const [candidatesRes, mergesRes] = await Promise.all([
+      fetch('/api/suppliers/duplicates'),
+      fetch('/api/suppliers/merges')
+    ])
+    const candidatesData = await candidatesRes.json()
+    const mergesData = await mergesRes.json()
+    setCandidates(candidatesData.candidates || [])
+    setMerges(mergesData.merges || [])
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const run = async (key: string, action: () => Promise<Response>) => {
+    setBusy(key)
+    setError(null)
+    try {
+      const res = await action()
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error)
+      await fetchData()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  // Keep the older record unless chosen otherwise
+  const getSurvivorId = (candidate: DuplicateCandidate) => {
+    if (survivors[candidate.id]) return survivors[candidate.id]
+    const { supplier_a: a, supplier_b: b } = candidate
+    if (!a || !b) return candidate.supplier_a_id
+    return new Date(a.created_at) <= new Date(b.created_at) ? a.id : b.id
+  }
+
+  const handleMerge = (candidate: DuplicateCandidate) => {
+    const survivorId = getSurvivorId(candidate)
+    const mergedId = survivorId === candidate.supplier_a_id ? candidate.supplier_b_id : candidate.supplier_a_id
+    return run(candidate.id, async () => fetch('/api/suppliers/merges', {
+      method: 'POST',
+      headers: await approverAuthHeaders(),
+      body: JSON.stringify({ survivor_id: survivorId, merged_id: mergedId })
+    }))
+  }
+
+  const handleDismiss = (candidate: DuplicateCandidate) =>
+    run(candidate.id, async () => fetch(`/api/suppliers/duplicates/${candidate.id}`, {
+      method: 'PATCH',
+      headers: await approverAuthHeaders(),
+      body: JSON.stringify({ status: 'dismissed' })
+    }))
+
+  const handleUndo = (merge: SupplierMerge) =>
+    run(merge.id, async () => fetch(`/api/suppliers/merges/${merge.id}/undo`, { method: 'POST', headers: await approverAuthHeaders() }))
+
+  const renderSupplier = (candidate: DuplicateCandidate, supplier: SupplierRecord | undefined) => {
+    if (!supplier) return <div className="flex-1 text-gray-500 text-sm">Supplier removed</div>
+    const keep = getSurvivorId(candidate) === supplier.id
+
+    return (
+      <label
+        className={`flex-1 p-4 rounded-xl border cursor-pointer transition-all ${
+          keep ? 'border-lime-500/50 bg-lime-500/5' : 'border-white/10 bg-white/5'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-semibold text-white">{supplier.company}</span>
+          <span className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="radio"
+              checked={keep}
+              onChange={() => setSurvivors(prev => ({ ...prev, [candidate.id]: supplier.id }))}
+            />
+            Keep
+          </span>
+        </div>
+        <div className="space-y-1 text-xs text-gray-400">
+          <p>{supplier.name} · {supplier.email}</p>
+          {supplier.phone && <p>{supplier.phone}</p>}
+          {supplier.vat_number && <p>VAT {supplier.vat_number}</p>}
+          {supplier.registration_number && <p>Reg {supplier.registration_number}</p>}
+          <p>
+            Added {new Date(supplier.created_at).toLocaleDateString()}
+            {supplier.reliability_score != null && ` · Reliability ${supplier.reliability_score}`}
+            {supplier.is_active === false && ' · Inactive'}
+          </p>
+        </div>
+      </label>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between"
+      >
+        <div>
+          <Link href="/suppliers/contacts" className="text-sm text-gray-400 hover:text-white flex items-center gap-1 mb-2">
+            <ArrowLeft size={14} />
+            Supplier Contacts
+          </Link>
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <GitMerge className="text-lime-400" />
+            Duplicate Suppliers
+          </h1>
+          <p className="text-gray-400 mt-1">Suppliers sharing a VAT number, email domain or phone, scored for review</p>
+        </div>
+        <button
+          onClick={() => run('scan', async () => fetch('/api/suppliers/duplicates', { method: 'POST', headers: await approverAuthHeaders() }))}
+          disabled={busy !== null}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl transition-all flex items-center gap-2"
+        >
+          <RefreshCw size={18} className={busy === 'scan' ? 'animate-spin' : ''} />
+          Scan Now
+        </button>
+      </motion.div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 text-red-400 text-sm">{error}</div>
+      )}
+
+      <div className="space-y-4">
+        {candidates.map(candidate => (
+          <motion.div
+            key={candidate.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-[#1c1c1c] border border-white/10 rounded-2xl p-5"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={`text-sm font-bold px-2 py-0.5 rounded ${
+                  candidate.score >= 80 ? 'bg-red-500/20 text-red-400' : 'bg-orange-500/20 text-orange-400'
+                }`}>
+                  {candidate.score}
+                </span>
+                {candidate.signals.map(signal => (
+                  <span key={signal} className="text-xs px-2 py-0.5 rounded border border-white/10 text-gray-400">
+                    {SIGNAL_LABELS[signal] || signal}
+                    {signal === 'name' && candidate.name_similarity != null && ` (${Math.round(candidate.name_similarity * 100)}%)`}
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleDismiss(candidate)}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg text-sm flex items-center gap-1"
+                >
+                  <X size={14} />
+                  Not Duplicates
+                </button>
+                <button
+                  onClick={() => handleMerge(candidate)}
+                  disabled={busy !== null}
+                  className="px-3 py-1.5 bg-lime-400 hover:bg-lime-500 text-black font-bold rounded-lg text-sm flex items-center gap-1"
+                >
+                  <GitMerge size={14} />
+                  {busy === candidate.id ? 'Merging...' : 'Merge'}
+                </button>
+              </div>
+            </div>
+            <div className="flex gap-4">
+              {renderSupplier(candidate, candidate.supplier_a)}
+              {renderSupplier(candidate, candidate.supplier_b)}
+            </div>
+          </motion.div>
+        ))}
+        {candidates.length === 0 && (
+          <div className="bg-[#1c1c1c] border border-white/10 rounded-2xl p-8 text-center text-gray-500">
+            <Building2 className="mx-auto mb-2" />
+            No likely duplicates
+          </div>
+        )}
+      </div>
+
+      {merges.length > 0 && (
+        <div className="bg-[#1c1c1c] border border-white/10 rounded-2xl p-5">
+          <h3 className="text-sm font-medium text-gray-400 mb-4">Recent Merges</h3>
+          <div className="space-y-2">
+            {merges.map(merge => (
+              <div key={merge.id} className="flex items-center justify-between text-sm border-t border-white/5 pt-2">
+                <span className={merge.status === 'undone' ? 'text-gray-500 line-through' : 'text-gray-300'}>
+                  {merge.merged_before.company} → {merge.survivor_before.company}
+                  <span className="text-gray-500 ml-2">
+                    {Object.values(merge.moved_rows || {}).reduce((sum, ids) => sum + ids.length, 0)} records ·
+                    {' '}{merge.merged_by} · {new Date(merge.merged_at).toLocaleString()}
+                  </span>
+                </span>
+                {merge.status === 'merged' ? (
+                  <button
+                    onClick={() => handleUndo(merge)}
+                    disabled={busy !== null}
+                    className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 text-gray-300 rounded-lg text-xs flex items-center gap-1"
+                  >
+                    <Undo2 size={12} />
+                    Undo
+                  </button>
+                ) : (
+                  <span className="text-xs text-gray-500">Undone by {merge.undone_by}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
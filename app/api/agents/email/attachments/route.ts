@@ -0,0 +1,78 @@
+/**
+ * Email Attachments Endpoint
+ *
+ * GET ?email_id= lists an email's attachments with their extracted text and
+ * tables and a short-lived download link. POST { email_id, retry_failed }
+ * downloads and extracts the pending ones now (supplier quote extraction and
+ * quote request detection otherwise do this when they read the email). POST
+ * requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailAttachments } from '@/services/email-attachments'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 120
+
+export async function GET(request: NextRequest) {
+  try {
+    const emailId = request.nextUrl.searchParams.get('email_id')
+    if (!emailId) {
+      return NextResponse.json(
+        { error: 'email_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const attachments = await emailAttachments.listAttachmentsWithUrls(emailId)
+
+    return NextResponse.json({
+      attachments,
+      count: attachments.length
+    })
+  } catch (error: any) {
+    console.error('[EMAIL ATTACHMENTS] Error listing attachments:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to process attachments' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    if (!body.email_id) {
+      return NextResponse.json(
+        { error: 'email_id is required' },
+        { status: 400 }
+      )
+    }
+
+    await emailAttachments.processAttachments(body.email_id, { retryFailed: !!body.retry_failed })
+    const attachments = await emailAttachments.listAttachmentsWithUrls(body.email_id)
+
+    console.log(`[EMAIL ATTACHMENTS] Processed ${attachments.length} attachments of email ${body.email_id}`)
+
+    return NextResponse.json({
+      success: true,
+      attachments,
+      count: attachments.length
+    })
+  } catch (error: any) {
+    console.error('[EMAIL ATTACHMENTS] Error processing attachments:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Email not found' ? 404 : 500 }
+    )
+  }
+}
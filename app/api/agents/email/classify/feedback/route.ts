@@ -0,0 +1,60 @@
+/**
+ * Email Classification Feedback Endpoint
+ *
+ * Records a manual re-categorisation from the Email Agent panel. The email is
+ * updated and the correction becomes a few-shot example for the classifier.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { recordClassificationFeedback } from '@/lib/email-classifier'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to re-categorise emails' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const correctedBy = approver.name
+
+    if (!body.email_id || !body.category) {
+      return NextResponse.json(
+        { error: 'email_id and category are required' },
+        { status: 400 }
+      )
+    }
+
+    await recordClassificationFeedback({
+      emailId: body.email_id,
+      category: body.category,
+      priority: body.priority,
+      subIntent: body.sub_intent,
+      correctedBy
+    })
+
+    console.log(`[CLASSIFY FEEDBACK] Email ${body.email_id} re-categorised as ${body.category} by ${correctedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      email_id: body.email_id,
+      category: body.category
+    })
+  } catch (error: any) {
+    console.error('[CLASSIFY FEEDBACK] Error recording feedback:', error)
+    const status = error.message === 'Email not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
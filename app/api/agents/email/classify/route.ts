@@ -3,8 +3,8 @@ import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { checkRateLimit, logAgentExecution, AGENT_RATE_LIMITS } from '@/lib/rate-limiter'
 import { logAgentActivity } from '@/lib/logger'
-import { detectQuoteRequest } from '@/lib/quote-request-detector'
-import { processSupplierResponse } from '@/lib/supplier-response-handler'
+import { classifyEmail } from '@/lib/email-classifier'
+import { publishEvent } from '@/services/event-bus'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -23,25 +23,6 @@ async function logToSquadMessages(fromAgent: string, message: string, data: any
     })
 }
 
-type EmailCategory = 'order' | 'support' | 'inquiry' | 'complaint' | 'spam' | 'internal' | 'other'
-type EmailPriority = 'low' | 'medium' | 'high' | 'urgent'
-
-// Internal/known domains - never auto-respond to these
-const INTERNAL_DOMAINS = [
-  'audico.co.za',
-  'audicoonline.co.za',
-]
-
-// Known business partners / vendors / service providers - never auto-respond
-// These are companies we work with internally (call centers, suppliers, etc.)
-const KNOWN_PARTNERS = [
-  'thetha',        // Thetha - our call center
-  'noreply',       // Automated system emails
-  'no-reply',
-  'mailer-daemon',
-  'postmaster',
-]
-
 /**
  * Load senders that Kenny has rejected 2+ times from squad_tasks.
  * This teaches the system to stop emailing people Kenny keeps rejecting.
@@ -88,133 +69,6 @@ async function loadBlockedSenders(): Promise<string[]> {
   }
 }
 
-function classifyEmail(from: string, subject: string, body: string, blockedSenders: string[] = []): {
-  category: EmailCategory
-  priority: EmailPriority
-} {
-  const lowerFrom = from.toLowerCase()
-  const lowerSubject = subject.toLowerCase()
-  const lowerBody = body.toLowerCase()
-  const combined = lowerSubject + ' ' + lowerBody
-
-  // 1. Internal emails - staff, own domains (never auto-respond)
-  if (INTERNAL_DOMAINS.some(domain => lowerFrom.includes(domain))) {
-    return { category: 'internal', priority: 'low' }
-  }
-
-  // 1b. Known business partners (call centers, vendors) - never auto-respond
-  if (KNOWN_PARTNERS.some(partner => lowerFrom.includes(partner))) {
-    return { category: 'internal', priority: 'low' }
-  }
-
-  // 1c. Learned blocklist - senders Kenny has rejected 2+ times
-  if (blockedSenders.some(blocked => lowerFrom.includes(blocked))) {
-    return { category: 'internal', priority: 'low' }
-  }
-
-  // 2. Spam / marketing noise
-  if (
-    combined.includes('unsubscribe') ||
-    combined.includes('spam') ||
-    combined.includes('promotional') ||
-    combined.includes('opt out') ||
-    combined.includes('marketing email')
-  ) {
-    return { category: 'spam', priority: 'low' }
-  }
-
-  let category: EmailCategory = 'other'
-  let priority: EmailPriority = 'medium'
-
-  // 3. Complaints / disgruntled customers (URGENT - always draft response)
-  if (
-    combined.includes('complaint') ||
-    combined.includes('unhappy') ||
-    combined.includes('disappointed') ||
-    combined.includes('disgusted') ||
-    combined.includes('terrible') ||
-    combined.includes('worst') ||
-    combined.includes('refund') ||
-    combined.includes('broken') ||
-    combined.includes('damaged') ||
-    combined.includes('not working') ||
-    combined.includes('never received') ||
-    combined.includes('wrong item') ||
-    combined.includes('faulty')
-  ) {
-    category = 'complaint'
-    priority = 'urgent'
-  }
-  // 4. Tech support / product help (AI can assist well)
-  else if (
-    combined.includes('how do i') ||
-    combined.includes('how to') ||
-    combined.includes('setup') ||
-    combined.includes('set up') ||
-    combined.includes('install') ||
-    combined.includes('connect') ||
-    combined.includes('pair') ||
-    combined.includes('bluetooth') ||
-    combined.includes('wifi') ||
-    combined.includes('firmware') ||
-    combined.includes('not connecting') ||
-    combined.includes('troubleshoot') ||
-    combined.includes('manual') ||
-    combined.includes('specs') ||
-    combined.includes('specification') ||
-    combined.includes('compatible') ||
-    combined.includes('help') ||
-    combined.includes('support') ||
-    combined.includes('issue') ||
-    combined.includes('problem')
-  ) {
-    category = 'support'
-    priority = 'high'
-  }
-  // 5. Product inquiries / pricing (AI can auto-assist)
-  else if (
-    combined.includes('price') ||
-    combined.includes('cost') ||
-    combined.includes('stock') ||
-    combined.includes('available') ||
-    combined.includes('availability') ||
-    combined.includes('do you have') ||
-    combined.includes('looking for') ||
-    combined.includes('interested in') ||
-    combined.includes('catalogue') ||
-    combined.includes('catalog') ||
-    combined.includes('quote') ||
-    combined.includes('question') ||
-    combined.includes('inquiry') ||
-    combined.includes('wondering')
-  ) {
-    category = 'inquiry'
-    priority = 'medium'
-  }
-  // 6. Orders / invoices / supplier stuff - just log, your team handles these
-  else if (
-    combined.includes('order') ||
-    combined.includes('purchase') ||
-    combined.includes('invoice') ||
-    combined.includes('receipt') ||
-    combined.includes('statement') ||
-    combined.includes('payment received') ||
-    combined.includes('proof of payment') ||
-    combined.includes('remittance') ||
-    combined.includes('credit note')
-  ) {
-    category = 'order'
-    priority = 'low'
-  }
-
-  // Urgency override
-  if (combined.includes('urgent') || combined.includes('asap') || combined.includes('immediately')) {
-    priority = 'urgent'
-  }
-
-  return { category, priority }
-}
-
 /**
  * Core classification logic - shared between GET (Vercel Cron) and POST (manual trigger)
  */
@@ -280,12 +134,15 @@ async function handleClassify() {
 
     for (const emailLog of unclassifiedEmails) {
       try {
-        const { category, priority } = classifyEmail(
-          emailLog.from_email,
-          emailLog.subject,
-          emailLog.payload?.body || '',
-          blockedSenders
+        const classification = await classifyEmail(
+          {
+            from_email: emailLog.from_email,
+            subject: emailLog.subject,
+            body: emailLog.payload?.body || '',
+          },
+          { blockedSenders, labelRoute: emailLog.payload?.label_route }
         )
+        const { category, priority } = classification
 
         const { data: updated, error: updateError } = await supabase
           .from('email_logs')
@@ -293,6 +150,17 @@ async function handleClassify() {
             category,
             priority,
             status: 'classified',
+            payload: {
+              ...emailLog.payload,
+              priority,
+              sub_intent: classification.sub_intent,
+              sentiment: classification.sentiment,
+              language: classification.language,
+              entities: classification.entities,
+              classification_confidence: classification.confidence,
+              classification_reason: classification.reason,
+              classification_method: classification.method,
+            },
             updated_at: new Date().toISOString(),
           })
           .eq('id', emailLog.id)
@@ -314,17 +182,22 @@ async function handleClassify() {
           id: emailLog.id,
           subject: emailLog.subject,
           category,
-          priority
+          priority,
+          sub_intent: classification.sub_intent,
+          confidence: classification.confidence
         })
 
         await logToSquadMessages(
           'Email Agent',
-          `📬 ${category.toUpperCase()}: "${emailLog.subject}" (${priority} priority)`,
+          `📬 ${category.toUpperCase()}${classification.sub_intent ? ` / ${classification.sub_intent}` : ''}: "${emailLog.subject}" (${priority} priority, ${Math.round(classification.confidence * 100)}% ${classification.method})`,
           {
             action: 'email_classified',
             email_id: emailLog.id,
             category,
             priority,
+            sub_intent: classification.sub_intent,
+            confidence: classification.confidence,
+            method: classification.method,
           }
         )
       } catch (error: any) {
@@ -332,61 +205,28 @@ async function handleClassify() {
       }
     }
 
-    // === Quote Detection & Supplier Response Processing (non-fatal) ===
+    // === Quote detection & supplier responses run as email.classified subscribers ===
     const classifiedIds = new Set(classified.map(c => c.id))
     for (const emailLog of unclassifiedEmails) {
       if (!classifiedIds.has(emailLog.id)) continue
+      const { category, priority, sub_intent, confidence } = classified.find(c => c.id === emailLog.id)!
 
       try {
-        const quoteResult = await detectQuoteRequest({
-          id: emailLog.id,
-          gmail_message_id: emailLog.gmail_message_id,
-          from_email: emailLog.from_email,
-          subject: emailLog.subject,
-          body: emailLog.payload?.body || '',
-        })
-
-        // LOG RESULTS TO SQUAD_MESSAGES (so we can see what's happening!)
-        if (quoteResult.isQuoteRequest) {
-          await logToSquadMessages(
-            'Email Agent',
-            `🎯 Quote request detected: "${emailLog.subject}" (${Math.round(quoteResult.confidenceScore * 100)}% confidence)`,
-            {
-              email_id: emailLog.id,
-              quote_request_id: quoteResult.quoteRequestId,
-              task_id: quoteResult.taskId,
-              confidence: quoteResult.confidenceScore,
-            }
-          )
-        } else {
-          // Log even when NOT a quote (so we know the detector ran)
-          await logToSquadMessages(
-            'Email Agent',
-            `📧 Not a quote request: "${emailLog.subject}" (${Math.round(quoteResult.confidenceScore * 100)}% confidence)`,
-            {
-              email_id: emailLog.id,
-              confidence: quoteResult.confidenceScore,
-            }
-          )
-        }
-      } catch (err: any) {
-        console.error('Quote detection failed (non-fatal):', err)
-        // LOG ERRORS TO SQUAD_MESSAGES
-        await logToSquadMessages(
-          'Email Agent',
-          `❌ Quote detection error for "${emailLog.subject}": ${err.message}`,
+        await publishEvent(
+          'email.classified',
           {
-            email_id: emailLog.id,
-            error: err.message,
-            stack: err.stack?.substring(0, 500),
-          }
+            emailId: emailLog.id,
+            category,
+            subIntent: sub_intent,
+            priority,
+            confidence,
+            fromEmail: emailLog.from_email,
+            subject: emailLog.subject,
+          },
+          { source: 'Email Agent', correlationId: emailLog.id }
         )
-      }
-
-      try {
-        await processSupplierResponse(emailLog.id)
       } catch (err) {
-        console.error('Supplier response check failed (non-fatal):', err)
+        console.error('Failed to publish email.classified (non-fatal):', err)
       }
     }
 
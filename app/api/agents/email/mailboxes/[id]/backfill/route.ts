@@ -0,0 +1,56 @@
+/**
+ * Gmail Mailbox Backfill Endpoint
+ *
+ * POST ingests the mailbox's messages between `start_date` and `end_date`
+ * that are not in email_logs yet, up to `limit` per call (default 30, max
+ * 200). Call again while `remaining` is above zero. The sync watermark is
+ * left alone. Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { gmailSync } from '@/services/gmail-sync'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 120
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to backfill mailboxes' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const startDate = new Date(body.start_date)
+    const endDate = new Date(body.end_date)
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return NextResponse.json(
+        { error: 'start_date and end_date are required in ISO 8601 format' },
+        { status: 400 }
+      )
+    }
+
+    const result = await gmailSync.backfillMailbox(id, startDate, endDate, body.limit)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('[GMAIL SYNC] Error backfilling mailbox:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Mailbox not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
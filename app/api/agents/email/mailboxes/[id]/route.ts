@@ -0,0 +1,52 @@
+/**
+ * Gmail Mailbox Endpoint
+ *
+ * PATCH updates a mailbox: `name`, `enabled`, `refresh_token_env` or
+ * `label_routes` - e.g. `[{ "label": "Orders", "category": "order" }]` sends
+ * every message carrying the Orders label to the order category without
+ * asking the classifier's LLM. Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { gmailSync } from '@/services/gmail-sync'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to change mailboxes' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const mailbox = await gmailSync.updateMailbox(id, {
+      name: body.name,
+      enabled: body.enabled,
+      refreshTokenEnv: body.refresh_token_env,
+      labelRoutes: body.label_routes
+    })
+
+    console.log(`[GMAIL SYNC] Mailbox ${mailbox.address} updated`)
+
+    return NextResponse.json({
+      success: true,
+      mailbox
+    })
+  } catch (error: any) {
+    console.error('[GMAIL SYNC] Error updating mailbox:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Mailbox not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
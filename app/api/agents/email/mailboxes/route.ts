@@ -0,0 +1,68 @@
+/**
+ * Gmail Mailboxes Endpoint
+ *
+ * GET lists the mailboxes the email poll syncs, with their history ID
+ * watermark and last sync status. POST adds a mailbox: `address`, `name`,
+ * `refresh_token_env` (the env var holding its OAuth refresh token) and
+ * optional `label_routes`. Adding one requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { gmailSync } from '@/services/gmail-sync'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const mailboxes = await gmailSync.listMailboxes()
+
+    return NextResponse.json({
+      mailboxes: mailboxes.map(mailbox => ({
+        ...mailbox,
+        configured: !!process.env[mailbox.refresh_token_env]
+      })),
+      count: mailboxes.length
+    })
+  } catch (error: any) {
+    console.error('[GMAIL SYNC] Error listing mailboxes:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to add mailboxes' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const mailbox = await gmailSync.createMailbox({
+      address: body.address,
+      name: body.name,
+      refreshTokenEnv: body.refresh_token_env,
+      labelRoutes: body.label_routes
+    })
+
+    console.log(`[GMAIL SYNC] Mailbox ${mailbox.address} added`)
+
+    return NextResponse.json({
+      success: true,
+      mailbox
+    })
+  } catch (error: any) {
+    console.error('[GMAIL SYNC] Error adding mailbox:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
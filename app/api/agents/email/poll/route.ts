@@ -1,29 +1,17 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
-import { google } from 'googleapis'
 import { checkRateLimit, logAgentExecution, AGENT_RATE_LIMITS } from '@/lib/rate-limiter'
 import { logAgentActivity } from '@/lib/logger'
 import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
+import { syncAllMailboxes } from '@/services/gmail-sync'
+
+export const maxDuration = 120
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
-async function getGmailClient() {
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GMAIL_CLIENT_ID,
-    process.env.GMAIL_CLIENT_SECRET,
-    process.env.GMAIL_REDIRECT_URI
-  )
-
-  oauth2Client.setCredentials({
-    refresh_token: process.env.GMAIL_REFRESH_TOKEN,
-  })
-
-  return google.gmail({ version: 'v1', auth: oauth2Client })
-}
-
 async function logToSquadMessages(fromAgent: string, message: string, data: any = null) {
   const { error } = await supabase
     .from('squad_messages')
@@ -44,7 +32,9 @@ async function logToSquadMessages(fromAgent: string, message: string, data: any
 }
 
 /**
- * Core email poll logic - shared between GET (Vercel Cron) and POST (manual trigger)
+ * Core email poll logic - shared between GET (Vercel Cron) and POST (manual trigger).
+ * Syncs every enabled mailbox from its Gmail history ID, so emails already
+ * opened in Gmail are ingested too (see services/gmail-sync.ts).
  */
 async function handlePoll() {
   // Diagnostic log BEFORE rate limit check - to prove cron is calling this endpoint
@@ -73,128 +63,58 @@ async function handlePoll() {
       context: { action: 'poll_start' }
     })
 
-    const gmail = await getGmailClient()
-
     await logToSquadMessages('email_agent', 'Starting Gmail poll', { action: 'poll_start' })
 
-    const response = await gmail.users.messages.list({
-      userId: 'me',
-      maxResults: 30,
-      q: 'is:unread',
-    })
-
-    const messages = response.data.messages || []
+    const results = await syncAllMailboxes()
+
+    const messagesFound = results.reduce((sum, r) => sum + r.found, 0)
+    const inserted = results.reduce((sum, r) => sum + r.inserted, 0)
+    const skipped = results.reduce((sum, r) => sum + r.skipped, 0)
+    const insertErrors = results.reduce((sum, r) => sum + r.insertErrors, 0)
+    const lastInsertError = results.map(r => r.lastInsertError).filter(Boolean).pop() || ''
+    const failedMailboxes = results.filter(r => r.error && r.mode !== 'skipped')
+    const mailboxes = results.map(r => ({
+      mailbox: r.mailbox,
+      mode: r.mode,
+      found: r.found,
+      inserted: r.inserted,
+      remaining: r.remaining,
+      error: r.error,
+    }))
 
     await logAgentExecution('email_poll', {
-      messages_found: messages.length,
+      messages_found: messagesFound,
       status: 'completed',
     })
 
     await logToSquadMessages(
       'email_agent',
-      `Found ${messages.length} unread messages`,
-      { action: 'poll_complete', count: messages.length, remaining: rateLimit.remaining }
-    )
-
-    const processedMessages = []
-    let inserted = 0
-    let skipped = 0
-    let insertErrors = 0
-    let lastInsertError = ''
-
-    for (const message of messages) {
-      const fullMessage = await gmail.users.messages.get({
-        userId: 'me',
-        id: message.id!,
-        format: 'full',
-      })
-
-      const headers = fullMessage.data.payload?.headers || []
-      const from = headers.find((h) => h.name?.toLowerCase() === 'from')?.value || 'unknown'
-      const to = headers.find((h) => h.name?.toLowerCase() === 'to')?.value || 'support@audicoonline.co.za'
-      const subject = headers.find((h) => h.name?.toLowerCase() === 'subject')?.value || 'No Subject'
-      
-      let body = ''
-      if (fullMessage.data.payload?.body?.data) {
-        body = Buffer.from(fullMessage.data.payload.body.data, 'base64').toString('utf-8')
-      } else if (fullMessage.data.payload?.parts) {
-        const textPart = fullMessage.data.payload.parts.find((part) => part.mimeType === 'text/plain')
-        if (textPart?.body?.data) {
-          body = Buffer.from(textPart.body.data, 'base64').toString('utf-8')
-        }
-      }
-
-      // Check if email already exists (use maybeSingle to avoid error on 0 rows)
-      const { data: existingEmail } = await supabase
-        .from('email_logs')
-        .select('id')
-        .eq('gmail_message_id', message.id!)
-        .maybeSingle()
-
-      if (existingEmail) {
-        skipped++
-      } else {
-        const { data: emailLog, error: insertError } = await supabase
-          .from('email_logs')
-          .insert({
-            gmail_message_id: message.id!,
-            from_email: from,
-            to_email: to,
-            subject,
-            category: 'unclassified',
-            status: 'unread',
-            payload: {
-              body: body.substring(0, 1000),
-              snippet: fullMessage.data.snippet,
-              labels: fullMessage.data.labelIds,
-            },
-          })
-          .select()
-          .single()
-
-        if (insertError) {
-          insertErrors++
-          lastInsertError = `${insertError.message} (code: ${insertError.code}, details: ${insertError.details}, hint: ${insertError.hint})`
-          console.error(`❌ Failed to insert email "${subject}":`, lastInsertError)
-          await logToSquadMessages(
-            'email_agent',
-            `❌ INSERT FAILED for "${subject}" from ${from}: ${insertError.message}`,
-            { action: 'email_insert_error', gmail_message_id: message.id, error: insertError.message }
-          )
-        } else {
-          inserted++
-          await logToSquadMessages(
-            'email_agent',
-            `New email logged: ${subject} from ${from}`,
-            { action: 'email_logged', email_id: emailLog?.id, gmail_message_id: message.id }
-          )
-        }
+      `Found ${messagesFound} new messages in ${results.length} mailboxes`,
+      {
+        action: 'poll_complete',
+        count: messagesFound,
+        mailboxes,
+        remaining: rateLimit.remaining
       }
+    )
 
-      processedMessages.push({
-        id: message.id,
-        from,
-        subject,
-        snippet: fullMessage.data.snippet,
-      })
-    }
-
-    if (insertErrors > 0) {
+    if (insertErrors > 0 || failedMailboxes.length > 0) {
       await logToSquadMessages(
         'email_agent',
-        `⚠️ Poll complete: ${inserted} inserted, ${skipped} skipped, ${insertErrors} FAILED`,
-        { action: 'poll_summary', inserted, skipped, insertErrors }
+        `⚠️ Poll complete: ${inserted} inserted, ${skipped} skipped, ${insertErrors} FAILED${failedMailboxes.length > 0 ? `, sync failed for ${failedMailboxes.map(r => r.mailbox).join(', ')}` : ''}`,
+        { action: 'poll_summary', inserted, skipped, insertErrors, failed_mailboxes: failedMailboxes.map(r => ({ mailbox: r.mailbox, error: r.error })) }
       )
     }
 
     return NextResponse.json({
       success: true,
-      messagesFound: messages.length,
+      messagesFound,
       inserted,
       skipped,
       insertErrors,
       lastInsertError: lastInsertError || undefined,
-      messages: processedMessages,
+      messages: results.flatMap(r => r.messages),
+      mailboxes,
       remaining: rateLimit.remaining,
     })
   } catch (error: any) {
@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
 import { google } from 'googleapis'
 import { checkRateLimit, logAgentExecution, AGENT_RATE_LIMITS } from '@/lib/rate-limiter'
+import { acquireLocks, releaseLocks, isLockHeld, getCustomerResourceId } from '@/services/resource-locks'
+import type { LockResult } from '@/services/types'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -93,7 +95,7 @@ function createEmailMessage(to: string, subject: string, body: string, inReplyTo
 export async function GET() {
   return NextResponse.json({
     status: 'email-respond-route-active',
-    message: 'Use POST with Authorization: Bearer CRON_SECRET and JSON body {email_id}',
+    message: 'Use POST with Authorization: Bearer CRON_SECRET and JSON body {email_id, lock_token?}',
     timestamp: new Date().toISOString()
   })
 }
@@ -103,6 +105,8 @@ export async function POST(request: NextRequest) {
     return unauthorizedResponse()
   }
 
+  let heldLocks: LockResult[] = []
+
   try {
     const rateLimit = await checkRateLimit(AGENT_RATE_LIMITS.email_respond)
     
@@ -118,7 +122,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { email_id, gmail_message_id, response_text } = body
+    // lock_token: the caller already locked this email and is handing the lock on
+    const { email_id, gmail_message_id, response_text, lock_token } = body
 
     if (!email_id && !gmail_message_id) {
       return NextResponse.json(
@@ -150,6 +155,23 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const locks = await acquireLocks([
+      { resourceType: 'email', resourceId: emailLog.id, agent: 'email_agent', action: 'respond' },
+      { resourceType: 'customer', resourceId: getCustomerResourceId(emailLog.from_email), agent: 'email_agent', action: 'respond' }
+    ], lock_token)
+
+    if (!locks.acquired) {
+      const { token, ...heldBy } = locks.heldBy
+      return NextResponse.json(
+        {
+          error: `${heldBy.resourceType} is locked by ${heldBy.agent} (${heldBy.action})`,
+          held_by: heldBy
+        },
+        { status: 409 }
+      )
+    }
+    heldLocks = locks.locks
+
     const gmail = await getGmailClient()
 
     const originalMessage = await gmail.users.messages.get({
@@ -176,6 +198,13 @@ export async function POST(request: NextRequest) {
       references
     )
 
+    // A higher-priority agent may have taken over while the reply was prepared
+    for (const { lock } of heldLocks) {
+      if (!(await isLockHeld(lock))) {
+        throw new Error(`Lost lock on ${lock.resourceType} ${lock.resourceId} to a higher-priority agent`)
+      }
+    }
+
     const draftResponse = await gmail.users.drafts.create({
       userId: 'me',
       requestBody: {
@@ -388,5 +417,7 @@ export async function POST(request: NextRequest) {
       { error: 'Failed to create response draft', details: error.message },
       { status: 500 }
     )
+  } finally {
+    await releaseLocks(heldLocks)
   }
 }
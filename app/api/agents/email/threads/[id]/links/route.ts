@@ -0,0 +1,58 @@
+/**
+ * Email Thread Links Endpoint
+ *
+ * POST { link_type, reference_id } links the thread by hand.
+ * POST {} re-runs automatic linking.
+ * Both require a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailThreads } from '@/services/email-threads'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to link email threads' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+
+    if (!body.link_type && !body.reference_id) {
+      const linked = await emailThreads.linkThread(id)
+      return NextResponse.json({ success: true, linked })
+    }
+
+    if (!body.link_type || !body.reference_id) {
+      return NextResponse.json(
+        { error: 'link_type and reference_id are required' },
+        { status: 400 }
+      )
+    }
+
+    const linkedBy = approver.name
+
+    const link = await emailThreads.addThreadLink(id, body.link_type, String(body.reference_id), linkedBy)
+
+    console.log(`[EMAIL THREADS] Thread ${id} linked to ${body.link_type} ${body.reference_id} by ${linkedBy}`)
+
+    return NextResponse.json({ success: true, link })
+  } catch (error: any) {
+    console.error('[EMAIL THREADS] Error linking thread:', error)
+    const status = error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Email Conversation Endpoint
+ *
+ * Returns one thread with its inbound messages, our drafted and sent replies,
+ * quote emails, and the linked quote requests, orders and customer
+ * interactions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailThreads } from '@/services/email-threads'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const conversation = await emailThreads.getConversation(id)
+
+    return NextResponse.json(conversation)
+  } catch (error: any) {
+    console.error('[EMAIL THREADS] Error fetching conversation:', error)
+    const status = error.message === 'Thread not found' ? 404 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
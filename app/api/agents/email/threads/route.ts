@@ -0,0 +1,63 @@
+/**
+ * Email Threads Endpoint
+ *
+ * GET lists conversations, most recent activity first.
+ * POST threads emails logged before threading existed (looks their headers
+ * up in Gmail). POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailThreads } from '@/services/email-threads'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const customerEmail = searchParams.get('customer_email') || undefined
+    const search = searchParams.get('search') || undefined
+
+    const threads = await emailThreads.listThreads({ customerEmail, search, limit })
+
+    return NextResponse.json({
+      threads,
+      count: threads.length
+    })
+  } catch (error: any) {
+    console.error('[EMAIL THREADS] Error fetching threads:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to backfill threads' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const threaded = await emailThreads.backfillThreads(body.limit || 50)
+
+    console.log(`[EMAIL THREADS] Backfilled ${threaded} email(s)`)
+
+    return NextResponse.json({
+      success: true,
+      threaded
+    })
+  } catch (error: any) {
+    console.error('[EMAIL THREADS] Error backfilling threads:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,16 @@
 import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { checkRateLimit, logAgentExecution, AGENT_RATE_LIMITS } from '@/lib/rate-limiter'
 import { logAgentActivity } from '@/lib/logger'
+import { completeJson } from '@/lib/llm-gateway'
+import { acquireLocks, releaseLocks, getCustomerResourceId } from '@/services/resource-locks'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-})
-
 async function logToSquadMessages(fromAgent: string, message: string, toAgent: string | null = null, data: any = null) {
   await supabase.from('squad_messages').insert({
     from_agent: fromAgent,
@@ -55,7 +52,7 @@ async function createTask(title: string, description: string, assignedAgent: str
  * Trigger the Email Agent respond endpoint to create a Gmail draft
  * and approval task for a classified email.
  */
-async function triggerEmailResponse(emailId: string): Promise<{ success: boolean; error?: string }> {
+async function triggerEmailResponse(emailId: string, lockToken: string): Promise<{ success: boolean; error?: string }> {
   try {
     // Use production URL to avoid redirect-based auth header stripping
     // VERCEL_URL gives deployment-specific URL which may redirect and strip Authorization header
@@ -75,7 +72,7 @@ async function triggerEmailResponse(emailId: string): Promise<{ success: boolean
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${authToken}`,
       },
-      body: JSON.stringify({ email_id: emailId }),
+      body: JSON.stringify({ email_id: emailId, lock_token: lockToken }),
       redirect: 'follow',
     })
 
@@ -290,83 +287,105 @@ async function handleOrchestrate() {
       for (const email of classifiedEmails) {
         emailResults.processed++
 
-        // Skip categories that don't need AI responses
-        const skipCategories = ['spam', 'internal', 'order', 'other']
-        if (skipCategories.includes(email.category)) {
-          await supabase
-            .from('email_logs')
-            .update({
-              status: 'handled',
-              handled_by: 'Jarvis',
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', email.id)
+        // Hold the email and customer while Jarvis works them; the respond route joins via lock_token
+        const locks = await acquireLocks([
+          { resourceType: 'email', resourceId: email.id, agent: 'jarvis', action: 'process_email' },
+          { resourceType: 'customer', resourceId: getCustomerResourceId(email.from_email), agent: 'jarvis', action: 'process_email' }
+        ])
 
+        if (!locks.acquired) {
           emailResults.skipped++
 
           await logToSquadMessages(
             'Jarvis',
-            `Skipped ${email.category} email: "${email.subject}" from ${email.from_email}`,
+            `Skipped "${email.subject}" - ${locks.heldBy.resourceType} locked by ${locks.heldBy.agent} (${locks.heldBy.action})`,
             null,
-            { email_id: email.id, category: email.category }
+            { email_id: email.id, action: 'lock_held', held_by: locks.heldBy.agent }
           )
           continue
         }
 
-        // Only respond to: complaint, support, inquiry (AI adds value here)
-        const result = await triggerEmailResponse(email.id)
-
-        if (result.success) {
-          emailResults.responded++
-
-          await logToSquadMessages(
-            'Jarvis',
-            `Triggered Email Agent for: "${email.subject}" (${email.category})`,
-            'Email Agent',
-            { email_id: email.id, category: email.category, priority: email.priority }
-          )
-        } else {
-          emailResults.failed++
-          emailResults.errors.push(`${email.subject}: ${result.error}`)
-
-          // Track failure count - only mark as handled after 3 failures to prevent infinite loop
-          const failCount = (email.metadata?.fail_count || 0) + 1
-
-          if (failCount >= 3) {
-            // Give up after 3 attempts
+        try {
+          // Skip categories that don't need AI responses
+          const skipCategories = ['spam', 'internal', 'order', 'other']
+          if (skipCategories.includes(email.category)) {
             await supabase
               .from('email_logs')
               .update({
                 status: 'handled',
                 handled_by: 'Jarvis',
-                metadata: { ...email.metadata, error: result.error, failed_at: new Date().toISOString(), fail_count: failCount },
                 updated_at: new Date().toISOString(),
               })
               .eq('id', email.id)
 
+            emailResults.skipped++
+
             await logToSquadMessages(
               'Jarvis',
-              `❌ PERMANENTLY FAILED (${failCount} attempts): "${email.subject}" - ${result.error}`,
+              `Skipped ${email.category} email: "${email.subject}" from ${email.from_email}`,
               null,
-              { email_id: email.id, error: result.error, fail_count: failCount }
+              { email_id: email.id, category: email.category }
             )
-          } else {
-            // Keep as classified so it gets retried next cycle
-            await supabase
-              .from('email_logs')
-              .update({
-                metadata: { ...email.metadata, last_error: result.error, fail_count: failCount },
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', email.id)
+            continue
+          }
+
+          // Only respond to: complaint, support, inquiry (AI adds value here)
+          const result = await triggerEmailResponse(email.id, locks.token)
+
+          if (result.success) {
+            emailResults.responded++
 
             await logToSquadMessages(
               'Jarvis',
-              `⚠️ Failed to process email (attempt ${failCount}/3, will retry): "${email.subject}" - ${result.error}`,
-              null,
-              { email_id: email.id, error: result.error, fail_count: failCount }
+              `Triggered Email Agent for: "${email.subject}" (${email.category})`,
+              'Email Agent',
+              { email_id: email.id, category: email.category, priority: email.priority }
             )
+          } else {
+            emailResults.failed++
+            emailResults.errors.push(`${email.subject}: ${result.error}`)
+
+            // Track failure count - only mark as handled after 3 failures to prevent infinite loop
+            const failCount = (email.metadata?.fail_count || 0) + 1
+
+            if (failCount >= 3) {
+              // Give up after 3 attempts
+              await supabase
+                .from('email_logs')
+                .update({
+                  status: 'handled',
+                  handled_by: 'Jarvis',
+                  metadata: { ...email.metadata, error: result.error, failed_at: new Date().toISOString(), fail_count: failCount },
+                  updated_at: new Date().toISOString(),
+                })
+                .eq('id', email.id)
+
+              await logToSquadMessages(
+                'Jarvis',
+                `❌ PERMANENTLY FAILED (${failCount} attempts): "${email.subject}" - ${result.error}`,
+                null,
+                { email_id: email.id, error: result.error, fail_count: failCount }
+              )
+            } else {
+              // Keep as classified so it gets retried next cycle
+              await supabase
+                .from('email_logs')
+                .update({
+                  metadata: { ...email.metadata, last_error: result.error, fail_count: failCount },
+                  updated_at: new Date().toISOString(),
+                })
+                .eq('id', email.id)
+
+              await logToSquadMessages(
+                'Jarvis',
+                `⚠️ Failed to process email (attempt ${failCount}/3, will retry): "${email.subject}" - ${result.error}`,
+                null,
+                { email_id: email.id, error: result.error, fail_count: failCount }
+              )
+            }
           }
+        } finally {
+          await releaseLocks(locks.locks)
         }
       }
     }
@@ -617,21 +636,31 @@ Respond with JSON:
 Respond ONLY with valid JSON.`
 
     try {
-      const message = await anthropic.messages.create({
+      const { data: jarvisDecision } = await completeJson({
+        agent: 'Jarvis',
+        operation: 'orchestrate',
         model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 2000,
+        prompt,
+        schema: {
+          type: 'object',
+          properties: {
+            tasks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['title', 'assigned_agent'],
+                properties: {
+                  title: { type: 'string', minLength: 1 },
+                  assigned_agent: { type: 'string' },
+                  priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] }
+                }
+              }
+            },
+            reasoning: { type: 'string' }
+          }
+        },
       })
-
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : ''
-
-      // Parse JSON, handling potential markdown code blocks
-      let cleanJson = responseText.trim()
-      if (cleanJson.startsWith('```')) {
-        cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-      }
-
-      const jarvisDecision = JSON.parse(cleanJson)
       aiReasoning = jarvisDecision.reasoning || ''
 
       for (const taskDef of jarvisDecision.tasks || []) {
@@ -23,7 +23,7 @@ export async function POST(request: NextRequest) {
         })
 
       case 'calculate_reseller_pricing':
-        const pricing = await agent.calculateResellerPricing()
+        const pricing = await agent.calculateResellerPricing(params.tier)
         return NextResponse.json({ 
           success: true, 
           pricing 
@@ -95,7 +95,7 @@ export async function GET(request: NextRequest) {
         })
 
       case 'calculate_reseller_pricing':
-        const pricing = await agent.calculateResellerPricing()
+        const pricing = await agent.calculateResellerPricing(searchParams.get('tier') || undefined)
         return NextResponse.json({ 
           success: true, 
           pricing 
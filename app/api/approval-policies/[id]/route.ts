@@ -0,0 +1,70 @@
+/**
+ * Approval Policy Endpoint
+ *
+ * Updates or deletes a single approval policy. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approvalPolicies } from '@/services/approval-policies'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor?.roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'Only admins can change approval policies' },
+        { status: actor ? 403 : 401 }
+      )
+    }
+
+    const { updated_by, id: _id, created_at, updated_at, ...input } = await request.json()
+
+    const policy = await approvalPolicies.updatePolicy(id, input, actor.name)
+
+    console.log(`[APPROVAL POLICIES] Policy "${policy.name}" updated by ${policy.updated_by}`)
+
+    return NextResponse.json({ success: true, policy })
+  } catch (error: any) {
+    console.error('[APPROVAL POLICIES] Error updating policy:', error)
+    const status = error.message.startsWith('Invalid policy') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor?.roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'Only admins can delete approval policies' },
+        { status: actor ? 403 : 401 }
+      )
+    }
+
+    await approvalPolicies.deletePolicy(id)
+
+    console.log(`[APPROVAL POLICIES] Policy ${id} deleted by ${actor.name}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[APPROVAL POLICIES] Error deleting policy:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
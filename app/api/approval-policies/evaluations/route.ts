@@ -0,0 +1,37 @@
+/**
+ * Approval Policy Audit Endpoint
+ *
+ * Lists which policy fired for each evaluated task.
+ * Filter with ?task_id= or ?policy_id=.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approvalPolicies } from '@/services/approval-policies'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+
+    const evaluations = await approvalPolicies.fetchEvaluations(
+      {
+        taskId: searchParams.get('task_id') || undefined,
+        policyId: searchParams.get('policy_id') || undefined
+      },
+      limit
+    )
+
+    return NextResponse.json({
+      evaluations,
+      count: evaluations.length
+    })
+  } catch (error: any) {
+    console.error('[APPROVAL POLICIES] Error fetching evaluations:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Approval Policies Endpoint
+ *
+ * Lists and creates the policies that decide whether a task auto-executes or
+ * needs approval. Edited from Settings → Agents → Approval Policies; only
+ * admins can create or change policies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approvalPolicies } from '@/services/approval-policies'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const policies = await approvalPolicies.listPolicies()
+
+    return NextResponse.json({
+      policies,
+      count: policies.length
+    })
+  } catch (error: any) {
+    console.error('[APPROVAL POLICIES] Error listing policies:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor?.roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'Only admins can create approval policies' },
+        { status: actor ? 403 : 401 }
+      )
+    }
+
+    const { updated_by, ...input } = await request.json()
+
+    const policy = await approvalPolicies.createPolicy(input, actor.name)
+
+    console.log(`[APPROVAL POLICIES] Policy "${policy.name}" created by ${policy.updated_by}`)
+
+    return NextResponse.json({ success: true, policy })
+  } catch (error: any) {
+    console.error('[APPROVAL POLICIES] Error creating policy:', error)
+    const status = error.message.startsWith('Invalid policy') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
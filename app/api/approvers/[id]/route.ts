@@ -0,0 +1,40 @@
+/**
+ * Approver Endpoint
+ *
+ * Lets an admin change an approver's email, roles or active flag.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor?.roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'Only admins can edit approvers' },
+        { status: actor ? 403 : 401 }
+      )
+    }
+
+    const approver = await approverService.updateApprover(id, await request.json())
+
+    console.log(`[APPROVERS] ${approver.name} updated by ${actor.name}`)
+
+    return NextResponse.json({ success: true, approver })
+  } catch (error: any) {
+    console.error('[APPROVERS] Error updating approver:', error)
+    const status = error.message.startsWith('Invalid approver') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
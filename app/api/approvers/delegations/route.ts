@@ -0,0 +1,87 @@
+/**
+ * Approver Delegations Endpoint
+ *
+ * Hand your approval roles to a colleague while you are on leave, or revoke
+ * the hand-over early. Admins may delegate on behalf of anyone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const delegations = await approverService.getActiveDelegations()
+
+    return NextResponse.json({
+      delegations,
+      count: delegations.length
+    })
+  } catch (error: any) {
+    console.error('[DELEGATIONS] Error listing delegations:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to delegate' },
+        { status: 401 }
+      )
+    }
+
+    const delegation = await approverService.createDelegation(actor, await request.json())
+
+    console.log(`[DELEGATIONS] ${delegation.delegator_id} -> ${delegation.delegate_id} until ${delegation.ends_at} (by ${actor.name})`)
+
+    return NextResponse.json({ success: true, delegation })
+  } catch (error: any) {
+    console.error('[DELEGATIONS] Error creating delegation:', error)
+    const status = error.message.startsWith('Failed') ? 500 : 400
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to revoke a delegation' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing delegation id' },
+        { status: 400 }
+      )
+    }
+
+    await approverService.revokeDelegation(actor, id)
+
+    console.log(`[DELEGATIONS] Delegation ${id} revoked by ${actor.name}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[DELEGATIONS] Error revoking delegation:', error)
+    const status = error.message === 'Delegation not found' ? 404 : error.message.startsWith('Failed') ? 500 : 403
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
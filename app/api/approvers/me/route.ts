@@ -0,0 +1,36 @@
+/**
+ * Current Approver Endpoint
+ *
+ * Returns the approver behind the caller's Supabase session, with their own
+ * and delegated roles.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Not signed in as an approver' },
+        { status: 401 }
+      )
+    }
+
+    const roles = await approverService.getEffectiveRoles(approver)
+
+    return NextResponse.json({
+      approver,
+      roles: roles.map(r => ({ role: r.role, on_behalf_of: r.onBehalfOf?.name || null }))
+    })
+  } catch (error: any) {
+    console.error('[APPROVERS] Error resolving current approver:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Approvers Endpoint
+ *
+ * Lists the team members who can approve tasks (with active delegations) and
+ * lets an admin add new ones.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const [approvers, delegations] = await Promise.all([
+      approverService.listApprovers(),
+      approverService.getActiveDelegations()
+    ])
+
+    return NextResponse.json({
+      approvers,
+      delegations,
+      count: approvers.length
+    })
+  } catch (error: any) {
+    console.error('[APPROVERS] Error listing approvers:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await approverService.authenticateApprover(request)
+    if (!actor?.roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'Only admins can add approvers' },
+        { status: actor ? 403 : 401 }
+      )
+    }
+
+    const approver = await approverService.createApprover(await request.json())
+
+    console.log(`[APPROVERS] ${approver.name} added by ${actor.name}`)
+
+    return NextResponse.json({ success: true, approver })
+  } catch (error: any) {
+    console.error('[APPROVERS] Error creating approver:', error)
+    const status = error.message.startsWith('Invalid approver') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
+/**
+ * Event Dispatch Cron Job
+ *
+ * Runs every minute to retry event deliveries that failed or whose dispatcher
+ * died. Most events are delivered the moment they are published; this is the
+ * at-least-once safety net.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { eventBus } from '@/services/event-bus'
+import { logAgentActivity } from '@/lib/logger'
+
+export const maxDuration = 60 // Maximum execution time: 60 seconds
+export const dynamic = 'force-dynamic'
+
+/**
+ * Core dispatch logic - shared between GET (Vercel Cron) and POST (manual trigger)
+ */
+async function handleDispatch() {
+  const startTime = Date.now()
+
+  try {
+    const results = await eventBus.dispatchPendingDeliveries()
+    const duration = Date.now() - startTime
+
+    if (results.delivered + results.failed > 0) {
+      await logAgentActivity({
+        agentName: 'Event Bus',
+        eventType: 'cron_execution',
+        logLevel: 'info',
+        message: `Delivered ${results.delivered} events, ${results.failed} failed, ${results.skipped} skipped`,
+        context: { ...results, duration_ms: duration }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+      duration_ms: duration
+    })
+  } catch (error: any) {
+    console.error('[CRON] Event dispatch error:', error)
+
+    await logAgentActivity({
+      agentName: 'Event Bus',
+      eventType: 'cron_error',
+      logLevel: 'error',
+      message: `Event dispatch failed: ${error.message}`,
+      errorDetails: { error: error.message, stack: error.stack }
+    })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron sends GET requests - do the actual work
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({
+      status: 'event-dispatcher-active',
+      message: 'Use Authorization: Bearer CRON_SECRET to trigger',
+      timestamp: new Date().toISOString()
+    })
+  }
+  return handleDispatch()
+}
+
+// Manual trigger via POST
+export async function POST(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+  return handleDispatch()
+}
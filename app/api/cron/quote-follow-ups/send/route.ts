@@ -0,0 +1,81 @@
+import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
+/**
+ * Quote Follow-up Cron Job
+ *
+ * Runs hourly: expires sent quotes past their Valid Until date, then sends
+ * the follow-up emails that are due (QUOTE_FOLLOW_UP_CADENCE). Follow-ups of
+ * quotes the customer has answered are cancelled instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteFollowUps } from '@/services/quote-follow-ups'
+import { logAgentActivity } from '@/lib/logger'
+
+export const maxDuration = 60 // Maximum execution time: 60 seconds
+export const dynamic = 'force-dynamic'
+
+/**
+ * Core follow-up logic - shared between GET (Vercel Cron) and POST (manual trigger)
+ */
+async function handleFollowUps() {
+  const startTime = Date.now()
+
+  try {
+    const results = await quoteFollowUps.processDueFollowUps()
+    const duration = Date.now() - startTime
+
+    if (results.expired + results.sent + results.cancelled + results.failed > 0) {
+      await logAgentActivity({
+        agentName: 'Quote Agent',
+        eventType: 'cron_execution',
+        logLevel: results.failed > 0 ? 'warning' : 'info',
+        message: `Sent ${results.sent} quote follow-ups (${results.failed} failed, ${results.cancelled} stopped), ${results.expired} quotes expired`,
+        context: { ...results, duration_ms: duration }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+      duration_ms: duration
+    })
+  } catch (error: any) {
+    console.error('[CRON] Quote follow-up error:', error)
+
+    await logAgentActivity({
+      agentName: 'Quote Agent',
+      eventType: 'cron_error',
+      logLevel: 'error',
+      message: `Quote follow-ups failed: ${error.message}`,
+      errorDetails: { error: error.message, stack: error.stack }
+    })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron sends GET requests - do the actual work
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({
+      status: 'quote-follow-ups-active',
+      message: 'Use Authorization: Bearer CRON_SECRET to trigger',
+      timestamp: new Date().toISOString()
+    })
+  }
+  return handleFollowUps()
+}
+
+// Manual trigger via POST
+export async function POST(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+  return handleFollowUps()
+}
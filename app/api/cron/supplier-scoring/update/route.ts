@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supplierScoringService } from '@/lib/supplier-scoring'
+import { supplierDedupe } from '@/services/supplier-dedupe'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 300
@@ -26,12 +27,22 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Queue likely duplicate suppliers for review on /suppliers/duplicates
+    let duplicatesQueued: number | null = null
+    try {
+      const duplicates = await supplierDedupe.scanForDuplicates()
+      duplicatesQueued = duplicates.candidates
+    } catch (error: any) {
+      console.error('Supplier duplicate scan failed:', error)
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Supplier scoring update completed',
       suppliers_updated: result.suppliers_updated,
       alerts_created: result.alerts_created,
       opportunities_found: result.opportunities_found,
+      duplicates_queued: duplicatesQueued,
     })
 
   } catch (error: any) {
@@ -0,0 +1,86 @@
+import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
+/**
+ * Supplier SLA Cron Job
+ *
+ * Runs daily: records purchase order deliveries from orders_tracker, then
+ * generates last month's supplier scorecards that do not exist yet (so the
+ * first run of the month creates them and later runs retry failures).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierSla } from '@/services/supplier-sla'
+import { logAgentActivity } from '@/lib/logger'
+
+export const maxDuration = 60 // Maximum execution time: 60 seconds
+export const dynamic = 'force-dynamic'
+
+/**
+ * Core SLA logic - shared between GET (Vercel Cron) and POST (manual trigger)
+ */
+async function handleSlaUpdate() {
+  const startTime = Date.now()
+
+  try {
+    const deliveries = await supplierSla.recordDeliveries()
+    const scorecards = await supplierSla.generateMonthlyScorecards()
+    const duration = Date.now() - startTime
+
+    if (scorecards.generated.length + scorecards.failed.length > 0) {
+      await logAgentActivity({
+        agentName: 'SupplierAgent',
+        eventType: 'cron_execution',
+        logLevel: scorecards.failed.length > 0 ? 'warning' : 'info',
+        message: `Generated ${scorecards.generated.length} supplier scorecards for ${scorecards.month} (${scorecards.failed.length} failed)`,
+        context: { deliveries, month: scorecards.month, failed: scorecards.failed, duration_ms: duration }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      deliveries,
+      month: scorecards.month,
+      scorecards_generated: scorecards.generated.length,
+      scorecards_skipped: scorecards.skipped,
+      failed: scorecards.failed,
+      duration_ms: duration
+    })
+  } catch (error: any) {
+    console.error('[CRON] Supplier SLA error:', error)
+
+    await logAgentActivity({
+      agentName: 'SupplierAgent',
+      eventType: 'cron_error',
+      logLevel: 'error',
+      message: `Supplier SLA update failed: ${error.message}`,
+      errorDetails: { error: error.message, stack: error.stack }
+    })
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron sends GET requests - do the actual work
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({
+      status: 'supplier-sla-active',
+      message: 'Use Authorization: Bearer CRON_SECRET to trigger',
+      timestamp: new Date().toISOString()
+    })
+  }
+  return handleSlaUpdate()
+}
+
+// Manual trigger via POST
+export async function POST(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+  return handleSlaUpdate()
+}
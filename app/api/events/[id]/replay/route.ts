@@ -0,0 +1,54 @@
+/**
+ * Event Replay Endpoint
+ *
+ * Delivers an event again to one subscriber, or to every current subscriber of
+ * its type (including ones added after it was published). Requires a signed-in
+ * approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { eventBus } from '@/services/event-bus'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST handler for event replay
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to replay events' },
+        { status: 401 }
+      )
+    }
+
+    const { id: eventId } = await params
+    const body = await request.json().catch(() => ({}))
+
+    const deliveries = await eventBus.replayEvent(eventId, { subscriber: body.subscriber })
+
+    console.log(`[REPLAY] Event ${eventId} replayed to ${deliveries} subscriber(s)`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Event replayed',
+      event_id: eventId,
+      deliveries
+    })
+  } catch (error: any) {
+    console.error('[REPLAY] Error replaying event:', error)
+    const status = error.message === 'Event not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
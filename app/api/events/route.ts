@@ -0,0 +1,35 @@
+/**
+ * Domain Events Endpoint
+ *
+ * Lists recent domain events with their per-subscriber deliveries, and the
+ * registered subscribers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { eventBus } from '@/services/event-bus'
+import type { DomainEventType } from '@/types/events'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50', 10)
+    const type = (searchParams.get('type') || undefined) as DomainEventType | undefined
+    const correlationId = searchParams.get('correlation_id') || undefined
+
+    const events = await eventBus.listEvents({ type, correlationId, limit })
+
+    return NextResponse.json({
+      events,
+      count: events.length,
+      subscribers: eventBus.listSubscribers(type)
+    })
+  } catch (error: any) {
+    console.error('[EVENTS] Error fetching events:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
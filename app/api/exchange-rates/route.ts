@@ -0,0 +1,83 @@
+/**
+ * Exchange Rates Endpoint
+ *
+ * GET lists the latest rate to ZAR of each currency, flagging rates older
+ * than EXCHANGE_RATE_MAX_AGE_DAYS. POST records one rate
+ * (`currency`, `rate_to_zar`, optional `rate_date`) or imports a CSV of
+ * `currency,rate[,date]` lines passed as `csv`.
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { exchangeRates, EXCHANGE_RATE_MAX_AGE_DAYS } from '@/services/exchange-rates'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const rates = await exchangeRates.listExchangeRates()
+
+    return NextResponse.json({
+      rates: rates.map(rate => ({
+        ...rate,
+        age_days: exchangeRates.rateAgeDays(rate),
+        stale: exchangeRates.isRateStale(rate)
+      })),
+      max_age_days: EXCHANGE_RATE_MAX_AGE_DAYS
+    })
+  } catch (error: any) {
+    console.error('[EXCHANGE RATES] Error fetching rates:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to record exchange rates' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const createdBy = approver.name
+
+    if (typeof body.csv === 'string') {
+      const result = await exchangeRates.importExchangeRatesCsv(body.csv, createdBy)
+      console.log(`[EXCHANGE RATES] Imported ${result.imported.length} rates from CSV (${result.errors.length} errors) by ${createdBy}`)
+
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        imported: result.imported,
+        errors: result.errors
+      })
+    }
+
+    const rate = await exchangeRates.setExchangeRate({
+      currency: body.currency,
+      rateToZar: body.rate_to_zar,
+      rateDate: body.rate_date,
+      source: 'manual',
+      createdBy
+    })
+
+    console.log(`[EXCHANGE RATES] ${rate.currency} set to R${rate.rate_to_zar} for ${rate.rate_date} by ${createdBy}`)
+
+    return NextResponse.json({
+      success: true,
+      rate
+    })
+  } catch (error: any) {
+    console.error('[EXCHANGE RATES] Error saving rate:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Credit Notes Endpoint
+ *
+ * POST issues a credit note against a tax invoice - for the whole invoice, or
+ * for the given `items` (a partial refund). A `reason` is required, and the
+ * caller must be signed in as an approver - they are recorded as the issuer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { invoices } from '@/services/invoices'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to issue credit notes' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const issuedBy = approver.name
+
+    const creditNote = await invoices.issueCreditNote({
+      invoiceId: id,
+      reason: body.reason,
+      issuedBy,
+      items: body.items
+    })
+
+    console.log(`[INVOICES] Credit note ${creditNote.invoice_number} issued by ${issuedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      credit_note: creditNote
+    })
+  } catch (error: any) {
+    console.error('[INVOICES] Error issuing credit note:', error)
+    const status = error.message === 'Invoice not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Invoice Endpoint
+ *
+ * GET returns an invoice or credit note with the credit notes issued
+ * against it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { invoices } from '@/services/invoices'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await invoices.getInvoice(id)
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('[INVOICES] Error fetching invoice:', error)
+    const status = error.message === 'Invoice not found' ? 404 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
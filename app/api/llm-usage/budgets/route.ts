@@ -0,0 +1,57 @@
+/**
+ * Agent Budgets Endpoint
+ *
+ * Daily/monthly LLM spend caps per agent (in rand) and how much of each has
+ * been spent. Agents over a cap have their tasks deferred. Changing a cap
+ * requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { llmUsage } from '@/services/llm-usage'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const [budgets, statuses] = await Promise.all([
+      llmUsage.listBudgets(),
+      llmUsage.getBudgetStatuses()
+    ])
+
+    return NextResponse.json({ budgets, statuses })
+  } catch (error: any) {
+    console.error('[AGENT BUDGETS] Error listing budgets:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to change agent budgets' },
+        { status: 401 }
+      )
+    }
+
+    const { agent, updated_by, ...input } = await request.json()
+
+    const budget = await llmUsage.upsertBudget(agent, input, approver.name)
+
+    console.log(`[AGENT BUDGETS] Budget for ${budget.agent} updated by ${budget.updated_by}`)
+
+    return NextResponse.json({ success: true, budget })
+  } catch (error: any) {
+    console.error('[AGENT BUDGETS] Error saving budget:', error)
+    const status = error.message.startsWith('Invalid budget') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
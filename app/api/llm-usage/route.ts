@@ -0,0 +1,40 @@
+/**
+ * LLM Usage Endpoint
+ *
+ * Measured LLM cost in rand, broken down by agent, model, day, workflow and
+ * task. Powers Squad → Analytics → LLM Costs.
+ *
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (SAST days, default last 30 days)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { llmUsage } from '@/services/llm-usage'
+
+export const dynamic = 'force-dynamic'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from') || undefined
+    const to = searchParams.get('to') || undefined
+
+    if ((from && !DAY_PATTERN.test(from)) || (to && !DAY_PATTERN.test(to))) {
+      return NextResponse.json(
+        { error: 'from and to must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    const breakdown = await llmUsage.getCostBreakdown(from, to)
+
+    return NextResponse.json(breakdown)
+  } catch (error: any) {
+    console.error('[LLM USAGE] Error building cost breakdown:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Order Invoices Endpoint
+ *
+ * GET lists the pro-forma invoices, tax invoices and credit notes of an order.
+ * POST issues a pro-forma or tax invoice for the order. Lines default to the
+ * accepted quote behind the order; orders entered by hand pass `items`.
+ * Issuing requires a signed-in approver, who is recorded as the issuer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { invoices } from '@/services/invoices'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNo: string }> }
+) {
+  try {
+    const { orderNo } = await params
+    const documents = await invoices.listInvoices({ orderNo: decodeURIComponent(orderNo) })
+
+    return NextResponse.json({
+      invoices: documents,
+      count: documents.length
+    })
+  } catch (error: any) {
+    console.error('[INVOICES] Error fetching invoices:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNo: string }> }
+) {
+  try {
+    const { orderNo } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to issue invoices' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const issuedBy = approver.name
+
+    const invoice = await invoices.issueInvoice({
+      orderNo: decodeURIComponent(orderNo),
+      documentType: body.document_type,
+      issuedBy,
+      items: body.items,
+      customer: {
+        company: body.customer_company,
+        address: body.customer_address,
+        vat_number: body.customer_vat_number
+      },
+      dueDays: body.due_days,
+      notes: body.notes
+    })
+
+    console.log(`[INVOICES] ${invoice.invoice_number} issued for order ${invoice.order_no} by ${issuedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      invoice
+    })
+  } catch (error: any) {
+    console.error('[INVOICES] Error issuing invoice:', error)
+    const status = error.message === 'Order not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Price List Commit Endpoint
+ *
+ * Applies the ticked rows of a previewed price list: new products are added
+ * to the supplier's catalogue and changed prices are queued for review on
+ * /stock/pending.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to commit price lists' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const committedBy = approver.name
+
+    const upload = await priceListIngestion.commitUpload(id, committedBy)
+    console.log(`[PRICE LISTS] ${upload.filename} committed by ${committedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      upload
+    })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error committing price list:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Price list upload not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
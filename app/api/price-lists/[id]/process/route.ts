@@ -0,0 +1,68 @@
+/**
+ * Price List Process Endpoint
+ *
+ * Parses an uploaded price list and diffs it against the supplier's
+ * catalogue, replacing any earlier preview. Optional `template_id`,
+ * `column_mapping`, `header_row`, `sheet_name` and `currency` override the
+ * supplier's template; `save_template_name` saves the mapping used as a
+ * template for the supplier's next lists.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to process price lists' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+
+    let templateId = body.template_id || null
+    if (body.save_template_name && body.column_mapping) {
+      const preview = await priceListIngestion.getPreview(id)
+      const template = await priceListIngestion.saveMappingTemplate({
+        supplierId: preview.upload.supplier_id!,
+        name: body.save_template_name,
+        columnMapping: body.column_mapping,
+        headerRow: body.header_row,
+        sheetName: body.sheet_name,
+        currency: body.currency,
+        createdBy: approver.name
+      })
+      templateId = template.id
+    }
+
+    const upload = await priceListIngestion.processUpload(id, {
+      templateId,
+      columnMapping: body.column_mapping,
+      headerRow: body.header_row,
+      sheetName: body.sheet_name,
+      currency: body.currency
+    })
+
+    return NextResponse.json({
+      success: true,
+      upload
+    })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error processing price list:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Price list upload not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
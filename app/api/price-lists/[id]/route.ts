@@ -0,0 +1,30 @@
+/**
+ * Price List Preview Endpoint
+ *
+ * Returns an uploaded price list with its parsed rows (each marked new,
+ * changed, unchanged or invalid against the supplier's catalogue) and the
+ * supplier's column mapping templates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const preview = await priceListIngestion.getPreview(id)
+
+    return NextResponse.json(preview)
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error fetching preview:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Price list upload not found' ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Price List Rows Endpoint
+ *
+ * Ticks or unticks preview rows for the commit: `row_ids` and `included`.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to change price list rows' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (!Array.isArray(body.row_ids) || typeof body.included !== 'boolean') {
+      return NextResponse.json(
+        { error: 'row_ids and included are required' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await priceListIngestion.setRowsIncluded(id, body.row_ids, body.included)
+
+    return NextResponse.json({
+      success: true,
+      updated
+    })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error updating rows:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Price list upload not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Price List Mapping Template Endpoint
+ *
+ * Deletes a column mapping template. Uploads that used it keep their mapping.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to delete mapping templates' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    await priceListIngestion.deleteMappingTemplate(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error deleting template:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Mapping template not found' ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Price List Mapping Templates Endpoint
+ *
+ * GET lists column mapping templates (optionally `?supplier_id=`). POST
+ * saves one: `supplier_id`, `name`, `column_mapping` (field -> column
+ * header), optional `header_row`, `sheet_name` and `currency`. Saving a
+ * name the supplier already has replaces that template.
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { priceListIngestion } from '@/services/price-list-ingestion'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supplierId = request.nextUrl.searchParams.get('supplier_id') || undefined
+    const templates = await priceListIngestion.listMappingTemplates(supplierId)
+
+    return NextResponse.json({
+      templates,
+      count: templates.length
+    })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error fetching templates:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to save mapping templates' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const template = await priceListIngestion.saveMappingTemplate({
+      supplierId: body.supplier_id,
+      name: body.name,
+      columnMapping: body.column_mapping,
+      headerRow: body.header_row,
+      sheetName: body.sheet_name,
+      currency: body.currency,
+      createdBy: approver.name
+    })
+
+    console.log(`[PRICE LISTS] Mapping template "${template.name}" saved`)
+
+    return NextResponse.json({
+      success: true,
+      template
+    })
+  } catch (error: any) {
+    console.error('[PRICE LISTS] Error saving template:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
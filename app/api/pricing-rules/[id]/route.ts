@@ -0,0 +1,70 @@
+/**
+ * Pricing Rule Endpoint
+ *
+ * Updates or deletes a single pricing rule. Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { pricingRules } from '@/services/pricing-rules'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to change pricing rules' },
+        { status: 401 }
+      )
+    }
+
+    const { updated_by, id: _id, created_at, updated_at, ...input } = await request.json()
+
+    const rule = await pricingRules.updatePricingRule(id, input, approver.name)
+
+    console.log(`[PRICING RULES] Rule "${rule.rule_name}" updated by ${rule.updated_by}`)
+
+    return NextResponse.json({ success: true, rule })
+  } catch (error: any) {
+    console.error('[PRICING RULES] Error updating rule:', error)
+    const status = error.message.startsWith('Invalid pricing rule') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to delete pricing rules' },
+        { status: 401 }
+      )
+    }
+
+    await pricingRules.deletePricingRule(id)
+
+    console.log(`[PRICING RULES] Rule ${id} deleted by ${approver.name}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[PRICING RULES] Error deleting rule:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
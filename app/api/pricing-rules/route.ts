@@ -0,0 +1,57 @@
+/**
+ * Pricing Rules Endpoint
+ *
+ * Lists (active and inactive) and creates the rules used to price quotes and
+ * reseller price lists. Edited from /stock/pricing/rules; creating a rule
+ * requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { pricingRules } from '@/services/pricing-rules'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const rules = await pricingRules.listPricingRules({ includeInactive: true })
+
+    return NextResponse.json({
+      rules,
+      count: rules.length
+    })
+  } catch (error: any) {
+    console.error('[PRICING RULES] Error listing rules:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to create pricing rules' },
+        { status: 401 }
+      )
+    }
+
+    const { updated_by, ...input } = await request.json()
+
+    const rule = await pricingRules.createPricingRule(input, approver.name)
+
+    console.log(`[PRICING RULES] Rule "${rule.rule_name}" created by ${rule.updated_by}`)
+
+    return NextResponse.json({ success: true, rule })
+  } catch (error: any) {
+    console.error('[PRICING RULES] Error creating rule:', error)
+    const status = error.message.startsWith('Invalid pricing rule') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
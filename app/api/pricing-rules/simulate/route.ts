@@ -0,0 +1,37 @@
+/**
+ * Pricing Rule Simulation Endpoint
+ *
+ * Shows how a proposed rule change would have priced the quotes of the last
+ * 90 days (quote_outcomes), next to the current rules. Nothing is saved.
+ *
+ * Body: `{ "rule": {...} }` for a new rule or an edit (with `id`), or
+ * `{ "remove_rule_id": "..." }`; optional `days`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { pricingRules } from '@/services/pricing-rules'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const simulation = await pricingRules.simulateRuleChange({
+      rule: body.rule,
+      removeRuleId: body.remove_rule_id,
+      days: body.days
+    })
+
+    return NextResponse.json({ success: true, simulation })
+  } catch (error: any) {
+    console.error('[PRICING RULES] Error simulating rule change:', error)
+    const status = error.message === 'Pricing rule not found'
+      ? 404
+      : error.message.startsWith('Invalid pricing rule') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
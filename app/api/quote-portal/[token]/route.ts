@@ -0,0 +1,70 @@
+/**
+ * Customer Quote Portal Endpoint
+ *
+ * Public - the signed token is the only credential, so responses contain just
+ * what the customer already received (no cost, markup or supplier data).
+ * GET returns the quote behind a portal link.
+ * POST records the customer's decision: accept (with the alternative chosen
+ * for each option group and any optional items selected) or request changes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quotePortal } from '@/services/quote-portal'
+
+export const dynamic = 'force-dynamic'
+
+function errorStatus(message: string): number {
+  if (message === 'Quote not found') return 404
+  return message.startsWith('Invalid') ? 400 : 500
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const quote = await quotePortal.getPortalQuote(token)
+
+    return NextResponse.json({ quote })
+  } catch (error: any) {
+    console.error('[QUOTE PORTAL] Error loading quote:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: errorStatus(error.message) }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const body = await request.json()
+
+    const quote = await quotePortal.submitPortalDecision(
+      token,
+      {
+        decision: body.decision,
+        selectedOptionalItemIds: Array.isArray(body.selected_optional_item_ids) ? body.selected_optional_item_ids : [],
+        selectedAlternativeIds: Array.isArray(body.selected_alternative_ids) ? body.selected_alternative_ids : [],
+        customerName: body.customer_name,
+        message: body.message
+      },
+      {
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+        userAgent: request.headers.get('user-agent')
+      }
+    )
+
+    return NextResponse.json({ success: true, quote })
+  } catch (error: any) {
+    console.error('[QUOTE PORTAL] Error recording decision:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: errorStatus(error.message) }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Quote Follow-ups Endpoint
+ *
+ * Lists the follow-up emails of a quote request across its versions:
+ * scheduled, sent, and those stopped by a reply, decision or expiry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteFollowUps } from '@/services/quote-follow-ups'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const followUps = await quoteFollowUps.listFollowUps(id)
+
+    return NextResponse.json({
+      follow_ups: followUps,
+      count: followUps.length
+    })
+  } catch (error: any) {
+    console.error('[QUOTE FOLLOW-UPS] Error listing follow-ups:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Quote Order Endpoint
+ *
+ * GET returns the orders_tracker order and supplier purchase orders created
+ * from an accepted quote (order is null until it has been converted).
+ * POST converts the accepted quote by hand - normally this happens as soon as
+ * the acceptance is recorded. Purchase orders are emailed to the suppliers
+ * only once the send_purchase_orders task is approved.
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { purchaseOrders } from '@/services/purchase-orders'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const conversion = await purchaseOrders.getOrderForQuote(id)
+
+    return NextResponse.json({
+      order: conversion?.order || null,
+      order_no: conversion?.order_no || null,
+      purchase_orders: conversion?.purchase_orders || [],
+      unassigned_items: conversion?.unassigned_items || [],
+      approval_task_id: conversion?.approval_task_id || null
+    })
+  } catch (error: any) {
+    console.error('[QUOTE ORDER] Error fetching order:', error)
+    const status = error.message === 'Quote request not found' ? 404 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to convert quotes to orders' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const convertedBy = approver.name
+
+    const conversion = await purchaseOrders.convertQuoteToOrder({ quoteRequestId: id, convertedBy })
+
+    console.log(`[QUOTE ORDER] Quote ${id} -> order ${conversion.order_no} (${conversion.purchase_orders.length} purchase orders)`)
+
+    return NextResponse.json({
+      success: true,
+      ...conversion
+    })
+  } catch (error: any) {
+    console.error('[QUOTE ORDER] Error converting quote:', error)
+    const status = error.message === 'Quote request not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
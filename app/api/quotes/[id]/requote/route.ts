@@ -0,0 +1,47 @@
+/**
+ * Quote Re-quote Endpoint
+ *
+ * Re-quotes an expired quote with fresh supplier prices: the suppliers are
+ * emailed again and the Quote Agent builds a new version from their
+ * responses, which goes through the approval queue as usual.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteFollowUps } from '@/services/quote-follow-ups'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to re-quote expired quotes' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const requestedBy = approver.name
+
+    const { taskId } = await quoteFollowUps.requoteExpiredQuote(id, requestedBy)
+
+    console.log(`[QUOTE FOLLOW-UPS] Re-quote of ${id} started by ${requestedBy} (task ${taskId})`)
+
+    return NextResponse.json({ success: true, task_id: taskId })
+  } catch (error: any) {
+    console.error('[QUOTE FOLLOW-UPS] Error starting re-quote:', error)
+    const status = error.message === 'Quote request not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Quote RFQ Rounds Endpoint
+ *
+ * Lists the supplier bidding rounds of a quote request, newest first: the
+ * invited suppliers and whether they bid, the deadline, the bid comparison
+ * and the award. The open round's comparison is built from the bids so far.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { rfqRounds } from '@/services/rfq-rounds'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const rounds = await rfqRounds.listRounds(id)
+
+    for (const round of rounds) {
+      if (round.status === 'open') {
+        round.comparison = await rfqRounds.buildComparison(round)
+      }
+    }
+
+    return NextResponse.json({
+      rounds,
+      count: rounds.length
+    })
+  } catch (error: any) {
+    console.error('[RFQ] Error listing RFQ rounds:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
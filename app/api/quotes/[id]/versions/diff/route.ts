@@ -0,0 +1,36 @@
+/**
+ * Quote Version Diff Endpoint
+ *
+ * GET ?from=1&to=2 compares two versions line by line. Without parameters
+ * the latest version is compared with the one before it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteVersions } from '@/services/quote-versions'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from') ? parseInt(searchParams.get('from')!, 10) : undefined
+    const to = searchParams.get('to') ? parseInt(searchParams.get('to')!, 10) : undefined
+
+    const diff = await quoteVersions.diffQuoteVersions(id, from, to)
+
+    return NextResponse.json(diff)
+  } catch (error: any) {
+    console.error('[QUOTE VERSIONS] Error diffing versions:', error)
+    const status = error.message.endsWith('not found')
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Quote Versions Endpoint
+ *
+ * GET lists every version of a quote (oldest first).
+ * POST creates a revised version from a full list of line items (and,
+ * optionally, its bundles), regenerates the PDF, drafts the customer email
+ * (referencing the previous version if it was sent) and queues it for approval.
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteVersions } from '@/services/quote-versions'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const versions = await quoteVersions.listQuoteVersions(id)
+
+    return NextResponse.json({
+      versions,
+      count: versions.length,
+      current_version: versions.length > 0 ? versions[versions.length - 1].version : null
+    })
+  } catch (error: any) {
+    console.error('[QUOTE VERSIONS] Error fetching versions:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to revise quotes' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const revisedBy = approver.name
+
+    if (!Array.isArray(body.items)) {
+      return NextResponse.json(
+        { error: 'items is required' },
+        { status: 400 }
+      )
+    }
+
+    const revision = await quoteVersions.reviseQuote({
+      quoteRequestId: id,
+      items: body.items,
+      notes: body.notes,
+      terms: body.terms,
+      bundles: body.bundles,
+      reason: body.reason,
+      revisedBy
+    })
+
+    console.log(`[QUOTE VERSIONS] ${revision.version.quote_number} v${revision.version.version} created by ${revisedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      version: revision.version,
+      draft_id: revision.draftId,
+      task_id: revision.taskId
+    })
+  } catch (error: any) {
+    console.error('[QUOTE VERSIONS] Error revising quote:', error)
+    const status = error.message === 'Quote request not found'
+      ? 404
+      : error.message.startsWith('Invalid') ? 400 : 500
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { verifyCronRequest, unauthorizedResponse } from '@/lib/cron-auth'
 import { createClient } from '@supabase/supabase-js'
 import { gmailService } from '../../../../services/integrations/gmail-service'
+import { approverService } from '@/services/approvers'
+import { approvalWorkflow } from '@/services/approval-workflow'
+import { taskQueue } from '@/services/task-queue'
+import { publishEvent } from '@/services/event-bus'
+import { quoteVersions, applyQuoteEdits, type QuoteBundle, type QuoteOptionTier } from '@/services/quote-versions'
+import { quoteFollowUps } from '@/services/quote-follow-ups'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -19,21 +25,40 @@ interface ApprovalRequest {
       quantity?: number
       unit_price?: number
       description?: string
+      optional?: boolean
+      option_group?: string
+      tier?: QuoteOptionTier
+      recommended?: boolean
     }>
     addedItems?: Array<{
       product_name: string
       quantity: number
       unit_price: number
       description?: string
+      optional?: boolean
+      option_group?: string
+      tier?: QuoteOptionTier
     }>
     removedItemIds?: string[]
+    bundles?: QuoteBundle[]
     notes?: string
     terms?: string
   }
 }
 
+/**
+ * Approve, reject or edit a quote.
+ *
+ * Called either by the task executor (CRON_SECRET) once the approval task has
+ * all of its approvals, or by a signed-in approver (Supabase access token).
+ * An approver's approval counts towards the task's required approvals; the
+ * quote is only sent once the last one is in.
+ */
 export async function POST(request: NextRequest) {
-  if (!verifyCronRequest(request)) {
+  const isSystem = verifyCronRequest(request)
+  const approver = isSystem ? null : await approverService.authenticateApprover(request)
+
+  if (!isSystem && !approver) {
     return unauthorizedResponse()
   }
 
@@ -63,7 +88,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { data: task, error: taskError } = await supabase
+    const { data: pendingTask } = await supabase
       .from('squad_tasks')
       .select('*')
       .eq('metadata->>quote_request_id', quoteRequestId)
@@ -72,12 +97,65 @@ export async function POST(request: NextRequest) {
       .limit(1)
       .single()
 
+    // Tasks created straight into the queue may not have been through the policies yet
+    const task = pendingTask ? await approvalWorkflow.ensureApprovalRequirements(pendingTask) : null
+    let actorName = approver?.name || task?.approved_by || 'System'
+
+    if (approver && task) {
+      const authority = await approverService.resolveApprovalAuthority(approver, task)
+      if (!authority.allowed) {
+        return NextResponse.json(
+          { success: false, error: authority.reason },
+          { status: 403 }
+        )
+      }
+
+      if (action === 'approve') {
+        if (task.approved_at) {
+          return NextResponse.json(
+            { success: false, error: 'Quote was already approved' },
+            { status: 409 }
+          )
+        }
+
+        const progress = await approvalWorkflow.submitApproval(task, approver, { onBehalfOf: authority.onBehalfOf })
+        if (progress.status === 'pending') {
+          return NextResponse.json({
+            success: true,
+            pending: true,
+            message: `Approval recorded - ${progress.required - progress.approvals} more needed before the quote is sent`,
+            ...progress
+          })
+        }
+        actorName = progress.approvers.join(' + ')
+
+        // Take the task off the queue so the executor does not send it as well
+        const claimed = await taskQueue.claimTask(task, `quote-approval-${approver.id}`)
+        if (!claimed) {
+          return NextResponse.json(
+            { success: false, error: 'Quote is already being sent' },
+            { status: 409 }
+          )
+        }
+      }
+    } else if (approver && !task && action === 'approve') {
+      return NextResponse.json(
+        { success: false, error: 'Approval task not found' },
+        { status: 404 }
+      )
+    } else if (isSystem && action === 'approve' && task && task.requires_approval && !task.approved_at) {
+      return NextResponse.json(
+        { success: false, error: 'Quote is still awaiting approval' },
+        { status: 409 }
+      )
+    }
+
     if (action === 'approve') {
-      return await handleApproval(quoteRequest, task, startTime)
+      return await handleApproval(quoteRequest, task, startTime, actorName)
     } else if (action === 'reject') {
-      return await handleRejection(quoteRequest, task, reason, startTime)
+      return await handleRejection(quoteRequest, task, reason, startTime, actorName)
     } else if (action === 'edit') {
-      return await handleEdit(quoteRequest, task, edits, reason, startTime)
+      return await handleEdit(quoteRequest, task, edits, reason, startTime, actorName)
     }
 
     return NextResponse.json(
@@ -97,7 +175,8 @@ export async function POST(request: NextRequest) {
 async function handleApproval(
   quoteRequest: any,
   task: any,
-  startTime: number
+  startTime: number,
+  approvedBy: string
 ) {
   const approvalTimeSeconds = Math.floor((Date.now() - startTime) / 1000)
   const draftId = task?.metadata?.draft_id
@@ -168,9 +247,27 @@ async function handleApproval(
     console.error('Failed to update email draft status:', updateDraftError)
   }
 
+  const versionId = task?.metadata?.quote_version_id || quoteRequest.current_version_id
+  if (versionId) {
+    await quoteVersions.markVersionSent(versionId).catch(err =>
+      console.error('Failed to mark quote version sent:', err)
+    )
+  }
+
   await logCustomerInteraction(quoteRequest, quoteNumber, emailResult.messageId)
 
-  await createFollowUpTask(quoteRequest, quoteNumber)
+  let followUpsScheduled = 0
+  if (versionId) {
+    followUpsScheduled = await quoteFollowUps.startFollowUps({
+      quoteRequestId: quoteRequest.id,
+      quoteVersionId: versionId,
+      subject: emailDraft.subject,
+      body: emailDraft.body
+    }).then(followUps => followUps.length).catch(err => {
+      console.error('Failed to schedule quote follow-ups:', err)
+      return 0
+    })
+  }
 
   await logApprovalFeedback(
     quoteRequest.id,
@@ -197,24 +294,36 @@ async function handleApproval(
     .insert({
       from_agent: 'QuoteApprovalSystem',
       to_agent: 'QuoteAgent',
-      message: `Quote ${quoteNumber} approved and sent to ${quoteRequest.customer_email}. Follow-up task created for 48h.`,
+      message: `Quote ${quoteNumber} approved by ${approvedBy} and sent to ${quoteRequest.customer_email}. Follow-up task created for 48h.`,
       task_id: task?.id,
       data: {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
         action: 'approved',
+        approved_by: approvedBy,
         sent_to: quoteRequest.customer_email,
         gmail_message_id: emailResult.messageId,
         timestamp: new Date().toISOString()
       }
     })
 
+  await publishEvent(
+    'quote.approved',
+    {
+      quoteRequestId: quoteRequest.id,
+      quoteNumber,
+      customerEmail: quoteRequest.customer_email,
+      approvedBy
+    },
+    { source: 'QuoteApprovalSystem', correlationId: quoteRequest.id }
+  ).catch(err => console.error('Failed to publish quote.approved:', err))
+
   return NextResponse.json({
     success: true,
     message: 'Quote approved and sent to customer',
     quoteNumber,
     emailSent: true,
-    followUpTaskCreated: true
+    followUpsScheduled
   })
 }
 
@@ -222,7 +331,8 @@ async function handleRejection(
   quoteRequest: any,
   task: any,
   reason: string | undefined,
-  startTime: number
+  startTime: number,
+  rejectedBy: string
 ) {
   const approvalTimeSeconds = Math.floor((Date.now() - startTime) / 1000)
   const quoteNumber = task?.metadata?.quote_number || 'N/A'
@@ -268,12 +378,13 @@ async function handleRejection(
     .insert({
       from_agent: 'QuoteApprovalSystem',
       to_agent: 'QuoteAgent',
-      message: `Quote ${quoteNumber} rejected by Kenny. Reason: ${reason}. Learning from this feedback for future improvements.`,
+      message: `Quote ${quoteNumber} rejected by ${rejectedBy}. Reason: ${reason}. Learning from this feedback for future improvements.`,
       task_id: task?.id,
       data: {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
         action: 'rejected',
+        rejected_by: rejectedBy,
         reason: reason,
         for_learning: true,
         timestamp: new Date().toISOString()
@@ -293,7 +404,8 @@ async function handleEdit(
   task: any,
   edits: any,
   reason: string | undefined,
-  startTime: number
+  startTime: number,
+  editedBy: string
 ) {
   const quoteNumber = task?.metadata?.quote_number || 'N/A'
 
@@ -304,17 +416,36 @@ async function handleEdit(
     )
   }
 
+  const currentVersion = await quoteVersions.getCurrentVersion(quoteRequest.id)
+  const baseItems = currentVersion?.items || []
+  const originalTotal = currentVersion ? Number(currentVersion.total) : task?.metadata?.total_amount || 0
+
+  const revision = await quoteVersions.reviseQuote({
+    quoteRequestId: quoteRequest.id,
+    quoteNumber,
+    items: applyQuoteEdits(baseItems, edits),
+    notes: edits.notes,
+    terms: edits.terms,
+    bundles: edits.bundles,
+    reason,
+    revisedBy: editedBy
+  })
+  const newPdfUrl = revision.version.pdf_url
+  const newTotal = { total: Number(revision.version.total) }
+  const newTaskId = revision.taskId
+
   const editLogs: any[] = []
-  const originalTotal = task?.metadata?.total_amount || 0
 
   if (edits.items) {
     for (const item of edits.items) {
+      const original = baseItems.find(base => base.id === item.id)
       const editLog = {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
+        quote_version_id: revision.version.id,
         edit_type: 'price_adjustment',
-        item_name: item.product_name,
-        old_value: { unit_price: item.original_unit_price },
+        item_name: item.product_name || original?.product_name,
+        old_value: { unit_price: item.original_unit_price ?? original?.unit_price },
         new_value: { 
           unit_price: item.unit_price,
           quantity: item.quantity 
@@ -330,6 +461,7 @@ async function handleEdit(
       const editLog = {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
+        quote_version_id: revision.version.id,
         edit_type: 'product_added',
         item_name: item.product_name,
         old_value: null,
@@ -347,12 +479,14 @@ async function handleEdit(
 
   if (edits.removedItemIds && edits.removedItemIds.length > 0) {
     for (const itemId of edits.removedItemIds) {
+      const original = baseItems.find(base => base.id === itemId)
       const editLog = {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
+        quote_version_id: revision.version.id,
         edit_type: 'product_removed',
-        item_name: `Item ${itemId}`,
-        old_value: { item_id: itemId },
+        item_name: original?.product_name || `Item ${itemId}`,
+        old_value: original ? { item_id: itemId, unit_price: original.unit_price, quantity: original.quantity } : { item_id: itemId },
         new_value: null,
         reason: reason
       }
@@ -366,63 +500,6 @@ async function handleEdit(
       .insert(editLogs)
   }
 
-  const editedQuoteData = {
-    ...quoteRequest,
-    items: edits.items || [],
-    notes: edits.notes || quoteRequest.notes,
-    terms: edits.terms || quoteRequest.terms
-  }
-
-  const newTotal = calculateTotal(editedQuoteData)
-
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL
-    || (process.env.VERCEL_PROJECT_PRODUCTION_URL
-      ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
-      : 'http://localhost:3000')
-
-  const pdfResponse = await fetch(
-    `${baseUrl}/api/quote/generate-pdf`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        quoteId: quoteRequest.id,
-        quoteNumber,
-        customerName: quoteRequest.customer_name,
-        customerEmail: quoteRequest.customer_email,
-        companyName: quoteRequest.metadata?.company_name,
-        items: edits.items || [],
-        subtotal: newTotal.subtotal,
-        tax: newTotal.tax,
-        shipping: 0,
-        total: newTotal.total,
-        currency: 'ZAR',
-        validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-        notes: edits.notes,
-        terms: edits.terms
-      })
-    }
-  )
-
-  if (!pdfResponse.ok) {
-    return NextResponse.json(
-      { success: false, error: 'Failed to regenerate PDF' },
-      { status: 500 }
-    )
-  }
-
-  const pdfResult = await pdfResponse.json()
-  const newPdfUrl = pdfResult.pdfUrl
-
-  await supabase
-    .from('quote_requests')
-    .update({
-      pdf_url: newPdfUrl,
-      status: 'pdf_generated',
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', quoteRequest.id)
-
   await logApprovalFeedback(
     quoteRequest.id,
     quoteNumber,
@@ -434,28 +511,22 @@ async function handleEdit(
     editLogs
   )
 
-  const newTaskId = await createNewApprovalTask(
-    quoteRequest,
-    quoteNumber,
-    newPdfUrl,
-    newTotal,
-    edits
-  )
-
   await supabase
     .from('squad_messages')
     .insert({
       from_agent: 'QuoteApprovalSystem',
       to_agent: 'QuoteAgent',
-      message: `Quote ${quoteNumber} edited by Kenny. ${editLogs.length} changes made. New PDF generated and returned to approval queue.`,
+      message: `Quote ${quoteNumber} edited by ${editedBy}. ${editLogs.length} changes made. New PDF generated and returned to approval queue.`,
       task_id: newTaskId,
       data: {
         quote_request_id: quoteRequest.id,
         quote_number: quoteNumber,
         action: 'edited',
+        edited_by: editedBy,
         edit_count: editLogs.length,
         original_total: originalTotal,
         new_total: newTotal.total,
+        quote_version: revision.version.version,
         for_learning: true,
         timestamp: new Date().toISOString()
       }
@@ -476,6 +547,7 @@ async function handleEdit(
     success: true,
     message: 'Quote edited, PDF regenerated, and returned to approval queue',
     quoteNumber,
+    version: revision.version.version,
     newPdfUrl,
     editCount: editLogs.length,
     newTaskId,
@@ -514,38 +586,6 @@ async function logCustomerInteraction(
     })
 }
 
-async function createFollowUpTask(quoteRequest: any, quoteNumber: string) {
-  const followUpDate = new Date()
-  followUpDate.setHours(followUpDate.getHours() + 48)
-
-  await supabase
-    .from('squad_tasks')
-    .insert({
-      title: `Follow up on Quote ${quoteNumber} - ${quoteRequest.customer_name}`,
-      description: `Check if customer ${quoteRequest.customer_name} (${quoteRequest.customer_email}) has responded to quote ${quoteNumber}.
-
-**Actions:**
-1. Check email for customer response
-2. If no response, send friendly follow-up
-3. Update quote status based on customer feedback
-
-**Quote Details:**
-- Sent: ${new Date().toISOString()}
-- Expected Follow-up: ${followUpDate.toISOString()}`,
-      status: 'new',
-      assigned_agent: 'QuoteAgent',
-      priority: 'medium',
-      mentions_kenny: false,
-      metadata: {
-        quote_request_id: quoteRequest.id,
-        quote_number: quoteNumber,
-        customer_email: quoteRequest.customer_email,
-        action_required: 'follow_up_quote',
-        scheduled_for: followUpDate.toISOString()
-      }
-    })
-}
-
 async function logApprovalFeedback(
   quoteRequestId: string,
   quoteNumber: string,
@@ -618,73 +658,6 @@ function analyzePatterns(
   return patterns
 }
 
-function calculateTotal(quoteData: any) {
-  const items = quoteData.items || []
-  const subtotal = items.reduce((sum: number, item: any) => {
-    const itemTotal = (item.unit_price || 0) * (item.quantity || 0)
-    return sum + itemTotal
-  }, 0)
-
-  const tax = subtotal * 0.15
-  const total = subtotal + tax
-
-  return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    tax: Math.round(tax * 100) / 100,
-    total: Math.round(total * 100) / 100
-  }
-}
-
-async function createNewApprovalTask(
-  quoteRequest: any,
-  quoteNumber: string,
-  pdfUrl: string,
-  newTotal: any,
-  edits: any
-) {
-  const { data } = await supabase
-    .from('squad_tasks')
-    .insert({
-      title: `Re-approve Edited Quote ${quoteNumber} for ${quoteRequest.customer_name}`,
-      description: `Quote has been edited by Kenny and requires re-approval before sending.
-
-**Quote Details:**
-- Quote Number: ${quoteNumber}
-- Customer: ${quoteRequest.customer_name} (${quoteRequest.customer_email})
-- New Total: ZAR ${newTotal.total.toFixed(2)}
-
-**Changes Made:**
-- ${edits.items?.length || 0} items modified
-- ${edits.addedItems?.length || 0} items added
-- ${edits.removedItemIds?.length || 0} items removed
-
-**Actions Required:**
-1. Review the updated PDF: [View PDF](${pdfUrl})
-2. Approve and send to customer`,
-      status: 'new',
-      assigned_agent: 'QuoteAgent',
-      priority: 'high',
-      mentions_kenny: true,
-      deliverable_url: pdfUrl,
-      metadata: {
-        quote_request_id: quoteRequest.id,
-        quote_number: quoteNumber,
-        pdf_url: pdfUrl,
-        customer_email: quoteRequest.customer_email,
-        customer_name: quoteRequest.customer_name,
-        total_amount: newTotal.total,
-        currency: 'ZAR',
-        action_required: 'approve_quote',
-        edited: true,
-        original_task_completed: true
-      }
-    })
-    .select()
-    .single()
-
-  return data?.id
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -718,7 +691,7 @@ export async function GET(request: NextRequest) {
         POST: {
           description: 'Approve, reject, or edit a quote',
           actions: {
-            approve: 'Send quote to customer and create follow-up task',
+            approve: 'Send quote to customer and schedule follow-up emails',
             reject: 'Reject quote and log feedback for learning',
             edit: 'Edit quote items, regenerate PDF, return to approval queue'
           }
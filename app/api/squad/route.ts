@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import type { TokenBudget } from '@/services/types'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -22,6 +23,7 @@ interface AgentStatistics {
     task_id?: string
   }>
   tokenUsage: number
+  costZar: number
 }
 
 interface OrchestratorHealth {
@@ -32,6 +34,7 @@ interface OrchestratorHealth {
     used: number
     remaining: number
     usagePercent: number
+    costZar: number
   }
   lastExecutionTimes: {
     email_poll?: string
@@ -41,7 +44,7 @@ interface OrchestratorHealth {
     conflict_check?: string
     token_monitor?: string
   }
-  activeOperationsCount: number
+  activeLocksCount: number
   scheduledJobsCount: number
 }
 
@@ -53,12 +56,17 @@ export async function GET(request: NextRequest) {
     if (action === 'orchestrator-status') {
       try {
         const { orchestrator } = await import('@/services/orchestrator')
-        const tokenBudget = orchestrator.getTokenBudget()
-        const activeOps = orchestrator.getActiveOperations()
+        const { getLockBackend } = await import('@/services/resource-locks')
+        const [tokenBudget, activeLocks] = await Promise.all([
+          orchestrator.getTokenBudget(),
+          orchestrator.getActiveLocks()
+        ])
         
         return NextResponse.json({
           tokenBudget,
-          activeOperations: activeOps,
+          // Tokens stay server-side; holding one lets a caller release the lock
+          activeLocks: activeLocks.map(({ token, ...lock }) => lock),
+          lockBackend: getLockBackend(),
           timestamp: new Date().toISOString()
         })
       } catch (error: any) {
@@ -69,6 +77,14 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    if (action === 'handler-capabilities') {
+      const { listCapabilities } = await import('@/services/execution-handlers/registry')
+      return NextResponse.json({
+        capabilities: listCapabilities(),
+        timestamp: new Date().toISOString()
+      })
+    }
+
     const dateFrom = searchParams.get('dateFrom')
     const dateTo = searchParams.get('dateTo')
     const agentType = searchParams.get('agentType')
@@ -139,6 +155,13 @@ export async function GET(request: NextRequest) {
     const { data: agents, error: agentsError } = await agentsQuery
 
     const agentStatistics: AgentStatistics[] = []
+
+    let todayBudget: TokenBudget | null = null
+    try {
+      const { orchestrator } = await import('@/services/orchestrator')
+      todayBudget = await orchestrator.getTokenBudget()
+    } catch (e) {
+    }
     
     if (agents && agents.length > 0) {
       for (const agent of agents) {
@@ -161,13 +184,8 @@ export async function GET(request: NextRequest) {
           task_id: m.task_id
         }))
 
-        let tokenUsage = 0
-        try {
-          const { orchestrator } = await import('@/services/orchestrator')
-          const tokenBudget = orchestrator.getTokenBudget()
-          tokenUsage = tokenBudget.agentUsage[agent.name] || 0
-        } catch (e) {
-        }
+        const tokenUsage = todayBudget?.agentUsage[agent.name] || 0
+        const costZar = todayBudget?.agentCostZar[agent.name] || 0
 
         agentStatistics.push({
           agentName: agent.name,
@@ -180,7 +198,8 @@ export async function GET(request: NextRequest) {
           totalTasks,
           successRate: Math.round(successRate * 100) / 100,
           recentErrors,
-          tokenUsage
+          tokenUsage,
+          costZar
         })
       }
     }
@@ -188,8 +207,8 @@ export async function GET(request: NextRequest) {
     let orchestratorHealth: OrchestratorHealth | null = null
     try {
       const { orchestrator } = await import('@/services/orchestrator')
-      const tokenBudget = orchestrator.getTokenBudget()
-      const activeOps = orchestrator.getActiveOperations()
+      const tokenBudget = todayBudget || await orchestrator.getTokenBudget()
+      const activeLocks = await orchestrator.getActiveLocks()
 
       const lastExecutionTimes: OrchestratorHealth['lastExecutionTimes'] = {}
       
@@ -221,10 +240,11 @@ export async function GET(request: NextRequest) {
           total: tokenBudget.total,
           used: tokenBudget.used,
           remaining: tokenBudget.remaining,
-          usagePercent: Math.round((tokenBudget.used / tokenBudget.total) * 100 * 100) / 100
+          usagePercent: Math.round((tokenBudget.used / tokenBudget.total) * 100 * 100) / 100,
+          costZar: Math.round(tokenBudget.costZar * 100) / 100
         },
         lastExecutionTimes,
-        activeOperationsCount: activeOps.length,
+        activeLocksCount: activeLocks.length,
         scheduledJobsCount: 6
       }
     } catch (e) {
@@ -235,10 +255,11 @@ export async function GET(request: NextRequest) {
           total: 0,
           used: 0,
           remaining: 0,
-          usagePercent: 0
+          usagePercent: 0,
+          costZar: 0
         },
         lastExecutionTimes: {},
-        activeOperationsCount: 0,
+        activeLocksCount: 0,
         scheduledJobsCount: 0
       }
     }
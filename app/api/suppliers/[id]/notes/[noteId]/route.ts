@@ -0,0 +1,72 @@
+/**
+ * Supplier Note Endpoint
+ *
+ * PATCH edits a note's `body` or pins/unpins it (`pinned`). DELETE removes it.
+ * Both require a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm } from '@/services/supplier-crm'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to edit notes' },
+        { status: 401 }
+      )
+    }
+
+    const { id, noteId } = await params
+    const body = await request.json()
+
+    const note = await supplierCrm.updateNote(id, noteId, {
+      body: body.body,
+      pinned: body.pinned
+    })
+
+    return NextResponse.json({
+      success: true,
+      note
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error updating note:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Note not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to delete notes' },
+        { status: 401 }
+      )
+    }
+
+    const { id, noteId } = await params
+    await supplierCrm.deleteNote(id, noteId)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error deleting note:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Note not found' ? 404 : 500 }
+    )
+  }
+}
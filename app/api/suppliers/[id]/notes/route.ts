@@ -0,0 +1,69 @@
+/**
+ * Supplier Notes Endpoint
+ *
+ * GET lists the supplier's notes, pinned first. POST adds one
+ * (`body`, optional `pinned`) in the signed-in team member's name.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm } from '@/services/supplier-crm'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const notes = await supplierCrm.listNotes(id)
+
+    return NextResponse.json({
+      notes,
+      count: notes.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error listing notes:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to add notes' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const note = await supplierCrm.addNote({
+      supplierId: id,
+      body: body.body,
+      author: approver.name,
+      pinned: body.pinned
+    })
+
+    return NextResponse.json({
+      success: true,
+      note
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error adding note:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Supplier Profile Endpoint
+ *
+ * GET returns the supplier with its account manager, trading terms, contacts,
+ * notes, tasks and counts. PATCH assigns the account manager
+ * (`account_manager_id`) and sets trading terms (`payment_terms`,
+ * `credit_limit`, `credit_currency`, `delivery_zones`); null clears a field.
+ * PATCH requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm } from '@/services/supplier-crm'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const profile = await supplierCrm.getSupplierProfile(id)
+
+    return NextResponse.json(profile)
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error loading supplier profile:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to update supplier profiles' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const updatedBy = approver.name
+
+    const supplier = await supplierCrm.updateSupplierProfile(id, {
+      accountManagerId: body.account_manager_id,
+      paymentTerms: body.payment_terms,
+      creditLimit: body.credit_limit,
+      creditCurrency: body.credit_currency,
+      deliveryZones: body.delivery_zones
+    }, updatedBy)
+
+    console.log(`[SUPPLIER CRM] ${supplier.company} profile updated by ${updatedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      supplier
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error updating supplier profile:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Supplier Scorecard Email Endpoint
+ *
+ * POST creates the send_supplier_scorecard approval task that emails the
+ * scorecard PDF to the supplier's preferred contact. The email goes out once
+ * the task is approved; an open task is returned instead of a second one.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierSla } from '@/services/supplier-sla'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scorecardId: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to email scorecards' },
+        { status: 401 }
+      )
+    }
+
+    const { id, scorecardId } = await params
+    const requestedBy = approver.name
+
+    const scorecard = await supplierSla.getScorecard(scorecardId)
+    if (scorecard.supplier_id !== id) {
+      throw new Error('Scorecard not found')
+    }
+
+    const result = await supplierSla.requestScorecardEmail(scorecardId, requestedBy)
+
+    console.log(`[SUPPLIER SLA] Scorecard ${scorecardId} email requested by ${requestedBy} (task ${result.task_id})`)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER SLA] Error requesting scorecard email:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Scorecard not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Supplier Scorecards Endpoint
+ *
+ * GET lists the supplier's monthly SLA scorecards, newest first. POST
+ * generates (or regenerates) the scorecard and its PDF for `month`
+ * (YYYY-MM, default last month).
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierSla, previousMonth } from '@/services/supplier-sla'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const scorecards = await supplierSla.listScorecards(id)
+
+    return NextResponse.json({
+      scorecards,
+      count: scorecards.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER SLA] Error listing scorecards:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to generate scorecards' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const generatedBy = approver.name
+
+    const scorecard = await supplierSla.generateScorecard(id, body.month || previousMonth(), generatedBy)
+
+    console.log(`[SUPPLIER SLA] Scorecard ${scorecard.period_start} for ${id} generated by ${generatedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      scorecard
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER SLA] Error generating scorecard:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
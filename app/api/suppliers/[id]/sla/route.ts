@@ -0,0 +1,75 @@
+/**
+ * Supplier SLA Endpoint
+ *
+ * GET returns the supplier's SLA targets (`targets`, with `overrides` and the
+ * `defaults` they replace) and its metrics and breaches for `?month=YYYY-MM`
+ * (default the current month). PATCH sets target overrides - null drops one,
+ * `{ "reset": true }` drops them all.
+ * PATCH requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierSla, DEFAULT_SLA_TARGETS } from '@/services/supplier-sla'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const month = request.nextUrl.searchParams.get('month') || undefined
+
+    const [{ overrides }, report] = await Promise.all([
+      supplierSla.getSlaTargets(id),
+      supplierSla.computeSlaReport(id, month)
+    ])
+
+    return NextResponse.json({
+      ...report,
+      overrides,
+      defaults: DEFAULT_SLA_TARGETS
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER SLA] Error loading SLA report:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to change SLA targets' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const updatedBy = approver.name
+
+    const { reset, updated_by, ...targets } = body
+    const updated = await supplierSla.updateSlaTargets(id, reset ? null : targets, updatedBy)
+
+    return NextResponse.json({
+      success: true,
+      targets: updated
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER SLA] Error updating SLA targets:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
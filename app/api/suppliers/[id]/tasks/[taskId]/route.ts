@@ -0,0 +1,51 @@
+/**
+ * Supplier Task Endpoint
+ *
+ * PATCH edits a task (`title`, `description`, `due_date`, `assigned_to_id`)
+ * or closes it (`status: "done"` / `"cancelled"`, `"open"` to reopen).
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm } from '@/services/supplier-crm'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to update supplier tasks' },
+        { status: 401 }
+      )
+    }
+
+    const { id, taskId } = await params
+    const body = await request.json()
+    const updatedBy = approver.name
+
+    const task = await supplierCrm.updateTask(id, taskId, {
+      title: body.title,
+      description: body.description,
+      dueDate: body.due_date,
+      assignedToId: body.assigned_to_id,
+      status: body.status
+    }, updatedBy)
+
+    return NextResponse.json({
+      success: true,
+      task
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error updating task:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Task not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
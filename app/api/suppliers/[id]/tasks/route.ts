@@ -0,0 +1,76 @@
+/**
+ * Supplier Tasks Endpoint
+ *
+ * GET lists the supplier's follow-up tasks, open ones first by due date.
+ * POST adds one (`title`, optional `description`, `due_date`,
+ * `assigned_to_id` - the account manager when left out).
+ * POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm } from '@/services/supplier-crm'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const tasks = await supplierCrm.listTasks(id)
+
+    return NextResponse.json({
+      tasks,
+      count: tasks.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error listing tasks:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to add supplier tasks' },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const createdBy = approver.name
+
+    const task = await supplierCrm.createTask({
+      supplierId: id,
+      title: body.title,
+      description: body.description,
+      dueDate: body.due_date,
+      assignedToId: body.assigned_to_id,
+      createdBy
+    })
+
+    console.log(`[SUPPLIER CRM] Task "${task.title}" added for supplier ${id} by ${createdBy}`)
+
+    return NextResponse.json({
+      success: true,
+      task
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error creating task:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
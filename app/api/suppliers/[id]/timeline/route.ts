@@ -0,0 +1,42 @@
+/**
+ * Supplier Timeline Endpoint
+ *
+ * GET returns the supplier's timeline newest first: RFQs sent, supplier
+ * emails, price lists and price changes, purchase orders, score changes,
+ * merges, notes and tasks. Page with `?before=<next_before>`; narrow with
+ * `?types=rfq_sent,purchase_order` and `?limit=` (default 50, max 200).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierCrm, type TimelineEventType } from '@/services/supplier-crm'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = searchParams.get('limit')
+    const types = searchParams.get('types')
+
+    const timeline = await supplierCrm.getTimeline(id, {
+      before: searchParams.get('before'),
+      limit: limit ? parseInt(limit, 10) : undefined,
+      types: types ? types.split(',').map(type => type.trim()) as TimelineEventType[] : undefined
+    })
+
+    return NextResponse.json({
+      ...timeline,
+      count: timeline.events.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER CRM] Error loading supplier timeline:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Supplier Duplicate Candidate Endpoint
+ *
+ * Dismisses a candidate pair (`status: "dismissed"`) - the two suppliers are
+ * different businesses and later scans skip the pair. Merging goes through
+ * POST /api/suppliers/merges.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierDedupe } from '@/services/supplier-dedupe'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to review duplicates' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (body.status !== 'dismissed') {
+      return NextResponse.json(
+        { error: 'status must be dismissed' },
+        { status: 400 }
+      )
+    }
+
+    const reviewedBy = approver.name
+    const candidate = await supplierDedupe.dismissCandidate(id, reviewedBy)
+
+    console.log(`[SUPPLIER DEDUPE] Candidate ${id} dismissed by ${reviewedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      candidate
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error dismissing candidate:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Duplicate candidate not found' ? 404 : 500 }
+    )
+  }
+}
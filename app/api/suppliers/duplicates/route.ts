@@ -0,0 +1,66 @@
+/**
+ * Supplier Duplicates Endpoint
+ *
+ * GET lists scored pairs of suppliers that may be the same business
+ * (`?status=pending|merged|dismissed`, pending by default), with both
+ * suppliers. POST runs the duplicate scan now instead of waiting for the
+ * weekly supplier scoring cron. POST requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierDedupe, type DuplicateCandidateStatus } from '@/services/supplier-dedupe'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+const STATUSES: DuplicateCandidateStatus[] = ['pending', 'merged', 'dismissed']
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = (request.nextUrl.searchParams.get('status') || 'pending') as DuplicateCandidateStatus
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const candidates = await supplierDedupe.listCandidates(status)
+
+    return NextResponse.json({
+      candidates,
+      count: candidates.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error listing candidates:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to scan for duplicates' },
+        { status: 401 }
+      )
+    }
+
+    const result = await supplierDedupe.scanForDuplicates()
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error scanning for duplicates:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -6,7 +6,7 @@ export const maxDuration = 120
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { start_date, end_date } = body
+    const { start_date, end_date, mailbox_id } = body
 
     if (!start_date || !end_date) {
       return NextResponse.json(
@@ -33,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     const scanner = new EmailIntelligenceScanner()
-    const state = await scanner.startScan(startDate, endDate)
+    const state = await scanner.startScan(startDate, endDate, mailbox_id)
 
     return NextResponse.json({
       success: true,
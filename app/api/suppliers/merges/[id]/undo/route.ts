@@ -0,0 +1,48 @@
+/**
+ * Supplier Merge Undo Endpoint
+ *
+ * Reverses a merge: the moved records go back to the duplicate, the
+ * survivor fields the merge filled in are restored and the duplicate is
+ * reactivated. Records created for the survivor after the merge stay with it.
+ * If a filled-in field has been edited since, the undo is refused with 409.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierDedupe } from '@/services/supplier-dedupe'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to undo merges' },
+        { status: 401 }
+      )
+    }
+
+    const undoneBy = approver.name
+
+    const merge = await supplierDedupe.undoMerge(id, undoneBy)
+    console.log(`[SUPPLIER DEDUPE] Merge ${id} undone by ${undoneBy}`)
+
+    return NextResponse.json({
+      success: true,
+      merge
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error undoing merge:', error)
+    const notFound = error.message === 'Supplier merge not found' || error.message === 'Supplier not found'
+    return NextResponse.json(
+      { error: error.message },
+      { status: notFound ? 404 : error.message.startsWith('Undo conflict') ? 409 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
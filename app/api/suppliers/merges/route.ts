@@ -0,0 +1,65 @@
+/**
+ * Supplier Merges Endpoint
+ *
+ * GET lists recent merges (the undo log). POST merges `merged_id` into
+ * `survivor_id`: products, contacts, email interactions, score history and
+ * the other records of the duplicate move to the survivor and the duplicate
+ * is deactivated. Merging requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { supplierDedupe } from '@/services/supplier-dedupe'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const merges = await supplierDedupe.listMerges()
+
+    return NextResponse.json({
+      merges,
+      count: merges.length
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error listing merges:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to merge suppliers' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const mergedBy = approver.name
+
+    const merge = await supplierDedupe.mergeSuppliers({
+      survivorId: body.survivor_id,
+      mergedId: body.merged_id,
+      mergedBy
+    })
+
+    console.log(`[SUPPLIER DEDUPE] ${merge.merged_id} merged into ${merge.survivor_id} by ${mergedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      merge
+    })
+  } catch (error: any) {
+    console.error('[SUPPLIER DEDUPE] Error merging suppliers:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Supplier not found' ? 404 : error.message.startsWith('Invalid') ? 400 : 500 }
+    )
+  }
+}
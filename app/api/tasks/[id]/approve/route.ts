@@ -1,12 +1,15 @@
 /**
  * Task Approval Endpoint
  *
- * Allows Kenny to approve tasks that require manual approval.
- * Once approved, the task becomes eligible for execution.
+ * Allows a signed-in approver (Authorization: Bearer <Supabase access token>)
+ * with the task's required role - their own or delegated to them - to approve
+ * it. Once it has all of its required approvals the task becomes eligible
+ * for execution.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { approvalWorkflow } from '@/services/approval-workflow'
+import { approverService } from '@/services/approvers'
 import { logToSquadMessages } from '@/lib/logger'
 import { supabase } from '@/lib/supabase'
 
@@ -21,47 +24,88 @@ export async function POST(
 ) {
   try {
     const { id: taskId } = await params
+    const body = await request.json().catch(() => ({}))
+
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to approve tasks' },
+        { status: 401 }
+      )
+    }
 
     // Get task details
-    const { data: task, error } = await supabase
+    const { data: taskRow, error } = await supabase
       .from('squad_tasks')
       .select('*')
       .eq('id', taskId)
       .single()
 
-    if (error || !task) {
+    if (error || !taskRow) {
       return NextResponse.json(
         { error: 'Task not found' },
         { status: 404 }
       )
     }
 
-    // Approve the task
-    await approvalWorkflow.approveTask(taskId, 'Kenny')
+    const task = await approvalWorkflow.ensureApprovalRequirements(taskRow)
+
+    if (task.approved_at || task.rejected_at) {
+      return NextResponse.json(
+        { error: `Task was already ${task.approved_at ? 'approved' : 'rejected'}` },
+        { status: 409 }
+      )
+    }
+
+    const authority = await approverService.resolveApprovalAuthority(approver, task)
+    if (!authority.allowed) {
+      return NextResponse.json(
+        { error: authority.reason },
+        { status: 403 }
+      )
+    }
+
+    // Record this approval - the task is approved once enough people sign off
+    const progress = await approvalWorkflow.submitApproval(task, approver, {
+      onBehalfOf: authority.onBehalfOf,
+      comment: body.comment
+    })
+
+    const actingAs = authority.onBehalfOf ? ` (for ${authority.onBehalfOf.name})` : ''
 
     // Log approval
     await logToSquadMessages(
       'Jarvis',
-      `✅ Task approved by Kenny: "${task.title}"`,
+      progress.status === 'approved'
+        ? `✅ Task approved by ${progress.approvers.join(' + ')}: "${task.title}"`
+        : `☑️ ${approver.name}${actingAs} approved "${task.title}" - ${progress.approvals}/${progress.required} approvals`,
       {
         task_id: taskId,
-        approved_by: 'Kenny',
+        approved_by: approver.name,
+        approver_id: approver.id,
+        on_behalf_of: authority.onBehalfOf?.name || null,
+        approvals: progress.approvals,
+        required_approvals: progress.required,
         agent: task.assigned_agent
       }
     )
 
-    console.log(`[APPROVAL] Task ${taskId} approved by Kenny`)
+    console.log(`[APPROVAL] Task ${taskId} approved by ${approver.name}${actingAs} (${progress.approvals}/${progress.required})`)
 
     return NextResponse.json({
       success: true,
-      message: 'Task approved successfully',
-      task_id: taskId
+      message: progress.status === 'approved'
+        ? 'Task approved successfully'
+        : `Approval recorded - ${progress.required - progress.approvals} more needed`,
+      task_id: taskId,
+      ...progress
     })
   } catch (error: any) {
     console.error('[APPROVAL] Error approving task:', error)
+    const status = error.message.includes('already approved') ? 409 : 500
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status }
     )
   }
 }
@@ -78,7 +122,7 @@ export async function GET(
 
     const { data: task, error } = await supabase
       .from('squad_tasks')
-      .select('requires_approval, approved_at, approved_by')
+      .select('requires_approval, approved_at, approved_by, required_approvals, required_approver_role')
       .eq('id', taskId)
       .single()
 
@@ -89,12 +133,17 @@ export async function GET(
       )
     }
 
+    const approvals = await approvalWorkflow.getTaskApprovals(taskId)
+
     return NextResponse.json({
       task_id: taskId,
       requires_approval: task.requires_approval,
       approved: !!task.approved_at,
       approved_by: task.approved_by,
-      approved_at: task.approved_at
+      approved_at: task.approved_at,
+      required_role: task.required_approver_role,
+      required_approvals: task.required_approvals || 1,
+      approvals
     })
   } catch (error: any) {
     console.error('[APPROVAL] Error getting approval status:', error)
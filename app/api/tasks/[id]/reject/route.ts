@@ -1,12 +1,13 @@
 /**
  * Task Rejection Endpoint
  *
- * Allows Kenny to reject tasks that require manual approval.
- * Rejected tasks will not be executed.
+ * Allows a signed-in approver with the task's required role to reject it.
+ * One rejection is enough - rejected tasks will not be executed.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { approvalWorkflow } from '@/services/approval-workflow'
+import { approverService } from '@/services/approvers'
 import { logToSquadMessages } from '@/lib/logger'
 import { supabase } from '@/lib/supabase'
 
@@ -24,36 +25,56 @@ export async function POST(
     const body = await request.json()
     const reason = body.reason || 'No reason provided'
 
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to reject tasks' },
+        { status: 401 }
+      )
+    }
+
     // Get task details
-    const { data: task, error } = await supabase
+    const { data: taskRow, error } = await supabase
       .from('squad_tasks')
       .select('*')
       .eq('id', taskId)
       .single()
 
-    if (error || !task) {
+    if (error || !taskRow) {
       return NextResponse.json(
         { error: 'Task not found' },
         { status: 404 }
       )
     }
 
+    const task = await approvalWorkflow.ensureApprovalRequirements(taskRow)
+
+    const authority = await approverService.resolveApprovalAuthority(approver, task)
+    if (!authority.allowed) {
+      return NextResponse.json(
+        { error: authority.reason },
+        { status: 403 }
+      )
+    }
+
     // Reject the task
-    await approvalWorkflow.rejectTask(taskId, 'Kenny', reason)
+    await approvalWorkflow.submitRejection(task, approver, reason, { onBehalfOf: authority.onBehalfOf })
 
     // Log rejection
     await logToSquadMessages(
       'Jarvis',
-      `❌ Task rejected by Kenny: "${task.title}" - Reason: ${reason}`,
+      `❌ Task rejected by ${approver.name}: "${task.title}" - Reason: ${reason}`,
       {
         task_id: taskId,
-        rejected_by: 'Kenny',
+        rejected_by: approver.name,
+        approver_id: approver.id,
+        on_behalf_of: authority.onBehalfOf?.name || null,
         reason,
         agent: task.assigned_agent
       }
     )
 
-    console.log(`[REJECTION] Task ${taskId} rejected by Kenny: ${reason}`)
+    console.log(`[REJECTION] Task ${taskId} rejected by ${approver.name}: ${reason}`)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,58 @@
+/**
+ * Task Replay Endpoint
+ *
+ * Puts a dead-lettered task back on the execution queue with a fresh set of
+ * attempts. It will be picked up by the next task executor run.
+ * Requires a signed-in approver.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { taskQueue } from '@/services/task-queue'
+import { approverService } from '@/services/approvers'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST handler for dead-letter replay
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const approver = await approverService.authenticateApprover(request)
+    if (!approver) {
+      return NextResponse.json(
+        { error: 'Sign in as an approver to replay tasks' },
+        { status: 401 }
+      )
+    }
+
+    const { id: taskId } = await params
+    const replayedBy = approver.name
+
+    const task = await taskQueue.replayTask(taskId, replayedBy)
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Task was already replayed' },
+        { status: 409 }
+      )
+    }
+
+    console.log(`[REPLAY] Task ${taskId} replayed by ${replayedBy}`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Task re-queued for execution',
+      task_id: taskId
+    })
+  } catch (error: any) {
+    console.error('[REPLAY] Error replaying task:', error)
+    const status = error.message === 'Task not found' ? 404 : 400
+    return NextResponse.json(
+      { error: error.message },
+      { status }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Dead-Letter Queue Endpoint
+ *
+ * Lists tasks that exhausted their execution attempts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { taskQueue } from '@/services/task-queue'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20', 10)
+
+    const tasks = await taskQueue.fetchDeadLetterTasks(limit)
+
+    return NextResponse.json({
+      tasks,
+      count: tasks.length
+    })
+  } catch (error: any) {
+    console.error('[DEAD LETTER] Error fetching tasks:', error)
+    return NextResponse.json(
+      { error: error.message },
+      { status: 500 }
+    )
+  }
+}
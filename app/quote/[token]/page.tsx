@@ -0,0 +1,410 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+
+interface PortalLineItem {
+  id: string
+  product_name: string
+  description?: string
+  quantity: number
+  unit_price: number
+  total_price: number
+  lead_time?: string
+  optional?: boolean
+  option_group?: string
+  tier?: 'good' | 'better' | 'best'
+  recommended?: boolean
+}
+
+interface QuoteBundle {
+  id: string
+  name: string
+  item_ids: string[]
+  discount_percentage: number
+}
+
+interface PortalQuote {
+  quote_number: string
+  version: number
+  customer_name: string | null
+  company_name: string | null
+  items: PortalLineItem[]
+  bundles: QuoteBundle[]
+  subtotal: number
+  tax: number
+  shipping: number
+  total: number
+  currency: string
+  valid_until: string | null
+  notes: string | null
+  terms: string | null
+  pdf_url: string | null
+  status: 'open' | 'accepted' | 'changes_requested' | 'closed' | 'superseded' | 'expired'
+  decision: {
+    decision: 'accepted' | 'changes_requested'
+    selected_optional_item_ids: string[]
+    selected_alternative_ids: string[]
+    accepted_total: number | null
+    message: string | null
+    created_at: string
+  } | null
+  latest_url: string | null
+}
+
+const VAT_RATE = 0.15
+
+const TIER_LABELS = { good: 'Good', better: 'Better', best: 'Best' }
+
+const STATUS_MESSAGES: Record<Exclude<PortalQuote['status'], 'open'>, { text: string; className: string }> = {
+  accepted: { text: 'Thank you - this quote has been accepted. We will be in touch to confirm your order.', className: 'bg-green-50 border-green-200 text-green-800' },
+  changes_requested: { text: 'Thank you - we have received your change request and will send you a revised quote.', className: 'bg-blue-50 border-blue-200 text-blue-800' },
+  closed: { text: 'This quote is closed. Please contact us if you would like a new quote.', className: 'bg-gray-50 border-gray-200 text-gray-700' },
+  superseded: { text: 'This quote has been replaced by a newer revision.', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  expired: { text: 'This quote has expired. Please contact us for updated pricing.', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+}
+
+export default function QuotePortalPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [quote, setQuote] = useState<PortalQuote | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedOptional, setSelectedOptional] = useState<string[]>([])
+  // Option group -> chosen item id
+  const [selectedAlternatives, setSelectedAlternatives] = useState<Record<string, string>>({})
+  const [customerName, setCustomerName] = useState('')
+  const [requestingChanges, setRequestingChanges] = useState(false)
+  const [message, setMessage] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchQuote()
+  }, [token])
+
+  async function fetchQuote() {
+    try {
+      const response = await fetch(`/api/quote-portal/${token}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setQuote(data.quote)
+      setSelectedOptional(data.quote.decision?.selected_optional_item_ids || [])
+      setSelectedAlternatives(defaultAlternatives(data.quote))
+      setCustomerName(data.quote.customer_name || '')
+    } catch (err: any) {
+      setError(err.message === 'Quote not found' ? 'This quote link is not valid.' : 'We could not load your quote. Please try again later.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function submitDecision(decision: 'accepted' | 'changes_requested') {
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/quote-portal/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          selected_optional_item_ids: selectedOptional,
+          selected_alternative_ids: Object.values(selectedAlternatives),
+          customer_name: customerName,
+          message: decision === 'changes_requested' ? message : undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      setQuote(data.quote)
+      setRequestingChanges(false)
+    } catch (err: any) {
+      alert(err.message.replace(/^Invalid decision: /, ''))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  function toggleOptional(id: string) {
+    setSelectedOptional(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id])
+  }
+
+  // The customer's earlier choice, else the recommended option, else the first
+  function defaultAlternatives(portalQuote: PortalQuote): Record<string, string> {
+    const previous = portalQuote.decision?.selected_alternative_ids || []
+    const rank = (item: PortalLineItem) => previous.includes(item.id) ? 2 : item.recommended ? 1 : 0
+
+    const chosen: Record<string, PortalLineItem> = {}
+    for (const item of portalQuote.items) {
+      if (item.option_group && (!chosen[item.option_group] || rank(item) > rank(chosen[item.option_group]))) {
+        chosen[item.option_group] = item
+      }
+    }
+    return Object.fromEntries(Object.entries(chosen).map(([group, item]) => [group, item.id]))
+  }
+
+  const formatAmount = (amount: number) =>
+    `${quote?.currency || 'ZAR'} ${amount.toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+  if (loading) {
+    return <p className="text-gray-500">Loading your quote...</p>
+  }
+
+  if (error || !quote) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-8 text-center">
+        <p className="text-gray-700">{error || 'Quote not found'}</p>
+      </div>
+    )
+  }
+
+  const requiredItems = quote.items.filter(item => !item.optional && !item.option_group)
+  const optionalItems = quote.items.filter(item => item.optional && !item.option_group)
+  const optionGroups = Array.from(new Set(quote.items.map(item => item.option_group).filter((group): group is string => !!group)))
+  const isOpen = quote.status === 'open'
+  const statusMessage = quote.status !== 'open' ? STATUS_MESSAGES[quote.status] : null
+
+  const takenItems = quote.items.filter(item => item.option_group
+    ? selectedAlternatives[item.option_group] === item.id
+    : !item.optional || selectedOptional.includes(item.id))
+  const bundleDiscounts = (quote.bundles || [])
+    .filter(bundle => bundle.item_ids.every(id => takenItems.some(item => item.id === id)))
+    .map(bundle => ({
+      bundle,
+      amount: Math.round(takenItems
+        .filter(item => bundle.item_ids.includes(item.id))
+        .reduce((sum, item) => sum + item.total_price, 0) * bundle.discount_percentage) / 100
+    }))
+
+  const subtotal = takenItems.reduce((sum, item) => sum + item.total_price, 0) -
+    bundleDiscounts.reduce((sum, discount) => sum + discount.amount, 0)
+  const tax = Math.round(subtotal * VAT_RATE * 100) / 100
+  const total = Math.round((subtotal + tax + quote.shipping) * 100) / 100
+
+  const itemRow = (item: PortalLineItem) => (
+    <tr key={item.id} className="border-t border-gray-100">
+      <td className="py-3 pr-3">
+        <div className="flex items-start gap-3">
+          {item.optional && (
+            <input
+              type="checkbox"
+              checked={selectedOptional.includes(item.id)}
+              onChange={() => toggleOptional(item.id)}
+              disabled={!isOpen}
+              className="mt-1"
+            />
+          )}
+          {item.option_group && (
+            <input
+              type="radio"
+              name={`option-${item.option_group}`}
+              checked={selectedAlternatives[item.option_group] === item.id}
+              onChange={() => setSelectedAlternatives(chosen => ({ ...chosen, [item.option_group!]: item.id }))}
+              disabled={!isOpen}
+              className="mt-1"
+            />
+          )}
+          <div>
+            {(item.tier || item.recommended) && (
+              <p className="text-xs font-semibold uppercase text-blue-600">
+                {item.tier ? TIER_LABELS[item.tier] : ''}{item.tier && item.recommended ? ' · ' : ''}{item.recommended ? 'Recommended' : ''}
+              </p>
+            )}
+            <p className="font-medium">{item.product_name}</p>
+            {item.description && <p className="text-sm text-gray-500">{item.description}</p>}
+            {item.lead_time && <p className="text-xs text-gray-400">Lead time: {item.lead_time}</p>}
+          </div>
+        </div>
+      </td>
+      <td className="py-3 px-3 text-center">{item.quantity}</td>
+      <td className="py-3 px-3 text-right whitespace-nowrap">{formatAmount(item.unit_price)}</td>
+      <td className="py-3 pl-3 text-right whitespace-nowrap">{formatAmount(item.total_price)}</td>
+    </tr>
+  )
+
+  return (
+    <>
+      <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Quote {quote.quote_number}</h1>
+            {quote.version > 1 && <p className="text-sm text-gray-500">Revision {quote.version}</p>}
+            <p className="text-sm text-gray-600 mt-2">
+              Prepared for {quote.customer_name || 'you'}{quote.company_name ? `, ${quote.company_name}` : ''}
+            </p>
+            {quote.valid_until && (
+              <p className="text-sm text-gray-600">Valid until {new Date(quote.valid_until).toLocaleDateString()}</p>
+            )}
+          </div>
+          {quote.pdf_url && (
+            <a
+              href={quote.pdf_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+            >
+              Download PDF
+            </a>
+          )}
+        </div>
+      </div>
+
+      {statusMessage && (
+        <div className={`border rounded-lg p-4 mb-6 ${statusMessage.className}`}>
+          <p>{statusMessage.text}</p>
+          {quote.latest_url && (
+            <a href={quote.latest_url} className="inline-block mt-2 font-medium underline">
+              View the latest revision
+            </a>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pb-2 pr-3 font-medium">Item</th>
+              <th className="pb-2 px-3 font-medium text-center">Qty</th>
+              <th className="pb-2 px-3 font-medium text-right">Unit Price</th>
+              <th className="pb-2 pl-3 font-medium text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>{requiredItems.map(itemRow)}</tbody>
+        </table>
+
+        {optionGroups.map(group => (
+          <div key={group}>
+            <h2 className="text-sm font-semibold text-gray-700 mt-6 mb-1">Options for {group}</h2>
+            <p className="text-xs text-gray-500 mb-2">Choose one.</p>
+            <table className="w-full text-sm">
+              <tbody>{quote.items.filter(item => item.option_group === group).map(itemRow)}</tbody>
+            </table>
+          </div>
+        ))}
+
+        {optionalItems.length > 0 && (
+          <>
+            <h2 className="text-sm font-semibold text-gray-700 mt-6 mb-1">Optional items</h2>
+            <p className="text-xs text-gray-500 mb-2">Select any you would like added to your order.</p>
+            <table className="w-full text-sm">
+              <tbody>{optionalItems.map(itemRow)}</tbody>
+            </table>
+          </>
+        )}
+
+        {quote.bundles?.length > 0 && (
+          <div className="mt-6 space-y-1">
+            <h2 className="text-sm font-semibold text-gray-700">Bundle offers</h2>
+            {quote.bundles.map(bundle => {
+              const applied = bundleDiscounts.some(discount => discount.bundle.id === bundle.id)
+              const names = bundle.item_ids
+                .map(id => quote.items.find(item => item.id === id)?.product_name)
+                .filter(Boolean)
+                .join(' + ')
+              return (
+                <p key={bundle.id} className={`text-sm ${applied ? 'text-green-700' : 'text-gray-500'}`}>
+                  {applied ? '✓ ' : ''}{bundle.name}: {bundle.discount_percentage}% off {names}
+                </p>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="mt-6 ml-auto max-w-xs space-y-1 text-sm">
+          {bundleDiscounts.map(({ bundle, amount }) => (
+            <div key={bundle.id} className="flex justify-between text-green-700"><span>{bundle.name}</span><span>-{formatAmount(amount)}</span></div>
+          ))}
+          <div className="flex justify-between"><span className="text-gray-600">Subtotal</span><span>{formatAmount(subtotal)}</span></div>
+          <div className="flex justify-between"><span className="text-gray-600">VAT (15%)</span><span>{formatAmount(tax)}</span></div>
+          {quote.shipping > 0 && (
+            <div className="flex justify-between"><span className="text-gray-600">Shipping</span><span>{formatAmount(quote.shipping)}</span></div>
+          )}
+          <div className="flex justify-between border-t border-gray-200 pt-2 text-base font-bold">
+            <span>Total</span><span>{formatAmount(total)}</span>
+          </div>
+        </div>
+      </div>
+
+      {(quote.notes || quote.terms) && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6 text-sm text-gray-700 space-y-4">
+          {quote.notes && (
+            <div>
+              <h2 className="font-semibold mb-1">Notes</h2>
+              <p className="whitespace-pre-wrap">{quote.notes}</p>
+            </div>
+          )}
+          {quote.terms && (
+            <div>
+              <h2 className="font-semibold mb-1">Terms & Conditions</h2>
+              <p className="whitespace-pre-wrap">{quote.terms}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+            <input
+              type="text"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          </div>
+
+          {requestingChanges && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">What would you like changed?</label>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={4}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {requestingChanges ? (
+              <>
+                <button
+                  onClick={() => setRequestingChanges(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => submitDecision('changes_requested')}
+                  disabled={submitting || !message.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Send change request
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => submitDecision('accepted')}
+                  disabled={submitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  Accept quote ({formatAmount(total)})
+                </button>
+                <button
+                  onClick={() => setRequestingChanges(true)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50"
+                >
+                  Request changes
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
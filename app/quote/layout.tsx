@@ -0,0 +1,25 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Your Quote | Audico',
+  description: 'Review and accept your quote from Audico Online',
+}
+
+// Customer-facing - none of the dashboard chrome
+export default function QuoteLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-10">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="w-10 h-10 rounded-lg bg-blue-600 flex items-center justify-center text-white font-bold text-xl">A</div>
+          <span className="text-xl font-bold">Audico</span>
+        </div>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { createBrowserClient } from '@supabase/ssr'
 import { formatDistanceToNow } from 'date-fns'
 
@@ -8,7 +9,7 @@ interface UploadRecord {
     id: string
     filename: string
     supplier_name: string
-    status: 'pending' | 'processing' | 'completed' | 'failed'
+    status: 'pending' | 'processing' | 'ready' | 'completed' | 'failed'
     created_at: string
     total_rows: number | null
     processed_rows: number | null
@@ -64,6 +65,7 @@ export default function UploadStatusList() {
         switch (status) {
             case 'completed': return 'bg-green-100 text-green-800'
             case 'processing': return 'bg-blue-100 text-blue-800'
+            case 'ready': return 'bg-yellow-100 text-yellow-800'
             case 'failed': return 'bg-red-100 text-red-800'
             default: return 'bg-gray-100 text-gray-800'
         }
@@ -90,7 +92,11 @@ export default function UploadStatusList() {
                         {uploads.map((upload) => (
                             <tr key={upload.id}>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                                    {upload.filename}
+                                    {upload.status === 'ready' || upload.status === 'completed' ? (
+                                        <Link href={`/products/import/${upload.id}`} className="text-blue-600 hover:underline">
+                                            {upload.filename}
+                                        </Link>
+                                    ) : upload.filename}
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                     {upload.supplier_name}
@@ -112,6 +118,10 @@ export default function UploadStatusList() {
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                     {upload.status === 'completed' ? (
                                         <span className="font-medium text-green-600">{upload.processed_rows} extracted</span>
+                                    ) : upload.status === 'ready' ? (
+                                        <Link href={`/products/import/${upload.id}`} className="font-medium text-blue-600 hover:underline">
+                                            Review {upload.processed_rows ?? 0}
+                                        </Link>
                                     ) : (
                                         '-'
                                     )}
@@ -0,0 +1,34 @@
+import { supabase } from '@/lib/supabase'
+
+/**
+ * Headers for approver-only API calls from the browser. Sends the signed-in
+ * Supabase user's access token; routes resolve it to an approver.
+ */
+export async function approverAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  }
+}
+
+/**
+ * Email a magic sign-in link that returns to the current page
+ */
+export async function sendApproverSignInLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      emailRedirectTo: typeof window !== 'undefined' ? window.location.href : undefined,
+      shouldCreateUser: true
+    }
+  })
+
+  if (error) throw error
+}
+
+export async function signOutApprover(): Promise<void> {
+  await supabase.auth.signOut()
+}
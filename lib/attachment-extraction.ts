@@ -0,0 +1,202 @@
+/**
+ * Attachment Text Extraction
+ *
+ * Reads the text and tables out of email attachments, so a supplier quote or
+ * customer RFQ sent as a file reaches the same extraction as an email body:
+ * - CSV and XLSX are read as tables, one per sheet
+ * - DOCX paragraphs become the text and its Word tables become tables
+ * - PDF is read by the model, which transcribes the text and tables
+ */
+
+import ExcelJS from 'exceljs'
+import JSZip from 'jszip'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
+import { parseCsv } from './price-list-parser'
+
+export type AttachmentFileType = 'pdf' | 'xlsx' | 'csv' | 'docx'
+
+export interface ExtractedTable {
+  /** Sheet name, or "Table N" */
+  name: string
+  rows: string[][]
+}
+
+export interface ExtractedAttachment {
+  text: string
+  tables: ExtractedTable[]
+}
+
+/** Rows kept per table - price lists beyond this go through /products/import */
+const MAX_TABLE_ROWS = 500
+
+const MIME_TYPES: Record<string, AttachmentFileType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+}
+
+const PDF_TEXT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['text', 'tables'],
+  properties: {
+    text: { type: 'string' },
+    tables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['rows'],
+        properties: {
+          name: { type: 'string' },
+          rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * The file type to read, from the extension and then the MIME type (mail
+ * clients often send application/octet-stream). Null when it is not read.
+ */
+export function getAttachmentFileType(filename: string, mimeType?: string | null): AttachmentFileType | null {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'pdf' || extension === 'xlsx' || extension === 'csv' || extension === 'docx') {
+    return extension
+  }
+  return (mimeType && MIME_TYPES[mimeType.toLowerCase()]) || null
+}
+
+function limitRows(rows: string[][]): string[][] {
+  return rows.slice(0, MAX_TABLE_ROWS)
+}
+
+async function extractXlsx(buffer: Buffer): Promise<ExtractedAttachment> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as any)
+
+  const tables: ExtractedTable[] = []
+  for (const sheet of workbook.worksheets) {
+    const rows: string[][] = []
+    sheet.eachRow({ includeEmpty: false }, row => {
+      const cells: string[] = []
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push((row.getCell(col).text || '').trim())
+      }
+      if (cells.some(value => value !== '')) rows.push(cells)
+    })
+    if (rows.length > 0) tables.push({ name: sheet.name, rows: limitRows(rows) })
+  }
+
+  return { text: '', tables }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Text of a WordprocessingML fragment, one line per paragraph
+ */
+function wordText(xml: string): string {
+  const paragraphs = xml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) || []
+  return paragraphs
+    .map(paragraph => {
+      const runs = paragraph
+        .replace(/<w:tab\/>/g, '<w:t>\t</w:t>')
+        .replace(/<w:br\/>/g, '<w:t>\n</w:t>')
+      return decodeXml(Array.from(runs.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g), m => m[1]).join(''))
+    })
+    .join('\n')
+}
+
+async function extractDocx(buffer: Buffer): Promise<ExtractedAttachment> {
+  const zip = await JSZip.loadAsync(buffer)
+  const xml = await zip.file('word/document.xml')?.async('string')
+  if (!xml) throw new Error('Invalid attachment: not a Word document')
+
+  const tables = (xml.match(/<w:tbl>[\s\S]*?<\/w:tbl>/g) || []).map((table, idx) => ({
+    name: `Table ${idx + 1}`,
+    rows: limitRows(
+      (table.match(/<w:tr[\s>][\s\S]*?<\/w:tr>/g) || [])
+        .map(row => (row.match(/<w:tc[\s>][\s\S]*?<\/w:tc>/g) || []).map(cell => wordText(cell).replace(/\s+/g, ' ').trim()))
+        .filter(cells => cells.some(value => value !== ''))
+    )
+  }))
+
+  return {
+    text: wordText(xml.replace(/<w:tbl>[\s\S]*?<\/w:tbl>/g, '')).trim(),
+    tables: tables.filter(table => table.rows.length > 0)
+  }
+}
+
+async function extractPdf(buffer: Buffer, filename: string): Promise<ExtractedAttachment> {
+  const { data } = await completeJson<{ text: string; tables: Array<{ name?: string; rows: string[][] }> }>({
+    agent: 'Email Agent',
+    operation: 'attachment_pdf_extraction',
+    maxTokens: 16000,
+    temperature: 0,
+    documents: [{ mediaType: 'application/pdf', data: buffer.toString('base64') }],
+    prompt: `This PDF (${filename}) was attached to an email. Transcribe it.
+
+- text: the document's text outside tables, in reading order (headings, addresses, terms, notes)
+- tables: every table, as rows of cell text exactly as printed - keep the header row, prices with their currency symbols, codes and quantities. Name a table after its heading when it has one.
+
+Do not summarise or invent anything.
+
+Respond with JSON only: {"text": "...", "tables": [{"name": "...", "rows": [["..."]]}]}`,
+    schema: PDF_TEXT_SCHEMA,
+    cacheTtlSeconds: 7 * 24 * 60 * 60
+  })
+
+  return {
+    text: (data.text || '').trim(),
+    tables: (data.tables || [])
+      .map((table, idx) => ({
+        name: table.name || `Table ${idx + 1}`,
+        rows: limitRows((table.rows || []).map(row => row.map(cell => String(cell ?? '').trim())))
+      }))
+      .filter(table => table.rows.length > 0)
+  }
+}
+
+/**
+ * Read the text and tables of an attachment
+ */
+export async function extractAttachment(
+  buffer: Buffer,
+  fileType: AttachmentFileType,
+  filename: string
+): Promise<ExtractedAttachment> {
+  switch (fileType) {
+    case 'csv':
+      return { text: '', tables: [{ name: filename, rows: limitRows(parseCsv(buffer.toString('utf-8'))) }] }
+    case 'xlsx':
+      return extractXlsx(buffer)
+    case 'docx':
+      return extractDocx(buffer)
+    case 'pdf':
+      return extractPdf(buffer, filename)
+  }
+}
+
+/**
+ * An extracted attachment as prompt text - tables as pipe-separated rows
+ */
+export function formatAttachmentText(filename: string, extracted: ExtractedAttachment, maxChars: number): string {
+  const sections = [
+    extracted.text,
+    ...extracted.tables.map(table => `[${table.name}]\n${table.rows.map(row => row.join(' | ')).join('\n')}`)
+  ].filter(Boolean)
+
+  const text = `ATTACHMENT ${filename}:\n${sections.join('\n\n')}`
+  return text.length > maxChars ? `${text.substring(0, maxChars)}\n[truncated]` : text
+}
@@ -0,0 +1,509 @@
+import { getServerSupabase } from './supabase'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
+
+export type EmailCategory = 'order' | 'support' | 'inquiry' | 'complaint' | 'spam' | 'internal' | 'other'
+export type EmailPriority = 'low' | 'medium' | 'high' | 'urgent'
+export type EmailSentiment = 'positive' | 'neutral' | 'negative' | 'angry'
+
+export const EMAIL_CATEGORIES: EmailCategory[] = ['order', 'support', 'inquiry', 'complaint', 'spam', 'internal', 'other']
+export const EMAIL_PRIORITIES: EmailPriority[] = ['low', 'medium', 'high', 'urgent']
+
+export interface EmailEntities {
+  order_numbers: string[]
+  skus: string[]
+  quote_numbers: string[]
+}
+
+export interface EmailClassification {
+  category: EmailCategory
+  priority: EmailPriority
+  sub_intent: string | null
+  sentiment: EmailSentiment
+  language: string
+  entities: EmailEntities
+  confidence: number
+  reason: string
+  /**
+   * 'rules' when the keyword rules decided (sender rules, LLM unsure or unavailable),
+   * 'label' when a Gmail label routed the email
+   */
+  method: 'llm' | 'rules' | 'label'
+}
+
+/**
+ * A Gmail label that decides the category, set per mailbox (gmail_mailboxes.label_routes)
+ */
+export interface LabelRoute {
+  label: string
+  category: EmailCategory
+  priority?: EmailPriority
+}
+
+interface EmailInput {
+  from_email: string
+  subject: string
+  body: string
+}
+
+interface LlmClassification {
+  category: EmailCategory
+  sub_intent?: string
+  priority: EmailPriority
+  sentiment?: EmailSentiment
+  language?: string
+  entities?: Partial<EmailEntities>
+  confidence: number
+  reason?: string
+}
+
+const CLASSIFICATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['category', 'priority', 'confidence'],
+  properties: {
+    category: { type: 'string', enum: EMAIL_CATEGORIES },
+    sub_intent: { type: 'string' },
+    priority: { type: 'string', enum: EMAIL_PRIORITIES },
+    sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative', 'angry'] },
+    language: { type: 'string' },
+    entities: {
+      type: 'object',
+      properties: {
+        order_numbers: { type: 'array', items: { type: 'string' } },
+        skus: { type: 'array', items: { type: 'string' } },
+        quote_numbers: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reason: { type: 'string' }
+  }
+}
+
+// Below this the keyword rules decide the category
+const MIN_CONFIDENCE = parseFloat(process.env.EMAIL_CLASSIFIER_MIN_CONFIDENCE || '0.6')
+const CLASSIFICATION_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+const MAX_FEW_SHOT_EXAMPLES = 8
+
+// Internal/known domains - never auto-respond to these
+const INTERNAL_DOMAINS = [
+  'audico.co.za',
+  'audicoonline.co.za',
+]
+
+// Known business partners / vendors / service providers - never auto-respond
+// These are companies we work with internally (call centers, suppliers, etc.)
+const KNOWN_PARTNERS = [
+  'thetha',        // Thetha - our call center
+  'noreply',       // Automated system emails
+  'no-reply',
+  'mailer-daemon',
+  'postmaster',
+]
+
+const ORDER_NUMBER_PATTERN = /\b(?:order|ord|invoice|inv)\s*(?:no\.?|number|#)?\s*[:#]?\s*([A-Z]{0,4}-?\d{4,})\b/gi
+const QUOTE_NUMBER_PATTERN = /\bAUD-Q-\d{8}-\d{4}\b/gi
+const SKU_PATTERN = /\b(?:sku|model|part)\s*(?:no\.?|number|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/gi
+
+/**
+ * Pull order numbers, SKUs and quote numbers out of the text with regexes
+ */
+export function extractEntities(text: string): EmailEntities {
+  const unique = (values: string[]) => Array.from(new Set(values.map(v => v.toUpperCase())))
+
+  return {
+    order_numbers: unique(Array.from(text.matchAll(ORDER_NUMBER_PATTERN), m => m[1])),
+    skus: unique(Array.from(text.matchAll(SKU_PATTERN), m => m[1])),
+    quote_numbers: unique(Array.from(text.matchAll(QUOTE_NUMBER_PATTERN), m => m[0])),
+  }
+}
+
+/**
+ * Sender rules: our own domains, partners and senders Kenny keeps rejecting.
+ * These are certain, so the LLM is never asked.
+ */
+function classifyBySender(from: string, blockedSenders: string[]): EmailCategory | null {
+  const lowerFrom = from.toLowerCase()
+
+  if (INTERNAL_DOMAINS.some(domain => lowerFrom.includes(domain))) return 'internal'
+  if (KNOWN_PARTNERS.some(partner => lowerFrom.includes(partner))) return 'internal'
+  if (blockedSenders.some(blocked => lowerFrom.includes(blocked))) return 'internal'
+
+  return null
+}
+
+/**
+ * Keyword rules - the original classifier, kept as the fallback
+ */
+export function classifyWithRules(from: string, subject: string, body: string, blockedSenders: string[] = []): {
+  category: EmailCategory
+  priority: EmailPriority
+} {
+  const combined = subject.toLowerCase() + ' ' + body.toLowerCase()
+
+  // 1. Internal emails, partners and the learned blocklist (never auto-respond)
+  if (classifyBySender(from, blockedSenders)) {
+    return { category: 'internal', priority: 'low' }
+  }
+
+  // 2. Spam / marketing noise
+  if (
+    combined.includes('unsubscribe') ||
+    combined.includes('spam') ||
+    combined.includes('promotional') ||
+    combined.includes('opt out') ||
+    combined.includes('marketing email')
+  ) {
+    return { category: 'spam', priority: 'low' }
+  }
+
+  let category: EmailCategory = 'other'
+  let priority: EmailPriority = 'medium'
+
+  // 3. Complaints / disgruntled customers (URGENT - always draft response)
+  if (
+    combined.includes('complaint') ||
+    combined.includes('unhappy') ||
+    combined.includes('disappointed') ||
+    combined.includes('disgusted') ||
+    combined.includes('terrible') ||
+    combined.includes('worst') ||
+    combined.includes('refund') ||
+    combined.includes('broken') ||
+    combined.includes('damaged') ||
+    combined.includes('not working') ||
+    combined.includes('never received') ||
+    combined.includes('wrong item') ||
+    combined.includes('faulty')
+  ) {
+    category = 'complaint'
+    priority = 'urgent'
+  }
+  // 4. Tech support / product help (AI can assist well)
+  else if (
+    combined.includes('how do i') ||
+    combined.includes('how to') ||
+    combined.includes('setup') ||
+    combined.includes('set up') ||
+    combined.includes('install') ||
+    combined.includes('connect') ||
+    combined.includes('pair') ||
+    combined.includes('bluetooth') ||
+    combined.includes('wifi') ||
+    combined.includes('firmware') ||
+    combined.includes('not connecting') ||
+    combined.includes('troubleshoot') ||
+    combined.includes('manual') ||
+    combined.includes('specs') ||
+    combined.includes('specification') ||
+    combined.includes('compatible') ||
+    combined.includes('help') ||
+    combined.includes('support') ||
+    combined.includes('issue') ||
+    combined.includes('problem')
+  ) {
+    category = 'support'
+    priority = 'high'
+  }
+  // 5. Product inquiries / pricing (AI can auto-assist)
+  else if (
+    combined.includes('price') ||
+    combined.includes('cost') ||
+    combined.includes('stock') ||
+    combined.includes('available') ||
+    combined.includes('availability') ||
+    combined.includes('do you have') ||
+    combined.includes('looking for') ||
+    combined.includes('interested in') ||
+    combined.includes('catalogue') ||
+    combined.includes('catalog') ||
+    combined.includes('quote') ||
+    combined.includes('question') ||
+    combined.includes('inquiry') ||
+    combined.includes('wondering')
+  ) {
+    category = 'inquiry'
+    priority = 'medium'
+  }
+  // 6. Orders / invoices / supplier stuff - just log, your team handles these
+  else if (
+    combined.includes('order') ||
+    combined.includes('purchase') ||
+    combined.includes('invoice') ||
+    combined.includes('receipt') ||
+    combined.includes('statement') ||
+    combined.includes('payment received') ||
+    combined.includes('proof of payment') ||
+    combined.includes('remittance') ||
+    combined.includes('credit note')
+  ) {
+    category = 'order'
+    priority = 'low'
+  }
+
+  // Urgency override
+  if (combined.includes('urgent') || combined.includes('asap') || combined.includes('immediately')) {
+    priority = 'urgent'
+  }
+
+  return { category, priority }
+}
+
+/**
+ * Classify an email: label routes and sender rules first, then the LLM, falling back to the
+ * keyword rules when the LLM is unsure or unavailable
+ */
+export async function classifyEmail(
+  email: EmailInput,
+  options: { blockedSenders?: string[]; labelRoute?: LabelRoute | null } = {}
+): Promise<EmailClassification> {
+  const blockedSenders = options.blockedSenders || []
+  const entities = extractEntities(`${email.subject}\n${email.body}`)
+
+  // The team filed it under a routed label - that is certain too
+  if (options.labelRoute) {
+    return {
+      category: options.labelRoute.category,
+      priority: options.labelRoute.priority || 'medium',
+      sub_intent: null,
+      sentiment: 'neutral',
+      language: 'en',
+      entities,
+      confidence: 1,
+      reason: `Gmail label "${options.labelRoute.label}"`,
+      method: 'label',
+    }
+  }
+
+  if (classifyBySender(email.from_email, blockedSenders)) {
+    return {
+      category: 'internal',
+      priority: 'low',
+      sub_intent: null,
+      sentiment: 'neutral',
+      language: 'en',
+      entities,
+      confidence: 1,
+      reason: 'Internal, partner or blocked sender',
+      method: 'rules',
+    }
+  }
+
+  const rules = classifyWithRules(email.from_email, email.subject, email.body, blockedSenders)
+
+  let llm: LlmClassification
+  try {
+    llm = await classifyWithLlm(email)
+  } catch (error: any) {
+    console.error('LLM email classification failed, using keyword rules:', error.message)
+    return {
+      ...rules,
+      sub_intent: null,
+      sentiment: 'neutral',
+      language: 'en',
+      entities,
+      confidence: 0,
+      reason: `Keyword rules (LLM unavailable: ${error.message})`,
+      method: 'rules',
+    }
+  }
+
+  const merged: EmailEntities = {
+    order_numbers: mergeUnique(llm.entities?.order_numbers, entities.order_numbers),
+    skus: mergeUnique(llm.entities?.skus, entities.skus),
+    quote_numbers: mergeUnique(llm.entities?.quote_numbers, entities.quote_numbers),
+  }
+
+  const details = {
+    sub_intent: llm.sub_intent || null,
+    sentiment: llm.sentiment || 'neutral',
+    language: llm.language || 'en',
+    entities: merged,
+    confidence: llm.confidence,
+  }
+
+  if (llm.confidence < MIN_CONFIDENCE) {
+    return {
+      ...rules,
+      ...details,
+      reason: `Keyword rules (LLM ${Math.round(llm.confidence * 100)}% sure of '${llm.category}')`,
+      method: 'rules',
+    }
+  }
+
+  return {
+    category: llm.category,
+    priority: llm.priority,
+    ...details,
+    reason: llm.reason || `LLM: ${llm.category}`,
+    method: 'llm',
+  }
+}
+
+function mergeUnique(primary: string[] = [], secondary: string[] = []): string[] {
+  return Array.from(new Set([...primary, ...secondary].map(v => v.trim().toUpperCase()).filter(Boolean)))
+}
+
+async function classifyWithLlm(email: EmailInput): Promise<LlmClassification> {
+  const examples = await loadFewShotExamples()
+
+  const examplesBlock = examples.length > 0
+    ? `\nExamples corrected by the team (follow these):\n${examples.map(ex =>
+        `- FROM: ${ex.from_email} | SUBJECT: ${ex.subject} | BODY: ${ex.body_excerpt.substring(0, 300)}\n  => category: ${ex.category}${ex.sub_intent ? `, sub_intent: ${ex.sub_intent}` : ''}, priority: ${ex.priority}`
+      ).join('\n')}\n`
+    : ''
+
+  const prompt = `Classify this email received by Audico, a South African audio-visual retailer.
+
+FROM: ${email.from_email}
+SUBJECT: ${email.subject}
+BODY: ${email.body.substring(0, 4000)}
+
+Categories:
+- complaint: unhappy customer - late/missing delivery, damaged or wrong item, refund demand, bad service. An angry email about an order is a complaint, not an order.
+- support: help using a product - setup, pairing, firmware, compatibility, troubleshooting
+- inquiry: pre-sales questions - pricing, stock, availability, quote requests, product recommendations
+- order: order admin with no problem - confirmations, invoices, proof of payment, remittances, supplier order updates
+- spam: marketing, newsletters, cold sales pitches
+- internal: staff, our own systems, call center and service-provider notifications
+- other: anything else
+${examplesBlock}
+Return JSON:
+{
+  "category": one of the categories above,
+  "sub_intent": short snake_case intent, e.g. "order_status", "delivery_delay", "return_request", "quote_request", "stock_check", "setup_help", "proof_of_payment",
+  "priority": "low" | "medium" | "high" | "urgent",
+  "sentiment": "positive" | "neutral" | "negative" | "angry",
+  "language": ISO 639-1 code, e.g. "en", "af", "zu",
+  "entities": {
+    "order_numbers": ["order or invoice numbers mentioned"],
+    "skus": ["product SKUs or model numbers mentioned"],
+    "quote_numbers": ["our quote numbers, e.g. AUD-Q-20250101-1234"]
+  },
+  "confidence": 0.0 to 1.0,
+  "reason": "one sentence explaining the category"
+}
+
+Priority guide: complaints and anything time-critical are urgent or high; routine admin is low.`
+
+  const { data } = await completeJson<LlmClassification>({
+    agent: 'Email Agent',
+    operation: 'email_classification',
+    maxTokens: 600,
+    prompt,
+    schema: CLASSIFICATION_SCHEMA,
+    cacheTtlSeconds: CLASSIFICATION_CACHE_TTL_SECONDS,
+  })
+
+  return data
+}
+
+/**
+ * Most recent corrections, at most two per category so one busy category
+ * doesn't crowd out the others
+ */
+async function loadFewShotExamples(): Promise<Array<{
+  from_email: string
+  subject: string
+  body_excerpt: string
+  category: EmailCategory
+  sub_intent: string | null
+  priority: EmailPriority
+}>> {
+  const supabase = getServerSupabase()
+
+  const { data, error } = await supabase
+    .from('email_classification_examples')
+    .select('from_email, subject, body_excerpt, category, sub_intent, priority')
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  if (error || !data) {
+    if (error) console.error('Failed to load classification examples:', error.message)
+    return []
+  }
+
+  const perCategory: Record<string, number> = {}
+  return data.filter(example => {
+    perCategory[example.category] = (perCategory[example.category] || 0) + 1
+    return perCategory[example.category] <= 2
+  }).slice(0, MAX_FEW_SHOT_EXAMPLES)
+}
+
+/**
+ * Apply a manual re-categorisation: update the email and keep it as a
+ * few-shot example for future classifications
+ */
+export async function recordClassificationFeedback(feedback: {
+  emailId: string
+  category: EmailCategory
+  priority?: EmailPriority
+  subIntent?: string | null
+  correctedBy: string
+}): Promise<void> {
+  if (!EMAIL_CATEGORIES.includes(feedback.category)) {
+    throw new Error(`Invalid category: ${feedback.category}`)
+  }
+  if (feedback.priority && !EMAIL_PRIORITIES.includes(feedback.priority)) {
+    throw new Error(`Invalid priority: ${feedback.priority}`)
+  }
+
+  const supabase = getServerSupabase()
+
+  const { data: email, error } = await supabase
+    .from('email_logs')
+    .select('id, from_email, subject, category, priority, payload')
+    .eq('id', feedback.emailId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch email: ${error.message}`)
+  }
+  if (!email) {
+    throw new Error('Email not found')
+  }
+
+  const priority = feedback.priority || email.priority || 'medium'
+  const subIntent = feedback.subIntent !== undefined ? feedback.subIntent : email.payload?.sub_intent || null
+
+  const { error: exampleError } = await supabase
+    .from('email_classification_examples')
+    .upsert({
+      email_id: email.id,
+      from_email: email.from_email,
+      subject: email.subject,
+      body_excerpt: (email.payload?.body || '').substring(0, 1000),
+      original_category: email.payload?.corrected_from || email.category,
+      original_confidence: email.payload?.classification_confidence ?? null,
+      category: feedback.category,
+      sub_intent: subIntent,
+      priority,
+      corrected_by: feedback.correctedBy,
+      created_at: new Date().toISOString(),
+    }, { onConflict: 'email_id' })
+
+  if (exampleError) {
+    throw new Error(`Failed to store classification example: ${exampleError.message}`)
+  }
+
+  const { error: updateError } = await supabase
+    .from('email_logs')
+    .update({
+      category: feedback.category,
+      priority,
+      payload: {
+        ...email.payload,
+        priority,
+        sub_intent: subIntent,
+        classification_confidence: 1,
+        classification_method: 'manual',
+        classification_reason: `Re-categorised by ${feedback.correctedBy}`,
+        corrected_from: email.payload?.corrected_from || email.category,
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', email.id)
+
+  if (updateError) {
+    throw new Error(`Failed to update email: ${updateError.message}`)
+  }
+}
@@ -1,6 +1,8 @@
 import { getServerSupabase } from './supabase'
-import { gmailService } from '@/services/integrations/gmail-service'
-import { chatCompletion } from './openai-client'
+import { gmailService, type GmailService } from '@/services/integrations/gmail-service'
+import { getMailbox, getMailboxClient, collectMessageIds } from '@/services/gmail-sync'
+import { completeJson } from './llm-gateway'
+import { normalizeCompanyName, getEmailDomain, scoreSupplierMatch } from './supplier-matching'
 
 interface SupplierData {
   company: string
@@ -44,6 +46,8 @@ interface ExtractedEmailData {
 
 interface ScannerState {
   job_id: string
+  /** Mailbox scanned; the default Gmail account when absent */
+  mailbox_id?: string
   start_date: string
   end_date: string
   total_messages: number
@@ -75,11 +79,12 @@ export class EmailIntelligenceScanner {
    * Phase 1: Collect all Gmail message IDs in the date range and store them.
    * Returns the job state with total_messages count.
    */
-  async startScan(startDate: Date, endDate: Date): Promise<ScannerState> {
+  async startScan(startDate: Date, endDate: Date, mailboxId?: string): Promise<ScannerState> {
     const jobId = `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
     const state: ScannerState = {
       job_id: jobId,
+      ...(mailboxId && { mailbox_id: mailboxId }),
       start_date: startDate.toISOString(),
       end_date: endDate.toISOString(),
       total_messages: 0,
@@ -97,11 +102,9 @@ export class EmailIntelligenceScanner {
     await this.saveState(state)
 
     try {
-      const startStr = `${startDate.getFullYear()}/${String(startDate.getMonth() + 1).padStart(2, '0')}/${String(startDate.getDate()).padStart(2, '0')}`
-      const endStr = `${endDate.getFullYear()}/${String(endDate.getMonth() + 1).padStart(2, '0')}/${String(endDate.getDate()).padStart(2, '0')}`
-      const query = `after:${startStr} before:${endStr}`
-
-      const messageIds = await gmailService.collectAllMessageIds(query)
+      // Same listing as the Gmail sync backfill (services/gmail-sync.ts)
+      const gmail = await this.getGmail(state)
+      const messageIds = await collectMessageIds(gmail, startDate, endDate)
 
       state.total_messages = messageIds.length
       state.status = 'processing'
@@ -174,10 +177,11 @@ export class EmailIntelligenceScanner {
     }
 
     const batchResults: any[] = []
+    const gmail = await this.getGmail(state)
 
     for (const gmailId of batchIds) {
       try {
-        const message = await gmailService.getMessage(gmailId)
+        const message = await gmail.getMessage(gmailId)
 
         // Skip very short or empty emails
         if (!message.body || message.body.length < 20) {
@@ -190,7 +194,7 @@ export class EmailIntelligenceScanner {
 
         if (extracted.is_supplier_communication && extracted.confidence_score >= 0.6 && extracted.supplier) {
           // Ensure an email_logs row exists for the FK
-          const emailLogId = await this.ensureEmailLogExists(gmailId, message)
+          const emailLogId = await this.ensureEmailLogExists(gmailId, message, state)
 
           const supplier = await this.findOrCreateSupplier(extracted.supplier, state)
 
@@ -299,30 +303,40 @@ Look for:
 If this is NOT a supplier communication, return is_supplier_communication: false and confidence_score: 0.
 Focus on B2B supplier relationships, not customer emails.`
 
-    const result = await chatCompletion(
-      [{ role: 'user', content: prompt }],
-      { maxTokens: 2000 }
-    )
+    const result = await completeJson({
+      agent: 'Email Agent',
+      operation: 'supplier_intelligence_scan',
+      model: 'gpt-4.1-mini',
+      maxTokens: 2000,
+      prompt,
+      schema: {
+        type: 'object',
+        required: ['is_supplier_communication', 'confidence_score'],
+        properties: {
+          is_supplier_communication: { type: 'boolean' },
+          confidence_score: { type: 'number', minimum: 0, maximum: 1 }
+        }
+      }
+    })
 
     // Track token usage and cost directly in state
-    const cost = (result.usage.prompt_tokens * GPT_INPUT_COST) +
-                 (result.usage.completion_tokens * GPT_OUTPUT_COST)
-    state.tokens_used += result.usage.total_tokens
+    const cost = (result.usage.inputTokens * GPT_INPUT_COST) +
+                 (result.usage.outputTokens * GPT_OUTPUT_COST)
+    state.tokens_used += result.usage.inputTokens + result.usage.outputTokens
     state.estimated_cost_usd += cost
 
-    // Extract JSON from response (model may wrap in markdown code blocks)
-    let jsonStr = result.content.trim()
-    const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim()
-    }
-    const parsed = JSON.parse(jsonStr)
-    return parsed
+    return result.data
+  }
+
+  private async getGmail(state: ScannerState): Promise<GmailService> {
+    if (!state.mailbox_id) return gmailService
+    return getMailboxClient(await getMailbox(state.mailbox_id))
   }
 
   private async ensureEmailLogExists(
     gmailId: string,
-    message: { from: string; to: string; subject: string; date: string; body: string; snippet: string }
+    message: { from: string; to: string; subject: string; date: string; body: string; snippet: string },
+    state: ScannerState
   ): Promise<string | null> {
     // Check if already exists
     const { data: existing } = await this.supabase
@@ -338,6 +352,7 @@ Focus on B2B supplier relationships, not customer emails.`
       .from('email_logs')
       .insert({
         gmail_message_id: gmailId,
+        mailbox_id: state.mailbox_id || null,
         from_email: message.from,
         to_email: message.to || null,
         subject: message.subject,
@@ -359,12 +374,14 @@ Focus on B2B supplier relationships, not customer emails.`
 
   private async findOrCreateSupplier(supplierData: SupplierData, state: ScannerState): Promise<any> {
     const normalizedEmail = supplierData.email.toLowerCase().trim()
-    const normalizedCompany = this.normalizeCompanyName(supplierData.company)
+    const normalizedCompany = normalizeCompanyName(supplierData.company)
+    const domain = getEmailDomain(normalizedEmail)
 
     const { data: existingSuppliers } = await this.supabase
       .from('suppliers')
       .select('*')
-      .or(`email.eq.${normalizedEmail},company.ilike.%${normalizedCompany}%`)
+      .is('merged_into_id', null)
+      .or(`email.eq.${normalizedEmail},company.ilike.%${normalizedCompany}%${domain ? `,email.ilike.%@${domain}` : ''}`)
 
     if (existingSuppliers && existingSuppliers.length > 0) {
       const bestMatch = this.findBestSupplierMatch(existingSuppliers, supplierData)
@@ -418,35 +435,20 @@ Focus on B2B supplier relationships, not customer emails.`
     return newSupplier
   }
 
-  private normalizeCompanyName(company: string): string {
-    return company
-      .toLowerCase()
-      .replace(/\b(pty|ltd|limited|inc|corp|corporation|llc)\b/gi, '')
-      .replace(/[^\w\s]/g, '')
-      .trim()
-  }
-
   private findBestSupplierMatch(suppliers: any[], supplierData: SupplierData): any {
     const normalizedEmail = supplierData.email.toLowerCase()
     const exactEmailMatch = suppliers.find((s) => s.email?.toLowerCase() === normalizedEmail)
     if (exactEmailMatch) return exactEmailMatch
 
-    const normalizedCompany = this.normalizeCompanyName(supplierData.company)
-    const companyMatches = suppliers
+    // Same company email domain, phone and name similarity (lib/supplier-matching)
+    const matches = suppliers
       .map((s) => ({
         supplier: s,
-        score: this.calculateSimilarity(this.normalizeCompanyName(s.company || ''), normalizedCompany),
+        score: scoreSupplierMatch(s, supplierData).score,
       }))
       .sort((a, b) => b.score - a.score)
 
-    return companyMatches[0]?.supplier || suppliers[0]
-  }
-
-  private calculateSimilarity(str1: string, str2: string): number {
-    const words1 = str1.split(/\s+/)
-    const words2 = str2.split(/\s+/)
-    const commonWords = words1.filter((w) => words2.includes(w))
-    return commonWords.length / Math.max(words1.length, words2.length)
+    return matches[0]?.supplier || suppliers[0]
   }
 
   private mergeSpecialties(existing: string[] = [], newSpecialties: string[] = []): string[] {
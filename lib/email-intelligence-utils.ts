@@ -273,7 +273,8 @@ export async function markJobAsPaused(jobId: string): Promise<void> {
 }
 
 /**
- * Find duplicate suppliers that should be merged
+ * Find duplicate suppliers that should be merged (exact email or company).
+ * Scored candidates and merging are in services/supplier-dedupe.ts.
  */
 export async function findDuplicateSuppliers(): Promise<{
   email_duplicates: any[]
@@ -284,6 +285,7 @@ export async function findDuplicateSuppliers(): Promise<{
   const { data: suppliers } = await supabase
     .from('suppliers')
     .select('*')
+    .is('merged_into_id', null)
     .order('created_at', { ascending: true })
 
   const emailMap = new Map<string, any[]>()
@@ -0,0 +1,106 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Supports the subset of JSON Schema we use to describe task metadata and
+ * structured LLM output: type, properties, required, items, enum, numeric and
+ * length bounds, additionalProperties. Returns a list of human-readable errors.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: JsonSchema
+  enum?: Array<string | number | boolean | null>
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  minItems?: number
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonSchemaType
+}
+
+function matchesType(value: unknown, expected: JsonSchemaType): boolean {
+  const actual = typeOf(value)
+  if (expected === 'number') return actual === 'number' || actual === 'integer'
+  return actual === expected
+}
+
+/**
+ * Validate a value against a schema. An empty array means the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = []
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!expected.some(t => matchesType(value, t))) {
+      errors.push(`${path} should be ${expected.join(' | ')}, got ${typeOf(value)}`)
+      return errors
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} should be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} should be >= ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} should be <= ${schema.maximum}`)
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path} should have at least ${schema.minLength} characters`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`)
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`))
+      })
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(`${path}.${key} is required`)
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`))
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      const allowed = new Set(Object.keys(schema.properties || {}))
+      for (const key of Object.keys(record)) {
+        if (!allowed.has(key)) {
+          errors.push(`${path}.${key} is not allowed`)
+        }
+      }
+    }
+  }
+
+  return errors
+}
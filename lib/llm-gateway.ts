@@ -0,0 +1,527 @@
+/**
+ * LLM Gateway
+ *
+ * The one place the app talks to Claude and OpenAI. Every call goes through
+ * complete() / completeJson(), which handle:
+ * - provider selection from the model name
+ * - retry with exponential backoff on overload, rate limits and network errors
+ * - optional response caching keyed on the full request (llm_response_cache)
+ * - JSON extraction and JSON-schema validation, with one repair attempt
+ * - PDF documents attached to the first user message (Anthropic only)
+ * - usage and cost accounting (services/llm-usage.ts)
+ * - record/replay fixtures so pipelines can run offline:
+ *     LLM_FIXTURE_MODE=record  call the provider and save each response
+ *     LLM_FIXTURE_MODE=replay  answer from saved responses, never call out
+ *   Fixtures live in LLM_FIXTURE_DIR (default fixtures/llm), one file per
+ *   request under the operation name.
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { getServerSupabase } from './supabase'
+import { validateJsonSchema, type JsonSchema } from './json-schema'
+import { recordUsage } from '@/services/llm-usage'
+import type { LlmProvider } from '@/types/squad'
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
+
+export const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  anthropic: 'claude-sonnet-4-5-20250929',
+  openai: 'gpt-4.1-mini'
+}
+
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '3', 10)
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 30000
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504, 529]
+
+const FIXTURE_MODE = process.env.LLM_FIXTURE_MODE as 'record' | 'replay' | undefined
+const FIXTURE_DIR = process.env.LLM_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'llm')
+
+export interface LlmMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LlmDocument {
+  mediaType: 'application/pdf'
+  /** Base64-encoded file */
+  data: string
+}
+
+export interface LlmRequest {
+  /** Agent the call is billed to, and the call site (used for fixtures and cost reports) */
+  agent: string
+  operation: string
+  model?: string
+  provider?: LlmProvider
+  system?: string
+  /** Shorthand for a single user message */
+  prompt?: string
+  messages?: LlmMessage[]
+  maxTokens?: number
+  temperature?: number
+  /** OpenAI response_format json_object */
+  jsonMode?: boolean
+  /** Reuse an identical earlier response for this long */
+  cacheTtlSeconds?: number
+  /** Files the model reads along with the first user message */
+  documents?: LlmDocument[]
+}
+
+export interface LlmResult {
+  text: string
+  provider: LlmProvider
+  model: string
+  usage: { inputTokens: number; outputTokens: number }
+  cached: boolean
+  replayed: boolean
+}
+
+export interface LlmJsonResult<T> extends LlmResult {
+  data: T
+}
+
+interface NormalizedRequest {
+  provider: LlmProvider
+  model: string
+  system?: string
+  messages: LlmMessage[]
+  maxTokens: number
+  temperature?: number
+  jsonMode: boolean
+  documents: LlmDocument[]
+}
+
+let anthropicClient: Anthropic | null = null
+
+function getAnthropic(): Anthropic {
+  if (!anthropicClient) {
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is required')
+    }
+    // Retries are handled here so every provider backs off the same way
+    anthropicClient = new Anthropic({ apiKey, maxRetries: 0 })
+  }
+  return anthropicClient
+}
+
+export function resolveProvider(model?: string, provider?: LlmProvider): LlmProvider {
+  if (provider) return provider
+  if (model && /^(gpt-|o\d)/.test(model)) return 'openai'
+  return 'anthropic'
+}
+
+function normalizeRequest(request: LlmRequest): NormalizedRequest {
+  const provider = resolveProvider(request.model, request.provider)
+  const messages = request.messages || (request.prompt !== undefined ? [{ role: 'user' as const, content: request.prompt }] : [])
+
+  if (messages.length === 0) {
+    throw new Error(`LLM request ${request.operation} has no prompt or messages`)
+  }
+
+  const documents = request.documents || []
+  if (documents.length > 0 && provider !== 'anthropic') {
+    throw new Error(`LLM request ${request.operation} has documents - only Anthropic models read them`)
+  }
+
+  return {
+    provider,
+    model: request.model || DEFAULT_MODELS[provider],
+    system: request.system,
+    messages,
+    maxTokens: request.maxTokens || 2000,
+    temperature: request.temperature,
+    jsonMode: request.jsonMode || false,
+    documents
+  }
+}
+
+function getDocumentDigests(request: NormalizedRequest): string[] {
+  return request.documents.map(document => createHash('sha256').update(document.data).digest('hex'))
+}
+
+/**
+ * Stable key for a request - identical inputs give identical keys
+ */
+export function getRequestKey(request: NormalizedRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      request.provider,
+      request.model,
+      request.system || null,
+      request.messages,
+      request.maxTokens,
+      request.temperature ?? null,
+      request.jsonMode,
+      // Only requests with documents carry this, so existing keys are unchanged
+      ...(request.documents.length > 0 ? [getDocumentDigests(request)] : [])
+    ]))
+    .digest('hex')
+}
+
+// ============================================
+// Providers
+// ============================================
+
+type ProviderResponse = Pick<LlmResult, 'text' | 'model' | 'usage'>
+
+async function callAnthropic(request: NormalizedRequest): Promise<ProviderResponse> {
+  if (request.documents.length > 0) {
+    return callAnthropicWithDocuments(request)
+  }
+
+  const message = await getAnthropic().messages.create({
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages: request.messages,
+    ...(request.system ? { system: request.system } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {})
+  })
+
+  return {
+    text: message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join(''),
+    model: message.model,
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens
+    }
+  }
+}
+
+/**
+ * PDF input is only on the beta messages API in this SDK version
+ */
+async function callAnthropicWithDocuments(request: NormalizedRequest): Promise<ProviderResponse> {
+  const firstUser = request.messages.findIndex(message => message.role === 'user')
+  const messages = request.messages.map((message, idx) => idx !== firstUser ? message : {
+    role: message.role,
+    content: [
+      ...request.documents.map(document => ({
+        type: 'document' as const,
+        source: { type: 'base64' as const, media_type: document.mediaType, data: document.data }
+      })),
+      { type: 'text' as const, text: message.content }
+    ]
+  })
+
+  const message = await getAnthropic().beta.messages.create({
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages,
+    betas: ['pdfs-2024-09-25'],
+    ...(request.system ? { system: request.system } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {})
+  })
+
+  return {
+    text: message.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join(''),
+    model: message.model,
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens
+    }
+  }
+}
+
+async function callOpenAI(request: NormalizedRequest): Promise<ProviderResponse> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is required')
+  }
+
+  const body: Record<string, any> = {
+    model: request.model,
+    messages: request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages,
+    max_tokens: request.maxTokens
+  }
+  if (request.temperature !== undefined) body.temperature = request.temperature
+  if (request.jsonMode) body.response_format = { type: 'json_object' }
+
+  const response = await fetch(OPENAI_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw Object.assign(new Error(`OpenAI API error ${response.status}: ${errorText}`), {
+      status: response.status,
+      headers: { 'retry-after': response.headers.get('retry-after') }
+    })
+  }
+
+  const data = await response.json()
+
+  return {
+    text: data.choices?.[0]?.message?.content || '',
+    model: data.model || request.model,
+    usage: {
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0
+    }
+  }
+}
+
+// ============================================
+// Retry with backoff
+// ============================================
+
+function isRetryable(error: any): boolean {
+  if (typeof error?.status === 'number') {
+    return RETRYABLE_STATUSES.includes(error.status)
+  }
+  // Network failures and timeouts carry no status
+  return error instanceof Anthropic.APIConnectionError || error?.name === 'TypeError' || error?.code === 'ECONNRESET'
+}
+
+function getRetryDelay(error: any, attempt: number): number {
+  const retryAfter = parseFloat(error?.headers?.['retry-after'] ?? '')
+  if (!isNaN(retryAfter)) {
+    return Math.min(retryAfter * 1000, MAX_DELAY_MS)
+  }
+
+  const backoff = BASE_DELAY_MS * Math.pow(2, attempt)
+  return Math.min(backoff + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS)
+}
+
+async function callWithRetry(request: NormalizedRequest, operation: string): Promise<ProviderResponse> {
+  const call = request.provider === 'openai' ? callOpenAI : callAnthropic
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call(request)
+    } catch (error: any) {
+      if (attempt >= MAX_RETRIES || !isRetryable(error)) {
+        throw error
+      }
+
+      const delay = getRetryDelay(error, attempt)
+      console.warn(
+        `[LLM GATEWAY] ${operation} failed (${error.status || error.message}), retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`
+      )
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
+
+// ============================================
+// Response cache
+// ============================================
+
+async function readCache(key: string): Promise<ProviderResponse | null> {
+  const supabase = getServerSupabase()
+  const { data, error } = await supabase
+    .from('llm_response_cache')
+    .select('response, hit_count')
+    .eq('cache_key', key)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error || !data) return null
+
+  await supabase
+    .from('llm_response_cache')
+    .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+    .eq('cache_key', key)
+
+  return data.response as ProviderResponse
+}
+
+async function writeCache(
+  key: string,
+  request: NormalizedRequest,
+  operation: string,
+  response: ProviderResponse,
+  ttlSeconds: number
+): Promise<void> {
+  const { error } = await getServerSupabase()
+    .from('llm_response_cache')
+    .upsert({
+      cache_key: key,
+      operation,
+      provider: request.provider,
+      model: request.model,
+      response,
+      hit_count: 0,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      created_at: new Date().toISOString()
+    }, { onConflict: 'cache_key' })
+
+  if (error) {
+    console.error('[LLM GATEWAY] Failed to cache response:', error)
+  }
+}
+
+// ============================================
+// Fixtures
+// ============================================
+
+function getFixturePath(key: string, operation: string): string {
+  return path.join(FIXTURE_DIR, operation.replace(/[^a-z0-9_-]/gi, '_'), `${key.slice(0, 16)}.json`)
+}
+
+async function readFixture(key: string, operation: string): Promise<ProviderResponse> {
+  const fixturePath = getFixturePath(key, operation)
+  try {
+    const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf8'))
+    return fixture.response
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`LLM fixture missing for ${operation} (${fixturePath}) - record it with LLM_FIXTURE_MODE=record`)
+    }
+    throw error
+  }
+}
+
+async function writeFixture(
+  key: string,
+  request: NormalizedRequest,
+  operation: string,
+  response: ProviderResponse
+): Promise<void> {
+  const fixturePath = getFixturePath(key, operation)
+  await fs.mkdir(path.dirname(fixturePath), { recursive: true })
+  await fs.writeFile(fixturePath, JSON.stringify({
+    key,
+    operation,
+    // Documents are recorded by digest, not content
+    request: { ...request, documents: getDocumentDigests(request) },
+    response,
+    recorded_at: new Date().toISOString()
+  }, null, 2))
+}
+
+// ============================================
+// Public API
+// ============================================
+
+async function execute(request: LlmRequest, accept?: (text: string) => boolean): Promise<LlmResult> {
+  const normalized = normalizeRequest(request)
+  const key = getRequestKey(normalized)
+
+  if (FIXTURE_MODE === 'replay') {
+    const response = await readFixture(key, request.operation)
+    return { ...response, provider: normalized.provider, cached: false, replayed: true }
+  }
+
+  const useCache = !!request.cacheTtlSeconds
+  let response = useCache ? await readCache(key) : null
+  const cached = !!response
+
+  if (!response) {
+    response = await callWithRetry(normalized, request.operation)
+
+    await recordUsage({
+      agent: request.agent,
+      operation: request.operation,
+      provider: normalized.provider,
+      model: response.model,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens
+    })
+
+    if (useCache && (!accept || accept(response.text))) {
+      await writeCache(key, normalized, request.operation, response, request.cacheTtlSeconds!)
+    }
+  }
+
+  if (FIXTURE_MODE === 'record') {
+    await writeFixture(key, normalized, request.operation, response)
+  }
+
+  return { ...response, provider: normalized.provider, cached, replayed: false }
+}
+
+/**
+ * Send a prompt and return the text response
+ */
+export async function complete(request: LlmRequest): Promise<LlmResult> {
+  return execute(request)
+}
+
+/**
+ * Pull the JSON out of a model response (bare, fenced, or surrounded by prose)
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidate = fenced ? fenced[1].trim() : trimmed
+
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    const match = candidate.match(/[\[{][\s\S]*[\]}]/)
+    if (!match) {
+      throw new Error('Invalid LLM output: no JSON found in response')
+    }
+    return JSON.parse(match[0])
+  }
+}
+
+function checkJson(text: string, schema?: JsonSchema): { data?: unknown; errors: string[] } {
+  let data: unknown
+  try {
+    data = extractJson(text)
+  } catch (error: any) {
+    return { errors: [error.message] }
+  }
+  return { data, errors: schema ? validateJsonSchema(data, schema) : [] }
+}
+
+/**
+ * Send a prompt that must answer with JSON matching `schema`. An invalid answer
+ * gets one repair attempt with the validation errors before giving up.
+ */
+export async function completeJson<T = any>(request: LlmRequest & { schema?: JsonSchema }): Promise<LlmJsonResult<T>> {
+  const { schema, ...llmRequest } = request
+  const accept = (text: string) => checkJson(text, schema).errors.length === 0
+
+  const first = await execute(llmRequest, accept)
+  const firstCheck = checkJson(first.text, schema)
+  if (firstCheck.errors.length === 0) {
+    return { ...first, data: firstCheck.data as T }
+  }
+
+  const normalized = normalizeRequest(llmRequest)
+  const repaired = await execute({
+    ...llmRequest,
+    prompt: undefined,
+    messages: [
+      ...normalized.messages,
+      { role: 'assistant', content: first.text },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON format:\n- ${firstCheck.errors.join('\n- ')}\n\nRespond again with only the corrected JSON.`
+      }
+    ]
+  }, accept)
+
+  const repairedCheck = checkJson(repaired.text, schema)
+  if (repairedCheck.errors.length > 0) {
+    throw new Error(`Invalid LLM output from ${request.operation}: ${repairedCheck.errors.join('; ')}`)
+  }
+
+  return { ...repaired, data: repairedCheck.data as T }
+}
+
+export const llmGateway = {
+  complete,
+  completeJson,
+  extractJson,
+  resolveProvider,
+  DEFAULT_MODELS
+}
@@ -1,64 +0,0 @@
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
-
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant'
-  content: string
-}
-
-interface OpenAIResponse {
-  id: string
-  choices: Array<{
-    message: { role: string; content: string }
-    finish_reason: string
-  }>
-  usage: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
-}
-
-export async function chatCompletion(
-  messages: OpenAIMessage[],
-  options: {
-    model?: string
-    maxTokens?: number
-    jsonMode?: boolean
-  } = {}
-): Promise<{ content: string; usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is required')
-  }
-
-  const body: any = {
-    model: options.model || 'gpt-4.1-mini',
-    messages,
-    max_tokens: options.maxTokens || 2000,
-  }
-
-  if (options.jsonMode) {
-    body.response_format = { type: 'json_object' }
-  }
-
-  const response = await fetch(OPENAI_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI API error ${response.status}: ${errorText}`)
-  }
-
-  const data: OpenAIResponse = await response.json()
-
-  return {
-    content: data.choices[0]?.message?.content || '',
-    usage: data.usage,
-  }
-}
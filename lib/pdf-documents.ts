@@ -0,0 +1,496 @@
+/**
+ * Business document PDFs
+ *
+ * The Audico A4 layout (header, party box, items table, totals, notes, terms,
+ * footer) shared by quotes and supplier purchase orders, the supplier SLA
+ * scorecard in the same layout, plus the upload to the `documents` storage
+ * bucket.
+ */
+
+import { getServerSupabase } from './supabase'
+
+export interface DocumentLineItem {
+  product_name: string
+  description?: string
+  quantity: number
+  unit_price: number
+  total_price: number
+  /** Printed as an add-on and excluded from the totals */
+  optional?: boolean
+  /** Printed in brackets before the product name instead of "Optional", e.g. an option tier */
+  label?: string
+  /** Heading printed above the first item of each run of items in the section */
+  section?: string
+}
+
+export interface BusinessDocument {
+  /** e.g. QUOTATION, PURCHASE ORDER */
+  title: string
+  number: string
+  /** Printed under the date, e.g. validity or revision */
+  headerLines?: string[]
+  /** Printed under our contact details, e.g. VAT number and address */
+  sellerLines?: string[]
+  /** e.g. "Bill To:", "Supplier:" */
+  partyLabel: string
+  party: {
+    name: string
+    company?: string
+    email?: string
+    /** Extra lines under the email, e.g. address and VAT number */
+    details?: string[]
+  }
+  items: DocumentLineItem[]
+  subtotal: number
+  tax?: number
+  shipping?: number
+  total: number
+  currency: string
+  notes?: string
+  terms?: string
+  /** Printed under the total; defaults to a note on optional items when there are any */
+  totalsNotes?: string[]
+  /** Second footer line, under "Thank you for your business!" */
+  contactLine: string
+}
+
+export interface ScorecardRow {
+  label: string
+  target: string
+  actual: string
+  /** null when there was nothing to measure in the period */
+  met: boolean | null
+}
+
+export interface ScorecardDocument {
+  /** e.g. the period, 2026-09 */
+  number: string
+  /** e.g. September 2026 */
+  periodLabel: string
+  supplier: {
+    name: string
+    company?: string
+    email?: string
+  }
+  rows: ScorecardRow[]
+  /** Printed under the table, e.g. the counts behind each measure */
+  summary?: string[]
+  notes?: string
+  contactLine: string
+}
+
+export function sanitizeText(str: string | undefined | null): string {
+  if (!str) return ''
+  return String(str).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+}
+
+/**
+ * AUDICO header with the document title, number and date on the right, and
+ * the blue divider. Returns the y position below the divider.
+ */
+function drawHeader(doc: any, title: string, number: string, headerLines: string[], sellerLines: string[]): number {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 20
+  let y = margin
+
+  const date = new Date().toLocaleDateString('en-ZA', {
+    year: 'numeric', month: 'long', day: 'numeric'
+  })
+
+  // --- Header ---
+  doc.setFontSize(28)
+  doc.setTextColor(0, 123, 255)
+  doc.text('AUDICO', margin, y + 8)
+  doc.setFontSize(10)
+  doc.setTextColor(100, 100, 100)
+  doc.text('Professional Audio & Visual Solutions', margin, y + 14)
+  doc.text('Email: sales@audico.co.za | Phone: +27 11 123 4567', margin, y + 19)
+  sellerLines.forEach((line, idx) => {
+    doc.text(sanitizeText(line), margin, y + 24 + idx * 5)
+  })
+
+  // Right side: document title and number
+  doc.setFontSize(20)
+  doc.setTextColor(51, 51, 51)
+  doc.text(title, pageWidth - margin, y + 8, { align: 'right' })
+  doc.setFontSize(12)
+  doc.setTextColor(0, 123, 255)
+  doc.text(sanitizeText(number), pageWidth - margin, y + 15, { align: 'right' })
+  doc.setFontSize(10)
+  doc.setTextColor(51, 51, 51)
+  doc.text(`Date: ${date}`, pageWidth - margin, y + 21, { align: 'right' })
+  headerLines.forEach((line, idx) => {
+    doc.text(sanitizeText(line), pageWidth - margin, y + 26 + idx * 5, { align: 'right' })
+  })
+  y += Math.max(0, Math.max(headerLines.length, sellerLines.length) - 1) * 5
+
+  y += 30
+  // Blue divider
+  doc.setDrawColor(0, 123, 255)
+  doc.setLineWidth(0.8)
+  doc.line(margin, y, pageWidth - margin, y)
+  y += 8
+
+  return y
+}
+
+/**
+ * "Thank you for your business!" footer, at the bottom of the page or below y
+ */
+function drawFooter(doc: any, y: number, contactLine: string): void {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 20
+
+  // --- Footer ---
+  if (y > 260) { doc.addPage(); y = margin }
+  y = Math.max(y + 10, 265)
+  doc.setDrawColor(222, 226, 230)
+  doc.setLineWidth(0.5)
+  doc.line(margin, y, pageWidth - margin, y)
+  y += 6
+  doc.setFontSize(10)
+  doc.setTextColor(100, 100, 100)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Thank you for your business!', pageWidth / 2, y, { align: 'center' })
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(8)
+  doc.text(contactLine, pageWidth / 2, y + 5, { align: 'center' })
+  doc.text('AUDICO | Professional Audio & Visual Solutions', pageWidth / 2, y + 10, { align: 'center' })
+}
+
+export function renderBusinessDocumentPdf(details: BusinessDocument): Buffer {
+  const { jsPDF } = require('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 20
+  const contentWidth = pageWidth - margin * 2
+  let y = drawHeader(doc, details.title, details.number, details.headerLines || [], details.sellerLines || [])
+
+  // --- Party (Bill To / Supplier) ---
+  const partyDetails = details.party.details || []
+  doc.setFillColor(248, 249, 250)
+  doc.rect(margin, y, contentWidth, 22 + partyDetails.length * 5, 'F')
+  doc.setFontSize(12)
+  doc.setTextColor(0, 123, 255)
+  doc.text(details.partyLabel, margin + 5, y + 7)
+  doc.setFontSize(11)
+  doc.setTextColor(51, 51, 51)
+  doc.setFont('helvetica', 'bold')
+  doc.text(sanitizeText(details.party.name), margin + 5, y + 13)
+  doc.setFont('helvetica', 'normal')
+  let partyY = y + 18
+  if (details.party.company) {
+    doc.setFontSize(10)
+    doc.text(sanitizeText(details.party.company), margin + 5, partyY)
+    partyY += 5
+  }
+  doc.setFontSize(10)
+  doc.text(sanitizeText(details.party.email), margin + 5, partyY)
+  partyDetails.forEach(line => {
+    partyY += 5
+    doc.text(sanitizeText(line), margin + 5, partyY)
+  })
+  y += 28 + partyDetails.length * 5
+
+  // --- Items Table ---
+  const colWidths = [contentWidth * 0.40, contentWidth * 0.15, contentWidth * 0.20, contentWidth * 0.25]
+  const colX = [margin, margin + colWidths[0], margin + colWidths[0] + colWidths[1], margin + colWidths[0] + colWidths[1] + colWidths[2]]
+  const rowHeight = 10
+
+  // Table header
+  doc.setFillColor(0, 123, 255)
+  doc.rect(margin, y, contentWidth, rowHeight, 'F')
+  doc.setFontSize(9)
+  doc.setTextColor(255, 255, 255)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Product / Description', colX[0] + 3, y + 7)
+  doc.text('Qty', colX[1] + colWidths[1] / 2, y + 7, { align: 'center' })
+  doc.text('Unit Price', colX[2] + colWidths[2] - 3, y + 7, { align: 'right' })
+  doc.text('Total', colX[3] + colWidths[3] - 3, y + 7, { align: 'right' })
+  y += rowHeight
+
+  // Table rows
+  doc.setFont('helvetica', 'normal')
+  doc.setTextColor(51, 51, 51)
+  let section: string | undefined
+  details.items.forEach((item, idx) => {
+    // Check for page break
+    if (y > 260) {
+      doc.addPage()
+      y = margin
+    }
+
+    if (item.section && item.section !== section) {
+      doc.setFontSize(9)
+      doc.setFont('helvetica', 'bold')
+      doc.setTextColor(0, 123, 255)
+      doc.text(sanitizeText(item.section).substring(0, 80), colX[0] + 3, y + 6)
+      doc.setDrawColor(0, 123, 255)
+      doc.setLineWidth(0.3)
+      doc.line(margin, y + 8, pageWidth - margin, y + 8)
+      doc.setTextColor(51, 51, 51)
+      y += 9
+    }
+    section = item.section
+
+    if (idx % 2 === 1) {
+      doc.setFillColor(248, 249, 250)
+      doc.rect(margin, y, contentWidth, rowHeight, 'F')
+    }
+
+    doc.setFontSize(9)
+    doc.setFont('helvetica', 'bold')
+    const prefix = item.label ? `(${item.label}) ` : item.optional ? '(Optional) ' : ''
+    doc.text(`${sanitizeText(prefix)}${sanitizeText(item.product_name)}`.substring(0, 45), colX[0] + 3, y + 7)
+    doc.setFont('helvetica', 'normal')
+    doc.text(String(item.quantity), colX[1] + colWidths[1] / 2, y + 7, { align: 'center' })
+    doc.text(`${details.currency} ${item.unit_price.toFixed(2)}`, colX[2] + colWidths[2] - 3, y + 7, { align: 'right' })
+    doc.text(`${details.currency} ${item.total_price.toFixed(2)}`, colX[3] + colWidths[3] - 3, y + 7, { align: 'right' })
+
+    // Row border
+    doc.setDrawColor(222, 226, 230)
+    doc.setLineWidth(0.2)
+    doc.line(margin, y + rowHeight, pageWidth - margin, y + rowHeight)
+    y += rowHeight
+
+    // Description sub-row
+    if (item.description) {
+      doc.setFontSize(8)
+      doc.setTextColor(100, 100, 100)
+      doc.text(sanitizeText(item.description).substring(0, 60), colX[0] + 3, y + 5)
+      y += 6
+      doc.setTextColor(51, 51, 51)
+    }
+  })
+
+  y += 8
+
+  // --- Totals ---
+  const totalsX = pageWidth - margin - 80
+  const totalsValX = pageWidth - margin - 3
+
+  doc.setFontSize(10)
+  doc.setTextColor(51, 51, 51)
+  doc.text('Subtotal:', totalsX, y + 5)
+  doc.text(`${details.currency} ${details.subtotal.toFixed(2)}`, totalsValX, y + 5, { align: 'right' })
+  doc.setDrawColor(222, 226, 230)
+  doc.line(totalsX, y + 7, pageWidth - margin, y + 7)
+  y += 10
+
+  if (details.tax) {
+    doc.text('VAT (15%):', totalsX, y + 5)
+    doc.text(`${details.currency} ${details.tax.toFixed(2)}`, totalsValX, y + 5, { align: 'right' })
+    doc.line(totalsX, y + 7, pageWidth - margin, y + 7)
+    y += 10
+  }
+
+  if (details.shipping && details.shipping > 0) {
+    doc.text('Shipping:', totalsX, y + 5)
+    doc.text(`${details.currency} ${details.shipping.toFixed(2)}`, totalsValX, y + 5, { align: 'right' })
+    doc.line(totalsX, y + 7, pageWidth - margin, y + 7)
+    y += 10
+  }
+
+  // Total row (blue background)
+  doc.setFillColor(0, 123, 255)
+  doc.rect(totalsX - 2, y, 82, 10, 'F')
+  doc.setFontSize(12)
+  doc.setFont('helvetica', 'bold')
+  doc.setTextColor(255, 255, 255)
+  doc.text('TOTAL:', totalsX, y + 7)
+  doc.text(`${details.currency} ${details.total.toFixed(2)}`, totalsValX, y + 7, { align: 'right' })
+  doc.setFont('helvetica', 'normal')
+  y += 18
+
+  const totalsNotes = details.totalsNotes
+    || (details.items.some(item => item.optional) ? ['Optional items are not included in the total.'] : [])
+  totalsNotes.forEach(note => {
+    doc.setFontSize(8)
+    doc.setTextColor(100, 100, 100)
+    doc.text(sanitizeText(note), totalsValX, y - 4, { align: 'right' })
+    y += 4
+  })
+
+  // --- Notes ---
+  if (details.notes) {
+    if (y > 250) { doc.addPage(); y = margin }
+    doc.setFontSize(11)
+    doc.setTextColor(133, 100, 4)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Notes:', margin, y + 5)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    const noteLines = doc.splitTextToSize(sanitizeText(details.notes), contentWidth - 10)
+    doc.text(noteLines, margin + 5, y + 11)
+    y += 12 + noteLines.length * 4
+  }
+
+  // --- Terms ---
+  if (details.terms) {
+    if (y > 250) { doc.addPage(); y = margin }
+    doc.setFontSize(11)
+    doc.setTextColor(51, 51, 51)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Terms & Conditions:', margin, y + 5)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(100, 100, 100)
+    const termLines = doc.splitTextToSize(sanitizeText(details.terms), contentWidth - 10)
+    doc.text(termLines, margin + 5, y + 11)
+    y += 12 + termLines.length * 3.5
+  }
+
+  drawFooter(doc, y, details.contactLine)
+
+  // Return as Buffer
+  const arrayBuffer = doc.output('arraybuffer')
+  return Buffer.from(arrayBuffer)
+}
+
+/**
+ * Supplier SLA scorecard: each measure against its target, in the business
+ * document layout
+ */
+export function renderScorecardPdf(details: ScorecardDocument): Buffer {
+  const { jsPDF } = require('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 20
+  const contentWidth = pageWidth - margin * 2
+  let y = drawHeader(doc, 'SUPPLIER SCORECARD', details.number, [`Period: ${details.periodLabel}`], [])
+
+  // --- Supplier ---
+  doc.setFillColor(248, 249, 250)
+  doc.rect(margin, y, contentWidth, details.supplier.company ? 27 : 22, 'F')
+  doc.setFontSize(12)
+  doc.setTextColor(0, 123, 255)
+  doc.text('Supplier:', margin + 5, y + 7)
+  doc.setFontSize(11)
+  doc.setTextColor(51, 51, 51)
+  doc.setFont('helvetica', 'bold')
+  doc.text(sanitizeText(details.supplier.name), margin + 5, y + 13)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  let partyY = y + 18
+  if (details.supplier.company) {
+    doc.text(sanitizeText(details.supplier.company), margin + 5, partyY)
+    partyY += 5
+  }
+  doc.text(sanitizeText(details.supplier.email), margin + 5, partyY)
+  y += details.supplier.company ? 33 : 28
+
+  // --- Measures Table ---
+  const colWidths = [contentWidth * 0.40, contentWidth * 0.20, contentWidth * 0.20, contentWidth * 0.20]
+  const colX = [margin, margin + colWidths[0], margin + colWidths[0] + colWidths[1], margin + colWidths[0] + colWidths[1] + colWidths[2]]
+  const rowHeight = 10
+
+  doc.setFillColor(0, 123, 255)
+  doc.rect(margin, y, contentWidth, rowHeight, 'F')
+  doc.setFontSize(9)
+  doc.setTextColor(255, 255, 255)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Measure', colX[0] + 3, y + 7)
+  doc.text('Target', colX[1] + colWidths[1] - 3, y + 7, { align: 'right' })
+  doc.text('Actual', colX[2] + colWidths[2] - 3, y + 7, { align: 'right' })
+  doc.text('Status', colX[3] + colWidths[3] / 2, y + 7, { align: 'center' })
+  y += rowHeight
+
+  doc.setFont('helvetica', 'normal')
+  details.rows.forEach((row, idx) => {
+    if (idx % 2 === 1) {
+      doc.setFillColor(248, 249, 250)
+      doc.rect(margin, y, contentWidth, rowHeight, 'F')
+    }
+
+    doc.setFontSize(9)
+    doc.setTextColor(51, 51, 51)
+    doc.setFont('helvetica', 'bold')
+    doc.text(sanitizeText(row.label).substring(0, 45), colX[0] + 3, y + 7)
+    doc.setFont('helvetica', 'normal')
+    doc.text(sanitizeText(row.target), colX[1] + colWidths[1] - 3, y + 7, { align: 'right' })
+    doc.text(sanitizeText(row.actual), colX[2] + colWidths[2] - 3, y + 7, { align: 'right' })
+
+    doc.setFont('helvetica', 'bold')
+    if (row.met === null) {
+      doc.setTextColor(100, 100, 100)
+    } else if (row.met) {
+      doc.setTextColor(40, 167, 69)
+    } else {
+      doc.setTextColor(220, 53, 69)
+    }
+    doc.text(row.met === null ? 'No data' : row.met ? 'Met' : 'Missed', colX[3] + colWidths[3] / 2, y + 7, { align: 'center' })
+    doc.setFont('helvetica', 'normal')
+
+    doc.setDrawColor(222, 226, 230)
+    doc.setLineWidth(0.2)
+    doc.line(margin, y + rowHeight, pageWidth - margin, y + rowHeight)
+    y += rowHeight
+  })
+
+  y += 8
+
+  // --- Summary ---
+  const summary = details.summary || []
+  if (summary.length > 0) {
+    doc.setFontSize(11)
+    doc.setTextColor(51, 51, 51)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Summary:', margin, y + 5)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.setTextColor(100, 100, 100)
+    summary.forEach((line, idx) => {
+      doc.text(sanitizeText(line), margin + 5, y + 11 + idx * 5)
+    })
+    y += 12 + summary.length * 5
+  }
+
+  // --- Notes ---
+  if (details.notes) {
+    if (y > 250) { doc.addPage(); y = margin }
+    doc.setFontSize(11)
+    doc.setTextColor(133, 100, 4)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Notes:', margin, y + 5)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    const noteLines = doc.splitTextToSize(sanitizeText(details.notes), contentWidth - 10)
+    doc.text(noteLines, margin + 5, y + 11)
+    y += 12 + noteLines.length * 4
+  }
+
+  drawFooter(doc, y, details.contactLine)
+
+  const arrayBuffer = doc.output('arraybuffer')
+  return Buffer.from(arrayBuffer)
+}
+
+/**
+ * Upload a PDF to the documents bucket and return its public URL
+ */
+export async function uploadDocumentPdf(pdfBuffer: Buffer, fileName: string): Promise<string | null> {
+  try {
+    const supabase = getServerSupabase()
+
+    const { error } = await supabase.storage
+      .from('documents')
+      .upload(fileName, pdfBuffer, {
+        contentType: 'application/pdf',
+        upsert: true
+      })
+
+    if (error) {
+      console.error('Error uploading PDF to Supabase:', error)
+      return null
+    }
+
+    const { data: publicUrlData } = supabase.storage
+      .from('documents')
+      .getPublicUrl(fileName)
+
+    return publicUrlData.publicUrl
+  } catch (error) {
+    console.error('Error in uploadDocumentPdf:', error)
+    return null
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Supplier Price List Parser
+ *
+ * Turns an uploaded price list into rows of SKU, description and price:
+ * - CSV (comma, semicolon or tab separated) and XLSX are read as tables; a
+ *   column mapping says which column holds which field, suggested from the
+ *   header names when the supplier has no mapping template yet
+ * - PDF price lists are read by the model, which returns the table rows
+ *
+ * Prices are parsed as suppliers write them ("R 1 299,00", "$12.50",
+ * "1,299.00"); a currency symbol in the price cell wins over the default.
+ */
+
+import ExcelJS from 'exceljs'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
+
+export type PriceListFileType = 'csv' | 'xlsx' | 'pdf'
+
+export type PriceListField = 'sku' | 'product_name' | 'price' | 'manufacturer' | 'category' | 'currency' | 'stock'
+
+/** Field -> column header */
+export type ColumnMapping = Partial<Record<PriceListField, string>>
+
+export interface PriceListTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface PriceListRow {
+  /** 1-based row in the file (or in the PDF's extracted table) */
+  row_number: number
+  sku: string | null
+  product_name: string | null
+  manufacturer: string | null
+  category: string | null
+  price: number | null
+  currency: string | null
+  stock: string | null
+  raw: Record<string, string>
+}
+
+export const PRICE_LIST_FIELDS: PriceListField[] = ['sku', 'product_name', 'price', 'manufacturer', 'category', 'currency', 'stock']
+
+// Header names suppliers use for each field, most specific first
+const FIELD_SYNONYMS: Record<PriceListField, string[]> = {
+  sku: ['sku', 'stock code', 'item code', 'product code', 'part number', 'part no', 'model number', 'model no', 'code', 'model', 'article'],
+  product_name: ['product name', 'description', 'item description', 'product', 'item', 'name'],
+  price: ['dealer price', 'cost price', 'unit price', 'nett price', 'net price', 'price', 'dealer', 'cost', 'excl', 'nett', 'rrp', 'retail', 'selling'],
+  manufacturer: ['manufacturer', 'brand', 'make', 'vendor'],
+  category: ['category', 'product group', 'group', 'range', 'type'],
+  currency: ['currency', 'curr'],
+  stock: ['stock', 'availability', 'soh', 'on hand', 'qty', 'quantity']
+}
+
+const HEADER_SCAN_ROWS = 20
+
+const PDF_EXTRACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['rows'],
+  properties: {
+    currency: { type: ['string', 'null'] },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sku: { type: ['string', 'null'] },
+          product_name: { type: ['string', 'null'] },
+          manufacturer: { type: ['string', 'null'] },
+          category: { type: ['string', 'null'] },
+          price: { type: ['number', 'string', 'null'] },
+          currency: { type: ['string', 'null'] },
+          stock: { type: ['string', 'null'] }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * The file type from its name, or null for formats that are not read
+ */
+export function getPriceListFileType(filename: string): PriceListFileType | null {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'csv' || extension === 'txt') return 'csv'
+  if (extension === 'xlsx') return 'xlsx'
+  if (extension === 'pdf') return 'pdf'
+  return null
+}
+
+/**
+ * SKUs compared without case, spaces or punctuation ("ab-12 x" = "AB12X")
+ */
+export function normalizeSku(sku: string | null | undefined): string | null {
+  const normalized = (sku || '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return normalized || null
+}
+
+/**
+ * Parse a price as written in a price list. Returns null for empty cells,
+ * "POA" and the like.
+ */
+export function parsePrice(value: string | number | null | undefined): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null
+
+  let text = (value || '').replace(/[^\d,.\-]/g, '')
+  if (!/\d/.test(text)) return null
+
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal point
+    text = lastComma > lastDot
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '')
+  } else if (lastComma >= 0) {
+    text = /,\d{1,2}$/.test(text) && text.indexOf(',') === lastComma
+      ? text.replace(',', '.')
+      : text.replace(/,/g, '')
+  } else if (text.indexOf('.') !== lastDot) {
+    text = text.replace(/\./g, '')
+  }
+
+  const price = parseFloat(text)
+  return isNaN(price) ? null : Math.round(price * 100) / 100
+}
+
+/**
+ * A currency written in the price cell itself ("$12.50", "USD 12.50")
+ */
+export function detectPriceCurrency(value: string | null | undefined): string | null {
+  const match = (value || '').trim().match(/^(US\$|\$|€|£|R|[A-Z]{3})\s*-?\d/i)
+  return match ? match[1].toUpperCase() : null
+}
+
+/**
+ * Split CSV text into cells. Handles quoted cells with separators, escaped
+ * quotes and line breaks; the separator is the one used most in the first
+ * lines (which may be a title or address rather than the header).
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const sample = content.split(/\r?\n/, HEADER_SCAN_ROWS).join('\n')
+  const separator = [';', '\t', ','].reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best
+  , ',')
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value !== ''))
+}
+
+/**
+ * Read the cells of an XLSX workbook - the named sheet, or the first one
+ * with data
+ */
+export async function parseXlsx(buffer: Buffer, sheetName?: string | null): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as any)
+
+  const sheet = sheetName
+    ? workbook.getWorksheet(sheetName)
+    : workbook.worksheets.find(ws => ws.actualRowCount > 0)
+
+  if (!sheet) {
+    throw new Error(sheetName ? `Invalid price list: no sheet named "${sheetName}"` : 'Invalid price list: the workbook is empty')
+  }
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const cells: string[] = []
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push((row.getCell(col).text || '').trim())
+    }
+    if (cells.some(value => value !== '')) rows.push(cells)
+  })
+
+  return rows
+}
+
+/**
+ * Which column each field is in, from the header names
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim())
+
+  for (const field of PRICE_LIST_FIELDS) {
+    for (const synonym of FIELD_SYNONYMS[field]) {
+      const exact = normalized.findIndex((h, idx) => h === synonym && !used.has(headers[idx]))
+      const partial = exact >= 0 ? exact : normalized.findIndex((h, idx) => h.includes(synonym) && !used.has(headers[idx]))
+      if (partial >= 0) {
+        mapping[field] = headers[partial]
+        used.add(headers[partial])
+        break
+      }
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Find the header row (price lists often start with a logo, address and
+ * terms) and return the table below it
+ */
+export function toTable(cells: string[][], headerRow?: number | null): PriceListTable & { header_row: number } {
+  let index = headerRow != null ? headerRow - 1 : -1
+
+  if (index < 0) {
+    const candidates = cells.slice(0, HEADER_SCAN_ROWS)
+    index = candidates.findIndex(row => {
+      if (row.filter(Boolean).length < 2) return false
+      const mapping = suggestColumnMapping(row.filter(Boolean))
+      return !!mapping.price && !!(mapping.sku || mapping.product_name)
+    })
+    if (index < 0) index = 0
+  }
+
+  const headers = (cells[index] || []).map((header, idx) => header || `Column ${idx + 1}`)
+  return { headers, rows: cells.slice(index + 1), header_row: index + 1 }
+}
+
+/**
+ * Problems with a mapping, as messages (empty when usable)
+ */
+export function validateColumnMapping(mapping: ColumnMapping, headers?: string[]): string[] {
+  const errors: string[] = []
+
+  if (!mapping.price) errors.push('price column is required')
+  if (!mapping.sku && !mapping.product_name) errors.push('a SKU or product name column is required')
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!PRICE_LIST_FIELDS.includes(field as PriceListField)) {
+      errors.push(`unknown field ${field}`)
+    } else if (headers && header && !headers.includes(header)) {
+      errors.push(`column "${header}" for ${field} is not in the file`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Read the mapped fields of every row
+ */
+export function applyColumnMapping(table: PriceListTable, mapping: ColumnMapping, firstRowNumber: number = 2): PriceListRow[] {
+  const column = (field: PriceListField) => mapping[field] ? table.headers.indexOf(mapping[field]!) : -1
+  const indexes = Object.fromEntries(PRICE_LIST_FIELDS.map(field => [field, column(field)])) as Record<PriceListField, number>
+  const read = (cells: string[], field: PriceListField) => indexes[field] >= 0 ? (cells[indexes[field]] || '').trim() || null : null
+
+  return table.rows.map((cells, idx) => {
+    const rawPrice = read(cells, 'price')
+    return {
+      row_number: firstRowNumber + idx,
+      sku: read(cells, 'sku'),
+      product_name: read(cells, 'product_name'),
+      manufacturer: read(cells, 'manufacturer'),
+      category: read(cells, 'category'),
+      price: parsePrice(rawPrice),
+      currency: read(cells, 'currency') || detectPriceCurrency(rawPrice),
+      stock: read(cells, 'stock'),
+      raw: Object.fromEntries(table.headers.map((header, col) => [header, cells[col] || '']))
+    }
+  })
+}
+
+/**
+ * Have the model read the price table out of a PDF price list
+ */
+export async function extractPdfPriceList(buffer: Buffer, supplierName: string): Promise<PriceListRow[]> {
+  const { data } = await completeJson<{ currency?: string | null; rows: Array<Record<string, any>> }>({
+    agent: 'Supplier Agent',
+    operation: 'price_list_pdf_extraction',
+    maxTokens: 16000,
+    temperature: 0,
+    documents: [{ mediaType: 'application/pdf', data: buffer.toString('base64') }],
+    prompt: `This is a price list from the supplier ${supplierName}. Extract every product row of its price tables.
+
+For each product return:
+- sku: the supplier's code / part number / model number, exactly as printed
+- product_name: the description
+- manufacturer: the brand, if shown (also from section headings)
+- category: the section or product group, if shown
+- price: the unit price as printed, including any currency symbol. If there are several price columns, use the dealer/cost price, not the retail price
+- currency: ISO code if the row or table states one
+- stock: stock or availability, if shown
+
+Skip headings, totals, terms and blank rows. Do not invent rows or values - use null when a value is not printed.
+
+Respond with JSON only: {"currency": "<ISO code for the whole list or null>", "rows": [...]}`,
+    schema: PDF_EXTRACTION_SCHEMA,
+    cacheTtlSeconds: 7 * 24 * 60 * 60
+  })
+
+  return data.rows.map((row, idx) => {
+    const rawPrice = row.price == null ? null : String(row.price)
+    return {
+      row_number: idx + 1,
+      sku: row.sku || null,
+      product_name: row.product_name || null,
+      manufacturer: row.manufacturer || null,
+      category: row.category || null,
+      price: parsePrice(row.price),
+      currency: row.currency || detectPriceCurrency(rawPrice) || data.currency || null,
+      stock: row.stock || null,
+      raw: Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value == null ? '' : String(value)]))
+    }
+  })
+}
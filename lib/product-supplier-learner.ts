@@ -405,6 +405,45 @@ export class ProductSupplierLearner {
     }
   }
 
+  /**
+   * Products suppliers have offered as alternatives to a product, most
+   * mentioned first. Used by the Quote Agent to quote good/better/best options.
+   */
+  async getKnownAlternatives(productName: string): Promise<string[]> {
+    try {
+      const { data: supplierProducts, error } = await this.getSupabase()
+        .from('supplier_products')
+        .select('metadata')
+        .ilike('product_name', `%${productName}%`)
+
+      if (error) {
+        throw error
+      }
+
+      const mentions = new Map<string, { product_name: string; mentioned_count: number }>()
+      for (const sp of (supplierProducts || []) as Array<Pick<SupplierProduct, 'metadata'>>) {
+        for (const alt of sp.metadata?.alternatives || []) {
+          const key = alt.product_name.toLowerCase()
+          if (key === productName.toLowerCase()) continue
+
+          const existing = mentions.get(key)
+          mentions.set(key, {
+            product_name: alt.product_name,
+            mentioned_count: (existing?.mentioned_count || 0) + (alt.mentioned_count || 1)
+          })
+        }
+      }
+
+      return Array.from(mentions.values())
+        .sort((a, b) => b.mentioned_count - a.mentioned_count)
+        .map(alt => alt.product_name)
+
+    } catch (error: any) {
+      console.error('Error fetching known alternatives:', error)
+      return []
+    }
+  }
+
   /**
    * Suggest suppliers for a product based on learned data
    * Returns ranked recommendations with reasoning
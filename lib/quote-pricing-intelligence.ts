@@ -13,8 +13,8 @@
  * Integrates with QuoteAgent for dynamic, intelligent pricing decisions
  */
 
-import Anthropic from '@anthropic-ai/sdk'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { completeJson } from './llm-gateway'
 
 // ============================================
 // INTERFACES
@@ -111,7 +111,6 @@ interface AnalysisResult {
 
 export class QuotePricingIntelligence {
   private supabase: SupabaseClient | null = null
-  private anthropic: Anthropic | null = null
   private agentName = 'QuotePricingIntelligence'
 
   private getSupabase(): SupabaseClient {
@@ -123,17 +122,6 @@ export class QuotePricingIntelligence {
     return this.supabase
   }
 
-  private getAnthropic(): Anthropic {
-    if (!this.anthropic) {
-      const apiKey = process.env.ANTHROPIC_API_KEY
-      if (!apiKey) {
-        throw new Error('ANTHROPIC_API_KEY environment variable is required')
-      }
-      this.anthropic = new Anthropic({ apiKey })
-    }
-    return this.anthropic
-  }
-
   /**
    * Main analysis function - runs comprehensive pricing intelligence analysis
    */
@@ -520,18 +508,15 @@ Return your analysis as a JSON object with this structure:
 }`
 
     try {
-      const message = await this.getAnthropic().messages.create({
+      const { data: analysis } = await completeJson({
+        agent: 'Quote Agent',
+        operation: 'pricing_analysis',
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 4000,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
+        maxTokens: 4000,
+        prompt,
+        schema: { type: 'object' }
       })
 
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : ''
-      const analysis = JSON.parse(responseText)
-
       const insights: PricingInsight[] = []
 
       for (const segment of analysis.customer_segments || []) {
@@ -1,5 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk'
 import { getServerSupabase } from './supabase'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
+import { publishEvent } from '@/services/event-bus'
+import { getAttachmentText } from '@/services/email-attachments'
 
 interface EmailData {
   id?: string
@@ -35,19 +38,32 @@ interface QuoteRequestData {
   expected_response_time?: string
 }
 
+const QUOTE_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['is_quote_request', 'confidence_score'],
+  properties: {
+    is_quote_request: { type: 'boolean' },
+    confidence_score: { type: 'number', minimum: 0, maximum: 1 },
+    customer: { type: 'object' },
+    requested_products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['product_name'],
+        properties: { product_name: { type: 'string' } }
+      }
+    },
+    urgency_level: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] }
+  }
+}
+
+// Re-scanning the same email gives the same answer
+const DETECTION_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+
 export class QuoteRequestDetector {
-  private anthropic: Anthropic
   private supabase: ReturnType<typeof getServerSupabase>
 
   constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required')
-    }
-    
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    })
     this.supabase = getServerSupabase()
   }
 
@@ -96,6 +112,18 @@ export class QuoteRequestDetector {
         )
       }
 
+      await publishEvent(
+        'quote_request.created',
+        {
+          quoteRequestId: quoteRequest.id,
+          emailId: email.id || null,
+          customerEmail: quoteRequest.customer_email,
+          confidenceScore: extractedData.confidence_score,
+          taskId: taskId || null,
+        },
+        { source: 'Email Agent', correlationId: quoteRequest.id }
+      )
+
       return {
         isQuoteRequest: true,
         quoteRequestId: quoteRequest.id,
@@ -115,12 +143,27 @@ export class QuoteRequestDetector {
     }
   }
 
+  /**
+   * Text of the email's PDF/XLSX/CSV/DOCX attachments - customers often send
+   * an RFQ or bill of materials as a file with a one-line body
+   */
+  private async extractAttachmentText(email: EmailData): Promise<string> {
+    if (!email.id) return ''
+    try {
+      return await getAttachmentText(email.id)
+    } catch (error: any) {
+      console.error(`Failed to read attachments of email ${email.id}:`, error.message)
+      return ''
+    }
+  }
+
   private async analyzeEmailWithClaude(email: EmailData): Promise<QuoteRequestData> {
+    const attachmentText = await this.extractAttachmentText(email)
     const prompt = `Analyze this email to determine if it's a quote request.
 
 FROM: ${email.from_email}
 SUBJECT: ${email.subject}
-BODY: ${email.body.substring(0, 4000)}
+BODY: ${email.body.substring(0, 4000)}${attachmentText ? `\n\n${attachmentText}` : ''}
 
 Quote request indicators include keywords like:
 - 'quote', 'quotation', 'pricing', 'price', 'cost'
@@ -128,6 +171,7 @@ Quote request indicators include keywords like:
 - 'RFQ' (Request for Quote), 'price list'
 - Product quantities like '25 x Jabra EVOLVE2 75UC' or '10 units of'
 - Phrases like 'need pricing', 'can you quote', 'please send quote'
+- An attached RFQ, bill of materials or product list (take the products and quantities from it)
 
 Extract the following information in JSON format:
 {
@@ -164,35 +208,20 @@ Confidence scoring guide:
 If this is NOT a quote request (e.g., it's a support email, order confirmation, general inquiry without pricing intent), return is_quote_request: false and confidence_score below 0.5.`
 
     try {
-      const message = await this.anthropic.messages.create({
+      const { data: parsed } = await completeJson<QuoteRequestData>({
+        agent: 'Quote Agent',
+        operation: 'quote_request_detection',
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        maxTokens: attachmentText ? 4000 : 2000,
+        prompt,
+        schema: QUOTE_REQUEST_SCHEMA,
+        cacheTtlSeconds: DETECTION_CACHE_TTL_SECONDS,
       })
 
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : ''
-
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        return {
-          is_quote_request: false,
-          confidence_score: 0,
-          customer: {
-            email: email.from_email,
-          },
-          requested_products: [],
-        }
+      if (!parsed.requested_products) {
+        parsed.requested_products = []
       }
 
-      const parsed = JSON.parse(jsonMatch[0])
-      
       if (!parsed.customer) {
         parsed.customer = { email: email.from_email }
       } else if (!parsed.customer.email) {
@@ -202,7 +231,7 @@ If this is NOT a quote request (e.g., it's a support email, order confirmation,
       return parsed
 
     } catch (error: any) {
-      console.error('Claude API error in quote detection:', error.message)
+      console.error('LLM error in quote detection:', error.message)
       return {
         is_quote_request: false,
         confidence_score: 0,
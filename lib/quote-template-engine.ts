@@ -1,5 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk'
 import { getServerSupabase } from './supabase'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
 
 interface QuoteRequest {
   id: string
@@ -60,6 +61,20 @@ interface Template {
   priority: number
 }
 
+export interface FollowUpEmailContext {
+  quoteNumber: string
+  /** Cadence step, e.g. sent+2 or expiry-1 */
+  step: string
+  /** 1 for the first follow-up of the version */
+  followUpNumber: number
+  sentAt: string
+  validUntil: string | null
+  pdfUrl: string | null
+  portalUrl: string | null
+  /** Subject of the quote email, so the follow-up reads as part of the thread */
+  originalSubject: string | null
+}
+
 interface GeneratedEmail {
   subject: string
   body: string
@@ -73,20 +88,34 @@ interface GeneratedEmail {
   relationship_history: any
 }
 
+const TONE_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['tone', 'urgency'],
+  properties: {
+    tone: { type: 'string', enum: ['formal', 'casual', 'friendly', 'professional'] },
+    urgency: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] },
+    relationship_indicators: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  }
+}
+
+const QUOTE_EMAIL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['subject', 'body'],
+  properties: {
+    subject: { type: 'string', minLength: 1 },
+    body: { type: 'string', minLength: 1 },
+    value_props_used: { type: 'array', items: { type: 'string' } },
+    follow_up_actions: { type: 'array', items: { type: 'string' } },
+    products_mentioned: { type: 'array', items: { type: 'string' } }
+  }
+}
+
 export class QuoteTemplateEngine {
-  private anthropic: Anthropic
   private supabase: ReturnType<typeof getServerSupabase>
   private agentName = 'QuoteTemplateEngine'
 
   constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required')
-    }
-    
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    })
     this.supabase = getServerSupabase()
   }
 
@@ -171,6 +200,106 @@ export class QuoteTemplateEngine {
     }
   }
 
+  /**
+   * Write a follow-up for a quote the customer has not answered yet, in the
+   * tone of their original request. Nothing is sent or recorded here.
+   */
+  async generateFollowUpEmail(
+    quoteRequestId: string,
+    context: FollowUpEmailContext
+  ): Promise<{
+    success: boolean
+    email?: GeneratedEmail
+    error?: string
+  }> {
+    try {
+      const quoteRequest = await this.fetchQuoteRequest(quoteRequestId)
+      if (!quoteRequest) {
+        throw new Error(`Quote request ${quoteRequestId} not found`)
+      }
+
+      const sourceEmail = quoteRequest.source_email_id
+        ? await this.fetchEmailLog(quoteRequest.source_email_id)
+        : null
+
+      const toneAnalysis = sourceEmail
+        ? await this.analyzeToneAndUrgency(sourceEmail, quoteRequest)
+        : this.getDefaultToneAnalysis()
+
+      const customerProfile = await this.buildCustomerProfile(
+        quoteRequest.customer_email
+      )
+
+      const template = await this.selectBestTemplate(
+        customerProfile,
+        toneAnalysis
+      )
+
+      const email = await this.generatePersonalizedFollowUp(
+        quoteRequest,
+        toneAnalysis,
+        customerProfile,
+        template,
+        context
+      )
+
+      return {
+        success: true,
+        email,
+      }
+
+    } catch (error: any) {
+      console.error('Error generating follow-up email:', error)
+      return {
+        success: false,
+        error: error.message,
+      }
+    }
+  }
+
+  /**
+   * Record a quote email that was sent outside generateQuoteEmail (approved
+   * drafts and follow-ups), so customer replies can be matched to it
+   */
+  async recordSentQuoteEmail(input: {
+    quoteRequestId: string
+    customerEmail: string
+    customerName: string | null
+    subject: string
+    body: string
+    pdfUrl: string | null
+    email?: GeneratedEmail
+    metadata?: Record<string, any>
+  }): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('quote_email_sends')
+      .insert({
+        quote_request_id: input.quoteRequestId,
+        template_id: input.email?.template_id || null,
+        customer_email: input.customerEmail,
+        customer_name: input.customerName,
+        subject: input.subject,
+        body: input.body,
+        pdf_url: input.pdfUrl,
+        tone_detected: input.email?.tone || null,
+        urgency_detected: input.email?.urgency || null,
+        customer_segment: input.email?.customer_segment || null,
+        relationship_history: input.email?.relationship_history || {},
+        products_mentioned: input.email?.products_mentioned || [],
+        value_props_highlighted: input.email?.value_props_highlighted || [],
+        follow_up_actions: input.email?.follow_up_actions || [],
+        metadata: input.metadata || {},
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to record email send: ${error.message}`)
+    }
+
+    return data.id
+  }
+
   private async fetchQuoteRequest(quoteRequestId: string): Promise<QuoteRequest | null> {
     const { data, error } = await this.supabase
       .from('quote_requests')
@@ -239,19 +368,19 @@ Urgency indicators:
 - low: "when you have time", "no rush", exploratory inquiry`
 
     try {
-      const message = await this.anthropic.messages.create({
+      const { data } = await completeJson<ToneAnalysis>({
+        agent: 'Quote Agent',
+        operation: 'quote_tone_analysis',
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 1000,
+        prompt,
+        schema: TONE_ANALYSIS_SCHEMA,
       })
 
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : ''
-
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0])
+      return {
+        ...data,
+        relationship_indicators: data.relationship_indicators || [],
+        confidence: data.confidence ?? 0.5,
       }
     } catch (error) {
       console.error('Error analyzing tone:', error)
@@ -491,36 +620,30 @@ Requirements:
 - End with clear next steps`
 
     try {
-      const message = await this.anthropic.messages.create({
+      const { data: parsed } = await completeJson({
+        agent: 'Quote Agent',
+        operation: 'quote_email_generation',
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 2000,
+        prompt,
+        schema: QUOTE_EMAIL_SCHEMA,
       })
 
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : ''
-
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0])
-        
-        return {
-          subject: parsed.subject,
-          body: parsed.body,
-          tone: toneAnalysis.tone,
-          urgency: toneAnalysis.urgency,
-          customer_segment: customerProfile.segment,
-          template_id: template?.id || null,
-          products_mentioned: parsed.products_mentioned || [],
-          value_props_highlighted: parsed.value_props_used || [],
-          follow_up_actions: parsed.follow_up_actions || [],
-          relationship_history: {
-            total_orders: customerProfile.total_orders,
-            total_interactions: customerProfile.interaction_count,
-            last_order_date: customerProfile.last_order_date,
-          },
-        }
+      return {
+        subject: parsed.subject,
+        body: parsed.body,
+        tone: toneAnalysis.tone,
+        urgency: toneAnalysis.urgency,
+        customer_segment: customerProfile.segment,
+        template_id: template?.id || null,
+        products_mentioned: parsed.products_mentioned || [],
+        value_props_highlighted: parsed.value_props_used || [],
+        follow_up_actions: parsed.follow_up_actions || [],
+        relationship_history: {
+          total_orders: customerProfile.total_orders,
+          total_interactions: customerProfile.interaction_count,
+          last_order_date: customerProfile.last_order_date,
+        },
       }
     } catch (error) {
       console.error('Error generating personalized email:', error)
@@ -529,6 +652,150 @@ Requirements:
     return this.generateFallbackEmail(quoteRequest, toneAnalysis, customerProfile, pdfUrl, template)
   }
 
+  private async generatePersonalizedFollowUp(
+    quoteRequest: QuoteRequest,
+    toneAnalysis: ToneAnalysis,
+    customerProfile: CustomerProfile,
+    template: Template | null,
+    context: FollowUpEmailContext
+  ): Promise<GeneratedEmail> {
+    const productList = quoteRequest.requested_products
+      .map(p => `- ${p.quantity ? p.quantity + ' x ' : ''}${p.product_name}${p.model_number ? ' (' + p.model_number + ')' : ''}`)
+      .join('\n')
+
+    const daysSinceSent = Math.max(1, Math.round((Date.now() - new Date(context.sentAt).getTime()) / (1000 * 60 * 60 * 24)))
+    const daysUntilExpiry = context.validUntil
+      ? Math.ceil((new Date(context.validUntil).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+      : null
+    const expiringSoon = daysUntilExpiry !== null && daysUntilExpiry <= 2
+
+    const prompt = `Generate a short, personalized follow-up email for a quote the customer has not responded to yet.
+
+CUSTOMER PROFILE:
+- Name: ${quoteRequest.customer_name || 'Customer'}
+- Segment: ${customerProfile.segment}
+- Previous orders: ${customerProfile.total_orders}
+
+QUOTE DETAILS:
+- Quote number: ${context.quoteNumber}
+- Products quoted:
+${productList}
+- Sent ${daysSinceSent} day(s) ago${context.originalSubject ? ` with subject "${context.originalSubject}"` : ''}
+- Valid until: ${context.validUntil ? `${new Date(context.validUntil).toLocaleDateString('en-ZA')} (${daysUntilExpiry} day(s) left)` : 'not set'}
+- This is follow-up number ${context.followUpNumber}
+${context.portalUrl ? `- Online link to view, accept or request changes: ${context.portalUrl}` : ''}
+
+TONE & STYLE:
+- Required tone: ${toneAnalysis.tone}
+- Urgency level: ${toneAnalysis.urgency}
+
+${template?.follow_up_template ? `FOLLOW-UP GUIDANCE (adapt, don't copy exactly):
+${template.follow_up_template}` : ''}
+
+Generate the email in JSON format:
+{
+  "subject": "subject line that reads as part of the original quote thread",
+  "body": "plain text email body with sign-off",
+  "value_props_used": ["value propositions you mentioned, if any"],
+  "follow_up_actions": ["next steps you offered"],
+  "products_mentioned": ["product names referenced"]
+}
+
+Requirements:
+- Match the ${toneAnalysis.tone} tone throughout
+- 3-5 short sentences - don't repeat the whole quote, the PDF is attached again
+- Mention one or two of the quoted products by name
+${expiringSoon ? `- Make clear the quote expires on ${new Date(context.validUntil!).toLocaleDateString('en-ZA')} and supplier prices may change after that` : '- No pressure - offer to answer questions or adjust the quote'}
+${context.portalUrl ? '- Include the online link as the easiest way to accept or request changes' : '- Ask them to reply to accept or request changes'}
+- For ${customerProfile.segment} customers: ${this.getSegmentGuidance(customerProfile.segment)}
+- Sign off as Mpho from Audico`
+
+    try {
+      const { data: parsed } = await completeJson({
+        agent: 'Quote Agent',
+        operation: 'quote_follow_up_generation',
+        model: 'claude-3-5-sonnet-20241022',
+        maxTokens: 1000,
+        prompt,
+        schema: QUOTE_EMAIL_SCHEMA,
+      })
+
+      return {
+        subject: parsed.subject,
+        body: parsed.body,
+        tone: toneAnalysis.tone,
+        urgency: toneAnalysis.urgency,
+        customer_segment: customerProfile.segment,
+        template_id: template?.id || null,
+        products_mentioned: parsed.products_mentioned || [],
+        value_props_highlighted: parsed.value_props_used || [],
+        follow_up_actions: parsed.follow_up_actions || [],
+        relationship_history: {
+          total_orders: customerProfile.total_orders,
+          total_interactions: customerProfile.interaction_count,
+          last_order_date: customerProfile.last_order_date,
+        },
+      }
+    } catch (error) {
+      console.error('Error generating personalized follow-up:', error)
+    }
+
+    return this.generateFallbackFollowUp(quoteRequest, toneAnalysis, customerProfile, template, context, expiringSoon)
+  }
+
+  private generateFallbackFollowUp(
+    quoteRequest: QuoteRequest,
+    toneAnalysis: ToneAnalysis,
+    customerProfile: CustomerProfile,
+    template: Template | null,
+    context: FollowUpEmailContext,
+    expiringSoon: boolean
+  ): GeneratedEmail {
+    const products = quoteRequest.requested_products
+      .map(p => p.product_name)
+      .join(', ')
+
+    const greeting = toneAnalysis.tone === 'formal'
+      ? `Dear ${quoteRequest.customer_name || 'Customer'}`
+      : `Hi ${quoteRequest.customer_name || 'there'}`
+
+    const expiryLine = expiringSoon && context.validUntil
+      ? `\n\nJust a reminder that the quote is valid until ${new Date(context.validUntil).toLocaleDateString('en-ZA')} - after that supplier prices may change.`
+      : ''
+    const nextStep = context.portalUrl
+      ? `You can accept it or request changes online: ${context.portalUrl}`
+      : 'Simply reply to this email to go ahead or to request changes.'
+
+    const body = `${greeting},
+
+I'm following up on quote ${context.quoteNumber} for ${products.substring(0, 100)}. I've attached it again for convenience.${expiryLine}
+
+${nextStep}
+
+Please let me know if you have any questions.
+
+Best regards,
+Mpho
+Quote Agent`
+
+    return {
+      subject: context.originalSubject ? `Re: ${context.originalSubject}` : `Following up: Quote ${context.quoteNumber}`,
+      body,
+      tone: toneAnalysis.tone,
+      urgency: toneAnalysis.urgency,
+      customer_segment: customerProfile.segment,
+      template_id: template?.id || null,
+      products_mentioned: quoteRequest.requested_products.map(p => p.product_name),
+      value_props_highlighted: [],
+      follow_up_actions: [context.portalUrl ? 'Accept online' : 'Reply to accept'],
+      relationship_history: {
+        total_orders: customerProfile.total_orders,
+        total_interactions: customerProfile.interaction_count,
+        last_order_date: customerProfile.last_order_date,
+      },
+    }
+  }
+
   private getSegmentGuidance(segment: string): string {
     const guidance: Record<string, string> = {
       first_time: 'Establish trust, explain your process, offer to answer questions',
@@ -669,12 +936,30 @@ Quote Agent`
         throw new Error(`Email log ${emailLogId} not found`)
       }
 
+      // Redelivered email - already tracked
+      const { data: existing } = await this.supabase
+        .from('quote_email_responses')
+        .select('id')
+        .eq('response_email_id', emailLog.id)
+        .maybeSingle()
+
+      if (existing) {
+        return { success: true, responseId: existing.id }
+      }
+
       const originalEmailSend = await this.findOriginalQuoteEmail(emailLog.from_email)
-      if (!originalEmailSend) {
+      if (!originalEmailSend || new Date(emailLog.created_at) < new Date(originalEmailSend.sent_at)) {
         return { success: true, error: 'Not a response to a quote email' }
       }
 
-      const responseType = await this.classifyResponse(emailLog)
+      // A decision made in the quote portal is authoritative - no need to guess from the reply
+      const portalDecision = await this.findPortalDecision(
+        originalEmailSend.quote_request_id,
+        originalEmailSend.sent_at
+      )
+      const responseType = portalDecision
+        ? (portalDecision.decision === 'accepted' ? 'acceptance' : 'negotiation')
+        : await this.classifyResponse(emailLog)
       const sentiment = await this.analyzeSentiment(emailLog)
 
       const timeDiff = new Date(emailLog.created_at).getTime() - new Date(originalEmailSend.sent_at).getTime()
@@ -693,6 +978,7 @@ Quote Agent`
           response_details: {
             subject: emailLog.subject,
             from: emailLog.from_email,
+            portal_decision_id: portalDecision?.id || null,
           },
         })
         .select()
@@ -702,6 +988,10 @@ Quote Agent`
         throw new Error(`Failed to track email response: ${error.message}`)
       }
 
+      // The customer answered - no more automatic follow-ups
+      const { stopFollowUps } = await import('@/services/quote-follow-ups')
+      await stopFollowUps(originalEmailSend.quote_request_id, 'customer_replied')
+
       await this.logToSquad(
         `Quote email response tracked: ${responseType}`,
         {
@@ -738,6 +1028,19 @@ Quote Agent`
     return data
   }
 
+  private async findPortalDecision(quoteRequestId: string, since: string): Promise<any> {
+    const { data } = await this.supabase
+      .from('quote_portal_decisions')
+      .select('*')
+      .eq('quote_request_id', quoteRequestId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    return data
+  }
+
   private async classifyResponse(
     emailLog: EmailLog
   ): Promise<'reply' | 'acceptance' | 'rejection' | 'question' | 'negotiation' | 'no_response'> {
@@ -903,6 +1206,18 @@ export async function trackEmailResponse(
   return await engine.trackEmailResponse(emailLogId)
 }
 
+export async function generateFollowUpEmail(
+  quoteRequestId: string,
+  context: FollowUpEmailContext
+): Promise<{
+  success: boolean
+  email?: any
+  error?: string
+}> {
+  const engine = new QuoteTemplateEngine()
+  return await engine.generateFollowUpEmail(quoteRequestId, context)
+}
+
 export async function getTemplateRecommendations(
   segment: string,
   urgency: string
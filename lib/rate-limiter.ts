@@ -202,4 +202,34 @@ export const AGENT_RATE_LIMITS: Record<string, RateLimitConfig> = {
     maxExecutions: 2,
     windowSeconds: 86400,
   },
+  quote_generate: {
+    agentName: 'quote_generate',
+    maxExecutions: 100,
+    windowSeconds: 86400,
+  },
+  quote_send: {
+    agentName: 'quote_send',
+    maxExecutions: 100,
+    windowSeconds: 86400,
+  },
+  supplier_outreach: {
+    agentName: 'supplier_outreach',
+    maxExecutions: 50,
+    windowSeconds: 86400,
+  },
+  purchase_order_send: {
+    agentName: 'purchase_order_send',
+    maxExecutions: 50,
+    windowSeconds: 86400,
+  },
+  supplier_scorecard_send: {
+    agentName: 'supplier_scorecard_send',
+    maxExecutions: 100,
+    windowSeconds: 86400,
+  },
+  predictive_quote: {
+    agentName: 'predictive_quote',
+    maxExecutions: 2,
+    windowSeconds: 86400,
+  },
 }
@@ -31,6 +31,11 @@ export type EmailLog = {
   status: string
   handled_by: string | null
   payload: any
+  thread_id: string | null
+  gmail_thread_id: string | null
+  message_id_header: string | null
+  in_reply_to: string | null
+  mailbox_id: string | null
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,242 @@
+/**
+ * Supplier Matching
+ *
+ * Decides whether two supplier records are the same business. Records are
+ * compared on what identifies a business rather than how its name is typed:
+ * - VAT and company registration numbers
+ * - email addresses and company email domains (free-mail domains ignored)
+ * - phone numbers (South African numbers compared without +27 / 0 prefix)
+ * - company name similarity, ignoring Pty/Ltd and punctuation
+ *
+ * Used by the duplicate scan (services/supplier-dedupe.ts) and by the email
+ * intelligence scanner when matching an extracted supplier to an existing one.
+ */
+
+export interface SupplierIdentity {
+  id?: string
+  company: string | null
+  email: string | null
+  phone?: string | null
+  vat_number?: string | null
+  registration_number?: string | null
+  /** Emails and phones of the supplier's contacts */
+  contact_emails?: string[]
+  contact_phones?: string[]
+}
+
+export type MatchSignal = 'vat_number' | 'registration_number' | 'email' | 'email_domain' | 'phone' | 'name'
+
+export interface SupplierMatch {
+  /** 0-100 */
+  score: number
+  signals: MatchSignal[]
+  name_similarity: number
+  /** Both have a VAT or registration number and they differ */
+  conflict: boolean
+}
+
+/** Points per signal; the score is capped at 100 */
+export const MATCH_WEIGHTS: Record<Exclude<MatchSignal, 'name'>, number> = {
+  vat_number: 60,
+  registration_number: 60,
+  email: 50,
+  email_domain: 35,
+  phone: 30
+}
+
+/** Points for identical names, scaled by similarity */
+export const NAME_WEIGHT = 40
+
+/** Names less similar than this add nothing */
+const MIN_NAME_SIMILARITY = 0.5
+
+/** Deducted when VAT or registration numbers differ */
+const CONFLICT_PENALTY = 60
+
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.za', 'hotmail.com', 'hotmail.co.za',
+  'outlook.com', 'live.com', 'live.co.za', 'icloud.com', 'me.com', 'aol.com', 'msn.com',
+  'mweb.co.za', 'telkomsa.net', 'webmail.co.za', 'vodamail.co.za', 'iafrica.com', 'lantic.net',
+  'protonmail.com', 'proton.me', 'zoho.com'
+])
+
+export function normalizeCompanyName(company: string | null | undefined): string {
+  return (company || '')
+    .toLowerCase()
+    .replace(/\(pty\)/g, ' ')
+    .replace(/\b(pty|ltd|limited|inc|corp|corporation|llc|cc|t\/a|trading as)\b/gi, ' ')
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = (email || '').toLowerCase().trim()
+  return normalized.includes('@') ? normalized : null
+}
+
+/**
+ * The company domain of an email address, or null for free-mail addresses
+ */
+export function getEmailDomain(email: string | null | undefined): string | null {
+  const normalized = normalizeEmail(email)
+  if (!normalized) return null
+
+  const domain = normalized.split('@')[1]
+  return domain && !FREE_MAIL_DOMAINS.has(domain) ? domain : null
+}
+
+/**
+ * The last nine digits of a phone number, so +27 11 555 1234 and
+ * 011 555 1234 match. Null for anything too short to be a number.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits.length >= 9 ? digits.slice(-9) : null
+}
+
+/**
+ * VAT and registration numbers without spaces, slashes and dashes
+ */
+export function normalizeTaxNumber(value: string | null | undefined): string | null {
+  const normalized = (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return normalized.length >= 4 ? normalized : null
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * Similarity (0-1) of two company names: the better of word overlap and
+ * character pairs, so "Pro Audio SA" matches "ProAudio South Africa" and
+ * "Audio Tek" matches "Audiotek"
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const nameA = normalizeCompanyName(a)
+  const nameB = normalizeCompanyName(b)
+  if (!nameA || !nameB) return 0
+  if (nameA === nameB) return 1
+
+  const wordsA = new Set(nameA.split(' '))
+  const wordsB = new Set(nameB.split(' '))
+  const common = [...wordsA].filter(w => wordsB.has(w)).length
+  const wordScore = common / Math.max(wordsA.size, wordsB.size)
+
+  const pairsA = bigrams(nameA)
+  const pairsB = bigrams(nameB)
+  if (pairsA.length === 0 || pairsB.length === 0) return wordScore
+
+  const remaining = [...pairsB]
+  let shared = 0
+  for (const pair of pairsA) {
+    const idx = remaining.indexOf(pair)
+    if (idx >= 0) {
+      shared++
+      remaining.splice(idx, 1)
+    }
+  }
+  const pairScore = (2 * shared) / (pairsA.length + pairsB.length)
+
+  return Math.round(Math.max(wordScore, pairScore) * 1000) / 1000
+}
+
+function emailsOf(supplier: SupplierIdentity): Set<string> {
+  return new Set(
+    [supplier.email, ...(supplier.contact_emails || [])]
+      .map(normalizeEmail)
+      .filter((e): e is string => !!e)
+  )
+}
+
+function phonesOf(supplier: SupplierIdentity): Set<string> {
+  return new Set(
+    [supplier.phone, ...(supplier.contact_phones || [])]
+      .map(normalizePhone)
+      .filter((p): p is string => !!p)
+  )
+}
+
+/**
+ * Keys two records must share to be compared at all - a scan compares only
+ * suppliers in the same block instead of every pair
+ */
+export function getBlockingKeys(supplier: SupplierIdentity): string[] {
+  const keys = new Set<string>()
+
+  const vat = normalizeTaxNumber(supplier.vat_number)
+  if (vat) keys.add(`vat:${vat}`)
+  const registration = normalizeTaxNumber(supplier.registration_number)
+  if (registration) keys.add(`reg:${registration}`)
+
+  for (const email of emailsOf(supplier)) {
+    const domain = getEmailDomain(email)
+    keys.add(domain ? `domain:${domain}` : `email:${email}`)
+  }
+  for (const phone of phonesOf(supplier)) {
+    keys.add(`phone:${phone}`)
+  }
+
+  return [...keys]
+}
+
+/**
+ * How likely two records are the same supplier
+ */
+export function scoreSupplierMatch(a: SupplierIdentity, b: SupplierIdentity): SupplierMatch {
+  const signals: MatchSignal[] = []
+  let score = 0
+  let conflict = false
+
+  for (const field of ['vat_number', 'registration_number'] as const) {
+    const valueA = normalizeTaxNumber(a[field])
+    const valueB = normalizeTaxNumber(b[field])
+    if (valueA && valueB) {
+      if (valueA === valueB) {
+        signals.push(field)
+        score += MATCH_WEIGHTS[field]
+      } else {
+        conflict = true
+      }
+    }
+  }
+
+  const emailsA = emailsOf(a)
+  const emailsB = emailsOf(b)
+  if ([...emailsA].some(e => emailsB.has(e))) {
+    signals.push('email')
+    score += MATCH_WEIGHTS.email
+  } else {
+    const domainsB = new Set([...emailsB].map(getEmailDomain).filter(Boolean))
+    if ([...emailsA].some(e => { const d = getEmailDomain(e); return !!d && domainsB.has(d) })) {
+      signals.push('email_domain')
+      score += MATCH_WEIGHTS.email_domain
+    }
+  }
+
+  const phonesB = phonesOf(b)
+  if ([...phonesOf(a)].some(p => phonesB.has(p))) {
+    signals.push('phone')
+    score += MATCH_WEIGHTS.phone
+  }
+
+  const similarity = nameSimilarity(a.company, b.company)
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    signals.push('name')
+    score += Math.round(NAME_WEIGHT * similarity)
+  }
+
+  if (conflict) score -= CONFLICT_PENALTY
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    signals,
+    name_similarity: similarity,
+    conflict
+  }
+}
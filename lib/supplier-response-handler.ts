@@ -1,5 +1,10 @@
-import Anthropic from '@anthropic-ai/sdk'
 import { getServerSupabase } from './supabase'
+import { completeJson } from './llm-gateway'
+import type { JsonSchema } from './json-schema'
+import { publishEvent } from '@/services/event-bus'
+import { normalizeCurrency } from '@/services/exchange-rates'
+import { getCurrentRound, getCloseReason, recordBid, closeRound, type RfqRound } from '@/services/rfq-rounds'
+import { getAttachmentText } from '@/services/email-attachments'
 
 interface EmailLog {
   id: string
@@ -37,6 +42,8 @@ interface QuoteRequest {
   created_at: string
 }
 
+type AggregationReason = 'all_responded' | 'deadline' | 'timeout'
+
 interface EmailSupplierInteraction {
   id: string
   email_log_id: string
@@ -60,25 +67,48 @@ interface ExtractedQuoteData {
     stock_status?: string
     lead_time_days?: number
   }>
+  /** Currency of the quote as a whole, for products without their own */
+  currency?: string
   validity_period?: string
+  /** The supplier's own quote number, used as supplier_quote_no on orders */
+  quote_reference?: string
   terms?: string
   additional_notes?: string
 }
 
+const SUPPLIER_QUOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['is_quote_response', 'confidence_score'],
+  properties: {
+    is_quote_response: { type: 'boolean' },
+    confidence_score: { type: 'number', minimum: 0, maximum: 1 },
+    currency: { type: 'string' },
+    products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['product'],
+        properties: {
+          product: { type: 'string' },
+          unit_price: { type: 'number' },
+          quantity: { type: 'number' },
+          total: { type: 'number' },
+          currency: { type: 'string' },
+          lead_time_days: { type: 'number' }
+        }
+      }
+    }
+  }
+}
+
+// Reprocessing the same supplier email gives the same extraction
+const EXTRACTION_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60
+
 export class SupplierResponseHandler {
-  private anthropic: Anthropic
   private supabase: ReturnType<typeof getServerSupabase>
   private agentName = 'SupplierResponseHandler'
 
   constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is required')
-    }
-    
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    })
     this.supabase = getServerSupabase()
   }
 
@@ -117,9 +147,11 @@ export class SupplierResponseHandler {
       }
 
       const emailBody = this.extractEmailBody(emailLog.payload)
+      const attachmentText = await this.extractAttachmentText(emailLog.id)
       const extractedData = await this.extractQuoteDataWithClaude(
         emailLog.subject,
-        emailBody
+        emailBody,
+        attachmentText
       )
 
       if (!extractedData.is_quote_response || extractedData.confidence_score < 0.5) {
@@ -136,6 +168,8 @@ export class SupplierResponseHandler {
       const pricingData = this.structurePricingData(extractedData)
       const stockInfo = this.structureStockInfo(extractedData)
 
+      let quoteTaskId: string | null = null
+
       const interaction = await this.logSupplierInteraction(
         emailLogId,
         supplier.id,
@@ -152,14 +186,11 @@ export class SupplierResponseHandler {
           interaction.id
         )
 
-        const allResponded = await this.checkAllSuppliersResponded(quoteRequest.id)
-        const timedOut = this.checkTimeout(quoteRequest.created_at)
+        await recordBid(quoteRequest.id, supplier.id, interaction.id)
 
-        if (allResponded || timedOut) {
-          await this.aggregateResponsesAndTriggerQuoteAgent(
-            quoteRequest.id,
-            allResponded ? 'all_responded' : 'timeout'
-          )
+        const reason = await this.getAggregationReason(quoteRequest)
+        if (reason) {
+          quoteTaskId = await this.aggregateResponsesAndTriggerQuoteAgent(quoteRequest.id, reason)
         }
       }
 
@@ -174,6 +205,19 @@ export class SupplierResponseHandler {
         }
       )
 
+      // Quote Agent subscribes to this and generates the quote once aggregated
+      await publishEvent(
+        'supplier.responded',
+        {
+          supplierId: supplier.id,
+          emailId: emailLogId,
+          interactionId: interaction.id,
+          quoteRequestId: quoteRequest?.id || null,
+          quoteTaskId,
+        },
+        { source: this.agentName, correlationId: quoteRequest?.id || emailLogId }
+      )
+
       return {
         success: true,
         isSupplierResponse: true,
@@ -195,6 +239,70 @@ export class SupplierResponseHandler {
     }
   }
 
+  /**
+   * Aggregate supplier responses once every contacted supplier has replied or
+   * the response window (the RFQ deadline) has passed. Safe to call repeatedly.
+   */
+  async aggregateIfReady(quoteRequestId: string): Promise<'aggregated' | 'already_aggregated' | 'waiting'> {
+    const { data: quoteRequest } = await this.supabase
+      .from('quote_requests')
+      .select('id, created_at, metadata')
+      .eq('id', quoteRequestId)
+      .single()
+
+    if (!quoteRequest) {
+      throw new Error(`Quote request ${quoteRequestId} not found`)
+    }
+
+    if (quoteRequest.metadata?.aggregated_at) {
+      return 'already_aggregated'
+    }
+
+    const reason = await this.getAggregationReason(quoteRequest)
+    if (!reason) {
+      return 'waiting'
+    }
+
+    await this.aggregateResponsesAndTriggerQuoteAgent(quoteRequestId, reason)
+
+    return 'aggregated'
+  }
+
+  /**
+   * Hand an awarded RFQ round to the Quote Agent. Returns the existing
+   * generate_quote task if the round was already handed over.
+   */
+  async queueQuoteForAward(round: RfqRound): Promise<string> {
+    const { data: existing } = await this.supabase
+      .from('squad_tasks')
+      .select('id')
+      .eq('metadata->>rfq_round_id', round.id)
+      .eq('metadata->>action', 'generate_quote')
+      .limit(1)
+      .maybeSingle()
+
+    if (existing) {
+      return existing.id
+    }
+
+    const { data: quoteRequest } = await this.supabase
+      .from('quote_requests')
+      .select('*')
+      .eq('id', round.quote_request_id)
+      .single()
+
+    if (!quoteRequest) {
+      throw new Error(`Quote request ${round.quote_request_id} not found`)
+    }
+
+    return this.createQuoteAgentTask(
+      quoteRequest,
+      quoteRequest.metadata?.aggregated_data || {},
+      quoteRequest.metadata?.aggregation_reason || round.close_reason || 'deadline',
+      round.id
+    )
+  }
+
   private async fetchEmailLog(emailLogId: string): Promise<EmailLog | null> {
     const { data, error } = await this.supabase
       .from('email_logs')
@@ -219,8 +327,36 @@ export class SupplierResponseHandler {
                            subject.includes('pricing')
     
     const isFromKnownSupplier = await this.isKnownSupplierEmail(emailLog.from_email)
+    if (!isFromKnownSupplier) return false
+
+    return hasReplyIndicator || hasQuoteKeyword || await this.hasQuoteAttachment(emailLog.id)
+  }
+
+  /**
+   * Suppliers often send a quote as "Quotation Q1234.pdf" under an unrelated subject
+   */
+  private async hasQuoteAttachment(emailLogId: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .from('email_attachments')
+      .select('id')
+      .eq('email_log_id', emailLogId)
+      .or('filename.ilike.%quot%,filename.ilike.%pric%,filename.ilike.%proforma%')
+      .limit(1)
+
+    return !!(data && data.length > 0)
+  }
 
-    return (hasReplyIndicator || hasQuoteKeyword) && isFromKnownSupplier
+  /**
+   * Text of the email's PDF/XLSX/CSV/DOCX attachments; the body alone when
+   * they cannot be read
+   */
+  private async extractAttachmentText(emailLogId: string): Promise<string> {
+    try {
+      return await getAttachmentText(emailLogId)
+    } catch (error: any) {
+      console.error(`Failed to read attachments of email ${emailLogId}:`, error.message)
+      return ''
+    }
   }
 
   private async isKnownSupplierEmail(email: string): Promise<boolean> {
@@ -252,6 +388,7 @@ export class SupplierResponseHandler {
       .from('suppliers')
       .select('*')
       .eq('email', normalizedEmail)
+      .is('merged_into_id', null)
       .single()
 
     if (supplier) {
@@ -294,12 +431,13 @@ export class SupplierResponseHandler {
 
   private async extractQuoteDataWithClaude(
     subject: string,
-    body: string
+    body: string,
+    attachmentText: string = ''
   ): Promise<ExtractedQuoteData> {
-    const prompt = `Analyze this supplier email response to extract quote information.
+    const prompt = `Analyze this supplier email response to extract quote information.${attachmentText ? ' The quote may be in the attachments rather than the body.' : ''}
 
 SUBJECT: ${subject}
-BODY: ${body.substring(0, 4000)}
+BODY: ${body.substring(0, 4000)}${attachmentText ? `\n\n${attachmentText}` : ''}
 
 Extract the following information in JSON format:
 {
@@ -316,7 +454,9 @@ Extract the following information in JSON format:
       "lead_time_days": number of days until delivery/availability
     }
   ],
+  "currency": "currency of the quote as a whole (ZAR/USD/EUR/etc)",
   "validity_period": "how long the quote is valid (e.g., '30 days', 'until end of month')",
+  "quote_reference": "the supplier's own quote or reference number, if given",
   "terms": "payment terms, conditions, or special notes",
   "additional_notes": "any other relevant information"
 }
@@ -325,10 +465,11 @@ Look for:
 - Product names, model numbers, or SKUs
 - Unit prices and total amounts
 - Quantities quoted
-- Currency (ZAR, USD, EUR, etc.)
+- Currency (ZAR, USD, EUR, etc.) - importers often quote in USD or EUR; "R" means ZAR
 - Stock availability statements
 - Lead times or delivery dates
 - Quote validity period
+- The supplier's quote or reference number
 - Payment terms or conditions
 
 Confidence scoring:
@@ -341,35 +482,20 @@ Confidence scoring:
 If this is NOT a quote response (e.g., just acknowledgment, out of office, general question), return is_quote_response: false and confidence_score below 0.5.`
 
     try {
-      const message = await this.anthropic.messages.create({
+      const { data } = await completeJson<ExtractedQuoteData>({
+        agent: 'Quote Agent',
+        operation: 'supplier_quote_extraction',
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        maxTokens: attachmentText ? 4000 : 2000,
+        prompt,
+        schema: SUPPLIER_QUOTE_SCHEMA,
+        cacheTtlSeconds: EXTRACTION_CACHE_TTL_SECONDS,
       })
 
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : ''
-
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        return {
-          is_quote_response: false,
-          confidence_score: 0,
-          products: [],
-        }
-      }
-
-      const parsed = JSON.parse(jsonMatch[0])
-      return parsed
+      return { ...data, products: data.products || [] }
 
     } catch (error: any) {
-      console.error('Claude API error in quote extraction:', error.message)
+      console.error('LLM error in quote extraction:', error.message)
       return {
         is_quote_response: false,
         confidence_score: 0,
@@ -387,7 +513,7 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
         unit_price: product.unit_price || null,
         quantity: product.quantity || null,
         total: product.total || null,
-        currency: product.currency || 'ZAR',
+        currency: normalizeCurrency(product.currency || extractedData.currency),
         stock_status: product.stock_status || null,
         lead_time_days: product.lead_time_days || null,
       }
@@ -550,6 +676,7 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
         interactionData.pricing_data.metadata = {}
       }
       interactionData.pricing_data.metadata.validity_period = extractedData.validity_period
+      interactionData.pricing_data.metadata.quote_reference = extractedData.quote_reference
       interactionData.pricing_data.metadata.terms = extractedData.terms
       interactionData.pricing_data.metadata.additional_notes = extractedData.additional_notes
     }
@@ -600,12 +727,21 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
       .eq('id', quoteRequestId)
   }
 
-  private async checkAllSuppliersResponded(quoteRequestId: string): Promise<boolean> {
+  /**
+   * When the current supplier round started - a re-quote of an expired quote
+   * starts a new round, and earlier requests and responses no longer count
+   */
+  private getRoundStart(quoteRequest: { created_at: string; metadata?: any }): string {
+    return quoteRequest.metadata?.requoted_at || quoteRequest.created_at
+  }
+
+  private async checkAllSuppliersResponded(quoteRequestId: string, since: string): Promise<boolean> {
     const { data: requestInteractions } = await this.supabase
       .from('email_supplier_interactions')
       .select('supplier_id')
       .eq('interaction_type', 'quote_request')
       .eq('quote_request_id', quoteRequestId)
+      .gte('created_at', since)
 
     if (!requestInteractions || requestInteractions.length === 0) {
       return false
@@ -620,6 +756,7 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
       .select('supplier_id')
       .eq('interaction_type', 'quote_response')
       .eq('quote_request_id', quoteRequestId)
+      .gte('created_at', since)
 
     const respondedSuppliers = new Set(
       (responseInteractions || []).map((i: any) => i.supplier_id)
@@ -634,6 +771,24 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
     return true
   }
 
+  /**
+   * Why responses can be aggregated now, or null while still waiting.
+   * Requests with an RFQ round follow its invited suppliers and deadline;
+   * older requests wait for every contacted supplier or 48 hours.
+   */
+  private async getAggregationReason(quoteRequest: { id: string; created_at: string; metadata?: any }): Promise<AggregationReason | null> {
+    const round = await getCurrentRound(quoteRequest.id)
+    if (round) {
+      return round.status === 'open' ? getCloseReason(round) : null
+    }
+
+    const roundStart = this.getRoundStart(quoteRequest)
+    if (await this.checkAllSuppliersResponded(quoteRequest.id, roundStart)) {
+      return 'all_responded'
+    }
+    return this.checkTimeout(roundStart) ? 'timeout' : null
+  }
+
   private checkTimeout(createdAt: string): boolean {
     const created = new Date(createdAt)
     const now = new Date()
@@ -642,10 +797,16 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
     return hoursDiff >= 48
   }
 
+  /**
+   * Aggregate the round's responses. With an RFQ round the round is closed
+   * and its award proposed first - the award task is returned, and the quote
+   * task follows once the award goes ahead. Returns null if another worker
+   * already closed the round.
+   */
   private async aggregateResponsesAndTriggerQuoteAgent(
     quoteRequestId: string,
-    reason: 'all_responded' | 'timeout'
-  ): Promise<void> {
+    reason: AggregationReason
+  ): Promise<string | null> {
     const { data: quoteRequest } = await this.supabase
       .from('quote_requests')
       .select('*')
@@ -656,11 +817,20 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
       throw new Error(`Quote request ${quoteRequestId} not found`)
     }
 
+    const round = await getCurrentRound(quoteRequestId)
+    let awardTaskId: string | null = null
+    if (round && reason !== 'timeout') {
+      const closed = await closeRound(round.id, reason)
+      if (!closed) return null
+      awardTaskId = closed.awardTaskId
+    }
+
     const { data: interactions } = await this.supabase
       .from('email_supplier_interactions')
       .select('*, supplier:suppliers(*)')
       .eq('interaction_type', 'quote_response')
       .eq('quote_request_id', quoteRequestId)
+      .gte('created_at', this.getRoundStart(quoteRequest))
 
     const supplierResponses = interactions || []
 
@@ -680,7 +850,7 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
       })
       .eq('id', quoteRequestId)
 
-    await this.createQuoteAgentTask(quoteRequest, aggregatedData, reason)
+    const taskId = awardTaskId || await this.createQuoteAgentTask(quoteRequest, aggregatedData, reason)
 
     await this.logToSquad(
       `Quote aggregation complete for request ${quoteRequestId.substring(0, 8)} (${reason})`,
@@ -691,6 +861,8 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
         aggregated_products: Object.keys(aggregatedData).length,
       }
     )
+
+    return taskId
   }
 
   private aggregateSupplierResponses(responses: any[]): any {
@@ -744,8 +916,9 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
   private async createQuoteAgentTask(
     quoteRequest: any,
     aggregatedData: any,
-    reason: string
-  ): Promise<void> {
+    reason: string,
+    rfqRoundId?: string
+  ): Promise<string> {
     const productList = Object.keys(aggregatedData).slice(0, 3).join(', ')
     const moreProducts = Object.keys(aggregatedData).length > 3 
       ? ` and ${Object.keys(aggregatedData).length - 3} more` 
@@ -760,7 +933,7 @@ If this is NOT a quote response (e.g., just acknowledgment, out of office, gener
 
 Products: ${productList}${moreProducts}
 Supplier responses: ${responseCount} quotes received
-Aggregation reason: ${reason === 'all_responded' ? 'All suppliers responded' : '48h timeout reached'}
+Aggregation reason: ${reason === 'all_responded' ? 'All suppliers responded' : reason === 'deadline' ? 'RFQ deadline passed' : '48h timeout reached'}
 
 Next steps:
 1. Review aggregated pricing data
@@ -770,22 +943,32 @@ Next steps:
 
 Quote request ID: ${quoteRequest.id}`
 
-    await this.supabase
+    const { data, error } = await this.supabase
       .from('squad_tasks')
       .insert({
         title: `Generate Quote - ${quoteRequest.customer_name || quoteRequest.customer_email}`,
         description,
         status: 'new',
-        assigned_agent: 'Mpho',
+        assigned_agent: 'QuoteAgent',
         priority: 'high',
         mentions_kenny: false,
         deliverable_url: `/quotes/${quoteRequest.id}`,
         metadata: {
+          action: 'generate_quote',
           quote_request_id: quoteRequest.id,
           aggregated_data: aggregatedData,
           trigger_reason: reason,
+          rfq_round_id: rfqRoundId || null,
         },
       })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create quote agent task: ${error.message}`)
+    }
+
+    return data.id
   }
 
   private async logToSquad(message: string, data: any = {}): Promise<void> {
@@ -5,6 +5,8 @@
  * - relationship_strength: Score based on email frequency, response rate, successful orders, tenure
  * - reliability_score: Score based on quote accuracy, on-time delivery, stock availability
  * - avg_response_time_hours: Average time to respond to emails
+ *
+ * Each run's scores are kept in supplier_score_history.
  * 
  * Identifies deteriorating relationships and new supplier opportunities
  */
@@ -94,6 +96,7 @@ export class SupplierScoringService {
       const { data: suppliers, error: suppliersError } = await this.getSupabase()
         .from('suppliers')
         .select('id, email, company, name, relationship_strength, reliability_score, avg_response_time_hours, created_at')
+        .is('merged_into_id', null)
 
       if (suppliersError) {
         throw new Error(`Failed to fetch suppliers: ${suppliersError.message}`)
@@ -134,6 +137,15 @@ export class SupplierScoringService {
 
         suppliersUpdated++
 
+        await this.getSupabase()
+          .from('supplier_score_history')
+          .insert({
+            supplier_id: supplier.id,
+            relationship_strength: relationshipStrength,
+            reliability_score: reliabilityScore,
+            avg_response_time_hours: avgResponseTimeHours
+          })
+
         // Check for deteriorating relationships (score drop > 10 points)
         if (oldRelationshipScore && relationshipStrength < oldRelationshipScore - 10) {
           scoreChangeAlerts.push({
@@ -190,6 +202,30 @@ export class SupplierScoringService {
     }
   }
 
+  /**
+   * Current reliability scores (0-100) for the given suppliers, as stored by
+   * the weekly update. Suppliers without enough history map to null.
+   */
+  async getReliabilityScores(supplierIds: string[]): Promise<Map<string, number | null>> {
+    const scores = new Map<string, number | null>()
+    if (supplierIds.length === 0) return scores
+
+    const { data, error } = await this.getSupabase()
+      .from('suppliers')
+      .select('id, reliability_score')
+      .in('id', supplierIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch reliability scores: ${error.message}`)
+    }
+
+    for (const supplier of data || []) {
+      scores.set(supplier.id, supplier.reliability_score ?? null)
+    }
+
+    return scores
+  }
+
   /**
    * Calculate relationship strength score (0-100)
    * Based on:
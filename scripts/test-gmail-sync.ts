@@ -0,0 +1,104 @@
+/**
+ * Test script for the Gmail sync backlog
+ *
+ * Runs a backfill backlog holding messages the sync skips or keeps failing
+ * on, run after run, and checks that it drains - the mailbox only gets its
+ * history ID back once nothing is left.
+ *
+ * Usage:
+ *   npx tsx scripts/test-gmail-sync.ts
+ */
+
+import assert from 'node:assert/strict'
+
+// The sync module creates its Supabase client on import; nothing here queries it
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
+
+type Outcome = 'insert' | 'skip' | 'fail'
+
+/**
+ * A mailbox listing, newest first, and what ingesting each message does
+ */
+function buildMailbox(size: number, outcomes: Record<number, Outcome>): Array<{ id: string; outcome: Outcome }> {
+  return Array.from({ length: size }, (_, i) => ({
+    id: `msg-${String(size - i).padStart(3, '0')}`,
+    outcome: outcomes[size - i] || 'insert'
+  }))
+}
+
+async function runBacklog(size: number, outcomes: Record<number, Outcome>, limit: number) {
+  const { nextBacklogBatch, MAX_INGEST_ATTEMPTS } = await import('../services/gmail-sync')
+
+  const listing = buildMailbox(size, outcomes)
+  const outcomeOf = new Map(listing.map(m => [m.id, m.outcome]))
+  const emailLogs = new Set<string>()
+  const skipped = new Set<string>()
+  const attempts = new Map<string, number>()
+  const ingestOrder: string[] = []
+
+  for (let run = 1; run <= 50; run++) {
+    const done = new Set([...emailLogs, ...skipped])
+    const { batch, remaining } = nextBacklogBatch(listing.map(m => m.id), done, limit)
+    let retries = 0
+
+    for (const id of batch) {
+      ingestOrder.push(id)
+      const outcome = outcomeOf.get(id)
+      if (outcome === 'insert') emailLogs.add(id)
+      if (outcome === 'skip') skipped.add(id)
+      if (outcome === 'fail') {
+        const tries = (attempts.get(id) || 0) + 1
+        attempts.set(id, tries)
+        if (tries >= MAX_INGEST_ATTEMPTS) skipped.add(id)
+        else retries++
+      }
+    }
+
+    if (remaining + retries === 0) {
+      return { runs: run, emailLogs, skipped, attempts, ingestOrder }
+    }
+  }
+
+  throw new Error('Backlog never drained')
+}
+
+async function testSkippedMessageDrains() {
+  // 70 messages, limit 30: one spam message in the oldest batch
+  const { runs, emailLogs, skipped, ingestOrder } = await runBacklog(70, { 5: 'skip' }, 30)
+
+  assert.equal(runs, 3)
+  assert.equal(emailLogs.size, 69)
+  assert.deepEqual([...skipped], ['msg-005'])
+  // Never ingested twice, and the oldest first
+  assert.equal(ingestOrder.filter(id => id === 'msg-005').length, 1)
+  assert.equal(ingestOrder[0], 'msg-001')
+  assert.equal(ingestOrder[ingestOrder.length - 1], 'msg-070')
+  console.log('✓ Backlog with a skipped message drains')
+}
+
+async function testFailingMessageIsGivenUpOn() {
+  const { MAX_INGEST_ATTEMPTS } = await import('../services/gmail-sync')
+  const { runs, emailLogs, skipped, attempts } = await runBacklog(10, { 3: 'fail' }, 30)
+
+  assert.equal(runs, MAX_INGEST_ATTEMPTS)
+  assert.equal(emailLogs.size, 9)
+  assert.deepEqual([...skipped], ['msg-003'])
+  assert.equal(attempts.get('msg-003'), MAX_INGEST_ATTEMPTS)
+  console.log('✓ Message that keeps failing is given up on')
+}
+
+async function main() {
+  console.log('📬 Gmail Sync Backlog Test\n')
+
+  try {
+    await testSkippedMessageDrains()
+    await testFailingMessageIsGivenUpOn()
+    console.log('\n✅ All passed')
+  } catch (error: any) {
+    console.error('❌ Test failed:', error.message)
+    process.exit(1)
+  }
+}
+
+main()
@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import NotebookLMService, { NotebookSource } from '../integrations/notebooklm-service'
+import { complete, extractJson } from '@/lib/llm-gateway'
+import { listPricingRules, priceLine } from '@/services/pricing-rules'
 import * as path from 'path'
 import * as fs from 'fs'
 import { randomUUID } from 'crypto'
@@ -201,7 +203,11 @@ export class MarketingAgent {
     }
   }
 
-  async calculateResellerPricing(): Promise<Array<Product & { reseller_price: number, margin: number }>> {
+  /**
+   * Reseller prices from the pricing rules (reseller channel). `tier` is the
+   * reseller's discount tier for tier-specific rules.
+   */
+  async calculateResellerPricing(tier?: string): Promise<Array<Product & { reseller_price: number, margin: number, pricing_rule: string | null }>> {
     try {
       const { data: products, error } = await supabase
         .from('products')
@@ -216,15 +222,25 @@ export class MarketingAgent {
         return []
       }
 
+      const rules = await listPricingRules({ channel: 'reseller' })
+
       return products.map((product: any) => {
         const cost = product.cost || product.price * 0.6
-        const resellerPrice = cost * 1.10
-        const margin = ((resellerPrice - cost) / resellerPrice) * 100
+        const priced = priceLine({
+          channel: 'reseller',
+          productName: product.name,
+          category: product.category,
+          brand: product.metadata?.brand,
+          customerTier: tier,
+          quantity: 1,
+          costPrice: cost
+        }, rules, 10)
 
         return {
           ...product,
-          reseller_price: Math.round(resellerPrice * 100) / 100,
-          margin: Math.round(margin * 100) / 100
+          reseller_price: priced.unit_price,
+          margin: priced.margin_percentage,
+          pricing_rule: priced.rule_name
         }
       })
     } catch (error) {
@@ -344,44 +360,17 @@ Format your response as JSON:
   "text_preview": "preview text for email clients"
 }`
 
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': ANTHROPIC_API_KEY,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-20241022',
-          max_tokens: 4096,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
+      const { text: content } = await complete({
+        agent: 'Marketing Agent',
+        operation: 'newsletter_generation',
+        model: 'claude-3-5-sonnet-20241022',
+        maxTokens: 4096,
+        prompt
       })
-
-      if (!response.ok) {
-        throw new Error(`Claude API error: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      const content = data.content[0].text
       
-      let newsletterData
+      let newsletterData: any
       try {
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          newsletterData = JSON.parse(jsonMatch[0])
-        } else {
-          newsletterData = {
-            subject: 'New Products & Trending Items',
-            html_content: content,
-            text_preview: 'Check out our latest products'
-          }
-        }
+        newsletterData = extractJson(content)
       } catch {
         newsletterData = {
           subject: 'New Products & Trending Items',
@@ -1002,7 +991,7 @@ Make it visually compelling and suitable for sharing on social media platforms.`
         throw new Error(`Approved reseller not found: ${resellerError?.message}`)
       }
 
-      const resellerPricing = await this.calculateResellerPricing()
+      const resellerPricing = await this.calculateResellerPricing(reseller.discount_tier)
 
       const { data: resellerOrders } = await supabase
         .from('reseller_orders')
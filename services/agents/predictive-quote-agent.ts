@@ -153,6 +153,35 @@ export class PredictiveQuoteAgent {
     }
   }
 
+  /**
+   * Generate a proactive quote for a stored opportunity once a reviewer has
+   * approved it
+   */
+  async actionOpportunity(customerEmail: string): Promise<{
+    success: boolean
+    error?: string
+  }> {
+    const { data: opportunity, error } = await this.supabase
+      .from('predictive_quote_opportunities')
+      .select('*')
+      .eq('customer_email', customerEmail)
+      .single()
+
+    if (error || !opportunity) {
+      return { success: false, error: `No predictive opportunity found for ${customerEmail}` }
+    }
+
+    if (opportunity.status === 'quote_generated' || opportunity.status === 'dismissed') {
+      return { success: false, error: `Opportunity already ${opportunity.status}` }
+    }
+
+    const generated = await this.generateProactiveQuote(opportunity as PredictiveQuoteOpportunity)
+
+    return generated
+      ? { success: true }
+      : { success: false, error: 'Proactive quote was not generated (existing quote in progress or insert failed)' }
+  }
+
   private async getActiveCustomers(): Promise<Array<{ email: string; name: string | null }>> {
     const sixMonthsAgo = new Date()
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
@@ -1,6 +1,21 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { gmailService } from '../integrations/gmail-service'
 import { quotePricingIntelligence } from '../../lib/quote-pricing-intelligence'
+import { acquireLocks, releaseLocks, isLockHeld, getCustomerResourceId } from '../resource-locks'
+import { publishEvent } from '../event-bus'
+import { productSupplierLearner } from '../../lib/product-supplier-learner'
+import { createQuoteVersion, getCurrentVersion, calculateQuoteTotals, TIER_LABELS, type QuoteOptionTier } from '../quote-versions'
+import { getPortalUrl } from '../quote-portal'
+import { listPricingRules, priceLine, categorizeProduct } from '../pricing-rules'
+import { getRateSnapshot, convertToZar, normalizeCurrency, BASE_CURRENCY, EXCHANGE_RATE_MAX_AGE_DAYS, type ExchangeRateSnapshot } from '../exchange-rates'
+import type { LockResult } from '../types'
+import { getAwardedSuppliers } from '../rfq-rounds'
+
+// Quote generation (pricing, PDF, email draft) runs well past the default lock TTL
+const QUOTE_LOCK_TTL_SECONDS = 300
+
+// Alternatives quoted per requested product, cheapest first
+const MAX_OPTIONS_PER_PRODUCT = 3
 
 interface QuoteRequestItem {
   product_name: string
@@ -30,6 +45,7 @@ interface SupplierResponse {
       unit_price?: number
       quantity?: number
       total_price?: number
+      currency?: string
       lead_time?: string
       stock_availability?: string
       notes?: string
@@ -49,17 +65,29 @@ interface ProductQuote {
   product_name: string
   quantity: number
   specifications?: string
+  supplier_response_id: string
+  supplier_id: string
   supplier_name: string
   supplier_company: string
+  /** In ZAR */
   unit_price: number
   total_price: number
+  /** The supplier's price before conversion */
+  original_unit_price: number
+  original_currency: string
+  exchange_rate?: ExchangeRateSnapshot
   lead_time?: string
   stock_availability?: string
+  /** Set when several products were priced for one request - the requested product name */
+  option_group?: string
+  tier?: QuoteOptionTier
+  recommended?: boolean
 }
 
 interface QuoteDetails {
   quoteId: string
   quoteNumber: string
+  version: number
   customerName: string
   customerEmail: string
   companyName?: string
@@ -72,27 +100,26 @@ interface QuoteDetails {
     total_price: number
     supplier?: string
     lead_time?: string
+    option_group?: string
+    tier?: QuoteOptionTier
+    recommended?: boolean
+    metadata?: any
   }>
   subtotal: number
   tax?: number
   shipping?: number
   total: number
   currency: string
+  /** Rates used to convert supplier prices to ZAR */
+  exchangeRates: ExchangeRateSnapshot[]
   validUntil: string
   notes?: string
   terms?: string
   metadata?: any
 }
 
-interface PricingRule {
-  id: string
-  rule_name: string
-  product_category?: string
-  markup_percentage: number
-  min_margin?: number
-  max_discount?: number
-  conditions?: any
-}
+const optionLabel = (item: { tier?: QuoteOptionTier; recommended?: boolean }) =>
+  item.tier ? ` (${TIER_LABELS[item.tier]} option${item.recommended ? ', recommended' : ''})` : ''
 
 export class QuoteAgent {
   private supabase: SupabaseClient | null = null
@@ -107,13 +134,20 @@ export class QuoteAgent {
     return this.supabase
   }
 
-  async generateCustomerQuote(quoteRequestId: string): Promise<{
+  /**
+   * Build the quote, PDF and draft email and queue them for approval.
+   * `revisionNotes` are changes the customer asked for, shown on the approval
+   * task so the approver edits the new version before sending it.
+   */
+  async generateCustomerQuote(quoteRequestId: string, options: { revisionNotes?: string } = {}): Promise<{
     success: boolean
     quoteNumber?: string
     pdfUrl?: string
     taskId?: string
     error?: string
   }> {
+    let heldLocks: LockResult[] = []
+
     try {
       await this.logToSquad(`Starting quote generation for request ${quoteRequestId}`)
 
@@ -122,7 +156,19 @@ export class QuoteAgent {
         throw new Error(`Quote request ${quoteRequestId} not found`)
       }
 
-      const supplierResponses = await this.fetchSupplierResponses(quoteRequestId)
+      const locks = await acquireLocks([
+        { resourceType: 'quote', resourceId: quoteRequestId, agent: 'quote_agent', action: 'generate_quote', ttlSeconds: QUOTE_LOCK_TTL_SECONDS },
+        { resourceType: 'customer', resourceId: getCustomerResourceId(quoteRequest.customer_email), agent: 'quote_agent', action: 'generate_quote', ttlSeconds: QUOTE_LOCK_TTL_SECONDS }
+      ])
+      if (!locks.acquired) {
+        throw new Error(`${locks.heldBy.resourceType} is locked by ${locks.heldBy.agent} (${locks.heldBy.action})`)
+      }
+      heldLocks = locks.locks
+
+      const supplierResponses = await this.fetchSupplierResponses(
+        quoteRequestId,
+        quoteRequest.metadata?.requoted_at || quoteRequest.created_at
+      )
       if (supplierResponses.length === 0) {
         throw new Error('No supplier responses found for this quote request')
       }
@@ -131,7 +177,8 @@ export class QuoteAgent {
 
       const bestQuotes = await this.selectBestPricing(
         quoteRequest.requested_products,
-        supplierResponses
+        supplierResponses,
+        await getAwardedSuppliers(quoteRequestId)
       )
 
       if (bestQuotes.length === 0) {
@@ -148,6 +195,13 @@ export class QuoteAgent {
         throw new Error('Failed to generate or store PDF')
       }
 
+      // Don't write to the customer if a higher-priority agent took over meanwhile
+      for (const { lock } of heldLocks) {
+        if (!(await isLockHeld(lock))) {
+          throw new Error(`Lost lock on ${lock.resourceType} ${lock.resourceId} to a higher-priority agent`)
+        }
+      }
+
       await this.updateQuoteRequestWithPdf(quoteRequestId, pdfUrl)
 
       const { draftId, previewUrl } = await this.draftCustomerEmail(
@@ -156,13 +210,50 @@ export class QuoteAgent {
         pdfUrl
       )
 
+      const version = await createQuoteVersion({
+        quoteRequestId,
+        quoteNumber: quoteDetails.quoteNumber,
+        source: 'generated',
+        version: quoteDetails.version,
+        items: quoteDetails.items.map(item => ({
+          id: item.id,
+          product_name: item.product_name,
+          description: item.description,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          total_price: item.total_price,
+          supplier: item.supplier,
+          lead_time: item.lead_time,
+          cost_price: item.metadata?.cost_price ?? null,
+          markup_percentage: item.metadata?.markup_percentage ?? null,
+          supplier_response_id: item.metadata?.supplier_response_id ?? null,
+          cost_currency: item.metadata?.cost_currency,
+          cost_price_original: item.metadata?.cost_price_original,
+          option_group: item.option_group,
+          tier: item.tier,
+          recommended: item.recommended
+        })),
+        pdfUrl,
+        createdBy: 'Quote Agent',
+        shipping: quoteDetails.shipping,
+        currency: quoteDetails.currency,
+        exchangeRates: quoteDetails.exchangeRates,
+        validUntil: quoteDetails.validUntil,
+        notes: quoteDetails.notes,
+        terms: quoteDetails.terms,
+        emailDraftId: draftId,
+        metadata: { intelligent_pricing: quoteDetails.metadata?.intelligent_pricing }
+      })
+
       const taskId = await this.createApprovalTask(
         quoteRequestId,
         quoteRequest,
         quoteDetails,
         pdfUrl,
         previewUrl,
-        draftId
+        draftId,
+        version.id,
+        options.revisionNotes
       )
 
       await this.logToSquad(
@@ -170,6 +261,12 @@ export class QuoteAgent {
         { quote_request_id: quoteRequestId, task_id: taskId }
       )
 
+      await publishEvent(
+        'quote.generated',
+        { quoteRequestId, quoteNumber: quoteDetails.quoteNumber, pdfUrl, approvalTaskId: taskId },
+        { source: 'Quote Agent', correlationId: quoteRequestId }
+      ).catch(err => console.error('Failed to publish quote.generated:', err))
+
       return {
         success: true,
         quoteNumber: quoteDetails.quoteNumber,
@@ -184,6 +281,8 @@ export class QuoteAgent {
         success: false,
         error: error.message
       }
+    } finally {
+      await releaseLocks(heldLocks)
     }
   }
 
@@ -202,7 +301,10 @@ export class QuoteAgent {
     return data as QuoteRequest
   }
 
-  private async fetchSupplierResponses(quoteRequestId: string): Promise<SupplierResponse[]> {
+  /**
+   * Supplier responses of the current round (a re-quote only uses fresh prices)
+   */
+  private async fetchSupplierResponses(quoteRequestId: string, since: string): Promise<SupplierResponse[]> {
     const { data, error } = await this.getSupabase()
       .from('email_supplier_interactions')
       .select(`
@@ -211,6 +313,7 @@ export class QuoteAgent {
       `)
       .eq('quote_request_id', quoteRequestId)
       .eq('interaction_type', 'quote_response')
+      .gte('created_at', since)
 
     if (error) {
       console.error('Error fetching supplier responses:', error)
@@ -220,65 +323,140 @@ export class QuoteAgent {
     return data as SupplierResponse[]
   }
 
+  /**
+   * Best quote per requested product. When an RFQ round was awarded, only
+   * the awarded supplier's prices are used for each product it won.
+   */
   private async selectBestPricing(
     requestedProducts: QuoteRequestItem[],
-    supplierResponses: SupplierResponse[]
+    supplierResponses: SupplierResponse[],
+    awardedSuppliers: Map<string, string> | null = null
   ): Promise<ProductQuote[]> {
     const productQuotes: ProductQuote[] = []
 
+    // Importers quote in USD/EUR - compare everything in ZAR
+    const currencies = supplierResponses.flatMap(response =>
+      Object.entries(response.pricing_data || {})
+        .filter(([key]) => key !== 'metadata')
+        .map(([, priceInfo]) => normalizeCurrency(priceInfo?.currency))
+    )
+    const rates = await getRateSnapshot(currencies)
+    const missingRates = new Set(currencies.filter(code => code !== BASE_CURRENCY && !rates.has(code)))
+    if (missingRates.size > 0) {
+      await this.logToSquad(
+        `⚠️ No exchange rate for ${Array.from(missingRates).join(', ')} - supplier prices in these currencies were skipped`
+      )
+    }
+
     for (const product of requestedProducts) {
       const productName = product.product_name.toLowerCase()
-      let bestQuote: ProductQuote | null = null
-      let bestScore = -1
+      // Products suppliers offered in place of this one before count as matches too
+      const knownAlternatives = (await productSupplierLearner.getKnownAlternatives(product.product_name))
+        .map(name => name.toLowerCase())
+        .filter(Boolean)
+
+      // Best-scoring quote per distinct priced product
+      const candidates = new Map<string, { quote: ProductQuote; score: number }>()
+      const awardedSupplierId = awardedSuppliers?.get(productName)
 
       for (const response of supplierResponses) {
         if (!response.pricing_data || typeof response.pricing_data !== 'object') {
           continue
         }
+        if (awardedSupplierId && response.supplier.id !== awardedSupplierId) {
+          continue
+        }
 
         for (const [pricedProduct, priceInfo] of Object.entries(response.pricing_data)) {
-          if (pricedProduct.toLowerCase().includes(productName) || 
-              productName.includes(pricedProduct.toLowerCase())) {
+          const pricedName = pricedProduct.toLowerCase()
+          if (pricedName.includes(productName) ||
+              productName.includes(pricedName) ||
+              knownAlternatives.some(alternative => pricedName.includes(alternative))) {
             
             if (!priceInfo.unit_price || priceInfo.unit_price <= 0) {
               continue
             }
 
+            const currency = normalizeCurrency(priceInfo.currency)
+            if (missingRates.has(currency)) {
+              continue
+            }
+            const unitPrice = convertToZar(priceInfo.unit_price, currency, rates)
+
             const reliabilityScore = response.supplier.reliability_score || 50
-            const priceScore = 100 - (priceInfo.unit_price / 1000)
+            const priceScore = 100 - (unitPrice / 1000)
             const totalScore = (reliabilityScore * 0.6) + (priceScore * 0.4)
 
-            if (totalScore > bestScore) {
-              bestScore = totalScore
-              bestQuote = {
-                product_name: product.product_name,
+            // Suppliers spell the same model differently ("26CT" vs "26-CT")
+            const key = pricedName.replace(/[^a-z0-9]/g, '')
+            const existing = candidates.get(key)
+            if (!existing || totalScore > existing.score) {
+              candidates.set(key, { score: totalScore, quote: {
+                product_name: pricedProduct,
                 quantity: product.quantity,
                 specifications: product.specifications,
+                supplier_response_id: response.id,
+                supplier_id: response.supplier.id,
                 supplier_name: response.supplier.name,
                 supplier_company: response.supplier.company,
-                unit_price: priceInfo.unit_price,
-                total_price: priceInfo.unit_price * product.quantity,
+                unit_price: unitPrice,
+                total_price: unitPrice * product.quantity,
+                original_unit_price: priceInfo.unit_price,
+                original_currency: currency,
+                exchange_rate: rates.get(currency),
                 lead_time: priceInfo.lead_time,
                 stock_availability: priceInfo.stock_availability
-              }
+              } })
             }
           }
         }
       }
 
-      if (bestQuote) {
-        productQuotes.push(bestQuote)
-      }
+      productQuotes.push(...this.tierOptions(product, Array.from(candidates.values())))
     }
 
     return productQuotes
   }
 
+  /**
+   * One quote line per requested product, or - when suppliers priced several
+   * products for it - good/better/best options with the best-scoring one
+   * recommended
+   */
+  private tierOptions(
+    product: QuoteRequestItem,
+    candidates: Array<{ quote: ProductQuote; score: number }>
+  ): ProductQuote[] {
+    if (candidates.length === 0) return []
+
+    const best = candidates.reduce((top, candidate) => candidate.score > top.score ? candidate : top)
+    if (candidates.length === 1) {
+      return [{ ...best.quote, product_name: product.product_name }]
+    }
+
+    const byPrice = [...candidates].sort((a, b) => a.quote.unit_price - b.quote.unit_price)
+    const options = byPrice.length <= MAX_OPTIONS_PER_PRODUCT
+      ? byPrice
+      : Array.from(new Set([byPrice[0], best, byPrice[byPrice.length - 1]]))
+          .sort((a, b) => a.quote.unit_price - b.quote.unit_price)
+    const tiers: QuoteOptionTier[] = options.length === 2 ? ['good', 'best'] : ['good', 'better', 'best']
+
+    return options.map((option, index) => ({
+      ...option.quote,
+      option_group: product.product_name,
+      tier: tiers[index],
+      recommended: option === best || undefined
+    }))
+  }
+
   private async formatQuoteDetails(
     quoteRequest: QuoteRequest,
     productQuotes: ProductQuote[]
   ): Promise<QuoteDetails> {
-    const quoteNumber = this.generateQuoteNumber()
+    // Regenerating keeps the quote number; the new PDF becomes the next version
+    const previousVersion = await getCurrentVersion(quoteRequest.id)
+    const quoteNumber = previousVersion?.quote_number || this.generateQuoteNumber()
+    const version = (previousVersion?.version || 0) + 1
     
     const customerSegment = await this.determineCustomerSegment(quoteRequest)
     const urgencyLevel = await this.determineUrgencyLevel(quoteRequest)
@@ -295,7 +473,7 @@ export class QuoteAgent {
       customerSegment,
       products: productQuotes.map(q => ({
         name: q.product_name,
-        category: this.categorizeProduct(q.product_name),
+        category: categorizeProduct(q.product_name),
         quantity: q.quantity,
         costPrice: q.unit_price
       })),
@@ -315,8 +493,10 @@ export class QuoteAgent {
       }
     )
 
+    const pricingRules = await listPricingRules({ channel: 'quote' })
+
     const items = await Promise.all(productQuotes.map(async (quote, index) => {
-      const productCategory = this.categorizeProduct(quote.product_name)
+      const productCategory = categorizeProduct(quote.product_name)
       
       let markup = intelligentPricing.base_markup
       
@@ -329,8 +509,18 @@ export class QuoteAgent {
 
       markup = Math.max(intelligentPricing.min_markup, Math.min(intelligentPricing.max_markup, markup))
 
+      // Pricing rules (tier, brand, supplier, volume breaks) override the intelligent markup; margin floors always apply
       const costPrice = quote.unit_price
-      const sellingPrice = costPrice * (1 + markup / 100)
+      const priced = priceLine({
+        channel: 'quote',
+        productName: quote.product_name,
+        category: productCategory,
+        supplierId: quote.supplier_id,
+        customerTier: customerSegment,
+        quantity: quote.quantity,
+        costPrice
+      }, pricingRules, markup)
+      const sellingPrice = priced.unit_price
 
       return {
         id: `item-${index + 1}`,
@@ -341,36 +531,52 @@ export class QuoteAgent {
         total_price: Math.round(sellingPrice * quote.quantity * 100) / 100,
         supplier: quote.supplier_company,
         lead_time: quote.lead_time,
+        option_group: quote.option_group,
+        tier: quote.tier,
+        recommended: quote.recommended,
         metadata: {
           cost_price: costPrice,
-          markup_percentage: markup,
+          cost_currency: quote.original_currency,
+          cost_price_original: quote.original_unit_price,
+          exchange_rate: quote.exchange_rate?.rate_to_zar ?? null,
+          markup_percentage: priced.markup_percentage,
+          pricing_rule_id: priced.rule_id,
+          pricing_rule_name: priced.rule_name,
+          margin_floor_applied: priced.floor_applied,
           product_category: productCategory,
+          supplier_response_id: quote.supplier_response_id,
           intelligent_pricing_applied: true,
           confidence: intelligentPricing.confidence
         }
       }
     }))
 
-    const subtotal = items.reduce((sum, item) => sum + item.total_price, 0)
-    const tax = subtotal * 0.15
+    // Only the recommended option of each product counts towards the totals
     const shipping = 0
-    const total = subtotal + tax + shipping
+    const { subtotal, tax, total } = calculateQuoteTotals(items, shipping)
 
     const validUntil = new Date()
     validUntil.setDate(validUntil.getDate() + 30)
 
+    const exchangeRates = new Map<string, ExchangeRateSnapshot>()
+    for (const quote of productQuotes) {
+      if (quote.exchange_rate) exchangeRates.set(quote.exchange_rate.currency, quote.exchange_rate)
+    }
+
     return {
       quoteId: quoteRequest.id,
       quoteNumber,
+      version,
       customerName: quoteRequest.customer_name,
       customerEmail: quoteRequest.customer_email,
       companyName: quoteRequest.metadata?.company_name,
       items,
-      subtotal: Math.round(subtotal * 100) / 100,
-      tax: Math.round(tax * 100) / 100,
+      subtotal,
+      tax,
       shipping,
-      total: Math.round(total * 100) / 100,
-      currency: 'ZAR',
+      total,
+      currency: BASE_CURRENCY,
+      exchangeRates: Array.from(exchangeRates.values()),
       validUntil: validUntil.toISOString(),
       notes: 'Thank you for your inquiry. Please review the quote below.',
       terms: 'Payment terms: Net 30 days. Prices valid for 30 days from quote date.',
@@ -385,7 +591,9 @@ export class QuoteAgent {
           unit_price: item.unit_price,
           cost_price: item.metadata?.cost_price,
           markup_percentage: item.metadata?.markup_percentage,
-          total_price: item.total_price
+          total_price: item.total_price,
+          option_group: item.option_group,
+          recommended: item.recommended
         })),
         total_amount: total,
         customer_segment: customerSegment,
@@ -404,20 +612,6 @@ export class QuoteAgent {
     }
   }
 
-  private async fetchMarkupRules(): Promise<PricingRule[]> {
-    const { data, error } = await this.getSupabase()
-      .from('pricing_rules')
-      .select('*')
-      .eq('active', true)
-
-    if (error) {
-      console.error('Error fetching pricing rules:', error)
-      return []
-    }
-
-    return data || []
-  }
-
   private async calculateAverageMarkup(productQuotes: ProductQuote[]): Promise<number> {
     const supplierIds = new Set(productQuotes.map(q => q.supplier_company))
     const promises = Array.from(supplierIds).map(async (supplierCompany) => {
@@ -442,25 +636,6 @@ export class QuoteAgent {
     return 25
   }
 
-  private findApplicableMarkup(
-    productName: string,
-    rules: PricingRule[],
-    defaultMarkup: number
-  ): number {
-    const matchingRule = rules.find(rule => {
-      if (rule.product_category) {
-        return productName.toLowerCase().includes(rule.product_category.toLowerCase())
-      }
-      return false
-    })
-
-    if (matchingRule) {
-      return matchingRule.markup_percentage
-    }
-
-    return defaultMarkup
-  }
-
   private generateQuoteNumber(): string {
     const now = new Date()
     const year = now.getFullYear()
@@ -528,6 +703,7 @@ export class QuoteAgent {
     pdfUrl: string
   ): Promise<{ draftId: string; previewUrl: string }> {
     const subject = `Your Quote: ${quoteDetails.quoteNumber}`
+    const portalUrl = getPortalUrl(quoteRequest.id, quoteDetails.version)
     
     const emailBody = `
       <html>
@@ -547,11 +723,14 @@ export class QuoteAgent {
           <h4>Items Quoted:</h4>
           <ul>
             ${quoteDetails.items.map(item => `
-              <li><strong>${item.product_name}</strong> - Qty: ${item.quantity} @ ${quoteDetails.currency} ${item.unit_price.toFixed(2)} each</li>
+              <li><strong>${item.product_name}</strong>${optionLabel(item)} - Qty: ${item.quantity} @ ${quoteDetails.currency} ${item.unit_price.toFixed(2)} each</li>
             `).join('')}
           </ul>
           
           <p>The attached PDF contains the complete quote with detailed pricing, terms, and conditions.</p>
+          ${portalUrl ? `
+          <p style="margin: 20px 0;"><a href="${portalUrl}" style="background-color: #007bff; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">View and accept your quote online</a></p>
+          ` : ''}
           
           <p>If you have any questions or would like to proceed with this order, please don't hesitate to contact us.</p>
           
@@ -585,6 +764,7 @@ export class QuoteAgent {
         metadata: {
           quote_request_id: quoteRequest.id,
           quote_number: quoteDetails.quoteNumber,
+          quote_version: quoteDetails.version,
           created_by: this.agentName,
           gmail_draft_id: gmailDraftResult.draftId
         }
@@ -603,14 +783,20 @@ export class QuoteAgent {
     quoteDetails: QuoteDetails,
     pdfUrl: string,
     emailPreviewUrl: string,
-    draftId: string
+    draftId: string,
+    versionId: string,
+    revisionNotes?: string
   ): Promise<string> {
+    const revisionSection = revisionNotes
+      ? `\n**Customer requested changes (edit the quote before approving):**\n${revisionNotes}\n`
+      : ''
+
     const { data, error } = await this.getSupabase()
       .from('squad_tasks')
       .insert({
         title: `Approve Quote ${quoteDetails.quoteNumber} for ${quoteRequest.customer_name}`,
         description: `A quote has been generated for ${quoteRequest.customer_name} (${quoteRequest.customer_email}).
-
+${revisionSection}
 **Quote Details:**
 - Quote Number: ${quoteDetails.quoteNumber}
 - Total Items: ${quoteDetails.items.length}
@@ -623,15 +809,18 @@ export class QuoteAgent {
 3. Approve and send, or request changes
 
 **Items:**
-${quoteDetails.items.map(item => `- ${item.product_name} (Qty: ${item.quantity}) @ ${quoteDetails.currency} ${item.unit_price.toFixed(2)} = ${quoteDetails.currency} ${item.total_price.toFixed(2)}`).join('\n')}`,
+${quoteDetails.items.map(item => `- ${item.product_name}${optionLabel(item)} (Qty: ${item.quantity}) @ ${quoteDetails.currency} ${item.unit_price.toFixed(2)} = ${quoteDetails.currency} ${item.total_price.toFixed(2)}`).join('\n')}`,
         status: 'new',
         assigned_agent: this.agentName,
         priority: 'high',
         mentions_kenny: true,
+        requires_approval: true,
         deliverable_url: pdfUrl,
         metadata: {
           quote_request_id: quoteRequestId,
           quote_number: quoteDetails.quoteNumber,
+          quote_version_id: versionId,
+          quote_version: quoteDetails.version,
           pdf_url: pdfUrl,
           email_preview_url: emailPreviewUrl,
           draft_id: draftId,
@@ -639,8 +828,11 @@ ${quoteDetails.items.map(item => `- ${item.product_name} (Qty: ${item.quantity})
           customer_name: quoteRequest.customer_name,
           total_amount: quoteDetails.total,
           currency: quoteDetails.currency,
+          exchange_rates: quoteDetails.exchangeRates,
+          exchange_rate_max_age_days: EXCHANGE_RATE_MAX_AGE_DAYS,
           action_required: 'approve_quote',
-          created_by_agent: this.agentName
+          created_by_agent: this.agentName,
+          ...(revisionNotes && { revision_notes: revisionNotes })
         }
       })
       .select()
@@ -723,8 +915,9 @@ ${quoteDetails.items.map(item => `- ${item.product_name} (Qty: ${item.quantity})
   }
 
   private determineOrderSize(productQuotes: ProductQuote[]): 'small' | 'medium' | 'large' | 'enterprise' {
-    const totalValue = productQuotes.reduce((sum, q) => sum + (q.unit_price * q.quantity), 0)
-    const itemCount = productQuotes.reduce((sum, q) => sum + q.quantity, 0)
+    const ordered = productQuotes.filter(q => !q.option_group || q.recommended)
+    const totalValue = ordered.reduce((sum, q) => sum + (q.unit_price * q.quantity), 0)
+    const itemCount = ordered.reduce((sum, q) => sum + q.quantity, 0)
 
     if (totalValue > 100000 || itemCount > 100) {
       return 'enterprise'
@@ -737,36 +930,6 @@ ${quoteDetails.items.map(item => `- ${item.product_name} (Qty: ${item.quantity})
     }
   }
 
-  private categorizeProduct(productName: string): string {
-    const lower = productName.toLowerCase()
-
-    if (lower.includes('speaker') || lower.includes('amplifier') || lower.includes('mixer') || 
-        lower.includes('microphone') || lower.includes('audio') || lower.includes('sound')) {
-      return 'audio'
-    }
-
-    if (lower.includes('projector') || lower.includes('screen') || lower.includes('display') || 
-        lower.includes('monitor') || lower.includes('video') || lower.includes('led') || 
-        lower.includes('visual')) {
-      return 'visual'
-    }
-
-    if (lower.includes('cable') || lower.includes('connector') || lower.includes('adapter') || 
-        lower.includes('mount') || lower.includes('bracket') || lower.includes('stand')) {
-      return 'cables'
-    }
-
-    if (lower.includes('light') || lower.includes('lighting') || lower.includes('lamp')) {
-      return 'lighting'
-    }
-
-    if (lower.includes('control') || lower.includes('processor') || lower.includes('switcher')) {
-      return 'control_systems'
-    }
-
-    return 'general'
-  }
-
   private async updateQuoteRequestMetadata(quoteRequestId: string, metadata: {
     customer_segment?: string
     urgency_level?: string
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import { createConnection, Connection, RowDataPacket } from 'mysql2/promise'
+import { completeJson } from '@/lib/llm-gateway'
 import type {
   ProductSchemaLD,
   BreadcrumbListLD,
@@ -220,12 +221,6 @@ async function generateSEOContent(
   context: any
 ): Promise<ClaudeResponse> {
   try {
-    const apiKey = process.env.ANTHROPIC_API_KEY
-    
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY not configured')
-    }
-
     const prompt = `You are an expert SEO copywriter for e-commerce products. Generate optimized content for the following product:
 
 Product Name: ${productName}
@@ -247,39 +242,24 @@ Format your response as JSON with the following structure:
   "meta_keywords": ["keyword1", "keyword2", ...]
 }`
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
+    const { data: parsedContent } = await completeJson({
+      agent: 'SEO Agent',
+      operation: 'seo_content_generation',
+      model: 'claude-3-5-sonnet-20241022',
+      maxTokens: 2000,
+      prompt,
+      schema: {
+        type: 'object',
+        required: ['content', 'meta_title', 'meta_description', 'meta_keywords'],
+        properties: {
+          content: { type: 'string', minLength: 1 },
+          meta_title: { type: 'string', minLength: 1 },
+          meta_description: { type: 'string', minLength: 1 },
+          meta_keywords: { type: 'array', items: { type: 'string' } }
+        }
       },
-      body: JSON.stringify({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
     })
 
-    if (!response.ok) {
-      throw new Error(`Claude API returned ${response.status}: ${await response.text()}`)
-    }
-
-    const data = await response.json()
-    const contentText = data.content[0].text
-
-    const jsonMatch = contentText.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error('Failed to parse JSON from Claude response')
-    }
-
-    const parsedContent = JSON.parse(jsonMatch[0])
-
     return {
       content: parsedContent.content,
       meta_title: parsedContent.meta_title,
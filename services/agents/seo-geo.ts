@@ -6,7 +6,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js'
-import Anthropic from '@anthropic-ai/sdk'
+import { completeJson } from '@/lib/llm-gateway'
+import type { JsonSchema } from '@/lib/json-schema'
 import type {
   GEOAnalysisResult,
   GEORecommendation,
@@ -18,9 +19,24 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!
-})
+const GEO_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['ai_visibility_score'],
+  properties: {
+    ai_visibility_score: { type: 'number', minimum: 0, maximum: 100 },
+    recommendations: { type: 'array' }
+  }
+}
+
+const GEO_OPTIMIZATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['optimized_content', 'changes_made'],
+  properties: {
+    optimized_content: { type: 'string', minLength: 1 },
+    changes_made: { type: 'array' },
+    estimated_score_improvement: { type: 'number' }
+  }
+}
 
 async function logToSquadMessages(fromAgent: string, message: string, data: any = null) {
   await supabase
@@ -135,22 +151,15 @@ Focus on what makes content citable by AI assistants. Consider:
 - Authority signals that build trust
 - Content that serves user intent directly`
 
-    const message = await anthropic.messages.create({
+    const { data: analysis } = await completeJson({
+      agent: 'SEO Agent',
+      operation: 'geo_analysis',
       model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2000,
-      messages: [{ role: 'user', content: prompt }]
+      maxTokens: 2000,
+      prompt,
+      schema: GEO_ANALYSIS_SCHEMA
     })
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : ''
-
-    // Clean and parse JSON response
-    let cleanJson = responseText.trim()
-    if (cleanJson.startsWith('```')) {
-      cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-    }
-
-    const analysis = JSON.parse(cleanJson)
-
     const result: GEOAnalysisResult = {
       url,
       product_id: productId,
@@ -217,22 +226,15 @@ Respond with JSON ONLY:
   "estimated_score_improvement": <5-30 points expected improvement>
 }`
 
-    const message = await anthropic.messages.create({
+    const { data: result } = await completeJson({
+      agent: 'SEO Agent',
+      operation: 'geo_content_optimize',
       model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 3000,
-      messages: [{ role: 'user', content: prompt }]
+      maxTokens: 3000,
+      prompt,
+      schema: GEO_OPTIMIZATION_SCHEMA
     })
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : ''
-
-    // Clean and parse JSON response
-    let cleanJson = responseText.trim()
-    if (cleanJson.startsWith('```')) {
-      cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-    }
-
-    const result = JSON.parse(cleanJson)
-
     await logToSquadMessages(
       'seo_agent',
       `Content optimized for ${productName}: ${result.changes_made.length} changes made`,
@@ -450,21 +452,14 @@ Respond with JSON ONLY:
   ]
 }`
 
-    const message = await anthropic.messages.create({
+    const { data: result } = await completeJson({
+      agent: 'SEO Agent',
+      operation: 'eeat_enhance',
       model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 1500,
-      messages: [{ role: 'user', content: prompt }]
+      maxTokens: 1500,
+      prompt
     })
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : ''
-
-    let cleanJson = responseText.trim()
-    if (cleanJson.startsWith('```')) {
-      cleanJson = cleanJson.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-    }
-
-    const result = JSON.parse(cleanJson)
-
     await logToSquadMessages(
       'seo_agent',
       `E-E-A-T enhancements generated for ${productName}`,
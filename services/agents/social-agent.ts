@@ -1,6 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import Anthropic from '@anthropic-ai/sdk'
 import { ProductCatalogItem } from './types'
+import { complete } from '@/lib/llm-gateway'
 import { HOME_AUTOMATION_KEYWORDS, getPlatformGuideline, getRandomKeywords, Platform } from './utils'
 import NotebookLMService, { NotebookSource } from '../integrations/notebooklm-service'
 import * as path from 'path'
@@ -9,7 +9,6 @@ import { randomUUID } from 'crypto'
 
 export class SocialMediaAgent {
   private supabase: SupabaseClient | null = null
-  private anthropic: Anthropic | null = null
   private notebookLM: NotebookLMService | null = null
 
   private getSupabase(): SupabaseClient {
@@ -21,15 +20,6 @@ export class SocialMediaAgent {
     return this.supabase
   }
 
-  private getAnthropic(): Anthropic {
-    if (!this.anthropic) {
-      this.anthropic = new Anthropic({
-        apiKey: process.env.ANTHROPIC_API_KEY!,
-      })
-    }
-    return this.anthropic
-  }
-
   private getNotebookLM(): NotebookLMService {
     if (!this.notebookLM) {
       this.notebookLM = new NotebookLMService()
@@ -136,19 +126,15 @@ Create an engaging social media post that:
 Generate ONLY the post content, without any meta-commentary or explanations.`
 
     try {
-      const message = await this.getAnthropic().messages.create({
+      const result = await complete({
+        agent: 'Social Media Agent',
+        operation: 'post_generation',
         model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
+        maxTokens: 1024,
+        prompt
       })
 
-      const textContent = message.content.find(block => block.type === 'text')
-      return textContent ? textContent.text : ''
+      return result.text
     } catch (error: any) {
       console.error('Error generating post content with Claude:', error?.message || error)
       throw new Error(`Failed to generate post content: ${error?.message || 'Unknown error'}`)
@@ -1,6 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { gmailService } from '../integrations/gmail-service'
 import { supplierLearningEngine } from '@/lib/supplier-learning-engine'
+import { getRfqDeadline, openRound } from '../rfq-rounds'
 
 interface QuoteRequestItem {
   product_name: string
@@ -109,8 +110,13 @@ export class SupplierAgent {
         supplier: Supplier
         contact?: SupplierContact
         products: QuoteRequestItem[]
+        recipientEmail: string
+        messageId?: string
       }> = []
 
+      // Bids are compared when everyone has quoted or at the deadline
+      const deadline = getRfqDeadline()
+
       const uniqueSuppliers = this.getUniqueTopSuppliers(productSupplierMap)
 
       for (const supplierData of uniqueSuppliers) {
@@ -126,7 +132,8 @@ export class SupplierAgent {
           supplierData.supplier,
           supplierData.contact,
           productsForSupplier,
-          quoteRequest
+          quoteRequest,
+          deadline
         )
 
         if (emailResult.success) {
@@ -140,28 +147,41 @@ export class SupplierAgent {
           emailsSent.push({
             supplier: supplierData.supplier,
             contact: supplierData.contact,
-            products: productsForSupplier
+            products: productsForSupplier,
+            recipientEmail: emailResult.recipientEmail!,
+            messageId: emailResult.messageId
           })
         }
       }
 
-      await this.updateQuoteRequestStatus(quoteRequestId, 'suppliers_contacted')
+      await openRound({
+        quoteRequestId,
+        items: quoteRequest.items,
+        deadline,
+        suppliers: emailsSent.map(sent => ({
+          supplierId: sent.supplier.id,
+          contactEmail: sent.recipientEmail,
+          contactName: sent.contact?.contact_name || sent.supplier.name,
+          products: sent.products.map(p => p.product_name),
+          gmailMessageId: sent.messageId
+        }))
+      })
 
-      const taskDeadline = new Date()
-      taskDeadline.setHours(taskDeadline.getHours() + 36)
+      await this.updateQuoteRequestStatus(quoteRequestId, 'suppliers_contacted')
 
       const taskId = await this.createTrackingTask(
         quoteRequestId,
         quoteRequest.customer_name,
         emailsSent.length,
-        taskDeadline
+        deadline
       )
 
       await this.logSupplierContactSummary(
         quoteRequestId,
         emailsSent,
         productSupplierMap,
-        taskId
+        taskId,
+        deadline
       )
 
       return {
@@ -380,8 +400,9 @@ export class SupplierAgent {
     supplier: Supplier,
     contact: SupplierContact | undefined,
     products: QuoteRequestItem[],
-    quoteRequest: QuoteRequest
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    quoteRequest: QuoteRequest,
+    deadline: Date
+  ): Promise<{ success: boolean; messageId?: string; recipientEmail?: string; error?: string }> {
     const contactName = contact?.contact_name || supplier.name || 'there'
     const recipientEmail = contact?.email || supplier.email
 
@@ -406,7 +427,7 @@ export class SupplierAgent {
             <pre style="margin: 0; font-family: Arial, sans-serif;">${productsList}</pre>
           </div>
           
-          <p>We would appreciate your response within 24-48 hours if possible.</p>
+          <p>We are comparing quotes at <strong>${deadline.toLocaleString('en-ZA')}</strong> - please reply before then so yours is included.</p>
           
           <p>Please include:</p>
           <ul>
@@ -427,7 +448,8 @@ export class SupplierAgent {
 
     const subject = `Quote Request - ${products.length} item${products.length > 1 ? 's' : ''} - Ref: ${quoteRequest.id.substring(0, 8)}`
 
-    return await gmailService.sendEmail(recipientEmail, subject, emailBody)
+    const result = await gmailService.sendEmail(recipientEmail, subject, emailBody)
+    return { ...result, recipientEmail }
   }
 
   private async logEmailInteraction(
@@ -485,13 +507,14 @@ export class SupplierAgent {
       .from('squad_tasks')
       .insert({
         title: `Track Supplier Responses - Quote ${quoteRequestId.substring(0, 8)}`,
-        description: `Waiting for quotes from ${suppliersContacted} supplier${suppliersContacted > 1 ? 's' : ''} for customer ${customerName}. Expected responses within 24-48 hours.`,
+        description: `Waiting for quotes from ${suppliersContacted} supplier${suppliersContacted > 1 ? 's' : ''} for customer ${customerName}. Bids close ${deadline.toLocaleString('en-ZA')}.`,
         status: 'new',
         assigned_agent: this.agentName,
         priority: 'high',
         mentions_kenny: false,
         deliverable_url: `/quotes/${quoteRequestId}`,
         metadata: {
+          action: 'track_responses',
           quote_request_id: quoteRequestId,
           suppliers_contacted: suppliersContacted,
           deadline: deadline.toISOString(),
@@ -513,7 +536,8 @@ export class SupplierAgent {
     quoteRequestId: string,
     emailsSent: Array<{ supplier: Supplier; contact?: SupplierContact; products: QuoteRequestItem[] }>,
     productSupplierMap: Map<string, RankedSupplier[]>,
-    taskId: string
+    taskId: string,
+    deadline: Date
   ): Promise<void> {
     const summary = emailsSent.map(({ supplier, contact, products }) => {
       const productNames = products.map(p => p.product_name).join(', ')
@@ -533,7 +557,7 @@ ${summary}
 Product-Supplier Mapping:
 ${productBreakdown}
 
-Tracking task created with 24-48h deadline for supplier responses.`
+RFQ round opened - bids close ${deadline.toLocaleString('en-ZA')}.`
 
     await this.getSupabase()
       .from('squad_messages')
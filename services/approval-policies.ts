@@ -0,0 +1,438 @@
+/**
+ * Approval Policy Engine
+ *
+ * Evaluates the stored approval_policies against a task. Policies are checked
+ * in priority order and the first match decides whether the task auto-executes
+ * or needs approval, its severity, the role allowed to approve it and how many
+ * distinct approvers must sign off. Every evaluation is written to
+ * approval_policy_evaluations for audit.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type {
+  ApprovalPolicy,
+  ApprovalPolicyEvaluation,
+  PolicyCondition,
+  Priority,
+  Task
+} from '@/types/squad'
+
+const POLICY_CACHE_TTL_MS = 60 * 1000
+const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || 'Africa/Johannesburg'
+
+const SEVERITIES: Priority[] = ['low', 'medium', 'high', 'urgent']
+const OPERATORS: PolicyCondition['operator'][] = [
+  'eq', 'neq', 'in', 'not_in', 'contains', 'contains_any', 'gt', 'gte', 'lt', 'lte', 'exists', 'between'
+]
+
+export interface PolicyDecision {
+  decision: ApprovalPolicyEvaluation['decision']
+  requiresApproval: boolean
+  severity: Priority
+  requiredRole: string | null
+  requiredApprovals: number
+  policy: ApprovalPolicy | null
+  reason: string
+  context: Record<string, any>
+}
+
+export type PolicyInput = Partial<Omit<ApprovalPolicy, 'id' | 'created_at' | 'updated_at'>>
+
+let policyCache: { policies: ApprovalPolicy[]; loadedAt: number } | null = null
+
+/**
+ * Load enabled policies, highest priority first (cached for a minute)
+ */
+export async function loadPolicies(force: boolean = false): Promise<ApprovalPolicy[]> {
+  if (!force && policyCache && Date.now() - policyCache.loadedAt < POLICY_CACHE_TTL_MS) {
+    return policyCache.policies
+  }
+
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('*')
+    .eq('enabled', true)
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error loading approval policies:', error)
+    return policyCache?.policies || []
+  }
+
+  policyCache = { policies: data || [], loadedAt: Date.now() }
+  return policyCache.policies
+}
+
+export function invalidatePolicyCache(): void {
+  policyCache = null
+}
+
+/**
+ * Current time as HH:MM in the business timezone
+ */
+function getTimeOfDay(now: Date): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: BUSINESS_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(now)
+}
+
+function getPath(source: Record<string, any> | null | undefined, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source)
+}
+
+/**
+ * Resolve a condition field against a task
+ */
+export function getFieldValue(task: Task, field: string, policy: ApprovalPolicy, now: Date = new Date()): any {
+  switch (field) {
+    case 'agent':
+      return task.assigned_agent
+    case 'title':
+      return task.title
+    case 'priority':
+      return task.priority
+    case 'amount': {
+      const amount = getPath(task as Record<string, any>, policy.amount_field || 'metadata.amount')
+      return amount == null || amount === '' ? undefined : Number(amount)
+    }
+    case 'customer_segment':
+      return task.metadata?.customer_segment
+    case 'time_of_day':
+      return getTimeOfDay(now)
+    default:
+      return getPath(task as Record<string, any>, field)
+  }
+}
+
+function isBetween(value: any, range: any): boolean {
+  if (!Array.isArray(range) || range.length !== 2) return false
+  const [start, end] = range
+
+  // Time windows may wrap past midnight, e.g. ['18:00', '07:00']
+  if (typeof value === 'string' && start > end) {
+    return value >= start || value <= end
+  }
+  return value >= start && value <= end
+}
+
+/**
+ * Check a single condition. Missing values never match, except for 'neq' and 'not_in'.
+ */
+export function matchesCondition(
+  task: Task,
+  condition: PolicyCondition,
+  policy: ApprovalPolicy,
+  now: Date = new Date()
+): boolean {
+  const value = getFieldValue(task, condition.field, policy, now)
+  const expected = condition.value
+
+  if (condition.operator === 'exists') {
+    return value !== undefined && value !== null && value !== ''
+  }
+
+  if (condition.operator === 'neq') return value !== expected
+  if (condition.operator === 'not_in') return !Array.isArray(expected) || !expected.includes(value)
+
+  if (value === undefined || value === null) return false
+
+  switch (condition.operator) {
+    case 'eq':
+      return value === expected
+    case 'in':
+      return Array.isArray(expected) && expected.includes(value)
+    case 'contains':
+      return String(value).toLowerCase().includes(String(expected).toLowerCase())
+    case 'contains_any':
+      return Array.isArray(expected) &&
+        expected.some(term => String(value).toLowerCase().includes(String(term).toLowerCase()))
+    case 'gt':
+      return value > expected
+    case 'gte':
+      return value >= expected
+    case 'lt':
+      return value < expected
+    case 'lte':
+      return value <= expected
+    case 'between':
+      return isBetween(value, expected)
+    default:
+      return false
+  }
+}
+
+export function matchesPolicy(task: Task, policy: ApprovalPolicy, now: Date = new Date()): boolean {
+  if (policy.agent && policy.agent !== task.assigned_agent) return false
+  return (policy.conditions || []).every(condition => matchesCondition(task, condition, policy, now))
+}
+
+/**
+ * Decide the approval requirement for a task. Pure given the policy list.
+ *
+ * No matching policy falls back to requiring approval at medium severity,
+ * the same conservative default the hardcoded rules had.
+ */
+export function evaluatePolicies(
+  task: Task,
+  policies: ApprovalPolicy[],
+  now: Date = new Date()
+): PolicyDecision {
+  const context = {
+    agent: task.assigned_agent,
+    customer_segment: task.metadata?.customer_segment ?? null,
+    time_of_day: getTimeOfDay(now),
+    evaluated_policies: policies.length
+  }
+
+  const policy = policies.find(p => matchesPolicy(task, p, now))
+
+  if (!policy) {
+    return {
+      decision: 'default',
+      requiresApproval: true,
+      severity: 'medium',
+      requiredRole: null,
+      requiredApprovals: 1,
+      policy: null,
+      reason: 'No policy matched - approval required by default',
+      context
+    }
+  }
+
+  if (policy.action === 'auto_execute') {
+    return {
+      decision: 'auto_execute',
+      requiresApproval: false,
+      severity: policy.severity,
+      requiredRole: null,
+      requiredApprovals: 1,
+      policy,
+      reason: `Matched auto-execute policy "${policy.name}"`,
+      context
+    }
+  }
+
+  const amount = getFieldValue(task, 'amount', policy, now)
+  if (policy.auto_approve_below != null && typeof amount === 'number' && !isNaN(amount)) {
+    if (amount < Number(policy.auto_approve_below)) {
+      return {
+        decision: 'auto_approved',
+        requiresApproval: false,
+        severity: policy.severity,
+        requiredRole: policy.required_role || null,
+        requiredApprovals: 1,
+        policy,
+        reason: `Amount ${amount} below auto-approve threshold ${policy.auto_approve_below} of "${policy.name}"`,
+        context: { ...context, amount }
+      }
+    }
+  }
+
+  return {
+    decision: 'require_approval',
+    requiresApproval: true,
+    severity: policy.severity,
+    requiredRole: policy.required_role || null,
+    requiredApprovals: Math.max(1, policy.required_approvals || 1),
+    policy,
+    reason: `Matched approval policy "${policy.name}"`,
+    context: amount !== undefined ? { ...context, amount } : context
+  }
+}
+
+/**
+ * Evaluate the stored policies against a task
+ */
+export async function evaluateTask(task: Task): Promise<PolicyDecision> {
+  const policies = await loadPolicies()
+  return evaluatePolicies(task, policies)
+}
+
+/**
+ * Record which policy fired for a task and snapshot the decision on the task row
+ */
+export async function recordEvaluation(task: Task, decision: PolicyDecision): Promise<void> {
+  const { error } = await supabase.from('approval_policy_evaluations').insert({
+    task_id: task.id,
+    policy_id: decision.policy?.id || null,
+    policy_name: decision.policy?.name || null,
+    decision: decision.decision,
+    severity: decision.severity,
+    required_role: decision.requiredRole,
+    reason: decision.reason,
+    context: decision.context
+  })
+
+  if (error) {
+    console.error(`Error recording policy evaluation for task ${task.id}:`, error)
+  }
+
+  const { error: updateError } = await supabase
+    .from('squad_tasks')
+    .update({
+      approval_policy_id: decision.policy?.id || null,
+      approval_severity: decision.severity,
+      required_approver_role: decision.requiredRole,
+      required_approvals: decision.requiredApprovals
+    })
+    .eq('id', task.id)
+
+  if (updateError) {
+    console.error(`Error saving policy decision on task ${task.id}:`, updateError)
+  }
+}
+
+/**
+ * Validate a policy before saving. Returns a list of problems.
+ */
+export function validatePolicy(input: PolicyInput, partial: boolean = false): string[] {
+  const errors: string[] = []
+
+  if (!partial || input.name !== undefined) {
+    if (!input.name || !input.name.trim()) errors.push('name is required')
+  }
+  if (input.action !== undefined && !['require_approval', 'auto_execute'].includes(input.action)) {
+    errors.push('action must be require_approval or auto_execute')
+  }
+  if (input.severity !== undefined && !SEVERITIES.includes(input.severity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(', ')}`)
+  }
+  if (input.auto_approve_below != null && (typeof input.auto_approve_below !== 'number' || input.auto_approve_below < 0)) {
+    errors.push('auto_approve_below must be a non-negative number')
+  }
+  if (input.required_approvals !== undefined && (!Number.isInteger(input.required_approvals) || input.required_approvals < 1)) {
+    errors.push('required_approvals must be a positive integer')
+  }
+  if (input.conditions !== undefined) {
+    if (!Array.isArray(input.conditions)) {
+      errors.push('conditions must be an array')
+    } else {
+      input.conditions.forEach((condition, index) => {
+        if (!condition?.field) errors.push(`conditions[${index}].field is required`)
+        if (!OPERATORS.includes(condition?.operator)) {
+          errors.push(`conditions[${index}].operator must be one of ${OPERATORS.join(', ')}`)
+        }
+        if (['in', 'not_in', 'contains_any', 'between'].includes(condition?.operator) && !Array.isArray(condition.value)) {
+          errors.push(`conditions[${index}].value must be an array for ${condition.operator}`)
+        }
+      })
+    }
+  }
+
+  return errors
+}
+
+/**
+ * List all policies (enabled and disabled) for the settings page
+ */
+export async function listPolicies(): Promise<ApprovalPolicy[]> {
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load approval policies: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createPolicy(input: PolicyInput, updatedBy: string): Promise<ApprovalPolicy> {
+  const errors = validatePolicy(input)
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .insert({ ...input, updated_by: updatedBy })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create policy: ${error.message}`)
+  }
+
+  invalidatePolicyCache()
+  return data
+}
+
+export async function updatePolicy(id: string, input: PolicyInput, updatedBy: string): Promise<ApprovalPolicy> {
+  const errors = validatePolicy(input, true)
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .update({ ...input, updated_by: updatedBy, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update policy: ${error.message}`)
+  }
+
+  invalidatePolicyCache()
+  return data
+}
+
+export async function deletePolicy(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('approval_policies')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete policy: ${error.message}`)
+  }
+
+  invalidatePolicyCache()
+}
+
+/**
+ * Policy evaluations, most recent first, optionally filtered by task or policy
+ */
+export async function fetchEvaluations(
+  filter: { taskId?: string; policyId?: string } = {},
+  limit: number = 50
+): Promise<ApprovalPolicyEvaluation[]> {
+  let query = supabase
+    .from('approval_policy_evaluations')
+    .select('*')
+    .order('evaluated_at', { ascending: false })
+    .limit(limit)
+
+  if (filter.taskId) query = query.eq('task_id', filter.taskId)
+  if (filter.policyId) query = query.eq('policy_id', filter.policyId)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching policy evaluations:', error)
+    return []
+  }
+
+  return data || []
+}
+
+export const approvalPolicies = {
+  loadPolicies,
+  invalidatePolicyCache,
+  evaluatePolicies,
+  evaluateTask,
+  recordEvaluation,
+  validatePolicy,
+  listPolicies,
+  createPolicy,
+  updatePolicy,
+  deletePolicy,
+  fetchEvaluations
+}
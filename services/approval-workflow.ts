@@ -1,214 +1,32 @@
 /**
  * Approval Workflow System
  *
- * Defines safety rules for auto-execute vs require-approval.
+ * Decides auto-execute vs require-approval using the stored approval policies
+ * (services/approval-policies.ts, editable under Settings → Agents).
  * Ensures critical operations get human oversight while safe operations auto-execute.
  */
 
 import { supabase } from '@/lib/supabase'
-import type { Task } from '@/types/squad'
-
-interface ApprovalRule {
-  name: string
-  matches: (task: Task) => boolean
-  severity: 'low' | 'medium' | 'high' | 'urgent'
-}
-
-/**
- * Approval rules by agent
- */
-const APPROVAL_RULES: Record<string, ApprovalRule[]> = {
-  'Email Agent': [
-    {
-      name: 'Customer order emails',
-      matches: (task) => task.metadata?.email_category === 'order',
-      severity: 'high'
-    },
-    {
-      name: 'Customer support emails',
-      matches: (task) => task.metadata?.email_category === 'support',
-      severity: 'high'
-    },
-    {
-      name: 'Customer complaints',
-      matches: (task) => task.metadata?.email_category === 'complaint',
-      severity: 'urgent'
-    },
-    {
-      name: 'Refund requests',
-      matches: (task) => task.title?.toLowerCase().includes('refund'),
-      severity: 'urgent'
-    }
-  ],
-
-  'Social Media Agent': [
-    {
-      name: 'All social posts',
-      matches: (task) => task.title?.toLowerCase().includes('post') || task.metadata?.post_id,
-      severity: 'high'
-    }
-  ],
-
-  'Marketing Agent': [
-    {
-      name: 'Newsletter distribution',
-      matches: (task) => task.title?.toLowerCase().includes('newsletter'),
-      severity: 'high'
-    },
-    {
-      name: 'Influencer outreach',
-      matches: (task) => task.title?.toLowerCase().includes('influencer') || task.title?.toLowerCase().includes('outreach'),
-      severity: 'medium'
-    },
-    {
-      name: 'Bulk email campaigns',
-      matches: (task) => task.metadata?.recipient_count && task.metadata.recipient_count > 10,
-      severity: 'high'
-    }
-  ],
-
-  'SEO Agent': [
-    {
-      name: 'Bulk SEO changes',
-      matches: (task) => task.metadata?.affected_products && task.metadata.affected_products > 10,
-      severity: 'high'
-    },
-    {
-      name: 'URL rewrites',
-      matches: (task) => task.title?.toLowerCase().includes('url') || task.metadata?.change_type === 'url_rewrite',
-      severity: 'high'
-    },
-    {
-      name: 'Category moves',
-      matches: (task) => task.metadata?.change_type === 'category_move',
-      severity: 'medium'
-    }
-  ],
-
-  'Google Ads Agent': [
-    {
-      name: 'Budget changes',
-      matches: (task) => task.title?.toLowerCase().includes('budget'),
-      severity: 'high'
-    },
-    {
-      name: 'Large bid increases',
-      matches: (task) => {
-        const bidChange = task.metadata?.bid_change_percent
-        return bidChange && bidChange > 10
-      },
-      severity: 'high'
-    },
-    {
-      name: 'Campaign pause/resume',
-      matches: (task) => task.title?.toLowerCase().includes('pause') || task.title?.toLowerCase().includes('resume'),
-      severity: 'high'
-    }
-  ]
+import { evaluateTask, recordEvaluation, type PolicyDecision } from '@/services/approval-policies'
+import type { Approver, Task, TaskApproval } from '@/types/squad'
+
+export interface ApprovalProgress {
+  status: 'approved' | 'pending'
+  approvals: number
+  required: number
+  approvers: string[]
 }
 
 /**
- * Auto-execute rules (operations that are safe to run automatically)
+ * Flag a task for approval by the role its policy requires
+ * Pass the decision when the caller has already evaluated (and recorded) it.
  */
-const AUTO_EXECUTE_RULES: Record<string, ApprovalRule[]> = {
-  'Email Agent': [
-    {
-      name: 'FAQ/Inquiry responses',
-      matches: (task) => task.metadata?.email_category === 'inquiry',
-      severity: 'low'
-    },
-    {
-      name: 'Spam classification',
-      matches: (task) => task.metadata?.email_category === 'spam',
-      severity: 'low'
-    }
-  ],
-
-  'SEO Agent': [
-    {
-      name: 'Minor SEO fixes',
-      matches: (task) => {
-        const affected = task.metadata?.affected_products
-        return affected && affected <= 10
-      },
-      severity: 'low'
-    },
-    {
-      name: 'Meta description updates',
-      matches: (task) => task.metadata?.change_type === 'meta_description' && task.metadata?.affected_products <= 10,
-      severity: 'low'
-    },
-    {
-      name: 'Image alt tag additions',
-      matches: (task) => task.metadata?.change_type === 'image_alt' && task.metadata?.affected_products <= 10,
-      severity: 'low'
-    }
-  ],
-
-  'Google Ads Agent': [
-    {
-      name: 'Bid decreases',
-      matches: (task) => {
-        const bidChange = task.metadata?.bid_change_percent
-        return bidChange && bidChange < 0
-      },
-      severity: 'low'
-    },
-    {
-      name: 'Small bid increases',
-      matches: (task) => {
-        const bidChange = task.metadata?.bid_change_percent
-        return bidChange && bidChange > 0 && bidChange <= 10
-      },
-      severity: 'low'
-    }
-  ]
-}
-
-/**
- * Check if a task requires approval
- */
-export function requiresApproval(task: Task): boolean {
-  // If already marked as requiring approval, respect that
-  if (task.requires_approval === true) {
-    return true
+export async function createApprovalTask(originalTask: Task, decision?: PolicyDecision): Promise<void> {
+  if (!decision) {
+    decision = await evaluateTask(originalTask)
+    await recordEvaluation(originalTask, decision)
   }
-
-  // Check auto-execute rules first (whitelist approach)
-  const autoRules = AUTO_EXECUTE_RULES[task.assigned_agent] || []
-  const matchesAutoRule = autoRules.some(rule => rule.matches(task))
-
-  if (matchesAutoRule) {
-    return false // Safe to auto-execute
-  }
-
-  // Check approval rules
-  const approvalRules = APPROVAL_RULES[task.assigned_agent] || []
-  const matchesApprovalRule = approvalRules.some(rule => rule.matches(task))
-
-  if (matchesApprovalRule) {
-    return true // Requires approval
-  }
-
-  // Default: require approval for safety (conservative approach)
-  return true
-}
-
-/**
- * Get the severity level for a task that requires approval
- */
-export function getApprovalSeverity(task: Task): 'low' | 'medium' | 'high' | 'urgent' {
-  const approvalRules = APPROVAL_RULES[task.assigned_agent] || []
-  const matchedRule = approvalRules.find(rule => rule.matches(task))
-
-  return matchedRule?.severity || 'medium'
-}
-
-/**
- * Create an approval task for Kenny
- */
-export async function createApprovalTask(originalTask: Task): Promise<void> {
-  const severity = getApprovalSeverity(originalTask)
+  const severity = decision.severity
 
   // Update original task to require approval
   await supabase
@@ -226,17 +44,40 @@ export async function createApprovalTask(originalTask: Task): Promise<void> {
       severity,
       task_id: originalTask.id,
       agent: originalTask.assigned_agent,
-      preview_url: originalTask.deliverable_url
+      preview_url: originalTask.deliverable_url,
+      policy: decision.policy?.name || null,
+      required_role: decision.requiredRole,
+      required_approvals: decision.requiredApprovals
     }
   })
 
-  console.log(`[APPROVAL REQUIRED] Task ${originalTask.id} marked for approval (severity: ${severity})`)
+  console.log(`[APPROVAL REQUIRED] Task ${originalTask.id} marked for approval (severity: ${severity}, policy: ${decision.policy?.name || 'default'})`)
+}
+
+/**
+ * Make sure a task awaiting approval has been through the policies, so its
+ * required role and approval count are known. Tasks inserted directly with
+ * requires_approval = true skip the executor and arrive here unevaluated.
+ */
+export async function ensureApprovalRequirements(task: Task): Promise<Task> {
+  if (task.approval_severity || task.approved_at) return task
+
+  const decision = await evaluateTask(task)
+  await recordEvaluation(task, decision)
+
+  return {
+    ...task,
+    approval_policy_id: decision.policy?.id || null,
+    approval_severity: decision.severity,
+    required_approver_role: decision.requiredRole,
+    required_approvals: decision.requiredApprovals
+  }
 }
 
 /**
- * Mark task as approved
+ * Mark task as approved (all required approvals are in)
  */
-export async function approveTask(taskId: string, approvedBy: string = 'Kenny'): Promise<void> {
+export async function approveTask(taskId: string, approvedBy: string): Promise<void> {
   await supabase
     .from('squad_tasks')
     .update({
@@ -252,7 +93,7 @@ export async function approveTask(taskId: string, approvedBy: string = 'Kenny'):
 /**
  * Mark task as rejected
  */
-export async function rejectTask(taskId: string, rejectedBy: string = 'Kenny', reason?: string): Promise<void> {
+export async function rejectTask(taskId: string, rejectedBy: string, reason?: string): Promise<void> {
   await supabase
     .from('squad_tasks')
     .update({
@@ -266,6 +107,97 @@ export async function rejectTask(taskId: string, rejectedBy: string = 'Kenny', r
   console.log(`[REJECTED] Task ${taskId} rejected by ${rejectedBy}: ${reason}`)
 }
 
+/**
+ * Approvals recorded so far for a task
+ */
+export async function getTaskApprovals(taskId: string): Promise<TaskApproval[]> {
+  const { data, error } = await supabase
+    .from('task_approvals')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error(`Error fetching approvals for task ${taskId}:`, error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Record one person's approval. The task is only approved once it has
+ * `required_approvals` approvals from distinct people - a delegate cannot
+ * supply the second approval on behalf of someone who already approved.
+ */
+export async function submitApproval(
+  task: Task,
+  approver: Approver,
+  options: { onBehalfOf?: Approver | null; comment?: string } = {}
+): Promise<ApprovalProgress> {
+  const required = Math.max(1, task.required_approvals || 1)
+  const existing = await getTaskApprovals(task.id)
+  const people = (a: TaskApproval) => [a.approver_id, a.on_behalf_of_id].filter(Boolean)
+
+  if (existing.some(a => people(a).includes(approver.id))) {
+    throw new Error(`${approver.name} has already approved this task`)
+  }
+  if (options.onBehalfOf && existing.some(a => people(a).includes(options.onBehalfOf!.id))) {
+    throw new Error(`${options.onBehalfOf.name} has already approved this task`)
+  }
+
+  const { error } = await supabase.from('task_approvals').insert({
+    task_id: task.id,
+    approver_id: approver.id,
+    approver_name: approver.name,
+    on_behalf_of_id: options.onBehalfOf?.id || null,
+    decision: 'approve',
+    comment: options.comment || null
+  })
+
+  if (error) {
+    throw new Error(error.code === '23505'
+      ? `${approver.name} has already approved this task`
+      : `Failed to record approval: ${error.message}`)
+  }
+
+  const approvals = (await getTaskApprovals(task.id)).filter(a => a.decision === 'approve')
+  const names = approvals.map(a => a.approver_name)
+
+  if (approvals.length >= required) {
+    await approveTask(task.id, names.join(' + '))
+    return { status: 'approved', approvals: approvals.length, required, approvers: names }
+  }
+
+  console.log(`[APPROVAL] Task ${task.id} has ${approvals.length}/${required} approvals`)
+  return { status: 'pending', approvals: approvals.length, required, approvers: names }
+}
+
+/**
+ * Record one person's rejection - a single rejection rejects the task
+ */
+export async function submitRejection(
+  task: Task,
+  approver: Approver,
+  reason?: string,
+  options: { onBehalfOf?: Approver | null } = {}
+): Promise<void> {
+  const { error } = await supabase.from('task_approvals').upsert({
+    task_id: task.id,
+    approver_id: approver.id,
+    approver_name: approver.name,
+    on_behalf_of_id: options.onBehalfOf?.id || null,
+    decision: 'reject',
+    comment: reason || null
+  }, { onConflict: 'task_id,approver_id' })
+
+  if (error) {
+    console.error(`Error recording rejection for task ${task.id}:`, error)
+  }
+
+  await rejectTask(task.id, approver.name, reason)
+}
+
 /**
  * Check if agent execution is globally paused
  */
@@ -281,10 +213,12 @@ export async function isExecutionPaused(): Promise<boolean> {
 
 // Export all functions
 export const approvalWorkflow = {
-  requiresApproval,
-  getApprovalSeverity,
   createApprovalTask,
+  ensureApprovalRequirements,
   approveTask,
   rejectTask,
+  getTaskApprovals,
+  submitApproval,
+  submitRejection,
   isExecutionPaused
 }
@@ -0,0 +1,305 @@
+/**
+ * Approver Service
+ *
+ * Resolves the signed-in Supabase user behind a request to an approver, works
+ * out which roles they hold (their own plus any delegated to them while a
+ * colleague is on leave) and whether that lets them approve a given task.
+ */
+
+import { NextRequest } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import type { Approver, ApproverDelegation, ApproverRole, Task } from '@/types/squad'
+
+export const APPROVER_ROLES: ApproverRole[] = ['sales', 'accounts', 'marketing', 'admin']
+
+export interface EffectiveRole {
+  role: ApproverRole
+  onBehalfOf: Approver | null
+}
+
+export interface ApprovalAuthority {
+  allowed: boolean
+  onBehalfOf: Approver | null
+  reason?: string
+}
+
+/**
+ * Find the approver for a Supabase auth user. Approvers seeded without a
+ * user_id are linked the first time someone signs in with their email.
+ */
+export async function getApproverForUser(userId: string, email?: string | null): Promise<Approver | null> {
+  const { data: linked } = await supabase
+    .from('approvers')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (linked) {
+    return linked.is_active ? linked : null
+  }
+
+  if (!email) return null
+
+  const { data: unlinked } = await supabase
+    .from('approvers')
+    .update({ user_id: userId, updated_at: new Date().toISOString() })
+    .ilike('email', email.replace(/[%_\\]/g, '\\$&'))
+    .is('user_id', null)
+    .select()
+    .maybeSingle()
+
+  if (unlinked) {
+    console.log(`[APPROVERS] Linked ${unlinked.name} to auth user ${userId}`)
+    return unlinked.is_active ? unlinked : null
+  }
+
+  return null
+}
+
+/**
+ * Authenticate the approver behind a request (Authorization: Bearer <access token>)
+ */
+export async function authenticateApprover(request: NextRequest): Promise<Approver | null> {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader?.startsWith('Bearer ')) return null
+
+  const token = authHeader.slice('Bearer '.length)
+  if (!token || token === process.env.CRON_SECRET) return null
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return getApproverForUser(data.user.id, data.user.email)
+}
+
+export async function getApprover(id: string): Promise<Approver | null> {
+  const { data } = await supabase
+    .from('approvers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  return data
+}
+
+export async function listApprovers(): Promise<Approver[]> {
+  const { data, error } = await supabase
+    .from('approvers')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load approvers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+function validateRoles(roles: unknown): string[] {
+  if (roles === undefined) return []
+  if (!Array.isArray(roles) || roles.some(role => !APPROVER_ROLES.includes(role))) {
+    return [`roles must be a list of ${APPROVER_ROLES.join(', ')}`]
+  }
+  return []
+}
+
+export async function createApprover(input: Partial<Approver>): Promise<Approver> {
+  const errors = validateRoles(input.roles)
+  if (!input.name?.trim()) errors.push('name is required')
+  if (errors.length > 0) {
+    throw new Error(`Invalid approver: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('approvers')
+    .insert({
+      name: input.name!.trim(),
+      email: input.email?.trim() || null,
+      roles: input.roles || [],
+      is_active: input.is_active ?? true
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create approver: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateApprover(id: string, input: Partial<Approver>): Promise<Approver> {
+  const errors = validateRoles(input.roles)
+  if (errors.length > 0) {
+    throw new Error(`Invalid approver: ${errors.join('; ')}`)
+  }
+
+  const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+  if (input.name !== undefined) updates.name = input.name.trim()
+  if (input.email !== undefined) updates.email = input.email?.trim() || null
+  if (input.roles !== undefined) updates.roles = input.roles
+  if (input.is_active !== undefined) updates.is_active = input.is_active
+
+  const { data, error } = await supabase
+    .from('approvers')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update approver: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Delegations in effect right now, optionally only those handed to `delegateId`
+ */
+export async function getActiveDelegations(delegateId?: string): Promise<ApproverDelegation[]> {
+  const now = new Date().toISOString()
+
+  let query = supabase
+    .from('approver_delegations')
+    .select('*')
+    .is('revoked_at', null)
+    .lte('starts_at', now)
+    .gt('ends_at', now)
+    .order('ends_at', { ascending: true })
+
+  if (delegateId) query = query.eq('delegate_id', delegateId)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching delegations:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Hand an approver's roles to a colleague for a period.
+ * Only the delegator themselves or an admin may create it.
+ */
+export async function createDelegation(
+  actor: Approver,
+  input: { delegator_id?: string; delegate_id: string; starts_at?: string; ends_at: string; reason?: string }
+): Promise<ApproverDelegation> {
+  const delegatorId = input.delegator_id || actor.id
+
+  if (delegatorId !== actor.id && !actor.roles.includes('admin')) {
+    throw new Error('Only admins can delegate on behalf of someone else')
+  }
+  if (!input.delegate_id || delegatorId === input.delegate_id) {
+    throw new Error('Invalid delegation: choose a different delegate')
+  }
+  if (!input.ends_at || isNaN(Date.parse(input.ends_at))) {
+    throw new Error('Invalid delegation: ends_at is required')
+  }
+
+  const { data, error } = await supabase
+    .from('approver_delegations')
+    .insert({
+      delegator_id: delegatorId,
+      delegate_id: input.delegate_id,
+      starts_at: input.starts_at || new Date().toISOString(),
+      ends_at: input.ends_at,
+      reason: input.reason || null,
+      created_by: actor.id
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create delegation: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function revokeDelegation(actor: Approver, delegationId: string): Promise<void> {
+  const { data: delegation } = await supabase
+    .from('approver_delegations')
+    .select('*')
+    .eq('id', delegationId)
+    .maybeSingle()
+
+  if (!delegation) {
+    throw new Error('Delegation not found')
+  }
+  if (delegation.delegator_id !== actor.id && !actor.roles.includes('admin')) {
+    throw new Error('Only the delegator or an admin can revoke a delegation')
+  }
+
+  const { error } = await supabase
+    .from('approver_delegations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', delegationId)
+
+  if (error) {
+    throw new Error(`Failed to revoke delegation: ${error.message}`)
+  }
+}
+
+/**
+ * Own roles plus roles delegated to this approver right now
+ */
+export async function getEffectiveRoles(approver: Approver): Promise<EffectiveRole[]> {
+  const roles: EffectiveRole[] = approver.roles.map(role => ({ role, onBehalfOf: null }))
+
+  const delegations = await getActiveDelegations(approver.id)
+  for (const delegation of delegations) {
+    const delegator = await getApprover(delegation.delegator_id)
+    if (!delegator?.is_active) continue
+
+    for (const role of delegator.roles) {
+      if (!roles.some(r => r.role === role)) {
+        roles.push({ role, onBehalfOf: delegator })
+      }
+    }
+  }
+
+  return roles
+}
+
+/**
+ * Can this approver decide on the task? Admins can approve anything; otherwise
+ * the task's required role must be one of their own or delegated roles.
+ */
+export async function resolveApprovalAuthority(approver: Approver, task: Task): Promise<ApprovalAuthority> {
+  const requiredRole = task.required_approver_role as ApproverRole | null | undefined
+  const roles = await getEffectiveRoles(approver)
+
+  const own = roles.find(r => !r.onBehalfOf && (r.role === 'admin' || !requiredRole || r.role === requiredRole))
+  if (own) {
+    return { allowed: true, onBehalfOf: null }
+  }
+
+  const delegated = roles.find(r => r.role === 'admin' || r.role === requiredRole)
+  if (delegated) {
+    return { allowed: true, onBehalfOf: delegated.onBehalfOf }
+  }
+
+  return {
+    allowed: false,
+    onBehalfOf: null,
+    reason: `${approver.name} does not hold the ${requiredRole} role required for this task`
+  }
+}
+
+export const approverService = {
+  getApproverForUser,
+  authenticateApprover,
+  getApprover,
+  listApprovers,
+  createApprover,
+  updateApprover,
+  getActiveDelegations,
+  createDelegation,
+  revokeDelegation,
+  getEffectiveRoles,
+  resolveApprovalAuthority
+}
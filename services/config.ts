@@ -2,8 +2,6 @@ import type { OrchestratorConfig } from './types'
 
 export const ORCHESTRATOR_CONFIG: OrchestratorConfig = {
   tokenBudget: 100000,
-  tokenResetHour: 0,
-  conflictWindowSeconds: 30,
   operationTimeoutSeconds: 60,
   statusCheckIntervalMinutes: 1
 }
@@ -25,28 +23,6 @@ export const AGENT_SCHEDULES = {
   SEO_GEO_MONTHLY: '0 6 1 * *',       // 6 AM 1st of month - AI search optimization
 }
 
-export const AGENT_TOKEN_ESTIMATES = {
-  email_poll: 500,
-  email_classify: 300,
-  email_respond: 600,
-  quote_chat: 800,
-  seo_audit: 1000,
-  content_generation: 1500,
-  visual_content_generation: 2000,
-  newsletter_assets: 3000,
-  reseller_kit: 2500,
-
-  // SEO Agent enhanced capabilities
-  seo_schema_audit: 200,        // Mostly HTML parsing, minimal LLM
-  seo_schema_generate: 500,     // Template-based with LLM refinement
-  seo_vitals_check: 50,         // PageSpeed API only, no LLM
-  seo_vitals_batch: 100,        // Multiple pages
-  seo_geo_analysis: 1200,       // Full content analysis with LLM
-  seo_eeat_analysis: 1000,      // Trust signal analysis
-  seo_content_optimize: 1500,   // AI content optimization
-  seo_full_audit: 2000,         // Combined audit
-}
-
 export const AGENT_PRIORITIES = {
   email_agent: 'high',
   quote_agent: 'high',
@@ -65,7 +41,8 @@ export const CONFLICT_RESOLUTION_PRIORITY = [
   'stock_agent',
   'comms_agent',
   'content_agent',
-  'seo_agent'
+  'seo_agent',
+  'jarvis'
 ]
 
 export const TOKEN_WARNING_THRESHOLDS = {
@@ -83,14 +60,6 @@ export function getAgentPriority(agentName: string): string {
   return AGENT_PRIORITIES[agentName as keyof typeof AGENT_PRIORITIES] || 'medium'
 }
 
-export function getTokenEstimate(taskType: string): number {
-  return AGENT_TOKEN_ESTIMATES[taskType as keyof typeof AGENT_TOKEN_ESTIMATES] || 500
-}
-
-export function shouldBlockOperation(remainingTokens: number, estimatedCost: number): boolean {
-  return remainingTokens < estimatedCost
-}
-
 export function getConflictResolutionPriority(agents: string[]): string {
   for (const priority of CONFLICT_RESOLUTION_PRIORITY) {
     if (agents.includes(priority)) {
@@ -99,3 +68,11 @@ export function getConflictResolutionPriority(agents: string[]): string {
   }
   return agents[0] || 'unknown'
 }
+
+/**
+ * Rank used to settle lock contention - lower wins, unlisted agents rank last
+ */
+export function getLockPriority(agent: string): number {
+  const index = CONFLICT_RESOLUTION_PRIORITY.indexOf(agent)
+  return index === -1 ? CONFLICT_RESOLUTION_PRIORITY.length : index
+}
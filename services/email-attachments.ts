@@ -0,0 +1,265 @@
+/**
+ * Email Attachments Service
+ *
+ * The Gmail sync records the attachments of each ingested email. Processing
+ * an email downloads its PDF, XLSX, CSV and DOCX attachments from Gmail into
+ * the email-attachments bucket and extracts their text and tables
+ * (lib/attachment-extraction.ts). Supplier quote extraction and quote request
+ * detection read the extracted text alongside the email body; the Email
+ * Agent panel previews it.
+ *
+ * Processing is idempotent and needs no claim: two pipelines processing the
+ * same email upload the same file and get the same (cached) extraction.
+ */
+
+import { supabase } from '@/lib/supabase'
+import {
+  getAttachmentFileType,
+  extractAttachment,
+  formatAttachmentText,
+  type AttachmentFileType,
+  type ExtractedTable
+} from '@/lib/attachment-extraction'
+import { gmailService, type GmailService, type GmailAttachmentPart } from '@/services/integrations/gmail-service'
+import { getMailbox, getMailboxClient } from '@/services/gmail-sync'
+
+const STORAGE_BUCKET = 'email-attachments'
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+/** Larger attachments are listed but not downloaded */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+/** Attachment text given to the model per email */
+const PROMPT_CHARS_PER_EMAIL = 8000
+
+export type AttachmentStatus = 'pending' | 'extracted' | 'skipped' | 'failed'
+
+export interface EmailAttachment {
+  id: string
+  email_log_id: string
+  gmail_message_id: string
+  part_id: string
+  gmail_attachment_id: string | null
+  filename: string
+  mime_type: string | null
+  size_bytes: number | null
+  file_type: AttachmentFileType | null
+  status: AttachmentStatus
+  storage_path: string | null
+  extracted_text: string | null
+  extracted_tables: ExtractedTable[]
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface EmailRef {
+  id: string
+  gmail_message_id: string
+  mailbox_id: string | null
+  payload: any
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * The attachments worth listing - inline images (signature logos) are left out
+ */
+export function getListedAttachments(parts: GmailAttachmentPart[]): GmailAttachmentPart[] {
+  return parts.filter(part => !(part.inline && part.mimeType.startsWith('image/')))
+}
+
+/**
+ * Record the attachments of an ingested email; unreadable or oversized files
+ * are recorded as skipped. Returns how many were recorded.
+ */
+export async function recordAttachments(
+  emailLogId: string,
+  gmailMessageId: string,
+  parts: GmailAttachmentPart[]
+): Promise<number> {
+  const attachments = getListedAttachments(parts)
+  if (attachments.length === 0) return 0
+
+  const rows = attachments.map(part => {
+    const fileType = getAttachmentFileType(part.filename, part.mimeType)
+    const skipReason = !fileType
+      ? 'File type is not read'
+      : part.size > MAX_ATTACHMENT_BYTES
+        ? `Larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+        : null
+
+    return {
+      email_log_id: emailLogId,
+      gmail_message_id: gmailMessageId,
+      part_id: part.partId,
+      gmail_attachment_id: part.attachmentId,
+      filename: part.filename,
+      mime_type: part.mimeType,
+      size_bytes: part.size,
+      file_type: fileType,
+      status: skipReason ? 'skipped' : 'pending',
+      error: skipReason
+    }
+  })
+
+  const { error } = await supabase
+    .from('email_attachments')
+    .upsert(rows, { onConflict: 'email_log_id,part_id', ignoreDuplicates: true })
+
+  if (error) throw new Error(`Failed to record attachments: ${error.message}`)
+  return rows.length
+}
+
+// ============================================
+// Processing
+// ============================================
+
+async function getEmailRef(emailLogId: string): Promise<EmailRef> {
+  const { data, error } = await supabase
+    .from('email_logs')
+    .select('id, gmail_message_id, mailbox_id, payload')
+    .eq('id', emailLogId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load email: ${error.message}`)
+  if (!data) throw new Error('Email not found')
+  return data
+}
+
+async function getGmailFor(email: EmailRef): Promise<GmailService> {
+  if (!email.mailbox_id) return gmailService
+  return getMailboxClient(await getMailbox(email.mailbox_id))
+}
+
+export async function listAttachments(emailLogId: string): Promise<EmailAttachment[]> {
+  const { data, error } = await supabase
+    .from('email_attachments')
+    .select('*')
+    .eq('email_log_id', emailLogId)
+    .order('part_id', { ascending: true })
+
+  if (error) throw new Error(`Failed to list attachments: ${error.message}`)
+  return data || []
+}
+
+async function updateAttachment(id: string, fields: Partial<EmailAttachment>): Promise<void> {
+  const { error } = await supabase
+    .from('email_attachments')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw new Error(`Failed to update attachment: ${error.message}`)
+}
+
+async function processAttachment(gmail: GmailService, attachment: EmailAttachment): Promise<void> {
+  try {
+    let buffer: Buffer
+    if (attachment.storage_path) {
+      const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(attachment.storage_path)
+      if (error || !data) throw new Error(`Failed to download stored attachment: ${error?.message || 'file not found'}`)
+      buffer = Buffer.from(await data.arrayBuffer())
+    } else {
+      buffer = await gmail.getAttachment(attachment.gmail_message_id, attachment.gmail_attachment_id!)
+
+      const storagePath = `${attachment.email_log_id}/${attachment.part_id}-${attachment.filename.replace(/[^\w.-]+/g, '_')}`
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(storagePath, buffer, { contentType: attachment.mime_type || 'application/octet-stream', upsert: true })
+
+      if (uploadError) throw new Error(`Failed to store attachment: ${uploadError.message}`)
+      await updateAttachment(attachment.id, { storage_path: storagePath })
+    }
+
+    const extracted = await extractAttachment(buffer, attachment.file_type!, attachment.filename)
+    await updateAttachment(attachment.id, {
+      status: 'extracted',
+      extracted_text: extracted.text,
+      extracted_tables: extracted.tables,
+      error: null
+    })
+  } catch (error: any) {
+    console.error(`[EMAIL ATTACHMENTS] ${attachment.filename} failed:`, error.message)
+    await updateAttachment(attachment.id, { status: 'failed', error: error.message })
+  }
+}
+
+/**
+ * Download, store and extract the pending attachments of an email. Emails
+ * ingested before attachments were recorded are looked up in Gmail first.
+ * `retryFailed` also reprocesses attachments that failed before.
+ */
+export async function processAttachments(
+  emailLogId: string,
+  options: { retryFailed?: boolean } = {}
+): Promise<EmailAttachment[]> {
+  const email = await getEmailRef(emailLogId)
+  let gmail: GmailService | null = null
+
+  if (email.payload?.attachment_count == null) {
+    gmail = await getGmailFor(email)
+    const message = await gmail.getMessage(email.gmail_message_id)
+    const count = await recordAttachments(email.id, email.gmail_message_id, message.attachments)
+
+    await supabase
+      .from('email_logs')
+      .update({ payload: { ...email.payload, attachment_count: count } })
+      .eq('id', email.id)
+  }
+
+  const attachments = await listAttachments(emailLogId)
+  const todo = attachments.filter(a => a.status === 'pending' || (options.retryFailed && a.status === 'failed' && a.file_type))
+
+  if (todo.length > 0) {
+    gmail = gmail || await getGmailFor(email)
+    for (const attachment of todo) {
+      await processAttachment(gmail, attachment)
+    }
+    return listAttachments(emailLogId)
+  }
+
+  return attachments
+}
+
+/**
+ * The extracted text of an email's attachments for a prompt, processing
+ * them first. Empty when the email has none.
+ */
+export async function getAttachmentText(emailLogId: string, maxChars: number = PROMPT_CHARS_PER_EMAIL): Promise<string> {
+  const extracted = (await processAttachments(emailLogId)).filter(a => a.status === 'extracted')
+  if (extracted.length === 0) return ''
+
+  const perAttachment = Math.floor(maxChars / extracted.length)
+  return extracted
+    .map(a => formatAttachmentText(a.filename, { text: a.extracted_text || '', tables: a.extracted_tables || [] }, perAttachment))
+    .join('\n\n')
+}
+
+/**
+ * Attachments of an email with short-lived download links for the ones stored
+ */
+export async function listAttachmentsWithUrls(
+  emailLogId: string
+): Promise<Array<EmailAttachment & { download_url: string | null }>> {
+  const attachments = await listAttachments(emailLogId)
+
+  return Promise.all(attachments.map(async attachment => {
+    if (!attachment.storage_path) return { ...attachment, download_url: null }
+
+    const { data } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUrl(attachment.storage_path, SIGNED_URL_TTL_SECONDS, { download: attachment.filename })
+
+    return { ...attachment, download_url: data?.signedUrl || null }
+  }))
+}
+
+export const emailAttachments = {
+  recordAttachments,
+  listAttachments,
+  listAttachmentsWithUrls,
+  processAttachments,
+  getAttachmentText
+}
@@ -0,0 +1,546 @@
+/**
+ * Email Threads Service
+ *
+ * Groups email_logs into conversations. A message joins the thread with the
+ * same Gmail threadId, or else the thread of the message it replies to
+ * (In-Reply-To / References). Threads are linked to the quote requests,
+ * orders and customer interactions they are about, so the conversation view
+ * shows an email in context.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { gmailService } from '@/services/integrations/gmail-service'
+import type { OrderTracker } from '@/lib/supabase'
+
+export type ThreadLinkType = 'quote_request' | 'order' | 'customer_interaction'
+
+export interface EmailThread {
+  id: string
+  gmail_thread_id: string | null
+  subject: string
+  customer_email: string | null
+  participants: string[]
+  message_count: number
+  first_message_at: string
+  last_message_at: string
+  created_at: string
+  updated_at: string
+}
+
+export interface EmailThreadLink {
+  id: string
+  thread_id: string
+  link_type: ThreadLinkType
+  reference_id: string
+  reason: string
+  linked_by: string
+  created_at: string
+}
+
+export interface ConversationMessage {
+  id: string
+  direction: 'inbound' | 'outbound'
+  /** inbound email, our drafted/sent reply to it, or a quote email */
+  kind: 'email' | 'reply' | 'quote'
+  status: string
+  from: string
+  to: string | null
+  subject: string
+  body: string
+  at: string
+  email_id: string | null
+}
+
+export interface Conversation {
+  thread: EmailThread
+  messages: ConversationMessage[]
+  links: EmailThreadLink[]
+  quote_requests: any[]
+  orders: OrderTracker[]
+  customer_interactions: any[]
+}
+
+// Our own mailboxes - never the "customer" of a thread
+const OWN_DOMAINS = ['audico.co.za', 'audicoonline.co.za']
+
+interface ThreadableEmail {
+  id: string
+  from_email: string
+  subject: string
+  created_at: string
+  gmail_thread_id?: string | null
+  message_id_header?: string | null
+  in_reply_to?: string | null
+  references?: string[]
+}
+
+/**
+ * Pull the threading headers out of a Gmail message's header list
+ */
+export function parseThreadHeaders(headers: Array<{ name?: string | null; value?: string | null }>): {
+  messageIdHeader: string | null
+  inReplyTo: string | null
+  references: string[]
+} {
+  const getHeader = (name: string) =>
+    headers.find((h) => h.name?.toLowerCase() === name)?.value || null
+
+  return {
+    messageIdHeader: getHeader('message-id'),
+    inReplyTo: getHeader('in-reply-to'),
+    references: (getHeader('references') || '').split(/\s+/).filter(Boolean),
+  }
+}
+
+/**
+ * 'Kenny <kenny@example.com>' -> 'kenny@example.com'
+ */
+export function extractAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/)
+  return (match ? match[1] : from).trim().toLowerCase()
+}
+
+export function normalizeSubject(subject: string): string {
+  return subject.replace(/^\s*((re|fw|fwd|aw)\s*:\s*)+/i, '').trim() || 'No Subject'
+}
+
+function isOwnAddress(address: string): boolean {
+  return OWN_DOMAINS.some(domain => address.endsWith(`@${domain}`) || address.endsWith(`.${domain}`))
+}
+
+/**
+ * Put an email into its thread, creating the thread if this is the first
+ * message. Returns the thread id.
+ */
+export async function assignThread(email: ThreadableEmail): Promise<string> {
+  const threadId = await findThread(email) || await createThread(email)
+
+  const { error } = await supabase
+    .from('email_logs')
+    .update({
+      thread_id: threadId,
+      gmail_thread_id: email.gmail_thread_id || null,
+      message_id_header: email.message_id_header || null,
+      in_reply_to: email.in_reply_to || null,
+    })
+    .eq('id', email.id)
+
+  if (error) {
+    throw new Error(`Failed to assign email ${email.id} to thread: ${error.message}`)
+  }
+
+  await refreshThreadStats(threadId)
+  return threadId
+}
+
+async function findThread(email: ThreadableEmail): Promise<string | null> {
+  if (email.gmail_thread_id) {
+    const { data } = await supabase
+      .from('email_threads')
+      .select('id')
+      .eq('gmail_thread_id', email.gmail_thread_id)
+      .maybeSingle()
+
+    if (data) return data.id
+  }
+
+  // Fall back to the reply headers (messages we only have headers for)
+  const parents = [email.in_reply_to, ...(email.references || [])].filter(Boolean) as string[]
+  if (parents.length === 0) return null
+
+  const { data: parentEmails } = await supabase
+    .from('email_logs')
+    .select('thread_id')
+    .in('message_id_header', parents)
+    .not('thread_id', 'is', null)
+    .limit(1)
+
+  return parentEmails?.[0]?.thread_id || null
+}
+
+async function createThread(email: ThreadableEmail): Promise<string> {
+  const from = extractAddress(email.from_email)
+
+  const { data, error } = await supabase
+    .from('email_threads')
+    .insert({
+      gmail_thread_id: email.gmail_thread_id || null,
+      subject: normalizeSubject(email.subject),
+      customer_email: isOwnAddress(from) ? null : from,
+      participants: [from],
+      first_message_at: email.created_at,
+      last_message_at: email.created_at,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    // Another poll created the same Gmail thread in the meantime
+    if (error.code === '23505' && email.gmail_thread_id) {
+      const existing = await findThread(email)
+      if (existing) return existing
+    }
+    throw new Error(`Failed to create email thread: ${error.message}`)
+  }
+
+  return data.id
+}
+
+/**
+ * Recompute message count, participants, customer and first/last message time
+ */
+export async function refreshThreadStats(threadId: string): Promise<void> {
+  const { data: emails, error } = await supabase
+    .from('email_logs')
+    .select('from_email, created_at')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true })
+
+  if (error || !emails || emails.length === 0) return
+
+  const participants = Array.from(new Set(emails.map(e => extractAddress(e.from_email))))
+  const customer = participants.find(address => !isOwnAddress(address)) || null
+
+  await supabase
+    .from('email_threads')
+    .update({
+      participants,
+      customer_email: customer,
+      message_count: emails.length,
+      first_message_at: emails[0].created_at,
+      last_message_at: emails[emails.length - 1].created_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', threadId)
+}
+
+/**
+ * Link a thread to every quote request, order and customer interaction it
+ * mentions. Safe to run repeatedly; returns the number of new links.
+ */
+export async function linkThread(threadId: string): Promise<number> {
+  const { data: emails, error } = await supabase
+    .from('email_logs')
+    .select('id, gmail_message_id, payload')
+    .eq('thread_id', threadId)
+
+  if (error) {
+    throw new Error(`Failed to fetch thread emails: ${error.message}`)
+  }
+  if (!emails || emails.length === 0) return 0
+
+  const emailIds = emails.map(e => e.id)
+  const collect = (key: 'order_numbers' | 'quote_numbers') =>
+    Array.from(new Set(emails.flatMap(e => (e.payload?.entities?.[key] || []) as string[])))
+
+  const links: Array<{ link_type: ThreadLinkType; reference_id: string; reason: string }> = []
+
+  // Quote requests detected from one of the thread's emails
+  const { data: sourceQuotes } = await supabase
+    .from('quote_requests')
+    .select('id')
+    .in('source_email_id', emailIds)
+
+  for (const quote of sourceQuotes || []) {
+    links.push({ link_type: 'quote_request', reference_id: quote.id, reason: 'source_email' })
+  }
+
+  // Quote numbers mentioned in the thread (AUD-Q-...) via the quote email drafts
+  const quoteNumbers = collect('quote_numbers')
+  if (quoteNumbers.length > 0) {
+    const { data: drafts } = await supabase
+      .from('email_drafts')
+      .select('metadata')
+      .in('metadata->>quote_number', quoteNumbers)
+
+    for (const draft of drafts || []) {
+      if (draft.metadata?.quote_request_id) {
+        links.push({ link_type: 'quote_request', reference_id: draft.metadata.quote_request_id, reason: 'quote_number' })
+      }
+    }
+  }
+
+  // Order or invoice numbers mentioned in the thread
+  const orderNumbers = collect('order_numbers')
+  if (orderNumbers.length > 0) {
+    const candidates = Array.from(new Set([...orderNumbers, ...orderNumbers.map(n => n.replace(/\D/g, '')).filter(Boolean)]))
+    const { data: orders } = await supabase
+      .from('orders_tracker')
+      .select('order_no')
+      .or(`order_no.in.(${candidates.join(',')}),invoice_no.in.(${candidates.join(',')})`)
+
+    for (const order of orders || []) {
+      links.push({ link_type: 'order', reference_id: String(order.order_no), reason: 'order_number' })
+    }
+  }
+
+  // Customer interactions about the linked quotes or the thread's messages
+  const quoteIds = Array.from(new Set(links.filter(l => l.link_type === 'quote_request').map(l => l.reference_id)))
+  const gmailIds = emails.map(e => e.gmail_message_id).filter(Boolean)
+
+  if (quoteIds.length > 0) {
+    const { data: interactions } = await supabase
+      .from('customer_interactions')
+      .select('id')
+      .eq('reference_type', 'quote_request')
+      .in('reference_id', quoteIds)
+
+    for (const interaction of interactions || []) {
+      links.push({ link_type: 'customer_interaction', reference_id: interaction.id, reason: 'quote_request' })
+    }
+  }
+
+  if (gmailIds.length > 0) {
+    const { data: interactions } = await supabase
+      .from('customer_interactions')
+      .select('id')
+      .in('details->>gmail_message_id', gmailIds)
+
+    for (const interaction of interactions || []) {
+      links.push({ link_type: 'customer_interaction', reference_id: interaction.id, reason: 'gmail_message' })
+    }
+  }
+
+  if (links.length === 0) return 0
+
+  const { data: inserted, error: linkError } = await supabase
+    .from('email_thread_links')
+    .upsert(
+      links.map(link => ({ ...link, thread_id: threadId })),
+      { onConflict: 'thread_id,link_type,reference_id', ignoreDuplicates: true }
+    )
+    .select('id')
+
+  if (linkError) {
+    throw new Error(`Failed to link thread ${threadId}: ${linkError.message}`)
+  }
+
+  return inserted?.length || 0
+}
+
+/**
+ * Re-run linking for the thread an email belongs to
+ */
+export async function linkThreadForEmail(emailId: string): Promise<number> {
+  const { data: email } = await supabase
+    .from('email_logs')
+    .select('thread_id')
+    .eq('id', emailId)
+    .maybeSingle()
+
+  if (!email?.thread_id) return 0
+  return linkThread(email.thread_id)
+}
+
+/**
+ * Link a thread by hand (from the conversation view)
+ */
+export async function addThreadLink(
+  threadId: string,
+  linkType: ThreadLinkType,
+  referenceId: string,
+  linkedBy: string
+): Promise<EmailThreadLink> {
+  if (!['quote_request', 'order', 'customer_interaction'].includes(linkType)) {
+    throw new Error(`Invalid link type: ${linkType}`)
+  }
+
+  const { data, error } = await supabase
+    .from('email_thread_links')
+    .upsert(
+      { thread_id: threadId, link_type: linkType, reference_id: referenceId, reason: 'manual', linked_by: linkedBy },
+      { onConflict: 'thread_id,link_type,reference_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to link thread: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Threads with the most recent activity first
+ */
+export async function listThreads(filter: {
+  customerEmail?: string
+  search?: string
+  limit?: number
+} = {}): Promise<Array<EmailThread & { links: Array<Pick<EmailThreadLink, 'link_type' | 'reference_id'>> }>> {
+  let query = supabase
+    .from('email_threads')
+    .select('*, links:email_thread_links(link_type, reference_id)')
+    .order('last_message_at', { ascending: false })
+    .limit(filter.limit || 50)
+
+  if (filter.customerEmail) query = query.eq('customer_email', filter.customerEmail.toLowerCase())
+  if (filter.search) query = query.or(`subject.ilike.%${filter.search}%,customer_email.ilike.%${filter.search}%`)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch threads: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Everything about one thread: inbound messages, our drafts and sent replies,
+ * quote emails, and the linked quotes, orders and interactions
+ */
+export async function getConversation(threadId: string): Promise<Conversation> {
+  const { data: thread, error } = await supabase
+    .from('email_threads')
+    .select('*')
+    .eq('id', threadId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch thread: ${error.message}`)
+  }
+  if (!thread) {
+    throw new Error('Thread not found')
+  }
+
+  const [emailsRes, linksRes] = await Promise.all([
+    supabase
+      .from('email_logs')
+      .select('*')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('email_thread_links')
+      .select('*')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true })
+  ])
+
+  const emails = emailsRes.data || []
+  const links: EmailThreadLink[] = linksRes.data || []
+  const idsOf = (type: ThreadLinkType) => links.filter(l => l.link_type === type).map(l => l.reference_id)
+
+  const [quotesRes, ordersRes, interactionsRes, draftsRes] = await Promise.all([
+    idsOf('quote_request').length > 0
+      ? supabase.from('quote_requests').select('*').in('id', idsOf('quote_request'))
+      : Promise.resolve({ data: [] as any[] }),
+    idsOf('order').length > 0
+      ? supabase.from('orders_tracker').select('*').in('order_no', idsOf('order'))
+      : Promise.resolve({ data: [] as OrderTracker[] }),
+    idsOf('customer_interaction').length > 0
+      ? supabase.from('customer_interactions').select('*').in('id', idsOf('customer_interaction')).order('interaction_date', { ascending: true })
+      : Promise.resolve({ data: [] as any[] }),
+    idsOf('quote_request').length > 0
+      ? supabase.from('email_drafts').select('*').in('metadata->>quote_request_id', idsOf('quote_request'))
+      : Promise.resolve({ data: [] as any[] })
+  ])
+
+  const messages: ConversationMessage[] = []
+
+  for (const email of emails) {
+    messages.push({
+      id: email.id,
+      direction: isOwnAddress(extractAddress(email.from_email)) ? 'outbound' : 'inbound',
+      kind: 'email',
+      status: email.status,
+      from: email.from_email,
+      to: email.to_email || null,
+      subject: email.subject,
+      body: email.payload?.body || email.payload?.snippet || '',
+      at: email.created_at,
+      email_id: email.id,
+    })
+
+    if (email.payload?.draft_response) {
+      messages.push({
+        id: `${email.id}:reply`,
+        direction: 'outbound',
+        kind: 'reply',
+        status: email.status === 'sent' ? 'sent' : 'draft',
+        from: 'Email Agent',
+        to: email.from_email,
+        subject: `Re: ${email.subject}`,
+        body: email.payload.draft_response,
+        at: email.updated_at,
+        email_id: email.id,
+      })
+    }
+  }
+
+  for (const draft of draftsRes.data || []) {
+    messages.push({
+      id: draft.id,
+      direction: 'outbound',
+      kind: 'quote',
+      status: draft.status,
+      from: draft.metadata?.created_by || 'Quote Agent',
+      to: draft.to_email,
+      subject: draft.subject,
+      body: draft.body,
+      at: draft.updated_at || draft.created_at,
+      email_id: null,
+    })
+  }
+
+  messages.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+
+  return {
+    thread,
+    messages,
+    links,
+    quote_requests: quotesRes.data || [],
+    orders: ordersRes.data || [],
+    customer_interactions: interactionsRes.data || [],
+  }
+}
+
+/**
+ * Thread emails logged before threading existed, looking their headers up in
+ * Gmail. Returns how many were threaded.
+ */
+export async function backfillThreads(limit: number = 50): Promise<number> {
+  const { data: emails, error } = await supabase
+    .from('email_logs')
+    .select('id, gmail_message_id, from_email, subject, created_at')
+    .is('thread_id', null)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch unthreaded emails: ${error.message}`)
+  }
+
+  let threaded = 0
+  for (const email of emails || []) {
+    try {
+      const headers = await gmailService.getThreadHeaders(email.gmail_message_id)
+      const threadId = await assignThread({
+        ...email,
+        gmail_thread_id: headers.threadId,
+        message_id_header: headers.messageIdHeader,
+        in_reply_to: headers.inReplyTo,
+        references: headers.references,
+      })
+      await linkThread(threadId)
+      threaded++
+    } catch (err: any) {
+      console.error(`[EMAIL THREADS] Backfill failed for ${email.id}:`, err.message)
+    }
+  }
+
+  return threaded
+}
+
+export const emailThreads = {
+  parseThreadHeaders,
+  assignThread,
+  refreshThreadStats,
+  linkThread,
+  linkThreadForEmail,
+  addThreadLink,
+  listThreads,
+  getConversation,
+  backfillThreads
+}
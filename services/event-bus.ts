@@ -0,0 +1,537 @@
+/**
+ * Event Bus Service
+ *
+ * Typed domain events between agents. Publishing stores the event and one
+ * delivery per subscriber, then delivers straight away so the next agent
+ * reacts in seconds instead of on its cron schedule. Deliveries are leased,
+ * retried with backoff and dead-lettered like squad_tasks (at-least-once), so
+ * subscribers must tolerate seeing an event twice. Events can be replayed.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { withUsageContext } from '@/services/llm-usage'
+import type {
+  DomainEvent,
+  DomainEventPayloads,
+  DomainEventType,
+  EventDelivery
+} from '@/types/events'
+
+export const EVENT_BUS_CONFIG = {
+  leaseSeconds: 120,
+  baseBackoffSeconds: 30,
+  maxBackoffSeconds: 1800,
+  defaultMaxAttempts: 5
+}
+
+export interface EventSubscriber<T extends DomainEventType = DomainEventType> {
+  /** Unique name, stored on each delivery */
+  name: string
+  /** Agent the work is done (and LLM usage billed) for */
+  agent: string
+  eventType: T
+  description: string
+  maxAttempts?: number
+  /** Throw to have the delivery retried */
+  handle: (event: DomainEvent<T>) => Promise<void>
+}
+
+export type SubscriberInfo = Omit<EventSubscriber, 'handle'>
+
+export interface PublishOptions {
+  /** Agent or route publishing the event */
+  source: string
+  correlationId?: string | null
+  /** Deliver to subscribers before returning (default true); otherwise left for the dispatch cron */
+  dispatch?: boolean
+}
+
+export interface DispatchResult {
+  delivered: number
+  failed: number
+  skipped: number
+}
+
+type DeliveryWithEvent = EventDelivery & { event: DomainEvent | null }
+
+const subscribers = new Map<string, EventSubscriber<any>>()
+
+/**
+ * Register a subscriber for one event type
+ */
+export function subscribe<T extends DomainEventType>(subscriber: EventSubscriber<T>): void {
+  if (subscribers.has(subscriber.name)) {
+    throw new Error(`Subscriber already registered: ${subscriber.name}`)
+  }
+  subscribers.set(subscriber.name, subscriber)
+}
+
+/**
+ * List registered subscribers, optionally for one event type
+ */
+export function listSubscribers(eventType?: DomainEventType): SubscriberInfo[] {
+  return Array.from(subscribers.values())
+    .filter(subscriber => !eventType || subscriber.eventType === eventType)
+    .map(({ handle, ...info }) => info)
+}
+
+/**
+ * Backoff before the next delivery attempt: base * 2^(attempts - 1), capped
+ */
+export function computeDeliveryBackoffSeconds(attempts: number): number {
+  const delay = EVENT_BUS_CONFIG.baseBackoffSeconds * Math.pow(2, Math.max(0, attempts - 1))
+  return Math.min(delay, EVENT_BUS_CONFIG.maxBackoffSeconds)
+}
+
+function createDispatcherId(): string {
+  return `dispatcher-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function subscribersFor(eventType: DomainEventType, subscriberName?: string): EventSubscriber<any>[] {
+  return Array.from(subscribers.values()).filter(subscriber =>
+    subscriber.eventType === eventType && (!subscriberName || subscriber.name === subscriberName)
+  )
+}
+
+/**
+ * Publish an event and deliver it to every subscriber of its type
+ */
+export async function publishEvent<T extends DomainEventType>(
+  type: T,
+  payload: DomainEventPayloads[T],
+  options: PublishOptions
+): Promise<DomainEvent<T>> {
+  const { data: event, error } = await supabase
+    .from('domain_events')
+    .insert({
+      type,
+      payload,
+      source: options.source,
+      correlation_id: options.correlationId || null
+    })
+    .select()
+    .single()
+
+  if (error || !event) {
+    throw new Error(`Failed to publish ${type}: ${error?.message}`)
+  }
+
+  const targets = subscribersFor(type)
+  if (targets.length > 0) {
+    const { error: deliveryError } = await supabase
+      .from('event_deliveries')
+      .insert(targets.map(subscriber => ({
+        event_id: event.id,
+        subscriber: subscriber.name,
+        max_attempts: subscriber.maxAttempts || EVENT_BUS_CONFIG.defaultMaxAttempts
+      })))
+
+    if (deliveryError) {
+      throw new Error(`Failed to queue deliveries for ${type}: ${deliveryError.message}`)
+    }
+  }
+
+  console.log(`[EVENT BUS] ${type} published by ${options.source} (${targets.length} subscribers)`)
+
+  if (options.dispatch !== false && targets.length > 0) {
+    // Failed deliveries stay queued for the dispatch cron
+    await dispatchEvent(event.id).catch(err =>
+      console.error(`[EVENT BUS] Inline dispatch of ${type} failed:`, err)
+    )
+  }
+
+  return event as DomainEvent<T>
+}
+
+/**
+ * Deliver the due deliveries of one event
+ */
+export async function dispatchEvent(eventId: string): Promise<DispatchResult> {
+  const { data, error } = await supabase
+    .from('event_deliveries')
+    .select('*, event:domain_events(*)')
+    .eq('event_id', eventId)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+
+  if (error) {
+    throw new Error(`Failed to fetch deliveries for event ${eventId}: ${error.message}`)
+  }
+
+  return deliverAll((data || []) as DeliveryWithEvent[])
+}
+
+/**
+ * Deliver everything that is due: pending past its backoff, or in_progress
+ * with an expired lease (dispatcher crashed or timed out)
+ */
+export async function dispatchPendingDeliveries(limit: number = 20): Promise<DispatchResult> {
+  const now = new Date().toISOString()
+
+  const [dueRes, expiredRes] = await Promise.all([
+    supabase
+      .from('event_deliveries')
+      .select('*, event:domain_events(*)')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit),
+    supabase
+      .from('event_deliveries')
+      .select('*, event:domain_events(*)')
+      .eq('status', 'in_progress')
+      .lt('lease_expires_at', now)
+      .order('lease_expires_at', { ascending: true })
+      .limit(limit)
+  ])
+
+  if (dueRes.error) {
+    console.error('Error fetching due deliveries:', dueRes.error)
+  }
+  if (expiredRes.error) {
+    console.error('Error fetching expired delivery leases:', expiredRes.error)
+  }
+
+  const deliveries = [...(expiredRes.data || []), ...(dueRes.data || [])].slice(0, limit)
+  return deliverAll(deliveries as DeliveryWithEvent[])
+}
+
+async function deliverAll(deliveries: DeliveryWithEvent[]): Promise<DispatchResult> {
+  const dispatcherId = createDispatcherId()
+  const result: DispatchResult = { delivered: 0, failed: 0, skipped: 0 }
+
+  for (const delivery of deliveries) {
+    const outcome = await deliver(delivery, dispatcherId)
+    result[outcome]++
+  }
+
+  return result
+}
+
+/**
+ * Atomically lease a delivery. Returns null if another dispatcher got it first.
+ */
+async function claimDelivery(delivery: EventDelivery, dispatcherId: string): Promise<EventDelivery | null> {
+  const now = new Date()
+  const leaseExpiresAt = new Date(now.getTime() + EVENT_BUS_CONFIG.leaseSeconds * 1000)
+
+  // A lease expired on the final attempt - the dispatcher died mid-delivery, give up
+  if (delivery.status === 'in_progress' && delivery.attempts >= delivery.max_attempts) {
+    await markDead(delivery, delivery.last_error || 'Lease expired on final attempt')
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('event_deliveries')
+    .update({
+      status: 'in_progress',
+      lease_owner: dispatcherId,
+      lease_expires_at: leaseExpiresAt.toISOString(),
+      attempts: delivery.attempts + 1
+    })
+    .eq('id', delivery.id)
+    .eq('status', delivery.status)
+    .eq('attempts', delivery.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error claiming delivery ${delivery.id}:`, error)
+    return null
+  }
+
+  return data
+}
+
+async function deliver(
+  delivery: DeliveryWithEvent,
+  dispatcherId: string
+): Promise<'delivered' | 'failed' | 'skipped'> {
+  const subscriber = subscribers.get(delivery.subscriber)
+  if (!subscriber || !delivery.event) {
+    await markDead(delivery, subscriber ? 'Event not found' : `No subscriber registered as ${delivery.subscriber}`)
+    return 'failed'
+  }
+
+  const claimed = await claimDelivery(delivery, dispatcherId)
+  if (!claimed) return 'skipped'
+
+  try {
+    await withUsageContext({ agent: subscriber.agent }, () => subscriber.handle(delivery.event!))
+
+    await supabase
+      .from('event_deliveries')
+      .update({
+        status: 'delivered',
+        delivered_at: new Date().toISOString(),
+        lease_owner: null,
+        lease_expires_at: null,
+        last_error: null
+      })
+      .eq('id', claimed.id)
+      .eq('lease_owner', dispatcherId)
+
+    return 'delivered'
+  } catch (error: any) {
+    console.error(`[EVENT BUS] ${subscriber.name} failed on ${delivery.event.type}:`, error)
+    await failDelivery(claimed, dispatcherId, error.message)
+    return 'failed'
+  }
+}
+
+/**
+ * Record a failed attempt: back off and retry, or dead-letter after max attempts
+ */
+async function failDelivery(delivery: EventDelivery, dispatcherId: string, errorMessage: string): Promise<void> {
+  if (delivery.attempts >= delivery.max_attempts) {
+    await markDead(delivery, errorMessage)
+    return
+  }
+
+  const backoffSeconds = computeDeliveryBackoffSeconds(delivery.attempts)
+
+  await supabase
+    .from('event_deliveries')
+    .update({
+      status: 'pending',
+      next_attempt_at: new Date(Date.now() + backoffSeconds * 1000).toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: errorMessage
+    })
+    .eq('id', delivery.id)
+    .eq('lease_owner', dispatcherId)
+}
+
+async function markDead(delivery: EventDelivery, errorMessage: string): Promise<void> {
+  await supabase
+    .from('event_deliveries')
+    .update({
+      status: 'dead',
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: errorMessage
+    })
+    .eq('id', delivery.id)
+
+  await logToSquadMessages(
+    'Event Bus',
+    `☠️ Delivery to ${delivery.subscriber} dead-lettered after ${delivery.attempts} attempt(s): ${errorMessage}`,
+    { event_id: delivery.event_id, delivery_id: delivery.id, subscriber: delivery.subscriber }
+  )
+}
+
+/**
+ * Deliver an event again - to one subscriber or all current subscribers of its
+ * type, including ones registered after it was published
+ */
+export async function replayEvent(
+  eventId: string,
+  options: { subscriber?: string; dispatch?: boolean } = {}
+): Promise<number> {
+  const { data: event, error } = await supabase
+    .from('domain_events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch event ${eventId}: ${error.message}`)
+  }
+  if (!event) {
+    throw new Error('Event not found')
+  }
+
+  const targets = subscribersFor(event.type, options.subscriber)
+  if (targets.length === 0) {
+    throw new Error(`Invalid subscriber for ${event.type}: ${options.subscriber || 'none registered'}`)
+  }
+
+  const now = new Date().toISOString()
+  const { error: upsertError } = await supabase
+    .from('event_deliveries')
+    .upsert(
+      targets.map(subscriber => ({
+        event_id: event.id,
+        subscriber: subscriber.name,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: subscriber.maxAttempts || EVENT_BUS_CONFIG.defaultMaxAttempts,
+        next_attempt_at: now,
+        lease_owner: null,
+        lease_expires_at: null,
+        last_error: null,
+        delivered_at: null,
+        replayed_at: now
+      })),
+      { onConflict: 'event_id,subscriber' }
+    )
+
+  if (upsertError) {
+    throw new Error(`Failed to replay event ${eventId}: ${upsertError.message}`)
+  }
+
+  if (options.dispatch !== false) {
+    await dispatchEvent(event.id)
+  }
+
+  return targets.length
+}
+
+/**
+ * Queue a replay of every event of a type since a point in time. The
+ * deliveries are picked up by the dispatch cron.
+ */
+export async function replayEvents(filter: {
+  type: DomainEventType
+  since: string
+  subscriber?: string
+  limit?: number
+}): Promise<{ events: number; deliveries: number }> {
+  const { data: events, error } = await supabase
+    .from('domain_events')
+    .select('id')
+    .eq('type', filter.type)
+    .gte('created_at', filter.since)
+    .order('created_at', { ascending: true })
+    .limit(filter.limit || 100)
+
+  if (error) {
+    throw new Error(`Failed to fetch ${filter.type} events: ${error.message}`)
+  }
+
+  let deliveries = 0
+  for (const event of events || []) {
+    deliveries += await replayEvent(event.id, { subscriber: filter.subscriber, dispatch: false })
+  }
+
+  return { events: events?.length || 0, deliveries }
+}
+
+/**
+ * Recent events with their deliveries (for the Squad page and debugging)
+ */
+export async function listEvents(filter: {
+  type?: DomainEventType
+  correlationId?: string
+  limit?: number
+} = {}): Promise<Array<DomainEvent & { deliveries: EventDelivery[] }>> {
+  let query = supabase
+    .from('domain_events')
+    .select('*, deliveries:event_deliveries(*)')
+    .order('created_at', { ascending: false })
+    .limit(filter.limit || 50)
+
+  if (filter.type) query = query.eq('type', filter.type)
+  if (filter.correlationId) query = query.eq('correlation_id', filter.correlationId)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch events: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export const eventBus = {
+  subscribe,
+  listSubscribers,
+  publishEvent,
+  dispatchEvent,
+  dispatchPendingDeliveries,
+  replayEvent,
+  replayEvents,
+  listEvents
+}
+
+// ============================================
+// Built-in subscribers
+// ============================================
+
+// Quote Agent
+subscribe({
+  name: 'quote_agent.detect_quote_request',
+  agent: 'Quote Agent',
+  eventType: 'email.classified',
+  description: 'Check a classified email for a customer quote request',
+  handle: async (event) => {
+    const { detectQuoteRequestForEmail } = await import('@/services/event-subscribers/quote-subscribers')
+    await detectQuoteRequestForEmail(event)
+  }
+})
+subscribe({
+  name: 'quote_agent.track_quote_reply',
+  agent: 'Quote Agent',
+  eventType: 'email.classified',
+  description: 'Record a customer reply to a sent quote and stop its follow-ups',
+  handle: async (event) => {
+    const { trackQuoteReplyForEmail } = await import('@/services/event-subscribers/quote-subscribers')
+    await trackQuoteReplyForEmail(event)
+  }
+})
+subscribe({
+  name: 'quote_agent.generate_quote',
+  agent: 'Quote Agent',
+  eventType: 'supplier.responded',
+  description: 'Generate the customer quote as soon as supplier responses are aggregated',
+  handle: async (event) => {
+    const { generateQuoteForResponses } = await import('@/services/event-subscribers/quote-subscribers')
+    await generateQuoteForResponses(event)
+  }
+})
+subscribe({
+  name: 'quote_agent.convert_to_order',
+  agent: 'Quote Agent',
+  eventType: 'quote.outcome_recorded',
+  description: 'Create the order and supplier purchase orders when a quote is accepted',
+  handle: async (event) => {
+    const { convertAcceptedQuoteToOrder } = await import('@/services/event-subscribers/quote-subscribers')
+    await convertAcceptedQuoteToOrder(event)
+  }
+})
+subscribe({
+  name: 'quote_agent.stop_follow_ups',
+  agent: 'Quote Agent',
+  eventType: 'quote.outcome_recorded',
+  description: 'Stop the follow-up emails of a quote the customer has answered',
+  handle: async (event) => {
+    const { stopFollowUpsForOutcome } = await import('@/services/event-subscribers/quote-subscribers')
+    await stopFollowUpsForOutcome(event)
+  }
+})
+
+// Supplier Agent
+subscribe({
+  name: 'supplier_agent.process_supplier_response',
+  agent: 'Supplier Agent',
+  eventType: 'email.classified',
+  description: 'Extract pricing from a classified email if it is a supplier quote response',
+  handle: async (event) => {
+    const { processSupplierResponseForEmail } = await import('@/services/event-subscribers/supplier-subscribers')
+    await processSupplierResponseForEmail(event)
+  }
+})
+
+// Email Agent
+subscribe({
+  name: 'email_agent.link_thread',
+  agent: 'Email Agent',
+  eventType: 'email.classified',
+  description: 'Link the email thread to quotes and orders mentioned in the email',
+  handle: async (event) => {
+    const { linkThreadForClassifiedEmail } = await import('@/services/event-subscribers/email-subscribers')
+    await linkThreadForClassifiedEmail(event)
+  }
+})
+subscribe({
+  name: 'email_agent.link_quote_request',
+  agent: 'Email Agent',
+  eventType: 'quote_request.created',
+  description: 'Link the source email thread to the new quote request',
+  handle: async (event) => {
+    const { linkThreadForQuoteRequest } = await import('@/services/event-subscribers/email-subscribers')
+    await linkThreadForQuoteRequest(event)
+  }
+})
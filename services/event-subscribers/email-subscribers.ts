@@ -0,0 +1,30 @@
+/**
+ * Email Agent Event Subscribers
+ *
+ * - email.classified: link the email's thread to the quotes and orders its
+ *   extracted entities mention
+ * - quote_request.created: link the source email's thread to the new request
+ */
+
+import { linkThreadForEmail } from '@/services/email-threads'
+import type { DomainEvent } from '@/types/events'
+
+/**
+ * Linking upserts with ignoreDuplicates, so redelivery is harmless
+ */
+export async function linkThreadForClassifiedEmail(event: DomainEvent<'email.classified'>): Promise<void> {
+  const linked = await linkThreadForEmail(event.payload.emailId)
+  if (linked > 0) {
+    console.log(`[EMAIL SUBSCRIBER] Linked ${linked} record(s) to thread of email ${event.payload.emailId}`)
+  }
+}
+
+export async function linkThreadForQuoteRequest(event: DomainEvent<'quote_request.created'>): Promise<void> {
+  const { emailId, quoteRequestId } = event.payload
+  if (!emailId) return
+
+  const linked = await linkThreadForEmail(emailId)
+  if (linked > 0) {
+    console.log(`[EMAIL SUBSCRIBER] Linked quote request ${quoteRequestId} to thread of email ${emailId}`)
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Quote Agent Event Subscribers
+ *
+ * - email.classified: detect customer quote requests in new email, and track
+ *   customer replies to sent quotes (which stops their follow-ups)
+ * - supplier.responded: run the generate_quote task as soon as it is created
+ *   instead of waiting for the task executor cron
+ * - quote.outcome_recorded: convert an accepted quote into an order and
+ *   supplier purchase orders, and stop the quote's follow-ups
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { detectQuoteRequest } from '@/lib/quote-request-detector'
+import { trackEmailResponse } from '@/lib/quote-template-engine'
+import { convertQuoteToOrder } from '@/services/purchase-orders'
+import { stopFollowUps } from '@/services/quote-follow-ups'
+import { claimTask, createWorkerId } from '@/services/task-queue'
+import { executeTask } from '@/services/task-executor'
+import type { DomainEvent } from '@/types/events'
+import type { Task } from '@/types/squad'
+
+/**
+ * Check a classified email for a quote request. Skips emails that already
+ * produced a quote request, so redelivery never creates a duplicate.
+ */
+export async function detectQuoteRequestForEmail(event: DomainEvent<'email.classified'>): Promise<void> {
+  const { emailId } = event.payload
+
+  const { data: existing } = await supabase
+    .from('quote_requests')
+    .select('id')
+    .eq('source_email_id', emailId)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    console.log(`[QUOTE SUBSCRIBER] Email ${emailId} already has quote request ${existing[0].id}`)
+    return
+  }
+
+  const { data: emailLog, error } = await supabase
+    .from('email_logs')
+    .select('id, gmail_message_id, from_email, subject, payload')
+    .eq('id', emailId)
+    .single()
+
+  if (error || !emailLog) {
+    throw new Error(`Email log ${emailId} not found`)
+  }
+
+  try {
+    const quoteResult = await detectQuoteRequest({
+      id: emailLog.id,
+      gmail_message_id: emailLog.gmail_message_id,
+      from_email: emailLog.from_email,
+      subject: emailLog.subject,
+      body: emailLog.payload?.body || '',
+    })
+
+    if (quoteResult.isQuoteRequest) {
+      await logToSquadMessages(
+        'Email Agent',
+        `🎯 Quote request detected: "${emailLog.subject}" (${Math.round(quoteResult.confidenceScore * 100)}% confidence)`,
+        {
+          email_id: emailLog.id,
+          quote_request_id: quoteResult.quoteRequestId,
+          task_id: quoteResult.taskId,
+          confidence: quoteResult.confidenceScore,
+        }
+      )
+    } else {
+      // Log even when NOT a quote (so we know the detector ran)
+      await logToSquadMessages(
+        'Email Agent',
+        `📧 Not a quote request: "${emailLog.subject}" (${Math.round(quoteResult.confidenceScore * 100)}% confidence)`,
+        {
+          email_id: emailLog.id,
+          confidence: quoteResult.confidenceScore,
+        }
+      )
+    }
+  } catch (err: any) {
+    await logToSquadMessages(
+      'Email Agent',
+      `❌ Quote detection error for "${emailLog.subject}": ${err.message}`,
+      {
+        email_id: emailLog.id,
+        error: err.message,
+        stack: err.stack?.substring(0, 500),
+      }
+    )
+    throw err
+  }
+}
+
+/**
+ * Execute the task created when supplier responses were aggregated - the
+ * RFQ award (which queues generate_quote once it goes ahead) or
+ * generate_quote itself. A no-op if the task executor already claimed it.
+ */
+export async function generateQuoteForResponses(event: DomainEvent<'supplier.responded'>): Promise<void> {
+  const { quoteTaskId } = event.payload
+  if (!quoteTaskId) return
+
+  const { data: task, error } = await supabase
+    .from('squad_tasks')
+    .select('*')
+    .eq('id', quoteTaskId)
+    .single()
+
+  if (error || !task) {
+    throw new Error(`Quote task ${quoteTaskId} not found`)
+  }
+
+  if (task.status !== 'new') {
+    console.log(`[QUOTE SUBSCRIBER] Task ${quoteTaskId} already ${task.status}`)
+    return
+  }
+
+  const workerId = createWorkerId()
+  const claimed = await claimTask(task as Task, workerId)
+  if (!claimed) return
+
+  // Failures are retried by the task queue from here on
+  await executeTask(claimed, workerId)
+}
+
+/**
+ * Create the order and purchase orders for an accepted quote. Conversion is
+ * idempotent per quote request, so redelivery returns the existing order.
+ */
+export async function convertAcceptedQuoteToOrder(event: DomainEvent<'quote.outcome_recorded'>): Promise<void> {
+  const { quoteRequestId, outcome } = event.payload
+  if (outcome !== 'accepted') return
+
+  const conversion = await convertQuoteToOrder({ quoteRequestId, convertedBy: 'QuoteAgent' })
+
+  if (conversion.already_converted) {
+    console.log(`[QUOTE SUBSCRIBER] Quote request ${quoteRequestId} already converted to order ${conversion.order_no}`)
+  }
+}
+
+/**
+ * Record a customer's reply to a quote email. Replies are tracked once per
+ * email, so redelivery is a no-op.
+ */
+export async function trackQuoteReplyForEmail(event: DomainEvent<'email.classified'>): Promise<void> {
+  const result = await trackEmailResponse(event.payload.emailId)
+
+  if (!result.success) {
+    throw new Error(result.error || `Failed to track reply ${event.payload.emailId}`)
+  }
+}
+
+/**
+ * Stop the follow-up emails of a quote the customer has answered
+ */
+export async function stopFollowUpsForOutcome(event: DomainEvent<'quote.outcome_recorded'>): Promise<void> {
+  const { quoteRequestId, outcome } = event.payload
+  if (outcome === 'pending') return
+
+  await stopFollowUps(quoteRequestId, 'outcome_recorded')
+}
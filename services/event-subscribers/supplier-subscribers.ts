@@ -0,0 +1,35 @@
+/**
+ * Supplier Agent Event Subscribers
+ *
+ * - email.classified: record supplier quote responses and aggregate them once
+ *   every supplier has replied (publishes supplier.responded)
+ */
+
+import { supabase } from '@/lib/supabase'
+import { processSupplierResponse } from '@/lib/supplier-response-handler'
+import type { DomainEvent } from '@/types/events'
+
+/**
+ * Process a classified email as a possible supplier response. Skips emails
+ * already logged as a supplier interaction, so redelivery is harmless.
+ */
+export async function processSupplierResponseForEmail(event: DomainEvent<'email.classified'>): Promise<void> {
+  const { emailId } = event.payload
+
+  const { data: existing } = await supabase
+    .from('email_supplier_interactions')
+    .select('id')
+    .eq('email_log_id', emailId)
+    .limit(1)
+
+  if (existing && existing.length > 0) {
+    console.log(`[SUPPLIER SUBSCRIBER] Email ${emailId} already processed as interaction ${existing[0].id}`)
+    return
+  }
+
+  const result = await processSupplierResponse(emailId)
+
+  if (!result.success) {
+    throw new Error(result.error || 'Supplier response processing failed')
+  }
+}
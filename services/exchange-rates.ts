@@ -0,0 +1,221 @@
+/**
+ * Exchange Rates Service
+ *
+ * Several importers quote in USD or EUR. Rates to ZAR are kept in
+ * exchange_rates - entered by hand or imported from a CSV - and supplier
+ * prices are converted with the latest rate before they are compared or
+ * marked up. The rates a quote was priced with are snapshotted on its
+ * version, and the approval card warns when a rate is older than
+ * EXCHANGE_RATE_MAX_AGE_DAYS.
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export const BASE_CURRENCY = 'ZAR'
+
+export const EXCHANGE_RATE_MAX_AGE_DAYS = parseInt(process.env.EXCHANGE_RATE_MAX_AGE_DAYS || '7', 10)
+
+export type ExchangeRateSource = 'manual' | 'csv'
+
+export interface ExchangeRate {
+  id: string
+  currency: string
+  /** ZAR per one unit of the currency */
+  rate_to_zar: number
+  rate_date: string
+  source: ExchangeRateSource
+  created_by: string
+  created_at: string
+}
+
+/** The rate a price was converted with, as stored on quote versions */
+export interface ExchangeRateSnapshot {
+  currency: string
+  rate_to_zar: number
+  rate_date: string
+  source: ExchangeRateSource
+}
+
+const CURRENCY_ALIASES: Record<string, string> = {
+  R: 'ZAR',
+  RAND: 'ZAR',
+  '$': 'USD',
+  'US$': 'USD',
+  DOLLAR: 'USD',
+  '€': 'EUR',
+  EURO: 'EUR',
+  '£': 'GBP',
+  POUND: 'GBP'
+}
+
+/**
+ * Normalise a currency code or symbol as written by suppliers (e.g. "$",
+ * "usd", "Euro") to an ISO code. Unknown values fall back to ZAR.
+ */
+export function normalizeCurrency(currency: string | null | undefined): string {
+  const value = (currency || '').trim().toUpperCase()
+  if (!value) return BASE_CURRENCY
+  if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value]
+  return /^[A-Z]{3}$/.test(value) ? value : BASE_CURRENCY
+}
+
+export function rateAgeDays(snapshot: Pick<ExchangeRateSnapshot, 'rate_date'>, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - new Date(snapshot.rate_date).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+export function isRateStale(snapshot: Pick<ExchangeRateSnapshot, 'rate_date'>, maxAgeDays: number = EXCHANGE_RATE_MAX_AGE_DAYS): boolean {
+  return rateAgeDays(snapshot) > maxAgeDays
+}
+
+/**
+ * Convert an amount to ZAR with a snapshot from getRateSnapshot
+ */
+export function convertToZar(amount: number, currency: string, snapshot: Map<string, ExchangeRateSnapshot>): number {
+  const code = normalizeCurrency(currency)
+  if (code === BASE_CURRENCY) return amount
+
+  const rate = snapshot.get(code)
+  if (!rate) {
+    throw new Error(`Invalid currency: no exchange rate for ${code}`)
+  }
+  return Math.round(amount * rate.rate_to_zar * 100) / 100
+}
+
+/**
+ * The latest rate of each currency
+ */
+export async function listExchangeRates(): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .order('rate_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load exchange rates: ${error.message}`)
+  }
+
+  const latest = new Map<string, ExchangeRate>()
+  for (const rate of data || []) {
+    if (!latest.has(rate.currency)) latest.set(rate.currency, rate)
+  }
+  return Array.from(latest.values()).sort((a, b) => a.currency.localeCompare(b.currency))
+}
+
+/**
+ * Latest rates for the given currencies. Currencies without a rate are left
+ * out - convertToZar throws for them.
+ */
+export async function getRateSnapshot(currencies: string[]): Promise<Map<string, ExchangeRateSnapshot>> {
+  const codes = Array.from(new Set(currencies.map(normalizeCurrency))).filter(code => code !== BASE_CURRENCY)
+  const snapshot = new Map<string, ExchangeRateSnapshot>()
+  if (codes.length === 0) return snapshot
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency, rate_to_zar, rate_date, source')
+    .in('currency', codes)
+    .order('rate_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load exchange rates: ${error.message}`)
+  }
+
+  for (const rate of data || []) {
+    if (!snapshot.has(rate.currency)) {
+      snapshot.set(rate.currency, { ...rate, rate_to_zar: Number(rate.rate_to_zar) })
+    }
+  }
+  return snapshot
+}
+
+/**
+ * Record a rate. A second rate for the same currency and day replaces the first.
+ */
+export async function setExchangeRate(input: {
+  currency: string
+  rateToZar: number
+  rateDate?: string
+  source: ExchangeRateSource
+  createdBy: string
+}): Promise<ExchangeRate> {
+  const currency = (input.currency || '').trim().toUpperCase()
+  if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+    throw new Error(`Invalid currency: ${input.currency}`)
+  }
+
+  const rate = Number(input.rateToZar)
+  if (!(rate > 0)) {
+    throw new Error(`Invalid rate for ${currency}: ${input.rateToZar}`)
+  }
+
+  const rateDate = input.rateDate || new Date().toISOString().split('T')[0]
+  if (isNaN(new Date(rateDate).getTime())) {
+    throw new Error(`Invalid rate date for ${currency}: ${rateDate}`)
+  }
+
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .upsert({
+      currency,
+      rate_to_zar: rate,
+      rate_date: rateDate,
+      source: input.source,
+      created_by: input.createdBy,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'currency,rate_date' })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save exchange rate: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Import rates from CSV lines of `currency,rate[,date]` (ZAR per unit, date
+ * as YYYY-MM-DD, today when left out). A header row is skipped. Bad lines are
+ * reported and the rest are still imported.
+ */
+export async function importExchangeRatesCsv(csv: string, createdBy: string): Promise<{
+  imported: ExchangeRate[]
+  errors: Array<{ line: number; error: string }>
+}> {
+  const imported: ExchangeRate[] = []
+  const errors: Array<{ line: number; error: string }> = []
+
+  const lines = csv.split(/\r?\n/)
+  for (const [index, line] of lines.entries()) {
+    const [currency, rate, rateDate] = line.split(/[,;\t]/).map(value => value.trim().replace(/^"|"$/g, ''))
+    if (!currency) continue
+    if (index === 0 && isNaN(Number(rate))) continue
+
+    try {
+      imported.push(await setExchangeRate({
+        currency,
+        rateToZar: Number(rate),
+        rateDate: rateDate || undefined,
+        source: 'csv',
+        createdBy
+      }))
+    } catch (error: any) {
+      errors.push({ line: index + 1, error: error.message })
+    }
+  }
+
+  return { imported, errors }
+}
+
+export const exchangeRates = {
+  normalizeCurrency,
+  convertToZar,
+  isRateStale,
+  rateAgeDays,
+  listExchangeRates,
+  getRateSnapshot,
+  setExchangeRate,
+  importExchangeRatesCsv
+}
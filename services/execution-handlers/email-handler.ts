@@ -9,6 +9,8 @@ import type { Task } from '@/types/squad'
 import { sendDraft } from '@/services/integrations/gmail-sender'
 import { getServerSupabase } from '@/lib/supabase'
 import { logToSquadMessages } from '@/lib/logger'
+import { acquireLocks, releaseLocks, getCustomerResourceId } from '@/services/resource-locks'
+import type { LockResult } from '@/services/types'
 
 const DRY_RUN = process.env.AGENT_DRY_RUN === 'true'
 
@@ -33,6 +35,8 @@ export async function emailSendHandler(task: Task): Promise<ExecutionResult> {
     }
   }
 
+  let heldLocks: LockResult[] = []
+
   try {
     const supabase = getServerSupabase()
 
@@ -55,6 +59,15 @@ export async function emailSendHandler(task: Task): Promise<ExecutionResult> {
       throw new Error(`Email not found: ${emailId}`)
     }
 
+    const locks = await acquireLocks([
+      { resourceType: 'email', resourceId: emailId, agent: 'email_agent', action: 'send' },
+      { resourceType: 'customer', resourceId: getCustomerResourceId(emailLog.from_email), agent: 'email_agent', action: 'send' }
+    ])
+    if (!locks.acquired) {
+      throw new Error(`${locks.heldBy.resourceType} is locked by ${locks.heldBy.agent} (${locks.heldBy.action})`)
+    }
+    heldLocks = locks.locks
+
     console.log('[EMAIL HANDLER] Sending draft:', draftId)
 
     // Send the draft
@@ -107,5 +120,7 @@ export async function emailSendHandler(task: Task): Promise<ExecutionResult> {
       success: false,
       error: error.message
     }
+  } finally {
+    await releaseLocks(heldLocks)
   }
 }
@@ -0,0 +1,72 @@
+/**
+ * Predictive Quote Agent Execution Handler
+ *
+ * Handles predictive quote tasks:
+ * - score_customers: Runs the opportunity analysis across active customers
+ * - review_predictive_opportunity: Generates the proactive quote once a reviewer approves it
+ */
+
+import type { Task } from '@/types/squad'
+import { predictiveQuoteAgent } from '@/services/agents/predictive-quote-agent'
+
+const DRY_RUN = process.env.AGENT_DRY_RUN === 'true'
+
+interface ExecutionResult {
+  success: boolean
+  deliverable_url?: string
+  error?: string
+}
+
+/**
+ * Score all active customers for predictive quote opportunities
+ */
+export async function predictiveScoreHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[PREDICTIVE HANDLER] Scoring customers:', task.title)
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would score customers for predictive quotes')
+    return {
+      success: true,
+      deliverable_url: '/predictive-quotes'
+    }
+  }
+
+  const result = await predictiveQuoteAgent.scoreAllCustomers()
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return {
+    success: true,
+    deliverable_url: '/predictive-quotes'
+  }
+}
+
+/**
+ * Turn an approved predictive opportunity into a proactive quote request
+ */
+export async function predictiveOpportunityHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[PREDICTIVE HANDLER] Actioning opportunity:', task.title)
+
+  const customerEmail = task.metadata?.customer_email
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would generate proactive quote for:', customerEmail)
+    return {
+      success: true,
+      deliverable_url: '/predictive-quotes'
+    }
+  }
+
+  const result = await predictiveQuoteAgent.actionOpportunity(customerEmail)
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return {
+    success: true,
+    deliverable_url: '/predictive-quotes'
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Quote Agent Execution Handler
+ *
+ * Handles quote tasks:
+ * - generate_quote: Builds the customer quote, PDF and draft email from supplier responses
+ * - approve_quote: Sends an approved quote to the customer via the quote approval API
+ * - requote_expired_quote: Asks the suppliers for fresh prices for an expired quote
+ * - revise_quote: Builds a new version of a quote the customer asked to change in the portal
+ */
+
+import type { Task } from '@/types/squad'
+import { quoteAgent } from '@/services/agents/quote-agent'
+import { requoteExpiredQuote } from '@/services/quote-follow-ups'
+import { logToSquadMessages } from '@/lib/logger'
+
+const DRY_RUN = process.env.AGENT_DRY_RUN === 'true'
+
+interface ExecutionResult {
+  success: boolean
+  deliverable_url?: string
+  error?: string
+}
+
+/**
+ * Generate a customer quote for a quote request
+ */
+export async function quoteGenerateHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[QUOTE HANDLER] Generating quote:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would generate quote for request:', quoteRequestId)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  }
+
+  const result = await quoteAgent.generateCustomerQuote(quoteRequestId)
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return {
+    success: true,
+    deliverable_url: result.pdfUrl
+  }
+}
+
+/**
+ * Build a new version of a quote the customer asked to change; the requested
+ * changes go on its approval task, where the approver edits it before sending
+ */
+export async function quoteReviseHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[QUOTE HANDLER] Revising quote:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would revise quote:', task.metadata?.quote_number)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  }
+
+  const result = await quoteAgent.generateCustomerQuote(quoteRequestId, {
+    revisionNotes: task.metadata?.revision_notes
+  })
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return {
+    success: true,
+    deliverable_url: result.pdfUrl
+  }
+}
+
+/**
+ * Send an approved quote to the customer.
+ * Delegates to /api/quotes/approve so the send, feedback logging and
+ * follow-up scheduling stay in one place.
+ */
+export async function quoteSendHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[QUOTE HANDLER] Sending approved quote:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would send approved quote:', task.metadata?.quote_number)
+    return {
+      success: true,
+      deliverable_url: task.metadata?.pdf_url
+    }
+  }
+
+  try {
+    const url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
+    const response = await fetch(`${url}/api/quotes/approve`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.CRON_SECRET}`
+      },
+      body: JSON.stringify({ quoteRequestId, action: 'approve' })
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Quote approval API returned ${response.status}`)
+    }
+
+    await logToSquadMessages(
+      'QuoteAgent',
+      `✅ Quote ${data.quoteNumber} sent to ${task.metadata?.customer_email}`,
+      { task_id: task.id, quote_request_id: quoteRequestId }
+    )
+
+    return {
+      success: true,
+      deliverable_url: task.metadata?.pdf_url
+    }
+  } catch (error: any) {
+    console.error('[QUOTE HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
+
+/**
+ * Re-quote an expired quote once Kenny approves it
+ */
+export async function quoteRequoteHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[QUOTE HANDLER] Re-quoting expired quote:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would re-quote expired quote:', task.metadata?.quote_number)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  }
+
+  try {
+    if (!task.approved_by) {
+      throw new Error('Task has no recorded approver')
+    }
+
+    await requoteExpiredQuote(quoteRequestId, task.approved_by)
+
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  } catch (error: any) {
+    console.error('[QUOTE HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * Execution Handler Registry
+ *
+ * Each handler registers the task types it accepts for an agent, together with
+ * a JSON schema for the task metadata, the AGENT_RATE_LIMITS key it consumes
+ * and whether the task must be approved before it runs. The task executor
+ * resolves a task to exactly one registration and validates it before dispatch.
+ */
+
+import type { Task } from '@/types/squad'
+import { AGENT_RATE_LIMITS } from '@/lib/rate-limiter'
+import { validateJsonSchema, type JsonSchema } from '@/lib/json-schema'
+
+export interface ExecutionResult {
+  success: boolean
+  deliverable_url?: string
+  error?: string
+  /** Handler is waiting on something external - retry at this time without consuming an attempt */
+  reschedule_at?: string
+}
+
+export interface HandlerRegistration {
+  /** assigned_agent value(s) this handler serves */
+  agents: string[]
+  /** Task type (metadata.action / task_type / action_required) */
+  taskType: string
+  description: string
+  metadataSchema: JsonSchema
+  rateLimitKey?: keyof typeof AGENT_RATE_LIMITS
+  requiresApproval: boolean
+  execute: (task: Task) => Promise<ExecutionResult>
+}
+
+export type HandlerCapability = Omit<HandlerRegistration, 'execute'>
+
+type TaskTypeResolver = (task: Task) => string | undefined
+
+const registrations = new Map<string, HandlerRegistration>()
+const taskTypeResolvers = new Map<string, TaskTypeResolver>()
+
+function registrationKey(agent: string, taskType: string): string {
+  return `${agent}::${taskType}`
+}
+
+/**
+ * Register a handler for one task type
+ */
+export function registerHandler(registration: HandlerRegistration): void {
+  for (const agent of registration.agents) {
+    const key = registrationKey(agent, registration.taskType)
+    if (registrations.has(key)) {
+      throw new Error(`Handler already registered for ${agent} / ${registration.taskType}`)
+    }
+    registrations.set(key, registration)
+  }
+}
+
+/**
+ * Register how to infer the task type for an agent's tasks that don't set one
+ */
+export function registerTaskTypeResolver(agents: string[], resolver: TaskTypeResolver): void {
+  for (const agent of agents) {
+    taskTypeResolvers.set(agent, resolver)
+  }
+}
+
+/**
+ * Determine the task type of a task: explicit metadata first, then the
+ * agent's resolver for legacy tasks created without one
+ */
+export function resolveTaskType(task: Task): string | undefined {
+  const metadata = task.metadata || {}
+  const explicit = metadata.task_type || metadata.action || metadata.action_required
+  if (explicit) return explicit
+
+  const resolver = taskTypeResolvers.get(task.assigned_agent)
+  return resolver ? resolver(task) : undefined
+}
+
+/**
+ * Find the registration for a task, or null if no handler accepts it
+ */
+export function getHandlerForTask(task: Task): HandlerRegistration | null {
+  const taskType = resolveTaskType(task)
+  if (!taskType) return null
+  return registrations.get(registrationKey(task.assigned_agent, taskType)) || null
+}
+
+/**
+ * Validate task metadata against the handler's schema.
+ * Returns the list of validation errors (empty when valid).
+ */
+export function validateTaskMetadata(task: Task, registration: HandlerRegistration): string[] {
+  return validateJsonSchema(task.metadata || {}, registration.metadataSchema, 'metadata')
+}
+
+/**
+ * List every registered capability (for dashboards and debugging)
+ */
+export function listCapabilities(): Array<HandlerCapability & { agent: string }> {
+  return Array.from(registrations.entries()).map(([key, { execute, ...capability }]) => ({
+    ...capability,
+    agent: key.split('::')[0]
+  }))
+}
+
+// ============================================
+// Built-in handlers
+// ============================================
+
+const idString: JsonSchema = { type: 'string', minLength: 1 }
+
+const seoMetadataProperties: Record<string, JsonSchema> = {
+  productIds: { type: 'array', items: { type: 'integer' } },
+  urls: { type: 'array', items: { type: 'string' } },
+  limit: { type: 'integer', minimum: 1, maximum: 500 },
+  applyFixes: { type: 'boolean' }
+}
+
+const seoHandler = async (task: Task) => {
+  const { seoHandler } = await import('@/services/execution-handlers/seo-handler')
+  return seoHandler({ ...task, metadata: { ...task.metadata, action: resolveTaskType(task) } })
+}
+
+const socialHandler = async (task: Task) => {
+  const { socialPublishHandler } = await import('@/services/execution-handlers/social-handler')
+  return socialPublishHandler({ ...task, metadata: { ...task.metadata, action: resolveTaskType(task) } })
+}
+
+const marketingHandler = async (task: Task) => {
+  const { marketingHandler } = await import('@/services/execution-handlers/marketing-handler')
+  return marketingHandler({ ...task, metadata: { ...task.metadata, task_type: resolveTaskType(task) } })
+}
+
+// Email Agent
+registerHandler({
+  agents: ['Email Agent'],
+  taskType: 'send_email',
+  description: 'Send an approved Gmail draft reply',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      email_id: idString,
+      draft_id: idString,
+      email_category: { type: 'string' }
+    },
+    required: ['email_id', 'draft_id']
+  },
+  rateLimitKey: 'email_send',
+  requiresApproval: false,
+  execute: async (task) => {
+    const { emailSendHandler } = await import('@/services/execution-handlers/email-handler')
+    return emailSendHandler(task)
+  }
+})
+registerTaskTypeResolver(['Email Agent'], () => 'send_email')
+
+// Social Media Agent
+registerHandler({
+  agents: ['Social Media Agent'],
+  taskType: 'generate_content',
+  description: 'Generate a social post draft for approval',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      platform: { type: 'string', enum: ['facebook', 'instagram', 'twitter'] },
+      keywords: { type: 'array', items: { type: 'string' } },
+      generate_visual: { type: 'boolean' }
+    }
+  },
+  requiresApproval: false,
+  execute: socialHandler
+})
+registerHandler({
+  agents: ['Social Media Agent'],
+  taskType: 'publish',
+  description: 'Publish an approved social post',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      post_id: idString,
+      platform: { type: 'string', minLength: 1 }
+    },
+    required: ['post_id', 'platform']
+  },
+  rateLimitKey: 'social_publish',
+  requiresApproval: true,
+  execute: socialHandler
+})
+registerTaskTypeResolver(['Social Media Agent'], (task) => {
+  const title = task.title.toLowerCase()
+  if (title.includes('generate') || title.includes('create') || title.includes('content') || title.includes('silent')) {
+    return 'generate_content'
+  }
+  return task.metadata?.post_id ? 'publish' : 'generate_content'
+})
+
+// Marketing Agent
+registerHandler({
+  agents: ['Marketing Agent'],
+  taskType: 'send_newsletter',
+  description: 'Send a newsletter draft through Brevo',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      draft_id: idString
+    },
+    required: ['draft_id']
+  },
+  rateLimitKey: 'newsletter_send',
+  requiresApproval: true,
+  execute: marketingHandler
+})
+registerHandler({
+  agents: ['Marketing Agent'],
+  taskType: 'influencer_outreach',
+  description: 'Email an outreach message to an influencer',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      influencer_id: idString,
+      message_template: { type: 'string', minLength: 1 }
+    },
+    required: ['influencer_id', 'message_template']
+  },
+  rateLimitKey: 'influencer_outreach',
+  requiresApproval: true,
+  execute: marketingHandler
+})
+registerTaskTypeResolver(['Marketing Agent'], (task) => {
+  const title = task.title.toLowerCase()
+  if (title.includes('newsletter')) return 'send_newsletter'
+  if (title.includes('influencer') || title.includes('outreach')) return 'influencer_outreach'
+  return undefined
+})
+
+// SEO Agent
+for (const [taskType, description, requiresApproval] of [
+  ['audit_products', 'Audit product SEO', false],
+  ['audit_schema', 'Audit Schema.org compliance', false],
+  ['generate_schema', 'Generate missing product schemas', false],
+  ['full_audit', 'Combined product, schema and vitals audit', false]
+] as const) {
+  registerHandler({
+    agents: ['SEO Agent'],
+    taskType,
+    description,
+    metadataSchema: { type: 'object', properties: seoMetadataProperties },
+    requiresApproval,
+    execute: seoHandler
+  })
+}
+registerHandler({
+  agents: ['SEO Agent'],
+  taskType: 'apply_fixes',
+  description: 'Generate and apply SEO fixes to OpenCart products',
+  metadataSchema: {
+    type: 'object',
+    properties: seoMetadataProperties,
+    required: ['productIds']
+  },
+  rateLimitKey: 'seo_bulk_apply',
+  requiresApproval: true,
+  execute: seoHandler
+})
+for (const taskType of ['check_vitals', 'check_vitals_single', 'analyze_geo', 'analyze_geo_single']) {
+  registerHandler({
+    agents: ['SEO Agent'],
+    taskType,
+    description: taskType.startsWith('check_vitals') ? 'Measure Core Web Vitals' : 'Analyse AI search readiness',
+    metadataSchema: {
+      type: 'object',
+      properties: { ...seoMetadataProperties, urls: { type: 'array', items: { type: 'string' }, minItems: 1 } },
+      required: ['urls']
+    },
+    requiresApproval: false,
+    execute: seoHandler
+  })
+}
+for (const [taskType, description] of [
+  ['optimize_content', 'Optimise product content for AI search'],
+  ['generate_eeat', 'Generate E-E-A-T content enhancements']
+] as const) {
+  registerHandler({
+    agents: ['SEO Agent'],
+    taskType,
+    description,
+    metadataSchema: {
+      type: 'object',
+      properties: {
+        productName: { type: 'string', minLength: 1 },
+        content: { type: 'string', minLength: 1 },
+        category: { type: 'string' },
+        targetKeywords: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['productName', 'content']
+    },
+    requiresApproval: false,
+    execute: seoHandler
+  })
+}
+registerTaskTypeResolver(['SEO Agent'], (task) => {
+  const title = task.title.toLowerCase()
+  if (title.includes('full audit') || title.includes('seo audit') || title.includes('critically low')) {
+    return 'full_audit'
+  }
+  if (title.includes('schema')) return 'audit_schema'
+  return undefined
+})
+
+// Google Ads Agent
+registerHandler({
+  agents: ['Google Ads Agent'],
+  taskType: 'manage_campaign',
+  description: 'Apply Google Ads bid and budget changes',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      campaign_id: { type: 'string' },
+      bid_change_percent: { type: 'number' }
+    }
+  },
+  requiresApproval: true,
+  execute: async (task) => {
+    const { adsHandler } = await import('@/services/execution-handlers/ads-handler')
+    return adsHandler(task)
+  }
+})
+registerTaskTypeResolver(['Google Ads Agent'], () => 'manage_campaign')
+
+// Quote Agent
+registerHandler({
+  agents: ['QuoteAgent', 'Quote Agent'],
+  taskType: 'generate_quote',
+  description: 'Build the customer quote, PDF and draft email from supplier responses',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString
+    },
+    required: ['quote_request_id']
+  },
+  rateLimitKey: 'quote_generate',
+  requiresApproval: false,
+  execute: async (task) => {
+    const { quoteGenerateHandler } = await import('@/services/execution-handlers/quote-handler')
+    return quoteGenerateHandler(task)
+  }
+})
+registerHandler({
+  agents: ['QuoteAgent', 'Quote Agent'],
+  taskType: 'approve_quote',
+  description: 'Send an approved quote to the customer',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString,
+      quote_number: { type: 'string' },
+      draft_id: idString,
+      customer_email: { type: 'string' },
+      total_amount: { type: 'number', minimum: 0 }
+    },
+    required: ['quote_request_id', 'draft_id']
+  },
+  rateLimitKey: 'quote_send',
+  requiresApproval: true,
+  execute: async (task) => {
+    const { quoteSendHandler } = await import('@/services/execution-handlers/quote-handler')
+    return quoteSendHandler(task)
+  }
+})
+registerHandler({
+  agents: ['QuoteAgent', 'Quote Agent'],
+  taskType: 'requote_expired_quote',
+  description: 'Ask the suppliers for fresh prices to re-quote an expired quote',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString,
+      quote_version_id: idString
+    },
+    required: ['quote_request_id']
+  },
+  requiresApproval: true,
+  execute: async (task) => {
+    const { quoteRequoteHandler } = await import('@/services/execution-handlers/quote-handler')
+    return quoteRequoteHandler(task)
+  }
+})
+registerHandler({
+  agents: ['QuoteAgent', 'Quote Agent'],
+  taskType: 'revise_quote',
+  description: 'Build a new version of a quote the customer asked to change in the portal',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString,
+      quote_version_id: idString,
+      portal_decision_id: idString,
+      revision_notes: { type: 'string' }
+    },
+    required: ['quote_request_id']
+  },
+  rateLimitKey: 'quote_generate',
+  requiresApproval: true,
+  execute: async (task) => {
+    const { quoteReviseHandler } = await import('@/services/execution-handlers/quote-handler')
+    return quoteReviseHandler(task)
+  }
+})
+
+// Supplier Agent
+registerHandler({
+  agents: ['SupplierAgent', 'Supplier Agent'],
+  taskType: 'contact_suppliers',
+  description: 'Email the best-ranked suppliers for a quote request',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString
+    },
+    required: ['quote_request_id']
+  },
+  rateLimitKey: 'supplier_outreach',
+  requiresApproval: false,
+  execute: async (task) => {
+    const { supplierContactHandler } = await import('@/services/execution-handlers/supplier-handler')
+    return supplierContactHandler(task)
+  }
+})
+registerHandler({
+  agents: ['SupplierAgent', 'Supplier Agent'],
+  taskType: 'track_responses',
+  description: 'Remind suppliers before the RFQ deadline and hand their quotes on once the round closes',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString,
+      suppliers_contacted: { type: 'integer', minimum: 0 },
+      deadline: { type: 'string' }
+    },
+    required: ['quote_request_id']
+  },
+  requiresApproval: false,
+  execute: async (task) => {
+    const { supplierTrackResponsesHandler } = await import('@/services/execution-handlers/supplier-handler')
+    return supplierTrackResponsesHandler(task)
+  }
+})
+registerHandler({
+  agents: ['SupplierAgent', 'Supplier Agent'],
+  taskType: 'award_rfq',
+  description: 'Award a closed RFQ round to the best bids and queue the customer quote',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      quote_request_id: idString,
+      rfq_round_id: idString,
+      award_value: { type: 'number', minimum: 0 }
+    },
+    required: ['quote_request_id', 'rfq_round_id', 'award_value']
+  },
+  requiresApproval: false,
+  execute: async (task) => {
+    const { rfqAwardHandler } = await import('@/services/execution-handlers/supplier-handler')
+    return rfqAwardHandler(task)
+  }
+})
+registerHandler({
+  agents: ['SupplierAgent', 'Supplier Agent'],
+  taskType: 'send_purchase_orders',
+  description: 'Email the purchase orders for an accepted quote to the suppliers',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      order_no: idString,
+      quote_request_id: idString,
+      purchase_order_ids: { type: 'array', items: idString }
+    },
+    required: ['order_no']
+  },
+  rateLimitKey: 'purchase_order_send',
+  requiresApproval: true,
+  execute: async (task) => {
+    const { purchaseOrderSendHandler } = await import('@/services/execution-handlers/supplier-handler')
+    return purchaseOrderSendHandler(task)
+  }
+})
+registerHandler({
+  agents: ['SupplierAgent', 'Supplier Agent'],
+  taskType: 'send_supplier_scorecard',
+  description: 'Email an approved monthly SLA scorecard to the supplier',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      scorecard_id: idString,
+      supplier_id: idString,
+      recipient_email: { type: 'string' }
+    },
+    required: ['scorecard_id']
+  },
+  rateLimitKey: 'supplier_scorecard_send',
+  requiresApproval: true,
+  execute: async (task) => {
+    const { scorecardSendHandler } = await import('@/services/execution-handlers/supplier-handler')
+    return scorecardSendHandler(task)
+  }
+})
+registerTaskTypeResolver(['SupplierAgent', 'Supplier Agent'], (task) =>
+  task.metadata?.suppliers_contacted !== undefined ? 'track_responses' : 'contact_suppliers'
+)
+
+// Predictive Quote Agent
+registerHandler({
+  agents: ['PredictiveQuoteAgent', 'Predictive Quote Agent'],
+  taskType: 'score_customers',
+  description: 'Score active customers for predictive quote opportunities',
+  metadataSchema: { type: 'object' },
+  rateLimitKey: 'predictive_quote',
+  requiresApproval: false,
+  execute: async (task) => {
+    const { predictiveScoreHandler } = await import('@/services/execution-handlers/predictive-quote-handler')
+    return predictiveScoreHandler(task)
+  }
+})
+registerHandler({
+  agents: ['PredictiveQuoteAgent', 'Predictive Quote Agent'],
+  taskType: 'review_predictive_opportunity',
+  description: 'Generate a proactive quote for a reviewed opportunity',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      customer_email: { type: 'string', minLength: 3 },
+      confidence_score: { type: 'number', minimum: 0, maximum: 1 },
+      suggested_discount: { type: 'number', minimum: 0, maximum: 100 }
+    },
+    required: ['customer_email']
+  },
+  requiresApproval: true,
+  execute: async (task) => {
+    const { predictiveOpportunityHandler } = await import('@/services/execution-handlers/predictive-quote-handler')
+    return predictiveOpportunityHandler(task)
+  }
+})
@@ -0,0 +1,226 @@
+/**
+ * Supplier Agent Execution Handler
+ *
+ * Handles supplier tasks:
+ * - contact_suppliers: Emails the best-ranked suppliers for a quote request
+ * - track_responses: Reminds suppliers before the RFQ deadline, then aggregates their quotes
+ * - award_rfq: Awards a closed RFQ round and hands the prices to the Quote Agent
+ * - send_purchase_orders: Emails the approved purchase orders for an accepted quote
+ * - send_supplier_scorecard: Emails an approved monthly SLA scorecard to the supplier
+ */
+
+import type { Task } from '@/types/squad'
+import { supplierAgent } from '@/services/agents/supplier-agent'
+import { SupplierResponseHandler } from '@/lib/supplier-response-handler'
+import { sendPurchaseOrders } from '@/services/purchase-orders'
+import { sendDueReminders, awardRound } from '@/services/rfq-rounds'
+import { sendScorecard } from '@/services/supplier-sla'
+
+const DRY_RUN = process.env.AGENT_DRY_RUN === 'true'
+
+// How long to wait before checking supplier responses again
+const RESPONSE_CHECK_INTERVAL_MINUTES = 60
+
+interface ExecutionResult {
+  success: boolean
+  deliverable_url?: string
+  error?: string
+  reschedule_at?: string
+}
+
+/**
+ * Contact suppliers for a quote request
+ */
+export async function supplierContactHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[SUPPLIER HANDLER] Contacting suppliers:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would contact suppliers for request:', quoteRequestId)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  }
+
+  const result = await supplierAgent.processQuoteRequest(quoteRequestId)
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  if (result.suppliersContacted === 0) {
+    return { success: false, error: 'No suppliers could be contacted for this quote request' }
+  }
+
+  return {
+    success: true,
+    deliverable_url: `/quotes/${quoteRequestId}`
+  }
+}
+
+/**
+ * Check whether supplier responses are complete. While suppliers are still
+ * replying the task is rescheduled rather than failed.
+ */
+export async function supplierTrackResponsesHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[SUPPLIER HANDLER] Tracking supplier responses:', task.title)
+
+  const quoteRequestId = task.metadata?.quote_request_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would check supplier responses for request:', quoteRequestId)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  }
+
+  try {
+    await sendDueReminders(quoteRequestId)
+
+    const responseHandler = new SupplierResponseHandler()
+    const state = await responseHandler.aggregateIfReady(quoteRequestId)
+
+    if (state === 'waiting') {
+      const nextCheck = new Date(Date.now() + RESPONSE_CHECK_INTERVAL_MINUTES * 60 * 1000)
+      console.log(`[SUPPLIER HANDLER] Still waiting on suppliers, next check ${nextCheck.toISOString()}`)
+      return {
+        success: false,
+        reschedule_at: nextCheck.toISOString()
+      }
+    }
+
+    return {
+      success: true,
+      deliverable_url: `/quotes/${quoteRequestId}`
+    }
+  } catch (error: any) {
+    console.error('[SUPPLIER HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
+
+/**
+ * Award a closed RFQ round as proposed, then queue the customer quote. Runs
+ * straight away for awards under the policy threshold, after approval above it.
+ */
+export async function rfqAwardHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[SUPPLIER HANDLER] Awarding RFQ round:', task.title)
+
+  const roundId = task.metadata?.rfq_round_id
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would award RFQ round:', roundId)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${task.metadata?.quote_request_id}`
+    }
+  }
+
+  try {
+    const round = await awardRound(roundId, task.approved_by || 'SupplierAgent')
+    const quoteTaskId = await new SupplierResponseHandler().queueQuoteForAward(round)
+
+    console.log(`[SUPPLIER HANDLER] RFQ round ${roundId} awarded, quote task ${quoteTaskId}`)
+    return {
+      success: true,
+      deliverable_url: `/quotes/${round.quote_request_id}`
+    }
+  } catch (error: any) {
+    console.error('[SUPPLIER HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
+
+/**
+ * Send the purchase orders of an order once the task is approved. Orders that
+ * could not be sent stay pending, so the retry only sends those.
+ */
+export async function purchaseOrderSendHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[SUPPLIER HANDLER] Sending purchase orders:', task.title)
+
+  const orderNo = task.metadata?.order_no
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would send purchase orders for order:', orderNo)
+    return {
+      success: true,
+      deliverable_url: '/orders'
+    }
+  }
+
+  try {
+    if (!task.approved_by) {
+      throw new Error('Task has no recorded approver')
+    }
+
+    const { sent, failed } = await sendPurchaseOrders(orderNo, task.approved_by)
+
+    if (failed.length > 0) {
+      return {
+        success: false,
+        error: failed.map(f => `${f.po_number}: ${f.error}`).join('; ')
+      }
+    }
+
+    console.log(`[SUPPLIER HANDLER] Sent ${sent.length} purchase order(s) for ${orderNo}`)
+    return {
+      success: true,
+      deliverable_url: sent[0]?.pdf_url || '/orders'
+    }
+  } catch (error: any) {
+    console.error('[SUPPLIER HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
+
+/**
+ * Email an approved supplier scorecard
+ */
+export async function scorecardSendHandler(task: Task): Promise<ExecutionResult> {
+  console.log('[SUPPLIER HANDLER] Sending supplier scorecard:', task.title)
+
+  const scorecardId = task.metadata?.scorecard_id
+  const recipient = task.metadata?.recipient_email
+    ? { name: task.metadata.recipient_name || task.metadata.recipient_email, email: task.metadata.recipient_email }
+    : undefined
+
+  if (DRY_RUN) {
+    console.log('[DRY RUN] Would send scorecard:', scorecardId)
+    return {
+      success: true,
+      deliverable_url: `/suppliers/${task.metadata?.supplier_id}`
+    }
+  }
+
+  try {
+    if (!task.approved_by) {
+      throw new Error('Task has no recorded approver')
+    }
+
+    const scorecard = await sendScorecard(scorecardId, task.approved_by, recipient)
+
+    console.log(`[SUPPLIER HANDLER] Scorecard ${scorecardId} sent to ${scorecard.sent_to}`)
+    return {
+      success: true,
+      deliverable_url: scorecard.pdf_url || `/suppliers/${scorecard.supplier_id}`
+    }
+  } catch (error: any) {
+    console.error('[SUPPLIER HANDLER] Error:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+}
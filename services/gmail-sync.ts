@@ -0,0 +1,700 @@
+/**
+ * Gmail Sync Service
+ *
+ * Ingests email from the mailboxes in gmail_mailboxes (sales@, accounts@,
+ * support@ ...) into email_logs:
+ * - Incremental sync reads the Gmail history after the mailbox's stored
+ *   history ID, so every new message is ingested whether or not someone has
+ *   already opened it in Gmail
+ * - Backfill lists a date range (the same listing the email intelligence
+ *   scanner uses) and ingests what is not in email_logs yet. It is also how
+ *   a mailbox catches up on its first sync or when its history ID expired.
+ * - Label routes send a message carrying a given Gmail label straight to a
+ *   category; the classifier honours the route instead of asking the LLM
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { GmailService } from '@/services/integrations/gmail-service'
+import { assignThread } from '@/services/email-threads'
+import { recordAttachments, getListedAttachments } from '@/services/email-attachments'
+import { EMAIL_CATEGORIES, EMAIL_PRIORITIES, type LabelRoute } from '@/lib/email-classifier'
+
+/** Days read on a mailbox's first sync */
+const INITIAL_SYNC_DAYS = parseInt(process.env.GMAIL_SYNC_INITIAL_DAYS || '2', 10)
+
+/** Messages ingested per mailbox per run - the rest wait for the next run */
+export const MAX_MESSAGES_PER_RUN = 30
+
+/** Our own outgoing mail, drafts and junk are never ingested */
+const SKIPPED_LABELS = ['SENT', 'DRAFT', 'SPAM', 'TRASH']
+
+/** A message that keeps failing to ingest is given up on after this many tries */
+export const MAX_INGEST_ATTEMPTS = 3
+
+/** Mailboxes may only name refresh token env vars with this prefix */
+const REFRESH_TOKEN_ENV_PREFIX = 'GMAIL_REFRESH_TOKEN'
+
+const LOOKUP_BATCH_SIZE = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type MailboxStatus = 'pending' | 'active' | 'error' | 'not_configured'
+
+export type SkipReason = 'skipped_label' | 'deleted' | 'duplicate' | 'failed'
+
+export interface GmailMailbox {
+  id: string
+  address: string
+  name: string
+  refresh_token_env: string
+  enabled: boolean
+  history_id: string | null
+  last_synced_at: string | null
+  status: MailboxStatus
+  last_error: string | null
+  label_routes: LabelRoute[]
+  created_at: string
+  updated_at: string
+}
+
+export interface IngestedMessage {
+  id: string
+  mailbox: string
+  from: string
+  subject: string
+  snippet: string
+  label_route: string | null
+}
+
+export interface MailboxSyncResult {
+  mailbox: string
+  mode: 'history' | 'backfill' | 'skipped'
+  found: number
+  inserted: number
+  skipped: number
+  insertErrors: number
+  lastInsertError?: string
+  /** New messages left for the next run */
+  remaining: number
+  messages: IngestedMessage[]
+  error?: string
+}
+
+interface SyncContext {
+  mailbox: GmailMailbox
+  gmail: GmailService
+  /** Gmail label ID -> name, loaded only when the mailbox has label routes */
+  labelNames: Map<string, string>
+}
+
+// ============================================
+// Mailboxes
+// ============================================
+
+export async function listMailboxes(): Promise<GmailMailbox[]> {
+  const { data, error } = await supabase
+    .from('gmail_mailboxes')
+    .select('*')
+    .order('created_at', { ascending: true })
+
+  if (error) throw new Error(`Failed to list mailboxes: ${error.message}`)
+  return data || []
+}
+
+export async function getMailbox(id: string): Promise<GmailMailbox> {
+  const { data, error } = await supabase
+    .from('gmail_mailboxes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load mailbox: ${error.message}`)
+  if (!data) throw new Error('Mailbox not found')
+  return data
+}
+
+function validateLabelRoutes(routes: unknown): LabelRoute[] {
+  if (!Array.isArray(routes)) throw new Error('Invalid label routes: expected an array')
+
+  return routes.map((route: any) => {
+    const label = typeof route?.label === 'string' ? route.label.trim() : ''
+    if (!label) throw new Error('Invalid label route: label is required')
+    if (!EMAIL_CATEGORIES.includes(route.category)) {
+      throw new Error(`Invalid label route: unknown category '${route.category}' for label '${label}'`)
+    }
+    if (route.priority && !EMAIL_PRIORITIES.includes(route.priority)) {
+      throw new Error(`Invalid label route: unknown priority '${route.priority}' for label '${label}'`)
+    }
+    return { label, category: route.category, ...(route.priority && { priority: route.priority }) }
+  })
+}
+
+/**
+ * GMAIL_REFRESH_TOKEN or GMAIL_REFRESH_TOKEN_<NAME> - never an arbitrary
+ * server env var
+ */
+function validateRefreshTokenEnv(name: unknown): string {
+  if (typeof name !== 'string' || !new RegExp(`^${REFRESH_TOKEN_ENV_PREFIX}(_[A-Z0-9]+)*$`).test(name)) {
+    throw new Error(`Invalid refresh_token_env: must be ${REFRESH_TOKEN_ENV_PREFIX} or start with ${REFRESH_TOKEN_ENV_PREFIX}_`)
+  }
+  return name
+}
+
+export async function createMailbox(input: {
+  address: string
+  name?: string
+  refreshTokenEnv?: string
+  labelRoutes?: LabelRoute[]
+}): Promise<GmailMailbox> {
+  const address = input.address?.toLowerCase().trim()
+  if (!address || !address.includes('@')) throw new Error('Invalid mailbox: address is required')
+
+  const { data, error } = await supabase
+    .from('gmail_mailboxes')
+    .insert({
+      address,
+      name: input.name || address.split('@')[0],
+      refresh_token_env: validateRefreshTokenEnv(input.refreshTokenEnv || REFRESH_TOKEN_ENV_PREFIX),
+      label_routes: validateLabelRoutes(input.labelRoutes || []),
+    })
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to create mailbox: ${error.message}`)
+  return data
+}
+
+export async function updateMailbox(
+  id: string,
+  updates: { name?: string; enabled?: boolean; refreshTokenEnv?: string; labelRoutes?: LabelRoute[] }
+): Promise<GmailMailbox> {
+  await getMailbox(id)
+
+  const { data, error } = await supabase
+    .from('gmail_mailboxes')
+    .update({
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.enabled !== undefined && { enabled: updates.enabled }),
+      ...(updates.refreshTokenEnv !== undefined && { refresh_token_env: validateRefreshTokenEnv(updates.refreshTokenEnv) }),
+      ...(updates.labelRoutes !== undefined && { label_routes: validateLabelRoutes(updates.labelRoutes) }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to update mailbox: ${error.message}`)
+  return data
+}
+
+async function updateSyncState(
+  mailboxId: string,
+  state: { status: MailboxStatus; last_error?: string | null; history_id?: string | null; last_synced_at?: string }
+): Promise<void> {
+  const { error } = await supabase
+    .from('gmail_mailboxes')
+    .update({ ...state, updated_at: new Date().toISOString() })
+    .eq('id', mailboxId)
+
+  if (error) console.error(`Failed to save sync state of mailbox ${mailboxId}:`, error.message)
+}
+
+/**
+ * A Gmail client acting as the mailbox, with the refresh token from the
+ * env var the mailbox names
+ */
+export function getMailboxClient(mailbox: GmailMailbox): GmailService {
+  const refreshToken = process.env[mailbox.refresh_token_env]
+  if (!refreshToken) {
+    throw new Error(`Mailbox ${mailbox.address} is not configured: ${mailbox.refresh_token_env} is not set`)
+  }
+  return new GmailService(refreshToken)
+}
+
+// ============================================
+// Listing (shared with the email intelligence scanner)
+// ============================================
+
+function formatGmailDate(date: Date): string {
+  return `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Gmail search query for messages from startDate up to (not including) endDate
+ */
+export function buildDateQuery(startDate: Date, endDate: Date): string {
+  return `after:${formatGmailDate(startDate)} before:${formatGmailDate(endDate)}`
+}
+
+/**
+ * IDs of every message in the date range, newest first
+ */
+export async function collectMessageIds(
+  gmail: GmailService,
+  startDate: Date,
+  endDate: Date,
+  options: { inboundOnly?: boolean } = {}
+): Promise<string[]> {
+  const query = buildDateQuery(startDate, endDate)
+  return gmail.collectAllMessageIds(options.inboundOnly ? `${query} -in:sent -in:drafts` : query)
+}
+
+async function findExistingMessageIds(messageIds: string[]): Promise<Set<string>> {
+  const existing = new Set<string>()
+
+  for (let i = 0; i < messageIds.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('email_logs')
+      .select('gmail_message_id')
+      .in('gmail_message_id', messageIds.slice(i, i + LOOKUP_BATCH_SIZE))
+
+    if (error) throw new Error(`Failed to check existing emails: ${error.message}`)
+    for (const row of data || []) existing.add(row.gmail_message_id)
+  }
+
+  return existing
+}
+
+/**
+ * Messages of the mailbox the sync has left out of email_logs for good:
+ * skipped ones, and failed ones that have used up their attempts
+ */
+async function findSkippedMessageIds(mailboxId: string, messageIds: string[]): Promise<Set<string>> {
+  const skipped = new Set<string>()
+
+  for (let i = 0; i < messageIds.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('gmail_skipped_messages')
+      .select('gmail_message_id, reason, attempts')
+      .eq('mailbox_id', mailboxId)
+      .in('gmail_message_id', messageIds.slice(i, i + LOOKUP_BATCH_SIZE))
+
+    if (error) throw new Error(`Failed to check skipped emails: ${error.message}`)
+    for (const row of data || []) {
+      if (row.reason !== 'failed' || row.attempts >= MAX_INGEST_ATTEMPTS) skipped.add(row.gmail_message_id)
+    }
+  }
+
+  return skipped
+}
+
+/**
+ * The part of a backlog to ingest this run: the oldest `limit` messages not
+ * yet done, oldest first. `messageIds` are newest first, as Gmail lists them.
+ */
+export function nextBacklogBatch(
+  messageIds: string[],
+  done: Set<string>,
+  limit: number
+): { batch: string[]; remaining: number } {
+  const pending = messageIds.filter(id => !done.has(id))
+  return {
+    batch: pending.slice(-limit).reverse(),
+    remaining: Math.max(0, pending.length - limit),
+  }
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+async function createSyncContext(mailbox: GmailMailbox, gmail: GmailService): Promise<SyncContext> {
+  const labelNames = new Map<string, string>()
+  if ((mailbox.label_routes || []).length > 0) {
+    for (const label of await gmail.listLabels()) {
+      labelNames.set(label.id, label.name)
+    }
+  }
+  return { mailbox, gmail, labelNames }
+}
+
+/**
+ * The first route whose label the message carries, by label name or ID
+ */
+function matchLabelRoute(ctx: SyncContext, labelIds: string[]): LabelRoute | null {
+  const labels = new Set(
+    labelIds.flatMap(id => [id.toLowerCase(), (ctx.labelNames.get(id) || id).toLowerCase()])
+  )
+  return (ctx.mailbox.label_routes || []).find(route => labels.has(route.label.toLowerCase())) || null
+}
+
+function isNotFound(error: any): boolean {
+  return error?.code === 404 || error?.response?.status === 404
+}
+
+/**
+ * Remember a message that is deliberately not ingested, so backfills stop
+ * listing it as new
+ */
+async function recordSkippedMessage(ctx: SyncContext, messageId: string, reason: SkipReason): Promise<void> {
+  const { error } = await supabase
+    .from('gmail_skipped_messages')
+    .upsert({
+      mailbox_id: ctx.mailbox.id,
+      gmail_message_id: messageId,
+      reason,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'mailbox_id,gmail_message_id' })
+
+  if (error) console.error(`Failed to record skipped message ${messageId}:`, error.message)
+}
+
+/**
+ * Count a failed ingest of a message. Returns true once it has used up its
+ * attempts and is no longer retried.
+ */
+async function recordFailedAttempt(ctx: SyncContext, messageId: string, lastError: string): Promise<boolean> {
+  const { data: existing } = await supabase
+    .from('gmail_skipped_messages')
+    .select('attempts')
+    .eq('mailbox_id', ctx.mailbox.id)
+    .eq('gmail_message_id', messageId)
+    .maybeSingle()
+
+  const attempts = (existing?.attempts || 0) + 1
+  const { error } = await supabase
+    .from('gmail_skipped_messages')
+    .upsert({
+      mailbox_id: ctx.mailbox.id,
+      gmail_message_id: messageId,
+      reason: 'failed',
+      attempts,
+      last_error: lastError,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'mailbox_id,gmail_message_id' })
+
+  if (error) {
+    console.error(`Failed to record failed message ${messageId}:`, error.message)
+    return false
+  }
+  return attempts >= MAX_INGEST_ATTEMPTS
+}
+
+async function ingestMessage(ctx: SyncContext, messageId: string, result: MailboxSyncResult): Promise<void> {
+  const { data: existingEmail } = await supabase
+    .from('email_logs')
+    .select('id')
+    .eq('gmail_message_id', messageId)
+    .maybeSingle()
+
+  if (existingEmail) {
+    result.skipped++
+    return
+  }
+
+  let message: Awaited<ReturnType<GmailService['getMessage']>>
+  try {
+    message = await ctx.gmail.getMessage(messageId)
+  } catch (error: any) {
+    // Deleted between the listing and the fetch
+    if (isNotFound(error)) {
+      result.skipped++
+      await recordSkippedMessage(ctx, messageId, 'deleted')
+      return
+    }
+    throw error
+  }
+
+  if (message.labelIds.some(label => SKIPPED_LABELS.includes(label))) {
+    result.skipped++
+    await recordSkippedMessage(ctx, messageId, 'skipped_label')
+    return
+  }
+
+  // An email sent to two of our mailboxes (e.g. cc'd to sales@ and support@) is logged once
+  if (message.messageIdHeader) {
+    const { data: sameEmail } = await supabase
+      .from('email_logs')
+      .select('id')
+      .eq('message_id_header', message.messageIdHeader)
+      .limit(1)
+      .maybeSingle()
+
+    if (sameEmail) {
+      result.skipped++
+      await recordSkippedMessage(ctx, messageId, 'duplicate')
+      return
+    }
+  }
+
+  const labelRoute = matchLabelRoute(ctx, message.labelIds)
+  const from = message.from || 'unknown'
+  const subject = message.subject || 'No Subject'
+
+  const { data: emailLog, error: insertError } = await supabase
+    .from('email_logs')
+    .insert({
+      gmail_message_id: messageId,
+      mailbox_id: ctx.mailbox.id,
+      from_email: from,
+      to_email: message.to || ctx.mailbox.address,
+      subject,
+      category: 'unclassified',
+      status: 'unread',
+      gmail_thread_id: message.threadId,
+      message_id_header: message.messageIdHeader,
+      in_reply_to: message.inReplyTo,
+      payload: {
+        body: message.body.substring(0, 1000),
+        snippet: message.snippet,
+        labels: message.labelIds,
+        attachment_count: getListedAttachments(message.attachments).length,
+        ...(labelRoute && { label_route: labelRoute }),
+      },
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    result.insertErrors++
+    result.lastInsertError = `${insertError.message} (code: ${insertError.code}, details: ${insertError.details}, hint: ${insertError.hint})`
+    console.error(`❌ Failed to insert email "${subject}":`, result.lastInsertError)
+    await logToSquadMessages(
+      'email_agent',
+      `❌ INSERT FAILED for "${subject}" from ${from}: ${insertError.message}`,
+      { action: 'email_insert_error', gmail_message_id: messageId, mailbox: ctx.mailbox.address, error: insertError.message }
+    )
+    return
+  }
+
+  result.inserted++
+  result.messages.push({
+    id: messageId,
+    mailbox: ctx.mailbox.address,
+    from,
+    subject,
+    snippet: message.snippet,
+    label_route: labelRoute?.label || null,
+  })
+
+  // Threading is best-effort - an unthreaded email is picked up by the backfill
+  try {
+    await assignThread({ ...emailLog, references: message.references })
+  } catch (threadError: any) {
+    console.error(`Failed to thread email "${subject}":`, threadError.message)
+  }
+
+  // Downloaded and extracted later, when the email is processed
+  try {
+    await recordAttachments(emailLog.id, messageId, message.attachments)
+  } catch (attachmentError: any) {
+    console.error(`Failed to record attachments of "${subject}":`, attachmentError.message)
+  }
+
+  await logToSquadMessages(
+    'email_agent',
+    `New email logged: ${subject} from ${from} (${ctx.mailbox.address})`,
+    { action: 'email_logged', email_id: emailLog?.id, gmail_message_id: messageId, mailbox: ctx.mailbox.address }
+  )
+}
+
+/**
+ * Ingest the messages one by one. Returns how many failed and will be tried
+ * again on a later run.
+ */
+async function ingestAll(ctx: SyncContext, messageIds: string[], result: MailboxSyncResult): Promise<number> {
+  let retries = 0
+
+  for (const messageId of messageIds) {
+    const errorsBefore = result.insertErrors
+    try {
+      await ingestMessage(ctx, messageId, result)
+    } catch (error: any) {
+      result.insertErrors++
+      result.lastInsertError = error.message
+      console.error(`Failed to ingest Gmail message ${messageId}:`, error.message)
+    }
+
+    if (result.insertErrors > errorsBefore) {
+      const givenUp = await recordFailedAttempt(ctx, messageId, result.lastInsertError || 'Unknown error')
+      if (!givenUp) retries++
+    }
+  }
+
+  return retries
+}
+
+/**
+ * Ingest up to `limit` messages of the date range that are neither in
+ * email_logs nor skipped yet - the oldest ones when there are more, so each
+ * run picks up where the last one stopped
+ */
+async function ingestRange(
+  ctx: SyncContext,
+  startDate: Date,
+  endDate: Date,
+  limit: number,
+  result: MailboxSyncResult
+): Promise<void> {
+  const messageIds = await collectMessageIds(ctx.gmail, startDate, endDate, { inboundOnly: true })
+  const existing = await findExistingMessageIds(messageIds)
+  const skipped = await findSkippedMessageIds(ctx.mailbox.id, messageIds)
+  const done = new Set([...existing, ...skipped])
+  const { batch, remaining } = nextBacklogBatch(messageIds, done, limit)
+
+  result.found += messageIds.length
+  result.skipped += done.size
+  result.remaining = remaining
+
+  // Oldest first, so replies thread onto the emails they answer. Failed
+  // messages keep the backlog open until they are given up on.
+  result.remaining += await ingestAll(ctx, batch, result)
+}
+
+/**
+ * Ingest the messages added after the mailbox's history ID. Returns the new
+ * watermark - short of the latest history ID when the run hit its cap.
+ */
+async function ingestHistory(ctx: SyncContext, startHistoryId: string, result: MailboxSyncResult): Promise<string> {
+  const records = []
+  let latestHistoryId = startHistoryId
+  let pageToken: string | undefined
+
+  do {
+    const page = await ctx.gmail.listHistory(startHistoryId, pageToken)
+    records.push(...page.records)
+    latestHistoryId = page.historyId
+    pageToken = page.nextPageToken
+  } while (pageToken)
+
+  const inbound = records.map(record => ({
+    historyId: record.historyId,
+    messageIds: record.messages
+      .filter(m => !m.labelIds.some(label => SKIPPED_LABELS.includes(label)))
+      .map(m => m.id),
+  }))
+
+  let watermark = latestHistoryId
+  let budget = MAX_MESSAGES_PER_RUN
+
+  for (let i = 0; i < inbound.length; i++) {
+    const { historyId, messageIds } = inbound[i]
+
+    // Out of budget: stop before this record, the next run resumes from here
+    if (messageIds.length > budget && budget < MAX_MESSAGES_PER_RUN) {
+      watermark = i > 0 ? inbound[i - 1].historyId : startHistoryId
+      result.remaining = inbound.slice(i).reduce((sum, r) => sum + r.messageIds.length, 0)
+      break
+    }
+
+    result.found += messageIds.length
+    budget -= messageIds.length
+    await ingestAll(ctx, messageIds, result)
+  }
+
+  return watermark
+}
+
+function emptyResult(mailbox: GmailMailbox, mode: MailboxSyncResult['mode']): MailboxSyncResult {
+  return { mailbox: mailbox.address, mode, found: 0, inserted: 0, skipped: 0, insertErrors: 0, remaining: 0, messages: [] }
+}
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS)
+}
+
+// ============================================
+// Sync
+// ============================================
+
+/**
+ * Bring one mailbox up to date. With a watermark, reads the Gmail history
+ * after it. Without one (first sync) or when Gmail has expired it, lists
+ * everything since the last sync and takes a fresh watermark once the
+ * mailbox has caught up.
+ */
+export async function syncMailbox(mailbox: GmailMailbox): Promise<MailboxSyncResult> {
+  if (!process.env[mailbox.refresh_token_env]) {
+    const error = `${mailbox.refresh_token_env} is not set`
+    await updateSyncState(mailbox.id, { status: 'not_configured', last_error: error })
+    return { ...emptyResult(mailbox, 'skipped'), error }
+  }
+
+  const syncedAt = new Date().toISOString()
+
+  try {
+    const ctx = await createSyncContext(mailbox, getMailboxClient(mailbox))
+
+    if (mailbox.history_id) {
+      const result = emptyResult(mailbox, 'history')
+      try {
+        const watermark = await ingestHistory(ctx, mailbox.history_id, result)
+        // Hit the cap: keep last_synced_at, so a relist after the history expires covers the rest
+        await updateSyncState(mailbox.id, result.remaining > 0
+          ? { status: 'active', last_error: null, history_id: watermark }
+          : { status: 'active', last_error: null, history_id: watermark, last_synced_at: syncedAt })
+        return result
+      } catch (error: any) {
+        if (!isNotFound(error)) throw error
+        console.log(`[GMAIL SYNC] History ID of ${mailbox.address} expired - relisting since ${mailbox.last_synced_at}`)
+      }
+    }
+
+    // Take the watermark before listing, so nothing arriving meanwhile is missed
+    const { historyId } = await ctx.gmail.getProfile()
+    const since = mailbox.last_synced_at ? new Date(mailbox.last_synced_at) : daysAgo(INITIAL_SYNC_DAYS)
+    const result = emptyResult(mailbox, 'backfill')
+    // Gmail searches whole days in its own timezone - widen the range by a day either side
+    await ingestRange(ctx, new Date(since.getTime() - DAY_MS), daysAgo(-2), MAX_MESSAGES_PER_RUN, result)
+
+    // Still catching up: no watermark yet, the next run lists the same range again
+    await updateSyncState(mailbox.id, result.remaining > 0
+      ? { status: 'active', last_error: null, history_id: null }
+      : { status: 'active', last_error: null, history_id: historyId, last_synced_at: syncedAt })
+
+    return result
+  } catch (error: any) {
+    console.error(`[GMAIL SYNC] ${mailbox.address} failed:`, error.message)
+    await updateSyncState(mailbox.id, { status: 'error', last_error: error.message })
+    return { ...emptyResult(mailbox, mailbox.history_id ? 'history' : 'backfill'), error: error.message }
+  }
+}
+
+/**
+ * Sync every enabled mailbox, one after the other
+ */
+export async function syncAllMailboxes(): Promise<MailboxSyncResult[]> {
+  const mailboxes = (await listMailboxes()).filter(m => m.enabled)
+  const results: MailboxSyncResult[] = []
+
+  for (const mailbox of mailboxes) {
+    results.push(await syncMailbox(mailbox))
+  }
+
+  return results
+}
+
+/**
+ * Ingest a mailbox's messages in a date range that are not in email_logs
+ * yet. Leaves the watermark alone; call again while `remaining` > 0.
+ */
+export async function backfillMailbox(
+  mailboxId: string,
+  startDate: Date,
+  endDate: Date,
+  limit: number = MAX_MESSAGES_PER_RUN
+): Promise<MailboxSyncResult> {
+  if (startDate > endDate) throw new Error('Invalid date range: start_date must be before end_date')
+
+  const mailbox = await getMailbox(mailboxId)
+  const ctx = await createSyncContext(mailbox, getMailboxClient(mailbox))
+  const result = emptyResult(mailbox, 'backfill')
+
+  await ingestRange(ctx, startDate, endDate, Math.max(1, Math.min(limit, 200)), result)
+
+  console.log(`[GMAIL SYNC] Backfilled ${mailbox.address}: ${result.inserted} inserted, ${result.remaining} remaining`)
+  return result
+}
+
+export const gmailSync = {
+  listMailboxes,
+  getMailbox,
+  createMailbox,
+  updateMailbox,
+  getMailboxClient,
+  buildDateQuery,
+  collectMessageIds,
+  syncMailbox,
+  syncAllMailboxes,
+  backfillMailbox
+}
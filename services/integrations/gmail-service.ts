@@ -1,10 +1,30 @@
 import { google } from 'googleapis'
 import { OAuth2Client } from 'google-auth-library'
+import type { gmail_v1 } from 'googleapis'
+
+export interface GmailAttachmentPart {
+  /** MIME part ID ("1", "2.1"), stable across fetches */
+  partId: string
+  attachmentId: string
+  filename: string
+  mimeType: string
+  size: number
+  /** Content-Disposition inline, e.g. a logo in the signature */
+  inline: boolean
+}
+
+export interface GmailHistoryRecord {
+  historyId: string
+  messages: Array<{ id: string; labelIds: string[] }>
+}
 
 export class GmailService {
   private oauth2Client: OAuth2Client
 
-  constructor() {
+  /**
+   * @param refreshToken - token of the mailbox to act as; defaults to GMAIL_REFRESH_TOKEN
+   */
+  constructor(refreshToken?: string) {
     this.oauth2Client = new google.auth.OAuth2(
       process.env.GMAIL_CLIENT_ID,
       process.env.GMAIL_CLIENT_SECRET,
@@ -12,7 +32,7 @@ export class GmailService {
     )
 
     this.oauth2Client.setCredentials({
-      refresh_token: process.env.GMAIL_REFRESH_TOKEN
+      refresh_token: refreshToken || process.env.GMAIL_REFRESH_TOKEN
     })
   }
 
@@ -114,12 +134,18 @@ export class GmailService {
 
   async getMessage(messageId: string): Promise<{
     id: string
+    threadId: string | null
+    labelIds: string[]
     from: string
     to: string
     subject: string
     date: string
     body: string
     snippet: string
+    messageIdHeader: string | null
+    inReplyTo: string | null
+    references: string[]
+    attachments: GmailAttachmentPart[]
   }> {
     const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
     const response = await gmail.users.messages.get({
@@ -132,17 +158,22 @@ export class GmailService {
     const getHeader = (name: string) =>
       headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || ''
 
+    // Attachments nest the text under multipart/mixed > multipart/alternative
+    const parts = this.flattenParts(response.data.payload)
+    const decode = (part?: gmail_v1.Schema$MessagePart) =>
+      part?.body?.data ? Buffer.from(part.body.data, 'base64').toString('utf-8') : ''
+
     let body = ''
     if (response.data.payload?.body?.data) {
-      body = Buffer.from(response.data.payload.body.data, 'base64').toString('utf-8')
-    } else if (response.data.payload?.parts) {
-      const textPart = response.data.payload.parts.find((p) => p.mimeType === 'text/plain')
+      body = decode(response.data.payload)
+    } else {
+      const textPart = parts.find((p) => p.mimeType === 'text/plain' && !p.filename)
       if (textPart?.body?.data) {
-        body = Buffer.from(textPart.body.data, 'base64').toString('utf-8')
+        body = decode(textPart)
       } else {
-        const htmlPart = response.data.payload.parts.find((p) => p.mimeType === 'text/html')
+        const htmlPart = parts.find((p) => p.mimeType === 'text/html' && !p.filename)
         if (htmlPart?.body?.data) {
-          body = Buffer.from(htmlPart.body.data, 'base64').toString('utf-8')
+          body = decode(htmlPart)
             .replace(/<[^>]+>/g, ' ')
             .replace(/\s+/g, ' ')
             .trim()
@@ -150,17 +181,120 @@ export class GmailService {
       }
     }
 
+    const attachments = parts
+      .filter((p) => p.filename && p.body?.attachmentId)
+      .map((p) => ({
+        partId: p.partId || '',
+        attachmentId: p.body!.attachmentId!,
+        filename: p.filename!,
+        mimeType: p.mimeType || 'application/octet-stream',
+        size: p.body?.size || 0,
+        inline: (p.headers || []).some(
+          (h) => h.name?.toLowerCase() === 'content-disposition' && /^\s*inline/i.test(h.value || '')
+        ),
+      }))
+
     return {
       id: response.data.id || messageId,
+      threadId: response.data.threadId || null,
+      labelIds: response.data.labelIds || [],
       from: getHeader('From'),
       to: getHeader('To'),
       subject: getHeader('Subject'),
       date: getHeader('Date'),
       body,
       snippet: response.data.snippet || '',
+      messageIdHeader: getHeader('Message-ID') || null,
+      inReplyTo: getHeader('In-Reply-To') || null,
+      references: getHeader('References').split(/\s+/).filter(Boolean),
+      attachments,
+    }
+  }
+
+  async getAttachment(messageId: string, attachmentId: string): Promise<Buffer> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const response = await gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: attachmentId,
+    })
+    return Buffer.from(response.data.data || '', 'base64')
+  }
+
+  async getThreadHeaders(messageId: string): Promise<{
+    threadId: string | null
+    messageIdHeader: string | null
+    inReplyTo: string | null
+    references: string[]
+  }> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const response = await gmail.users.messages.get({
+      userId: 'me',
+      id: messageId,
+      format: 'metadata',
+      metadataHeaders: ['Message-ID', 'In-Reply-To', 'References'],
+    })
+
+    const headers = response.data.payload?.headers || []
+    const getHeader = (name: string) =>
+      headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || null
+
+    return {
+      threadId: response.data.threadId || null,
+      messageIdHeader: getHeader('Message-ID'),
+      inReplyTo: getHeader('In-Reply-To'),
+      references: (getHeader('References') || '').split(/\s+/).filter(Boolean),
+    }
+  }
+
+  async getProfile(): Promise<{ emailAddress: string; historyId: string }> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const response = await gmail.users.getProfile({ userId: 'me' })
+    return {
+      emailAddress: response.data.emailAddress || '',
+      historyId: response.data.historyId || '',
     }
   }
 
+  /**
+   * Messages added to the mailbox after startHistoryId, oldest first.
+   * Gmail answers 404 once startHistoryId is too old (about a week).
+   */
+  async listHistory(
+    startHistoryId: string,
+    pageToken?: string
+  ): Promise<{ records: GmailHistoryRecord[]; historyId: string; nextPageToken?: string }> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const response = await gmail.users.history.list({
+      userId: 'me',
+      startHistoryId,
+      historyTypes: ['messageAdded'],
+      pageToken,
+      maxResults: 500,
+    })
+
+    const records = (response.data.history || []).map((h) => ({
+      historyId: h.id || startHistoryId,
+      messages: (h.messagesAdded || [])
+        .filter((added) => added.message?.id)
+        .map((added) => ({ id: added.message!.id!, labelIds: added.message!.labelIds || [] })),
+    }))
+
+    return {
+      records,
+      historyId: response.data.historyId || startHistoryId,
+      nextPageToken: response.data.nextPageToken || undefined,
+    }
+  }
+
+  async listLabels(): Promise<Array<{ id: string; name: string }>> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client })
+    const response = await gmail.users.labels.list({ userId: 'me' })
+    return (response.data.labels || [])
+      .filter((label) => label.id && label.name)
+      .map((label) => ({ id: label.id!, name: label.name! }))
+  }
+
   async collectAllMessageIds(query: string): Promise<string[]> {
     const allIds: string[] = []
     let pageToken: string | undefined
@@ -176,6 +310,11 @@ export class GmailService {
     return allIds
   }
 
+  private flattenParts(part?: gmail_v1.Schema$MessagePart): gmail_v1.Schema$MessagePart[] {
+    if (!part) return []
+    return [part, ...(part.parts || []).flatMap((child) => this.flattenParts(child))]
+  }
+
   private async createEmailMessage(
     to: string,
     subject: string,
@@ -1,4 +1,5 @@
 import { getServerSupabase } from '@/lib/supabase'
+import { publishEvent } from '@/services/event-bus'
 
 /**
  * Social Media Publisher Service
@@ -15,6 +16,22 @@ interface PublishResult {
   published_at: string
 }
 
+/**
+ * Let subscribers know a post went live. Never fails the publish itself.
+ */
+async function announcePublished(
+  postId: string,
+  platform: 'twitter' | 'facebook' | 'instagram',
+  platformPostId: string,
+  url: string
+) {
+  await publishEvent(
+    'post.published',
+    { postId, platform, platformPostId, url },
+    { source: 'Social Media Agent', correlationId: postId }
+  ).catch(err => console.error('[SOCIAL PUBLISHER] Failed to publish post.published:', err))
+}
+
 /**
  * Get social account credentials from database
  */
@@ -97,6 +114,7 @@ export async function publishToTwitter(postId: string): Promise<PublishResult> {
     }).eq('id', postId)
 
     console.log('[SOCIAL PUBLISHER] Twitter post published:', data.data.id)
+    await announcePublished(postId, 'twitter', data.data.id, `https://twitter.com/user/status/${data.data.id}`)
 
     return {
       platform_post_id: data.data.id,
@@ -157,6 +175,7 @@ export async function publishToFacebook(postId: string): Promise<PublishResult>
     }).eq('id', postId)
 
     console.log('[SOCIAL PUBLISHER] Facebook post published:', data.id)
+    await announcePublished(postId, 'facebook', data.id, `https://facebook.com/${data.id}`)
 
     return {
       platform_post_id: data.id,
@@ -252,6 +271,7 @@ export async function publishToInstagram(postId: string): Promise<PublishResult>
     }).eq('id', postId)
 
     console.log('[SOCIAL PUBLISHER] Instagram post published:', data.id)
+    await announcePublished(postId, 'instagram', data.id, `https://instagram.com/p/${data.id}`)
 
     return {
       platform_post_id: data.id,
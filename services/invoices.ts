@@ -0,0 +1,552 @@
+/**
+ * Invoices Service
+ *
+ * Issues pro-forma invoices, tax invoices and credit notes for orders in
+ * orders_tracker. Lines come from the accepted quote behind the order (or are
+ * passed in for orders entered by hand), VAT is charged at 15% on every line
+ * including delivery, and numbers are assigned gap-free by the database
+ * (migration 038). The database also keeps an order to one open tax invoice
+ * and credit notes within the invoice total (migration 051). Issued documents
+ * are immutable - refunds are credit notes against the tax invoice. Each PDF
+ * is stored in the documents bucket and the document is linked to the order
+ * (invoice_no, updates) and the customer timeline (customer_interactions).
+ */
+
+import { supabase, type OrderTracker } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { renderBusinessDocumentPdf, uploadDocumentPdf } from '@/lib/pdf-documents'
+import { getAcceptedQuote } from '@/services/quote-outcomes'
+
+const VAT_RATE = 0.15
+
+export type InvoiceDocumentType = 'proforma' | 'tax_invoice' | 'credit_note'
+export type InvoiceStatus = 'issued' | 'credited'
+
+export interface InvoiceLineItem {
+  product_name: string
+  description?: string
+  quantity: number
+  /** Excluding VAT */
+  unit_price: number
+  total_price: number
+}
+
+export interface Invoice {
+  id: string
+  document_type: InvoiceDocumentType
+  invoice_number: string
+  order_no: string | null
+  quote_request_id: string | null
+  credited_invoice_id: string | null
+  customer_name: string
+  customer_email: string | null
+  customer_company: string | null
+  customer_address: string | null
+  customer_vat_number: string | null
+  items: InvoiceLineItem[]
+  subtotal: number
+  vat_rate: number
+  vat_amount: number
+  total: number
+  currency: string
+  issue_date: string
+  due_date: string | null
+  reason: string | null
+  notes: string | null
+  pdf_url: string | null
+  status: InvoiceStatus
+  created_by: string
+  metadata: Record<string, any>
+  created_at: string
+}
+
+export interface InvoiceCustomerDetails {
+  company?: string
+  address?: string
+  vat_number?: string
+}
+
+const DOCUMENT_TITLES: Record<InvoiceDocumentType, string> = {
+  proforma: 'PRO-FORMA INVOICE',
+  tax_invoice: 'TAX INVOICE',
+  credit_note: 'CREDIT NOTE'
+}
+
+const DOCUMENT_NAMES: Record<InvoiceDocumentType, string> = {
+  proforma: 'Pro-forma invoice',
+  tax_invoice: 'Tax invoice',
+  credit_note: 'Credit note'
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * VAT is worked out on the subtotal rather than per line, rounded the same
+ * way as quotes
+ */
+export function calculateInvoiceTotals(items: InvoiceLineItem[]): { subtotal: number; vat_amount: number; total: number } {
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.total_price, 0))
+  const vatAmount = roundMoney(subtotal * VAT_RATE)
+  return { subtotal, vat_amount: vatAmount, total: roundMoney(subtotal + vatAmount) }
+}
+
+function normalizeInvoiceItems(items: Array<Partial<InvoiceLineItem>>): InvoiceLineItem[] {
+  return items.map(item => {
+    if (!item.product_name) {
+      throw new Error('Invalid invoice: every line needs a product_name')
+    }
+    const quantity = Number(item.quantity ?? 1)
+    const unitPrice = Number(item.unit_price)
+    if (!(quantity > 0) || !(unitPrice >= 0)) {
+      throw new Error(`Invalid invoice: ${item.product_name} needs a positive quantity and price`)
+    }
+    return {
+      product_name: item.product_name,
+      description: item.description || undefined,
+      quantity,
+      unit_price: roundMoney(unitPrice),
+      total_price: roundMoney(unitPrice * quantity)
+    }
+  })
+}
+
+/**
+ * Our details as required on a tax invoice
+ */
+function getSellerDetails(): { vatNumber: string | null; address: string | null; bankDetails: string | null } {
+  return {
+    vatNumber: process.env.AUDICO_VAT_NUMBER || null,
+    address: process.env.AUDICO_COMPANY_ADDRESS || null,
+    bankDetails: process.env.AUDICO_BANK_DETAILS || null
+  }
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+async function renderInvoicePdf(invoice: Invoice, creditedInvoiceNumber?: string): Promise<string | null> {
+  const seller = getSellerDetails()
+
+  const headerLines: string[] = []
+  if (invoice.order_no) headerLines.push(`Order: ${invoice.order_no}`)
+  if (creditedInvoiceNumber) headerLines.push(`Credits invoice: ${creditedInvoiceNumber}`)
+  if (invoice.due_date) headerLines.push(`Due: ${formatDate(invoice.due_date)}`)
+
+  const notes = [
+    invoice.document_type === 'proforma' ? 'This is a pro-forma invoice and not a tax invoice.' : null,
+    invoice.reason ? `Reason: ${invoice.reason}` : null,
+    invoice.notes
+  ].filter(Boolean).join('\n')
+
+  const pdfBuffer = renderBusinessDocumentPdf({
+    title: DOCUMENT_TITLES[invoice.document_type],
+    number: invoice.invoice_number,
+    headerLines,
+    sellerLines: [
+      ...(seller.vatNumber ? [`VAT No: ${seller.vatNumber}`] : []),
+      ...(seller.address ? [seller.address] : [])
+    ],
+    partyLabel: invoice.document_type === 'credit_note' ? 'Credit To:' : 'Bill To:',
+    party: {
+      name: invoice.customer_name,
+      company: invoice.customer_company || undefined,
+      email: invoice.customer_email || undefined,
+      details: [
+        ...(invoice.customer_address ? [invoice.customer_address] : []),
+        ...(invoice.customer_vat_number ? [`VAT No: ${invoice.customer_vat_number}`] : [])
+      ]
+    },
+    items: invoice.items,
+    subtotal: Number(invoice.subtotal),
+    tax: Number(invoice.vat_amount),
+    total: Number(invoice.total),
+    currency: invoice.currency,
+    notes: notes || undefined,
+    terms: invoice.document_type !== 'credit_note' && seller.bankDetails
+      ? `Banking details: ${seller.bankDetails}. Please use ${invoice.invoice_number} as the payment reference.`
+      : undefined,
+    contactLine: 'For any questions regarding this document, please contact us at accounts@audico.co.za'
+  })
+
+  return uploadDocumentPdf(pdfBuffer, `invoices/${invoice.invoice_number}.pdf`)
+}
+
+/**
+ * Store the PDF of an invoice that does not have one yet. The PDF can only be
+ * set once, so a failed upload is simply retried on the next read.
+ */
+async function ensureInvoicePdf(invoice: Invoice): Promise<Invoice> {
+  if (invoice.pdf_url) return invoice
+
+  let creditedInvoiceNumber: string | undefined
+  if (invoice.credited_invoice_id) {
+    const { data: credited } = await supabase
+      .from('invoices')
+      .select('invoice_number')
+      .eq('id', invoice.credited_invoice_id)
+      .single()
+    creditedInvoiceNumber = credited?.invoice_number
+  }
+
+  const pdfUrl = await renderInvoicePdf(invoice, creditedInvoiceNumber)
+  if (!pdfUrl) {
+    console.error(`[INVOICES] PDF upload failed for ${invoice.invoice_number}`)
+    return invoice
+  }
+
+  await supabase
+    .from('invoices')
+    .update({ pdf_url: pdfUrl })
+    .eq('id', invoice.id)
+    .is('pdf_url', null)
+
+  return { ...invoice, pdf_url: pdfUrl }
+}
+
+async function logToCustomerTimeline(invoice: Invoice, summary: string): Promise<void> {
+  const { error } = await supabase
+    .from('customer_interactions')
+    .insert({
+      customer_id: invoice.customer_email || invoice.customer_name,
+      customer_name: invoice.customer_name,
+      customer_email: invoice.customer_email,
+      interaction_type: 'order',
+      interaction_source: 'invoicing',
+      interaction_date: new Date().toISOString(),
+      subject: `${DOCUMENT_NAMES[invoice.document_type]} ${invoice.invoice_number}`,
+      summary,
+      sentiment: 'neutral',
+      outcome: `${invoice.document_type}_issued`,
+      priority: 'medium',
+      status: 'completed',
+      assigned_agent: null,
+      reference_id: invoice.id,
+      reference_type: 'invoice',
+      details: {
+        invoice_number: invoice.invoice_number,
+        document_type: invoice.document_type,
+        order_no: invoice.order_no,
+        total: invoice.total,
+        currency: invoice.currency,
+        pdf_url: invoice.pdf_url
+      }
+    })
+
+  if (error) {
+    console.error('[INVOICES] Failed to log customer interaction:', error)
+  }
+}
+
+async function appendOrderUpdate(order: Pick<OrderTracker, 'order_no' | 'updates'>, line: string, changes: Partial<OrderTracker> = {}): Promise<void> {
+  await supabase
+    .from('orders_tracker')
+    .update({
+      ...changes,
+      updates: [order.updates, line].filter(Boolean).join('\n'),
+      last_modified_by: 'invoicing'
+    })
+    .eq('order_no', order.order_no)
+}
+
+/**
+ * Issue a pro-forma or tax invoice for an order. Lines default to the
+ * accepted quote behind the order, with delivery as its own line. An order
+ * has one tax invoice until it is fully credited.
+ */
+export async function issueInvoice(input: {
+  orderNo: string
+  documentType: 'proforma' | 'tax_invoice'
+  issuedBy: string
+  items?: Array<Partial<InvoiceLineItem>>
+  customer?: InvoiceCustomerDetails
+  dueDays?: number
+  notes?: string
+}): Promise<Invoice> {
+  if (input.documentType !== 'proforma' && input.documentType !== 'tax_invoice') {
+    throw new Error(`Invalid document type: ${input.documentType}`)
+  }
+
+  if (input.documentType === 'tax_invoice' && !getSellerDetails().vatNumber) {
+    throw new Error('Invalid invoice: AUDICO_VAT_NUMBER must be set to issue tax invoices')
+  }
+
+  const { data: order } = await supabase
+    .from('orders_tracker')
+    .select('*')
+    .eq('order_no', input.orderNo)
+    .maybeSingle()
+
+  if (!order) {
+    throw new Error('Order not found')
+  }
+
+  if (input.documentType === 'tax_invoice') {
+    const { data: existing } = await supabase
+      .from('invoices')
+      .select('invoice_number')
+      .eq('order_no', input.orderNo)
+      .eq('document_type', 'tax_invoice')
+      .eq('status', 'issued')
+      .limit(1)
+
+    if (existing && existing.length > 0) {
+      throw new Error(`Invalid invoice: order already has tax invoice ${existing[0].invoice_number} - credit it first`)
+    }
+  }
+
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('*')
+    .eq('order_no', input.orderNo)
+    .maybeSingle()
+
+  let items: InvoiceLineItem[]
+  let currency = 'ZAR'
+
+  if (input.items && input.items.length > 0) {
+    items = normalizeInvoiceItems(input.items)
+  } else {
+    const accepted = quoteRequest ? await getAcceptedQuote(quoteRequest.id) : null
+    if (!accepted || accepted.items.length === 0) {
+      throw new Error('Invalid invoice: order has no accepted quote - pass the invoice items')
+    }
+
+    items = accepted.items.map(item => ({
+      product_name: item.product_name,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: Number(item.unit_price),
+      total_price: Number(item.total_price)
+    }))
+
+    const shipping = Number(accepted.version?.shipping ?? order.shipping ?? 0)
+    if (shipping > 0) {
+      items.push({ product_name: 'Delivery', quantity: 1, unit_price: shipping, total_price: shipping })
+    }
+    currency = accepted.version?.currency || currency
+  }
+
+  const totals = calculateInvoiceTotals(items)
+  const issueDate = new Date().toISOString().split('T')[0]
+  const dueDate = input.dueDays !== undefined
+    ? new Date(Date.now() + input.dueDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+    : null
+
+  // invoice_number is assigned by the database
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .insert({
+      document_type: input.documentType,
+      order_no: input.orderNo,
+      quote_request_id: quoteRequest?.id || null,
+      customer_name: quoteRequest?.customer_name || order.order_name || 'Customer',
+      customer_email: quoteRequest?.customer_email || null,
+      customer_company: input.customer?.company || quoteRequest?.metadata?.company_name || null,
+      customer_address: input.customer?.address || null,
+      customer_vat_number: input.customer?.vat_number || null,
+      items,
+      ...totals,
+      vat_rate: VAT_RATE,
+      currency,
+      issue_date: issueDate,
+      due_date: dueDate,
+      notes: input.notes || null,
+      created_by: input.issuedBy
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // idx_invoices_one_tax_invoice_per_order - issued alongside this request
+    throw new Error(error.code === '23505'
+      ? 'Invalid invoice: order already has a tax invoice - credit it first'
+      : `Failed to issue invoice: ${error.message}`)
+  }
+
+  const issued = await ensureInvoicePdf(invoice)
+  const amount = `${issued.currency} ${Number(issued.total).toFixed(2)}`
+
+  await appendOrderUpdate(
+    order,
+    `${DOCUMENT_NAMES[issued.document_type]} ${issued.invoice_number} issued (${amount} incl. VAT)`,
+    issued.document_type === 'tax_invoice' ? { invoice_no: issued.invoice_number } : {}
+  )
+
+  await logToCustomerTimeline(issued, `${DOCUMENT_NAMES[issued.document_type]} ${issued.invoice_number} for order ${input.orderNo}: ${amount} incl. VAT`)
+
+  await logToSquadMessages(
+    'invoicing',
+    `🧾 ${DOCUMENT_NAMES[issued.document_type]} ${issued.invoice_number} issued for order ${input.orderNo}: ${amount}`,
+    { invoice_id: issued.id, order_no: input.orderNo, issued_by: input.issuedBy, pdf_url: issued.pdf_url }
+  )
+
+  return issued
+}
+
+/**
+ * Issue a credit note against a tax invoice - for the whole invoice, or for
+ * the given lines (quantities up to those invoiced). Credit notes for an
+ * invoice can never add up to more than its total.
+ */
+export async function issueCreditNote(input: {
+  invoiceId: string
+  reason: string
+  issuedBy: string
+  items?: Array<Partial<InvoiceLineItem>>
+}): Promise<Invoice> {
+  if (!input.reason?.trim()) {
+    throw new Error('Invalid credit note: a reason is required')
+  }
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', input.invoiceId)
+    .maybeSingle()
+
+  if (!invoice) {
+    throw new Error('Invoice not found')
+  }
+
+  if (invoice.document_type !== 'tax_invoice') {
+    throw new Error('Invalid credit note: only tax invoices can be credited')
+  }
+
+  if (invoice.status === 'credited') {
+    throw new Error(`Invalid credit note: ${invoice.invoice_number} is already fully credited`)
+  }
+
+  const items = input.items && input.items.length > 0
+    ? normalizeInvoiceItems(input.items)
+    : invoice.items as InvoiceLineItem[]
+
+  for (const item of items) {
+    const invoiced = (invoice.items as InvoiceLineItem[]).find(line => line.product_name === item.product_name)
+    if (!invoiced || item.quantity > invoiced.quantity || item.unit_price > invoiced.unit_price) {
+      throw new Error(`Invalid credit note: ${item.product_name} was not invoiced at that quantity and price`)
+    }
+  }
+
+  const { data: previousCredits } = await supabase
+    .from('invoices')
+    .select('total')
+    .eq('credited_invoice_id', invoice.id)
+
+  const alreadyCredited = roundMoney((previousCredits || []).reduce((sum, credit) => sum + Number(credit.total), 0))
+  const totals = calculateInvoiceTotals(items)
+  const remaining = roundMoney(Number(invoice.total) - alreadyCredited)
+
+  if (totals.total > remaining) {
+    throw new Error(`Invalid credit note: only ${invoice.currency} ${remaining.toFixed(2)} of ${invoice.invoice_number} is left to credit`)
+  }
+
+  const { data: creditNote, error } = await supabase
+    .from('invoices')
+    .insert({
+      document_type: 'credit_note',
+      order_no: invoice.order_no,
+      quote_request_id: invoice.quote_request_id,
+      credited_invoice_id: invoice.id,
+      customer_name: invoice.customer_name,
+      customer_email: invoice.customer_email,
+      customer_company: invoice.customer_company,
+      customer_address: invoice.customer_address,
+      customer_vat_number: invoice.customer_vat_number,
+      items,
+      ...totals,
+      vat_rate: VAT_RATE,
+      currency: invoice.currency,
+      issue_date: new Date().toISOString().split('T')[0],
+      reason: input.reason.trim(),
+      created_by: input.issuedBy
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // check_credit_note_total rechecks what is left with the invoice locked
+    // and marks it credited once nothing is
+    throw new Error(error.code === 'P0001' && error.message.startsWith('Invalid')
+      ? error.message
+      : `Failed to issue credit note: ${error.message}`)
+  }
+
+  const issued = await ensureInvoicePdf(creditNote)
+  const amount = `${issued.currency} ${Number(issued.total).toFixed(2)}`
+
+  if (invoice.order_no) {
+    const { data: order } = await supabase
+      .from('orders_tracker')
+      .select('order_no, updates')
+      .eq('order_no', invoice.order_no)
+      .maybeSingle()
+
+    if (order) {
+      await appendOrderUpdate(order, `Credit note ${issued.invoice_number} issued against ${invoice.invoice_number} (${amount}): ${issued.reason}`)
+    }
+  }
+
+  await logToCustomerTimeline(issued, `Credit note ${issued.invoice_number} against ${invoice.invoice_number}: ${amount} - ${issued.reason}`)
+
+  await logToSquadMessages(
+    'invoicing',
+    `↩️ Credit note ${issued.invoice_number} issued against ${invoice.invoice_number}: ${amount}`,
+    { invoice_id: issued.id, credited_invoice_id: invoice.id, order_no: invoice.order_no, issued_by: input.issuedBy, reason: issued.reason }
+  )
+
+  return issued
+}
+
+/**
+ * An invoice with the credit notes issued against it
+ */
+export async function getInvoice(invoiceId: string): Promise<{ invoice: Invoice; credit_notes: Invoice[] }> {
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .maybeSingle()
+
+  if (!invoice) {
+    throw new Error('Invoice not found')
+  }
+
+  const { data: creditNotes } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('credited_invoice_id', invoiceId)
+    .order('created_at', { ascending: true })
+
+  return {
+    invoice: await ensureInvoicePdf(invoice),
+    credit_notes: creditNotes || []
+  }
+}
+
+export async function listInvoices(filters: { orderNo?: string; customerEmail?: string }): Promise<Invoice[]> {
+  let query = supabase.from('invoices').select('*')
+
+  if (filters.orderNo) {
+    query = query.eq('order_no', filters.orderNo)
+  }
+  if (filters.customerEmail) {
+    query = query.eq('customer_email', filters.customerEmail)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load invoices: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export const invoices = {
+  issueInvoice,
+  issueCreditNote,
+  getInvoice,
+  listInvoices,
+  calculateInvoiceTotals
+}
@@ -0,0 +1,422 @@
+/**
+ * LLM Usage Service
+ *
+ * Records the measured token usage of every Anthropic/OpenAI call, prices it
+ * in rand and enforces per-agent daily/monthly spend caps. Calls made while a
+ * task or workflow runs are attributed to it via withUsageContext().
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { supabase } from '@/lib/supabase'
+import type { AgentBudget, LlmProvider } from '@/types/squad'
+
+const BUSINESS_TIMEZONE = process.env.BUSINESS_TIMEZONE || 'Africa/Johannesburg'
+const USD_ZAR_RATE = parseFloat(process.env.USD_ZAR_RATE || '18.50')
+
+/**
+ * USD per 1M tokens. Matched on the longest model prefix.
+ */
+const MODEL_PRICING_USD: Record<string, { input: number; output: number }> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 }
+}
+
+const FALLBACK_PRICING = MODEL_PRICING_USD['claude-sonnet-4']
+
+/**
+ * The same agent appears under several names across the codebase
+ */
+const AGENT_ALIASES: Record<string, string> = {
+  jarvis: 'Jarvis',
+  email_agent: 'Email Agent',
+  quote_agent: 'Quote Agent',
+  QuoteAgent: 'Quote Agent',
+  seo_agent: 'SEO Agent',
+  'seo-agent': 'SEO Agent',
+  social_agent: 'Social Media Agent',
+  marketing_agent: 'Marketing Agent',
+  ads_agent: 'Google Ads Agent'
+}
+
+export interface UsageContext {
+  agent?: string | null
+  taskId?: string | null
+  workflow?: string | null
+}
+
+export interface UsageInput {
+  agent: string
+  operation?: string
+  provider: LlmProvider
+  model: string
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface BudgetStatus {
+  agent: string
+  allowed: boolean
+  spentTodayZar: number
+  spentMonthZar: number
+  dailyLimitZar: number | null
+  monthlyLimitZar: number | null
+  reason?: string
+}
+
+export interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costZar: number
+}
+
+export interface CostBreakdown {
+  from: string
+  to: string
+  totals: UsageTotals
+  byAgent: Array<UsageTotals & { agent: string }>
+  byModel: Array<UsageTotals & { model: string; provider: LlmProvider }>
+  byDay: Array<{ day: string; costZar: number }>
+  byWorkflow: Array<UsageTotals & { workflow: string }>
+  topTasks: Array<UsageTotals & { taskId: string; title?: string }>
+  budgets: BudgetStatus[]
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>()
+
+/**
+ * Run `fn` with LLM calls attributed to the given agent/task/workflow
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn)
+}
+
+export function normalizeAgentName(agent: string): string {
+  return AGENT_ALIASES[agent] || agent
+}
+
+function getModelPricing(model: string): { input: number; output: number } {
+  const prefix = Object.keys(MODEL_PRICING_USD)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+
+  if (!prefix) {
+    console.warn(`[LLM USAGE] No pricing for model ${model}, using Claude Sonnet rates`)
+    return FALLBACK_PRICING
+  }
+
+  return MODEL_PRICING_USD[prefix]
+}
+
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): {
+  costUsd: number
+  costZar: number
+  rate: number
+} {
+  const pricing = getModelPricing(model)
+  const costUsd = (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+
+  return { costUsd, costZar: costUsd * USD_ZAR_RATE, rate: USD_ZAR_RATE }
+}
+
+/**
+ * Persist one LLM call. Never throws - accounting must not break the caller.
+ */
+export async function recordUsage(input: UsageInput): Promise<void> {
+  const context = usageContext.getStore() || {}
+  const { costUsd, costZar, rate } = calculateCost(input.model, input.inputTokens, input.outputTokens)
+
+  try {
+    const { error } = await supabase.from('llm_usage').insert({
+      agent: normalizeAgentName(context.agent || input.agent),
+      task_id: context.taskId || null,
+      workflow: context.workflow || null,
+      operation: input.operation || null,
+      provider: input.provider,
+      model: input.model,
+      input_tokens: input.inputTokens,
+      output_tokens: input.outputTokens,
+      cost_usd: costUsd,
+      usd_zar_rate: rate,
+      cost_zar: costZar
+    })
+
+    if (error) {
+      console.error('[LLM USAGE] Failed to record usage:', error)
+    }
+  } catch (error) {
+    console.error('[LLM USAGE] Failed to record usage:', error)
+  }
+}
+
+/**
+ * YYYY-MM-DD in the business timezone
+ */
+function getBusinessDay(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: BUSINESS_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date)
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costZar: 0 }
+}
+
+function addTotals(totals: UsageTotals, row: { calls?: number; input_tokens: number; output_tokens: number; cost_zar: number }): void {
+  totals.calls += Number(row.calls ?? 1)
+  totals.inputTokens += Number(row.input_tokens)
+  totals.outputTokens += Number(row.output_tokens)
+  totals.costZar += Number(row.cost_zar)
+}
+
+async function fetchDailyUsage(fromDay: string, toDay?: string, agent?: string): Promise<any[]> {
+  let query = supabase
+    .from('llm_usage_daily')
+    .select('*')
+    .gte('day', fromDay)
+
+  if (toDay) query = query.lte('day', toDay)
+  if (agent) query = query.eq('agent', agent)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load LLM usage: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Today's measured usage, overall and per agent
+ */
+export async function getTodayUsage(): Promise<{ totals: UsageTotals; byAgent: Record<string, UsageTotals> }> {
+  const rows = await fetchDailyUsage(getBusinessDay())
+  const totals = emptyTotals()
+  const byAgent: Record<string, UsageTotals> = {}
+
+  for (const row of rows) {
+    addTotals(totals, row)
+    byAgent[row.agent] = byAgent[row.agent] || emptyTotals()
+    addTotals(byAgent[row.agent], row)
+  }
+
+  return { totals, byAgent }
+}
+
+export async function listBudgets(): Promise<AgentBudget[]> {
+  const { data, error } = await supabase
+    .from('agent_budgets')
+    .select('*')
+    .order('agent', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load agent budgets: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function upsertBudget(
+  agent: string,
+  input: Partial<AgentBudget>,
+  updatedBy?: string
+): Promise<AgentBudget> {
+  const errors: string[] = []
+  for (const field of ['daily_limit_zar', 'monthly_limit_zar'] as const) {
+    const value = input[field]
+    if (value != null && (typeof value !== 'number' || value < 0)) {
+      errors.push(`${field} must be a positive number or null`)
+    }
+  }
+  if (!agent?.trim()) errors.push('agent is required')
+  if (errors.length > 0) {
+    throw new Error(`Invalid budget: ${errors.join('; ')}`)
+  }
+
+  const row: Record<string, any> = {
+    agent: normalizeAgentName(agent.trim()),
+    updated_at: new Date().toISOString(),
+    updated_by: updatedBy || null
+  }
+  if (input.daily_limit_zar !== undefined) row.daily_limit_zar = input.daily_limit_zar
+  if (input.monthly_limit_zar !== undefined) row.monthly_limit_zar = input.monthly_limit_zar
+  if (input.enabled !== undefined) row.enabled = input.enabled
+
+  const { data, error } = await supabase
+    .from('agent_budgets')
+    .upsert(row, { onConflict: 'agent' })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save agent budget: ${error.message}`)
+  }
+
+  return data
+}
+
+function toBudgetStatus(agent: string, budget: AgentBudget | undefined, rows: any[], today: string): BudgetStatus {
+  const spentMonthZar = rows.reduce((sum, row) => sum + Number(row.cost_zar), 0)
+  const spentTodayZar = rows
+    .filter(row => row.day === today)
+    .reduce((sum, row) => sum + Number(row.cost_zar), 0)
+
+  const capped = budget?.enabled !== false
+  const dailyLimitZar = capped && budget?.daily_limit_zar != null ? Number(budget.daily_limit_zar) : null
+  const monthlyLimitZar = capped && budget?.monthly_limit_zar != null ? Number(budget.monthly_limit_zar) : null
+
+  let reason: string | undefined
+  if (dailyLimitZar !== null && spentTodayZar >= dailyLimitZar) {
+    reason = `${agent} has spent R${spentTodayZar.toFixed(2)} of its R${dailyLimitZar.toFixed(2)} daily LLM budget`
+  } else if (monthlyLimitZar !== null && spentMonthZar >= monthlyLimitZar) {
+    reason = `${agent} has spent R${spentMonthZar.toFixed(2)} of its R${monthlyLimitZar.toFixed(2)} monthly LLM budget`
+  }
+
+  return { agent, allowed: !reason, spentTodayZar, spentMonthZar, dailyLimitZar, monthlyLimitZar, reason }
+}
+
+/**
+ * Has the agent got budget left today and this month? Agents without a
+ * budget row are uncapped.
+ */
+export async function checkAgentBudget(agentName: string): Promise<BudgetStatus> {
+  const agent = normalizeAgentName(agentName)
+  const today = getBusinessDay()
+
+  const [{ data: budget }, rows] = await Promise.all([
+    supabase.from('agent_budgets').select('*').eq('agent', agent).maybeSingle(),
+    fetchDailyUsage(`${today.slice(0, 7)}-01`, undefined, agent)
+  ])
+
+  return toBudgetStatus(agent, budget || undefined, rows, today)
+}
+
+/**
+ * Spend against budget for every capped agent and every agent with usage this month
+ */
+export async function getBudgetStatuses(): Promise<BudgetStatus[]> {
+  const today = getBusinessDay()
+  const [budgets, rows] = await Promise.all([
+    listBudgets(),
+    fetchDailyUsage(`${today.slice(0, 7)}-01`)
+  ])
+
+  const agents = new Set([...budgets.map(b => b.agent), ...rows.map(row => row.agent)])
+
+  return Array.from(agents)
+    .sort()
+    .map(agent => toBudgetStatus(
+      agent,
+      budgets.find(b => b.agent === agent),
+      rows.filter(row => row.agent === agent),
+      today
+    ))
+}
+
+/**
+ * Cost per agent, model, day, workflow and task between two SAST days (inclusive)
+ */
+export async function getCostBreakdown(from?: string, to?: string): Promise<CostBreakdown> {
+  const toDay = to || getBusinessDay()
+  const fromDay = from || getBusinessDay(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000))
+
+  const [daily, budgets] = await Promise.all([
+    fetchDailyUsage(fromDay, toDay),
+    getBudgetStatuses()
+  ])
+
+  const totals = emptyTotals()
+  const byAgent: Record<string, UsageTotals> = {}
+  const byModel: Record<string, UsageTotals & { provider: LlmProvider }> = {}
+  const byDay: Record<string, number> = {}
+
+  for (const row of daily) {
+    addTotals(totals, row)
+
+    byAgent[row.agent] = byAgent[row.agent] || emptyTotals()
+    addTotals(byAgent[row.agent], row)
+
+    byModel[row.model] = byModel[row.model] || { ...emptyTotals(), provider: row.provider }
+    addTotals(byModel[row.model], row)
+
+    byDay[row.day] = (byDay[row.day] || 0) + Number(row.cost_zar)
+  }
+
+  // Task and workflow attribution needs the raw rows (SAST is UTC+2 all year)
+  const { data: calls, error } = await supabase
+    .from('llm_usage')
+    .select('task_id, workflow, input_tokens, output_tokens, cost_zar')
+    .gte('created_at', `${fromDay}T00:00:00+02:00`)
+    .lte('created_at', `${toDay}T23:59:59.999+02:00`)
+    .or('task_id.not.is.null,workflow.not.is.null')
+    .limit(5000)
+
+  if (error) {
+    throw new Error(`Failed to load LLM usage: ${error.message}`)
+  }
+
+  const byWorkflow: Record<string, UsageTotals> = {}
+  const byTask: Record<string, UsageTotals> = {}
+
+  for (const call of calls || []) {
+    if (call.workflow) {
+      byWorkflow[call.workflow] = byWorkflow[call.workflow] || emptyTotals()
+      addTotals(byWorkflow[call.workflow], call)
+    }
+    if (call.task_id) {
+      byTask[call.task_id] = byTask[call.task_id] || emptyTotals()
+      addTotals(byTask[call.task_id], call)
+    }
+  }
+
+  const topTaskIds = Object.keys(byTask)
+    .sort((a, b) => byTask[b].costZar - byTask[a].costZar)
+    .slice(0, 10)
+
+  const { data: tasks } = topTaskIds.length > 0
+    ? await supabase.from('squad_tasks').select('id, title').in('id', topTaskIds)
+    : { data: [] as Array<{ id: string; title: string }> }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.costZar - a.costZar
+
+  return {
+    from: fromDay,
+    to: toDay,
+    totals,
+    byAgent: Object.entries(byAgent).map(([agent, t]) => ({ agent, ...t })).sort(byCost),
+    byModel: Object.entries(byModel).map(([model, t]) => ({ model, ...t })).sort(byCost),
+    byDay: Object.entries(byDay).map(([day, costZar]) => ({ day, costZar })).sort((a, b) => a.day.localeCompare(b.day)),
+    byWorkflow: Object.entries(byWorkflow).map(([workflow, t]) => ({ workflow, ...t })).sort(byCost),
+    topTasks: topTaskIds.map(taskId => ({
+      taskId,
+      title: tasks?.find(t => t.id === taskId)?.title,
+      ...byTask[taskId]
+    })),
+    budgets
+  }
+}
+
+export const llmUsage = {
+  withUsageContext,
+  normalizeAgentName,
+  calculateCost,
+  recordUsage,
+  getTodayUsage,
+  listBudgets,
+  upsertBudget,
+  checkAgentBudget,
+  getBudgetStatuses,
+  getCostBreakdown
+}
@@ -1,6 +1,6 @@
 import cron from 'node-cron'
 import { createClient } from '@supabase/supabase-js'
-import type { AgentStatus, TokenBudget, ConflictDetection, SquadMessage } from './types'
+import type { AgentStatus, TokenBudget, ResourceLock, SquadMessage } from './types'
 import { 
   ORCHESTRATOR_CONFIG, 
   AGENT_SCHEDULES, 
@@ -12,6 +12,8 @@ import {
   generateMonthlyNewsletterAssets,
   generateResellerOnboardingKit 
 } from './workflows/visual-content-automation'
+import { checkAgentBudget, getBudgetStatuses, getTodayUsage, withUsageContext } from './llm-usage'
+import { acquireLocks, listActiveLocks, purgeExpiredLocks, releaseLocks } from './resource-locks'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -21,14 +23,6 @@ const supabase = createClient(
 class AgentOrchestrator {
   private isRunning = false
   private scheduledJobs: Map<string, cron.ScheduledTask> = new Map()
-  private tokenBudget: TokenBudget = {
-    total: ORCHESTRATOR_CONFIG.tokenBudget,
-    used: 0,
-    remaining: ORCHESTRATOR_CONFIG.tokenBudget,
-    agentUsage: {}
-  }
-  private activeOperations: Map<string, ConflictDetection> = new Map()
-  private readonly TOKEN_RESET_HOUR = ORCHESTRATOR_CONFIG.tokenResetHour
 
   async initialize() {
     if (this.isRunning) {
@@ -41,7 +35,6 @@ class AgentOrchestrator {
     
     await this.initializeAgents()
     await this.setupScheduledJobs()
-    await this.setupTokenBudgetReset()
     
     console.log('Agent Orchestrator initialized')
   }
@@ -68,10 +61,6 @@ class AgentOrchestrator {
       return
     }
 
-    for (const agent of agents || []) {
-      this.tokenBudget.agentUsage[agent.name] = 0
-    }
-
     await this.logMessage('orchestrator', `Initialized ${agents?.length || 0} agents`, {
       agents: agents?.map(a => a.name) || []
     })
@@ -119,24 +108,11 @@ class AgentOrchestrator {
     })
   }
 
-  private async setupTokenBudgetReset() {
-    this.scheduledJobs.set('token_reset', cron.schedule(`0 ${this.TOKEN_RESET_HOUR} * * *`, async () => {
-      await this.resetTokenBudget()
-    }))
-  }
-
   private async executeAgentTask(agentName: string, taskType: string, endpoint: string) {
     if (!this.isRunning) return
 
-    const canExecute = await this.checkTokenBudget(agentName, 1000)
-    if (!canExecute) {
-      await this.logMessage('orchestrator', `Task blocked: insufficient tokens for ${agentName}`, {
-        agent: agentName,
-        task: taskType,
-        action: 'token_limit_reached'
-      })
-      return
-    }
+    const canExecute = await this.checkBudget(agentName, { task: taskType })
+    if (!canExecute) return
 
     await this.updateAgentStatus(agentName, 'active')
     
@@ -153,8 +129,6 @@ class AgentOrchestrator {
           action: taskType,
           result
         })
-        
-        await this.trackTokenUsage(agentName, 500)
       } else {
         await this.logMessage(agentName, `Failed ${taskType} task`, {
           action: taskType,
@@ -181,30 +155,27 @@ class AgentOrchestrator {
     if (!emails || emails.length === 0) return
 
     for (const email of emails) {
-      const canExecute = await this.checkTokenBudget('email_agent', 500)
+      const canExecute = await this.checkBudget('email_agent', { task: 'classify' })
       if (!canExecute) break
 
-      await this.registerOperation({
-        emailId: email.id,
-        timestamp: new Date(),
-        agents: ['email_agent'],
-        action: 'classify'
-      })
+      const locks = await acquireLocks([
+        { resourceType: 'email', resourceId: email.id, agent: 'email_agent', action: 'classify' }
+      ])
+      if (!locks.acquired) {
+        await this.logLockConflict(email.id, locks.heldBy)
+        continue
+      }
 
       try {
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/agents/email/classify`, {
+        await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/agents/email/classify`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ email_id: email.id })
         })
-
-        if (response.ok) {
-          await this.trackTokenUsage('email_agent', 300)
-        }
       } catch (error) {
         console.error('Error classifying email:', error)
       } finally {
-        this.clearOperation(email.id)
+        await releaseLocks(locks.locks)
       }
     }
   }
@@ -219,151 +190,103 @@ class AgentOrchestrator {
     if (!emails || emails.length === 0) return
 
     for (const email of emails) {
-      const conflict = await this.detectConflict({
-        emailId: email.id,
-        timestamp: new Date(),
-        agents: ['email_agent'],
-        action: 'respond'
-      })
+      const canExecute = await this.checkBudget('email_agent', { task: 'respond' })
+      if (!canExecute) break
 
-      if (conflict) {
-        await this.logMessage('orchestrator', `Conflict detected for email ${email.id}`, {
-          action: 'conflict_detected',
-          email_id: email.id,
-          conflicting_agents: conflict.agents
-        })
+      // The respond route joins these locks via lock_token
+      const locks = await acquireLocks([
+        { resourceType: 'email', resourceId: email.id, agent: 'email_agent', action: 'respond' }
+      ])
+      if (!locks.acquired) {
+        await this.logLockConflict(email.id, locks.heldBy)
         continue
       }
 
-      const canExecute = await this.checkTokenBudget('email_agent', 800)
-      if (!canExecute) break
-
-      await this.registerOperation({
-        emailId: email.id,
-        timestamp: new Date(),
-        agents: ['email_agent'],
-        action: 'respond'
-      })
-
       try {
-        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/agents/email/respond`, {
+        await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'}/api/agents/email/respond`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ email_id: email.id })
+          body: JSON.stringify({ email_id: email.id, lock_token: locks.token })
         })
-
-        if (response.ok) {
-          await this.trackTokenUsage('email_agent', 600)
-        }
       } catch (error) {
         console.error('Error responding to email:', error)
       } finally {
-        this.clearOperation(email.id)
+        await releaseLocks(locks.locks)
       }
     }
   }
 
-  private async registerOperation(operation: ConflictDetection) {
-    const key = operation.emailId || operation.customerId || Math.random().toString()
-    this.activeOperations.set(key, operation)
-  }
-
-  private clearOperation(identifier: string) {
-    this.activeOperations.delete(identifier)
-  }
-
-  private async detectConflict(newOperation: ConflictDetection): Promise<ConflictDetection | null> {
-    const key = newOperation.emailId || newOperation.customerId
-    if (!key) return null
-
-    const existing = this.activeOperations.get(key)
-    if (!existing) return null
-
-    const timeDiff = newOperation.timestamp.getTime() - existing.timestamp.getTime()
-    if (timeDiff < ORCHESTRATOR_CONFIG.conflictWindowSeconds * 1000) {
-      return existing
-    }
-
-    return null
+  private async logLockConflict(emailId: string, heldBy: ResourceLock) {
+    await this.logMessage('orchestrator', `Conflict detected for email ${emailId}`, {
+      action: 'conflict_detected',
+      email_id: emailId,
+      held_by: heldBy.agent,
+      held_action: heldBy.action,
+      expires_at: heldBy.expiresAt
+    })
   }
 
   private async checkForConflicts() {
-    const cutoffTime = new Date(Date.now() - (ORCHESTRATOR_CONFIG.operationTimeoutSeconds * 1000))
-    
-    for (const [key, operation] of this.activeOperations) {
-      if (operation.timestamp < cutoffTime) {
-        this.activeOperations.delete(key)
-      }
-    }
+    await purgeExpiredLocks()
 
-    if (this.activeOperations.size > 0) {
-      await this.logMessage('orchestrator', `Active operations: ${this.activeOperations.size}`, {
+    const locks = await listActiveLocks()
+    if (locks.length > 0) {
+      await this.logMessage('orchestrator', `Active locks: ${locks.length}`, {
         action: 'conflict_check',
-        operations: Array.from(this.activeOperations.values())
+        locks
       })
     }
   }
 
-  private async checkTokenBudget(agentName: string, tokensNeeded: number): Promise<boolean> {
-    if (this.tokenBudget.remaining < tokensNeeded) {
-      return false
-    }
-    return true
-  }
-
-  private async trackTokenUsage(agentName: string, tokensUsed: number) {
-    this.tokenBudget.used += tokensUsed
-    this.tokenBudget.remaining = this.tokenBudget.total - this.tokenBudget.used
-    this.tokenBudget.agentUsage[agentName] = (this.tokenBudget.agentUsage[agentName] || 0) + tokensUsed
-
-    await supabase
-      .from('squad_agents')
-      .update({
-        last_active: new Date().toISOString()
-      })
-      .eq('name', agentName)
-  }
-
-  private async resetTokenBudget() {
-    const previousUsage = { ...this.tokenBudget }
-    
-    this.tokenBudget.used = 0
-    this.tokenBudget.remaining = this.tokenBudget.total
-    this.tokenBudget.agentUsage = {}
-
-    const { data: agents } = await supabase
-      .from('squad_agents')
-      .select('name')
-    
-    for (const agent of agents || []) {
-      this.tokenBudget.agentUsage[agent.name] = 0
+  /**
+   * Check the agent's measured LLM spend against its daily/monthly caps
+   */
+  private async checkBudget(agentName: string, data: Record<string, any> = {}): Promise<boolean> {
+    try {
+      const budget = await checkAgentBudget(agentName)
+      if (!budget.allowed) {
+        await this.logMessage('orchestrator', `Task blocked: ${budget.reason}`, {
+          ...data,
+          agent: agentName,
+          action: 'budget_limit_reached',
+          spent_today_zar: budget.spentTodayZar,
+          spent_month_zar: budget.spentMonthZar
+        })
+      }
+      return budget.allowed
+    } catch (error) {
+      // Accounting problems should not stop the agents
+      console.error(`Failed to check budget for ${agentName}:`, error)
+      return true
     }
-
-    await this.logMessage('orchestrator', 'Token budget reset', {
-      action: 'token_reset',
-      previous_usage: previousUsage,
-      new_budget: this.tokenBudget
-    })
   }
 
   private async monitorTokenUsage() {
-    const usagePercent = this.tokenBudget.used / this.tokenBudget.total
+    const statuses = await getBudgetStatuses()
+
+    for (const status of statuses) {
+      if (!status.dailyLimitZar) continue
+
+      const usagePercent = status.spentTodayZar / status.dailyLimitZar
+      const usage = {
+        agent: status.agent,
+        spent_today_zar: status.spentTodayZar,
+        daily_limit_zar: status.dailyLimitZar,
+        spent_month_zar: status.spentMonthZar,
+        monthly_limit_zar: status.monthlyLimitZar
+      }
 
-    if (usagePercent >= TOKEN_WARNING_THRESHOLDS.CRITICAL) {
-      await this.logMessage('orchestrator', `CRITICAL: Token budget ${Math.round(usagePercent * 100)}% depleted`, {
-        action: 'token_critical',
-        usage: this.tokenBudget
-      })
-    } else if (usagePercent >= TOKEN_WARNING_THRESHOLDS.WARNING) {
-      await this.logMessage('orchestrator', `WARNING: Token budget ${Math.round(usagePercent * 100)}% depleted`, {
-        action: 'token_warning',
-        usage: this.tokenBudget
-      })
-    } else if (usagePercent >= TOKEN_WARNING_THRESHOLDS.INFO) {
-      await this.logMessage('orchestrator', `INFO: Token budget ${Math.round(usagePercent * 100)}% depleted`, {
-        action: 'token_info',
-        usage: this.tokenBudget
-      })
+      if (usagePercent >= TOKEN_WARNING_THRESHOLDS.CRITICAL) {
+        await this.logMessage('orchestrator', `CRITICAL: ${status.agent} daily LLM budget ${Math.round(usagePercent * 100)}% spent`, {
+          action: 'budget_critical',
+          usage
+        })
+      } else if (usagePercent >= TOKEN_WARNING_THRESHOLDS.WARNING) {
+        await this.logMessage('orchestrator', `WARNING: ${status.agent} daily LLM budget ${Math.round(usagePercent * 100)}% spent`, {
+          action: 'budget_warning',
+          usage
+        })
+      }
     }
   }
 
@@ -408,16 +331,8 @@ class AgentOrchestrator {
   private async executeVisualWorkflow(workflowType: 'social_visuals' | 'newsletter_assets') {
     if (!this.isRunning) return
 
-    const tokenEstimate = workflowType === 'social_visuals' ? 2000 : 3000
-    const canExecute = await this.checkTokenBudget('visual_automation', tokenEstimate)
-    
-    if (!canExecute) {
-      await this.logMessage('orchestrator', `Visual workflow blocked: insufficient tokens for ${workflowType}`, {
-        workflow: workflowType,
-        action: 'token_limit_reached'
-      })
-      return
-    }
+    const canExecute = await this.checkBudget('visual_automation', { workflow: workflowType })
+    if (!canExecute) return
 
     await this.updateAgentStatus('visual_automation', 'active')
 
@@ -425,20 +340,24 @@ class AgentOrchestrator {
       let result
 
       if (workflowType === 'social_visuals') {
-        result = await generateWeeklySocialVisuals()
+        result = await withUsageContext(
+          { agent: 'visual_automation', workflow: workflowType },
+          () => generateWeeklySocialVisuals()
+        )
         await this.logMessage('visual_automation', 'Completed weekly social visuals workflow', {
           action: 'workflow_completed',
           result
         })
       } else if (workflowType === 'newsletter_assets') {
-        result = await generateMonthlyNewsletterAssets()
+        result = await withUsageContext(
+          { agent: 'visual_automation', workflow: workflowType },
+          () => generateMonthlyNewsletterAssets()
+        )
         await this.logMessage('visual_automation', 'Completed monthly newsletter assets workflow', {
           action: 'workflow_completed',
           result
         })
       }
-
-      await this.trackTokenUsage('visual_automation', tokenEstimate * 0.8)
     } catch (error: any) {
       await this.logMessage('visual_automation', `Error executing ${workflowType} workflow`, {
         action: workflowType,
@@ -483,28 +402,22 @@ class AgentOrchestrator {
   }
 
   async triggerResellerKitGeneration(resellerId: string): Promise<void> {
-    const canExecute = await this.checkTokenBudget('visual_automation', 2500)
-    
-    if (!canExecute) {
-      await this.logMessage('orchestrator', `Reseller kit generation blocked: insufficient tokens`, {
-        reseller_id: resellerId,
-        action: 'token_limit_reached'
-      })
-      return
-    }
+    const canExecute = await this.checkBudget('visual_automation', { workflow: 'reseller_kit', reseller_id: resellerId })
+    if (!canExecute) return
 
     await this.updateAgentStatus('visual_automation', 'active')
 
     try {
-      const result = await generateResellerOnboardingKit(resellerId)
+      const result = await withUsageContext(
+        { agent: 'visual_automation', workflow: 'reseller_kit' },
+        () => generateResellerOnboardingKit(resellerId)
+      )
       
       await this.logMessage('visual_automation', `Completed reseller kit generation`, {
         action: 'reseller_kit_generated',
         reseller_id: resellerId,
         result
       })
-
-      await this.trackTokenUsage('visual_automation', 2000)
     } catch (error: any) {
       await this.logMessage('visual_automation', `Error generating reseller kit`, {
         action: 'reseller_kit_error',
@@ -555,12 +468,29 @@ class AgentOrchestrator {
     return data || []
   }
 
-  getTokenBudget(): TokenBudget {
-    return { ...this.tokenBudget }
+  /**
+   * Today's measured LLM usage (SAST day) against the daily token budget
+   */
+  async getTokenBudget(): Promise<TokenBudget> {
+    const { totals, byAgent } = await getTodayUsage()
+    const used = totals.inputTokens + totals.outputTokens
+
+    return {
+      total: ORCHESTRATOR_CONFIG.tokenBudget,
+      used,
+      remaining: Math.max(0, ORCHESTRATOR_CONFIG.tokenBudget - used),
+      agentUsage: Object.fromEntries(
+        Object.entries(byAgent).map(([agent, usage]) => [agent, usage.inputTokens + usage.outputTokens])
+      ),
+      costZar: totals.costZar,
+      agentCostZar: Object.fromEntries(
+        Object.entries(byAgent).map(([agent, usage]) => [agent, usage.costZar])
+      )
+    }
   }
 
-  getActiveOperations(): ConflictDetection[] {
-    return Array.from(this.activeOperations.values())
+  async getActiveLocks(): Promise<ResourceLock[]> {
+    return listActiveLocks()
   }
 
   async getAgentStatuses(): Promise<AgentStatus[]> {
@@ -0,0 +1,695 @@
+/**
+ * Price List Ingestion Service
+ *
+ * Processes supplier price lists uploaded on /products/import:
+ * 1. Parse - CSV/XLSX through the supplier's column mapping template (or a
+ *    mapping suggested from the headers), PDF through the model
+ * 2. Diff - match each row to the supplier's catalogue by normalised SKU,
+ *    then by name, and mark it new, changed, unchanged or invalid
+ * 3. Preview - the rows wait in price_list_rows; rows can be left out
+ * 4. Commit - new products are added to supplier_products, changed prices
+ *    are updated and queued for review in price_change_queue
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import {
+  parseCsv,
+  parseXlsx,
+  toTable,
+  suggestColumnMapping,
+  validateColumnMapping,
+  applyColumnMapping,
+  extractPdfPriceList,
+  getPriceListFileType,
+  normalizeSku,
+  type ColumnMapping,
+  type PriceListFileType,
+  type PriceListRow
+} from '@/lib/price-list-parser'
+import { getRateSnapshot, convertToZar, normalizeCurrency, BASE_CURRENCY } from '@/services/exchange-rates'
+import { VAT_RATE } from '@/services/quote-versions'
+
+const STORAGE_BUCKET = 'invoices'
+const INSERT_BATCH_SIZE = 500
+
+/** Markup when neither the upload nor the product has one */
+export const DEFAULT_MARKUP_PCT = 30
+
+export type PriceListInstruction = 'cost_excl_vat' | 'cost_incl_vat' | 'retail'
+export type PriceListUploadStatus = 'pending' | 'processing' | 'ready' | 'completed' | 'failed'
+export type PriceListChangeType = 'new' | 'changed' | 'unchanged' | 'invalid'
+
+export interface PriceListMappingTemplate {
+  id: string
+  supplier_id: string
+  name: string
+  column_mapping: ColumnMapping
+  header_row: number | null
+  sheet_name: string | null
+  currency: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PriceListSummary {
+  new: number
+  changed: number
+  unchanged: number
+  invalid: number
+  /** Catalogue products of the supplier not in the list */
+  missing: number
+  committed?: { added: number; updated: number; queued: number }
+}
+
+export interface PriceListUpload {
+  id: string
+  filename: string
+  storage_path: string
+  supplier_id: string | null
+  supplier_name: string | null
+  status: PriceListUploadStatus
+  instruction: PriceListInstruction | null
+  markup_pct: number | null
+  file_type: PriceListFileType | null
+  mapping_template_id: string | null
+  column_mapping: ColumnMapping | null
+  headers: string[] | null
+  header_row: number | null
+  total_rows: number | null
+  processed_rows: number | null
+  summary: PriceListSummary | null
+  error_message: string | null
+  processed_at: string | null
+  committed_at: string | null
+  committed_by: string | null
+  created_at: string
+}
+
+export interface PriceListRowRecord {
+  id: string
+  upload_id: string
+  row_number: number
+  sku: string | null
+  normalized_sku: string | null
+  product_name: string | null
+  manufacturer: string | null
+  category: string | null
+  stock: string | null
+  price: number | null
+  currency: string | null
+  supplier_price: number | null
+  supplier_product_id: string | null
+  previous_price: number | null
+  price_change_pct: number | null
+  change_type: PriceListChangeType
+  error: string | null
+  included: boolean
+  raw: Record<string, string>
+}
+
+interface CatalogueProduct {
+  id: string
+  product_name: string
+  model_number: string | null
+  normalized_sku: string | null
+  last_quoted_price: number | null
+  custom_markup_percentage: number | null
+  avg_markup_percentage: number | null
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// ============================================
+// Mapping templates
+// ============================================
+
+export async function listMappingTemplates(supplierId?: string): Promise<PriceListMappingTemplate[]> {
+  let query = supabase
+    .from('price_list_mapping_templates')
+    .select('*')
+    .order('updated_at', { ascending: false })
+
+  if (supplierId) {
+    query = query.eq('supplier_id', supplierId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch mapping templates: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Create a supplier's mapping template, or replace the one with the same name
+ */
+export async function saveMappingTemplate(input: {
+  supplierId: string
+  name: string
+  columnMapping: ColumnMapping
+  headerRow?: number | null
+  sheetName?: string | null
+  currency?: string | null
+  createdBy?: string | null
+}): Promise<PriceListMappingTemplate> {
+  const errors = validateColumnMapping(input.columnMapping || {})
+  if (!input.supplierId) errors.push('supplier_id is required')
+  if (!input.name?.trim()) errors.push('name is required')
+  if (input.headerRow != null && (!Number.isInteger(input.headerRow) || input.headerRow < 1)) {
+    errors.push('header_row must be a positive integer')
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid mapping template: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('price_list_mapping_templates')
+    .upsert({
+      supplier_id: input.supplierId,
+      name: input.name.trim(),
+      column_mapping: input.columnMapping,
+      header_row: input.headerRow ?? null,
+      sheet_name: input.sheetName || null,
+      currency: normalizeCurrency(input.currency),
+      created_by: input.createdBy || null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'supplier_id,name' })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save mapping template: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deleteMappingTemplate(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('price_list_mapping_templates')
+    .delete()
+    .eq('id', id)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete mapping template: ${error.message}`)
+  }
+  if (!data?.length) {
+    throw new Error('Mapping template not found')
+  }
+}
+
+// ============================================
+// Parse and diff
+// ============================================
+
+async function getUpload(uploadId: string): Promise<PriceListUpload> {
+  const { data } = await supabase
+    .from('price_list_uploads')
+    .select('*')
+    .eq('id', uploadId)
+    .maybeSingle()
+
+  if (!data) {
+    throw new Error('Price list upload not found')
+  }
+
+  return data
+}
+
+async function updateUpload(uploadId: string, fields: Record<string, any>): Promise<void> {
+  const { error } = await supabase
+    .from('price_list_uploads')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', uploadId)
+
+  if (error) {
+    throw new Error(`Failed to update price list upload: ${error.message}`)
+  }
+}
+
+async function downloadFile(storagePath: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(storagePath)
+
+  if (error || !data) {
+    throw new Error(`Failed to download price list: ${error?.message || 'file not found'}`)
+  }
+
+  return Buffer.from(await data.arrayBuffer())
+}
+
+async function fetchCatalogue(supplierId: string): Promise<CatalogueProduct[]> {
+  const { data, error } = await supabase
+    .from('supplier_products')
+    .select('id, product_name, model_number, normalized_sku, last_quoted_price, custom_markup_percentage, avg_markup_percentage')
+    .eq('supplier_id', supplierId)
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier products: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Match parsed rows to the catalogue and work out what changes
+ */
+async function diffRows(
+  rows: PriceListRow[],
+  catalogue: CatalogueProduct[],
+  options: { instruction: PriceListInstruction; currency: string }
+): Promise<{ records: Array<Omit<PriceListRowRecord, 'id' | 'upload_id' | 'included'>>; missing: number }> {
+  const bySku = new Map<string, CatalogueProduct>()
+  const byName = new Map<string, CatalogueProduct>()
+  for (const product of catalogue) {
+    const sku = product.normalized_sku || normalizeSku(product.model_number)
+    if (sku && !bySku.has(sku)) bySku.set(sku, product)
+    const name = product.product_name.trim().toLowerCase()
+    if (!byName.has(name)) byName.set(name, product)
+  }
+
+  // Blank lines between sections
+  rows = rows.filter(row => row.sku || row.product_name || row.price != null)
+
+  const currencies = rows.map(row => normalizeCurrency(row.currency || options.currency))
+  const rates = await getRateSnapshot(currencies)
+
+  const seen = new Map<string, number>()
+  const matched = new Set<string>()
+
+  const records = rows.map(row => {
+    const normalizedSku = normalizeSku(row.sku)
+    const currency = normalizeCurrency(row.currency || options.currency)
+    const base = {
+      row_number: row.row_number,
+      sku: row.sku,
+      normalized_sku: normalizedSku,
+      product_name: row.product_name,
+      manufacturer: row.manufacturer,
+      category: row.category,
+      stock: row.stock,
+      price: row.price,
+      currency,
+      supplier_price: null as number | null,
+      supplier_product_id: null as string | null,
+      previous_price: null as number | null,
+      price_change_pct: null as number | null,
+      raw: row.raw
+    }
+    const invalid = (error: string) => ({ ...base, change_type: 'invalid' as const, error })
+
+    if (!normalizedSku && !row.product_name) return invalid('No SKU or product name')
+    if (row.price == null || row.price <= 0) return invalid('No price')
+    if (currency !== BASE_CURRENCY && !rates.has(currency)) return invalid(`No exchange rate for ${currency}`)
+
+    const key = normalizedSku || `name:${row.product_name!.trim().toLowerCase()}`
+    if (seen.has(key)) return invalid(`Duplicate of row ${seen.get(key)}`)
+    seen.set(key, row.row_number)
+
+    let supplierPrice = convertToZar(row.price, currency, rates)
+    if (options.instruction === 'cost_incl_vat') {
+      supplierPrice = round2(supplierPrice / (1 + VAT_RATE))
+    }
+
+    const product = (normalizedSku && bySku.get(normalizedSku)) ||
+      (row.product_name ? byName.get(row.product_name.trim().toLowerCase()) : undefined)
+
+    if (!product) {
+      return { ...base, supplier_price: supplierPrice, change_type: 'new' as const, error: null }
+    }
+
+    matched.add(product.id)
+    const previous = product.last_quoted_price != null ? Number(product.last_quoted_price) : null
+    const unchanged = previous != null && Math.abs(previous - supplierPrice) < 0.005
+
+    return {
+      ...base,
+      supplier_price: supplierPrice,
+      supplier_product_id: product.id,
+      previous_price: previous,
+      price_change_pct: previous ? round2(((supplierPrice - previous) / previous) * 100) : null,
+      change_type: unchanged ? 'unchanged' as const : 'changed' as const,
+      error: null
+    }
+  })
+
+  return { records, missing: catalogue.filter(product => !matched.has(product.id)).length }
+}
+
+/**
+ * Parse an uploaded price list and diff it against the supplier's catalogue.
+ * Replaces any earlier preview of the same upload. When the columns cannot
+ * be mapped the upload is left ready with the headers so a mapping can be
+ * chosen in the preview.
+ */
+export async function processUpload(uploadId: string, options: {
+  templateId?: string | null
+  columnMapping?: ColumnMapping | null
+  headerRow?: number | null
+  sheetName?: string | null
+  currency?: string | null
+} = {}): Promise<PriceListUpload> {
+  const upload = await getUpload(uploadId)
+
+  if (upload.status === 'completed') {
+    throw new Error('Invalid price list: already committed')
+  }
+  if (upload.status === 'processing') {
+    throw new Error('Invalid price list: already being processed')
+  }
+  if (!upload.supplier_id) {
+    throw new Error('Invalid price list: choose the supplier it is from')
+  }
+
+  const fileType = getPriceListFileType(upload.filename)
+  if (!fileType) {
+    throw new Error('Invalid price list: only CSV, XLSX and PDF files can be read - save .xls files as .xlsx')
+  }
+
+  await updateUpload(uploadId, { status: 'processing', error_message: null })
+
+  try {
+    const templateId = options.templateId || upload.mapping_template_id
+    const templates = await listMappingTemplates(upload.supplier_id)
+    const template = templateId ? templates.find(t => t.id === templateId) : templates[0]
+    if (templateId && !template) {
+      throw new Error('Invalid price list: mapping template not found for this supplier')
+    }
+
+    const buffer = await downloadFile(upload.storage_path)
+    let rows: PriceListRow[]
+    let layout: { headers: string[] | null; header_row: number | null; column_mapping: ColumnMapping | null } = {
+      headers: null,
+      header_row: null,
+      column_mapping: null
+    }
+
+    if (fileType === 'pdf') {
+      rows = await extractPdfPriceList(buffer, upload.supplier_name || 'unknown')
+    } else {
+      const cells = fileType === 'csv'
+        ? parseCsv(buffer.toString('utf8'))
+        : await parseXlsx(buffer, options.sheetName ?? template?.sheet_name)
+      const table = toTable(cells, options.headerRow ?? template?.header_row)
+      const mapping = options.columnMapping || template?.column_mapping || suggestColumnMapping(table.headers)
+      layout = { headers: table.headers, header_row: table.header_row, column_mapping: mapping }
+
+      const mappingErrors = validateColumnMapping(mapping, table.headers)
+      if (mappingErrors.length > 0) {
+        await supabase.from('price_list_rows').delete().eq('upload_id', uploadId)
+        await updateUpload(uploadId, {
+          ...layout,
+          status: 'ready',
+          file_type: fileType,
+          mapping_template_id: template?.id || null,
+          total_rows: table.rows.length,
+          processed_rows: 0,
+          summary: null,
+          error_message: `Column mapping incomplete: ${mappingErrors.join('; ')}`,
+          processed_at: new Date().toISOString()
+        })
+        return getUpload(uploadId)
+      }
+
+      rows = applyColumnMapping(table, mapping, table.header_row + 1)
+    }
+
+    const catalogue = await fetchCatalogue(upload.supplier_id)
+    const { records, missing } = await diffRows(rows, catalogue, {
+      instruction: upload.instruction || 'retail',
+      currency: options.currency || template?.currency || BASE_CURRENCY
+    })
+
+    await supabase.from('price_list_rows').delete().eq('upload_id', uploadId)
+    for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('price_list_rows')
+        .insert(records.slice(i, i + INSERT_BATCH_SIZE).map(record => ({ ...record, upload_id: uploadId })))
+
+      if (error) {
+        throw new Error(`Failed to save price list rows: ${error.message}`)
+      }
+    }
+
+    const count = (type: PriceListChangeType) => records.filter(r => r.change_type === type).length
+    const summary: PriceListSummary = {
+      new: count('new'),
+      changed: count('changed'),
+      unchanged: count('unchanged'),
+      invalid: count('invalid'),
+      missing
+    }
+
+    await updateUpload(uploadId, {
+      ...layout,
+      status: 'ready',
+      file_type: fileType,
+      mapping_template_id: template?.id || null,
+      total_rows: records.length,
+      processed_rows: records.length - summary.invalid,
+      summary,
+      error_message: null,
+      processed_at: new Date().toISOString()
+    })
+
+    console.log(`[PRICE LISTS] ${upload.filename}: ${summary.new} new, ${summary.changed} changed, ${summary.unchanged} unchanged, ${summary.invalid} invalid`)
+    return getUpload(uploadId)
+  } catch (error: any) {
+    await updateUpload(uploadId, { status: 'failed', error_message: error.message })
+    throw error
+  }
+}
+
+/**
+ * An upload with its parsed rows - changes first
+ */
+export async function getPreview(uploadId: string): Promise<{
+  upload: PriceListUpload
+  rows: PriceListRowRecord[]
+  templates: PriceListMappingTemplate[]
+}> {
+  const upload = await getUpload(uploadId)
+
+  const { data: rows, error } = await supabase
+    .from('price_list_rows')
+    .select('*')
+    .eq('upload_id', uploadId)
+    .order('row_number', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch price list rows: ${error.message}`)
+  }
+
+  const order: Record<PriceListChangeType, number> = { changed: 0, new: 1, invalid: 2, unchanged: 3 }
+  const sorted = (rows || []).sort((a, b) => order[a.change_type as PriceListChangeType] - order[b.change_type as PriceListChangeType])
+
+  return {
+    upload,
+    rows: sorted,
+    templates: upload.supplier_id ? await listMappingTemplates(upload.supplier_id) : []
+  }
+}
+
+/**
+ * Tick or untick preview rows for the commit
+ */
+export async function setRowsIncluded(uploadId: string, rowIds: string[], included: boolean): Promise<number> {
+  const upload = await getUpload(uploadId)
+  if (upload.status !== 'ready') {
+    throw new Error(`Invalid price list: ${upload.status} uploads cannot be changed`)
+  }
+
+  const { data, error } = await supabase
+    .from('price_list_rows')
+    .update({ included })
+    .eq('upload_id', uploadId)
+    .in('id', rowIds)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to update price list rows: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+// ============================================
+// Commit
+// ============================================
+
+/**
+ * The selling price for a supplier price, as the import page describes:
+ * retail prices as they are, cost prices (excl VAT) plus VAT and markup
+ */
+export function getSellingPrice(
+  supplierPrice: number,
+  instruction: PriceListInstruction,
+  markupPct: number
+): number {
+  if (instruction === 'retail') return supplierPrice
+  return round2(supplierPrice * (1 + VAT_RATE) * (1 + markupPct / 100))
+}
+
+/**
+ * Apply the ticked rows of a previewed price list: new products are added to
+ * the supplier's catalogue, changed prices are updated there and queued for
+ * review on /stock/pending. A mapping that worked is saved as the supplier's
+ * Default template when they had none.
+ */
+export async function commitUpload(uploadId: string, committedBy: string): Promise<PriceListUpload> {
+  const upload = await getUpload(uploadId)
+
+  if (upload.status !== 'ready' || !upload.summary) {
+    throw new Error(`Invalid price list: ${upload.status === 'ready' ? 'fix the column mapping first' : `${upload.status} uploads cannot be committed`}`)
+  }
+
+  // Claim the upload so a double click does not commit it twice
+  const { data: claimed } = await supabase
+    .from('price_list_uploads')
+    .update({ status: 'processing', updated_at: new Date().toISOString() })
+    .eq('id', uploadId)
+    .eq('status', 'ready')
+    .select('id')
+
+  if (!claimed?.length) {
+    throw new Error('Invalid price list: already being committed')
+  }
+
+  try {
+    const { data: rows, error } = await supabase
+      .from('price_list_rows')
+      .select('*')
+      .eq('upload_id', uploadId)
+      .eq('included', true)
+      .in('change_type', ['new', 'changed'])
+
+    if (error) {
+      throw new Error(`Failed to fetch price list rows: ${error.message}`)
+    }
+
+    const catalogue = new Map((await fetchCatalogue(upload.supplier_id!)).map(product => [product.id, product]))
+    const instruction = upload.instruction || 'retail'
+    const now = new Date().toISOString()
+    let added = 0
+    let updated = 0
+    let queued = 0
+
+    const newRows = (rows || []).filter((row: PriceListRowRecord) => row.change_type === 'new')
+    for (let i = 0; i < newRows.length; i += INSERT_BATCH_SIZE) {
+      const { error: insertError } = await supabase
+        .from('supplier_products')
+        .insert(newRows.slice(i, i + INSERT_BATCH_SIZE).map((row: PriceListRowRecord) => ({
+          supplier_id: upload.supplier_id,
+          product_name: row.product_name || row.sku,
+          manufacturer: row.manufacturer,
+          product_category: row.category,
+          model_number: row.sku,
+          supplier_sku: row.sku,
+          normalized_sku: row.normalized_sku,
+          last_quoted_price: row.supplier_price,
+          last_quoted_date: now
+        })))
+
+      if (insertError) {
+        throw new Error(`Failed to add supplier products: ${insertError.message}`)
+      }
+      added += Math.min(INSERT_BATCH_SIZE, newRows.length - i)
+    }
+
+    for (const row of (rows || []).filter((r: PriceListRowRecord) => r.change_type === 'changed')) {
+      const product = catalogue.get(row.supplier_product_id)
+      if (!product) continue
+
+      await supabase
+        .from('supplier_products')
+        .update({
+          last_quoted_price: row.supplier_price,
+          last_quoted_date: now,
+          ...(row.sku ? { supplier_sku: row.sku, normalized_sku: row.normalized_sku } : {}),
+          updated_at: now
+        })
+        .eq('id', product.id)
+      updated++
+
+      if (row.previous_price == null) continue
+
+      const markup = upload.markup_pct ?? product.custom_markup_percentage ?? product.avg_markup_percentage ?? DEFAULT_MARKUP_PCT
+      const currentPrice = getSellingPrice(Number(row.previous_price), instruction, Number(markup))
+      const newPrice = getSellingPrice(Number(row.supplier_price), instruction, Number(markup))
+
+      const { error: queueError } = await supabase
+        .from('price_change_queue')
+        .insert({
+          sku: row.sku,
+          product_name: row.product_name || product.product_name,
+          current_price: currentPrice,
+          new_price: newPrice,
+          price_change_pct: row.price_change_pct ?? 0,
+          supplier_name: upload.supplier_name,
+          status: 'pending',
+          supplier_id: upload.supplier_id,
+          supplier_product_id: product.id,
+          price_list_upload_id: uploadId,
+          current_cost: row.previous_price,
+          new_cost: row.supplier_price
+        })
+
+      if (queueError) {
+        console.error(`[PRICE LISTS] Failed to queue price change for ${row.sku || row.product_name}:`, queueError)
+        continue
+      }
+      queued++
+    }
+
+    if (!upload.mapping_template_id && upload.column_mapping && upload.file_type !== 'pdf') {
+      const templates = await listMappingTemplates(upload.supplier_id!)
+      if (templates.length === 0) {
+        await saveMappingTemplate({
+          supplierId: upload.supplier_id!,
+          name: 'Default',
+          columnMapping: upload.column_mapping,
+          headerRow: upload.header_row,
+          createdBy: committedBy
+        }).catch(err => console.error('[PRICE LISTS] Failed to save mapping template:', err))
+      }
+    }
+
+    await updateUpload(uploadId, {
+      status: 'completed',
+      summary: { ...upload.summary, committed: { added, updated, queued } },
+      committed_at: now,
+      committed_by: committedBy
+    })
+
+    await logToSquadMessages(
+      'SupplierAgent',
+      `📥 Price list ${upload.filename} from ${upload.supplier_name} committed by ${committedBy}: ${added} new products, ${updated} prices updated, ${queued} changes queued for review`,
+      { upload_id: uploadId, supplier_id: upload.supplier_id, added, updated, queued }
+    )
+
+    return getUpload(uploadId)
+  } catch (error: any) {
+    await updateUpload(uploadId, { status: 'ready', error_message: error.message })
+    throw error
+  }
+}
+
+export const priceListIngestion = {
+  listMappingTemplates,
+  saveMappingTemplate,
+  deleteMappingTemplate,
+  processUpload,
+  getPreview,
+  setRowsIncluded,
+  getSellingPrice,
+  commitUpload
+}
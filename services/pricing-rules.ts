@@ -0,0 +1,465 @@
+/**
+ * Pricing Rule Engine
+ *
+ * Prices a line from its cost with the stored pricing_rules. Used by the Quote
+ * Agent for customer quotes and the Marketing Agent for reseller price lists.
+ * Of the rules matching a line (channel, customer tier, category, brand,
+ * supplier, volume break) the highest-priority one sets the markup - the most
+ * specific wins a tie - and the highest margin floor of all matching rules is
+ * enforced. Without a matching markup rule the caller's own markup is used
+ * (intelligent pricing for quotes). Rule changes can be simulated against the
+ * last 90 days of quote outcomes before they are saved.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { QuoteLineItem } from '@/services/quote-versions'
+
+export type PricingChannel = 'quote' | 'reseller'
+
+export interface PricingRule {
+  id: string
+  rule_name: string
+  channel: PricingChannel | 'all'
+  priority: number
+  customer_tier: string | null
+  product_category: string | null
+  brand: string | null
+  supplier_id: string | null
+  /** Volume break: applies from this quantity per line */
+  min_quantity: number | null
+  markup_percentage: number | null
+  /** Margin floor, % of the selling price */
+  min_margin: number | null
+  max_discount: number | null
+  active: boolean
+  conditions: Record<string, any>
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PricingRuleInput = Partial<Omit<PricingRule, 'id' | 'created_at' | 'updated_at'>>
+
+export interface PricingContext {
+  channel: PricingChannel
+  productName: string
+  category?: string | null
+  brand?: string | null
+  supplierId?: string | null
+  /** Quote customer segment or reseller discount tier */
+  customerTier?: string | null
+  quantity: number
+  costPrice: number
+}
+
+export interface PricedLine {
+  unit_price: number
+  markup_percentage: number
+  margin_percentage: number
+  /** The rule that set the markup - null when the caller's markup was used */
+  rule_id: string | null
+  rule_name: string | null
+  margin_floor: number | null
+  floor_applied: boolean
+}
+
+export interface PricingSimulation {
+  days: number
+  quotes: Array<{
+    quote_outcome_id: string
+    quote_number: string
+    outcome: string
+    customer_segment: string | null
+    outcome_date: string
+    quoted_subtotal: number
+    current_subtotal: number
+    proposed_subtotal: number
+    cost: number
+    changed_lines: number
+  }>
+  summary: {
+    quotes: number
+    quotes_changed: number
+    lines_changed: number
+    quoted_revenue: number
+    current_revenue: number
+    proposed_revenue: number
+    current_profit: number
+    proposed_profit: number
+    /** Revenue and profit of the accepted quotes only */
+    accepted_current_revenue: number
+    accepted_proposed_revenue: number
+    accepted_current_profit: number
+    accepted_proposed_profit: number
+  }
+}
+
+const CHANNELS: PricingRule['channel'][] = ['all', 'quote', 'reseller']
+const SIMULATION_DAYS = 90
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Product category from its name (audio, visual, cables, lighting,
+ * control_systems or general)
+ */
+export function categorizeProduct(productName: string): string {
+  const lower = productName.toLowerCase()
+
+  if (lower.includes('speaker') || lower.includes('amplifier') || lower.includes('mixer') ||
+      lower.includes('microphone') || lower.includes('audio') || lower.includes('sound')) {
+    return 'audio'
+  }
+
+  if (lower.includes('projector') || lower.includes('screen') || lower.includes('display') ||
+      lower.includes('monitor') || lower.includes('video') || lower.includes('led') ||
+      lower.includes('visual')) {
+    return 'visual'
+  }
+
+  if (lower.includes('cable') || lower.includes('connector') || lower.includes('adapter') ||
+      lower.includes('mount') || lower.includes('bracket') || lower.includes('stand')) {
+    return 'cables'
+  }
+
+  if (lower.includes('light') || lower.includes('lighting') || lower.includes('lamp')) {
+    return 'lighting'
+  }
+
+  if (lower.includes('control') || lower.includes('processor') || lower.includes('switcher')) {
+    return 'control_systems'
+  }
+
+  return 'general'
+}
+
+const matchesText = (value: string | null | undefined, expected: string) =>
+  !!value && value.toLowerCase() === expected.toLowerCase()
+
+export function ruleMatches(rule: PricingRule, context: PricingContext): boolean {
+  if (!rule.active) return false
+  if (rule.channel !== 'all' && rule.channel !== context.channel) return false
+  if (rule.customer_tier && !matchesText(context.customerTier, rule.customer_tier)) return false
+  if (rule.supplier_id && rule.supplier_id !== context.supplierId) return false
+  if (rule.min_quantity && context.quantity < rule.min_quantity) return false
+
+  const productName = context.productName.toLowerCase()
+  if (rule.product_category
+    && !matchesText(context.category, rule.product_category)
+    && !productName.includes(rule.product_category.toLowerCase())) {
+    return false
+  }
+  if (rule.brand
+    && !matchesText(context.brand, rule.brand)
+    && !productName.includes(rule.brand.toLowerCase())) {
+    return false
+  }
+
+  return true
+}
+
+function specificity(rule: PricingRule): number {
+  return [rule.customer_tier, rule.product_category, rule.brand, rule.supplier_id, rule.min_quantity]
+    .filter(value => value != null && value !== '').length
+}
+
+/**
+ * Price one line. `fallbackMarkup` applies when no matching rule sets a markup.
+ */
+export function priceLine(context: PricingContext, rules: PricingRule[], fallbackMarkup: number): PricedLine {
+  const matching = rules.filter(rule => ruleMatches(rule, context))
+
+  const markupRule = matching
+    .filter(rule => rule.markup_percentage != null)
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      specificity(b) - specificity(a) ||
+      (b.min_quantity || 0) - (a.min_quantity || 0)
+    )[0]
+
+  let markup = markupRule ? Number(markupRule.markup_percentage) : fallbackMarkup
+
+  const floors = matching.filter(rule => rule.min_margin != null).map(rule => Number(rule.min_margin))
+  const marginFloor = floors.length > 0 ? Math.max(...floors) : null
+
+  // A margin of m% on the selling price needs a markup of m / (100 - m) on cost
+  let floorApplied = false
+  if (marginFloor != null && marginFloor < 100) {
+    const floorMarkup = (marginFloor / (100 - marginFloor)) * 100
+    if (markup < floorMarkup) {
+      markup = floorMarkup
+      floorApplied = true
+    }
+  }
+
+  markup = round2(markup)
+
+  return {
+    unit_price: round2(context.costPrice * (1 + markup / 100)),
+    markup_percentage: markup,
+    margin_percentage: round2((markup / (100 + markup)) * 100),
+    rule_id: markupRule?.id || null,
+    rule_name: markupRule?.rule_name || null,
+    margin_floor: marginFloor,
+    floor_applied: floorApplied
+  }
+}
+
+/**
+ * Validate a rule before saving. Returns a list of problems.
+ */
+export function validatePricingRule(input: PricingRuleInput, partial: boolean = false): string[] {
+  const errors: string[] = []
+
+  if (!partial || input.rule_name !== undefined) {
+    if (!input.rule_name || !input.rule_name.trim()) errors.push('rule_name is required')
+  }
+  if (input.channel !== undefined && !CHANNELS.includes(input.channel)) {
+    errors.push(`channel must be one of ${CHANNELS.join(', ')}`)
+  }
+  if (!partial && input.markup_percentage == null && input.min_margin == null) {
+    errors.push('a rule needs a markup_percentage or a min_margin')
+  }
+  if (input.markup_percentage != null && (typeof input.markup_percentage !== 'number' || input.markup_percentage < 0)) {
+    errors.push('markup_percentage must be a non-negative number')
+  }
+  if (input.min_margin != null && (typeof input.min_margin !== 'number' || input.min_margin < 0 || input.min_margin >= 100)) {
+    errors.push('min_margin must be between 0 and 100')
+  }
+  if (input.min_quantity != null && (!Number.isInteger(input.min_quantity) || input.min_quantity < 1)) {
+    errors.push('min_quantity must be a positive integer')
+  }
+  if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+    errors.push('priority must be an integer')
+  }
+
+  return errors
+}
+
+/**
+ * Rules, highest priority first. Only active rules for the channel unless
+ * `includeInactive` is set (settings page).
+ */
+export async function listPricingRules(filter: { channel?: PricingChannel; includeInactive?: boolean } = {}): Promise<PricingRule[]> {
+  let query = supabase
+    .from('pricing_rules')
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (filter.channel) query = query.in('channel', ['all', filter.channel])
+  if (!filter.includeInactive) query = query.eq('active', true)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load pricing rules: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createPricingRule(input: PricingRuleInput, updatedBy: string): Promise<PricingRule> {
+  const errors = validatePricingRule(input)
+  if (errors.length > 0) {
+    throw new Error(`Invalid pricing rule: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('pricing_rules')
+    .insert({ ...input, updated_by: updatedBy })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create pricing rule: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updatePricingRule(id: string, input: PricingRuleInput, updatedBy: string): Promise<PricingRule> {
+  const errors = validatePricingRule(input, true)
+  if (errors.length > 0) {
+    throw new Error(`Invalid pricing rule: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('pricing_rules')
+    .update({ ...input, updated_by: updatedBy, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update pricing rule: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deletePricingRule(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('pricing_rules')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete pricing rule: ${error.message}`)
+  }
+}
+
+/**
+ * Reprice the quote outcomes of the last `days` days with the current rules
+ * and with a proposed change: a new or edited rule (`rule`, edited when it has
+ * an id) or a removed one (`removeRuleId`). Lines keep the markup they were
+ * quoted with unless a rule sets one; lines without a cost price are left as
+ * quoted.
+ */
+export async function simulateRuleChange(change: {
+  rule?: PricingRuleInput & { id?: string }
+  removeRuleId?: string
+  days?: number
+}): Promise<PricingSimulation> {
+  const days = change.days || SIMULATION_DAYS
+
+  if (change.rule) {
+    const errors = validatePricingRule(change.rule, !!change.rule.id)
+    if (errors.length > 0) {
+      throw new Error(`Invalid pricing rule: ${errors.join('; ')}`)
+    }
+  }
+
+  const currentRules = await listPricingRules({ channel: 'quote', includeInactive: true })
+
+  let proposedRules = currentRules.filter(rule => rule.id !== change.removeRuleId)
+  if (change.rule) {
+    const existing = change.rule.id ? proposedRules.find(rule => rule.id === change.rule!.id) : undefined
+    if (change.rule.id && !existing) {
+      throw new Error('Pricing rule not found')
+    }
+    const proposed = {
+      channel: 'all',
+      priority: 0,
+      active: true,
+      conditions: {},
+      ...existing,
+      ...change.rule,
+      id: existing?.id || 'proposed'
+    } as PricingRule
+    proposedRules = [...proposedRules.filter(rule => rule.id !== proposed.id), proposed]
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+  const { data: outcomes, error } = await supabase
+    .from('quote_outcomes')
+    .select('id, quote_number, outcome, customer_segment, items, outcome_date')
+    .gte('outcome_date', since)
+    .order('outcome_date', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load quote outcomes: ${error.message}`)
+  }
+
+  // Supplier rules match on supplier id; older lines only know the supplier response
+  const responseIds = Array.from(new Set((outcomes || []).flatMap(outcome =>
+    ((outcome.items || []) as QuoteLineItem[]).map(item => item.supplier_response_id).filter(Boolean)
+  ))) as string[]
+  const { data: responses } = responseIds.length > 0
+    ? await supabase.from('email_supplier_interactions').select('id, supplier_id').in('id', responseIds)
+    : { data: [] as Array<{ id: string; supplier_id: string }> }
+  const supplierByResponse = new Map((responses || []).map(response => [response.id, response.supplier_id]))
+
+  const quotes: PricingSimulation['quotes'] = []
+
+  for (const outcome of outcomes || []) {
+    let quoted = 0
+    let current = 0
+    let proposed = 0
+    let cost = 0
+    let changedLines = 0
+
+    for (const item of (outcome.items || []) as QuoteLineItem[]) {
+      const quantity = Number(item.quantity) || 1
+      const quotedTotal = Number(item.total_price) || 0
+      const costPrice = Number(item.cost_price) || 0
+      quoted += quotedTotal
+
+      if (costPrice <= 0) {
+        current += quotedTotal
+        proposed += quotedTotal
+        cost += quotedTotal
+        continue
+      }
+
+      const context: PricingContext = {
+        channel: 'quote',
+        productName: item.product_name,
+        category: categorizeProduct(item.product_name),
+        supplierId: item.supplier_response_id ? supplierByResponse.get(item.supplier_response_id) : null,
+        customerTier: outcome.customer_segment,
+        quantity,
+        costPrice
+      }
+      const quotedMarkup = item.markup_percentage != null
+        ? Number(item.markup_percentage)
+        : (Number(item.unit_price) / costPrice - 1) * 100
+
+      const currentLine = priceLine(context, currentRules, quotedMarkup)
+      const proposedLine = priceLine(context, proposedRules, quotedMarkup)
+
+      current += currentLine.unit_price * quantity
+      proposed += proposedLine.unit_price * quantity
+      cost += costPrice * quantity
+      if (currentLine.unit_price !== proposedLine.unit_price) changedLines++
+    }
+
+    quotes.push({
+      quote_outcome_id: outcome.id,
+      quote_number: outcome.quote_number,
+      outcome: outcome.outcome,
+      customer_segment: outcome.customer_segment,
+      outcome_date: outcome.outcome_date,
+      quoted_subtotal: round2(quoted),
+      current_subtotal: round2(current),
+      proposed_subtotal: round2(proposed),
+      cost: round2(cost),
+      changed_lines: changedLines
+    })
+  }
+
+  const sum = (rows: PricingSimulation['quotes'], value: (row: PricingSimulation['quotes'][number]) => number) =>
+    round2(rows.reduce((total, row) => total + value(row), 0))
+  const accepted = quotes.filter(quote => quote.outcome === 'accepted')
+
+  return {
+    days,
+    quotes,
+    summary: {
+      quotes: quotes.length,
+      quotes_changed: quotes.filter(quote => quote.changed_lines > 0).length,
+      lines_changed: quotes.reduce((total, quote) => total + quote.changed_lines, 0),
+      quoted_revenue: sum(quotes, quote => quote.quoted_subtotal),
+      current_revenue: sum(quotes, quote => quote.current_subtotal),
+      proposed_revenue: sum(quotes, quote => quote.proposed_subtotal),
+      current_profit: sum(quotes, quote => quote.current_subtotal - quote.cost),
+      proposed_profit: sum(quotes, quote => quote.proposed_subtotal - quote.cost),
+      accepted_current_revenue: sum(accepted, quote => quote.current_subtotal),
+      accepted_proposed_revenue: sum(accepted, quote => quote.proposed_subtotal),
+      accepted_current_profit: sum(accepted, quote => quote.current_subtotal - quote.cost),
+      accepted_proposed_profit: sum(accepted, quote => quote.proposed_subtotal - quote.cost)
+    }
+  }
+}
+
+export const pricingRules = {
+  categorizeProduct,
+  ruleMatches,
+  priceLine,
+  validatePricingRule,
+  listPricingRules,
+  createPricingRule,
+  updatePricingRule,
+  deletePricingRule,
+  simulateRuleChange
+}
@@ -0,0 +1,623 @@
+/**
+ * Purchase Orders Service
+ *
+ * Converts an accepted quote into an orders_tracker row and one purchase
+ * order per winning supplier. Items are grouped by the supplier response
+ * their cost price came from; cost and profit come from the quoted cost
+ * price and markup. Each purchase order gets a PDF in the quote layout and is
+ * emailed to the supplier once the send_purchase_orders task is approved.
+ */
+
+import { supabase, type OrderTracker } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { renderBusinessDocumentPdf, uploadDocumentPdf } from '@/lib/pdf-documents'
+import { publishEvent } from '@/services/event-bus'
+import { gmailService } from '@/services/integrations/gmail-service'
+import { getAcceptedQuote } from '@/services/quote-outcomes'
+import type { QuoteLineItem } from '@/services/quote-versions'
+
+const VAT_RATE = 0.15
+
+export type PurchaseOrderStatus = 'pending_approval' | 'sent' | 'cancelled'
+
+export interface PurchaseOrderItem {
+  quote_item_id: string
+  product_name: string
+  description?: string
+  quantity: number
+  /** Supplier cost price per unit, excluding VAT */
+  unit_price: number
+  total_price: number
+}
+
+export interface PurchaseOrder {
+  id: string
+  po_number: string
+  order_no: string
+  quote_request_id: string | null
+  quote_version_id: string | null
+  supplier_id: string | null
+  supplier_name: string
+  supplier_email: string | null
+  supplier_quote_no: string | null
+  items: PurchaseOrderItem[]
+  subtotal: number
+  tax: number
+  total: number
+  currency: string
+  pdf_url: string | null
+  status: PurchaseOrderStatus
+  approved_by: string | null
+  sent_at: string | null
+  gmail_message_id: string | null
+  metadata: Record<string, any>
+  created_at: string
+  updated_at: string
+}
+
+export interface OrderConversion {
+  order_no: string
+  order: OrderTracker | null
+  purchase_orders: PurchaseOrder[]
+  /** Quote items no supplier could be found for - they have to be ordered by hand */
+  unassigned_items: string[]
+  approval_task_id: string | null
+  already_converted: boolean
+}
+
+interface SupplierGroup {
+  supplier_id: string | null
+  supplier_name: string
+  supplier_email: string | null
+  supplier_quote_no: string | null
+  /** The currency the supplier quoted in */
+  currency: string
+  items: PurchaseOrderItem[]
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Supplier cost per unit: the recorded cost price, else the selling price
+ * with the markup taken off. Without either the item is costed at its selling
+ * price, so it never inflates the profit.
+ */
+export function unitCost(item: QuoteLineItem): number {
+  if (item.cost_price != null) return Number(item.cost_price)
+  if (item.markup_percentage != null) {
+    return roundMoney(Number(item.unit_price) / (1 + Number(item.markup_percentage) / 100))
+  }
+  return Number(item.unit_price)
+}
+
+/**
+ * Cost per unit in the currency the supplier quoted, for their purchase order
+ */
+function supplierUnitCost(item: QuoteLineItem): { currency: string; unitPrice: number } {
+  if (item.cost_currency && item.cost_currency !== 'ZAR' && item.cost_price_original != null) {
+    return { currency: item.cost_currency, unitPrice: Number(item.cost_price_original) }
+  }
+  return { currency: 'ZAR', unitPrice: unitCost(item) }
+}
+
+/**
+ * AUD-Q-20250101-1234 -> AUD-O-20250101-1234
+ */
+function toDocumentNumber(quoteNumber: string, prefix: 'O' | 'PO'): string {
+  return /(^|-)Q-/.test(quoteNumber)
+    ? quoteNumber.replace(/(^|-)Q-/, `$1${prefix}-`)
+    : `${prefix}-${quoteNumber}`
+}
+
+/**
+ * Group accepted items by the supplier whose quote their cost price came from,
+ * and by the currency they quoted in
+ */
+async function groupItemsBySupplier(items: QuoteLineItem[]): Promise<{ groups: SupplierGroup[]; unassigned: QuoteLineItem[] }> {
+  const responseIds = Array.from(new Set(items.map(item => item.supplier_response_id).filter(Boolean))) as string[]
+
+  const { data: responses } = responseIds.length > 0
+    ? await supabase
+        .from('email_supplier_interactions')
+        .select('id, pricing_data, supplier:suppliers(id, name, company, email)')
+        .in('id', responseIds)
+    : { data: [] as any[] }
+
+  const responseById = new Map((responses || []).map((response: any) => [response.id, response]))
+
+  // Older quotes only carry the supplier company name
+  const companies = Array.from(new Set(
+    items.filter(item => !item.supplier_response_id && item.supplier).map(item => item.supplier as string)
+  ))
+  const { data: suppliersByCompany } = companies.length > 0
+    ? await supabase.from('suppliers').select('id, name, company, email').in('company', companies).is('merged_into_id', null)
+    : { data: [] as any[] }
+
+  const groups = new Map<string, SupplierGroup>()
+  const unassigned: QuoteLineItem[] = []
+
+  for (const item of items) {
+    const response: any = item.supplier_response_id ? responseById.get(item.supplier_response_id) : null
+    const supplier = response?.supplier || (suppliersByCompany || []).find((s: any) => s.company === item.supplier)
+
+    if (!supplier) {
+      unassigned.push(item)
+      continue
+    }
+
+    const cost = supplierUnitCost(item)
+    const groupKey = `${supplier.id}:${cost.currency}`
+
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, {
+        supplier_id: supplier.id,
+        supplier_name: supplier.company || supplier.name,
+        supplier_email: supplier.email || null,
+        supplier_quote_no: response?.pricing_data?.metadata?.quote_reference || null,
+        currency: cost.currency,
+        items: []
+      })
+    }
+
+    const group = groups.get(groupKey)!
+    if (!group.supplier_quote_no && response?.pricing_data?.metadata?.quote_reference) {
+      group.supplier_quote_no = response.pricing_data.metadata.quote_reference
+    }
+
+    group.items.push({
+      quote_item_id: item.id,
+      product_name: item.product_name,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: cost.unitPrice,
+      total_price: roundMoney(cost.unitPrice * item.quantity)
+    })
+  }
+
+  return { groups: Array.from(groups.values()), unassigned }
+}
+
+async function renderPurchaseOrderPdf(
+  poNumber: string,
+  group: SupplierGroup,
+  totals: { subtotal: number; tax: number; total: number },
+  orderNo: string
+): Promise<string | null> {
+  const pdfBuffer = renderBusinessDocumentPdf({
+    title: 'PURCHASE ORDER',
+    number: poNumber,
+    headerLines: [
+      `Our Order: ${orderNo}`,
+      ...(group.supplier_quote_no ? [`Your Quote: ${group.supplier_quote_no}`] : [])
+    ],
+    partyLabel: 'Supplier:',
+    party: {
+      name: group.supplier_name,
+      email: group.supplier_email || undefined
+    },
+    items: group.items,
+    subtotal: totals.subtotal,
+    tax: totals.tax,
+    total: totals.total,
+    currency: group.currency,
+    notes: `Please quote ${poNumber} on your invoice and delivery note.`,
+    terms: 'Prices as per your quote. Please confirm stock availability and expected delivery date on receipt of this order.',
+    contactLine: 'For any questions regarding this order, please contact us at sales@audico.co.za'
+  })
+
+  return uploadDocumentPdf(pdfBuffer, `purchase-orders/${poNumber}.pdf`)
+}
+
+/**
+ * Create the orders_tracker row and supplier purchase orders for an accepted
+ * quote, plus the approval task that sends the purchase orders. Runs once per
+ * quote request - later calls return the existing conversion.
+ */
+export async function convertQuoteToOrder(input: {
+  quoteRequestId: string
+  convertedBy: string
+}): Promise<OrderConversion> {
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('*')
+    .eq('id', input.quoteRequestId)
+    .maybeSingle()
+
+  if (!quoteRequest) {
+    throw new Error('Quote request not found')
+  }
+
+  if (quoteRequest.order_no) {
+    return getOrderConversion(quoteRequest.order_no)
+  }
+
+  const accepted = await getAcceptedQuote(input.quoteRequestId)
+  if (!accepted) {
+    throw new Error('Invalid conversion: quote has not been accepted')
+  }
+
+  const { outcome, items, version } = accepted
+  if (items.length === 0) {
+    throw new Error('Invalid conversion: accepted quote has no items')
+  }
+
+  const quoteNumber: string = outcome.quote_number
+  const orderNo = toDocumentNumber(quoteNumber, 'O')
+  const currency = version?.currency || 'ZAR'
+  const shipping = Number(version?.shipping || 0)
+
+  // Claim the conversion first so a redelivered event cannot create a second order
+  const { data: claimed } = await supabase
+    .from('quote_requests')
+    .update({ order_no: orderNo })
+    .eq('id', input.quoteRequestId)
+    .is('order_no', null)
+    .select('id')
+
+  if (!claimed || claimed.length === 0) {
+    return getOrderConversion(orderNo)
+  }
+
+  try {
+    // Bundle discount lines lower the selling price but are nothing to order
+    const orderedItems = items.filter(item => !item.bundle_id)
+    const { groups, unassigned } = await groupItemsBySupplier(orderedItems)
+
+    await supabase
+      .from('quote_requests')
+      .update({
+        metadata: {
+          ...quoteRequest.metadata,
+          unassigned_order_items: unassigned.map(item => item.product_name)
+        }
+      })
+      .eq('id', input.quoteRequestId)
+
+    const sellingSubtotal = roundMoney(items.reduce((sum, item) => sum + Number(item.total_price), 0))
+    const costTotal = roundMoney(orderedItems.reduce((sum, item) => sum + unitCost(item) * item.quantity, 0))
+    const profit = roundMoney(sellingSubtotal - costTotal)
+
+    const supplierQuoteNos = groups.map(group => group.supplier_quote_no).filter(Boolean)
+
+    const { error: orderError } = await supabase
+      .from('orders_tracker')
+      .upsert({
+        order_no: orderNo,
+        order_name: quoteRequest.customer_name,
+        supplier: groups.map(group => group.supplier_name).join(', ') || null,
+        notes: orderedItems.map(item => `${item.quantity}x ${item.product_name}`).join('; '),
+        cost: costTotal,
+        order_paid: false,
+        supplier_quote_no: supplierQuoteNos.join(', ') || null,
+        supplier_status: 'Drafted',
+        shipping: shipping || null,
+        profit,
+        updates: `Created from accepted quote ${quoteNumber}` +
+                 (unassigned.length > 0 ? `. No supplier for: ${unassigned.map(item => item.product_name).join(', ')}` : ''),
+        flag_done: false,
+        flag_urgent: quoteRequest.urgency_level === 'urgent',
+        source: 'quote',
+        last_modified_by: input.convertedBy
+      }, { onConflict: 'order_no' })
+
+    if (orderError) {
+      throw new Error(`Failed to create order: ${orderError.message}`)
+    }
+
+    const poBase = toDocumentNumber(quoteNumber, 'PO')
+    const purchaseOrders: PurchaseOrder[] = []
+
+    for (const [index, group] of groups.entries()) {
+      const poNumber = groups.length > 1 ? `${poBase}-${index + 1}` : poBase
+      const subtotal = roundMoney(group.items.reduce((sum, item) => sum + item.total_price, 0))
+      const tax = roundMoney(subtotal * VAT_RATE)
+      const totals = { subtotal, tax, total: roundMoney(subtotal + tax) }
+
+      const pdfUrl = await renderPurchaseOrderPdf(poNumber, group, totals, orderNo)
+
+      const { data: purchaseOrder, error } = await supabase
+        .from('purchase_orders')
+        .upsert({
+          po_number: poNumber,
+          order_no: orderNo,
+          quote_request_id: input.quoteRequestId,
+          quote_version_id: outcome.quote_version_id || null,
+          supplier_id: group.supplier_id,
+          supplier_name: group.supplier_name,
+          supplier_email: group.supplier_email,
+          supplier_quote_no: group.supplier_quote_no,
+          items: group.items,
+          ...totals,
+          currency: group.currency,
+          pdf_url: pdfUrl,
+          status: 'pending_approval',
+          metadata: {
+            quote_number: quoteNumber,
+            quote_outcome_id: outcome.id,
+            created_by: input.convertedBy
+          },
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'po_number' })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create purchase order ${poNumber}: ${error.message}`)
+      }
+
+      purchaseOrders.push(purchaseOrder)
+    }
+
+    const approvalTaskId = purchaseOrders.length > 0
+      ? await createSendApprovalTask(orderNo, quoteRequest, purchaseOrders, unassigned)
+      : null
+
+    await logToSquadMessages(
+      'QuoteAgent',
+      `📦 Order ${orderNo} created from accepted quote ${quoteNumber}: ${purchaseOrders.length} purchase order(s), ` +
+      `cost ${currency} ${costTotal.toFixed(2)}, profit ${currency} ${profit.toFixed(2)}` +
+      (unassigned.length > 0 ? ` - ${unassigned.length} item(s) need a supplier` : ''),
+      {
+        order_no: orderNo,
+        quote_request_id: input.quoteRequestId,
+        quote_number: quoteNumber,
+        purchase_order_ids: purchaseOrders.map(po => po.id),
+        unassigned_items: unassigned.map(item => item.product_name),
+        approval_task_id: approvalTaskId
+      }
+    )
+
+    await publishEvent(
+      'order.created',
+      {
+        orderNo,
+        quoteRequestId: input.quoteRequestId,
+        quoteNumber,
+        purchaseOrderIds: purchaseOrders.map(po => po.id),
+        cost: costTotal,
+        profit
+      },
+      { source: 'QuoteAgent', correlationId: input.quoteRequestId }
+    ).catch(err => console.error('Failed to publish order.created:', err))
+
+    const { data: order } = await supabase
+      .from('orders_tracker')
+      .select('*')
+      .eq('order_no', orderNo)
+      .maybeSingle()
+
+    return {
+      order_no: orderNo,
+      order,
+      purchase_orders: purchaseOrders,
+      unassigned_items: unassigned.map(item => item.product_name),
+      approval_task_id: approvalTaskId,
+      already_converted: false
+    }
+  } catch (error) {
+    // Release the claim so the conversion can be retried
+    await supabase
+      .from('quote_requests')
+      .update({ order_no: null })
+      .eq('id', input.quoteRequestId)
+      .eq('order_no', orderNo)
+    throw error
+  }
+}
+
+async function createSendApprovalTask(
+  orderNo: string,
+  quoteRequest: any,
+  purchaseOrders: PurchaseOrder[],
+  unassigned: QuoteLineItem[]
+): Promise<string | null> {
+  const poLines = purchaseOrders.map(po =>
+    `- ${po.po_number}: ${po.supplier_name} <${po.supplier_email || 'no email'}> - ${po.currency} ${Number(po.total).toFixed(2)} incl. VAT`
+  ).join('\n')
+
+  const { data: task, error } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Send purchase orders for order ${orderNo} (${quoteRequest.customer_name})`,
+      description: `Quote accepted by ${quoteRequest.customer_name}. Purchase orders are ready to email to the suppliers.
+
+**Purchase Orders:**
+${poLines}
+${unassigned.length > 0 ? `\n**No supplier found (order manually):**\n${unassigned.map(item => `- ${item.quantity}x ${item.product_name}`).join('\n')}\n` : ''}
+**Actions Required:**
+1. Check the purchase order PDFs
+2. Approve to email them to the suppliers`,
+      status: 'new',
+      assigned_agent: 'SupplierAgent',
+      priority: 'high',
+      mentions_kenny: true,
+      requires_approval: true,
+      deliverable_url: purchaseOrders[0]?.pdf_url || null,
+      metadata: {
+        order_no: orderNo,
+        quote_request_id: quoteRequest.id,
+        purchase_order_ids: purchaseOrders.map(po => po.id),
+        customer_name: quoteRequest.customer_name,
+        action_required: 'send_purchase_orders'
+      }
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('[PURCHASE ORDERS] Failed to create approval task:', error)
+    return null
+  }
+
+  return task.id
+}
+
+function buildPurchaseOrderEmailBody(po: PurchaseOrder): string {
+  const rows = po.items.map(item =>
+    `<tr><td style="padding: 4px 8px;">${item.product_name}</td><td style="padding: 4px 8px; text-align: center;">${item.quantity}</td><td style="padding: 4px 8px; text-align: right;">${po.currency} ${item.unit_price.toFixed(2)}</td></tr>`
+  ).join('')
+
+  return `<p>Hi ${po.supplier_name},</p>
+<p>Please find attached our purchase order <strong>${po.po_number}</strong>${po.supplier_quote_no ? ` for your quote ${po.supplier_quote_no}` : ''}.</p>
+<table style="border-collapse: collapse; margin: 12px 0;">
+<tr><th style="padding: 4px 8px; text-align: left;">Product</th><th style="padding: 4px 8px;">Qty</th><th style="padding: 4px 8px; text-align: right;">Unit Price</th></tr>
+${rows}
+</table>
+<p><strong>Total: ${po.currency} ${Number(po.total).toFixed(2)} (incl. VAT)</strong></p>
+<p>Please confirm stock availability and the expected delivery date, and quote ${po.po_number} on your invoice.</p>
+<p>Kind regards,<br>Audico</p>`
+}
+
+/**
+ * Email every pending purchase order of an order to its supplier. Sent orders
+ * are skipped, so a retry only sends what failed.
+ */
+export async function sendPurchaseOrders(orderNo: string, approvedBy: string): Promise<{
+  sent: PurchaseOrder[]
+  failed: Array<{ po_number: string; error: string }>
+}> {
+  const { data: pending, error } = await supabase
+    .from('purchase_orders')
+    .select('*')
+    .eq('order_no', orderNo)
+    .eq('status', 'pending_approval')
+    .order('po_number', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load purchase orders: ${error.message}`)
+  }
+
+  const sent: PurchaseOrder[] = []
+  const failed: Array<{ po_number: string; error: string }> = []
+
+  for (const po of (pending || []) as PurchaseOrder[]) {
+    if (!po.supplier_email) {
+      failed.push({ po_number: po.po_number, error: 'Supplier has no email address' })
+      continue
+    }
+
+    const result = await gmailService.sendEmail(
+      po.supplier_email,
+      `Purchase Order ${po.po_number}`,
+      buildPurchaseOrderEmailBody(po),
+      undefined,
+      undefined,
+      po.pdf_url ? [{ filename: `${po.po_number}.pdf`, url: po.pdf_url }] : undefined
+    )
+
+    if (!result.success) {
+      failed.push({ po_number: po.po_number, error: result.error || 'Failed to send email' })
+      continue
+    }
+
+    const { data: updated } = await supabase
+      .from('purchase_orders')
+      .update({
+        status: 'sent',
+        approved_by: approvedBy,
+        sent_at: new Date().toISOString(),
+        gmail_message_id: result.messageId || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', po.id)
+      .select()
+      .single()
+
+    sent.push(updated || po)
+  }
+
+  if (sent.length > 0) {
+    const { data: order } = await supabase
+      .from('orders_tracker')
+      .select('updates')
+      .eq('order_no', orderNo)
+      .maybeSingle()
+
+    await supabase
+      .from('orders_tracker')
+      .update({
+        supplier_status: 'Supplier Ordered',
+        updates: [order?.updates, `Purchase orders sent: ${sent.map(po => po.po_number).join(', ')} (approved by ${approvedBy})`]
+          .filter(Boolean)
+          .join('\n'),
+        last_modified_by: 'SupplierAgent'
+      })
+      .eq('order_no', orderNo)
+
+    await logToSquadMessages(
+      'SupplierAgent',
+      `📤 Purchase orders sent for order ${orderNo}: ${sent.map(po => `${po.po_number} → ${po.supplier_name}`).join(', ')}`,
+      { order_no: orderNo, purchase_order_ids: sent.map(po => po.id), approved_by: approvedBy }
+    )
+  }
+
+  return { sent, failed }
+}
+
+export async function listPurchaseOrders(orderNo: string): Promise<PurchaseOrder[]> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*')
+    .eq('order_no', orderNo)
+    .order('po_number', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load purchase orders: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * The order and purchase orders created from a quote request, or null if the
+ * quote has not been converted
+ */
+export async function getOrderForQuote(quoteRequestId: string): Promise<OrderConversion | null> {
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('id, order_no')
+    .eq('id', quoteRequestId)
+    .maybeSingle()
+
+  if (!quoteRequest) {
+    throw new Error('Quote request not found')
+  }
+
+  return quoteRequest.order_no ? getOrderConversion(quoteRequest.order_no) : null
+}
+
+async function getOrderConversion(orderNo: string): Promise<OrderConversion> {
+  const [{ data: order }, purchaseOrders, { data: tasks }] = await Promise.all([
+    supabase.from('orders_tracker').select('*').eq('order_no', orderNo).maybeSingle(),
+    listPurchaseOrders(orderNo),
+    supabase
+      .from('squad_tasks')
+      .select('id')
+      .eq('metadata->>order_no', orderNo)
+      .eq('metadata->>action_required', 'send_purchase_orders')
+      .order('created_at', { ascending: false })
+      .limit(1)
+  ])
+
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('metadata')
+    .eq('order_no', orderNo)
+    .maybeSingle()
+
+  return {
+    order_no: orderNo,
+    order,
+    purchase_orders: purchaseOrders,
+    unassigned_items: quoteRequest?.metadata?.unassigned_order_items || [],
+    approval_task_id: tasks?.[0]?.id || null,
+    already_converted: true
+  }
+}
+
+export const purchaseOrders = {
+  convertQuoteToOrder,
+  sendPurchaseOrders,
+  listPurchaseOrders,
+  getOrderForQuote
+}
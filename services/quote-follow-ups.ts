@@ -0,0 +1,593 @@
+/**
+ * Quote Follow-ups Service
+ *
+ * Schedules follow-up emails for a sent quote version from the
+ * QUOTE_FOLLOW_UP_CADENCE setting and sends them when due, written by
+ * QuoteTemplateEngine. A sequence stops as soon as the customer replies,
+ * decides in the quote portal or an outcome is recorded, and when the version
+ * is superseded. Sent versions past their Valid Until date are expired; an
+ * expired quote can be re-quoted with fresh supplier prices.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { QuoteTemplateEngine } from '@/lib/quote-template-engine'
+import { gmailService } from '@/services/integrations/gmail-service'
+import { getPortalUrl } from '@/services/quote-portal'
+import type { QuoteVersion } from '@/services/quote-versions'
+
+/** 2 and 5 days after sending, and the day before the quote expires */
+export const DEFAULT_FOLLOW_UP_CADENCE = 'sent+2,sent+5,expiry-1'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type QuoteFollowUpStatus = 'scheduled' | 'sent' | 'cancelled' | 'failed'
+
+export interface FollowUpStep {
+  /** The cadence entry, e.g. sent+2 */
+  step: string
+  anchor: 'sent' | 'expiry'
+  days: number
+}
+
+export interface QuoteFollowUp {
+  id: string
+  quote_request_id: string
+  quote_version_id: string
+  step: string
+  scheduled_for: string
+  status: QuoteFollowUpStatus
+  subject: string | null
+  body: string | null
+  email_send_id: string | null
+  sent_at: string | null
+  cancelled_reason: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Parse a cadence such as "sent+2,sent+5,expiry-1": days after the quote was
+ * sent, or days before it expires
+ */
+export function parseFollowUpCadence(cadence: string): FollowUpStep[] {
+  const steps: FollowUpStep[] = []
+  const errors: string[] = []
+
+  for (const entry of cadence.split(',').map(e => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^(sent)\+(\d+)$|^(expiry)-(\d+)$/)
+    if (!match) {
+      errors.push(`"${entry}" must be sent+N or expiry-N`)
+      continue
+    }
+
+    steps.push(match[1]
+      ? { step: entry, anchor: 'sent', days: parseInt(match[2]) }
+      : { step: entry, anchor: 'expiry', days: parseInt(match[4]) })
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid follow-up cadence: ${errors.join('; ')}`)
+  }
+
+  return steps
+}
+
+function getFollowUpCadence(): FollowUpStep[] {
+  try {
+    return parseFollowUpCadence(process.env.QUOTE_FOLLOW_UP_CADENCE || DEFAULT_FOLLOW_UP_CADENCE)
+  } catch (error: any) {
+    console.error(`[QUOTE FOLLOW-UPS] ${error.message} - using ${DEFAULT_FOLLOW_UP_CADENCE}`)
+    return parseFollowUpCadence(DEFAULT_FOLLOW_UP_CADENCE)
+  }
+}
+
+/**
+ * When each step is due. Steps already in the past, on or after the expiry
+ * date, or within a day of an earlier step are dropped.
+ */
+function planFollowUps(steps: FollowUpStep[], sentAt: string, validUntil: string | null): Array<{ step: string; scheduled_for: Date }> {
+  const now = Date.now()
+  const expiry = validUntil ? new Date(validUntil).getTime() : null
+
+  const planned = steps
+    .filter(step => step.anchor === 'sent' || expiry !== null)
+    .map(step => ({
+      step: step.step,
+      scheduled_for: new Date(step.anchor === 'sent'
+        ? new Date(sentAt).getTime() + step.days * DAY_MS
+        : expiry! - step.days * DAY_MS)
+    }))
+    .filter(p => p.scheduled_for.getTime() > now && (expiry === null || p.scheduled_for.getTime() < expiry))
+    .sort((a, b) => a.scheduled_for.getTime() - b.scheduled_for.getTime())
+
+  return planned.filter((p, idx) =>
+    idx === 0 || p.scheduled_for.getTime() - planned[idx - 1].scheduled_for.getTime() >= DAY_MS
+  )
+}
+
+/**
+ * Start the follow-up sequence for a version that was just sent: record the
+ * quote email (replies are matched against it) and schedule the cadence.
+ * Follow-ups still scheduled for earlier versions are cancelled.
+ */
+export async function startFollowUps(input: {
+  quoteRequestId: string
+  quoteVersionId: string
+  subject: string
+  body: string
+}): Promise<QuoteFollowUp[]> {
+  const { data: version } = await supabase
+    .from('quote_versions')
+    .select('*, quote_request:quote_requests(customer_email, customer_name)')
+    .eq('id', input.quoteVersionId)
+    .maybeSingle()
+
+  if (!version || version.quote_request_id !== input.quoteRequestId) {
+    throw new Error('Quote version not found')
+  }
+
+  await cancelFollowUps(input.quoteRequestId, 'superseded', { exceptVersionId: input.quoteVersionId })
+
+  const engine = new QuoteTemplateEngine()
+  await engine.recordSentQuoteEmail({
+    quoteRequestId: input.quoteRequestId,
+    customerEmail: version.quote_request.customer_email,
+    customerName: version.quote_request.customer_name,
+    subject: input.subject,
+    body: input.body,
+    pdfUrl: version.pdf_url,
+    metadata: { quote_version_id: version.id, quote_number: version.quote_number }
+  }).catch(err => console.error('[QUOTE FOLLOW-UPS] Failed to record quote email:', err))
+
+  const sentAt = version.sent_at || new Date().toISOString()
+  const planned = planFollowUps(getFollowUpCadence(), sentAt, version.valid_until)
+  if (planned.length === 0) return []
+
+  // Unique per version and step, so sending the same version twice does not double up
+  const { data, error } = await supabase
+    .from('quote_follow_ups')
+    .upsert(
+      planned.map(p => ({
+        quote_request_id: input.quoteRequestId,
+        quote_version_id: version.id,
+        step: p.step,
+        scheduled_for: p.scheduled_for.toISOString()
+      })),
+      { onConflict: 'quote_version_id,step', ignoreDuplicates: true }
+    )
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to schedule follow-ups: ${error.message}`)
+  }
+
+  console.log(`[QUOTE FOLLOW-UPS] ${planned.length} follow-up(s) scheduled for ${version.quote_number} v${version.version}`)
+
+  return data || []
+}
+
+/**
+ * Cancel the scheduled follow-ups of a quote request - only those of one
+ * version, or all but one version. Returns how many were cancelled.
+ */
+export async function cancelFollowUps(
+  quoteRequestId: string,
+  reason: string,
+  options: { versionId?: string; exceptVersionId?: string } = {}
+): Promise<number> {
+  let query = supabase
+    .from('quote_follow_ups')
+    .update({
+      status: 'cancelled',
+      cancelled_reason: reason,
+      updated_at: new Date().toISOString()
+    })
+    .eq('quote_request_id', quoteRequestId)
+    .eq('status', 'scheduled')
+
+  if (options.versionId) {
+    query = query.eq('quote_version_id', options.versionId)
+  }
+  if (options.exceptVersionId) {
+    query = query.neq('quote_version_id', options.exceptVersionId)
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    throw new Error(`Failed to cancel follow-ups: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
+
+/**
+ * Stop the follow-up sequence because the customer responded
+ */
+export async function stopFollowUps(quoteRequestId: string, reason: string): Promise<number> {
+  const cancelled = await cancelFollowUps(quoteRequestId, reason)
+
+  if (cancelled > 0) {
+    console.log(`[QUOTE FOLLOW-UPS] ${cancelled} follow-up(s) stopped for ${quoteRequestId} (${reason})`)
+  }
+
+  return cancelled
+}
+
+export async function listFollowUps(quoteRequestId: string): Promise<QuoteFollowUp[]> {
+  const { data, error } = await supabase
+    .from('quote_follow_ups')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .order('scheduled_for', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to list follow-ups: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Why a due follow-up should not be sent, or null to send it
+ */
+async function getStopReason(version: QuoteVersion, quoteRequest: any): Promise<string | null> {
+  if (version.status !== 'sent') return version.status
+  if (quoteRequest.current_version_id && quoteRequest.current_version_id !== version.id) return 'superseded'
+  if (version.valid_until && new Date(version.valid_until).getTime() <= Date.now()) return 'expired'
+
+  const since = version.sent_at || version.created_at
+
+  const [responses, decisions, outcomes] = await Promise.all([
+    supabase
+      .from('quote_email_responses')
+      .select('id')
+      .eq('quote_request_id', version.quote_request_id)
+      .gte('detected_at', since)
+      .limit(1),
+    supabase
+      .from('quote_portal_decisions')
+      .select('id')
+      .eq('quote_version_id', version.id)
+      .limit(1),
+    supabase
+      .from('quote_outcomes')
+      .select('id')
+      .eq('quote_request_id', version.quote_request_id)
+      .gte('outcome_date', since)
+      .limit(1)
+  ])
+
+  if (responses.data?.length) return 'customer_replied'
+  if (decisions.data?.length) return 'portal_decision'
+  if (outcomes.data?.length) return 'outcome_recorded'
+  return null
+}
+
+function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+}
+
+async function sendFollowUp(followUp: QuoteFollowUp, version: QuoteVersion, quoteRequest: any): Promise<void> {
+  const { count } = await supabase
+    .from('quote_follow_ups')
+    .select('id', { count: 'exact', head: true })
+    .eq('quote_version_id', version.id)
+    .eq('status', 'sent')
+
+  const { data: originalSend } = await supabase
+    .from('quote_email_sends')
+    .select('subject')
+    .eq('quote_request_id', version.quote_request_id)
+    .eq('metadata->>quote_version_id', version.id)
+    .order('sent_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  const engine = new QuoteTemplateEngine()
+  const generated = await engine.generateFollowUpEmail(version.quote_request_id, {
+    quoteNumber: version.quote_number,
+    step: followUp.step,
+    followUpNumber: (count || 0) + 1,
+    sentAt: version.sent_at || version.created_at,
+    validUntil: version.valid_until,
+    pdfUrl: version.pdf_url,
+    portalUrl: getPortalUrl(version.quote_request_id, version.version),
+    originalSubject: originalSend?.subject || null
+  })
+
+  if (!generated.success || !generated.email) {
+    throw new Error(generated.error || 'Follow-up email could not be generated')
+  }
+
+  const email = generated.email
+  const result = await gmailService.sendEmail(
+    quoteRequest.customer_email,
+    email.subject,
+    textToHtml(email.body),
+    undefined,
+    undefined,
+    version.pdf_url ? [{ filename: `${version.quote_number}.pdf`, url: version.pdf_url }] : undefined
+  )
+
+  if (!result.success) {
+    throw new Error(`Failed to send follow-up: ${result.error}`)
+  }
+
+  const emailSendId = await engine.recordSentQuoteEmail({
+    quoteRequestId: version.quote_request_id,
+    customerEmail: quoteRequest.customer_email,
+    customerName: quoteRequest.customer_name,
+    subject: email.subject,
+    body: email.body,
+    pdfUrl: version.pdf_url,
+    email,
+    metadata: {
+      quote_version_id: version.id,
+      quote_number: version.quote_number,
+      follow_up_id: followUp.id,
+      follow_up_step: followUp.step,
+      gmail_message_id: result.messageId
+    }
+  }).catch(err => {
+    console.error('[QUOTE FOLLOW-UPS] Failed to record follow-up email:', err)
+    return null
+  })
+
+  await supabase
+    .from('quote_follow_ups')
+    .update({
+      status: 'sent',
+      subject: email.subject,
+      body: email.body,
+      email_send_id: emailSendId,
+      sent_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', followUp.id)
+
+  await logToSquadMessages(
+    'QuoteAgent',
+    `📨 Follow-up ${followUp.step} sent for ${version.quote_number} to ${quoteRequest.customer_name || quoteRequest.customer_email}`,
+    {
+      quote_request_id: version.quote_request_id,
+      quote_version_id: version.id,
+      follow_up_id: followUp.id
+    }
+  )
+}
+
+/**
+ * Expire quotes past their Valid Until date, then send the follow-ups that
+ * are due. Follow-ups whose quote was answered, superseded or expired are
+ * cancelled instead.
+ */
+export async function processDueFollowUps(limit: number = 20): Promise<{
+  expired: number
+  sent: number
+  cancelled: number
+  failed: number
+}> {
+  const results = { expired: 0, sent: 0, cancelled: 0, failed: 0 }
+
+  results.expired = await expireQuotes()
+
+  const { data: due, error } = await supabase
+    .from('quote_follow_ups')
+    .select('*, version:quote_versions(*), quote_request:quote_requests(*)')
+    .eq('status', 'scheduled')
+    .lte('scheduled_for', new Date().toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch due follow-ups: ${error.message}`)
+  }
+
+  for (const { version, quote_request: quoteRequest, ...followUp } of due || []) {
+    const stopReason = await getStopReason(version, quoteRequest)
+
+    if (stopReason) {
+      results.cancelled += await cancelFollowUps(followUp.quote_request_id, stopReason, { versionId: version.id })
+      continue
+    }
+
+    try {
+      await sendFollowUp(followUp, version, quoteRequest)
+      results.sent++
+    } catch (err: any) {
+      console.error(`[QUOTE FOLLOW-UPS] Follow-up ${followUp.id} failed:`, err)
+      results.failed++
+
+      await supabase
+        .from('quote_follow_ups')
+        .update({
+          status: 'failed',
+          error: err.message,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', followUp.id)
+    }
+  }
+
+  return results
+}
+
+/**
+ * Mark sent versions past valid_until as expired, stop their follow-ups and
+ * ask Kenny whether to re-quote. Returns how many versions expired.
+ */
+export async function expireQuotes(): Promise<number> {
+  const { data: versions, error } = await supabase
+    .from('quote_versions')
+    .select('*, quote_request:quote_requests(*)')
+    .eq('status', 'sent')
+    .lt('valid_until', new Date().toISOString())
+
+  if (error) {
+    throw new Error(`Failed to fetch expired quotes: ${error.message}`)
+  }
+
+  let expired = 0
+
+  for (const { quote_request: quoteRequest, ...version } of versions || []) {
+    const { data: updated } = await supabase
+      .from('quote_versions')
+      .update({ status: 'expired' })
+      .eq('id', version.id)
+      .eq('status', 'sent')
+      .select('id')
+
+    if (!updated?.length) continue
+    expired++
+
+    await cancelFollowUps(version.quote_request_id, 'expired', { versionId: version.id })
+
+    // Only the quote the customer currently has closes the request
+    if (quoteRequest.current_version_id !== version.id || quoteRequest.status === 'completed') continue
+
+    await supabase
+      .from('quote_requests')
+      .update({
+        status: 'expired',
+        metadata: { ...quoteRequest.metadata, expired_at: new Date().toISOString() },
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', quoteRequest.id)
+
+    await supabase
+      .from('squad_tasks')
+      .insert({
+        title: `Quote ${version.quote_number} expired - re-quote ${quoteRequest.customer_name || quoteRequest.customer_email}?`,
+        description: `Quote ${version.quote_number} v${version.version} for ${quoteRequest.customer_name} (${quoteRequest.customer_email}) expired on ${new Date(version.valid_until).toLocaleDateString('en-ZA')} without a response.
+
+**Quoted:** R ${Number(version.total).toFixed(2)}
+
+**Actions Required:**
+1. Approve to ask the suppliers for fresh prices and quote again
+2. Reject to leave the quote expired`,
+        status: 'new',
+        assigned_agent: 'QuoteAgent',
+        priority: 'low',
+        mentions_kenny: true,
+        requires_approval: true,
+        deliverable_url: version.pdf_url,
+        metadata: {
+          quote_request_id: quoteRequest.id,
+          quote_version_id: version.id,
+          quote_number: version.quote_number,
+          customer_email: quoteRequest.customer_email,
+          action_required: 'requote_expired_quote'
+        }
+      })
+
+    console.log(`[QUOTE FOLLOW-UPS] Quote ${version.quote_number} v${version.version} expired`)
+  }
+
+  return expired
+}
+
+/**
+ * Start a new supplier round for an expired quote: suppliers are emailed
+ * again and the Quote Agent builds a new version from their fresh prices.
+ * Responses from the earlier round are ignored from here on.
+ */
+export async function requoteExpiredQuote(quoteRequestId: string, requestedBy: string): Promise<{ taskId: string }> {
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('*')
+    .eq('id', quoteRequestId)
+    .maybeSingle()
+
+  if (!quoteRequest) {
+    throw new Error('Quote request not found')
+  }
+
+  if (quoteRequest.status !== 'expired') {
+    throw new Error(`Invalid re-quote: quote is ${quoteRequest.status}, only expired quotes can be re-quoted`)
+  }
+
+  const requotedAt = new Date().toISOString()
+  const { aggregated_at, aggregated_data, aggregation_reason, supplier_responses, ...metadata } = quoteRequest.metadata || {}
+
+  const { data: updated, error: updateError } = await supabase
+    .from('quote_requests')
+    .update({
+      status: 'detected',
+      metadata: {
+        ...metadata,
+        requoted_at: requotedAt,
+        requoted_by: requestedBy,
+        requote_count: (metadata.requote_count || 0) + 1
+      },
+      updated_at: requotedAt
+    })
+    .eq('id', quoteRequestId)
+    .eq('status', 'expired')
+    .select('id')
+
+  if (updateError) {
+    throw new Error(`Failed to start re-quote: ${updateError.message}`)
+  }
+  if (!updated?.length) {
+    throw new Error('Invalid re-quote: already started')
+  }
+
+  const { data: task, error } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Re-quote: fresh supplier prices for ${quoteRequest.customer_name || quoteRequest.customer_email}`,
+      description: `Quote expired without a response. ${requestedBy} asked for a new quote with fresh supplier prices.`,
+      status: 'new',
+      assigned_agent: 'SupplierAgent',
+      priority: 'medium',
+      mentions_kenny: false,
+      metadata: {
+        quote_request_id: quoteRequestId,
+        action_required: 'contact_suppliers',
+        requote: true,
+        requested_by: requestedBy
+      }
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create re-quote task: ${error.message}`)
+  }
+
+  // The re-quote prompt in the approval queue is answered
+  await supabase
+    .from('squad_tasks')
+    .update({ status: 'completed', updated_at: requotedAt })
+    .eq('metadata->>quote_request_id', quoteRequestId)
+    .eq('metadata->>action_required', 'requote_expired_quote')
+    .eq('status', 'new')
+
+  await logToSquadMessages(
+    'QuoteAgent',
+    `🔄 Re-quote started for ${quoteRequest.customer_name || quoteRequest.customer_email} by ${requestedBy} - suppliers will be asked for fresh prices`,
+    { quote_request_id: quoteRequestId, task_id: task.id }
+  )
+
+  return { taskId: task.id }
+}
+
+export const quoteFollowUps = {
+  parseFollowUpCadence,
+  startFollowUps,
+  cancelFollowUps,
+  stopFollowUps,
+  listFollowUps,
+  processDueFollowUps,
+  expireQuotes,
+  requoteExpiredQuote
+}
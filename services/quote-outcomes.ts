@@ -0,0 +1,220 @@
+/**
+ * Quote Outcomes Service
+ *
+ * Records what the customer did with a quote (accepted, rejected,
+ * negotiating...) in quote_outcomes against the version they responded to,
+ * closes the quote request and its workflow, and publishes
+ * quote.outcome_recorded. Used by the outcome API (staff) and the customer
+ * quote portal (the customer's own decision).
+ */
+
+import { supabase } from '@/lib/supabase'
+import { publishEvent } from '@/services/event-bus'
+import { quoteVersions, selectQuoteItems, type QuoteLineItem, type QuoteVersion } from '@/services/quote-versions'
+import { quoteWorkflowMonitor } from '@/services/workflows/quote-workflow-monitor'
+import type { DomainEventPayloads } from '@/types/events'
+
+export type QuoteOutcome = DomainEventPayloads['quote.outcome_recorded']['outcome']
+export type QuoteOutcomeSource = DomainEventPayloads['quote.outcome_recorded']['source']
+
+export const QUOTE_OUTCOMES: QuoteOutcome[] = ['accepted', 'rejected', 'negotiation', 'no_response', 'pending']
+
+export interface RecordedQuoteOutcome {
+  id: string
+  quote_request_id: string
+  quote_number: string
+  quote_version_id: string | null
+  quote_version: number | null
+  outcome: QuoteOutcome
+  total_quoted_amount: number
+  final_amount: number | null
+  items: QuoteLineItem[]
+  metadata: Record<string, any>
+  outcome_date: string
+}
+
+/**
+ * Record an outcome. Accepted, rejected and no-response outcomes close the
+ * quote request and complete its workflow; a negotiation leaves both open
+ * until the revised quote is answered.
+ */
+export async function recordQuoteOutcome(input: {
+  quoteRequestId: string
+  outcome: QuoteOutcome
+  source: QuoteOutcomeSource
+  quoteNumber?: string
+  quoteVersionId?: string
+  /** Items the customer took, when not the whole quote (optional items and alternatives left out) */
+  items?: QuoteLineItem[]
+  finalAmount?: number | null
+  rejectionReason?: string | null
+  negotiationDetails?: Record<string, any> | null
+  responseTimeHours?: number | null
+  metadata?: Record<string, any>
+}): Promise<RecordedQuoteOutcome> {
+  if (!QUOTE_OUTCOMES.includes(input.outcome)) {
+    throw new Error(`Invalid outcome: ${input.outcome}`)
+  }
+
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('*')
+    .eq('id', input.quoteRequestId)
+    .maybeSingle()
+
+  if (!quoteRequest) {
+    throw new Error('Quote request not found')
+  }
+
+  // Outcomes belong to the version the customer responded to (latest sent unless given)
+  const version = await quoteVersions.resolveOutcomeVersion(input.quoteRequestId, input.quoteVersionId)
+  const quoteNumber = input.quoteNumber || version?.quote_number
+  if (!quoteNumber) {
+    throw new Error('Invalid outcome: quote has no quote number')
+  }
+
+  const quotedItems = input.items || version?.items || quoteRequest.metadata?.quoted_items || []
+  const totalAmount = version ? Number(version.total) : quoteRequest.metadata?.total_amount || 0
+  const finalAmount = input.finalAmount !== undefined
+    ? input.finalAmount
+    : input.outcome === 'accepted' ? totalAmount : input.negotiationDetails?.final_amount || null
+
+  const { data: outcomeRecord, error } = await supabase
+    .from('quote_outcomes')
+    .insert({
+      quote_request_id: input.quoteRequestId,
+      quote_number: quoteNumber,
+      quote_version_id: version?.id || null,
+      quote_version: version?.version || null,
+      outcome: input.outcome,
+      customer_email: quoteRequest.customer_email,
+      customer_name: quoteRequest.customer_name,
+      customer_segment: quoteRequest.customer_segment,
+      total_quoted_amount: totalAmount,
+      final_amount: finalAmount,
+      items: quotedItems,
+      urgency_level: quoteRequest.urgency_level,
+      order_size_category: quoteRequest.order_size_category,
+      rejection_reason: input.rejectionReason || null,
+      negotiation_details: input.negotiationDetails || null,
+      response_time_hours: input.responseTimeHours ?? null,
+      metadata: {
+        ...input.metadata,
+        recorded_at: new Date().toISOString(),
+        source: input.source
+      }
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to record quote outcome: ${error.message}`)
+  }
+
+  if (version) {
+    await quoteVersions.recordVersionOutcome(version.id, input.outcome)
+  }
+
+  const closesQuote = input.outcome !== 'negotiation' && input.outcome !== 'pending'
+
+  await supabase
+    .from('quote_requests')
+    .update({
+      ...(closesQuote ? { status: 'completed', completed_at: new Date().toISOString() } : {}),
+      metadata: {
+        ...quoteRequest.metadata,
+        outcome: input.outcome,
+        outcome_source: input.source,
+        outcome_recorded_at: new Date().toISOString()
+      }
+    })
+    .eq('id', input.quoteRequestId)
+
+  await quoteWorkflowMonitor.recordCustomerDecision(input.quoteRequestId, input.outcome, {
+    outcome_id: outcomeRecord.id,
+    quote_number: quoteNumber,
+    quote_version: version?.version || null,
+    source: input.source
+  })
+
+  await supabase
+    .from('squad_messages')
+    .insert({
+      from_agent: 'QuoteOutcomeTracker',
+      to_agent: null,
+      message: `📊 Quote outcome recorded: ${quoteNumber}${version ? ` v${version.version}` : ''} - ${input.outcome.toUpperCase()}` +
+               `${input.source === 'customer_portal' ? ' (customer portal)' : ''}\n` +
+               `Customer: ${quoteRequest.customer_name}\n` +
+               `Amount: R ${Number(finalAmount ?? totalAmount).toFixed(2)}\n` +
+               `${input.rejectionReason ? `Reason: ${input.rejectionReason}` : ''}`,
+      task_id: null,
+      data: {
+        quote_request_id: input.quoteRequestId,
+        quote_number: quoteNumber,
+        quote_version: version?.version || null,
+        outcome: input.outcome,
+        source: input.source,
+        amount: totalAmount,
+        final_amount: finalAmount,
+        timestamp: new Date().toISOString()
+      }
+    })
+
+  await publishEvent(
+    'quote.outcome_recorded',
+    {
+      quoteRequestId: input.quoteRequestId,
+      quoteNumber,
+      quoteVersionId: version?.id || null,
+      outcome: input.outcome,
+      outcomeId: outcomeRecord.id,
+      source: input.source
+    },
+    { source: 'QuoteOutcomeTracker', correlationId: input.quoteRequestId }
+  ).catch(err => console.error('Failed to publish quote.outcome_recorded:', err))
+
+  return outcomeRecord
+}
+
+/**
+ * The latest accepted outcome of a quote request with the items the customer
+ * took and the version they accepted, or null if the quote was not accepted
+ */
+export async function getAcceptedQuote(quoteRequestId: string): Promise<{
+  outcome: RecordedQuoteOutcome
+  items: QuoteLineItem[]
+  version: QuoteVersion | null
+} | null> {
+  const { data: outcome } = await supabase
+    .from('quote_outcomes')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .eq('outcome', 'accepted')
+    .order('outcome_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!outcome) return null
+
+  const { data: version } = outcome.quote_version_id
+    ? await supabase.from('quote_versions').select('*').eq('id', outcome.quote_version_id).maybeSingle()
+    : { data: null }
+
+  // Portal outcomes hold the items the customer took; otherwise the optional
+  // items are left out and each option group falls back to its recommendation
+  const items = selectQuoteItems(
+    outcome.items || [],
+    {
+      optionalItemIds: outcome.metadata?.selected_optional_item_ids,
+      alternativeIds: outcome.metadata?.selected_alternative_ids
+    },
+    version?.bundles || []
+  )
+
+  return { outcome, items, version }
+}
+
+export const quoteOutcomes = {
+  recordQuoteOutcome,
+  getAcceptedQuote
+}
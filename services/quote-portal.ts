@@ -0,0 +1,419 @@
+/**
+ * Quote Portal Service
+ *
+ * Customers get a signed link to their quote (/quote/<token>) next to the PDF
+ * in the quote email. The token names a quote request and version and is
+ * signed with QUOTE_PORTAL_SECRET, so links need no storage and cannot be
+ * guessed. In the portal the customer picks between alternatives, selects
+ * optional items and accepts or requests changes; the decision is written straight to quote_outcomes, so
+ * nobody has to interpret a reply email.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { supabase } from '@/lib/supabase'
+import {
+  calculateQuoteTotals,
+  selectQuoteItems,
+  type QuoteBundle,
+  type QuoteLineItem,
+  type QuoteVersion
+} from '@/services/quote-versions'
+import { recordQuoteOutcome } from '@/services/quote-outcomes'
+
+export type PortalDecisionType = 'accepted' | 'changes_requested'
+export type PortalQuoteStatus = 'open' | 'accepted' | 'changes_requested' | 'closed' | 'superseded' | 'expired'
+
+/** Line item as the customer sees it - no cost, markup or supplier */
+export type PortalLineItem = Pick<
+  QuoteLineItem,
+  | 'id' | 'product_name' | 'description' | 'quantity' | 'unit_price' | 'total_price' | 'lead_time' | 'optional'
+  | 'option_group' | 'tier' | 'recommended'
+>
+
+export interface PortalDecision {
+  id: string
+  quote_request_id: string
+  quote_version_id: string
+  decision: PortalDecisionType
+  selected_optional_item_ids: string[]
+  selected_alternative_ids: string[]
+  accepted_total: number | null
+  customer_name: string | null
+  message: string | null
+  quote_outcome_id: string | null
+  created_at: string
+}
+
+export interface PortalQuote {
+  quote_number: string
+  version: number
+  customer_name: string | null
+  company_name: string | null
+  items: PortalLineItem[]
+  bundles: QuoteBundle[]
+  subtotal: number
+  tax: number
+  shipping: number
+  total: number
+  currency: string
+  valid_until: string | null
+  notes: string | null
+  terms: string | null
+  pdf_url: string | null
+  status: PortalQuoteStatus
+  decision: PortalDecision | null
+  /** Portal link to the newer revision when this version was replaced */
+  latest_url: string | null
+}
+
+interface PortalTokenPayload {
+  /** quote_requests.id */
+  q: string
+  /** quote_versions.version */
+  v: number
+}
+
+const CLOSED_REASONS: Record<Exclude<PortalQuoteStatus, 'open'>, string> = {
+  accepted: 'has already been accepted',
+  changes_requested: 'already has a change request',
+  closed: 'is closed',
+  superseded: 'has been replaced by a newer revision',
+  expired: 'has expired'
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url')
+
+export function createPortalToken(quoteRequestId: string, version: number): string {
+  const secret = process.env.QUOTE_PORTAL_SECRET
+  if (!secret) {
+    throw new Error('QUOTE_PORTAL_SECRET is not configured')
+  }
+
+  const payload = Buffer.from(JSON.stringify({ q: quoteRequestId, v: version })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Check a token's signature. Bad or tampered tokens are reported as a missing
+ * quote so the portal does not reveal which part was wrong.
+ */
+export function verifyPortalToken(token: string): PortalTokenPayload {
+  const secret = process.env.QUOTE_PORTAL_SECRET
+  const [payload, signature] = token.split('.')
+
+  if (!secret || !payload || !signature) {
+    throw new Error('Quote not found')
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    throw new Error('Quote not found')
+  }
+
+  let parsed: any = null
+  try {
+    parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    parsed = null
+  }
+
+  if (!parsed || typeof parsed.q !== 'string' || !Number.isInteger(parsed.v)) {
+    throw new Error('Quote not found')
+  }
+
+  return parsed
+}
+
+/**
+ * Portal link for a quote version, or null when the portal is not configured
+ * (quote emails then go out without it)
+ */
+export function getPortalUrl(quoteRequestId: string, version: number): string | null {
+  if (!process.env.QUOTE_PORTAL_SECRET) return null
+
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'}/quote/${createPortalToken(quoteRequestId, version)}`
+}
+
+async function loadPortalVersion(token: string): Promise<{ version: QuoteVersion; quoteRequest: any }> {
+  const { q: quoteRequestId, v: versionNumber } = verifyPortalToken(token)
+
+  const [{ data: version }, { data: quoteRequest }] = await Promise.all([
+    supabase
+      .from('quote_versions')
+      .select('*')
+      .eq('quote_request_id', quoteRequestId)
+      .eq('version', versionNumber)
+      .maybeSingle(),
+    supabase
+      .from('quote_requests')
+      .select('*')
+      .eq('id', quoteRequestId)
+      .maybeSingle()
+  ])
+
+  if (!version || !quoteRequest) {
+    throw new Error('Quote not found')
+  }
+
+  return { version, quoteRequest }
+}
+
+async function getVersionDecision(versionId: string): Promise<PortalDecision | null> {
+  const { data } = await supabase
+    .from('quote_portal_decisions')
+    .select('*')
+    .eq('quote_version_id', versionId)
+    .maybeSingle()
+
+  return data
+}
+
+function getPortalStatus(version: QuoteVersion, quoteRequest: any, decision: PortalDecision | null): PortalQuoteStatus {
+  if (decision) return decision.decision
+  if (version.status === 'accepted') return 'accepted'
+  if (version.status === 'rejected' || quoteRequest.status === 'completed') return 'closed'
+  if (version.status === 'superseded') return 'superseded'
+  if (version.status === 'expired') return 'expired'
+  if (version.valid_until && new Date(version.valid_until).getTime() < Date.now()) return 'expired'
+  return 'open'
+}
+
+/**
+ * The quote behind a portal link, in the form the customer sees it. The first
+ * view is recorded on the version.
+ */
+export async function getPortalQuote(token: string): Promise<PortalQuote> {
+  const { version, quoteRequest } = await loadPortalVersion(token)
+  const decision = await getVersionDecision(version.id)
+  const status = getPortalStatus(version, quoteRequest, decision)
+
+  let latestUrl: string | null = null
+  if (status === 'superseded') {
+    const { data: latest } = await supabase
+      .from('quote_versions')
+      .select('version')
+      .eq('quote_request_id', version.quote_request_id)
+      .not('sent_at', 'is', null)
+      .gt('version', version.version)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    latestUrl = latest ? getPortalUrl(version.quote_request_id, latest.version) : null
+  }
+
+  if (!version.portal_viewed_at) {
+    const { error } = await supabase
+      .from('quote_versions')
+      .update({ portal_viewed_at: new Date().toISOString() })
+      .eq('id', version.id)
+
+    if (error) {
+      console.error('[QUOTE PORTAL] Failed to record view:', error)
+    }
+  }
+
+  return {
+    quote_number: version.quote_number,
+    version: version.version,
+    customer_name: quoteRequest.customer_name,
+    company_name: quoteRequest.metadata?.company_name || null,
+    items: version.items.map(item => ({
+      id: item.id,
+      product_name: item.product_name,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      total_price: item.total_price,
+      lead_time: item.lead_time,
+      optional: item.optional,
+      option_group: item.option_group,
+      tier: item.tier,
+      recommended: item.recommended
+    })),
+    bundles: version.bundles || [],
+    subtotal: Number(version.subtotal),
+    tax: Number(version.tax),
+    shipping: Number(version.shipping),
+    total: Number(version.total),
+    currency: version.currency,
+    valid_until: version.valid_until,
+    notes: version.notes,
+    terms: version.terms,
+    pdf_url: version.pdf_url,
+    status,
+    decision,
+    latest_url: latestUrl
+  }
+}
+
+/**
+ * Record the customer's decision. Accepting records an accepted outcome for
+ * the required items, the chosen alternatives, the optional items selected
+ * and the discount of any bundle completed; requesting changes
+ * records a negotiation and asks the Quote Agent's approver for a revision.
+ */
+export async function submitPortalDecision(
+  token: string,
+  input: {
+    decision: PortalDecisionType
+    selectedOptionalItemIds?: string[]
+    /** One per option group; groups left out get the recommended item */
+    selectedAlternativeIds?: string[]
+    customerName?: string
+    message?: string
+  },
+  context: { ipAddress?: string | null; userAgent?: string | null } = {}
+): Promise<PortalQuote> {
+  if (input.decision !== 'accepted' && input.decision !== 'changes_requested') {
+    throw new Error('Invalid decision: must be accepted or changes_requested')
+  }
+  if (input.decision === 'changes_requested' && !input.message?.trim()) {
+    throw new Error('Invalid decision: please describe the changes you need')
+  }
+
+  const { version, quoteRequest } = await loadPortalVersion(token)
+  const status = getPortalStatus(version, quoteRequest, await getVersionDecision(version.id))
+  if (status !== 'open') {
+    throw new Error(`Invalid decision: this quote ${CLOSED_REASONS[status]}`)
+  }
+
+  const selectedIds = (input.selectedOptionalItemIds || [])
+    .filter(id => version.items.some(item => item.id === id && item.optional && !item.option_group))
+  const alternativeIds = (input.selectedAlternativeIds || [])
+    .filter(id => version.items.some(item => item.id === id && item.option_group))
+  const chosenGroups = alternativeIds.map(id => version.items.find(item => item.id === id)!.option_group)
+  if (new Set(chosenGroups).size !== chosenGroups.length) {
+    throw new Error('Invalid decision: choose one option per product')
+  }
+
+  const selection = { optionalItemIds: selectedIds, alternativeIds }
+  const bundles = version.bundles || []
+  const selectedItems = selectQuoteItems(version.items, selection, bundles)
+  const acceptedTotal = calculateQuoteTotals(version.items, Number(version.shipping), selection, bundles).total
+  // Record the alternative taken in every group, including those left on the recommendation
+  const takenAlternativeIds = selectedItems.filter(item => item.option_group).map(item => item.id)
+
+  // The unique version constraint stops a double submit from recording two outcomes
+  const { data: decision, error } = await supabase
+    .from('quote_portal_decisions')
+    .insert({
+      quote_request_id: version.quote_request_id,
+      quote_version_id: version.id,
+      decision: input.decision,
+      selected_optional_item_ids: selectedIds,
+      selected_alternative_ids: takenAlternativeIds,
+      accepted_total: acceptedTotal,
+      customer_name: input.customerName?.trim() || null,
+      message: input.message?.trim() || null,
+      ip_address: context.ipAddress || null,
+      user_agent: context.userAgent || null
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`Invalid decision: this quote ${CLOSED_REASONS[input.decision]}`)
+    }
+    throw new Error(`Failed to record decision: ${error.message}`)
+  }
+
+  const responseTimeHours = version.sent_at
+    ? Math.round((Date.now() - new Date(version.sent_at).getTime()) / (1000 * 60 * 60) * 100) / 100
+    : null
+
+  try {
+    const outcome = await recordQuoteOutcome({
+      quoteRequestId: version.quote_request_id,
+      quoteNumber: version.quote_number,
+      quoteVersionId: version.id,
+      source: 'customer_portal',
+      responseTimeHours,
+      metadata: {
+        portal_decision_id: decision.id,
+        selected_optional_item_ids: selectedIds,
+        selected_alternative_ids: takenAlternativeIds,
+        customer_name: decision.customer_name
+      },
+      ...(input.decision === 'accepted'
+        ? { outcome: 'accepted' as const, items: selectedItems, finalAmount: acceptedTotal }
+        : {
+            outcome: 'negotiation' as const,
+            negotiationDetails: {
+              requested_changes: decision.message,
+              requested_by: decision.customer_name,
+              selected_optional_item_ids: selectedIds,
+              selected_alternative_ids: takenAlternativeIds
+            }
+          })
+    })
+
+    await supabase
+      .from('quote_portal_decisions')
+      .update({ quote_outcome_id: outcome.id })
+      .eq('id', decision.id)
+  } catch (outcomeError) {
+    // Without an outcome the decision never happened - let the customer retry
+    await supabase.from('quote_portal_decisions').delete().eq('id', decision.id)
+    throw outcomeError
+  }
+
+  if (input.decision === 'changes_requested') {
+    await createRevisionTask(quoteRequest, version, decision)
+  }
+
+  console.log(`[QUOTE PORTAL] ${version.quote_number} v${version.version}: ${input.decision}`)
+
+  return getPortalQuote(token)
+}
+
+async function createRevisionTask(quoteRequest: any, version: QuoteVersion, decision: PortalDecision): Promise<void> {
+  const { error } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Revise Quote ${version.quote_number} for ${quoteRequest.customer_name}: changes requested`,
+      description: `${decision.customer_name || quoteRequest.customer_name} requested changes to quote ${version.quote_number} (v${version.version}) in the quote portal.
+
+**Requested changes:**
+${decision.message}
+
+**Quote Details:**
+- Customer: ${quoteRequest.customer_name} (${quoteRequest.customer_email})
+- Current Total: ${version.currency} ${Number(version.total).toFixed(2)}
+
+**Actions Required:**
+1. Approve to have the Quote Agent build a new version - the requested changes go on its approval task
+2. Or open the quote's versions and send a revised quote by hand`,
+      status: 'new',
+      assigned_agent: 'QuoteAgent',
+      priority: 'high',
+      mentions_kenny: true,
+      requires_approval: true,
+      deliverable_url: version.pdf_url,
+      metadata: {
+        quote_request_id: quoteRequest.id,
+        quote_number: version.quote_number,
+        quote_version_id: version.id,
+        quote_version: version.version,
+        portal_decision_id: decision.id,
+        customer_email: quoteRequest.customer_email,
+        customer_name: quoteRequest.customer_name,
+        revision_notes: decision.message,
+        action_required: 'revise_quote'
+      }
+    })
+
+  if (error) {
+    console.error('[QUOTE PORTAL] Failed to create revision task:', error)
+  }
+}
+
+export const quotePortal = {
+  createPortalToken,
+  verifyPortalToken,
+  getPortalUrl,
+  getPortalQuote,
+  submitPortalDecision
+}
@@ -0,0 +1,943 @@
+/**
+ * Quote Versions Service
+ *
+ * Every quote the Quote Agent generates, and every edit or revision made to it
+ * afterwards, is stored as an immutable row in quote_versions: line items
+ * (with cost, markup and supplier source), totals and the PDF. Versions can be
+ * diffed line by line, a revision sent after the customer already has the
+ * quote references the version it replaces, and quote outcomes are recorded
+ * against the exact version the customer responded to.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { gmailService } from '@/services/integrations/gmail-service'
+import { getPortalUrl } from '@/services/quote-portal'
+import { EXCHANGE_RATE_MAX_AGE_DAYS, type ExchangeRateSnapshot } from '@/services/exchange-rates'
+
+export type QuoteVersionSource = 'generated' | 'edit' | 'revision'
+export type QuoteVersionStatus = 'draft' | 'sent' | 'superseded' | 'accepted' | 'rejected' | 'expired'
+export type QuoteOptionTier = 'good' | 'better' | 'best'
+
+export interface QuoteLineItem {
+  id: string
+  product_name: string
+  description?: string
+  quantity: number
+  unit_price: number
+  total_price: number
+  supplier?: string
+  lead_time?: string
+  /** In ZAR, converted from cost_price_original when the supplier quoted in another currency */
+  cost_price?: number | null
+  cost_currency?: string
+  cost_price_original?: number | null
+  markup_percentage?: number | null
+  /** email_supplier_interactions row the cost price came from */
+  supplier_response_id?: string | null
+  /** Offered as an add-on - left out of the totals unless the customer selects it */
+  optional?: boolean
+  /** Alternatives for one requested product share a group; the customer takes one of them */
+  option_group?: string
+  tier?: QuoteOptionTier
+  /** The alternative counted in the totals unless the customer picks another */
+  recommended?: boolean
+  /** Set on the discount lines selectQuoteItems adds for a completed bundle */
+  bundle_id?: string
+}
+
+/** Items sold together at a discount when the customer takes all of them */
+export interface QuoteBundle {
+  id: string
+  name: string
+  item_ids: string[]
+  discount_percentage: number
+}
+
+/** What the customer chose on top of the required items */
+export interface QuoteSelection {
+  optionalItemIds?: string[]
+  /** Chosen item of each option group */
+  alternativeIds?: string[]
+}
+
+export interface QuoteVersion {
+  id: string
+  quote_request_id: string
+  version: number
+  quote_number: string
+  source: QuoteVersionSource
+  status: QuoteVersionStatus
+  items: QuoteLineItem[]
+  subtotal: number
+  tax: number
+  shipping: number
+  total: number
+  currency: string
+  /** Rates the supplier prices were converted with */
+  exchange_rates: ExchangeRateSnapshot[]
+  bundles: QuoteBundle[]
+  valid_until: string | null
+  notes: string | null
+  terms: string | null
+  pdf_url: string | null
+  previous_version_id: string | null
+  change_summary: string[]
+  reason: string | null
+  email_draft_id: string | null
+  created_by: string
+  sent_at: string | null
+  /** First time the customer opened this version in the quote portal */
+  portal_viewed_at: string | null
+  metadata: Record<string, any>
+  created_at: string
+}
+
+export interface QuoteItemDiff {
+  product_name: string
+  status: 'added' | 'removed' | 'changed' | 'unchanged'
+  before: QuoteLineItem | null
+  after: QuoteLineItem | null
+  changed_fields: Array<keyof QuoteLineItem>
+}
+
+export interface QuoteVersionDiff {
+  from_version: number
+  to_version: number
+  items: QuoteItemDiff[]
+  totals: Record<'subtotal' | 'tax' | 'shipping' | 'total', { before: number; after: number; change: number }>
+  notes_changed: boolean
+  terms_changed: boolean
+  /** Human-readable lines, used in revision emails and the version list */
+  summary: string[]
+}
+
+export interface QuoteItemEdits {
+  items?: Array<Partial<QuoteLineItem> & { id: string }>
+  addedItems?: Array<{
+    product_name: string
+    quantity: number
+    unit_price: number
+    description?: string
+    optional?: boolean
+    option_group?: string
+    tier?: QuoteOptionTier
+  }>
+  removedItemIds?: string[]
+  /** Replaces the version's bundles when given */
+  bundles?: QuoteBundle[]
+}
+
+export const VAT_RATE = 0.15
+
+const DIFF_FIELDS: Array<keyof QuoteLineItem> = [
+  'quantity',
+  'unit_price',
+  'total_price',
+  'cost_price',
+  'markup_percentage',
+  'supplier',
+  'lead_time',
+  'description',
+  'optional',
+  'option_group',
+  'tier',
+  'recommended'
+]
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const itemKey = (item: Pick<QuoteLineItem, 'product_name'>) => item.product_name.trim().toLowerCase()
+
+export const TIER_LABELS: Record<QuoteOptionTier, string> = {
+  good: 'Good',
+  better: 'Better',
+  best: 'Best'
+}
+
+/**
+ * Alternatives grouped by option group, in quote order
+ */
+export function optionGroups(items: QuoteLineItem[]): Array<[string, QuoteLineItem[]]> {
+  const groups = new Map<string, QuoteLineItem[]>()
+  for (const item of items) {
+    if (!item.option_group) continue
+    groups.set(item.option_group, [...(groups.get(item.option_group) || []), item])
+  }
+  return Array.from(groups.entries())
+}
+
+/**
+ * The items a selection takes: required items, the selected optional items and
+ * one item per option group (the chosen one, else the recommended one, else
+ * the first), followed by a discount line for every bundle taken in full
+ */
+export function selectQuoteItems(
+  items: QuoteLineItem[],
+  selection: QuoteSelection = {},
+  bundles: QuoteBundle[] = []
+): QuoteLineItem[] {
+  const lines = items.filter(item => !item.bundle_id)
+  const rank = (item: QuoteLineItem | undefined) => !item
+    ? -1
+    : (selection.alternativeIds || []).includes(item.id) ? 2 : item.recommended ? 1 : 0
+
+  const chosen = new Map<string, QuoteLineItem>()
+  for (const item of lines) {
+    if (item.option_group && rank(item) > rank(chosen.get(item.option_group))) {
+      chosen.set(item.option_group, item)
+    }
+  }
+
+  const taken = lines.filter(item => item.option_group
+    ? chosen.get(item.option_group) === item
+    : !item.optional || (selection.optionalItemIds || []).includes(item.id))
+  const takenIds = new Set(taken.map(item => item.id))
+
+  const discounts: QuoteLineItem[] = bundles
+    .filter(bundle => bundle.item_ids.length > 0 && bundle.item_ids.every(id => takenIds.has(id)))
+    .map(bundle => {
+      const discount = round2(taken
+        .filter(item => bundle.item_ids.includes(item.id))
+        .reduce((sum, item) => sum + item.total_price, 0) * bundle.discount_percentage / 100)
+      return {
+        id: `bundle-${bundle.id}`,
+        product_name: `Bundle discount: ${bundle.name} (${bundle.discount_percentage}%)`,
+        quantity: 1,
+        unit_price: -discount,
+        total_price: -discount,
+        bundle_id: bundle.id
+      }
+    })
+
+  return [...taken, ...discounts]
+}
+
+/**
+ * Check bundles refer to items on the quote. Returns the problems found.
+ */
+export function validateQuoteBundles(bundles: QuoteBundle[], items: QuoteLineItem[]): string[] {
+  const errors: string[] = []
+  const itemIds = new Set(items.map(item => item.id))
+
+  for (const bundle of bundles) {
+    const label = bundle.name || bundle.id || 'bundle'
+    if (!bundle.id || !bundle.name) errors.push(`${label}: id and name are required`)
+    if (!Array.isArray(bundle.item_ids) || bundle.item_ids.length < 2) {
+      errors.push(`${label}: a bundle needs at least two items`)
+    } else {
+      const missing = bundle.item_ids.filter(id => !itemIds.has(id))
+      if (missing.length > 0) errors.push(`${label}: unknown items ${missing.join(', ')}`)
+    }
+    const discount = Number(bundle.discount_percentage)
+    if (!(discount > 0 && discount < 100)) errors.push(`${label}: discount_percentage must be between 0 and 100`)
+  }
+
+  if (new Set(bundles.map(bundle => bundle.id)).size !== bundles.length) {
+    errors.push('bundle ids must be unique')
+  }
+
+  return errors
+}
+
+/**
+ * Totals for what the customer takes - by default the required items, the
+ * recommended alternatives and any bundle those complete
+ */
+export function calculateQuoteTotals(
+  items: QuoteLineItem[],
+  shipping: number = 0,
+  selection: QuoteSelection = {},
+  bundles: QuoteBundle[] = []
+): {
+  subtotal: number
+  tax: number
+  shipping: number
+  total: number
+} {
+  const subtotal = round2(selectQuoteItems(items, selection, bundles)
+    .reduce((sum, item) => sum + item.total_price, 0))
+  const tax = round2(subtotal * VAT_RATE)
+  return { subtotal, tax, shipping, total: round2(subtotal + tax + shipping) }
+}
+
+/**
+ * Fill in totals and markup for edited line items, carrying cost and supplier
+ * source over from the item being replaced
+ */
+export function normalizeLineItems(
+  items: Array<Partial<QuoteLineItem> & Pick<QuoteLineItem, 'product_name'>>,
+  previousItems: QuoteLineItem[] = []
+): QuoteLineItem[] {
+  return items.map((item, index) => {
+    const previous = previousItems.find(p => (item.id && p.id === item.id) || itemKey(p) === itemKey(item))
+    const quantity = Number(item.quantity ?? previous?.quantity ?? 1)
+    const unitPrice = round2(Number(item.unit_price ?? previous?.unit_price ?? 0))
+    const costPrice = item.cost_price ?? previous?.cost_price ?? null
+    // A cost price typed in by hand is in ZAR, so the supplier's original price no longer applies
+    const costEdited = item.cost_price != null && item.cost_price !== previous?.cost_price
+
+    return {
+      ...previous,
+      ...item,
+      id: item.id || previous?.id || `item-${index + 1}`,
+      quantity,
+      unit_price: unitPrice,
+      total_price: round2(unitPrice * quantity),
+      cost_price: costPrice,
+      ...(costEdited ? { cost_currency: undefined, cost_price_original: null } : {}),
+      markup_percentage: costPrice ? round2((unitPrice / costPrice - 1) * 100) : (previous?.markup_percentage ?? null),
+      supplier_response_id: item.supplier_response_id ?? previous?.supplier_response_id ?? null,
+      optional: (item.optional ?? previous?.optional) || undefined,
+      option_group: (item.option_group ?? previous?.option_group) || undefined,
+      recommended: (item.recommended ?? previous?.recommended) || undefined
+    }
+  })
+}
+
+/**
+ * Apply approval-queue edits (changed, added and removed items) to a version's
+ * line items
+ */
+export function applyQuoteEdits(baseItems: QuoteLineItem[], edits: QuoteItemEdits): QuoteLineItem[] {
+  const removed = new Set(edits.removedItemIds || [])
+  const edited = new Map((edits.items || []).map(item => [item.id, item]))
+
+  const items: Array<Partial<QuoteLineItem> & Pick<QuoteLineItem, 'product_name'>> = baseItems
+    .filter(item => !removed.has(item.id))
+    .map(item => ({ ...item, ...edited.get(item.id), product_name: edited.get(item.id)?.product_name || item.product_name }))
+
+  // Quotes generated before versioning have no base items - the edits are the full list
+  for (const item of edits.items || []) {
+    if (!baseItems.some(base => base.id === item.id) && !removed.has(item.id) && item.product_name) {
+      items.push({ ...item, product_name: item.product_name })
+    }
+  }
+
+  // New ids must not reuse a removed item's id, or its cost would be carried over
+  let nextId = Math.max(0, ...[...baseItems, ...items].map(item => parseInt((item.id || '').replace(/\D/g, ''), 10) || 0))
+  for (const added of edits.addedItems || []) {
+    items.push({ ...added, id: `item-${++nextId}` })
+  }
+
+  return normalizeLineItems(items, baseItems)
+}
+
+/**
+ * Line-by-line diff of two versions. Items are matched on product name, since
+ * regenerated quotes renumber their item ids.
+ */
+export function diffVersions(
+  from: Pick<QuoteVersion, 'version' | 'items' | 'subtotal' | 'tax' | 'shipping' | 'total' | 'notes' | 'terms'>,
+  to: Pick<QuoteVersion, 'version' | 'items' | 'subtotal' | 'tax' | 'shipping' | 'total' | 'notes' | 'terms'>
+): QuoteVersionDiff {
+  const items: QuoteItemDiff[] = []
+  const remaining = new Map(to.items.map(item => [itemKey(item), item]))
+
+  for (const before of from.items) {
+    const after = remaining.get(itemKey(before)) || null
+    remaining.delete(itemKey(before))
+
+    if (!after) {
+      items.push({ product_name: before.product_name, status: 'removed', before, after: null, changed_fields: [] })
+      continue
+    }
+
+    const changedFields = DIFF_FIELDS.filter(field => (before[field] ?? null) !== (after[field] ?? null))
+    items.push({
+      product_name: after.product_name,
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before,
+      after,
+      changed_fields: changedFields
+    })
+  }
+
+  for (const after of Array.from(remaining.values())) {
+    items.push({ product_name: after.product_name, status: 'added', before: null, after, changed_fields: [] })
+  }
+
+  const totalDiff = (field: 'subtotal' | 'tax' | 'shipping' | 'total') => ({
+    before: Number(from[field]),
+    after: Number(to[field]),
+    change: round2(Number(to[field]) - Number(from[field]))
+  })
+
+  const diff: QuoteVersionDiff = {
+    from_version: from.version,
+    to_version: to.version,
+    items,
+    totals: {
+      subtotal: totalDiff('subtotal'),
+      tax: totalDiff('tax'),
+      shipping: totalDiff('shipping'),
+      total: totalDiff('total')
+    },
+    notes_changed: (from.notes || '') !== (to.notes || ''),
+    terms_changed: (from.terms || '') !== (to.terms || ''),
+    summary: []
+  }
+  diff.summary = summarizeDiff(diff)
+
+  return diff
+}
+
+function summarizeDiff(diff: QuoteVersionDiff): string[] {
+  const lines: string[] = []
+
+  for (const item of diff.items) {
+    if (item.status === 'added') {
+      lines.push(`Added ${item.product_name} (Qty ${item.after!.quantity} @ ${item.after!.unit_price.toFixed(2)})`)
+    } else if (item.status === 'removed') {
+      lines.push(`Removed ${item.product_name}`)
+    } else if (item.status === 'changed') {
+      const parts: string[] = []
+      if (item.changed_fields.includes('quantity')) parts.push(`qty ${item.before!.quantity} → ${item.after!.quantity}`)
+      if (item.changed_fields.includes('unit_price')) parts.push(`price ${item.before!.unit_price.toFixed(2)} → ${item.after!.unit_price.toFixed(2)}`)
+      if (item.changed_fields.includes('supplier')) parts.push(`supplier ${item.before!.supplier || '-'} → ${item.after!.supplier || '-'}`)
+      if (item.changed_fields.includes('lead_time')) parts.push(`lead time ${item.before!.lead_time || '-'} → ${item.after!.lead_time || '-'}`)
+      if (item.changed_fields.includes('optional')) parts.push(item.after!.optional ? 'now optional' : 'now included')
+      if (item.changed_fields.includes('option_group')) {
+        parts.push(item.after!.option_group ? `now an option for ${item.after!.option_group}` : 'no longer an alternative')
+      }
+      if (item.changed_fields.includes('recommended') && item.after!.recommended) parts.push('now recommended')
+      if (parts.length > 0) lines.push(`${item.product_name}: ${parts.join(', ')}`)
+    }
+  }
+
+  if (diff.totals.total.change !== 0) {
+    lines.push(`Total ${diff.totals.total.before.toFixed(2)} → ${diff.totals.total.after.toFixed(2)}`)
+  }
+  if (diff.notes_changed) lines.push('Notes updated')
+  if (diff.terms_changed) lines.push('Terms updated')
+
+  return lines
+}
+
+export async function listQuoteVersions(quoteRequestId: string): Promise<QuoteVersion[]> {
+  const { data, error } = await supabase
+    .from('quote_versions')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .order('version', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch quote versions: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function getCurrentVersion(quoteRequestId: string): Promise<QuoteVersion | null> {
+  const { data, error } = await supabase
+    .from('quote_versions')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch current quote version: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function getQuoteVersion(quoteRequestId: string, version: number): Promise<QuoteVersion> {
+  const { data, error } = await supabase
+    .from('quote_versions')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch quote version: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error(`Quote version ${version} not found`)
+  }
+
+  return data
+}
+
+export async function getNextVersionNumber(quoteRequestId: string): Promise<number> {
+  const current = await getCurrentVersion(quoteRequestId)
+  return (current?.version || 0) + 1
+}
+
+/**
+ * Diff two versions of a quote. Defaults to the latest version against the
+ * one before it.
+ */
+export async function diffQuoteVersions(
+  quoteRequestId: string,
+  fromVersion?: number,
+  toVersion?: number
+): Promise<QuoteVersionDiff> {
+  const to = toVersion
+    ? await getQuoteVersion(quoteRequestId, toVersion)
+    : await getCurrentVersion(quoteRequestId)
+
+  if (!to) {
+    throw new Error('Quote version not found')
+  }
+
+  const fromNumber = fromVersion || to.version - 1
+  if (fromNumber < 1) {
+    throw new Error('Invalid diff: version 1 has nothing to compare against')
+  }
+
+  const from = await getQuoteVersion(quoteRequestId, fromNumber)
+  return diffVersions(from, to)
+}
+
+/**
+ * Store a new version and make it the quote request's current one. Earlier
+ * draft or sent versions are marked superseded.
+ */
+export async function createQuoteVersion(input: {
+  quoteRequestId: string
+  quoteNumber: string
+  source: QuoteVersionSource
+  items: QuoteLineItem[]
+  pdfUrl: string | null
+  createdBy: string
+  version?: number
+  shipping?: number
+  currency?: string
+  exchangeRates?: ExchangeRateSnapshot[]
+  bundles?: QuoteBundle[]
+  validUntil?: string | null
+  notes?: string | null
+  terms?: string | null
+  reason?: string | null
+  emailDraftId?: string | null
+  metadata?: Record<string, any>
+}): Promise<QuoteVersion> {
+  const previous = await getCurrentVersion(input.quoteRequestId)
+  const version = input.version || (previous?.version || 0) + 1
+  const totals = calculateQuoteTotals(input.items, input.shipping || 0, {}, input.bundles || [])
+
+  const changeSummary = previous
+    ? diffVersions(previous, {
+        version,
+        items: input.items,
+        ...totals,
+        notes: input.notes || null,
+        terms: input.terms || null
+      }).summary
+    : []
+
+  const { data, error } = await supabase
+    .from('quote_versions')
+    .insert({
+      quote_request_id: input.quoteRequestId,
+      version,
+      quote_number: input.quoteNumber,
+      source: input.source,
+      status: 'draft',
+      items: input.items,
+      ...totals,
+      currency: input.currency || 'ZAR',
+      exchange_rates: input.exchangeRates || [],
+      bundles: input.bundles || [],
+      valid_until: input.validUntil || null,
+      notes: input.notes || null,
+      terms: input.terms || null,
+      pdf_url: input.pdfUrl,
+      previous_version_id: previous?.id || null,
+      change_summary: changeSummary,
+      reason: input.reason || null,
+      email_draft_id: input.emailDraftId || null,
+      created_by: input.createdBy,
+      metadata: input.metadata || {}
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create quote version: ${error.message}`)
+  }
+
+  await supabase
+    .from('quote_versions')
+    .update({ status: 'superseded' })
+    .eq('quote_request_id', input.quoteRequestId)
+    .neq('id', data.id)
+    .in('status', ['draft', 'sent'])
+
+  const { error: requestError } = await supabase
+    .from('quote_requests')
+    .update({
+      current_version_id: data.id,
+      ...(input.pdfUrl ? { pdf_url: input.pdfUrl } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', input.quoteRequestId)
+
+  if (requestError) {
+    console.error('[QUOTE VERSIONS] Failed to update current version:', requestError)
+  }
+
+  return data
+}
+
+export async function markVersionSent(versionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('quote_versions')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', versionId)
+
+  if (error) {
+    throw new Error(`Failed to mark quote version sent: ${error.message}`)
+  }
+}
+
+/**
+ * The version an outcome applies to: the one given, otherwise the most recent
+ * version the customer was actually sent
+ */
+export async function resolveOutcomeVersion(quoteRequestId: string, versionId?: string): Promise<QuoteVersion | null> {
+  if (versionId) {
+    const { data } = await supabase
+      .from('quote_versions')
+      .select('*')
+      .eq('id', versionId)
+      .maybeSingle()
+
+    if (!data || data.quote_request_id !== quoteRequestId) {
+      throw new Error('Invalid quote version for this quote request')
+    }
+    return data
+  }
+
+  const { data: sent } = await supabase
+    .from('quote_versions')
+    .select('*')
+    .eq('quote_request_id', quoteRequestId)
+    .not('sent_at', 'is', null)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return sent || getCurrentVersion(quoteRequestId)
+}
+
+export async function recordVersionOutcome(versionId: string, outcome: string): Promise<void> {
+  if (outcome !== 'accepted' && outcome !== 'rejected') return
+
+  await supabase
+    .from('quote_versions')
+    .update({ status: outcome })
+    .eq('id', versionId)
+}
+
+/**
+ * Create a new version from edited line items: regenerate the PDF, draft the
+ * customer email and queue it for approval. When the customer already has an
+ * earlier version the email is worded as a revision and lists what changed.
+ */
+export async function reviseQuote(input: {
+  quoteRequestId: string
+  items: QuoteLineItem[]
+  revisedBy: string
+  quoteNumber?: string
+  notes?: string
+  terms?: string
+  reason?: string
+  /** Defaults to the previous version's bundles */
+  bundles?: QuoteBundle[]
+}): Promise<{ version: QuoteVersion; draftId: string; taskId: string | null }> {
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('*')
+    .eq('id', input.quoteRequestId)
+    .maybeSingle()
+
+  if (!quoteRequest) {
+    throw new Error('Quote request not found')
+  }
+
+  const previous = await getCurrentVersion(input.quoteRequestId)
+  const quoteNumber = previous?.quote_number || input.quoteNumber
+  if (!quoteNumber) {
+    throw new Error('Invalid revision: quote has no quote number yet')
+  }
+
+  const items = normalizeLineItems(input.items, previous?.items || [])
+  if (items.length === 0) {
+    throw new Error('Invalid revision: a quote needs at least one line item')
+  }
+
+  // Bundles whose items were removed are dropped rather than failing the edit
+  const itemIds = new Set(items.map(item => item.id))
+  const bundles = input.bundles
+    ?? (previous?.bundles || []).filter(bundle => bundle.item_ids.every(id => itemIds.has(id)))
+  const bundleErrors = validateQuoteBundles(bundles, items)
+  if (bundleErrors.length > 0) {
+    throw new Error(`Invalid bundles: ${bundleErrors.join('; ')}`)
+  }
+
+  const version = (previous?.version || 0) + 1
+  const totals = calculateQuoteTotals(items, previous?.shipping || 0, {}, bundles)
+  const notes = input.notes ?? previous?.notes ?? null
+  const terms = input.terms ?? previous?.terms ?? null
+  const currency = previous?.currency || 'ZAR'
+  const validUntil = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+
+  // A revision replaces something the customer has seen; an edit happens before sending
+  const sentPrevious = previous && previous.sent_at ? previous : null
+  const summary = previous
+    ? diffVersions(previous, { version, items, ...totals, notes, terms }).summary
+    : []
+
+  const pdfUrl = await renderQuotePdf({
+    quoteId: quoteRequest.id,
+    quoteNumber,
+    version,
+    customerName: quoteRequest.customer_name,
+    customerEmail: quoteRequest.customer_email,
+    companyName: quoteRequest.metadata?.company_name,
+    items,
+    bundles,
+    ...totals,
+    currency,
+    validUntil,
+    notes: notes || undefined,
+    terms: terms || undefined
+  })
+
+  const subject = sentPrevious
+    ? `Revised Quote: ${quoteNumber} (Revision ${version})`
+    : `Your Quote: ${quoteNumber}`
+  const body = buildQuoteEmailBody({
+    customerName: quoteRequest.customer_name,
+    quoteNumber,
+    version,
+    items,
+    bundles,
+    total: totals.total,
+    currency,
+    validUntil,
+    replaces: sentPrevious,
+    changes: summary,
+    portalUrl: getPortalUrl(quoteRequest.id, version)
+  })
+
+  const gmailDraft = await gmailService.createDraft(
+    quoteRequest.customer_email,
+    subject,
+    body,
+    undefined,
+    undefined,
+    [{ filename: `${quoteNumber}-v${version}.pdf`, url: pdfUrl }]
+  )
+  const draftId = gmailDraft.draftId || `draft-${quoteNumber}-v${version}`
+
+  await supabase
+    .from('email_drafts')
+    .insert({
+      id: draftId,
+      to_email: quoteRequest.customer_email,
+      subject,
+      body,
+      attachments: [pdfUrl],
+      status: 'pending_approval',
+      metadata: {
+        quote_request_id: quoteRequest.id,
+        quote_number: quoteNumber,
+        quote_version: version,
+        created_by: input.revisedBy,
+        gmail_draft_id: gmailDraft.draftId
+      }
+    })
+
+  const created = await createQuoteVersion({
+    quoteRequestId: quoteRequest.id,
+    quoteNumber,
+    source: sentPrevious ? 'revision' : 'edit',
+    items,
+    pdfUrl,
+    createdBy: input.revisedBy,
+    version,
+    shipping: totals.shipping,
+    currency,
+    // Cost prices carry over unconverted, so the rates they used do too
+    exchangeRates: previous?.exchange_rates || [],
+    bundles,
+    validUntil,
+    notes,
+    terms,
+    reason: input.reason,
+    emailDraftId: draftId
+  })
+
+  await supabase
+    .from('quote_requests')
+    .update({ status: 'pdf_generated', updated_at: new Date().toISOString() })
+    .eq('id', quoteRequest.id)
+
+  const taskId = await createVersionApprovalTask(quoteRequest, created, draftId, sentPrevious)
+
+  return { version: created, draftId, taskId }
+}
+
+async function renderQuotePdf(details: Record<string, any>): Promise<string> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001'}/api/quote/generate-pdf`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.CRON_SECRET}`
+    },
+    body: JSON.stringify(details)
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok || !result.success || !result.pdfUrl) {
+    throw new Error(`Failed to generate PDF: ${result.error || `status ${response.status}`}`)
+  }
+
+  return result.pdfUrl
+}
+
+function buildQuoteEmailBody(params: {
+  customerName: string | null
+  quoteNumber: string
+  version: number
+  items: QuoteLineItem[]
+  bundles: QuoteBundle[]
+  total: number
+  currency: string
+  validUntil: string
+  replaces: QuoteVersion | null
+  changes: string[]
+  portalUrl: string | null
+}): string {
+  const intro = params.replaces
+    ? `<p>Please find attached a revised quote. Revision ${params.version} replaces revision ${params.replaces.version}${params.replaces.sent_at ? `, sent on ${new Date(params.replaces.sent_at).toLocaleDateString()}` : ''}.</p>
+          ${params.changes.length > 0 ? `<h4>What changed:</h4>
+          <ul>
+            ${params.changes.map(change => `<li>${change}</li>`).join('')}
+          </ul>` : ''}`
+    : '<p>Thank you for your quote request. Please find attached your customized quote.</p>'
+
+  return `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <p>Dear ${params.customerName || 'Customer'},</p>
+
+          ${intro}
+
+          <div style="background-color: #f5f5f5; padding: 20px; border-left: 4px solid #007bff; margin: 20px 0;">
+            <h3 style="margin-top: 0;">Quote Summary</h3>
+            <p><strong>Quote Number:</strong> ${params.quoteNumber} (Revision ${params.version})</p>
+            <p><strong>Total Items:</strong> ${params.items.length}</p>
+            <p><strong>Total Amount:</strong> ${params.currency} ${params.total.toFixed(2)}</p>
+            <p><strong>Valid Until:</strong> ${new Date(params.validUntil).toLocaleDateString()}</p>
+          </div>
+
+          <h4>Items Quoted:</h4>
+          <ul>
+            ${params.items.filter(item => !item.option_group).map(item => `
+              <li><strong>${item.product_name}</strong>${item.optional ? ' (optional)' : ''} - Qty: ${item.quantity} @ ${params.currency} ${item.unit_price.toFixed(2)} each</li>
+            `).join('')}
+          </ul>
+          ${optionGroups(params.items).map(([group, options]) => `
+          <h4>Options for ${group} (choose one):</h4>
+          <ul>
+            ${options.map(item => `
+              <li>${item.tier ? `${TIER_LABELS[item.tier]}: ` : ''}<strong>${item.product_name}</strong>${item.recommended ? ' (recommended)' : ''} - Qty: ${item.quantity} @ ${params.currency} ${item.unit_price.toFixed(2)} each</li>
+            `).join('')}
+          </ul>`).join('')}
+          ${params.bundles.length > 0 ? `
+          <h4>Bundle Offers:</h4>
+          <ul>
+            ${params.bundles.map(bundle => `<li>${bundle.name}: ${bundle.discount_percentage}% off when taken together</li>`).join('')}
+          </ul>` : ''}
+          ${params.portalUrl ? `
+          <p style="margin: 20px 0;"><a href="${params.portalUrl}" style="background-color: #007bff; color: #fff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">View and accept your quote online</a></p>
+          ` : ''}
+
+          <p>If you have any questions or would like to proceed with this order, please don't hesitate to contact us.</p>
+
+          <p>Best regards,<br>
+          Audico Sales Team<br>
+          <em>Quote Reference: ${params.quoteNumber} rev ${params.version}</em></p>
+        </body>
+      </html>
+    `
+}
+
+async function createVersionApprovalTask(
+  quoteRequest: any,
+  version: QuoteVersion,
+  draftId: string,
+  replaces: QuoteVersion | null
+): Promise<string | null> {
+  const label = replaces ? 'Revised' : 'Edited'
+
+  const { data, error } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Approve ${label} Quote ${version.quote_number} v${version.version} for ${quoteRequest.customer_name}`,
+      description: `Quote ${version.quote_number} has been ${replaces ? 'revised' : 'edited'} by ${version.created_by} and requires approval before sending.
+
+**Quote Details:**
+- Quote Number: ${version.quote_number} (v${version.version})
+- Customer: ${quoteRequest.customer_name} (${quoteRequest.customer_email})
+- New Total: ${version.currency} ${Number(version.total).toFixed(2)}
+${replaces ? `- Replaces: v${replaces.version} sent ${replaces.sent_at ? new Date(replaces.sent_at).toLocaleDateString() : ''}\n` : ''}
+**Changes:**
+${version.change_summary.length > 0 ? version.change_summary.map(change => `- ${change}`).join('\n') : '- None'}
+${version.reason ? `\n**Reason:** ${version.reason}\n` : ''}
+**Actions Required:**
+1. Review the updated PDF: [View PDF](${version.pdf_url})
+2. Approve and send to customer`,
+      status: 'new',
+      assigned_agent: 'QuoteAgent',
+      priority: 'high',
+      mentions_kenny: true,
+      requires_approval: true,
+      deliverable_url: version.pdf_url,
+      metadata: {
+        quote_request_id: quoteRequest.id,
+        quote_number: version.quote_number,
+        quote_version_id: version.id,
+        quote_version: version.version,
+        pdf_url: version.pdf_url,
+        draft_id: draftId,
+        customer_email: quoteRequest.customer_email,
+        customer_name: quoteRequest.customer_name,
+        total_amount: Number(version.total),
+        currency: version.currency,
+        exchange_rates: version.exchange_rates,
+        exchange_rate_max_age_days: EXCHANGE_RATE_MAX_AGE_DAYS,
+        action_required: 'approve_quote',
+        edited: true,
+        revision_of: replaces?.version || null
+      }
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('[QUOTE VERSIONS] Failed to create approval task:', error)
+    return null
+  }
+
+  return data.id
+}
+
+export const quoteVersions = {
+  listQuoteVersions,
+  getCurrentVersion,
+  getQuoteVersion,
+  getNextVersionNumber,
+  diffQuoteVersions,
+  createQuoteVersion,
+  markVersionSent,
+  resolveOutcomeVersion,
+  recordVersionOutcome,
+  reviseQuote
+}
@@ -0,0 +1,438 @@
+/**
+ * Resource Lock Service
+ *
+ * Shared locks on customers, emails, quotes and orders so the orchestrator,
+ * the Jarvis cron, the email respond route and the quote workflow never act
+ * on the same item at once - across serverless invocations, not just within
+ * one process.
+ *
+ * Locks live in Redis (REDIS_URL) and fall back to the resource_locks table
+ * when Redis is not configured or unreachable. Contention is settled by
+ * CONFLICT_RESOLUTION_PRIORITY: a higher-priority agent takes over a lock held
+ * by a lower-priority one, anyone else is refused. Long-running holders should
+ * check isLockHeld() before committing side effects.
+ */
+
+import Redis from 'ioredis'
+import { randomUUID } from 'crypto'
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { ORCHESTRATOR_CONFIG, getLockPriority } from './config'
+import type { LockRequest, LockResourceType, LockResult, ResourceLock } from './types'
+
+const REDIS_KEY_PREFIX = 'resource-lock:'
+
+export type LockBackend = 'redis' | 'postgres'
+
+export type LocksResult =
+  | { acquired: true; locks: LockResult[]; token: string }
+  | { acquired: false; heldBy: ResourceLock }
+
+// Take the lock if it is free, already ours (renew), or held by a lower-priority agent.
+// Returns { holder, preempted holder or '', '1' if renewed }
+const ACQUIRE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current then
+  local held = cjson.decode(current)
+  if held.token == ARGV[2] then
+    held.expiresAt = ARGV[5]
+    local renewed = cjson.encode(held)
+    redis.call('SET', KEYS[1], renewed, 'PX', ARGV[4])
+    return {renewed, '', '1'}
+  end
+  if tonumber(held.priority) <= tonumber(ARGV[3]) then
+    return {current, '', '0'}
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[4])
+return {ARGV[1], current or '', '0'}
+`
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).token == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+let redisClient: Redis | null = null
+
+function getRedis(): Redis | null {
+  if (!process.env.REDIS_URL) return null
+
+  if (!redisClient) {
+    redisClient = new Redis(process.env.REDIS_URL, {
+      maxRetriesPerRequest: 1,
+      enableReadyCheck: false,
+      lazyConnect: true,
+    })
+  }
+  return redisClient
+}
+
+export function getLockBackend(): LockBackend {
+  return process.env.REDIS_URL ? 'redis' : 'postgres'
+}
+
+/**
+ * Run against Redis when configured, falling back to Postgres if it fails
+ */
+async function withBackend<T>(
+  redisOperation: (redis: Redis) => Promise<T>,
+  postgresOperation: () => Promise<T>
+): Promise<T> {
+  const redis = getRedis()
+  if (redis) {
+    try {
+      return await redisOperation(redis)
+    } catch (error) {
+      console.error('[LOCKS] Redis unavailable, falling back to Postgres:', error)
+    }
+  }
+  return postgresOperation()
+}
+
+function getResourceKey(resourceType: LockResourceType, resourceId: string): string {
+  return `${resourceType}:${resourceId}`
+}
+
+/**
+ * Customers are locked by email address - "Name <a@b.com>" and "A@B.com" are the same customer
+ */
+export function getCustomerResourceId(email: string): string {
+  const address = email.match(/<([^>]+)>/)?.[1] || email
+  return address.trim().toLowerCase()
+}
+
+function fromRow(row: any): ResourceLock {
+  return {
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    agent: row.agent,
+    action: row.action,
+    token: row.token,
+    priority: row.priority,
+    acquiredAt: row.acquired_at,
+    expiresAt: row.expires_at
+  }
+}
+
+function toRow(lock: ResourceLock) {
+  return {
+    resource_key: getResourceKey(lock.resourceType, lock.resourceId),
+    resource_type: lock.resourceType,
+    resource_id: lock.resourceId,
+    agent: lock.agent,
+    action: lock.action,
+    token: lock.token,
+    priority: lock.priority,
+    acquired_at: lock.acquiredAt,
+    expires_at: lock.expiresAt
+  }
+}
+
+// ============================================
+// Redis backend
+// ============================================
+
+async function acquireRedis(redis: Redis, candidate: ResourceLock, ttlMs: number): Promise<LockResult> {
+  const [holderJson, previousJson, renewed] = await redis.eval(
+    ACQUIRE_SCRIPT,
+    1,
+    REDIS_KEY_PREFIX + getResourceKey(candidate.resourceType, candidate.resourceId),
+    JSON.stringify(candidate),
+    candidate.token,
+    candidate.priority,
+    ttlMs,
+    candidate.expiresAt
+  ) as [string, string, string]
+
+  const holder: ResourceLock = JSON.parse(holderJson)
+  const acquired = holder.token === candidate.token
+
+  return {
+    acquired,
+    lock: holder,
+    preempted: acquired && previousJson ? JSON.parse(previousJson) : undefined,
+    reentrant: renewed === '1'
+  }
+}
+
+async function listRedis(redis: Redis): Promise<ResourceLock[]> {
+  const keys: string[] = []
+  let cursor = '0'
+  do {
+    const [next, batch] = await redis.scan(cursor, 'MATCH', `${REDIS_KEY_PREFIX}*`, 'COUNT', 100)
+    keys.push(...batch)
+    cursor = next
+  } while (cursor !== '0')
+
+  if (keys.length === 0) return []
+
+  const values = await redis.mget(...keys)
+  return values
+    .filter((value): value is string => !!value)
+    .map(value => JSON.parse(value))
+}
+
+// ============================================
+// Postgres backend
+// ============================================
+
+async function readPostgres(resourceKey: string): Promise<ResourceLock | null> {
+  const { data, error } = await supabase
+    .from('resource_locks')
+    .select('*')
+    .eq('resource_key', resourceKey)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? fromRow(data) : null
+}
+
+async function acquirePostgres(candidate: ResourceLock): Promise<LockResult> {
+  const resourceKey = getResourceKey(candidate.resourceType, candidate.resourceId)
+
+  // A concurrent acquire can change the row between read and update; retry a couple of times
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('resource_locks')
+      .insert(toRow(candidate))
+      .select()
+      .maybeSingle()
+
+    if (inserted) {
+      return { acquired: true, lock: fromRow(inserted), reentrant: false }
+    }
+    if (insertError && insertError.code !== '23505') {
+      throw insertError
+    }
+
+    const held = await readPostgres(resourceKey)
+    if (!held) continue
+
+    const reentrant = held.token === candidate.token
+    const expired = new Date(held.expiresAt).getTime() <= Date.now()
+
+    if (!reentrant && !expired && held.priority <= candidate.priority) {
+      return { acquired: false, lock: held, reentrant: false }
+    }
+
+    // Only replace the holder we just read
+    const { data: updated, error: updateError } = await supabase
+      .from('resource_locks')
+      .update(reentrant ? { expires_at: candidate.expiresAt } : toRow(candidate))
+      .eq('resource_key', resourceKey)
+      .eq('token', held.token)
+      .select()
+      .maybeSingle()
+
+    if (updateError) throw updateError
+    if (updated) {
+      return {
+        acquired: true,
+        lock: fromRow(updated),
+        preempted: !reentrant && !expired ? held : undefined,
+        reentrant
+      }
+    }
+  }
+
+  const holder = await readPostgres(resourceKey)
+  if (!holder) {
+    throw new Error(`Could not acquire lock on ${resourceKey}`)
+  }
+  return { acquired: holder.token === candidate.token, lock: holder, reentrant: false }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Acquire one lock. Pass the token of a lock you already hold to renew it.
+ */
+export async function acquireLock(request: LockRequest): Promise<LockResult> {
+  const ttlSeconds = request.ttlSeconds || ORCHESTRATOR_CONFIG.operationTimeoutSeconds
+  const now = new Date()
+  const candidate: ResourceLock = {
+    resourceType: request.resourceType,
+    resourceId: request.resourceId,
+    agent: request.agent,
+    action: request.action,
+    token: request.token || randomUUID(),
+    priority: getLockPriority(request.agent),
+    acquiredAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString()
+  }
+
+  const result = await withBackend(
+    redis => acquireRedis(redis, candidate, ttlSeconds * 1000),
+    () => acquirePostgres(candidate)
+  )
+
+  if (result.preempted) {
+    const { preempted } = result
+    await logToSquadMessages(
+      'orchestrator',
+      `${request.agent} took over ${request.resourceType} ${request.resourceId} from ${preempted.agent} (${preempted.action})`,
+      {
+        action: 'lock_preempted',
+        resource_type: request.resourceType,
+        resource_id: request.resourceId,
+        agent: request.agent,
+        preempted_agent: preempted.agent,
+        preempted_action: preempted.action
+      }
+    )
+  }
+
+  return result
+}
+
+/**
+ * Release a lock. Does nothing if it expired or was taken over.
+ */
+export async function releaseLock(lock: ResourceLock): Promise<void> {
+  const resourceKey = getResourceKey(lock.resourceType, lock.resourceId)
+
+  try {
+    await withBackend(
+      async redis => {
+        await redis.eval(RELEASE_SCRIPT, 1, REDIS_KEY_PREFIX + resourceKey, lock.token)
+      },
+      async () => {
+        const { error } = await supabase
+          .from('resource_locks')
+          .delete()
+          .eq('resource_key', resourceKey)
+          .eq('token', lock.token)
+        if (error) throw error
+      }
+    )
+  } catch (error) {
+    // The lock lapses on its own at expiresAt
+    console.error(`[LOCKS] Failed to release ${resourceKey}:`, error)
+  }
+}
+
+/**
+ * Whether the caller still holds the lock (not expired, not taken over)
+ */
+export async function isLockHeld(lock: ResourceLock): Promise<boolean> {
+  const resourceKey = getResourceKey(lock.resourceType, lock.resourceId)
+
+  const current = await withBackend(
+    async redis => {
+      const value = await redis.get(REDIS_KEY_PREFIX + resourceKey)
+      return value ? JSON.parse(value) as ResourceLock : null
+    },
+    () => readPostgres(resourceKey)
+  )
+
+  return !!current &&
+    current.token === lock.token &&
+    new Date(current.expiresAt).getTime() > Date.now()
+}
+
+/**
+ * Acquire several locks under one token, all or nothing. The token can be
+ * passed to a route the caller invokes so it shares the locks.
+ */
+export async function acquireLocks(requests: LockRequest[], token?: string): Promise<LocksResult> {
+  const sharedToken = token || randomUUID()
+  const locks: LockResult[] = []
+
+  for (const request of requests) {
+    const result = await acquireLock({ ...request, token: sharedToken })
+    if (!result.acquired) {
+      await releaseLocks(locks)
+      return { acquired: false, heldBy: result.lock }
+    }
+    locks.push(result)
+  }
+
+  return { acquired: true, locks, token: sharedToken }
+}
+
+/**
+ * Release locks taken by acquireLocks(), leaving renewed ones to their original holder
+ */
+export async function releaseLocks(locks: LockResult[]): Promise<void> {
+  for (const result of locks) {
+    if (result.acquired && !result.reentrant) {
+      await releaseLock(result.lock)
+    }
+  }
+}
+
+/**
+ * Run fn while holding the locks; returns the current holder instead if any is taken
+ */
+export async function withResourceLocks<T>(
+  requests: LockRequest[],
+  fn: (token: string) => Promise<T>,
+  token?: string
+): Promise<{ acquired: true; result: T } | { acquired: false; heldBy: ResourceLock }> {
+  const locks = await acquireLocks(requests, token)
+  if (!locks.acquired) {
+    return locks
+  }
+
+  try {
+    return { acquired: true, result: await fn(locks.token) }
+  } finally {
+    await releaseLocks(locks.locks)
+  }
+}
+
+/**
+ * All unexpired locks, oldest first
+ */
+export async function listActiveLocks(): Promise<ResourceLock[]> {
+  const locks = await withBackend(
+    listRedis,
+    async () => {
+      const { data, error } = await supabase
+        .from('resource_locks')
+        .select('*')
+        .gt('expires_at', new Date().toISOString())
+
+      if (error) throw error
+      return (data || []).map(fromRow)
+    }
+  )
+
+  return locks.sort((a, b) => a.acquiredAt.localeCompare(b.acquiredAt))
+}
+
+/**
+ * Delete lapsed rows from the Postgres fallback (Redis expires keys itself)
+ */
+export async function purgeExpiredLocks(): Promise<number> {
+  const { data, error } = await supabase
+    .from('resource_locks')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('resource_key')
+
+  if (error) {
+    console.error('[LOCKS] Failed to purge expired locks:', error)
+    return 0
+  }
+  return data?.length || 0
+}
+
+export const resourceLocks = {
+  acquireLock,
+  releaseLock,
+  isLockHeld,
+  acquireLocks,
+  releaseLocks,
+  withResourceLocks,
+  listActiveLocks,
+  purgeExpiredLocks,
+  getLockBackend,
+  getCustomerResourceId
+}
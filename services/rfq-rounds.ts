@@ -0,0 +1,656 @@
+/**
+ * Supplier RFQ Rounds
+ *
+ * Contacting suppliers for a quote request opens a bidding round: a deadline
+ * (RFQ_RESPONSE_HOURS), the invited suppliers and whether each has bid.
+ * Suppliers who have not bid get one reminder RFQ_REMINDER_HOURS before the
+ * deadline. The round closes when every supplier has bid or the deadline
+ * passes; the bids are then compared per product on price (in ZAR), lead
+ * time, stock and the supplier's reliability score, and the best bid per
+ * product is proposed for award in an award_rfq task. The "Supplier RFQ
+ * awards" approval policy lets low-value awards go ahead automatically and
+ * sends high-value ones to approval. The Quote Agent prices each product
+ * from its awarded supplier.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { supplierScoringService } from '@/lib/supplier-scoring'
+import { gmailService } from '@/services/integrations/gmail-service'
+import { getRateSnapshot, convertToZar, normalizeCurrency, BASE_CURRENCY } from '@/services/exchange-rates'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** How bids are weighed against each other (out of 100) */
+export const RFQ_SCORE_WEIGHTS = {
+  price: 50,
+  reliability: 20,
+  lead_time: 15,
+  stock: 15
+}
+
+export type RfqRoundStatus = 'open' | 'closed' | 'awarded' | 'cancelled'
+export type RfqSupplierStatus = 'invited' | 'responded' | 'no_response' | 'awarded' | 'not_awarded'
+export type RfqCloseReason = 'all_responded' | 'deadline'
+
+export interface RfqItem {
+  product_name: string
+  quantity: number
+  specifications?: string
+}
+
+export interface RfqBid {
+  supplier_id: string
+  supplier_name: string
+  interaction_id: string
+  priced_product: string
+  /** ZAR */
+  unit_price: number
+  original_unit_price: number
+  original_currency: string
+  lead_time_days: number | null
+  stock_status: string | null
+  reliability_score: number | null
+  /** Weighted score out of 100 (RFQ_SCORE_WEIGHTS) */
+  score: number
+}
+
+export interface RfqComparisonRow {
+  product_name: string
+  quantity: number
+  bids: RfqBid[]
+  winner_supplier_id: string | null
+}
+
+export interface RfqAwardLine {
+  product_name: string
+  supplier_id: string
+  supplier_name: string
+  unit_price: number
+  quantity: number
+  line_total: number
+}
+
+export interface RfqRoundSupplier {
+  id: string
+  rfq_round_id: string
+  supplier_id: string
+  contact_email: string
+  contact_name: string | null
+  products: string[]
+  status: RfqSupplierStatus
+  invited_at: string
+  gmail_message_id: string | null
+  reminder_count: number
+  last_reminded_at: string | null
+  responded_at: string | null
+  response_interaction_id: string | null
+  supplier?: { company: string; name: string } | null
+}
+
+export interface RfqRound {
+  id: string
+  quote_request_id: string
+  round_number: number
+  status: RfqRoundStatus
+  items: RfqItem[]
+  deadline: string
+  closed_at: string | null
+  close_reason: RfqCloseReason | null
+  comparison: RfqComparisonRow[] | null
+  award: RfqAwardLine[] | null
+  award_value: number | null
+  award_task_id: string | null
+  awarded_at: string | null
+  awarded_by: string | null
+  created_at: string
+  updated_at: string
+  suppliers?: RfqRoundSupplier[]
+}
+
+function getResponseHours(): number {
+  return parseInt(process.env.RFQ_RESPONSE_HOURS || '48', 10)
+}
+
+function getReminderHours(): number {
+  return parseInt(process.env.RFQ_REMINDER_HOURS || '12', 10)
+}
+
+/**
+ * When bids for a round opened now are due
+ */
+export function getRfqDeadline(from: Date = new Date()): Date {
+  return new Date(from.getTime() + getResponseHours() * HOUR_MS)
+}
+
+/**
+ * Suppliers spell the same model differently ("26CT" vs "26-CT")
+ */
+function matchesProduct(requested: string, priced: string): boolean {
+  const a = requested.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const b = priced.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a))
+}
+
+/**
+ * 100 for stock on hand, 0 for out of stock or on back order, 50 when the
+ * supplier did not say
+ */
+function stockScore(status: string | null): number {
+  if (!status) return 50
+  const text = status.toLowerCase()
+  if (/out of stock|no stock|not available|unavailable|back ?order|on order/.test(text)) return 0
+  if (/in stock|available|ex stock|on hand|yes/.test(text)) return 100
+  return 50
+}
+
+/**
+ * Open a round for the suppliers just emailed. A round still open for the
+ * request (an earlier attempt) is cancelled.
+ */
+export async function openRound(input: {
+  quoteRequestId: string
+  items: RfqItem[]
+  deadline: Date
+  suppliers: Array<{
+    supplierId: string
+    contactEmail: string
+    contactName?: string | null
+    products: string[]
+    gmailMessageId?: string | null
+  }>
+}): Promise<RfqRound> {
+  const { data: previous } = await supabase
+    .from('rfq_rounds')
+    .select('round_number')
+    .eq('quote_request_id', input.quoteRequestId)
+    .order('round_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  await supabase
+    .from('rfq_rounds')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('quote_request_id', input.quoteRequestId)
+    .eq('status', 'open')
+
+  const { data: round, error } = await supabase
+    .from('rfq_rounds')
+    .insert({
+      quote_request_id: input.quoteRequestId,
+      round_number: (previous?.round_number || 0) + 1,
+      items: input.items,
+      deadline: input.deadline.toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to open RFQ round: ${error.message}`)
+  }
+
+  if (input.suppliers.length > 0) {
+    const { error: suppliersError } = await supabase
+      .from('rfq_round_suppliers')
+      .insert(input.suppliers.map(s => ({
+        rfq_round_id: round.id,
+        supplier_id: s.supplierId,
+        contact_email: s.contactEmail,
+        contact_name: s.contactName || null,
+        products: s.products,
+        gmail_message_id: s.gmailMessageId || null
+      })))
+
+    if (suppliersError) {
+      throw new Error(`Failed to record RFQ suppliers: ${suppliersError.message}`)
+    }
+  }
+
+  console.log(`[RFQ] Round ${round.round_number} opened for ${input.quoteRequestId} with ${input.suppliers.length} supplier(s), closes ${round.deadline}`)
+  return round as RfqRound
+}
+
+/**
+ * The latest round of a quote request, with its suppliers
+ */
+export async function getCurrentRound(quoteRequestId: string): Promise<RfqRound | null> {
+  const { data, error } = await supabase
+    .from('rfq_rounds')
+    .select('*, suppliers:rfq_round_suppliers(*, supplier:suppliers(company, name))')
+    .eq('quote_request_id', quoteRequestId)
+    .neq('status', 'cancelled')
+    .order('round_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch RFQ round: ${error.message}`)
+  }
+
+  return data as RfqRound | null
+}
+
+/**
+ * Every round of a quote request, newest first
+ */
+export async function listRounds(quoteRequestId: string): Promise<RfqRound[]> {
+  const { data, error } = await supabase
+    .from('rfq_rounds')
+    .select('*, suppliers:rfq_round_suppliers(*, supplier:suppliers(company, name))')
+    .eq('quote_request_id', quoteRequestId)
+    .order('round_number', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch RFQ rounds: ${error.message}`)
+  }
+
+  return (data || []) as RfqRound[]
+}
+
+/**
+ * Mark a supplier's bid on the open round. A later bid from the same
+ * supplier replaces the earlier one. Returns false when there is no open
+ * round or the supplier was not invited to it.
+ */
+export async function recordBid(quoteRequestId: string, supplierId: string, interactionId: string): Promise<boolean> {
+  const { data: round } = await supabase
+    .from('rfq_rounds')
+    .select('id')
+    .eq('quote_request_id', quoteRequestId)
+    .eq('status', 'open')
+    .maybeSingle()
+
+  if (!round) return false
+
+  const now = new Date().toISOString()
+  const { data: updated } = await supabase
+    .from('rfq_round_suppliers')
+    .update({
+      status: 'responded',
+      responded_at: now,
+      response_interaction_id: interactionId,
+      updated_at: now
+    })
+    .eq('rfq_round_id', round.id)
+    .eq('supplier_id', supplierId)
+    .select('id')
+
+  return (updated?.length || 0) > 0
+}
+
+/**
+ * Whether an open round can close: every invited supplier has bid, or the
+ * deadline has passed
+ */
+export function getCloseReason(round: RfqRound, now: Date = new Date()): RfqCloseReason | null {
+  const suppliers = round.suppliers || []
+  if (suppliers.length > 0 && suppliers.every(s => s.status !== 'invited')) {
+    return 'all_responded'
+  }
+  if (new Date(round.deadline).getTime() <= now.getTime()) {
+    return 'deadline'
+  }
+  return null
+}
+
+/**
+ * Remind invited suppliers who have not bid once the deadline is less than
+ * RFQ_REMINDER_HOURS away. Each supplier is reminded once per round.
+ */
+export async function sendDueReminders(quoteRequestId?: string): Promise<number> {
+  const now = new Date()
+  let query = supabase
+    .from('rfq_rounds')
+    .select('*, suppliers:rfq_round_suppliers(*)')
+    .eq('status', 'open')
+    .gt('deadline', now.toISOString())
+    .lte('deadline', new Date(now.getTime() + getReminderHours() * HOUR_MS).toISOString())
+
+  if (quoteRequestId) {
+    query = query.eq('quote_request_id', quoteRequestId)
+  }
+
+  const { data: rounds, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch RFQ rounds: ${error.message}`)
+  }
+
+  let sent = 0
+
+  for (const round of (rounds || []) as RfqRound[]) {
+    const reference = round.quote_request_id.substring(0, 8)
+    const deadline = new Date(round.deadline)
+
+    for (const invited of round.suppliers || []) {
+      if (invited.status !== 'invited' || invited.reminder_count > 0) continue
+
+      const productsList = invited.products.map((p, idx) => `${idx + 1}. ${p}`).join('\n')
+      const body = `
+      <html>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <p>Hi ${invited.contact_name || 'there'},</p>
+
+          <p>A quick reminder about our quote request (Ref: ${reference}). We are comparing quotes at <strong>${deadline.toLocaleString('en-ZA')}</strong> and would like to include yours.</p>
+
+          <div style="background-color: #f5f5f5; padding: 15px; border-left: 4px solid #007bff; margin: 20px 0;">
+            <pre style="margin: 0; font-family: Arial, sans-serif;">${productsList}</pre>
+          </div>
+
+          <p>Please reply with unit pricing, stock availability and lead time.</p>
+
+          <p>Best regards,<br>
+          Audico Supply Chain Team<br>
+          <em>Quote Reference: ${reference}</em></p>
+        </body>
+      </html>
+    `
+
+      const result = await gmailService.sendEmail(
+        invited.contact_email,
+        `Reminder: Quote Request - Ref: ${reference}`,
+        body
+      )
+
+      if (!result.success) {
+        console.error(`[RFQ] Reminder to ${invited.contact_email} failed: ${result.error}`)
+        continue
+      }
+
+      await supabase
+        .from('rfq_round_suppliers')
+        .update({
+          reminder_count: invited.reminder_count + 1,
+          last_reminded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', invited.id)
+
+      sent++
+    }
+  }
+
+  if (sent > 0) {
+    await logToSquadMessages(
+      'SupplierAgent',
+      `⏰ Sent ${sent} RFQ reminder(s) to suppliers who have not quoted yet`,
+      { quote_request_id: quoteRequestId || null, reminders_sent: sent }
+    )
+  }
+
+  return sent
+}
+
+/**
+ * Compare the bids of a round per product. Prices are converted to ZAR;
+ * bids in a currency without an exchange rate are left out.
+ */
+export async function buildComparison(round: RfqRound): Promise<RfqComparisonRow[]> {
+  const bidders = (round.suppliers || []).filter(s => s.response_interaction_id)
+
+  const { data: interactions, error } = bidders.length > 0
+    ? await supabase
+      .from('email_supplier_interactions')
+      .select('id, supplier_id, pricing_data')
+      .in('id', bidders.map(s => s.response_interaction_id!))
+    : { data: [], error: null }
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier bids: ${error.message}`)
+  }
+
+  const pricedLines = (interactions || []).flatMap((interaction: any) =>
+    Object.entries(interaction.pricing_data || {})
+      .filter(([key, info]: [string, any]) => key !== 'metadata' && info?.unit_price > 0)
+      .map(([pricedProduct, info]: [string, any]) => ({ interaction, pricedProduct, info }))
+  )
+
+  const rates = await getRateSnapshot(pricedLines.map(line => normalizeCurrency(line.info.currency)))
+  const reliability = await supplierScoringService.getReliabilityScores(bidders.map(s => s.supplier_id))
+
+  return round.items.map(item => {
+    const bids: Array<Omit<RfqBid, 'score'>> = []
+
+    for (const bidder of bidders) {
+      const line = pricedLines.find(l =>
+        l.interaction.id === bidder.response_interaction_id && matchesProduct(item.product_name, l.pricedProduct)
+      )
+      if (!line) continue
+
+      const currency = normalizeCurrency(line.info.currency)
+      if (currency !== BASE_CURRENCY && !rates.has(currency)) continue
+
+      bids.push({
+        supplier_id: bidder.supplier_id,
+        supplier_name: bidder.supplier?.company || bidder.supplier?.name || bidder.contact_email,
+        interaction_id: line.interaction.id,
+        priced_product: line.pricedProduct,
+        unit_price: convertToZar(line.info.unit_price, currency, rates),
+        original_unit_price: line.info.unit_price,
+        original_currency: currency,
+        lead_time_days: line.info.lead_time_days ?? null,
+        stock_status: line.info.stock_status || null,
+        reliability_score: reliability.get(bidder.supplier_id) ?? null
+      })
+    }
+
+    const lowestPrice = Math.min(...bids.map(b => b.unit_price))
+    const leadTimes = bids.map(b => b.lead_time_days).filter((d): d is number => d !== null)
+    const shortestLead = leadTimes.length > 0 ? Math.min(...leadTimes) : null
+
+    const scored: RfqBid[] = bids.map(bid => {
+      const priceScore = (lowestPrice / bid.unit_price) * 100
+      const leadScore = bid.lead_time_days === null || shortestLead === null
+        ? 50
+        : ((1 + shortestLead) / (1 + bid.lead_time_days)) * 100
+      const score = (
+        priceScore * RFQ_SCORE_WEIGHTS.price +
+        (bid.reliability_score ?? 50) * RFQ_SCORE_WEIGHTS.reliability +
+        leadScore * RFQ_SCORE_WEIGHTS.lead_time +
+        stockScore(bid.stock_status) * RFQ_SCORE_WEIGHTS.stock
+      ) / 100
+      return { ...bid, score: Math.round(score * 10) / 10 }
+    }).sort((a, b) => b.score - a.score)
+
+    return {
+      product_name: item.product_name,
+      quantity: item.quantity,
+      bids: scored,
+      winner_supplier_id: scored[0]?.supplier_id || null
+    }
+  })
+}
+
+/**
+ * Close an open round, compare the bids and propose the award in an
+ * award_rfq task. The task's approval policy decides whether the award goes
+ * ahead straight away. Returns null if the round was already closed.
+ */
+export async function closeRound(roundId: string, reason: RfqCloseReason): Promise<{ round: RfqRound; awardTaskId: string } | null> {
+  const closedAt = new Date().toISOString()
+  const { data: closed } = await supabase
+    .from('rfq_rounds')
+    .update({ status: 'closed', closed_at: closedAt, close_reason: reason, updated_at: closedAt })
+    .eq('id', roundId)
+    .eq('status', 'open')
+    .select('id')
+
+  if (!closed?.length) return null
+
+  await supabase
+    .from('rfq_round_suppliers')
+    .update({ status: 'no_response', updated_at: closedAt })
+    .eq('rfq_round_id', roundId)
+    .eq('status', 'invited')
+
+  const { data: round, error } = await supabase
+    .from('rfq_rounds')
+    .select('*, suppliers:rfq_round_suppliers(*, supplier:suppliers(company, name)), quote_request:quote_requests(customer_name, customer_email)')
+    .eq('id', roundId)
+    .single()
+
+  if (error || !round) {
+    throw new Error(`Failed to fetch RFQ round: ${error?.message || 'not found'}`)
+  }
+
+  const comparison = await buildComparison(round as RfqRound)
+  const award: RfqAwardLine[] = comparison
+    .filter(row => row.bids.length > 0)
+    .map(row => ({
+      product_name: row.product_name,
+      supplier_id: row.bids[0].supplier_id,
+      supplier_name: row.bids[0].supplier_name,
+      unit_price: row.bids[0].unit_price,
+      quantity: row.quantity,
+      line_total: Math.round(row.bids[0].unit_price * row.quantity * 100) / 100
+    }))
+  const awardValue = Math.round(award.reduce((sum, line) => sum + line.line_total, 0) * 100) / 100
+
+  const customer = round.quote_request?.customer_name || round.quote_request?.customer_email || 'customer'
+  const bidCount = (round.suppliers || []).filter((s: RfqRoundSupplier) => s.status === 'responded').length
+  const awardList = award.length > 0
+    ? award.map(line => `- ${line.product_name} × ${line.quantity}: ${line.supplier_name} @ R ${line.unit_price.toFixed(2)}`).join('\n')
+    : '- No priced bids - the quote will be prepared without supplier prices'
+
+  const { data: task, error: taskError } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Award RFQ - ${customer} (R ${awardValue.toFixed(2)})`,
+      description: `RFQ round ${round.round_number} closed (${reason === 'all_responded' ? 'all suppliers quoted' : 'deadline passed'}) with ${bidCount} of ${(round.suppliers || []).length} supplier(s) quoting.
+
+**Proposed award:**
+${awardList}
+
+**Award value:** R ${awardValue.toFixed(2)}
+
+Approving awards the round and hands the prices to the Quote Agent.`,
+      status: 'new',
+      assigned_agent: 'SupplierAgent',
+      priority: 'high',
+      mentions_kenny: false,
+      deliverable_url: `/quotes/${round.quote_request_id}`,
+      metadata: {
+        quote_request_id: round.quote_request_id,
+        rfq_round_id: roundId,
+        round_number: round.round_number,
+        award_value: awardValue,
+        action_required: 'award_rfq'
+      }
+    })
+    .select('id')
+    .single()
+
+  if (taskError) {
+    throw new Error(`Failed to create RFQ award task: ${taskError.message}`)
+  }
+
+  const { data: updated } = await supabase
+    .from('rfq_rounds')
+    .update({
+      comparison,
+      award,
+      award_value: awardValue,
+      award_task_id: task.id,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', roundId)
+    .select('*, suppliers:rfq_round_suppliers(*, supplier:suppliers(company, name))')
+    .single()
+
+  await logToSquadMessages(
+    'SupplierAgent',
+    `📊 RFQ round ${round.round_number} for ${customer} closed (${reason}) - ${bidCount} bid(s), proposed award R ${awardValue.toFixed(2)}`,
+    { quote_request_id: round.quote_request_id, rfq_round_id: roundId, task_id: task.id }
+  )
+
+  return { round: updated as RfqRound, awardTaskId: task.id }
+}
+
+/**
+ * Award a closed round as proposed: the winning suppliers are marked awarded
+ * and the other bidders not awarded. Awarding an awarded round again is a
+ * no-op, so a retried task does not fail.
+ */
+export async function awardRound(roundId: string, awardedBy: string): Promise<RfqRound> {
+  const { data: round } = await supabase
+    .from('rfq_rounds')
+    .select('*')
+    .eq('id', roundId)
+    .maybeSingle()
+
+  if (!round) {
+    throw new Error('RFQ round not found')
+  }
+  if (round.status === 'awarded') {
+    return round as RfqRound
+  }
+  if (round.status !== 'closed') {
+    throw new Error(`Invalid award: RFQ round is ${round.status}, only closed rounds can be awarded`)
+  }
+
+  const awardedAt = new Date().toISOString()
+  const { data: updated } = await supabase
+    .from('rfq_rounds')
+    .update({ status: 'awarded', awarded_at: awardedAt, awarded_by: awardedBy, updated_at: awardedAt })
+    .eq('id', roundId)
+    .eq('status', 'closed')
+    .select()
+    .single()
+
+  if (!updated) {
+    throw new Error('Invalid award: RFQ round was awarded or cancelled concurrently')
+  }
+
+  const winners = Array.from(new Set(((round.award || []) as RfqAwardLine[]).map(line => line.supplier_id)))
+
+  if (winners.length > 0) {
+    await supabase
+      .from('rfq_round_suppliers')
+      .update({ status: 'awarded', updated_at: awardedAt })
+      .eq('rfq_round_id', roundId)
+      .in('supplier_id', winners)
+  }
+
+  let losers = supabase
+    .from('rfq_round_suppliers')
+    .update({ status: 'not_awarded', updated_at: awardedAt })
+    .eq('rfq_round_id', roundId)
+    .eq('status', 'responded')
+  if (winners.length > 0) {
+    losers = losers.not('supplier_id', 'in', `(${winners.join(',')})`)
+  }
+  await losers
+
+  await logToSquadMessages(
+    'SupplierAgent',
+    `🏆 RFQ round ${round.round_number} awarded by ${awardedBy} - R ${Number(round.award_value || 0).toFixed(2)} to ${winners.length} supplier(s)`,
+    { quote_request_id: round.quote_request_id, rfq_round_id: roundId }
+  )
+
+  return updated as RfqRound
+}
+
+/**
+ * Awarded supplier per product (lowercased name) for the latest round of a
+ * quote request, or null when the request has no awarded round
+ */
+export async function getAwardedSuppliers(quoteRequestId: string): Promise<Map<string, string> | null> {
+  const round = await getCurrentRound(quoteRequestId)
+  if (!round || round.status !== 'awarded') return null
+
+  return new Map((round.award || []).map(line => [line.product_name.toLowerCase(), line.supplier_id]))
+}
+
+export const rfqRounds = {
+  getRfqDeadline,
+  openRound,
+  getCurrentRound,
+  listRounds,
+  recordBid,
+  getCloseReason,
+  sendDueReminders,
+  buildComparison,
+  closeRound,
+  awardRound,
+  getAwardedSuppliers
+}
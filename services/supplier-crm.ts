@@ -0,0 +1,832 @@
+/**
+ * Supplier CRM Service
+ *
+ * Everything about one supplier relationship in one place:
+ * - Profile - the supplier with its account manager, trading terms (payment
+ *   terms, credit limit, delivery zones), contacts, notes, tasks and counts
+ * - Timeline - RFQs sent (SupplierAgent), responses parsed
+ *   (SupplierResponseHandler), committed price lists and queued price
+ *   changes, purchase orders, score changes (SupplierScoringService), merges,
+ *   notes and tasks, newest first and paged by date
+ * - Notes and follow-up tasks kept by the team
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { getApprover } from '@/services/approvers'
+import { normalizeCurrency } from '@/services/exchange-rates'
+import type { Approver } from '@/types/squad'
+
+const DEFAULT_TIMELINE_LIMIT = 50
+const MAX_TIMELINE_LIMIT = 200
+
+export type SupplierTaskStatus = 'open' | 'done' | 'cancelled'
+
+export type TimelineEventType =
+  | 'rfq_sent'
+  | 'supplier_email'
+  | 'price_list'
+  | 'price_change'
+  | 'purchase_order'
+  | 'score_change'
+  | 'merge'
+  | 'note'
+  | 'task'
+
+export interface TradingTerms {
+  payment_terms: string | null
+  /** In credit_currency */
+  credit_limit: number | null
+  credit_currency: string
+  delivery_zones: string[]
+}
+
+export interface SupplierProfileRecord extends TradingTerms {
+  id: string
+  name: string
+  company: string
+  email: string
+  phone: string | null
+  vat_number: string | null
+  registration_number: string | null
+  specialties: string[] | null
+  tags: string[] | null
+  notes: string | null
+  relationship_strength: number | null
+  reliability_score: number | null
+  avg_response_time_hours: number | null
+  last_contact_date: string | null
+  is_active: boolean | null
+  merged_into_id: string | null
+  account_manager_id: string | null
+  metadata: Record<string, any> | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SupplierNote {
+  id: string
+  supplier_id: string
+  body: string
+  author: string
+  pinned: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface SupplierTask {
+  id: string
+  supplier_id: string
+  title: string
+  description: string | null
+  status: SupplierTaskStatus
+  due_date: string | null
+  assigned_to_id: string | null
+  created_by: string
+  completed_by: string | null
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+  assigned_to?: { id: string; name: string } | null
+}
+
+export interface SupplierProfileStats {
+  products: number
+  rfqs_sent: number
+  rfqs_answered: number
+  supplier_emails: number
+  purchase_orders: number
+  open_tasks: number
+}
+
+export interface SupplierProfile {
+  supplier: SupplierProfileRecord
+  account_manager: Approver | null
+  contacts: any[]
+  notes: SupplierNote[]
+  tasks: SupplierTask[]
+  stats: SupplierProfileStats
+}
+
+export interface TimelineEvent {
+  /** `${type}:${row id}` */
+  id: string
+  type: TimelineEventType
+  occurred_at: string
+  title: string
+  detail: string | null
+  /** Who sent, committed, wrote or approved it */
+  actor: string | null
+  data: Record<string, any>
+}
+
+export interface SupplierTimeline {
+  events: TimelineEvent[]
+  /** Pass as `before` for the next page; null when there is nothing older */
+  next_before: string | null
+}
+
+interface TimelineSourceResult {
+  events: TimelineEvent[]
+  /** Date down to which the source has been read; null when read to the end */
+  horizon: string | null
+}
+
+const TASK_SELECT = '*, assigned_to:approvers(id, name)'
+
+const INTERACTION_TITLES: Record<string, string> = {
+  quote_response: 'Quote received',
+  quote_request: 'Quote requested',
+  stock_inquiry: 'Stock enquiry',
+  order_placement: 'Order email',
+  support: 'Support email'
+}
+
+// ============================================
+// Profile
+// ============================================
+
+async function getSupplier(supplierId: string): Promise<SupplierProfileRecord> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .eq('id', supplierId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load supplier: ${error.message}`)
+  if (!data) throw new Error('Supplier not found')
+  return data
+}
+
+async function countRows(table: string, supplierId: string, filter?: (query: any) => any): Promise<number> {
+  let query = supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('supplier_id', supplierId)
+  if (filter) query = filter(query)
+
+  const { count, error } = await query
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`)
+  return count || 0
+}
+
+/**
+ * A supplier with its account manager, contacts, notes, tasks and counts
+ */
+export async function getSupplierProfile(supplierId: string): Promise<SupplierProfile> {
+  const supplier = await getSupplier(supplierId)
+
+  const [accountManager, contactsRes, notes, tasks, products, rfqsSent, rfqsAnswered, supplierEmails, purchaseOrders] =
+    await Promise.all([
+      supplier.account_manager_id ? getApprover(supplier.account_manager_id) : Promise.resolve(null),
+      supabase
+        .from('supplier_contacts')
+        .select('*')
+        .eq('supplier_id', supplierId)
+        .order('preferred_contact', { ascending: false })
+        .order('contact_name', { ascending: true }),
+      listNotes(supplierId),
+      listTasks(supplierId),
+      countRows('supplier_products', supplierId),
+      countRows('rfq_round_suppliers', supplierId),
+      countRows('rfq_round_suppliers', supplierId, q => q.in('status', ['responded', 'awarded', 'not_awarded'])),
+      countRows('email_supplier_interactions', supplierId),
+      countRows('purchase_orders', supplierId, q => q.eq('status', 'sent'))
+    ])
+
+  if (contactsRes.error) throw new Error(`Failed to load contacts: ${contactsRes.error.message}`)
+
+  return {
+    supplier,
+    account_manager: accountManager,
+    contacts: contactsRes.data || [],
+    notes,
+    tasks,
+    stats: {
+      products,
+      rfqs_sent: rfqsSent,
+      rfqs_answered: rfqsAnswered,
+      supplier_emails: supplierEmails,
+      purchase_orders: purchaseOrders,
+      open_tasks: tasks.filter(task => task.status === 'open').length
+    }
+  }
+}
+
+/**
+ * Assign the account manager and set trading terms. Only the fields given
+ * are changed; null clears one.
+ */
+export async function updateSupplierProfile(
+  supplierId: string,
+  input: {
+    accountManagerId?: string | null
+    paymentTerms?: string | null
+    creditLimit?: number | null
+    creditCurrency?: string | null
+    deliveryZones?: string[] | null
+  },
+  updatedBy: string
+): Promise<SupplierProfileRecord> {
+  const errors: string[] = []
+  const updates: Record<string, any> = {}
+
+  if (input.paymentTerms !== undefined) {
+    if (input.paymentTerms !== null && typeof input.paymentTerms !== 'string') {
+      errors.push('payment_terms must be text')
+    } else {
+      updates.payment_terms = input.paymentTerms?.trim() || null
+    }
+  }
+  if (input.creditLimit !== undefined) {
+    if (input.creditLimit !== null && (typeof input.creditLimit !== 'number' || !Number.isFinite(input.creditLimit) || input.creditLimit < 0)) {
+      errors.push('credit_limit must be a number of 0 or more')
+    }
+    updates.credit_limit = input.creditLimit
+  }
+  if (input.creditCurrency !== undefined) {
+    updates.credit_currency = normalizeCurrency(input.creditCurrency)
+  }
+  if (input.deliveryZones !== undefined) {
+    if (input.deliveryZones !== null && (!Array.isArray(input.deliveryZones) || input.deliveryZones.some(zone => typeof zone !== 'string'))) {
+      errors.push('delivery_zones must be a list of region names')
+    } else {
+      updates.delivery_zones = Array.from(new Set((input.deliveryZones || []).map(zone => zone.trim()).filter(Boolean)))
+    }
+  }
+
+  let accountManager: Approver | null = null
+  if (input.accountManagerId) {
+    accountManager = await getApprover(input.accountManagerId)
+    if (!accountManager || !accountManager.is_active) {
+      errors.push('account_manager_id must be an active team member')
+    }
+  }
+  if (input.accountManagerId !== undefined) {
+    updates.account_manager_id = input.accountManagerId || null
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid supplier profile: ${errors.join('; ')}`)
+  }
+
+  const before = await getSupplier(supplierId)
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', supplierId)
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to update supplier: ${error.message}`)
+
+  if (input.accountManagerId !== undefined && before.account_manager_id !== data.account_manager_id) {
+    await logToSquadMessages(
+      'SupplierAgent',
+      accountManager
+        ? `🤝 ${data.company} assigned to ${accountManager.name} by ${updatedBy}`
+        : `🤝 ${data.company} no longer has an account manager (${updatedBy})`,
+      { supplier_id: supplierId, account_manager_id: data.account_manager_id }
+    )
+  }
+
+  return data
+}
+
+// ============================================
+// Notes
+// ============================================
+
+export async function listNotes(supplierId: string): Promise<SupplierNote[]> {
+  const { data, error } = await supabase
+    .from('supplier_notes')
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .order('pinned', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to load supplier notes: ${error.message}`)
+  return data || []
+}
+
+export async function addNote(input: {
+  supplierId: string
+  body: string
+  author: string
+  pinned?: boolean
+}): Promise<SupplierNote> {
+  if (!input.body?.trim()) {
+    throw new Error('Invalid note: body is required')
+  }
+  await getSupplier(input.supplierId)
+
+  const { data, error } = await supabase
+    .from('supplier_notes')
+    .insert({
+      supplier_id: input.supplierId,
+      body: input.body.trim(),
+      author: input.author,
+      pinned: input.pinned || false
+    })
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to add note: ${error.message}`)
+  return data
+}
+
+export async function updateNote(
+  supplierId: string,
+  noteId: string,
+  input: { body?: string; pinned?: boolean }
+): Promise<SupplierNote> {
+  const updates: Record<string, any> = {}
+  if (input.body !== undefined) {
+    if (!input.body?.trim()) throw new Error('Invalid note: body is required')
+    updates.body = input.body.trim()
+  }
+  if (input.pinned !== undefined) updates.pinned = Boolean(input.pinned)
+
+  const { data, error } = await supabase
+    .from('supplier_notes')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', noteId)
+    .eq('supplier_id', supplierId)
+    .select()
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to update note: ${error.message}`)
+  if (!data) throw new Error('Note not found')
+  return data
+}
+
+export async function deleteNote(supplierId: string, noteId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('supplier_notes')
+    .delete()
+    .eq('id', noteId)
+    .eq('supplier_id', supplierId)
+    .select('id')
+
+  if (error) throw new Error(`Failed to delete note: ${error.message}`)
+  if (!data?.length) throw new Error('Note not found')
+}
+
+// ============================================
+// Tasks
+// ============================================
+
+function validateDueDate(dueDate: string | null | undefined): string[] {
+  if (dueDate == null || dueDate === '') return []
+  return /^\d{4}-\d{2}-\d{2}$/.test(dueDate) && !isNaN(Date.parse(dueDate))
+    ? []
+    : ['due_date must be a date (YYYY-MM-DD)']
+}
+
+async function validateAssignee(assignedToId: string | null | undefined): Promise<string[]> {
+  if (!assignedToId) return []
+  const approver = await getApprover(assignedToId)
+  return approver?.is_active ? [] : ['assigned_to_id must be an active team member']
+}
+
+/**
+ * A supplier's tasks - open ones first, by due date
+ */
+export async function listTasks(supplierId: string): Promise<SupplierTask[]> {
+  const { data, error } = await supabase
+    .from('supplier_tasks')
+    .select(TASK_SELECT)
+    .eq('supplier_id', supplierId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to load supplier tasks: ${error.message}`)
+
+  const rank = (task: SupplierTask) => (task.status === 'open' ? 0 : 1)
+  return ((data || []) as SupplierTask[]).sort((a, b) =>
+    rank(a) - rank(b) ||
+    (a.status === 'open' ? (a.due_date || '9999').localeCompare(b.due_date || '9999') : 0)
+  )
+}
+
+/**
+ * Add a follow-up task. Unassigned tasks go to the supplier's account manager.
+ */
+export async function createTask(input: {
+  supplierId: string
+  title: string
+  description?: string | null
+  dueDate?: string | null
+  assignedToId?: string | null
+  createdBy: string
+}): Promise<SupplierTask> {
+  const errors = [...validateDueDate(input.dueDate), ...await validateAssignee(input.assignedToId)]
+  if (!input.title?.trim()) errors.push('title is required')
+  if (errors.length > 0) {
+    throw new Error(`Invalid task: ${errors.join('; ')}`)
+  }
+
+  const supplier = await getSupplier(input.supplierId)
+
+  const { data, error } = await supabase
+    .from('supplier_tasks')
+    .insert({
+      supplier_id: input.supplierId,
+      title: input.title.trim(),
+      description: input.description?.trim() || null,
+      due_date: input.dueDate || null,
+      assigned_to_id: input.assignedToId || supplier.account_manager_id,
+      created_by: input.createdBy
+    })
+    .select(TASK_SELECT)
+    .single()
+
+  if (error) throw new Error(`Failed to create task: ${error.message}`)
+  return data as SupplierTask
+}
+
+/**
+ * Edit a task, or close it with `status: "done"` / `"cancelled"` (reopen
+ * with `"open"`)
+ */
+export async function updateTask(
+  supplierId: string,
+  taskId: string,
+  input: {
+    title?: string
+    description?: string | null
+    dueDate?: string | null
+    assignedToId?: string | null
+    status?: SupplierTaskStatus
+  },
+  updatedBy: string
+): Promise<SupplierTask> {
+  const errors = [...validateDueDate(input.dueDate), ...await validateAssignee(input.assignedToId)]
+  if (input.title !== undefined && !input.title?.trim()) errors.push('title is required')
+  if (input.status !== undefined && !['open', 'done', 'cancelled'].includes(input.status)) {
+    errors.push('status must be open, done or cancelled')
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid task: ${errors.join('; ')}`)
+  }
+
+  const updates: Record<string, any> = {}
+  if (input.title !== undefined) updates.title = input.title.trim()
+  if (input.description !== undefined) updates.description = input.description?.trim() || null
+  if (input.dueDate !== undefined) updates.due_date = input.dueDate || null
+  if (input.assignedToId !== undefined) updates.assigned_to_id = input.assignedToId || null
+  if (input.status !== undefined) {
+    updates.status = input.status
+    updates.completed_by = input.status === 'open' ? null : updatedBy
+    updates.completed_at = input.status === 'open' ? null : new Date().toISOString()
+  }
+
+  const { data, error } = await supabase
+    .from('supplier_tasks')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', taskId)
+    .eq('supplier_id', supplierId)
+    .select(TASK_SELECT)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to update task: ${error.message}`)
+  if (!data) throw new Error('Task not found')
+  return data as SupplierTask
+}
+
+// ============================================
+// Timeline
+// ============================================
+
+/**
+ * The newest `limit` rows of a supplier's table before `before`, by `column`
+ */
+async function fetchTimelineRows(
+  table: string,
+  select: string,
+  column: string,
+  supplierColumn: string,
+  supplierId: string,
+  before: string | null,
+  limit: number,
+  filter?: (query: any) => any
+): Promise<any[]> {
+  let query = supabase
+    .from(table)
+    .select(select)
+    .eq(supplierColumn, supplierId)
+    .not(column, 'is', null)
+    .order(column, { ascending: false })
+    .limit(limit)
+  if (before) query = query.lt(column, before)
+  if (filter) query = filter(query)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load ${table}: ${error.message}`)
+  return data || []
+}
+
+function toSource<T>(
+  rows: T[],
+  limit: number,
+  getDate: (row: T) => string,
+  toEvent: (row: T) => TimelineEvent | null
+): TimelineSourceResult {
+  return {
+    events: rows.map(toEvent).filter((event): event is TimelineEvent => event !== null),
+    horizon: rows.length >= limit ? getDate(rows[rows.length - 1]) : null
+  }
+}
+
+function formatMoney(amount: number | null | undefined, currency: string = 'ZAR'): string {
+  if (amount == null) return '-'
+  return `${currency === 'ZAR' ? 'R' : `${currency} `}${Number(amount).toLocaleString('en-ZA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+async function rfqEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'rfq_round_suppliers',
+    '*, round:rfq_rounds(round_number, quote_request_id, deadline, quote_request:quote_requests(customer_name, customer_email))',
+    'invited_at', 'supplier_id', supplierId, before, limit
+  )
+
+  return toSource(rows, limit, row => row.invited_at, row => {
+    const customer = row.round?.quote_request?.customer_name || row.round?.quote_request?.customer_email
+    return {
+      id: `rfq_sent:${row.id}`,
+      type: 'rfq_sent',
+      occurred_at: row.invited_at,
+      title: `RFQ sent to ${row.contact_name || row.contact_email}`,
+      detail: [
+        row.round && `Round ${row.round.round_number}${customer ? ` for ${customer}` : ''}`,
+        row.products?.length ? row.products.join(', ') : null,
+        row.reminder_count > 0 ? `${row.reminder_count} reminder${row.reminder_count === 1 ? '' : 's'}` : null
+      ].filter(Boolean).join(' · ') || null,
+      actor: 'SupplierAgent',
+      data: {
+        status: row.status,
+        quote_request_id: row.round?.quote_request_id || null,
+        rfq_round_id: row.rfq_round_id,
+        responded_at: row.responded_at
+      }
+    }
+  })
+}
+
+async function interactionEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'email_supplier_interactions',
+    '*, email_log:email_logs(subject, from_email)',
+    'extracted_at', 'supplier_id', supplierId, before, limit
+  )
+
+  return toSource(rows, limit, row => row.extracted_at, row => ({
+    id: `supplier_email:${row.id}`,
+    type: 'supplier_email',
+    occurred_at: row.extracted_at,
+    title: INTERACTION_TITLES[row.interaction_type] || 'Supplier email',
+    detail: [
+      row.email_log?.subject,
+      row.products_mentioned?.length ? `${row.products_mentioned.length} product${row.products_mentioned.length === 1 ? '' : 's'}` : null
+    ].filter(Boolean).join(' · ') || null,
+    actor: row.email_log?.from_email || null,
+    data: {
+      interaction_type: row.interaction_type,
+      email_log_id: row.email_log_id,
+      products_mentioned: row.products_mentioned || [],
+      pricing_data: row.pricing_data || {},
+      quote_request_id: row.quote_request_id || null
+    }
+  }))
+}
+
+async function priceListEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'price_list_uploads',
+    'id, filename, summary, committed_at, committed_by',
+    'committed_at', 'supplier_id', supplierId, before, limit
+  )
+
+  return toSource(rows, limit, row => row.committed_at, row => {
+    const committed = row.summary?.committed
+    return {
+      id: `price_list:${row.id}`,
+      type: 'price_list',
+      occurred_at: row.committed_at,
+      title: `Price list ${row.filename} committed`,
+      detail: committed
+        ? `${committed.added} new products, ${committed.updated} prices updated, ${committed.queued} changes queued for review`
+        : null,
+      actor: row.committed_by,
+      data: { upload_id: row.id, committed: committed || null }
+    }
+  })
+}
+
+/** Queued price changes that did not come from a price list (those are summarised by it) */
+async function priceChangeEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'price_change_queue',
+    '*',
+    'created_at', 'supplier_id', supplierId, before, limit,
+    query => query.is('price_list_upload_id', null)
+  )
+
+  return toSource(rows, limit, row => row.created_at, row => ({
+    id: `price_change:${row.id}`,
+    type: 'price_change',
+    occurred_at: row.created_at,
+    title: `Price change: ${row.product_name || row.sku || 'product'}`,
+    detail: row.new_cost != null
+      ? `Cost ${formatMoney(row.current_cost)} → ${formatMoney(row.new_cost)}`
+      : `Price ${formatMoney(row.current_price)} → ${formatMoney(row.new_price)}${row.price_change_pct != null ? ` (${row.price_change_pct > 0 ? '+' : ''}${row.price_change_pct}%)` : ''}`,
+    actor: row.reviewed_by || null,
+    data: { status: row.status, sku: row.sku, price_change_pct: row.price_change_pct }
+  }))
+}
+
+async function purchaseOrderEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'purchase_orders',
+    'id, po_number, order_no, total, currency, status, approved_by, sent_at, created_at, items',
+    'created_at', 'supplier_id', supplierId, before, limit
+  )
+
+  return toSource(rows, limit, row => row.created_at, row => ({
+    id: `purchase_order:${row.id}`,
+    type: 'purchase_order',
+    occurred_at: row.created_at,
+    title: `Purchase order ${row.po_number}`,
+    detail: [
+      formatMoney(row.total, row.currency),
+      `${(row.items || []).length} line${(row.items || []).length === 1 ? '' : 's'}`,
+      `order ${row.order_no}`,
+      row.status === 'sent' && row.sent_at ? `sent ${new Date(row.sent_at).toLocaleDateString('en-ZA')}` : row.status.replace('_', ' ')
+    ].join(' · '),
+    actor: row.approved_by || null,
+    data: { status: row.status, order_no: row.order_no, total: row.total, currency: row.currency }
+  }))
+}
+
+/**
+ * Scoring runs daily, so only runs that changed a score are shown. One row
+ * more than the page is read to compare the oldest one with.
+ */
+async function scoreEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'supplier_score_history',
+    '*',
+    'recorded_at', 'supplier_id', supplierId, before, limit + 1
+  )
+
+  const events: TimelineEvent[] = []
+  for (let i = 0; i < Math.min(rows.length, limit); i++) {
+    const row = rows[i]
+    const previous = rows[i + 1]
+    const changes: string[] = []
+
+    if (!previous) {
+      changes.push(`Relationship ${row.relationship_strength ?? '-'}`, `reliability ${row.reliability_score ?? '-'}`)
+    } else {
+      if (row.relationship_strength !== previous.relationship_strength) {
+        changes.push(`Relationship ${previous.relationship_strength ?? '-'} → ${row.relationship_strength ?? '-'}`)
+      }
+      if (row.reliability_score !== previous.reliability_score) {
+        changes.push(`Reliability ${previous.reliability_score ?? '-'} → ${row.reliability_score ?? '-'}`)
+      }
+    }
+    if (changes.length === 0) continue
+
+    events.push({
+      id: `score_change:${row.id}`,
+      type: 'score_change',
+      occurred_at: row.recorded_at,
+      title: previous ? 'Scores changed' : 'First scored',
+      detail: changes.join(' · '),
+      actor: 'SupplierScoringService',
+      data: {
+        relationship_strength: row.relationship_strength,
+        reliability_score: row.reliability_score,
+        previous_relationship_strength: previous?.relationship_strength ?? null,
+        previous_reliability_score: previous?.reliability_score ?? null
+      }
+    })
+  }
+
+  return { events, horizon: rows.length > limit ? rows[limit - 1].recorded_at : null }
+}
+
+async function mergeEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows(
+    'supplier_merges',
+    'id, status, merged_before, moved_rows, merged_by, merged_at, undone_by',
+    'merged_at', 'survivor_id', supplierId, before, limit
+  )
+
+  return toSource(rows, limit, row => row.merged_at, row => ({
+    id: `merge:${row.id}`,
+    type: 'merge',
+    occurred_at: row.merged_at,
+    title: `Merged ${row.merged_before?.company || 'a duplicate'} into this supplier`,
+    detail: `${Object.values(row.moved_rows || {}).reduce((sum: number, ids: any) => sum + ids.length, 0)} records moved${row.status === 'undone' ? ` · undone by ${row.undone_by}` : ''}`,
+    actor: row.merged_by,
+    data: { merge_id: row.id, status: row.status }
+  }))
+}
+
+async function noteEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows('supplier_notes', '*', 'created_at', 'supplier_id', supplierId, before, limit)
+
+  return toSource(rows, limit, row => row.created_at, row => ({
+    id: `note:${row.id}`,
+    type: 'note',
+    occurred_at: row.created_at,
+    title: 'Note',
+    detail: row.body,
+    actor: row.author,
+    data: { note_id: row.id, pinned: row.pinned }
+  }))
+}
+
+async function taskEvents(supplierId: string, before: string | null, limit: number): Promise<TimelineSourceResult> {
+  const rows = await fetchTimelineRows('supplier_tasks', TASK_SELECT, 'created_at', 'supplier_id', supplierId, before, limit)
+
+  return toSource(rows, limit, row => row.created_at, row => ({
+    id: `task:${row.id}`,
+    type: 'task',
+    occurred_at: row.created_at,
+    title: `Task: ${row.title}`,
+    detail: [
+      row.assigned_to?.name && `for ${row.assigned_to.name}`,
+      row.due_date && `due ${row.due_date}`,
+      row.status !== 'open' && `${row.status} by ${row.completed_by}`
+    ].filter(Boolean).join(' · ') || null,
+    actor: row.created_by,
+    data: { task_id: row.id, status: row.status }
+  }))
+}
+
+/**
+ * A supplier's timeline, newest first. Each source is read up to `limit`
+ * rows before `before`; the page stops at the oldest date every source has
+ * been read down to, so nothing is skipped between pages.
+ */
+export async function getTimeline(
+  supplierId: string,
+  options: { before?: string | null; limit?: number; types?: TimelineEventType[] } = {}
+): Promise<SupplierTimeline> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_TIMELINE_LIMIT, 1), MAX_TIMELINE_LIMIT)
+  const before = options.before || null
+  if (before && isNaN(Date.parse(before))) {
+    throw new Error('Invalid timeline cursor: before must be a date')
+  }
+
+  await getSupplier(supplierId)
+
+  const sources: Record<TimelineEventType, typeof rfqEvents> = {
+    rfq_sent: rfqEvents,
+    supplier_email: interactionEvents,
+    price_list: priceListEvents,
+    price_change: priceChangeEvents,
+    purchase_order: purchaseOrderEvents,
+    score_change: scoreEvents,
+    merge: mergeEvents,
+    note: noteEvents,
+    task: taskEvents
+  }
+  const types = options.types?.length
+    ? options.types.filter(type => type in sources)
+    : Object.keys(sources) as TimelineEventType[]
+
+  const results = await Promise.all(types.map(type => sources[type](supplierId, before, limit)))
+
+  const events = results
+    .flatMap(result => result.events)
+    .sort((a, b) => Date.parse(b.occurred_at) - Date.parse(a.occurred_at))
+
+  // Older than the horizon of a source that has more rows, events of the
+  // other sources may be missing that source's rows - end the page there
+  const cutoffs = results.map(result => result.horizon).filter((h): h is string => h !== null)
+  if (events.length > limit) cutoffs.push(events[limit - 1].occurred_at)
+  const nextBefore = cutoffs.length > 0
+    ? cutoffs.reduce((latest, cutoff) => (Date.parse(cutoff) > Date.parse(latest) ? cutoff : latest))
+    : null
+
+  return {
+    events: nextBefore ? events.filter(event => Date.parse(event.occurred_at) >= Date.parse(nextBefore)) : events,
+    next_before: nextBefore
+  }
+}
+
+export const supplierCrm = {
+  getSupplierProfile,
+  updateSupplierProfile,
+  getTimeline,
+  listNotes,
+  addNote,
+  updateNote,
+  deleteNote,
+  listTasks,
+  createTask,
+  updateTask
+}
@@ -0,0 +1,722 @@
+/**
+ * Supplier Dedupe Service
+ *
+ * Finds and merges suppliers that are the same business:
+ * 1. Scan - suppliers sharing a VAT/registration number, company email
+ *    domain, email address or phone number (their contacts' included) are
+ *    compared and scored (lib/supplier-matching.ts); pairs scoring
+ *    SUPPLIER_DEDUPE_MIN_SCORE or more are queued for review
+ * 2. Merge - everything pointing at the duplicate (products, contacts, email
+ *    interactions, score history, patterns, RFQs, purchase orders, pricing
+ *    rules, price lists, notes, tasks) is moved to the surviving supplier, blanks on the
+ *    survivor are filled from the duplicate and the duplicate is deactivated
+ *    with merged_into_id set
+ * 3. Undo - supplier_merges records the moved rows, both records as they
+ *    were and the survivor fields the merge wrote, so a merge can be
+ *    reversed - refused if a field it filled in has been edited since
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import {
+  getBlockingKeys,
+  scoreSupplierMatch,
+  normalizeEmail,
+  type MatchSignal,
+  type SupplierIdentity
+} from '@/lib/supplier-matching'
+
+/** Pairs scoring below this are not queued */
+export const DEDUPE_MIN_SCORE = parseInt(process.env.SUPPLIER_DEDUPE_MIN_SCORE || '50', 10)
+
+/** Blocks bigger than this (e.g. a shared switchboard number) are skipped */
+const MAX_BLOCK_SIZE = 50
+
+/** `.in()` filters go in the URL - keep id lists short */
+const ID_BATCH_SIZE = 200
+
+/** Tables whose supplier_id moves to the survivor on merge */
+export const MERGE_TABLES = [
+  'supplier_products',
+  'supplier_contacts',
+  'email_supplier_interactions',
+  'supplier_score_history',
+  'supplier_patterns',
+  'rfq_round_suppliers',
+  'purchase_orders',
+  'pricing_rules',
+  'price_list_uploads',
+  'price_list_mapping_templates',
+  'price_change_queue',
+  'supplier_notes',
+  'supplier_tasks'
+] as const
+
+export type MergeTable = typeof MERGE_TABLES[number]
+
+/**
+ * Tables unique per supplier on a column - rows whose value the survivor
+ * already has stay with the duplicate
+ */
+const SURVIVOR_UNIQUE_COLUMNS: Partial<Record<MergeTable, string>> = {
+  supplier_contacts: 'email',
+  price_list_mapping_templates: 'name',
+  // Both suppliers invited to the same RFQ round
+  rfq_round_suppliers: 'rfq_round_id'
+}
+
+/** Survivor fields a merge may fill in - restored on undo */
+const SURVIVOR_FIELDS = [
+  'phone',
+  'vat_number',
+  'registration_number',
+  'specialties',
+  'tags',
+  'notes',
+  'metadata',
+  'last_contact_date',
+  'account_manager_id',
+  'payment_terms',
+  'credit_limit',
+  'credit_currency',
+  'delivery_zones',
+  'sla_targets'
+] as const
+
+type SurvivorField = typeof SURVIVOR_FIELDS[number]
+
+export type DuplicateCandidateStatus = 'pending' | 'merged' | 'dismissed'
+
+export interface SupplierRecord {
+  id: string
+  name: string
+  company: string
+  email: string
+  phone: string | null
+  vat_number: string | null
+  registration_number: string | null
+  specialties: string[] | null
+  tags: string[] | null
+  notes: string | null
+  metadata: Record<string, any> | null
+  account_manager_id: string | null
+  payment_terms: string | null
+  credit_limit: number | null
+  credit_currency: string | null
+  delivery_zones: string[] | null
+  sla_targets: Record<string, number> | null
+  relationship_strength: number | null
+  reliability_score: number | null
+  last_contact_date: string | null
+  is_active: boolean | null
+  merged_into_id: string | null
+  merged_at: string | null
+  created_at: string
+}
+
+export interface DuplicateCandidate {
+  id: string
+  supplier_a_id: string
+  supplier_b_id: string
+  score: number
+  signals: MatchSignal[]
+  name_similarity: number | null
+  status: DuplicateCandidateStatus
+  merge_id: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_at: string
+  updated_at: string
+  supplier_a?: SupplierRecord
+  supplier_b?: SupplierRecord
+}
+
+export interface SupplierMerge {
+  id: string
+  survivor_id: string
+  merged_id: string
+  status: 'merged' | 'undone'
+  moved_rows: Partial<Record<MergeTable, string[]>>
+  created_contact_ids: string[]
+  survivor_before: SupplierRecord
+  merged_before: SupplierRecord
+  /** Null for merges logged before survivor_after was recorded */
+  survivor_after: Pick<SupplierRecord, SurvivorField> | null
+  merged_by: string
+  merged_at: string
+  undone_by: string | null
+  undone_at: string | null
+}
+
+// ============================================
+// Scan
+// ============================================
+
+/**
+ * Compare suppliers that share a blocking key and queue likely duplicates.
+ * Pairs already dismissed or merged are left alone; pending pairs that no
+ * longer score high enough are dropped.
+ */
+export async function scanForDuplicates(): Promise<{ compared: number; candidates: number }> {
+  const { data: suppliers, error } = await supabase
+    .from('suppliers')
+    .select('id, company, email, phone, vat_number, registration_number')
+    .is('merged_into_id', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch suppliers: ${error.message}`)
+  }
+
+  const { data: contacts } = await supabase
+    .from('supplier_contacts')
+    .select('supplier_id, email, phone')
+
+  const identities = new Map<string, SupplierIdentity>()
+  for (const supplier of suppliers || []) {
+    identities.set(supplier.id, { ...supplier, contact_emails: [], contact_phones: [] })
+  }
+  for (const contact of contacts || []) {
+    const identity = identities.get(contact.supplier_id)
+    if (!identity) continue
+    if (contact.email) identity.contact_emails!.push(contact.email)
+    if (contact.phone) identity.contact_phones!.push(contact.phone)
+  }
+
+  const blocks = new Map<string, string[]>()
+  for (const [id, identity] of identities) {
+    for (const key of getBlockingKeys(identity)) {
+      if (!blocks.has(key)) blocks.set(key, [])
+      blocks.get(key)!.push(id)
+    }
+  }
+
+  const pairs = new Set<string>()
+  for (const ids of blocks.values()) {
+    if (ids.length < 2 || ids.length > MAX_BLOCK_SIZE) continue
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const [a, b] = ids[i] < ids[j] ? [ids[i], ids[j]] : [ids[j], ids[i]]
+        pairs.add(`${a}|${b}`)
+      }
+    }
+  }
+
+  const { data: existing } = await supabase
+    .from('supplier_duplicate_candidates')
+    .select('id, supplier_a_id, supplier_b_id, status')
+
+  const reviewed = new Set(
+    (existing || []).filter(c => c.status !== 'pending').map(c => `${c.supplier_a_id}|${c.supplier_b_id}`)
+  )
+
+  const now = new Date().toISOString()
+  const rows: Array<Record<string, any>> = []
+  for (const pair of pairs) {
+    if (reviewed.has(pair)) continue
+    const [a, b] = pair.split('|')
+    const match = scoreSupplierMatch(identities.get(a)!, identities.get(b)!)
+    if (match.score < DEDUPE_MIN_SCORE) continue
+
+    rows.push({
+      supplier_a_id: a,
+      supplier_b_id: b,
+      score: match.score,
+      signals: match.signals,
+      name_similarity: match.name_similarity,
+      status: 'pending',
+      updated_at: now
+    })
+  }
+
+  for (let i = 0; i < rows.length; i += ID_BATCH_SIZE) {
+    const { error: upsertError } = await supabase
+      .from('supplier_duplicate_candidates')
+      .upsert(rows.slice(i, i + ID_BATCH_SIZE), { onConflict: 'supplier_a_id,supplier_b_id' })
+
+    if (upsertError) {
+      throw new Error(`Failed to save duplicate candidates: ${upsertError.message}`)
+    }
+  }
+
+  const queued = new Set(rows.map(row => `${row.supplier_a_id}|${row.supplier_b_id}`))
+  const stale = (existing || [])
+    .filter(c => c.status === 'pending' && !queued.has(`${c.supplier_a_id}|${c.supplier_b_id}`))
+    .map(c => c.id)
+  for (let i = 0; i < stale.length; i += ID_BATCH_SIZE) {
+    await supabase
+      .from('supplier_duplicate_candidates')
+      .delete()
+      .in('id', stale.slice(i, i + ID_BATCH_SIZE))
+  }
+
+  console.log(`[SUPPLIER DEDUPE] Compared ${pairs.size} pairs, ${rows.length} likely duplicates`)
+  return { compared: pairs.size, candidates: rows.length }
+}
+
+async function fetchSuppliers(ids: string[]): Promise<Map<string, SupplierRecord>> {
+  const suppliers = new Map<string, SupplierRecord>()
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('suppliers')
+      .select('*')
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to fetch suppliers: ${error.message}`)
+    }
+    for (const supplier of data || []) {
+      suppliers.set(supplier.id, supplier)
+    }
+  }
+  return suppliers
+}
+
+/**
+ * Candidate pairs with both suppliers, highest score first
+ */
+export async function listCandidates(
+  status: DuplicateCandidateStatus = 'pending',
+  limit: number = 100
+): Promise<DuplicateCandidate[]> {
+  const { data, error } = await supabase
+    .from('supplier_duplicate_candidates')
+    .select('*')
+    .eq('status', status)
+    .order('score', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch duplicate candidates: ${error.message}`)
+  }
+
+  const candidates: DuplicateCandidate[] = data || []
+  const suppliers = await fetchSuppliers(
+    Array.from(new Set(candidates.flatMap(c => [c.supplier_a_id, c.supplier_b_id])))
+  )
+
+  return candidates.map(candidate => ({
+    ...candidate,
+    supplier_a: suppliers.get(candidate.supplier_a_id),
+    supplier_b: suppliers.get(candidate.supplier_b_id)
+  }))
+}
+
+/**
+ * Mark a pair as not duplicates - later scans skip it
+ */
+export async function dismissCandidate(candidateId: string, reviewedBy: string): Promise<DuplicateCandidate> {
+  const { data, error } = await supabase
+    .from('supplier_duplicate_candidates')
+    .update({
+      status: 'dismissed',
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', candidateId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to dismiss candidate: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('Duplicate candidate not found')
+  }
+
+  return data
+}
+
+// ============================================
+// Merge
+// ============================================
+
+async function moveRows(table: MergeTable, ids: string[], fromId: string, toId: string): Promise<void> {
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from(table)
+      .update({ supplier_id: toId })
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE))
+      .eq('supplier_id', fromId)
+
+    if (error) {
+      throw new Error(`Failed to move ${table}: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Rows of the duplicate to move. Contacts the survivor already has (same
+ * email), price list templates with a name the survivor already uses and
+ * invitations to RFQ rounds the survivor is also in stay with the duplicate.
+ */
+async function getRowsToMove(table: MergeTable, mergedId: string, survivorId: string): Promise<string[]> {
+  const column = SURVIVOR_UNIQUE_COLUMNS[table]
+  if (column) {
+    const { data: rows, error } = await supabase.from(table).select(`id, supplier_id, ${column}`).in('supplier_id', [mergedId, survivorId])
+    if (error) {
+      throw new Error(`Failed to fetch ${table}: ${error.message}`)
+    }
+    const key = (row: any) => String(row[column] || '').toLowerCase().trim()
+    const taken = new Set((rows || []).filter((row: any) => row.supplier_id === survivorId).map(key))
+    return (rows || [])
+      .filter((row: any) => row.supplier_id === mergedId && !taken.has(key(row)))
+      .map((row: any) => row.id)
+  }
+
+  const ids: string[] = []
+  const pageSize = 1000
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id')
+      .eq('supplier_id', mergedId)
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch ${table}: ${error.message}`)
+    }
+    ids.push(...(data || []).map((row: { id: string }) => row.id))
+    if (!data || data.length < pageSize) break
+  }
+  return ids
+}
+
+function union(a: string[] | null, b: string[] | null): string[] {
+  return Array.from(new Set([...(a || []), ...(b || [])]))
+}
+
+/**
+ * The survivor fields after a merge: blanks filled from the duplicate
+ */
+function mergeSurvivorFields(survivor: SupplierRecord, merged: SupplierRecord): Pick<SupplierRecord, SurvivorField> {
+  const keepTerms = Boolean(survivor.payment_terms || survivor.credit_limit != null)
+  return {
+    phone: survivor.phone || merged.phone,
+    vat_number: survivor.vat_number || merged.vat_number,
+    registration_number: survivor.registration_number || merged.registration_number,
+    specialties: union(survivor.specialties, merged.specialties),
+    tags: union(survivor.tags, merged.tags),
+    notes: survivor.notes || merged.notes,
+    metadata: { ...(merged.metadata || {}), ...(survivor.metadata || {}) },
+    last_contact_date: [survivor.last_contact_date, merged.last_contact_date].filter(Boolean).sort().pop() || null,
+    account_manager_id: survivor.account_manager_id || merged.account_manager_id,
+    payment_terms: keepTerms ? survivor.payment_terms : merged.payment_terms,
+    credit_limit: keepTerms ? survivor.credit_limit : merged.credit_limit,
+    credit_currency: keepTerms ? survivor.credit_currency : merged.credit_currency || 'ZAR',
+    delivery_zones: union(survivor.delivery_zones, merged.delivery_zones),
+    sla_targets: survivor.sla_targets || merged.sla_targets
+  }
+}
+
+/** Compares field values as stored - JSONB does not keep key order */
+function sameFieldValue(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])]))
+    }
+    return value ?? null
+  }
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b))
+}
+
+/**
+ * Merge a duplicate supplier into the surviving one
+ */
+export async function mergeSuppliers(input: {
+  survivorId: string
+  mergedId: string
+  mergedBy: string
+}): Promise<SupplierMerge> {
+  const { survivorId, mergedId, mergedBy } = input
+
+  if (!survivorId || !mergedId || survivorId === mergedId) {
+    throw new Error('Invalid merge: choose two different suppliers')
+  }
+
+  const suppliers = await fetchSuppliers([survivorId, mergedId])
+  const survivor = suppliers.get(survivorId)
+  const merged = suppliers.get(mergedId)
+  if (!survivor || !merged) {
+    throw new Error('Supplier not found')
+  }
+  if (survivor.merged_into_id || merged.merged_into_id) {
+    throw new Error(`Invalid merge: ${(survivor.merged_into_id ? survivor : merged).company} has already been merged`)
+  }
+
+  const moved: Partial<Record<MergeTable, string[]>> = {}
+  const createdContactIds: string[] = []
+  const survivorAfter = mergeSurvivorFields(survivor, merged)
+
+  try {
+    for (const table of MERGE_TABLES) {
+      const ids = await getRowsToMove(table, mergedId, survivorId)
+      if (ids.length === 0) continue
+      moved[table] = ids
+      await moveRows(table, ids, mergedId, survivorId)
+    }
+
+    // Keep the duplicate's own address reachable as a contact of the survivor
+    const mergedEmail = normalizeEmail(merged.email)
+    if (mergedEmail && mergedEmail !== normalizeEmail(survivor.email)) {
+      const { data: existingContact } = await supabase
+        .from('supplier_contacts')
+        .select('id')
+        .eq('supplier_id', survivorId)
+        .ilike('email', mergedEmail)
+        .limit(1)
+
+      if (!existingContact?.length) {
+        const { data: contact } = await supabase
+          .from('supplier_contacts')
+          .insert({
+            supplier_id: survivorId,
+            contact_name: merged.name || merged.company,
+            email: mergedEmail,
+            phone: merged.phone
+          })
+          .select('id')
+          .single()
+
+        if (contact) createdContactIds.push(contact.id)
+      }
+    }
+
+    const { error: survivorError } = await supabase
+      .from('suppliers')
+      .update({
+        ...survivorAfter,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', survivorId)
+
+    if (survivorError) {
+      throw new Error(`Failed to update surviving supplier: ${survivorError.message}`)
+    }
+
+    const { error: mergedError } = await supabase
+      .from('suppliers')
+      .update({
+        is_active: false,
+        merged_into_id: survivorId,
+        merged_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', mergedId)
+
+    if (mergedError) {
+      throw new Error(`Failed to deactivate merged supplier: ${mergedError.message}`)
+    }
+  } catch (error) {
+    // Put back what was moved so the two records stay consistent
+    for (const [table, ids] of Object.entries(moved) as Array<[MergeTable, string[]]>) {
+      await moveRows(table, ids, survivorId, mergedId).catch(err =>
+        console.error(`[SUPPLIER DEDUPE] Failed to roll back ${table}:`, err)
+      )
+    }
+    if (createdContactIds.length > 0) {
+      await supabase.from('supplier_contacts').delete().in('id', createdContactIds)
+    }
+    await supabase
+      .from('suppliers')
+      .update(Object.fromEntries(SURVIVOR_FIELDS.map(field => [field, survivor[field]])))
+      .eq('id', survivorId)
+    throw error
+  }
+
+  const { data: merge, error: logError } = await supabase
+    .from('supplier_merges')
+    .insert({
+      survivor_id: survivorId,
+      merged_id: mergedId,
+      moved_rows: moved,
+      created_contact_ids: createdContactIds,
+      survivor_before: survivor,
+      merged_before: merged,
+      survivor_after: survivorAfter,
+      merged_by: mergedBy
+    })
+    .select()
+    .single()
+
+  if (logError || !merge) {
+    throw new Error(`Suppliers merged but the undo log could not be saved: ${logError?.message}`)
+  }
+
+  const [a, b] = survivorId < mergedId ? [survivorId, mergedId] : [mergedId, survivorId]
+  await supabase
+    .from('supplier_duplicate_candidates')
+    .upsert({
+      supplier_a_id: a,
+      supplier_b_id: b,
+      score: 100,
+      status: 'merged',
+      merge_id: merge.id,
+      reviewed_by: mergedBy,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'supplier_a_id,supplier_b_id' })
+
+  // Other pairs with the duplicate are rescored against the survivor next scan
+  await supabase
+    .from('supplier_duplicate_candidates')
+    .delete()
+    .eq('status', 'pending')
+    .or(`supplier_a_id.eq.${mergedId},supplier_b_id.eq.${mergedId}`)
+
+  const movedCount = Object.values(moved).reduce((sum, ids) => sum + (ids?.length || 0), 0)
+  await logToSquadMessages(
+    'SupplierAgent',
+    `🔀 ${mergedBy} merged supplier ${merged.company} into ${survivor.company} (${movedCount} records moved)`,
+    { merge_id: merge.id, survivor_id: survivorId, merged_id: mergedId, moved: Object.fromEntries(Object.entries(moved).map(([t, ids]) => [t, ids?.length])) }
+  )
+
+  return merge
+}
+
+/**
+ * Reverse a merge: moved rows go back to the duplicate, the survivor fields
+ * the merge changed are restored and the duplicate is reactivated. Refused
+ * if any of those fields has been edited since the merge.
+ */
+export async function undoMerge(mergeId: string, undoneBy: string): Promise<SupplierMerge> {
+  const { data: merge } = await supabase
+    .from('supplier_merges')
+    .select('*')
+    .eq('id', mergeId)
+    .maybeSingle()
+
+  if (!merge) {
+    throw new Error('Supplier merge not found')
+  }
+  if (merge.status !== 'merged') {
+    throw new Error('Invalid merge: already undone')
+  }
+
+  const suppliers = await fetchSuppliers([merge.survivor_id, merge.merged_id])
+  const survivor = suppliers.get(merge.survivor_id)
+  if (!survivor || !suppliers.get(merge.merged_id)) {
+    throw new Error('Supplier not found')
+  }
+  if (survivor.merged_into_id) {
+    throw new Error(`Invalid merge: ${survivor.company} has since been merged into another supplier - undo that merge first`)
+  }
+
+  const before = merge.survivor_before as SupplierRecord
+  const after = merge.survivor_after || mergeSurvivorFields(before, merge.merged_before as SupplierRecord)
+  const changedFields = SURVIVOR_FIELDS.filter(field => !sameFieldValue(before[field], after[field]))
+  const conflicts = changedFields.filter(field => !sameFieldValue(survivor[field], after[field]))
+
+  if (conflicts.length > 0) {
+    throw new Error(`Undo conflict: ${survivor.company} has been edited since the merge (${conflicts.join(', ')}) - undoing would overwrite those edits`)
+  }
+
+  for (const [table, ids] of Object.entries(merge.moved_rows || {}) as Array<[MergeTable, string[]]>) {
+    await moveRows(table, ids, merge.survivor_id, merge.merged_id)
+  }
+
+  if (merge.created_contact_ids?.length > 0) {
+    await supabase.from('supplier_contacts').delete().in('id', merge.created_contact_ids)
+  }
+
+  if (changedFields.length > 0) {
+    await supabase
+      .from('suppliers')
+      .update({
+        ...Object.fromEntries(changedFields.map(field => [field, before[field]])),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', merge.survivor_id)
+  }
+
+  await supabase
+    .from('suppliers')
+    .update({
+      is_active: (merge.merged_before as SupplierRecord).is_active ?? true,
+      merged_into_id: null,
+      merged_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', merge.merged_id)
+
+  const { data: undone, error } = await supabase
+    .from('supplier_merges')
+    .update({
+      status: 'undone',
+      undone_by: undoneBy,
+      undone_at: new Date().toISOString()
+    })
+    .eq('id', mergeId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to update supplier merge: ${error.message}`)
+  }
+
+  await supabase
+    .from('supplier_duplicate_candidates')
+    .update({
+      status: 'pending',
+      merge_id: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('merge_id', mergeId)
+
+  await logToSquadMessages(
+    'SupplierAgent',
+    `↩️ ${undoneBy} undid the merge of ${(merge.merged_before as SupplierRecord).company} into ${survivor.company}`,
+    { merge_id: mergeId, survivor_id: merge.survivor_id, merged_id: merge.merged_id }
+  )
+
+  return undone
+}
+
+/**
+ * Recent merges, newest first
+ */
+export async function listMerges(limit: number = 50): Promise<SupplierMerge[]> {
+  const { data, error } = await supabase
+    .from('supplier_merges')
+    .select('*')
+    .order('merged_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch supplier merges: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * The live supplier for an id - follows merged_into_id
+ */
+export async function resolveSupplierId(supplierId: string): Promise<string> {
+  let id = supplierId
+  for (let hops = 0; hops < 10; hops++) {
+    const { data } = await supabase
+      .from('suppliers')
+      .select('merged_into_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (!data?.merged_into_id) return id
+    id = data.merged_into_id
+  }
+  return id
+}
+
+export const supplierDedupe = {
+  scanForDuplicates,
+  listCandidates,
+  dismissCandidate,
+  mergeSuppliers,
+  undoMerge,
+  listMerges,
+  resolveSupplierId
+}
@@ -0,0 +1,977 @@
+/**
+ * Supplier SLA Service
+ *
+ * Measures each supplier against its SLA targets, month by month:
+ * - Response - RFQs answered within the target hours (rfq_round_suppliers)
+ * - Quote accuracy - purchase orders where the amount the supplier charged
+ *   (orders_tracker.supplier_amount) is within tolerance of the order total
+ * - On-time delivery - purchase orders shipped within the target days, from
+ *   orders_tracker.supplier_status as recorded by recordDeliveries()
+ * Monthly scorecards add the SupplierLearningEngine scores, are rendered as a
+ * PDF and can be emailed to the supplier's primary contact once the
+ * send_supplier_scorecard task is approved.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import { renderScorecardPdf, uploadDocumentPdf, type ScorecardRow } from '@/lib/pdf-documents'
+import { gmailService } from '@/services/integrations/gmail-service'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// orders_tracker.supplier_status values that mean the supplier has delivered
+const DELIVERED_STATUSES = ['Shipped', 'Complete']
+// Orders that never reached the customer are left out of delivery and accuracy
+const EXCLUDED_STATUSES = ['Cancelled', 'Refunded', 'Missing']
+
+const OPEN_TASK_STATUSES = ['new', 'in_progress']
+
+export interface SlaTargets {
+  /** Hours the supplier has to answer an RFQ */
+  response_hours: number
+  /** % of RFQs to answer within response_hours */
+  response_met_pct: number
+  /** % of purchase orders charged within price_tolerance_pct of the order */
+  quote_accuracy_pct: number
+  price_tolerance_pct: number
+  /** % of purchase orders to ship within delivery_days of being sent */
+  on_time_pct: number
+  delivery_days: number
+}
+
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  response_hours: 24,
+  response_met_pct: 90,
+  quote_accuracy_pct: 95,
+  price_tolerance_pct: 2,
+  on_time_pct: 90,
+  delivery_days: 5
+}
+
+export type SlaMeasure = 'response' | 'quote_accuracy' | 'on_time_delivery'
+
+export interface SlaMetrics {
+  response: {
+    rfqs: number
+    answered: number
+    within_target: number
+    /** Answered late, or unanswered after the target hours */
+    missed: number
+    /** Unanswered and still within the target hours */
+    pending: number
+    avg_hours: number | null
+    within_target_pct: number | null
+  }
+  quote_accuracy: {
+    /** Purchase orders with a supplier amount recorded */
+    orders: number
+    accurate: number
+    avg_variance_pct: number | null
+    accuracy_pct: number | null
+  }
+  delivery: {
+    orders: number
+    on_time: number
+    /** Delivered late, or not delivered after the target days */
+    late: number
+    /** Not delivered and still within the target days */
+    pending: number
+    avg_days: number | null
+    on_time_pct: number | null
+  }
+  /** SupplierLearningEngine and scoring snapshot when the metrics were computed */
+  learning: {
+    response_quality_score: number | null
+    response_completeness_avg: number | null
+    pricing_accuracy_score: number | null
+    stock_accuracy_score: number | null
+    pricing_trend: string | null
+    reliability_score: number | null
+    relationship_strength: number | null
+  }
+}
+
+export interface SlaReport {
+  month: string
+  period_start: string
+  period_end: string
+  targets: SlaTargets
+  metrics: SlaMetrics
+  breaches: SlaMeasure[]
+}
+
+export interface SupplierScorecard {
+  id: string
+  supplier_id: string
+  period_start: string
+  period_end: string
+  targets: SlaTargets
+  metrics: SlaMetrics
+  breaches: SlaMeasure[]
+  pdf_url: string | null
+  generated_by: string
+  email_task_id: string | null
+  sent_to: string | null
+  sent_at: string | null
+  sent_by: string | null
+  gmail_message_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface Period {
+  month: string
+  start: Date
+  /** Start of the next month */
+  end: Date
+  period_start: string
+  period_end: string
+  label: string
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+const percentage = (count: number, total: number) => total > 0 ? round1((count / total) * 100) : null
+
+const average = (values: number[]) =>
+  values.length > 0 ? round1(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+
+// ============================================
+// PERIODS
+// ============================================
+
+function parseMonth(month: string): Period {
+  const match = /^(\d{4})-(\d{2})$/.exec(month || '')
+  const monthIndex = match ? Number(match[2]) - 1 : -1
+  if (!match || monthIndex < 0 || monthIndex > 11) {
+    throw new Error('Invalid month: expected YYYY-MM')
+  }
+
+  const start = new Date(Date.UTC(Number(match[1]), monthIndex, 1))
+  const end = new Date(Date.UTC(Number(match[1]), monthIndex + 1, 1))
+
+  return {
+    month,
+    start,
+    end,
+    period_start: start.toISOString().slice(0, 10),
+    period_end: new Date(end.getTime() - DAY_MS).toISOString().slice(0, 10),
+    label: start.toLocaleDateString('en-ZA', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+  }
+}
+
+export function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7)
+}
+
+export function previousMonth(): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7)
+}
+
+// ============================================
+// TARGETS
+// ============================================
+
+/**
+ * The supplier's SLA targets - its overrides on top of the defaults
+ */
+export async function getSlaTargets(supplierId: string): Promise<{
+  targets: SlaTargets
+  overrides: Partial<SlaTargets>
+}> {
+  const { data: supplier } = await supabase
+    .from('suppliers')
+    .select('id, sla_targets')
+    .eq('id', supplierId)
+    .maybeSingle()
+
+  if (!supplier) {
+    throw new Error('Supplier not found')
+  }
+
+  const overrides: Partial<SlaTargets> = supplier.sla_targets || {}
+  return { targets: { ...DEFAULT_SLA_TARGETS, ...overrides }, overrides }
+}
+
+function validateTargets(input: Record<string, any>): Partial<SlaTargets> {
+  const errors: string[] = []
+  const targets: Partial<SlaTargets> = {}
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!(key in DEFAULT_SLA_TARGETS)) {
+      errors.push(`unknown target ${key}`)
+      continue
+    }
+    if (value === null || value === undefined) continue
+
+    const number = Number(value)
+    if (typeof value === 'boolean' || !Number.isFinite(number)) {
+      errors.push(`${key} must be a number`)
+    } else if (key.endsWith('_pct') && (number < 0 || number > 100)) {
+      errors.push(`${key} must be between 0 and 100`)
+    } else if (!key.endsWith('_pct') && number <= 0) {
+      errors.push(`${key} must be greater than 0`)
+    } else {
+      targets[key as keyof SlaTargets] = number
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid SLA targets: ${errors.join('; ')}`)
+  }
+
+  return targets
+}
+
+/**
+ * Set SLA target overrides. A null value drops that override (back to the
+ * default); passing null instead of an object resets every target.
+ */
+export async function updateSlaTargets(
+  supplierId: string,
+  input: Record<string, any> | null,
+  updatedBy: string
+): Promise<SlaTargets> {
+  const current = await getSlaTargets(supplierId)
+
+  let overrides: Partial<SlaTargets> = {}
+  if (input) {
+    const cleared = Object.keys(input).filter(key => input[key] === null)
+    overrides = { ...current.overrides, ...validateTargets(input) }
+    for (const key of cleared) {
+      delete overrides[key as keyof SlaTargets]
+    }
+  }
+
+  const { error } = await supabase
+    .from('suppliers')
+    .update({
+      sla_targets: Object.keys(overrides).length > 0 ? overrides : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', supplierId)
+
+  if (error) {
+    throw new Error(`Failed to update SLA targets: ${error.message}`)
+  }
+
+  console.log(`[SUPPLIER SLA] Targets for ${supplierId} updated by ${updatedBy}`)
+  return { ...DEFAULT_SLA_TARGETS, ...overrides }
+}
+
+// ============================================
+// DELIVERIES
+// ============================================
+
+/**
+ * Record when sent purchase orders were delivered. orders_tracker has no
+ * status history, so delivered_at is when supplier_status is first seen as
+ * Shipped or Complete - run daily, it is accurate to the day.
+ */
+export async function recordDeliveries(): Promise<{
+  checked: number
+  delivered: number
+  updated: number
+}> {
+  const { data: pending, error } = await supabase
+    .from('purchase_orders')
+    .select('id, order_no, delivery_status')
+    .eq('status', 'sent')
+    .is('delivered_at', null)
+    .order('sent_at', { ascending: false })
+    .limit(1000)
+
+  if (error) {
+    throw new Error(`Failed to load purchase orders: ${error.message}`)
+  }
+
+  if (!pending || pending.length === 0) {
+    return { checked: 0, delivered: 0, updated: 0 }
+  }
+
+  const orderNos = Array.from(new Set(pending.map(po => po.order_no)))
+  const { data: orders } = await supabase
+    .from('orders_tracker')
+    .select('order_no, supplier_status')
+    .in('order_no', orderNos)
+
+  const statusByOrder = new Map((orders || []).map(order => [order.order_no, order.supplier_status]))
+  const now = new Date().toISOString()
+  let delivered = 0
+  let updated = 0
+
+  for (const po of pending) {
+    const status = statusByOrder.get(po.order_no)
+    if (!status || status === po.delivery_status) continue
+
+    const isDelivered = DELIVERED_STATUSES.includes(status)
+    const { error: updateError } = await supabase
+      .from('purchase_orders')
+      .update({
+        delivery_status: status,
+        ...(isDelivered ? { delivered_at: now } : {}),
+        updated_at: now
+      })
+      .eq('id', po.id)
+
+    if (updateError) {
+      console.error(`[SUPPLIER SLA] Failed to update purchase order ${po.id}:`, updateError)
+      continue
+    }
+
+    updated++
+    if (isDelivered) delivered++
+  }
+
+  return { checked: pending.length, delivered, updated }
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+async function computeResponse(supplierId: string, period: Period, targets: SlaTargets): Promise<SlaMetrics['response']> {
+  const { data: invites, error } = await supabase
+    .from('rfq_round_suppliers')
+    .select('invited_at, responded_at')
+    .eq('supplier_id', supplierId)
+    .gte('invited_at', period.start.toISOString())
+    .lt('invited_at', period.end.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to load RFQs: ${error.message}`)
+  }
+
+  const now = Date.now()
+  const targetMs = targets.response_hours * HOUR_MS
+  const hours: number[] = []
+  let withinTarget = 0
+  let missed = 0
+  let pending = 0
+
+  for (const invite of invites || []) {
+    const invitedAt = Date.parse(invite.invited_at)
+
+    if (invite.responded_at) {
+      const elapsed = Date.parse(invite.responded_at) - invitedAt
+      hours.push(elapsed / HOUR_MS)
+      if (elapsed <= targetMs) withinTarget++
+      else missed++
+    } else if (now - invitedAt > targetMs) {
+      missed++
+    } else {
+      pending++
+    }
+  }
+
+  return {
+    rfqs: (invites || []).length,
+    answered: hours.length,
+    within_target: withinTarget,
+    missed,
+    pending,
+    avg_hours: average(hours),
+    within_target_pct: percentage(withinTarget, withinTarget + missed)
+  }
+}
+
+async function loadSentPurchaseOrders(supplierId: string, period: Period) {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('id, order_no, subtotal, total, sent_at, delivered_at, delivery_status')
+    .eq('supplier_id', supplierId)
+    .eq('status', 'sent')
+    .gte('sent_at', period.start.toISOString())
+    .lt('sent_at', period.end.toISOString())
+
+  if (error) {
+    throw new Error(`Failed to load purchase orders: ${error.message}`)
+  }
+
+  return (data || []).filter(po => !EXCLUDED_STATUSES.includes(po.delivery_status))
+}
+
+/**
+ * orders_tracker.supplier_amount is per order, so only orders placed with a
+ * single supplier can be compared with their purchase order. The amount may
+ * be captured with or without VAT, so the closer of total and subtotal counts.
+ */
+async function computeQuoteAccuracy(
+  purchaseOrders: Awaited<ReturnType<typeof loadSentPurchaseOrders>>,
+  targets: SlaTargets
+): Promise<SlaMetrics['quote_accuracy']> {
+  const orderNos = Array.from(new Set(purchaseOrders.map(po => po.order_no)))
+  if (orderNos.length === 0) {
+    return { orders: 0, accurate: 0, avg_variance_pct: null, accuracy_pct: null }
+  }
+
+  const [{ data: orders }, { data: siblings }] = await Promise.all([
+    supabase
+      .from('orders_tracker')
+      .select('order_no, supplier_amount')
+      .in('order_no', orderNos)
+      .not('supplier_amount', 'is', null),
+    supabase
+      .from('purchase_orders')
+      .select('order_no')
+      .in('order_no', orderNos)
+      .eq('status', 'sent')
+  ])
+
+  const poCount = new Map<string, number>()
+  for (const po of siblings || []) {
+    poCount.set(po.order_no, (poCount.get(po.order_no) || 0) + 1)
+  }
+  const amountByOrder = new Map((orders || []).map(order => [order.order_no, Number(order.supplier_amount)]))
+
+  const variances: number[] = []
+  for (const po of purchaseOrders) {
+    const amount = amountByOrder.get(po.order_no)
+    if (amount === undefined || poCount.get(po.order_no) !== 1 || !(Number(po.total) > 0)) continue
+
+    const variance = Math.min(
+      Math.abs(amount - Number(po.total)) / Number(po.total),
+      Number(po.subtotal) > 0 ? Math.abs(amount - Number(po.subtotal)) / Number(po.subtotal) : Infinity
+    ) * 100
+    variances.push(variance)
+  }
+
+  const accurate = variances.filter(variance => variance <= targets.price_tolerance_pct).length
+  return {
+    orders: variances.length,
+    accurate,
+    avg_variance_pct: average(variances),
+    accuracy_pct: percentage(accurate, variances.length)
+  }
+}
+
+function computeDelivery(
+  purchaseOrders: Awaited<ReturnType<typeof loadSentPurchaseOrders>>,
+  targets: SlaTargets
+): SlaMetrics['delivery'] {
+  const now = Date.now()
+  const days: number[] = []
+  let onTime = 0
+  let late = 0
+  let pending = 0
+
+  for (const po of purchaseOrders) {
+    const sentAt = Date.parse(po.sent_at)
+    const due = sentAt + targets.delivery_days * DAY_MS
+
+    if (po.delivered_at) {
+      const deliveredAt = Date.parse(po.delivered_at)
+      days.push((deliveredAt - sentAt) / DAY_MS)
+      if (deliveredAt <= due) onTime++
+      else late++
+    } else if (now > due) {
+      late++
+    } else {
+      pending++
+    }
+  }
+
+  return {
+    orders: purchaseOrders.length,
+    on_time: onTime,
+    late,
+    pending,
+    avg_days: average(days),
+    on_time_pct: percentage(onTime, onTime + late)
+  }
+}
+
+async function loadLearningSnapshot(supplierId: string): Promise<SlaMetrics['learning']> {
+  const { data: supplier } = await supabase
+    .from('suppliers')
+    .select('metadata, reliability_score, relationship_strength')
+    .eq('id', supplierId)
+    .maybeSingle()
+
+  const metadata = supplier?.metadata || {}
+  return {
+    response_quality_score: metadata.response_quality_score ?? null,
+    response_completeness_avg: metadata.response_completeness_avg ?? null,
+    pricing_accuracy_score: metadata.pricing_accuracy_score ?? null,
+    stock_accuracy_score: metadata.stock_accuracy_score ?? null,
+    pricing_trend: metadata.pricing_trend ?? null,
+    reliability_score: supplier?.reliability_score ?? null,
+    relationship_strength: supplier?.relationship_strength ?? null
+  }
+}
+
+function findBreaches(metrics: SlaMetrics, targets: SlaTargets): SlaMeasure[] {
+  const breaches: SlaMeasure[] = []
+  if (metrics.response.within_target_pct !== null && metrics.response.within_target_pct < targets.response_met_pct) {
+    breaches.push('response')
+  }
+  if (metrics.quote_accuracy.accuracy_pct !== null && metrics.quote_accuracy.accuracy_pct < targets.quote_accuracy_pct) {
+    breaches.push('quote_accuracy')
+  }
+  if (metrics.delivery.on_time_pct !== null && metrics.delivery.on_time_pct < targets.on_time_pct) {
+    breaches.push('on_time_delivery')
+  }
+  return breaches
+}
+
+/**
+ * Measure a supplier against its SLA targets for a month (YYYY-MM, default
+ * the current month)
+ */
+export async function computeSlaReport(supplierId: string, month: string = currentMonth()): Promise<SlaReport> {
+  const period = parseMonth(month)
+  const { targets } = await getSlaTargets(supplierId)
+
+  const [response, purchaseOrders, learning] = await Promise.all([
+    computeResponse(supplierId, period, targets),
+    loadSentPurchaseOrders(supplierId, period),
+    loadLearningSnapshot(supplierId)
+  ])
+
+  const metrics: SlaMetrics = {
+    response,
+    quote_accuracy: await computeQuoteAccuracy(purchaseOrders, targets),
+    delivery: computeDelivery(purchaseOrders, targets),
+    learning
+  }
+
+  return {
+    month,
+    period_start: period.period_start,
+    period_end: period.period_end,
+    targets,
+    metrics,
+    breaches: findBreaches(metrics, targets)
+  }
+}
+
+// ============================================
+// SCORECARDS
+// ============================================
+
+const formatPct = (value: number | null) => value === null ? '-' : `${value}%`
+
+function scorecardRows(report: SlaReport): ScorecardRow[] {
+  const { targets, metrics } = report
+  const met = (value: number | null, target: number) => value === null ? null : value >= target
+
+  return [
+    {
+      label: `RFQs answered within ${targets.response_hours}h`,
+      target: `${targets.response_met_pct}%`,
+      actual: formatPct(metrics.response.within_target_pct),
+      met: met(metrics.response.within_target_pct, targets.response_met_pct)
+    },
+    {
+      label: `Quotes accurate to ${targets.price_tolerance_pct}%`,
+      target: `${targets.quote_accuracy_pct}%`,
+      actual: formatPct(metrics.quote_accuracy.accuracy_pct),
+      met: met(metrics.quote_accuracy.accuracy_pct, targets.quote_accuracy_pct)
+    },
+    {
+      label: `Orders shipped within ${targets.delivery_days} days`,
+      target: `${targets.on_time_pct}%`,
+      actual: formatPct(metrics.delivery.on_time_pct),
+      met: met(metrics.delivery.on_time_pct, targets.on_time_pct)
+    }
+  ]
+}
+
+function scorecardSummary(report: SlaReport): string[] {
+  const { response, quote_accuracy, delivery, learning } = report.metrics
+  const lines = [
+    `RFQs: ${response.rfqs} sent, ${response.answered} answered` +
+      (response.avg_hours !== null ? `, average response ${response.avg_hours}h` : ''),
+    `Quotes: ${quote_accuracy.accurate} of ${quote_accuracy.orders} orders charged as quoted` +
+      (quote_accuracy.avg_variance_pct !== null ? `, average variance ${quote_accuracy.avg_variance_pct}%` : ''),
+    `Deliveries: ${delivery.on_time} on time, ${delivery.late} late, ${delivery.pending} in progress` +
+      (delivery.avg_days !== null ? `, average ${delivery.avg_days} days` : '')
+  ]
+
+  const scores = [
+    learning.response_quality_score !== null ? `response quality ${Math.round(learning.response_quality_score)}` : null,
+    learning.pricing_accuracy_score !== null ? `pricing accuracy ${Math.round(learning.pricing_accuracy_score)}` : null,
+    learning.stock_accuracy_score !== null ? `stock accuracy ${Math.round(learning.stock_accuracy_score)}` : null,
+    learning.reliability_score !== null ? `reliability ${Math.round(learning.reliability_score)}` : null
+  ].filter(Boolean)
+  if (scores.length > 0) {
+    lines.push(`Scores (out of 100): ${scores.join(', ')}`)
+  }
+
+  return lines
+}
+
+export async function getScorecard(scorecardId: string): Promise<SupplierScorecard> {
+  const { data, error } = await supabase
+    .from('supplier_scorecards')
+    .select('*')
+    .eq('id', scorecardId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load scorecard: ${error.message}`)
+  }
+  if (!data) {
+    throw new Error('Scorecard not found')
+  }
+
+  return data
+}
+
+export async function listScorecards(supplierId: string): Promise<SupplierScorecard[]> {
+  const { data, error } = await supabase
+    .from('supplier_scorecards')
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .order('period_start', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load scorecards: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Compute a month's scorecard, render its PDF and save it. Regenerating
+ * replaces the scorecard unless it has already been emailed to the supplier.
+ */
+export async function generateScorecard(
+  supplierId: string,
+  month: string,
+  generatedBy: string
+): Promise<SupplierScorecard> {
+  const period = parseMonth(month)
+  if (period.start.getTime() > Date.now()) {
+    throw new Error('Invalid month: the month has not started yet')
+  }
+
+  const [{ data: supplier }, { data: existing }] = await Promise.all([
+    supabase.from('suppliers').select('id, name, company, email').eq('id', supplierId).maybeSingle(),
+    supabase
+      .from('supplier_scorecards')
+      .select('id, sent_at')
+      .eq('supplier_id', supplierId)
+      .eq('period_start', period.period_start)
+      .maybeSingle()
+  ])
+
+  if (!supplier) {
+    throw new Error('Supplier not found')
+  }
+  if (existing?.sent_at) {
+    throw new Error(`Invalid scorecard: the ${period.label} scorecard was already emailed to the supplier`)
+  }
+
+  const report = await computeSlaReport(supplierId, month)
+
+  const pdfBuffer = renderScorecardPdf({
+    number: month,
+    periodLabel: period.label,
+    supplier: {
+      name: supplier.company || supplier.name,
+      company: supplier.company && supplier.name !== supplier.company ? `Attn: ${supplier.name}` : undefined,
+      email: supplier.email
+    },
+    rows: scorecardRows(report),
+    summary: scorecardSummary(report),
+    notes: report.breaches.length > 0
+      ? 'Some targets were missed this month. Please let us know if anything is affecting your response times, pricing or deliveries.'
+      : 'All measured targets were met this month - thank you.',
+    contactLine: 'For any questions regarding this scorecard, please contact us at sales@audico.co.za'
+  })
+  const pdfUrl = await uploadDocumentPdf(pdfBuffer, `supplier-scorecards/${supplierId}/${month}.pdf`)
+
+  const { data: scorecard, error } = await supabase
+    .from('supplier_scorecards')
+    .upsert({
+      supplier_id: supplierId,
+      period_start: period.period_start,
+      period_end: period.period_end,
+      targets: report.targets,
+      metrics: report.metrics,
+      breaches: report.breaches,
+      pdf_url: pdfUrl,
+      generated_by: generatedBy,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'supplier_id,period_start' })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save scorecard: ${error.message}`)
+  }
+
+  console.log(`[SUPPLIER SLA] ${period.label} scorecard for ${supplier.company}: ${report.breaches.length} breach(es)`)
+  return scorecard
+}
+
+/**
+ * Generate the month's scorecard (default last month) for every active
+ * supplier that was sent an RFQ or purchase order in it. Suppliers that
+ * already have one are skipped.
+ */
+export async function generateMonthlyScorecards(month: string = previousMonth()): Promise<{
+  month: string
+  generated: SupplierScorecard[]
+  skipped: number
+  failed: Array<{ supplier_id: string; error: string }>
+}> {
+  const period = parseMonth(month)
+
+  const [{ data: invites }, { data: orders }, { data: existing }] = await Promise.all([
+    supabase
+      .from('rfq_round_suppliers')
+      .select('supplier_id')
+      .gte('invited_at', period.start.toISOString())
+      .lt('invited_at', period.end.toISOString()),
+    supabase
+      .from('purchase_orders')
+      .select('supplier_id')
+      .eq('status', 'sent')
+      .not('supplier_id', 'is', null)
+      .gte('sent_at', period.start.toISOString())
+      .lt('sent_at', period.end.toISOString()),
+    supabase
+      .from('supplier_scorecards')
+      .select('supplier_id')
+      .eq('period_start', period.period_start)
+  ])
+
+  const active = new Set([...(invites || []), ...(orders || [])].map(row => row.supplier_id))
+  const done = new Set((existing || []).map(row => row.supplier_id))
+  const supplierIds = Array.from(active).filter(id => !done.has(id))
+
+  const { data: suppliers } = supplierIds.length > 0
+    ? await supabase
+      .from('suppliers')
+      .select('id, is_active, merged_into_id')
+      .in('id', supplierIds)
+    : { data: [] }
+
+  const generated: SupplierScorecard[] = []
+  const failed: Array<{ supplier_id: string; error: string }> = []
+
+  for (const supplier of suppliers || []) {
+    if (supplier.is_active === false || supplier.merged_into_id) continue
+
+    try {
+      generated.push(await generateScorecard(supplier.id, month, 'SupplierAgent'))
+    } catch (error: any) {
+      failed.push({ supplier_id: supplier.id, error: error.message })
+    }
+  }
+
+  if (generated.length > 0) {
+    await logToSquadMessages(
+      'SupplierAgent',
+      `📊 ${period.label} supplier scorecards generated: ${generated.length} (${generated.filter(card => card.breaches.length > 0).length} with missed targets)`,
+      { month, scorecard_ids: generated.map(card => card.id), failed }
+    )
+  }
+
+  return { month, generated, skipped: done.size, failed }
+}
+
+// ============================================
+// EMAILING
+// ============================================
+
+/**
+ * The supplier's preferred contact, or the supplier's own email
+ */
+async function getScorecardRecipient(supplierId: string): Promise<{ name: string; email: string } | null> {
+  const [{ data: supplier }, { data: contacts }] = await Promise.all([
+    supabase.from('suppliers').select('name, company, email').eq('id', supplierId).maybeSingle(),
+    supabase
+      .from('supplier_contacts')
+      .select('contact_name, email')
+      .eq('supplier_id', supplierId)
+      .eq('preferred_contact', true)
+      .limit(1)
+  ])
+
+  const contact = contacts?.[0]
+  if (contact?.email) {
+    return { name: contact.contact_name, email: contact.email }
+  }
+  if (supplier?.email) {
+    return { name: supplier.name || supplier.company, email: supplier.email }
+  }
+  return null
+}
+
+/**
+ * Create the approval task that emails a scorecard to the supplier. Returns
+ * the open task if one was already requested.
+ */
+export async function requestScorecardEmail(scorecardId: string, requestedBy: string): Promise<{
+  scorecard: SupplierScorecard
+  task_id: string
+  already_requested: boolean
+}> {
+  const scorecard = await getScorecard(scorecardId)
+
+  if (scorecard.sent_at) {
+    throw new Error(`Invalid scorecard: already emailed to ${scorecard.sent_to}`)
+  }
+  if (!scorecard.pdf_url) {
+    throw new Error('Invalid scorecard: the PDF was not generated - regenerate the scorecard first')
+  }
+
+  if (scorecard.email_task_id) {
+    const { data: task } = await supabase
+      .from('squad_tasks')
+      .select('id, status')
+      .eq('id', scorecard.email_task_id)
+      .maybeSingle()
+
+    if (task && OPEN_TASK_STATUSES.includes(task.status)) {
+      return { scorecard, task_id: task.id, already_requested: true }
+    }
+  }
+
+  const [recipient, { data: supplier }] = await Promise.all([
+    getScorecardRecipient(scorecard.supplier_id),
+    supabase.from('suppliers').select('company').eq('id', scorecard.supplier_id).maybeSingle()
+  ])
+
+  if (!recipient) {
+    throw new Error('Invalid scorecard: the supplier has no email address')
+  }
+
+  const period = parseMonth(scorecard.period_start.slice(0, 7))
+  const rows = scorecardRows({ ...scorecard, month: period.month })
+
+  const { data: task, error } = await supabase
+    .from('squad_tasks')
+    .insert({
+      title: `Email ${period.label} scorecard to ${supplier?.company || recipient.name}`,
+      description: `${requestedBy} asked to send the ${period.label} SLA scorecard to ${recipient.name} <${recipient.email}>.
+
+**Scorecard:**
+${rows.map(row => `- ${row.label}: ${row.actual} (target ${row.target})${row.met === false ? ' - missed' : ''}`).join('\n')}
+
+**Actions Required:**
+1. Check the scorecard PDF
+2. Approve to email it to the supplier`,
+      status: 'new',
+      assigned_agent: 'SupplierAgent',
+      priority: 'low',
+      mentions_kenny: false,
+      requires_approval: true,
+      deliverable_url: scorecard.pdf_url,
+      metadata: {
+        scorecard_id: scorecard.id,
+        supplier_id: scorecard.supplier_id,
+        month: period.month,
+        recipient_email: recipient.email,
+        recipient_name: recipient.name,
+        requested_by: requestedBy,
+        action_required: 'send_supplier_scorecard'
+      }
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create approval task: ${error.message}`)
+  }
+
+  const { data: updated } = await supabase
+    .from('supplier_scorecards')
+    .update({ email_task_id: task.id, updated_at: new Date().toISOString() })
+    .eq('id', scorecard.id)
+    .select()
+    .single()
+
+  return { scorecard: updated || scorecard, task_id: task.id, already_requested: false }
+}
+
+function buildScorecardEmailBody(recipientName: string, periodLabel: string, rows: ScorecardRow[]): string {
+  const tableRows = rows.map(row =>
+    `<tr><td style="padding: 4px 8px;">${row.label}</td><td style="padding: 4px 8px; text-align: right;">${row.target}</td><td style="padding: 4px 8px; text-align: right;">${row.actual}</td><td style="padding: 4px 8px; text-align: center;">${row.met === null ? 'No data' : row.met ? 'Met' : 'Missed'}</td></tr>`
+  ).join('')
+
+  return `<p>Hi ${recipientName},</p>
+<p>Please find attached your supplier scorecard for <strong>${periodLabel}</strong>.</p>
+<table style="border-collapse: collapse; margin: 12px 0;">
+<tr><th style="padding: 4px 8px; text-align: left;">Measure</th><th style="padding: 4px 8px; text-align: right;">Target</th><th style="padding: 4px 8px; text-align: right;">Actual</th><th style="padding: 4px 8px;">Status</th></tr>
+${tableRows}
+</table>
+<p>Thank you for working with us. Please let us know if anything is affecting your response times, pricing or deliveries.</p>
+<p>Kind regards,<br>Audico</p>`
+}
+
+/**
+ * Email an approved scorecard to the recipient on its approval task (or the
+ * supplier's current primary contact). Already-sent scorecards are returned
+ * as they are.
+ */
+export async function sendScorecard(
+  scorecardId: string,
+  approvedBy: string,
+  approvedRecipient?: { name: string; email: string }
+): Promise<SupplierScorecard> {
+  const scorecard = await getScorecard(scorecardId)
+  if (scorecard.sent_at) {
+    return scorecard
+  }
+
+  const recipient = approvedRecipient || await getScorecardRecipient(scorecard.supplier_id)
+
+  if (!recipient) {
+    throw new Error('Invalid scorecard: the supplier has no email address')
+  }
+
+  const period = parseMonth(scorecard.period_start.slice(0, 7))
+  const result = await gmailService.sendEmail(
+    recipient.email,
+    `Audico supplier scorecard - ${period.label}`,
+    buildScorecardEmailBody(recipient.name, period.label, scorecardRows({ ...scorecard, month: period.month })),
+    undefined,
+    undefined,
+    scorecard.pdf_url ? [{ filename: `Audico-scorecard-${period.month}.pdf`, url: scorecard.pdf_url }] : undefined
+  )
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send email')
+  }
+
+  const now = new Date().toISOString()
+  const { data: updated } = await supabase
+    .from('supplier_scorecards')
+    .update({
+      sent_to: recipient.email,
+      sent_at: now,
+      sent_by: approvedBy,
+      gmail_message_id: result.messageId || null,
+      updated_at: now
+    })
+    .eq('id', scorecard.id)
+    .select()
+    .single()
+
+  await logToSquadMessages(
+    'SupplierAgent',
+    `📤 ${period.label} scorecard sent to ${recipient.email} (approved by ${approvedBy})`,
+    { scorecard_id: scorecard.id, supplier_id: scorecard.supplier_id, approved_by: approvedBy }
+  )
+
+  return updated || scorecard
+}
+
+export const supplierSla = {
+  getSlaTargets,
+  updateSlaTargets,
+  recordDeliveries,
+  computeSlaReport,
+  getScorecard,
+  listScorecards,
+  generateScorecard,
+  generateMonthlyScorecards,
+  requestScorecardEmail,
+  sendScorecard
+}
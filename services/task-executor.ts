@@ -1,94 +1,52 @@
 /**
  * Task Executor Service
  *
- * Core service that polls for executable tasks and dispatches them to appropriate agents.
- * Implements retry logic, error handling, and task status management.
+ * Core service that claims executable tasks from the task queue and dispatches
+ * them to appropriate agents. Leasing, retry backoff and dead-lettering live in
+ * services/task-queue.ts.
  */
 
-import { supabase } from '@/lib/supabase'
 import { logToSquadMessages } from '@/lib/logger'
+import { checkRateLimit, AGENT_RATE_LIMITS, type RateLimitResult } from '@/lib/rate-limiter'
+import {
+  createWorkerId,
+  fetchClaimableTasks,
+  claimTasks,
+  completeTask,
+  failTask,
+  releaseTask,
+  deadLetterTask
+} from '@/services/task-queue'
+import {
+  getHandlerForTask,
+  resolveTaskType,
+  validateTaskMetadata,
+  type ExecutionResult,
+  type HandlerRegistration
+} from '@/services/execution-handlers/registry'
+import { createApprovalTask, approveTask } from '@/services/approval-workflow'
+import { evaluateTask, recordEvaluation } from '@/services/approval-policies'
+import { checkAgentBudget, withUsageContext, type BudgetStatus } from '@/services/llm-usage'
 import type { Task } from '@/types/squad'
 
 const DRY_RUN = process.env.AGENT_DRY_RUN === 'true'
-
-interface ExecutionResult {
-  success: boolean
-  deliverable_url?: string
-  error?: string
-}
-
-interface AgentHandler {
-  execute: (task: Task) => Promise<ExecutionResult>
-}
-
-/**
- * Registry of agent handlers
- * Maps agent names to their execution handlers
- */
-const agentHandlers: Record<string, AgentHandler> = {
-  'Email Agent': {
-    async execute(task: Task): Promise<ExecutionResult> {
-      const { emailSendHandler } = await import('@/services/execution-handlers/email-handler')
-      return emailSendHandler(task)
-    }
-  },
-  'Social Media Agent': {
-    async execute(task: Task): Promise<ExecutionResult> {
-      const { socialPublishHandler } = await import('@/services/execution-handlers/social-handler')
-      return socialPublishHandler(task)
-    }
-  },
-  'Marketing Agent': {
-    async execute(task: Task): Promise<ExecutionResult> {
-      const { marketingHandler } = await import('@/services/execution-handlers/marketing-handler')
-      return marketingHandler(task)
-    }
-  },
-  'SEO Agent': {
-    async execute(task: Task): Promise<ExecutionResult> {
-      const { seoHandler } = await import('@/services/execution-handlers/seo-handler')
-      return seoHandler(task)
-    }
-  },
-  'Google Ads Agent': {
-    async execute(task: Task): Promise<ExecutionResult> {
-      const { adsHandler } = await import('@/services/execution-handlers/ads-handler')
-      return adsHandler(task)
-    }
-  }
-}
+const BUDGET_RECHECK_MS = 60 * 60 * 1000
 
 /**
- * Fetch tasks that are ready for execution
- * - Status must be 'new'
- * - Either requires_approval=false OR already approved
- * - Execution attempts < 3
+ * Fetch tasks that are ready for execution (without claiming them)
+ * - Status 'new', approved or not requiring approval, past any retry backoff
+ * - Or 'in_progress' with an expired lease
  */
 export async function fetchExecutableTasks(limit: number = 10): Promise<Task[]> {
-  const { data, error } = await supabase
-    .from('squad_tasks')
-    .select('*')
-    .eq('status', 'new')
-    .or('requires_approval.eq.false,and(requires_approval.eq.true,approved_at.not.is.null)')
-    .lt('execution_attempts', 3)
-    .order('priority', { ascending: false }) // urgent > high > medium > low
-    .order('created_at', { ascending: true }) // oldest first
-    .limit(limit)
-
-  if (error) {
-    console.error('Error fetching executable tasks:', error)
-    return []
-  }
-
-  return data || []
+  return fetchClaimableTasks(limit)
 }
 
 /**
- * Execute a single task
+ * Execute a single task that has already been claimed by `workerId`
  */
-export async function executeTask(task: Task): Promise<ExecutionResult> {
+export async function executeTask(task: Task, workerId: string): Promise<ExecutionResult> {
 
-  console.log(`[EXECUTING] Task ${task.id}: ${task.title}`)
+  console.log(`[EXECUTING] Task ${task.id}: ${task.title} (attempt ${task.execution_attempts})`)
 
   // DRY_RUN: skip execution entirely — leave task as 'new' so it doesn't
   // get marked 'completed' and trick Jarvis into creating duplicates
@@ -102,24 +60,83 @@ export async function executeTask(task: Task): Promise<ExecutionResult> {
     return { success: false, error: 'DRY_RUN mode — task not executed' }
   }
 
-  // Update task to in_progress
-  await updateTaskStatus(task.id, 'in_progress', {
-    last_execution_attempt: new Date().toISOString()
-  })
+  // Resolve the handler for this agent + task type
+  const handler = getHandlerForTask(task)
+  if (!handler) {
+    const taskType = resolveTaskType(task) || 'unknown'
+    await deadLetterTask(task, `No handler registered for ${task.assigned_agent} / ${taskType}`, 'rejected before dispatch')
+    return { success: false, error: `No handler found for ${task.assigned_agent} / ${taskType}` }
+  }
 
-  try {
-    // Get handler for agent
-    const handler = agentHandlers[task.assigned_agent]
-    if (!handler) {
-      throw new Error(`No handler found for agent: ${task.assigned_agent}`)
+  // Reject invalid metadata up front - retrying will not fix it
+  const validationErrors = validateTaskMetadata(task, handler)
+  if (validationErrors.length > 0) {
+    const message = `Invalid task metadata: ${validationErrors.join('; ')}`
+    await deadLetterTask(task, message, 'rejected before dispatch')
+    return { success: false, error: message }
+  }
+
+  // Unapproved tasks are checked against the approval policies (and audited).
+  // Only an auto-execute or auto-approve policy lets them run unapproved - a
+  // task no policy matched needs approval by default.
+  if (!task.approved_at) {
+    const decision = await evaluateTask(task)
+    await recordEvaluation(task, decision)
+
+    if (decision.decision === 'auto_approved') {
+      const approvedBy = `Policy: ${decision.policy?.name}`
+      await approveTask(task.id, approvedBy)
+      // Handlers record who approved what they send
+      task = { ...task, approved_by: approvedBy, approved_at: new Date().toISOString(), requires_approval: false }
+    } else if (handler.requiresApproval || decision.requiresApproval) {
+      // Handlers that need approval never run unapproved, whatever the task row says
+      await releaseTask(task, workerId, { fields: { requires_approval: true } })
+      await createApprovalTask(task, decision)
+      return { success: false, error: 'Awaiting approval' }
     }
+  }
+
+  // Agents over their LLM spend cap wait until budget frees up
+  const budget = await getBudgetStatus(task)
+  if (budget && !budget.allowed) {
+    await releaseTask(task, workerId, { nextAttemptAt: new Date(Date.now() + BUDGET_RECHECK_MS).toISOString() })
+    await logToSquadMessages(
+      'Task Executor',
+      `💸 Deferred: ${task.title} - ${budget.reason}`,
+      { task_id: task.id, agent: task.assigned_agent, spent_today_zar: budget.spentTodayZar }
+    )
+    return { success: false, error: budget.reason }
+  }
 
-    // Execute task
-    const result = await handler.execute(task)
+  // Rate-limited tasks wait for the window to reset - not a failed attempt
+  const rateLimit = await checkHandlerRateLimit(handler)
+  if (rateLimit && !rateLimit.allowed) {
+    const resetAt = new Date(rateLimit.resetAt).toISOString()
+    await releaseTask(task, workerId, { nextAttemptAt: resetAt })
+    await logToSquadMessages(
+      'Task Executor',
+      `⏳ Deferred: ${task.title} - rate limit for ${handler.rateLimitKey} resets ${resetAt}`,
+      { task_id: task.id, agent: task.assigned_agent, rate_limit_key: handler.rateLimitKey }
+    )
+    return { success: false, error: `Rate limit exceeded for ${handler.rateLimitKey} (resets ${resetAt})` }
+  }
+
+  try {
+    // Execute task, billing any LLM calls to it
+    const result = await withUsageContext(
+      { agent: task.assigned_agent, taskId: task.id },
+      () => handler.execute(task)
+    )
+
+    // Handler is waiting on something external - try again later
+    if (!result.success && result.reschedule_at) {
+      await releaseTask(task, workerId, { nextAttemptAt: result.reschedule_at })
+      return result
+    }
 
     if (result.success) {
-      // Mark task as completed
-      await markTaskComplete(task.id, result.deliverable_url)
+      // Mark task as completed and release the lease
+      await completeTask(task, workerId, result.deliverable_url)
 
       await logToSquadMessages(
         'Task Executor',
@@ -134,35 +151,21 @@ export async function executeTask(task: Task): Promise<ExecutionResult> {
   } catch (error: any) {
     console.error(`[ERROR] Task ${task.id} failed:`, error)
 
-    // Increment execution attempts
-    const newAttempts = (task.execution_attempts || 0) + 1
-
-    await supabase
-      .from('squad_tasks')
-      .update({
-        execution_attempts: newAttempts,
-        execution_error: error.message,
-        last_execution_attempt: new Date().toISOString()
-      })
-      .eq('id', task.id)
-
-    // Escalate after 3 failures
-    if (newAttempts >= 3) {
-      await escalateTask(task, error.message)
-    }
+    // Schedule a retry with backoff, or dead-letter after max attempts
+    await failTask(task, workerId, error.message)
 
     return { success: false, error: error.message }
   }
 }
 
 /**
- * Execute multiple tasks in batch
+ * Execute multiple claimed tasks in batch
  */
-export async function executeBatch(tasks: Task[]): Promise<{
+export async function executeBatch(tasks: Task[], workerId: string): Promise<{
   success: ExecutionResult[]
   failed: ExecutionResult[]
 }> {
-  const results = await Promise.allSettled(tasks.map(executeTask))
+  const results = await Promise.allSettled(tasks.map(task => executeTask(task, workerId)))
 
   const success: ExecutionResult[] = []
   const failed: ExecutionResult[] = []
@@ -181,82 +184,24 @@ export async function executeBatch(tasks: Task[]): Promise<{
 }
 
 /**
- * Update task status
- */
-async function updateTaskStatus(taskId: string, status: string, additionalFields: any = {}) {
-  await supabase
-    .from('squad_tasks')
-    .update({
-      status,
-      ...additionalFields
-    })
-    .eq('id', taskId)
-}
-
-/**
- * Mark task as completed
+ * Count an execution against the handler's rate limit; null if it has none
  */
-async function markTaskComplete(taskId: string, deliverableUrl?: string) {
-  await supabase
-    .from('squad_tasks')
-    .update({
-      status: 'completed',
-      completed_at: new Date().toISOString(),
-      deliverable_url: deliverableUrl
-    })
-    .eq('id', taskId)
-}
+async function checkHandlerRateLimit(handler: HandlerRegistration): Promise<RateLimitResult | null> {
+  if (!handler.rateLimitKey) return null
 
-/**
- * Escalate task after multiple failures
- */
-async function escalateTask(task: Task, errorMessage: string) {
-  console.error(`[ESCALATION] Task ${task.id} failed 3 times:`, errorMessage)
-
-  // Create escalation task for Jarvis/Kenny
-  await supabase.from('squad_tasks').insert({
-    title: `🚨 ESCALATION: ${task.title}`,
-    description: `Original task failed after 3 attempts.\n\nError: ${errorMessage}\n\nOriginal task: ${task.description}`,
-    status: 'new',
-    assigned_agent: 'Jarvis',
-    priority: 'urgent',
-    mentions_kenny: true,
-    requires_approval: false,
-    metadata: {
-      escalated_from: task.id,
-      original_agent: task.assigned_agent,
-      error: errorMessage
-    }
-  })
-
-  // Update original task to failed
-  await supabase
-    .from('squad_tasks')
-    .update({ status: 'failed' })
-    .eq('id', task.id)
-
-  // Send alert
-  const { sendAlert } = await import('@/services/alert-service')
-  await sendAlert({
-    type: 'agent_error',
-    severity: 'urgent',
-    title: `Task Failed After 3 Attempts`,
-    message: `Task "${task.title}" (${task.assigned_agent}) failed 3 times: ${errorMessage}`,
-    metadata: { task_id: task.id }
-  })
-
-  await logToSquadMessages(
-    'Task Executor',
-    `🚨 ESCALATION: Task "${task.title}" failed after 3 attempts`,
-    { task_id: task.id, error: errorMessage }
-  )
+  return checkRateLimit(AGENT_RATE_LIMITS[handler.rateLimitKey])
 }
 
 /**
- * Get handler for specific agent
+ * LLM budget for the task's agent; null if it could not be checked
  */
-function getHandlerForAgent(agentName: string): AgentHandler | null {
-  return agentHandlers[agentName] || null
+async function getBudgetStatus(task: Task): Promise<BudgetStatus | null> {
+  try {
+    return await checkAgentBudget(task.assigned_agent)
+  } catch (error) {
+    console.error(`[BUDGET] Could not check budget for ${task.assigned_agent}:`, error)
+    return null
+  }
 }
 
 /**
@@ -270,16 +215,19 @@ export async function pollAndExecute(): Promise<{
 }> {
   console.log('[TASK EXECUTOR] Polling for executable tasks...')
 
-  const tasks = await fetchExecutableTasks(10)
+  // Claim with a lease so an overlapping invocation cannot run the same task.
+  // In DRY_RUN nothing is claimed, so no attempts are consumed.
+  const workerId = createWorkerId()
+  const tasks = DRY_RUN ? await fetchExecutableTasks(10) : await claimTasks(workerId, 10)
 
   if (tasks.length === 0) {
     console.log('[TASK EXECUTOR] No tasks to execute')
     return { executed: 0, failed: 0, skipped: 0 }
   }
 
-  console.log(`[TASK EXECUTOR] Found ${tasks.length} tasks to execute`)
+  console.log(`[TASK EXECUTOR] Claimed ${tasks.length} tasks as ${workerId}`)
 
-  const results = await executeBatch(tasks)
+  const results = await executeBatch(tasks, workerId)
 
   const stats = {
     executed: results.success.length,
@@ -298,5 +246,5 @@ export const taskExecutor = {
   executeTask,
   executeBatch,
   pollAndExecute,
-  getHandlerForAgent
+  getHandlerForTask
 }
@@ -0,0 +1,377 @@
+/**
+ * Task Queue Service
+ *
+ * Durable queue semantics on top of squad_tasks: atomic claims with a lease
+ * (visibility timeout), exponential backoff between attempts, and a
+ * dead-letter state that can be replayed from the Squad page.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { logToSquadMessages } from '@/lib/logger'
+import type { Task } from '@/types/squad'
+
+export const TASK_QUEUE_CONFIG = {
+  leaseSeconds: 300,
+  baseBackoffSeconds: 120,
+  maxBackoffSeconds: 3600,
+  defaultMaxAttempts: 3
+}
+
+/**
+ * Generate a unique id for one executor invocation
+ */
+export function createWorkerId(): string {
+  return `executor-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Backoff before the next attempt: base * 2^(attempts - 1), capped
+ */
+export function computeBackoffSeconds(attempts: number): number {
+  const delay = TASK_QUEUE_CONFIG.baseBackoffSeconds * Math.pow(2, Math.max(0, attempts - 1))
+  return Math.min(delay, TASK_QUEUE_CONFIG.maxBackoffSeconds)
+}
+
+function getMaxAttempts(task: Task): number {
+  return task.max_attempts || TASK_QUEUE_CONFIG.defaultMaxAttempts
+}
+
+/**
+ * Fetch tasks that are eligible to be claimed
+ * - Status 'new', approved (or not requiring approval) and past their backoff
+ * - Status 'in_progress' whose lease has expired (executor crashed or timed out)
+ */
+export async function fetchClaimableTasks(limit: number = 10): Promise<Task[]> {
+  const now = new Date().toISOString()
+
+  const [readyRes, expiredRes] = await Promise.all([
+    supabase
+      .from('squad_tasks')
+      .select('*')
+      .eq('status', 'new')
+      .or('requires_approval.eq.false,and(requires_approval.eq.true,approved_at.not.is.null)')
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+      .order('priority', { ascending: false }) // urgent > high > medium > low
+      .order('created_at', { ascending: true }) // oldest first
+      .limit(limit),
+    supabase
+      .from('squad_tasks')
+      .select('*')
+      .eq('status', 'in_progress')
+      .not('lease_expires_at', 'is', null)
+      .lt('lease_expires_at', now)
+      .order('lease_expires_at', { ascending: true })
+      .limit(limit)
+  ])
+
+  if (readyRes.error) {
+    console.error('Error fetching claimable tasks:', readyRes.error)
+  }
+  if (expiredRes.error) {
+    console.error('Error fetching expired leases:', expiredRes.error)
+  }
+
+  return [...(expiredRes.data || []), ...(readyRes.data || [])].slice(0, limit)
+}
+
+/**
+ * Atomically claim a task for this worker.
+ *
+ * The update only matches if status and execution_attempts are unchanged since
+ * the task was read, so two overlapping executors can never both win the claim.
+ * Returns the claimed row, or null if another worker got there first.
+ */
+export async function claimTask(task: Task, workerId: string): Promise<Task | null> {
+  const attempts = task.execution_attempts || 0
+  const now = new Date()
+  const leaseExpiresAt = new Date(now.getTime() + TASK_QUEUE_CONFIG.leaseSeconds * 1000)
+
+  // A lease expired on the final attempt - the worker died mid-task, give up.
+  // Only while the lease read is still the one in place: another worker may
+  // have dead-lettered or finished the task since.
+  if (task.status === 'in_progress' && attempts >= getMaxAttempts(task)) {
+    await deadLetterTask(task, task.execution_error || 'Lease expired on final attempt', undefined, {
+      expiredLeaseExpiresAt: task.lease_expires_at || null
+    })
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('squad_tasks')
+    .update({
+      status: 'in_progress',
+      lease_owner: workerId,
+      lease_expires_at: leaseExpiresAt.toISOString(),
+      execution_attempts: attempts + 1,
+      last_execution_attempt: now.toISOString()
+    })
+    .eq('id', task.id)
+    .eq('status', task.status)
+    .eq('execution_attempts', attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error claiming task ${task.id}:`, error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Claim up to `limit` tasks for this worker
+ */
+export async function claimTasks(workerId: string, limit: number = 10): Promise<Task[]> {
+  const candidates = await fetchClaimableTasks(limit)
+  const claimed: Task[] = []
+
+  for (const candidate of candidates) {
+    const task = await claimTask(candidate, workerId)
+    if (task) {
+      claimed.push(task)
+    }
+  }
+
+  return claimed
+}
+
+/**
+ * Mark a leased task as completed and release the lease
+ */
+export async function completeTask(
+  task: Task,
+  workerId: string,
+  deliverableUrl?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('squad_tasks')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      deliverable_url: deliverableUrl,
+      execution_error: null,
+      lease_owner: null,
+      lease_expires_at: null
+    })
+    .eq('id', task.id)
+    .eq('lease_owner', workerId)
+
+  if (error) {
+    console.error(`Error completing task ${task.id}:`, error)
+  }
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the
+ * task once it has used all of its attempts
+ */
+export async function failTask(
+  task: Task,
+  workerId: string,
+  errorMessage: string
+): Promise<'retry' | 'dead_letter'> {
+  const attempts = task.execution_attempts || 0
+
+  if (attempts >= getMaxAttempts(task)) {
+    await deadLetterTask(task, errorMessage)
+    return 'dead_letter'
+  }
+
+  const backoffSeconds = computeBackoffSeconds(attempts)
+  const nextAttemptAt = new Date(Date.now() + backoffSeconds * 1000)
+
+  const { error } = await supabase
+    .from('squad_tasks')
+    .update({
+      status: 'new',
+      execution_error: errorMessage,
+      next_attempt_at: nextAttemptAt.toISOString(),
+      lease_owner: null,
+      lease_expires_at: null
+    })
+    .eq('id', task.id)
+    .eq('lease_owner', workerId)
+
+  if (error) {
+    console.error(`Error scheduling retry for task ${task.id}:`, error)
+  }
+
+  console.log(`[TASK QUEUE] Task ${task.id} retry ${attempts}/${getMaxAttempts(task)} in ${backoffSeconds}s`)
+
+  return 'retry'
+}
+
+/**
+ * Return a leased task to the queue without counting the attempt, e.g. when
+ * it still needs approval or its handler is waiting on an external party
+ */
+export async function releaseTask(
+  task: Task,
+  workerId: string,
+  options: { nextAttemptAt?: string; fields?: Record<string, any> } = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('squad_tasks')
+    .update({
+      status: 'new',
+      execution_attempts: Math.max(0, (task.execution_attempts || 0) - 1),
+      next_attempt_at: options.nextAttemptAt || null,
+      lease_owner: null,
+      lease_expires_at: null,
+      ...options.fields
+    })
+    .eq('id', task.id)
+    .eq('lease_owner', workerId)
+
+  if (error) {
+    console.error(`Error releasing task ${task.id}:`, error)
+  }
+}
+
+/**
+ * Move a task to the dead-letter state and alert. With `expiredLeaseExpiresAt`
+ * the task is only moved while it is still in progress under that lease.
+ * Returns whether the task was moved - nothing is alerted otherwise.
+ */
+export async function deadLetterTask(
+  task: Task,
+  errorMessage: string,
+  reason: string = `failed after ${getMaxAttempts(task)} attempts`,
+  options: { expiredLeaseExpiresAt?: string | null } = {}
+): Promise<boolean> {
+  let query = supabase
+    .from('squad_tasks')
+    .update({
+      status: 'dead_letter',
+      execution_error: errorMessage,
+      dead_lettered_at: new Date().toISOString(),
+      next_attempt_at: null,
+      lease_owner: null,
+      lease_expires_at: null
+    })
+    .eq('id', task.id)
+
+  if (options.expiredLeaseExpiresAt !== undefined) {
+    query = options.expiredLeaseExpiresAt === null
+      ? query.eq('status', 'in_progress').is('lease_expires_at', null)
+      : query.eq('status', 'in_progress').eq('lease_expires_at', options.expiredLeaseExpiresAt)
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    console.error(`Error dead-lettering task ${task.id}:`, error)
+    return false
+  }
+
+  if (!data || data.length === 0) {
+    console.log(`[TASK QUEUE] Task ${task.id} changed since it was read - not dead-lettered`)
+    return false
+  }
+
+  console.error(`[DEAD LETTER] Task ${task.id} ${reason}:`, errorMessage)
+
+  const { sendAlert } = await import('@/services/alert-service')
+  await sendAlert({
+    type: 'agent_error',
+    severity: 'urgent',
+    title: 'Task Moved To Dead-Letter Queue',
+    message: `Task "${task.title}" (${task.assigned_agent}) ${reason}: ${errorMessage}`,
+    metadata: { task_id: task.id }
+  })
+
+  await logToSquadMessages(
+    'Task Executor',
+    `☠️ DEAD LETTER: Task "${task.title}" ${reason}`,
+    { task_id: task.id, error: errorMessage }
+  )
+
+  return true
+}
+
+/**
+ * Fetch dead-lettered tasks, most recent first
+ */
+export async function fetchDeadLetterTasks(limit: number = 20): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('squad_tasks')
+    .select('*')
+    .eq('status', 'dead_letter')
+    .order('dead_lettered_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching dead-letter tasks:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Put a dead-lettered task back on the queue with a fresh set of attempts
+ */
+export async function replayTask(taskId: string, replayedBy: string): Promise<Task | null> {
+  const { data: task, error: fetchError } = await supabase
+    .from('squad_tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single()
+
+  if (fetchError || !task) {
+    throw new Error('Task not found')
+  }
+
+  if (task.status !== 'dead_letter') {
+    throw new Error(`Task is not dead-lettered (status: ${task.status})`)
+  }
+
+  const { data, error } = await supabase
+    .from('squad_tasks')
+    .update({
+      status: 'new',
+      execution_attempts: 0,
+      next_attempt_at: null,
+      dead_lettered_at: null,
+      replay_count: (task.replay_count || 0) + 1,
+      metadata: {
+        ...(task.metadata || {}),
+        last_replayed_by: replayedBy,
+        last_replayed_at: new Date().toISOString(),
+        last_dead_letter_error: task.execution_error
+      }
+    })
+    .eq('id', taskId)
+    .eq('status', 'dead_letter')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to replay task: ${error.message}`)
+  }
+
+  if (data) {
+    await logToSquadMessages(
+      'Task Executor',
+      `🔁 Task replayed from dead-letter queue by ${replayedBy}: "${task.title}"`,
+      { task_id: taskId, replayed_by: replayedBy }
+    )
+  }
+
+  return data
+}
+
+export const taskQueue = {
+  createWorkerId,
+  computeBackoffSeconds,
+  fetchClaimableTasks,
+  claimTask,
+  claimTasks,
+  completeTask,
+  failTask,
+  releaseTask,
+  deadLetterTask,
+  fetchDeadLetterTasks,
+  replayTask
+}
@@ -12,16 +12,42 @@ export interface TokenBudget {
   used: number
   remaining: number
   agentUsage: Record<string, number>
+  costZar: number
+  agentCostZar: Record<string, number>
 }
 
-export interface ConflictDetection {
-  customerId?: string
-  emailId?: string
-  quoteId?: string
-  orderId?: string
-  timestamp: Date
-  agents: string[]
+export type LockResourceType = 'customer' | 'email' | 'quote' | 'order'
+
+export interface LockRequest {
+  resourceType: LockResourceType
+  resourceId: string
+  agent: string
+  action: string
+  ttlSeconds?: number
+  /** Token of a lock the caller already holds (e.g. passed on to a route it calls) */
+  token?: string
+}
+
+export interface ResourceLock {
+  resourceType: LockResourceType
+  resourceId: string
+  agent: string
   action: string
+  token: string
+  /** Lower wins - position in CONFLICT_RESOLUTION_PRIORITY */
+  priority: number
+  acquiredAt: string
+  expiresAt: string
+}
+
+export interface LockResult {
+  acquired: boolean
+  /** Current holder - the caller's lock when acquired */
+  lock: ResourceLock
+  /** Lower-priority lock the caller took over */
+  preempted?: ResourceLock
+  /** Caller already held the lock (token matched) */
+  reentrant: boolean
 }
 
 export interface SquadMessage {
@@ -43,8 +69,6 @@ export interface ScheduledJob {
 
 export interface OrchestratorConfig {
   tokenBudget: number
-  tokenResetHour: number
-  conflictWindowSeconds: number
   operationTimeoutSeconds: number
   statusCheckIntervalMinutes: number
 }
@@ -60,7 +84,7 @@ export interface AgentTask {
 export interface OrchestratorStatus {
   agents: AgentStatus[]
   tokenBudget: TokenBudget
-  activeOperations: ConflictDetection[]
+  activeLocks: ResourceLock[]
   scheduledJobs: string[]
   isRunning: boolean
   timestamp: string
@@ -4,6 +4,7 @@ import { SupplierAgent } from '../agents/supplier-agent'
 import { QuoteAgent } from '../agents/quote-agent'
 import { SupplierResponseHandler } from '../../lib/supplier-response-handler'
 import { gmailService } from '../integrations/gmail-service'
+import { quoteFollowUps } from '../quote-follow-ups'
 
 interface WorkflowStep {
   step: string
@@ -282,7 +283,7 @@ export class QuoteAutomationWorkflow {
         return { success: false, error: sendStep.error }
       }
 
-      await this.scheduleFollowUp(quoteRequest, workflowId)
+      await this.scheduleFollowUp(quoteRequest, workflowId, sendStep.email!)
 
       await this.supabase
         .from('quote_requests')
@@ -674,6 +675,7 @@ ${timeline.map(t => `- ${new Date(t.timestamp).toLocaleString()}: ${t.event}`).j
 
   private async sendQuoteToCustomer(quoteRequest: any): Promise<{
     success: boolean
+    email?: { subject: string; body: string }
     error?: string
   }> {
     try {
@@ -719,7 +721,7 @@ ${timeline.map(t => `- ${new Date(t.timestamp).toLocaleString()}: ${t.event}`).j
 
       this.recordCircuitBreakerSuccess(circuitBreakerKey)
 
-      return { success: true }
+      return { success: true, email: { subject: draftData.subject, body: draftData.body } }
 
     } catch (error: any) {
       this.recordCircuitBreakerFailure('email_send')
@@ -730,38 +732,27 @@ ${timeline.map(t => `- ${new Date(t.timestamp).toLocaleString()}: ${t.event}`).j
     }
   }
 
-  private async scheduleFollowUp(quoteRequest: any, workflowId: string): Promise<void> {
+  private async scheduleFollowUp(
+    quoteRequest: any,
+    workflowId: string,
+    email: { subject: string; body: string }
+  ): Promise<void> {
     try {
-      const followUpDate = new Date()
-      followUpDate.setDate(followUpDate.getDate() + 3)
-
-      await this.supabase
-        .from('squad_tasks')
-        .insert({
-          title: `Follow up: Quote for ${quoteRequest.customer_name || quoteRequest.customer_email}`,
-          description: `Follow up on quote sent ${new Date().toLocaleDateString()}.
-
-Customer: ${quoteRequest.customer_name || quoteRequest.customer_email}
-Email: ${quoteRequest.customer_email}
-Quote Request ID: ${quoteRequest.id}
+      if (!quoteRequest.current_version_id) {
+        console.warn(`No quote version for ${quoteRequest.id} - follow-ups not scheduled`)
+        return
+      }
 
-Check if customer has questions or is ready to proceed with the order.`,
-          status: 'new',
-          assigned_agent: 'Mpho',
-          priority: 'medium',
-          mentions_kenny: false,
-          deliverable_url: quoteRequest.pdf_url,
-          metadata: {
-            workflow_id: workflowId,
-            quote_request_id: quoteRequest.id,
-            task_type: 'follow_up',
-            scheduled_for: followUpDate.toISOString()
-          }
-        })
+      const followUps = await quoteFollowUps.startFollowUps({
+        quoteRequestId: quoteRequest.id,
+        quoteVersionId: quoteRequest.current_version_id,
+        subject: email.subject,
+        body: email.body
+      })
 
       await this.logAgentActivity(workflowId, 'follow_up_scheduled', {
         quote_request_id: quoteRequest.id,
-        scheduled_for: followUpDate.toISOString()
+        follow_ups: followUps.map(f => ({ step: f.step, scheduled_for: f.scheduled_for }))
       })
 
     } catch (error) {
@@ -613,6 +613,43 @@ export class QuoteWorkflowMonitor {
     }
   }
 
+  /**
+   * Record the customer's decision on a quote against its open workflows.
+   * Accepted, rejected and no-response outcomes complete the workflow; a
+   * negotiation only records the step, since a revised quote follows.
+   */
+  async recordCustomerDecision(
+    quoteRequestId: string,
+    outcome: string,
+    metadata?: any
+  ): Promise<void> {
+    try {
+      const { data: executions } = await this.supabase
+        .from('quote_workflow_executions')
+        .select('workflow_id, metadata')
+        .eq('quote_request_id', quoteRequestId)
+        .not('status', 'in', '(completed,failed)')
+
+      for (const execution of executions || []) {
+        await this.updateStepProgress(execution.workflow_id, 'customer_decision', 'completed', undefined, {
+          outcome,
+          ...metadata
+        })
+
+        if (outcome !== 'negotiation' && outcome !== 'pending') {
+          await this.completeWorkflow(execution.workflow_id, 'completed', {
+            ...execution.metadata,
+            customer_outcome: outcome,
+            ...metadata
+          })
+        }
+      }
+
+    } catch (error) {
+      console.error('Error recording customer decision:', error)
+    }
+  }
+
   /**
    * Check for stuck workflows and trigger alerts
    */
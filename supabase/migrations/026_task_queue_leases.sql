@@ -0,0 +1,54 @@
+-- Migration 026: Durable Task Queue
+-- Turns squad_tasks into a leased work queue so overlapping executor runs
+-- cannot pick up the same task, and failed tasks back off then dead-letter.
+
+-- ============================================
+-- Lease / visibility timeout columns
+-- ============================================
+
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+-- ============================================
+-- Retry / dead-letter columns
+-- ============================================
+
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 3;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS replay_count INTEGER DEFAULT 0;
+
+UPDATE squad_tasks SET execution_attempts = 0 WHERE execution_attempts IS NULL;
+
+-- ============================================
+-- Status constraint: add 'dead_letter'
+-- ============================================
+
+ALTER TABLE squad_tasks DROP CONSTRAINT IF EXISTS squad_tasks_status_check;
+ALTER TABLE squad_tasks ADD CONSTRAINT squad_tasks_status_check
+  CHECK (status IN ('new', 'in_progress', 'completed', 'failed', 'rejected', 'dead_letter'));
+
+-- ============================================
+-- Indexes for claim and dead-letter queries
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_tasks_next_attempt
+  ON squad_tasks(next_attempt_at)
+  WHERE status = 'new';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_lease_expiry
+  ON squad_tasks(lease_expires_at)
+  WHERE status = 'in_progress';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_dead_letter
+  ON squad_tasks(dead_lettered_at DESC)
+  WHERE status = 'dead_letter';
+
+COMMENT ON COLUMN squad_tasks.lease_owner IS 'Executor invocation currently holding the task lease';
+COMMENT ON COLUMN squad_tasks.lease_expires_at IS 'When the lease lapses and the task becomes claimable again';
+COMMENT ON COLUMN squad_tasks.max_attempts IS 'Attempts allowed before the task is dead-lettered';
+COMMENT ON COLUMN squad_tasks.next_attempt_at IS 'Earliest time the task may be retried (exponential backoff)';
+COMMENT ON COLUMN squad_tasks.dead_lettered_at IS 'When the task exhausted its attempts and moved to the dead-letter state';
+COMMENT ON COLUMN squad_tasks.replay_count IS 'How many times the task was replayed from the dead-letter queue';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,141 @@
+-- Migration 027: Declarative Approval Policies
+-- Replaces the hardcoded APPROVAL_RULES / AUTO_EXECUTE_RULES in
+-- services/approval-workflow.ts with stored, editable policies and records
+-- which policy fired for every evaluated task.
+
+-- ============================================
+-- Policies
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- NULL applies the policy to every agent
+  agent TEXT,
+
+  -- What happens when the policy matches
+  action TEXT NOT NULL DEFAULT 'require_approval' CHECK (action IN ('require_approval', 'auto_execute')),
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'urgent')),
+  required_role TEXT,
+
+  -- All conditions must match: [{ "field": "metadata.email_category", "operator": "eq", "value": "order" }]
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- Auto-approve when the task amount is below this threshold
+  auto_approve_below NUMERIC(12,2),
+  amount_field TEXT NOT NULL DEFAULT 'metadata.amount',
+
+  -- Higher priority policies are evaluated first; the first match wins
+  priority INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_policies_enabled
+  ON approval_policies(priority DESC)
+  WHERE enabled = TRUE;
+
+-- ============================================
+-- Evaluation audit
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS approval_policy_evaluations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL REFERENCES squad_tasks(id) ON DELETE CASCADE,
+  policy_id UUID REFERENCES approval_policies(id) ON DELETE SET NULL,
+  policy_name TEXT,
+  decision TEXT NOT NULL CHECK (decision IN ('require_approval', 'auto_execute', 'auto_approved', 'default')),
+  severity TEXT NOT NULL,
+  required_role TEXT,
+  reason TEXT,
+  context JSONB DEFAULT '{}'::jsonb,
+  evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_evaluations_task
+  ON approval_policy_evaluations(task_id, evaluated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_policy_evaluations_policy
+  ON approval_policy_evaluations(policy_id, evaluated_at DESC);
+
+-- ============================================
+-- Decision snapshot on the task
+-- ============================================
+
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS approval_policy_id UUID REFERENCES approval_policies(id) ON DELETE SET NULL;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS approval_severity TEXT;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS required_approver_role TEXT;
+
+-- ============================================
+-- Seed: the rules that used to be hardcoded
+-- ============================================
+
+INSERT INTO approval_policies (name, agent, action, severity, required_role, conditions, priority) VALUES
+  -- Auto-execute (evaluated before approval rules, as before)
+  ('FAQ/Inquiry responses', 'Email Agent', 'auto_execute', 'low', NULL,
+    '[{"field": "metadata.email_category", "operator": "eq", "value": "inquiry"}]', 100),
+  ('Spam classification', 'Email Agent', 'auto_execute', 'low', NULL,
+    '[{"field": "metadata.email_category", "operator": "eq", "value": "spam"}]', 100),
+  ('Minor SEO fixes', 'SEO Agent', 'auto_execute', 'low', NULL,
+    '[{"field": "metadata.affected_products", "operator": "lte", "value": 10}]', 100),
+  ('Bid decreases', 'Google Ads Agent', 'auto_execute', 'low', NULL,
+    '[{"field": "metadata.bid_change_percent", "operator": "lt", "value": 0}]', 100),
+  ('Small bid increases', 'Google Ads Agent', 'auto_execute', 'low', NULL,
+    '[{"field": "metadata.bid_change_percent", "operator": "gt", "value": 0}, {"field": "metadata.bid_change_percent", "operator": "lte", "value": 10}]', 100),
+
+  -- Email Agent
+  ('Customer complaints', 'Email Agent', 'require_approval', 'urgent', 'sales',
+    '[{"field": "metadata.email_category", "operator": "eq", "value": "complaint"}]', 50),
+  ('Refund requests', 'Email Agent', 'require_approval', 'urgent', 'accounts',
+    '[{"field": "title", "operator": "contains", "value": "refund"}]', 50),
+  ('Customer order emails', 'Email Agent', 'require_approval', 'high', 'sales',
+    '[{"field": "metadata.email_category", "operator": "eq", "value": "order"}]', 40),
+  ('Customer support emails', 'Email Agent', 'require_approval', 'high', 'sales',
+    '[{"field": "metadata.email_category", "operator": "eq", "value": "support"}]', 40),
+
+  -- Social Media Agent
+  ('Social posts', 'Social Media Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "title", "operator": "contains", "value": "post"}]', 40),
+  ('Social posts (by post id)', 'Social Media Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "metadata.post_id", "operator": "exists"}]', 40),
+
+  -- Marketing Agent
+  ('Newsletter distribution', 'Marketing Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "title", "operator": "contains", "value": "newsletter"}]', 40),
+  ('Bulk email campaigns', 'Marketing Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "metadata.recipient_count", "operator": "gt", "value": 10}]', 40),
+  ('Influencer outreach', 'Marketing Agent', 'require_approval', 'medium', 'marketing',
+    '[{"field": "title", "operator": "contains_any", "value": ["influencer", "outreach"]}]', 30),
+
+  -- SEO Agent
+  ('Bulk SEO changes', 'SEO Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "metadata.affected_products", "operator": "gt", "value": 10}]', 40),
+  ('URL rewrites', 'SEO Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "metadata.change_type", "operator": "eq", "value": "url_rewrite"}]', 40),
+  ('URL changes', 'SEO Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "title", "operator": "contains", "value": "url"}]', 40),
+  ('Category moves', 'SEO Agent', 'require_approval', 'medium', 'marketing',
+    '[{"field": "metadata.change_type", "operator": "eq", "value": "category_move"}]', 30),
+
+  -- Google Ads Agent
+  ('Budget changes', 'Google Ads Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "title", "operator": "contains", "value": "budget"}]', 40),
+  ('Large bid increases', 'Google Ads Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "metadata.bid_change_percent", "operator": "gt", "value": 10}]', 40),
+  ('Campaign pause/resume', 'Google Ads Agent', 'require_approval', 'high', 'marketing',
+    '[{"field": "title", "operator": "contains_any", "value": ["pause", "resume"]}]', 40)
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE approval_policies IS 'Editable rules deciding whether a task auto-executes or needs approval';
+COMMENT ON COLUMN approval_policies.conditions IS 'Conditions that must all match: field (agent, title, amount, customer_segment, time_of_day, metadata.*), operator, value';
+COMMENT ON COLUMN approval_policies.auto_approve_below IS 'Approval is skipped when the amount at amount_field is below this value';
+COMMENT ON TABLE approval_policy_evaluations IS 'Audit trail of which policy fired for each task';
+COMMENT ON COLUMN squad_tasks.approval_policy_id IS 'Policy that decided the approval requirement for this task';
+COMMENT ON COLUMN squad_tasks.required_approver_role IS 'Role required to approve the task (sales, accounts, marketing)';
+
+NOTIFY pgrst, 'reload schema';
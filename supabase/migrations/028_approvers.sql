@@ -0,0 +1,94 @@
+-- Migration 028: Approvers, Delegation and Multi-Person Approval
+-- Replaces the single hardcoded 'Kenny' approver with real identities linked
+-- to Supabase auth users, approver roles, time-boxed delegation and
+-- two-person approval for high-risk tasks.
+
+-- ============================================
+-- Approvers
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS approvers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Linked on first sign-in by matching email
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL UNIQUE,
+  email TEXT UNIQUE,
+  roles TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT approvers_roles_check CHECK (roles <@ ARRAY['sales', 'accounts', 'marketing', 'admin']::TEXT[])
+);
+
+-- ============================================
+-- Delegation (e.g. while someone is on leave)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS approver_delegations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  delegator_id UUID NOT NULL REFERENCES approvers(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES approvers(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID REFERENCES approvers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT approver_delegations_distinct CHECK (delegator_id <> delegate_id),
+  CONSTRAINT approver_delegations_window CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delegations_active
+  ON approver_delegations(delegate_id, ends_at)
+  WHERE revoked_at IS NULL;
+
+-- ============================================
+-- Individual approval decisions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS task_approvals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task_id UUID NOT NULL REFERENCES squad_tasks(id) ON DELETE CASCADE,
+  approver_id UUID NOT NULL REFERENCES approvers(id),
+  approver_name TEXT NOT NULL,
+  on_behalf_of_id UUID REFERENCES approvers(id),
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- One decision per person per task, so two-person approval needs two people
+  CONSTRAINT task_approvals_unique_approver UNIQUE (task_id, approver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_approvals_task
+  ON task_approvals(task_id, created_at);
+
+-- ============================================
+-- Number of approvals a task needs
+-- ============================================
+
+ALTER TABLE approval_policies ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE squad_tasks ADD COLUMN IF NOT EXISTS required_approvals INTEGER NOT NULL DEFAULT 1;
+
+-- Ad spend and refunds need a second pair of eyes
+UPDATE approval_policies SET required_approvals = 2
+  WHERE name IN ('Budget changes', 'Large bid increases', 'Refund requests');
+
+-- ============================================
+-- Seed the team (link accounts by setting email)
+--   UPDATE approvers SET email = 'kenny@example.com' WHERE name = 'Kenny';
+-- ============================================
+
+INSERT INTO approvers (name, roles) VALUES
+  ('Kenny', ARRAY['admin', 'sales', 'accounts', 'marketing']),
+  ('Wade', ARRAY['sales']),
+  ('Lucky', ARRAY['sales']),
+  ('Accounts', ARRAY['accounts'])
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE approvers IS 'People who may approve agent tasks, linked to Supabase auth users';
+COMMENT ON COLUMN approvers.roles IS 'Approver roles: sales, accounts, marketing, admin (admin may approve anything)';
+COMMENT ON TABLE approver_delegations IS 'Temporary hand-over of an approver''s roles to another approver';
+COMMENT ON TABLE task_approvals IS 'Each approve/reject decision on a task, by person';
+COMMENT ON COLUMN squad_tasks.required_approvals IS 'Distinct approvals needed before the task may execute';
+
+NOTIFY pgrst, 'reload schema';
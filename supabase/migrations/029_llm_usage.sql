@@ -0,0 +1,84 @@
+-- Migration 029: LLM Usage and Cost Accounting
+-- Replaces the orchestrator's in-memory token budget (reset on every cold
+-- start and fed by estimates) with measured Anthropic/OpenAI usage per call,
+-- priced in rand, and per-agent daily/monthly spend caps.
+
+-- ============================================
+-- Usage per LLM call
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  agent TEXT NOT NULL,
+  task_id UUID REFERENCES squad_tasks(id) ON DELETE SET NULL,
+  workflow TEXT,
+  -- Call site, e.g. 'quote_request_detection'
+  operation TEXT,
+
+  provider TEXT NOT NULL CHECK (provider IN ('anthropic', 'openai')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  usd_zar_rate NUMERIC(10,4) NOT NULL,
+  cost_zar NUMERIC(12,4) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_agent_created
+  ON llm_usage(agent, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_task
+  ON llm_usage(task_id)
+  WHERE task_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_workflow
+  ON llm_usage(workflow, created_at DESC)
+  WHERE workflow IS NOT NULL;
+
+-- Daily totals in business time (SAST), used for budget checks and the cost dashboard
+CREATE OR REPLACE VIEW llm_usage_daily AS
+SELECT
+  (created_at AT TIME ZONE 'Africa/Johannesburg')::date AS day,
+  agent,
+  provider,
+  model,
+  COUNT(*)::INTEGER AS calls,
+  SUM(input_tokens)::BIGINT AS input_tokens,
+  SUM(output_tokens)::BIGINT AS output_tokens,
+  SUM(cost_zar)::NUMERIC(12,4) AS cost_zar
+FROM llm_usage
+GROUP BY 1, 2, 3, 4;
+
+-- ============================================
+-- Spend caps per agent
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS agent_budgets (
+  agent TEXT PRIMARY KEY,
+  -- NULL means no cap for that period
+  daily_limit_zar NUMERIC(12,2),
+  monthly_limit_zar NUMERIC(12,2),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+INSERT INTO agent_budgets (agent, daily_limit_zar, monthly_limit_zar) VALUES
+  ('Jarvis', 200, 4000),
+  ('Email Agent', 150, 3000),
+  ('Quote Agent', 250, 5000),
+  ('Social Media Agent', 100, 2000),
+  ('SEO Agent', 200, 4000),
+  ('Marketing Agent', 100, 2000),
+  ('Google Ads Agent', 50, 1000)
+ON CONFLICT (agent) DO NOTHING;
+
+COMMENT ON TABLE llm_usage IS 'Measured token usage and rand cost of every Anthropic/OpenAI call';
+COMMENT ON COLUMN llm_usage.usd_zar_rate IS 'USD to ZAR rate used to price the call';
+COMMENT ON VIEW llm_usage_daily IS 'LLM usage per SAST day, agent and model';
+COMMENT ON TABLE agent_budgets IS 'Daily and monthly LLM spend caps per agent, in rand';
+
+NOTIFY pgrst, 'reload schema';
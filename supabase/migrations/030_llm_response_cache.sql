@@ -0,0 +1,35 @@
+-- Migration 030: LLM Response Cache
+-- Responses from the LLM gateway (lib/llm-gateway.ts) for calls that opt in
+-- to caching, keyed on a hash of provider, model, prompt and parameters so an
+-- identical request within the TTL is answered without calling the provider.
+
+-- ============================================
+-- Cached responses
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+  -- sha256 of the normalized request
+  cache_key TEXT PRIMARY KEY,
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('anthropic', 'openai')),
+  model TEXT NOT NULL,
+
+  -- { text, model, usage: { inputTokens, outputTokens } }
+  response JSONB NOT NULL,
+
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_expires
+  ON llm_response_cache(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_llm_response_cache_operation
+  ON llm_response_cache(operation, created_at DESC);
+
+COMMENT ON TABLE llm_response_cache IS 'LLM gateway responses reused for identical requests until expires_at';
+COMMENT ON COLUMN llm_response_cache.hit_count IS 'Number of calls answered from this entry';
+
+NOTIFY pgrst, 'reload schema';
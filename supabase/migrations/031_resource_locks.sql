@@ -0,0 +1,37 @@
+-- Migration 031: Resource Locks
+-- Postgres fallback for the shared lock service (services/resource-locks.ts)
+-- used when Redis is not configured or unreachable. Agents take a lock on a
+-- customer, email, quote or order before acting on it so overlapping cron
+-- runs and routes cannot work the same item at once.
+
+-- ============================================
+-- Held locks
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS resource_locks (
+  -- '<resource_type>:<resource_id>'
+  resource_key TEXT PRIMARY KEY,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('customer', 'email', 'quote', 'order')),
+  resource_id TEXT NOT NULL,
+
+  agent TEXT NOT NULL,
+  action TEXT NOT NULL,
+  token UUID NOT NULL,
+  -- Position in CONFLICT_RESOLUTION_PRIORITY; a lower value may take over the lock
+  priority INTEGER NOT NULL,
+
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_resource_locks_expires
+  ON resource_locks(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_resource_locks_agent
+  ON resource_locks(agent);
+
+COMMENT ON TABLE resource_locks IS 'Agent locks on customers, emails, quotes and orders (fallback when Redis is unavailable)';
+COMMENT ON COLUMN resource_locks.token IS 'Identifies the holder; release and renewal only succeed with the matching token';
+COMMENT ON COLUMN resource_locks.expires_at IS 'Lock lapses after this time even if never released';
+
+NOTIFY pgrst, 'reload schema';
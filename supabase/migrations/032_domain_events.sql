@@ -0,0 +1,67 @@
+-- Migration 032: Domain Events
+-- Typed events published by agents (email.classified, supplier.responded,
+-- quote.approved, ...) and one delivery row per subscriber. Deliveries are
+-- leased, retried with backoff and dead-lettered like squad_tasks, so every
+-- subscriber sees every event at least once and events can be replayed.
+
+-- ============================================
+-- Events
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS domain_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Agent or route that published the event
+  source TEXT NOT NULL,
+  -- Groups the events of one pipeline run (e.g. the email that started it)
+  correlation_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_type_created
+  ON domain_events(type, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_correlation
+  ON domain_events(correlation_id)
+  WHERE correlation_id IS NOT NULL;
+
+-- ============================================
+-- Deliveries
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS event_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES domain_events(id) ON DELETE CASCADE,
+  subscriber TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'in_progress', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  replayed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (event_id, subscriber)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due
+  ON event_deliveries(status, next_attempt_at)
+  WHERE status IN ('pending', 'in_progress');
+
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_subscriber
+  ON event_deliveries(subscriber, created_at DESC);
+
+COMMENT ON TABLE domain_events IS 'Domain events published by agents (services/event-bus.ts)';
+COMMENT ON TABLE event_deliveries IS 'At-least-once delivery of each domain event to each subscriber';
+COMMENT ON COLUMN event_deliveries.lease_expires_at IS 'A delivery still in_progress after this time is picked up again';
+COMMENT ON COLUMN event_deliveries.status IS 'dead = gave up after max_attempts; replay puts it back to pending';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,44 @@
+-- Migration 033: LLM Email Classification
+-- The email classifier (lib/email-classifier.ts) now asks an LLM for category,
+-- sub-intent, sentiment, language, entities and a confidence score, falling
+-- back to the keyword rules when unsure. Manual re-categorisation in the Email
+-- Agent panel is stored here and fed back to the LLM as few-shot examples.
+
+-- ============================================
+-- Allow 'internal' (own domains, partners, blocked senders)
+-- ============================================
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_category_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_category_check
+  CHECK (category IN ('unclassified', 'order', 'support', 'inquiry', 'complaint', 'spam', 'internal', 'other'));
+
+-- ============================================
+-- Corrections used as few-shot examples
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_classification_examples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- One example per email; correcting it again replaces the example
+  email_id UUID NOT NULL UNIQUE REFERENCES email_logs(id) ON DELETE CASCADE,
+
+  from_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body_excerpt TEXT NOT NULL DEFAULT '',
+
+  original_category TEXT,
+  original_confidence NUMERIC(4, 3),
+  category TEXT NOT NULL CHECK (category IN ('order', 'support', 'inquiry', 'complaint', 'spam', 'internal', 'other')),
+  sub_intent TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+
+  corrected_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_classification_examples_category
+  ON email_classification_examples(category, created_at DESC);
+
+COMMENT ON TABLE email_classification_examples IS 'Manual email re-categorisations, used as few-shot examples by the LLM classifier';
+COMMENT ON COLUMN email_classification_examples.original_category IS 'What the classifier said before the correction';
+
+NOTIFY pgrst, 'reload schema';
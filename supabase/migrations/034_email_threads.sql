@@ -0,0 +1,77 @@
+-- Migration 034: Email Threads
+-- Groups email_logs into conversations using the Gmail threadId and the
+-- Message-ID / In-Reply-To / References headers, and links each thread to the
+-- quote requests, orders and customer interactions it is about
+-- (services/email-threads.ts).
+
+-- ============================================
+-- Threads
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL for threads reconstructed from headers only
+  gmail_thread_id TEXT UNIQUE,
+  subject TEXT NOT NULL,
+  -- The external party (first sender that isn't us)
+  customer_email TEXT,
+  participants TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  message_count INTEGER NOT NULL DEFAULT 0,
+  first_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_threads_last_message
+  ON email_threads(last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_threads_customer
+  ON email_threads(customer_email);
+
+-- ============================================
+-- Thread columns on email_logs
+-- ============================================
+
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES email_threads(id) ON DELETE SET NULL;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS gmail_thread_id TEXT;
+-- RFC 5322 Message-ID of the message, used to match replies
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS message_id_header TEXT;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS in_reply_to TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_thread
+  ON email_logs(thread_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_gmail_thread
+  ON email_logs(gmail_thread_id)
+  WHERE gmail_thread_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_message_id_header
+  ON email_logs(message_id_header)
+  WHERE message_id_header IS NOT NULL;
+
+-- ============================================
+-- Links to quotes, orders and customer interactions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_thread_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES email_threads(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('quote_request', 'order', 'customer_interaction')),
+  -- quote_requests.id, orders_tracker.order_no or customer_interactions.id
+  reference_id TEXT NOT NULL,
+  -- Why it was linked, e.g. 'source_email', 'order_number', 'quote_number'
+  reason TEXT NOT NULL,
+  linked_by TEXT NOT NULL DEFAULT 'auto',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (thread_id, link_type, reference_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_thread_links_reference
+  ON email_thread_links(link_type, reference_id);
+
+COMMENT ON TABLE email_threads IS 'Email conversations reconstructed from Gmail threads and reply headers';
+COMMENT ON TABLE email_thread_links IS 'Quote requests, orders and customer interactions a thread is about';
+
+NOTIFY pgrst, 'reload schema';
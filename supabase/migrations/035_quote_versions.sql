@@ -0,0 +1,96 @@
+-- Migration 035: Quote Versions
+-- Every generated, edited or revised quote is stored as an immutable version
+-- (line items, markup, supplier source, totals and PDF) so revisions can be
+-- diffed and outcomes tied to the exact version the customer accepted
+-- (services/quote-versions.ts).
+
+-- ============================================
+-- Versions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS quote_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_request_id UUID NOT NULL REFERENCES quote_requests(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  quote_number TEXT NOT NULL,
+  -- generated: Quote Agent, edit: approval-queue edit, revision: revised after sending
+  source TEXT NOT NULL CHECK (source IN ('generated', 'edit', 'revision')),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'superseded', 'accepted', 'rejected')),
+
+  -- Line items incl. cost_price, markup_percentage, supplier and supplier_response_id
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(12, 2) NOT NULL,
+  tax NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  shipping NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'ZAR',
+  valid_until TIMESTAMPTZ,
+  notes TEXT,
+  terms TEXT,
+  pdf_url TEXT,
+
+  previous_version_id UUID REFERENCES quote_versions(id) ON DELETE SET NULL,
+  change_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  reason TEXT,
+  email_draft_id TEXT,
+  created_by TEXT NOT NULL,
+  sent_at TIMESTAMPTZ,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (quote_request_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_versions_request
+  ON quote_versions(quote_request_id, version DESC);
+
+CREATE INDEX IF NOT EXISTS idx_quote_versions_quote_number
+  ON quote_versions(quote_number);
+
+-- Content is immutable once written; only the lifecycle columns may change
+CREATE OR REPLACE FUNCTION prevent_quote_version_content_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax IS DISTINCT FROM OLD.tax
+    OR NEW.shipping IS DISTINCT FROM OLD.shipping
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.terms IS DISTINCT FROM OLD.terms
+    OR NEW.pdf_url IS DISTINCT FROM OLD.pdf_url
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.quote_request_id IS DISTINCT FROM OLD.quote_request_id THEN
+    RAISE EXCEPTION 'quote_versions rows are immutable - create a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quote_versions_immutable ON quote_versions;
+CREATE TRIGGER quote_versions_immutable
+  BEFORE UPDATE ON quote_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_quote_version_content_update();
+
+-- ============================================
+-- Pointers from requests, edits and outcomes
+-- ============================================
+
+ALTER TABLE quote_requests ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES quote_versions(id) ON DELETE SET NULL;
+ALTER TABLE quote_edits ADD COLUMN IF NOT EXISTS quote_version_id UUID REFERENCES quote_versions(id) ON DELETE SET NULL;
+ALTER TABLE quote_outcomes ADD COLUMN IF NOT EXISTS quote_version_id UUID REFERENCES quote_versions(id) ON DELETE SET NULL;
+ALTER TABLE quote_outcomes ADD COLUMN IF NOT EXISTS quote_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_quote_outcomes_version
+  ON quote_outcomes(quote_version_id);
+
+ALTER TABLE quote_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON quote_versions FOR ALL USING (true);
+
+COMMENT ON TABLE quote_versions IS 'Immutable quote versions - one row per generated, edited or revised quote';
+COMMENT ON COLUMN quote_outcomes.quote_version_id IS 'The version the customer accepted, rejected or negotiated on';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,41 @@
+-- Migration 036: Customer Quote Portal
+-- Customers open their quote through a signed link (/quote/<token>), pick
+-- optional items and accept or request changes. Each decision is stored here
+-- and written to quote_outcomes (services/quote-portal.ts).
+
+-- ============================================
+-- Portal decisions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS quote_portal_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_request_id UUID NOT NULL REFERENCES quote_requests(id) ON DELETE CASCADE,
+  quote_version_id UUID NOT NULL REFERENCES quote_versions(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('accepted', 'changes_requested')),
+  selected_optional_item_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  -- Total including the optional items the customer selected
+  accepted_total NUMERIC(12, 2),
+  customer_name TEXT,
+  message TEXT,
+  quote_outcome_id UUID REFERENCES quote_outcomes(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- One decision per version; a change request is answered with a new version
+  UNIQUE (quote_version_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_portal_decisions_request
+  ON quote_portal_decisions(quote_request_id, created_at DESC);
+
+-- Lifecycle column, so not covered by the quote_versions immutability trigger
+ALTER TABLE quote_versions ADD COLUMN IF NOT EXISTS portal_viewed_at TIMESTAMPTZ;
+
+ALTER TABLE quote_portal_decisions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON quote_portal_decisions FOR ALL USING (true);
+
+COMMENT ON TABLE quote_portal_decisions IS 'Customer decisions made through the signed quote portal link';
+COMMENT ON COLUMN quote_versions.portal_viewed_at IS 'When the customer first opened this version in the quote portal';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,56 @@
+-- Migration 037: Quote to Order Conversion
+-- An accepted quote becomes an orders_tracker row plus one purchase order per
+-- winning supplier. Purchase orders wait for approval before they are emailed
+-- to the supplier (services/purchase-orders.ts).
+
+-- ============================================
+-- Purchase orders
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE,
+  -- orders_tracker.order_no (orders_tracker is managed outside these migrations)
+  order_no TEXT NOT NULL,
+  quote_request_id UUID REFERENCES quote_requests(id) ON DELETE SET NULL,
+  quote_version_id UUID REFERENCES quote_versions(id) ON DELETE SET NULL,
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  supplier_name TEXT NOT NULL,
+  supplier_email TEXT,
+  supplier_quote_no TEXT,
+  -- Lines at supplier cost price
+  items JSONB NOT NULL DEFAULT '[]'::JSONB,
+  subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  tax NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'ZAR',
+  pdf_url TEXT,
+  status TEXT NOT NULL DEFAULT 'pending_approval'
+    CHECK (status IN ('pending_approval', 'sent', 'cancelled')),
+  approved_by TEXT,
+  sent_at TIMESTAMPTZ,
+  gmail_message_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_order_no ON purchase_orders(order_no);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_quote_request ON purchase_orders(quote_request_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status, created_at DESC);
+
+-- Set once the accepted quote has been converted, so conversion runs only once
+ALTER TABLE quote_requests ADD COLUMN IF NOT EXISTS order_no TEXT;
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON purchase_orders FOR ALL USING (true);
+
+COMMENT ON TABLE purchase_orders IS 'Supplier purchase orders created from accepted quotes, sent after approval';
+COMMENT ON COLUMN quote_requests.order_no IS 'orders_tracker order created from the accepted quote';
+
+NOTIFY pgrst, 'reload schema';
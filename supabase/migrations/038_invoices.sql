@@ -0,0 +1,134 @@
+-- Migration 038: Invoices
+-- Pro-forma invoices, tax invoices and credit notes issued from orders
+-- (services/invoices.ts). Numbers come from invoice_sequences inside the
+-- inserting transaction, so a failed insert never leaves a gap in the series.
+
+-- ============================================
+-- Number sequences
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  document_type TEXT PRIMARY KEY,
+  prefix TEXT NOT NULL,
+  next_number INTEGER NOT NULL DEFAULT 1 CHECK (next_number > 0)
+);
+
+INSERT INTO invoice_sequences (document_type, prefix) VALUES
+  ('proforma', 'PF'),
+  ('tax_invoice', 'INV'),
+  ('credit_note', 'CN')
+ON CONFLICT (document_type) DO NOTHING;
+
+-- ============================================
+-- Invoices
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type TEXT NOT NULL CHECK (document_type IN ('proforma', 'tax_invoice', 'credit_note')),
+  -- Assigned by the assign_invoice_number trigger, e.g. INV-000042
+  invoice_number TEXT NOT NULL UNIQUE,
+  -- orders_tracker.order_no (orders_tracker is managed outside these migrations)
+  order_no TEXT,
+  quote_request_id UUID REFERENCES quote_requests(id) ON DELETE SET NULL,
+  -- Credit notes: the tax invoice being credited
+  credited_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT,
+  customer_company TEXT,
+  customer_address TEXT,
+  customer_vat_number TEXT,
+  -- Lines excluding VAT
+  items JSONB NOT NULL DEFAULT '[]'::JSONB,
+  subtotal NUMERIC(12, 2) NOT NULL,
+  vat_rate NUMERIC(5, 4) NOT NULL DEFAULT 0.15,
+  vat_amount NUMERIC(12, 2) NOT NULL,
+  total NUMERIC(12, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'ZAR',
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  reason TEXT,
+  notes TEXT,
+  pdf_url TEXT,
+  -- credited once credit notes cover the full total
+  status TEXT NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'credited')),
+  created_by TEXT NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK ((document_type = 'credit_note') = (credited_invoice_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_order_no ON invoices(order_no, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_customer_email ON invoices(customer_email);
+CREATE INDEX IF NOT EXISTS idx_invoices_credited ON invoices(credited_invoice_id);
+
+-- The sequence row stays locked until the insert commits, so numbers are
+-- sequential and gap-free even with concurrent inserts
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  seq_prefix TEXT;
+  seq_number INTEGER;
+BEGIN
+  UPDATE invoice_sequences
+    SET next_number = next_number + 1
+    WHERE document_type = NEW.document_type
+    RETURNING prefix, next_number - 1 INTO seq_prefix, seq_number;
+
+  IF seq_number IS NULL THEN
+    RAISE EXCEPTION 'No invoice sequence for %', NEW.document_type;
+  END IF;
+
+  NEW.invoice_number := seq_prefix || '-' || LPAD(seq_number::TEXT, 6, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_assign_number ON invoices;
+CREATE TRIGGER invoices_assign_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+-- Issued documents are never edited or deleted - refunds are credit notes.
+-- Only the PDF (once) and status can be set afterwards.
+CREATE OR REPLACE FUNCTION prevent_invoice_content_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'invoices cannot be deleted - issue a credit note instead';
+  END IF;
+
+  IF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number
+    OR NEW.document_type IS DISTINCT FROM OLD.document_type
+    OR NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.vat_rate IS DISTINCT FROM OLD.vat_rate
+    OR NEW.vat_amount IS DISTINCT FROM OLD.vat_amount
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.customer_name IS DISTINCT FROM OLD.customer_name
+    OR NEW.customer_vat_number IS DISTINCT FROM OLD.customer_vat_number
+    OR NEW.issue_date IS DISTINCT FROM OLD.issue_date
+    OR (OLD.pdf_url IS NOT NULL AND NEW.pdf_url IS DISTINCT FROM OLD.pdf_url) THEN
+    RAISE EXCEPTION 'invoices rows are immutable - issue a credit note instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_immutable ON invoices;
+CREATE TRIGGER invoices_immutable
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_invoice_content_update();
+
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON invoice_sequences FOR ALL USING (true);
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON invoices FOR ALL USING (true);
+
+COMMENT ON TABLE invoices IS 'Pro-forma invoices, tax invoices and credit notes - immutable once issued';
+COMMENT ON TABLE invoice_sequences IS 'Next gap-free number per invoice document type';
+
+NOTIFY pgrst, 'reload schema';
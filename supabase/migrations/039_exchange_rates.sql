@@ -0,0 +1,59 @@
+-- Migration 039: Exchange Rates
+-- Rates to ZAR for supplier quotes in foreign currencies
+-- (services/exchange-rates.ts), maintained by hand or imported from a CSV.
+-- Each quote version keeps a snapshot of the rates it was priced with.
+
+-- ============================================
+-- Exchange rates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'ZAR'),
+  -- ZAR per one unit of currency
+  rate_to_zar NUMERIC(14, 6) NOT NULL CHECK (rate_to_zar > 0),
+  rate_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_latest ON exchange_rates(currency, rate_date DESC);
+
+-- ============================================
+-- Rate snapshots on quote versions
+-- ============================================
+
+ALTER TABLE quote_versions ADD COLUMN IF NOT EXISTS exchange_rates JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- The snapshot is part of the version content, so it is immutable as well
+CREATE OR REPLACE FUNCTION prevent_quote_version_content_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax IS DISTINCT FROM OLD.tax
+    OR NEW.shipping IS DISTINCT FROM OLD.shipping
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.exchange_rates IS DISTINCT FROM OLD.exchange_rates
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.terms IS DISTINCT FROM OLD.terms
+    OR NEW.pdf_url IS DISTINCT FROM OLD.pdf_url
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.quote_request_id IS DISTINCT FROM OLD.quote_request_id THEN
+    RAISE EXCEPTION 'quote_versions rows are immutable - create a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON exchange_rates FOR ALL USING (true);
+
+COMMENT ON TABLE exchange_rates IS 'Rates to ZAR per currency and day - the latest rate is used for supplier prices';
+COMMENT ON COLUMN quote_versions.exchange_rates IS 'Rates the version was priced with: [{currency, rate_to_zar, rate_date, source}]';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,50 @@
+-- Migration 040: Pricing Rule Engine
+-- Extends pricing_rules (015) so one rule engine (services/pricing-rules.ts)
+-- prices both customer quotes and reseller price lists: rule priorities,
+-- margin floors, customer tiers, volume breaks and brand or supplier
+-- specific overrides.
+
+-- ============================================
+-- Rule scope and priority
+-- ============================================
+
+-- Highest priority wins when several rules set a markup
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+-- quote (Quote Agent), reseller (Marketing Agent reseller pricing) or all
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'all'
+  CHECK (channel IN ('all', 'quote', 'reseller'));
+-- Quote customer segment (enterprise, premium, ...) or reseller discount tier (standard, premium, platinum)
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS customer_tier TEXT;
+-- Matched against the product name, e.g. 'Sonos'
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS brand TEXT;
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE CASCADE;
+-- Volume break: the rule only applies from this quantity per line
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS min_quantity INTEGER CHECK (min_quantity > 0);
+ALTER TABLE pricing_rules ADD COLUMN IF NOT EXISTS updated_by TEXT;
+
+-- Rules may set only a margin floor (min_margin, % of the selling price)
+ALTER TABLE pricing_rules ALTER COLUMN markup_percentage DROP NOT NULL;
+ALTER TABLE pricing_rules DROP CONSTRAINT IF EXISTS pricing_rules_sets_something;
+ALTER TABLE pricing_rules ADD CONSTRAINT pricing_rules_sets_something
+  CHECK (markup_percentage IS NOT NULL OR min_margin IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_channel ON pricing_rules(channel, priority DESC) WHERE active = true;
+
+-- The category defaults seeded in 015 were never read by the Quote Agent.
+-- They stay inactive so switching to the engine does not change quote
+-- prices - simulate them on /stock/pricing/rules before enabling.
+UPDATE pricing_rules
+  SET active = false
+  WHERE rule_name IN ('Default Audio Equipment', 'Default Visual Equipment', 'Default Cables & Accessories', 'Default General')
+    AND updated_at = created_at;
+
+-- The reseller price list was a flat 10% over cost
+INSERT INTO pricing_rules (rule_name, channel, markup_percentage, priority, active)
+SELECT 'Reseller Default', 'reseller', 10.0, 0, true
+WHERE NOT EXISTS (SELECT 1 FROM pricing_rules WHERE channel = 'reseller');
+
+COMMENT ON COLUMN pricing_rules.priority IS 'Highest priority wins among matching rules that set a markup';
+COMMENT ON COLUMN pricing_rules.min_margin IS 'Margin floor (% of selling price) - the highest floor of all matching rules applies';
+COMMENT ON COLUMN pricing_rules.min_quantity IS 'Volume break - rule applies from this line quantity';
+
+NOTIFY pgrst, 'reload schema';
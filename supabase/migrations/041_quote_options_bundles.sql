@@ -0,0 +1,46 @@
+-- Migration 041: Quote Options and Bundles
+-- Quotes can offer good/better/best alternatives per requested product
+-- (items sharing an option_group, stored in quote_versions.items) and
+-- bundle discounts for items taken together. The customer picks one
+-- alternative per group in the quote portal.
+
+-- ============================================
+-- Bundles on quote versions
+-- ============================================
+
+ALTER TABLE quote_versions ADD COLUMN IF NOT EXISTS bundles JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Bundles decide the totals, so they are immutable like the rest of the content
+CREATE OR REPLACE FUNCTION prevent_quote_version_content_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.items IS DISTINCT FROM OLD.items
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax IS DISTINCT FROM OLD.tax
+    OR NEW.shipping IS DISTINCT FROM OLD.shipping
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.exchange_rates IS DISTINCT FROM OLD.exchange_rates
+    OR NEW.bundles IS DISTINCT FROM OLD.bundles
+    OR NEW.notes IS DISTINCT FROM OLD.notes
+    OR NEW.terms IS DISTINCT FROM OLD.terms
+    OR NEW.pdf_url IS DISTINCT FROM OLD.pdf_url
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.quote_request_id IS DISTINCT FROM OLD.quote_request_id THEN
+    RAISE EXCEPTION 'quote_versions rows are immutable - create a new version instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Alternatives chosen in the portal
+-- ============================================
+
+ALTER TABLE quote_portal_decisions
+  ADD COLUMN IF NOT EXISTS selected_alternative_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+COMMENT ON COLUMN quote_versions.bundles IS 'Bundle discounts: [{id, name, item_ids, discount_percentage}] - applied when all item_ids are taken';
+COMMENT ON COLUMN quote_portal_decisions.selected_alternative_ids IS 'The item taken from each option group';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,60 @@
+-- Migration 042: Quote Follow-ups and Expiry
+-- A sent quote version gets a follow-up sequence (QUOTE_FOLLOW_UP_CADENCE,
+-- e.g. 2 and 5 days after sending and the day before it expires). Follow-ups
+-- stop when the customer replies or decides in the portal. Versions past
+-- valid_until are expired and can be re-quoted with fresh supplier prices.
+
+-- ============================================
+-- Follow-up schedule
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS quote_follow_ups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_request_id UUID NOT NULL REFERENCES quote_requests(id) ON DELETE CASCADE,
+  quote_version_id UUID NOT NULL REFERENCES quote_versions(id) ON DELETE CASCADE,
+  -- Cadence entry that produced it, e.g. 'sent+2' or 'expiry-1'
+  step TEXT NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sent', 'cancelled', 'failed')),
+
+  subject TEXT,
+  body TEXT,
+  email_send_id UUID REFERENCES quote_email_sends(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  -- customer_replied, portal_decision, outcome_recorded, superseded, expired...
+  cancelled_reason TEXT,
+  error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (quote_version_id, step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_follow_ups_due ON quote_follow_ups(scheduled_for) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_quote_follow_ups_request ON quote_follow_ups(quote_request_id);
+
+ALTER TABLE quote_follow_ups ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON quote_follow_ups FOR ALL USING (true);
+
+-- ============================================
+-- Expired quotes
+-- ============================================
+
+ALTER TABLE quote_versions DROP CONSTRAINT IF EXISTS quote_versions_status_check;
+ALTER TABLE quote_versions ADD CONSTRAINT quote_versions_status_check
+  CHECK (status IN ('draft', 'sent', 'superseded', 'accepted', 'rejected', 'expired'));
+
+ALTER TABLE quote_requests DROP CONSTRAINT IF EXISTS quote_requests_status_check;
+ALTER TABLE quote_requests ADD CONSTRAINT quote_requests_status_check
+  CHECK (status IN ('detected', 'processing', 'suppliers_contacted', 'quotes_received', 'pdf_generated', 'sent_to_customer', 'quote_sent', 'completed', 'rejected', 'expired'));
+
+-- Replies are matched to the email they answer; one response per reply email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_email_responses_email
+  ON quote_email_responses(response_email_id) WHERE response_email_id IS NOT NULL;
+
+COMMENT ON TABLE quote_follow_ups IS 'Follow-up emails scheduled for a sent quote version - cancelled when the customer responds or the version is superseded or expires';
+COMMENT ON COLUMN quote_follow_ups.step IS 'Cadence entry: sent+N (days after sending) or expiry-N (days before valid_until)';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,97 @@
+-- Migration 043: Supplier RFQ Rounds
+-- Contacting suppliers for a quote request opens a bidding round with a
+-- deadline (RFQ_RESPONSE_HOURS) and one row per invited supplier. Suppliers
+-- who have not bid are reminded before the deadline. The round closes when
+-- every supplier has bid or the deadline passes; the bids are compared on
+-- price, lead time, stock and reliability and the best bid per product is
+-- proposed for award. The "Supplier RFQ awards" policy decides whether the
+-- award goes ahead automatically or needs approval.
+
+-- ============================================
+-- Rounds
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rfq_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_request_id UUID NOT NULL REFERENCES quote_requests(id) ON DELETE CASCADE,
+  -- 1 for the first round, +1 for each re-quote
+  round_number INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'closed', 'awarded', 'cancelled')),
+
+  -- Products asked for: [{product_name, quantity, specifications}]
+  items JSONB NOT NULL DEFAULT '[]'::JSONB,
+  deadline TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  close_reason TEXT CHECK (close_reason IN ('all_responded', 'deadline')),
+
+  -- Filled when the round closes
+  comparison JSONB,
+  award JSONB,
+  award_value NUMERIC(12,2),
+  award_task_id UUID REFERENCES squad_tasks(id) ON DELETE SET NULL,
+  awarded_at TIMESTAMPTZ,
+  awarded_by TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (quote_request_id, round_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_rounds_open ON rfq_rounds(deadline) WHERE status = 'open';
+
+ALTER TABLE rfq_rounds ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON rfq_rounds FOR ALL USING (true);
+
+-- ============================================
+-- Invited suppliers
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS rfq_round_suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfq_round_id UUID NOT NULL REFERENCES rfq_rounds(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  contact_email TEXT NOT NULL,
+  contact_name TEXT,
+  products TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  status TEXT NOT NULL DEFAULT 'invited'
+    CHECK (status IN ('invited', 'responded', 'no_response', 'awarded', 'not_awarded')),
+
+  invited_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  gmail_message_id TEXT,
+  reminder_count INTEGER NOT NULL DEFAULT 0,
+  last_reminded_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  response_interaction_id UUID REFERENCES email_supplier_interactions(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (rfq_round_id, supplier_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_round_suppliers_round ON rfq_round_suppliers(rfq_round_id);
+CREATE INDEX IF NOT EXISTS idx_rfq_round_suppliers_supplier ON rfq_round_suppliers(supplier_id, status);
+
+ALTER TABLE rfq_round_suppliers ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON rfq_round_suppliers FOR ALL USING (true);
+
+-- ============================================
+-- Award rule
+-- ============================================
+
+-- Awards below R50,000 go ahead automatically, larger ones need approval.
+-- Edit the threshold on the approval policies page.
+INSERT INTO approval_policies (name, agent, action, severity, required_role, conditions, auto_approve_below, amount_field, priority) VALUES
+  ('Supplier RFQ awards', 'SupplierAgent', 'require_approval', 'high', 'accounts',
+    '[{"field": "metadata.action_required", "operator": "eq", "value": "award_rfq"}]', 50000, 'metadata.award_value', 50)
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE rfq_rounds IS 'Supplier bidding round for a quote request - deadline, bid comparison and award';
+COMMENT ON COLUMN rfq_rounds.comparison IS 'Per product: every bid with ZAR price, lead time, stock, reliability and score, and the winning supplier';
+COMMENT ON COLUMN rfq_rounds.award IS 'Winning supplier per product: [{product_name, supplier_id, supplier_name, unit_price, quantity, line_total}]';
+COMMENT ON COLUMN rfq_rounds.award_value IS 'ZAR value of the award - checked against the Supplier RFQ awards policy';
+COMMENT ON TABLE rfq_round_suppliers IS 'Suppliers invited to an RFQ round and whether they bid';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,155 @@
+-- Migration 044: Price List Ingestion
+-- Supplier price lists uploaded on /products/import are parsed in the app:
+-- CSV and XLSX through a column mapping (saved per supplier as a template),
+-- PDF by the model. Each row is matched to the supplier's catalogue
+-- (supplier_products) by normalised SKU, then name, and marked new, changed,
+-- unchanged or invalid for a preview. Committing the preview updates the
+-- catalogue and queues the price changes for review (price_change_queue).
+
+-- ============================================
+-- Uploads
+-- ============================================
+
+-- Created by the import page; defined here for fresh databases
+CREATE TABLE IF NOT EXISTS price_list_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  filename TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  supplier_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  uploaded_by TEXT,
+  -- How to read the prices: cost_excl_vat, cost_incl_vat or retail
+  instruction TEXT,
+  markup_pct NUMERIC(5,2),
+  total_rows INTEGER,
+  processed_rows INTEGER,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS file_type TEXT;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS mapping_template_id UUID;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS column_mapping JSONB;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS headers JSONB;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS header_row INTEGER;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS summary JSONB;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS committed_at TIMESTAMPTZ;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS committed_by TEXT;
+ALTER TABLE price_list_uploads ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- ready = parsed, waiting in the preview; completed = committed
+ALTER TABLE price_list_uploads DROP CONSTRAINT IF EXISTS price_list_uploads_status_check;
+ALTER TABLE price_list_uploads ADD CONSTRAINT price_list_uploads_status_check
+  CHECK (status IN ('pending', 'processing', 'ready', 'completed', 'failed'));
+
+-- ============================================
+-- Column mapping templates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS price_list_mapping_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Field -> column header: {"sku": "Stock Code", "product_name": "Description", "price": "Dealer Excl"}
+  column_mapping JSONB NOT NULL,
+  -- NULL = find the header row automatically
+  header_row INTEGER,
+  sheet_name TEXT,
+  -- Currency of prices without a currency column or symbol
+  currency TEXT NOT NULL DEFAULT 'ZAR',
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (supplier_id, name)
+);
+
+ALTER TABLE price_list_mapping_templates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON price_list_mapping_templates FOR ALL USING (true);
+
+ALTER TABLE price_list_uploads DROP CONSTRAINT IF EXISTS price_list_uploads_mapping_template_id_fkey;
+ALTER TABLE price_list_uploads ADD CONSTRAINT price_list_uploads_mapping_template_id_fkey
+  FOREIGN KEY (mapping_template_id) REFERENCES price_list_mapping_templates(id) ON DELETE SET NULL;
+
+-- ============================================
+-- Parsed rows (the preview)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS price_list_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id UUID NOT NULL REFERENCES price_list_uploads(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+
+  sku TEXT,
+  normalized_sku TEXT,
+  product_name TEXT,
+  manufacturer TEXT,
+  category TEXT,
+  stock TEXT,
+  -- As listed, in the list's currency
+  price NUMERIC(12,2),
+  currency TEXT,
+  -- ZAR, excluding VAT for cost price lists - compared with last_quoted_price
+  supplier_price NUMERIC(12,2),
+
+  supplier_product_id UUID REFERENCES supplier_products(id) ON DELETE SET NULL,
+  previous_price NUMERIC(12,2),
+  price_change_pct NUMERIC(8,2),
+  change_type TEXT NOT NULL CHECK (change_type IN ('new', 'changed', 'unchanged', 'invalid')),
+  error TEXT,
+  -- Unticked in the preview = left out of the commit
+  included BOOLEAN NOT NULL DEFAULT TRUE,
+  raw JSONB NOT NULL DEFAULT '{}'::JSONB,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_rows_upload ON price_list_rows(upload_id, row_number);
+
+ALTER TABLE price_list_rows ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON price_list_rows FOR ALL USING (true);
+
+-- ============================================
+-- Catalogue SKUs
+-- ============================================
+
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS supplier_sku TEXT;
+ALTER TABLE supplier_products ADD COLUMN IF NOT EXISTS normalized_sku TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_supplier_products_sku ON supplier_products(supplier_id, normalized_sku) WHERE normalized_sku IS NOT NULL;
+
+-- ============================================
+-- Price change queue
+-- ============================================
+
+-- Reviewed on /stock/pending; defined here for fresh databases
+CREATE TABLE IF NOT EXISTS price_change_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id INTEGER,
+  sku TEXT,
+  product_name TEXT,
+  current_price NUMERIC(12,2),
+  new_price NUMERIC(12,2),
+  price_change_pct NUMERIC(8,2),
+  supplier_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE price_change_queue ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE price_change_queue ADD COLUMN IF NOT EXISTS supplier_product_id UUID REFERENCES supplier_products(id) ON DELETE SET NULL;
+ALTER TABLE price_change_queue ADD COLUMN IF NOT EXISTS price_list_upload_id UUID REFERENCES price_list_uploads(id) ON DELETE SET NULL;
+ALTER TABLE price_change_queue ADD COLUMN IF NOT EXISTS current_cost NUMERIC(12,2);
+ALTER TABLE price_change_queue ADD COLUMN IF NOT EXISTS new_cost NUMERIC(12,2);
+
+COMMENT ON TABLE price_list_mapping_templates IS 'Which column of a supplier''s price list holds SKU, description, price etc.';
+COMMENT ON TABLE price_list_rows IS 'Parsed price list rows with their match in supplier_products - the preview before committing';
+COMMENT ON COLUMN price_list_rows.supplier_price IS 'Price in ZAR, excl VAT for cost price lists - comparable with supplier_products.last_quoted_price';
+COMMENT ON COLUMN supplier_products.normalized_sku IS 'Supplier SKU without case, spaces or punctuation - how price list rows are matched';
+COMMENT ON COLUMN price_change_queue.current_cost IS 'Supplier price before the price list, ZAR (new_cost after); current_price/new_price are selling prices';
+
+NOTIFY pgrst, 'reload schema';
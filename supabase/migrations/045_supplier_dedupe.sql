@@ -0,0 +1,106 @@
+-- Migration 045: Supplier Dedupe and Merge
+-- The email scanner creates a supplier per sender company, so one business
+-- often ends up as several records. A duplicate scan compares suppliers that
+-- share a VAT/registration number, email domain or phone number, scores each
+-- pair and queues likely duplicates for review. Merging moves products,
+-- contacts, interactions, score history and everything else pointing at the
+-- duplicate to the surviving supplier and keeps an undo log.
+
+-- ============================================
+-- Supplier identifiers
+-- ============================================
+
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS vat_number TEXT;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS registration_number TEXT;
+-- Set on the duplicate when it is merged; NULL for live suppliers
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_vat_number ON suppliers(vat_number) WHERE vat_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_suppliers_merged_into ON suppliers(merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+-- ============================================
+-- Score history
+-- ============================================
+
+-- One row per supplier per scoring run (SupplierScoringService)
+CREATE TABLE IF NOT EXISTS supplier_score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  relationship_strength INTEGER,
+  reliability_score INTEGER,
+  avg_response_time_hours NUMERIC(10,2),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_score_history_supplier ON supplier_score_history(supplier_id, recorded_at DESC);
+
+ALTER TABLE supplier_score_history ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_score_history FOR ALL USING (true);
+
+-- ============================================
+-- Merges (the undo log)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  merged_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'merged' CHECK (status IN ('merged', 'undone')),
+
+  -- Rows moved to the survivor: {"supplier_products": ["uuid", ...], ...}
+  moved_rows JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- Contacts created on the survivor for the duplicate's own email/phone
+  created_contact_ids UUID[] NOT NULL DEFAULT ARRAY[]::UUID[],
+  -- Both supplier rows as they were before the merge
+  survivor_before JSONB NOT NULL,
+  merged_before JSONB NOT NULL,
+
+  merged_by TEXT NOT NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_by TEXT,
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_merges_merged_at ON supplier_merges(merged_at DESC);
+
+ALTER TABLE supplier_merges ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_merges FOR ALL USING (true);
+
+-- ============================================
+-- Duplicate candidates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- supplier_a_id < supplier_b_id so a pair is stored once
+  supplier_a_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  supplier_b_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  -- 0-100, see lib/supplier-matching.ts
+  score INTEGER NOT NULL,
+  -- What matched: vat_number, registration_number, email, email_domain, phone, name
+  signals TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  name_similarity NUMERIC(4,3),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'merged', 'dismissed')),
+  merge_id UUID REFERENCES supplier_merges(id) ON DELETE SET NULL,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (supplier_a_id, supplier_b_id),
+  CHECK (supplier_a_id < supplier_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_duplicate_candidates_pending ON supplier_duplicate_candidates(score DESC) WHERE status = 'pending';
+
+ALTER TABLE supplier_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_duplicate_candidates FOR ALL USING (true);
+
+COMMENT ON COLUMN suppliers.merged_into_id IS 'Surviving supplier this duplicate was merged into - merged suppliers are inactive';
+COMMENT ON TABLE supplier_score_history IS 'Relationship and reliability scores of each supplier per scoring run';
+COMMENT ON TABLE supplier_merges IS 'Supplier merges with the rows moved, so a merge can be undone';
+COMMENT ON TABLE supplier_duplicate_candidates IS 'Scored pairs of suppliers that may be the same business, for review';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,56 @@
+-- Migration 046: Gmail Mailboxes and Incremental Sync
+-- The email poll listed is:unread, so an email opened in Gmail before the
+-- next poll was never ingested. Each mailbox now keeps a Gmail history ID
+-- watermark and the poll reads every message added since then, read or not.
+-- Several mailboxes (sales@, accounts@, support@) are synced, each with its
+-- own OAuth refresh token, and Gmail labels can route a message straight to
+-- a category.
+
+-- ============================================
+-- Mailboxes
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS gmail_mailboxes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  -- Name of the env var holding the mailbox's refresh token (never the token itself)
+  refresh_token_env TEXT NOT NULL DEFAULT 'GMAIL_REFRESH_TOKEN',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- Watermark: the Gmail history ID everything up to has been ingested
+  history_id TEXT,
+  last_synced_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'active', 'error', 'not_configured')),
+  last_error TEXT,
+
+  -- [{"label": "Orders", "category": "order", "priority": "low"}, ...]
+  label_routes JSONB NOT NULL DEFAULT '[]'::JSONB,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE gmail_mailboxes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON gmail_mailboxes FOR ALL USING (true);
+
+INSERT INTO gmail_mailboxes (address, name, refresh_token_env) VALUES
+  ('support@audicoonline.co.za', 'Support', 'GMAIL_REFRESH_TOKEN'),
+  ('sales@audicoonline.co.za', 'Sales', 'GMAIL_REFRESH_TOKEN_SALES'),
+  ('accounts@audicoonline.co.za', 'Accounts', 'GMAIL_REFRESH_TOKEN_ACCOUNTS')
+ON CONFLICT (address) DO NOTHING;
+
+-- ============================================
+-- Email logs
+-- ============================================
+
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS mailbox_id UUID REFERENCES gmail_mailboxes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_mailbox ON email_logs(mailbox_id, created_at DESC);
+
+COMMENT ON TABLE gmail_mailboxes IS 'Gmail mailboxes synced by the email poll, with their history ID watermark and label routes';
+COMMENT ON COLUMN gmail_mailboxes.history_id IS 'Gmail history ID up to which messages have been ingested';
+COMMENT ON COLUMN email_logs.mailbox_id IS 'Mailbox the email was received in';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,56 @@
+-- Migration 047: Email Attachments
+-- Supplier quotes and customer RFQs often arrive as PDF, XLSX, CSV or DOCX
+-- attachments. The Gmail sync records each attachment of an ingested email;
+-- it is then downloaded into the email-attachments bucket and its text and
+-- tables extracted, so supplier price extraction and quote request detection
+-- read the attachment as well as the body.
+
+-- ============================================
+-- Attachments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_log_id UUID NOT NULL REFERENCES email_logs(id) ON DELETE CASCADE,
+  gmail_message_id TEXT NOT NULL,
+  -- MIME part of the message ("1", "2.1") - stable, unlike Gmail's attachment ID
+  part_id TEXT NOT NULL,
+  gmail_attachment_id TEXT,
+  filename TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes INTEGER,
+  -- pdf, xlsx, csv, docx - NULL for types that are not read
+  file_type TEXT CHECK (file_type IN ('pdf', 'xlsx', 'csv', 'docx')),
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'extracted', 'skipped', 'failed')),
+  storage_path TEXT,
+  extracted_text TEXT,
+  -- [{"name": "Sheet1", "rows": [["SKU", "Description", "Price"], ...]}, ...]
+  extracted_tables JSONB NOT NULL DEFAULT '[]'::JSONB,
+  error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (email_log_id, part_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_attachments_email ON email_attachments(email_log_id);
+CREATE INDEX IF NOT EXISTS idx_email_attachments_pending ON email_attachments(created_at) WHERE status = 'pending';
+
+ALTER TABLE email_attachments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON email_attachments FOR ALL USING (true);
+
+-- ============================================
+-- Storage bucket (private - files are served through signed URLs)
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('email-attachments', 'email-attachments', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE email_attachments IS 'Attachments of ingested email, stored in the email-attachments bucket with their extracted text and tables';
+COMMENT ON COLUMN email_attachments.status IS 'pending until downloaded and extracted; skipped for unsupported or oversized files';
+
+NOTIFY pgrst, 'reload schema';
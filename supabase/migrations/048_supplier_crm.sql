@@ -0,0 +1,73 @@
+-- Migration 048: Supplier CRM
+-- The supplier contacts page shows contacts, products and email interactions
+-- as separate lists. Each supplier now has a profile (/suppliers/[id]) with
+-- one chronological timeline of RFQs, responses, price changes, purchase
+-- orders and score changes, plus the relationship data that had nowhere to
+-- live: notes, follow-up tasks, an account manager and trading terms.
+
+-- ============================================
+-- Account manager and trading terms
+-- ============================================
+
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS account_manager_id UUID REFERENCES approvers(id) ON DELETE SET NULL;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS payment_terms TEXT;
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS credit_limit NUMERIC(12,2) CHECK (credit_limit >= 0);
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS credit_currency TEXT NOT NULL DEFAULT 'ZAR';
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS delivery_zones TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_account_manager ON suppliers(account_manager_id) WHERE account_manager_id IS NOT NULL;
+
+-- ============================================
+-- Notes
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  body TEXT NOT NULL,
+  author TEXT NOT NULL,
+  -- Pinned notes are shown above the timeline
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_notes_supplier ON supplier_notes(supplier_id, created_at DESC);
+
+ALTER TABLE supplier_notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_notes FOR ALL USING (true);
+
+-- ============================================
+-- Tasks
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'done', 'cancelled')),
+  due_date DATE,
+  assigned_to_id UUID REFERENCES approvers(id) ON DELETE SET NULL,
+  created_by TEXT NOT NULL,
+  completed_by TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_tasks_supplier ON supplier_tasks(supplier_id, status);
+CREATE INDEX IF NOT EXISTS idx_supplier_tasks_open_due ON supplier_tasks(due_date) WHERE status = 'open';
+
+ALTER TABLE supplier_tasks ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_tasks FOR ALL USING (true);
+
+COMMENT ON COLUMN suppliers.account_manager_id IS 'Team member who owns the supplier relationship';
+COMMENT ON COLUMN suppliers.payment_terms IS 'Payment terms agreed with the supplier, as written (e.g. "30 days from statement", "COD")';
+COMMENT ON COLUMN suppliers.credit_limit IS 'Credit limit the supplier extends to us, in credit_currency';
+COMMENT ON COLUMN suppliers.delivery_zones IS 'Regions the supplier delivers to (e.g. Gauteng, Western Cape)';
+COMMENT ON TABLE supplier_notes IS 'Free-text notes on a supplier relationship, shown on the supplier profile timeline';
+COMMENT ON TABLE supplier_tasks IS 'Follow-up tasks for a supplier (chase a credit application, renegotiate terms)';
+
+NOTIFY pgrst, 'reload schema';
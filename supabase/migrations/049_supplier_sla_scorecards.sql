@@ -0,0 +1,68 @@
+-- Migration 049: Supplier SLAs and Scorecards
+-- SupplierLearningEngine's response, pricing and quality scores were only
+-- visible on the squad dashboard. Each supplier now has SLA targets
+-- (response time, quote accuracy, on-time delivery); every month a scorecard
+-- measures the supplier against them, is rendered as a PDF and can be
+-- emailed to the supplier's primary contact once approved.
+
+-- ============================================
+-- SLA targets (NULL = the defaults in services/supplier-sla.ts)
+-- ============================================
+
+-- {"response_hours": 24, "response_met_pct": 90, "quote_accuracy_pct": 95,
+--  "price_tolerance_pct": 2, "on_time_pct": 90, "delivery_days": 5}
+ALTER TABLE suppliers ADD COLUMN IF NOT EXISTS sla_targets JSONB;
+
+-- ============================================
+-- Delivery tracking
+-- ============================================
+
+-- orders_tracker keeps no status history, so the daily SLA run records when
+-- an order's supplier_status is first seen as Shipped / Complete
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS delivery_status TEXT;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_sent ON purchase_orders(supplier_id, sent_at) WHERE status = 'sent';
+
+-- ============================================
+-- Scorecards
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS supplier_scorecards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  -- First and last day of the month scored
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+
+  -- Targets in force when generated, the measured metrics and which targets were missed
+  targets JSONB NOT NULL,
+  metrics JSONB NOT NULL,
+  breaches TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  pdf_url TEXT,
+  generated_by TEXT NOT NULL,
+
+  -- Emailing to the supplier goes through an approval task
+  email_task_id UUID REFERENCES squad_tasks(id) ON DELETE SET NULL,
+  sent_to TEXT,
+  sent_at TIMESTAMPTZ,
+  sent_by TEXT,
+  gmail_message_id TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (supplier_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_scorecards_period ON supplier_scorecards(period_start DESC);
+
+ALTER TABLE supplier_scorecards ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON supplier_scorecards FOR ALL USING (true);
+
+COMMENT ON COLUMN suppliers.sla_targets IS 'Per-supplier SLA targets; missing keys fall back to the defaults';
+COMMENT ON COLUMN purchase_orders.delivery_status IS 'Last orders_tracker.supplier_status seen by the SLA run';
+COMMENT ON COLUMN purchase_orders.delivered_at IS 'When the order was first seen as Shipped or Complete';
+COMMENT ON TABLE supplier_scorecards IS 'Monthly supplier SLA scorecards with their PDF, optionally emailed to the supplier after approval';
+
+NOTIFY pgrst, 'reload schema';
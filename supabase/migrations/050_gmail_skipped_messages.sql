@@ -0,0 +1,31 @@
+-- Migration 050: Gmail Skipped Messages
+-- A backfill lists a date range and ingests what is not in email_logs yet,
+-- holding the mailbox's history ID back until nothing is left. Messages the
+-- sync deliberately leaves out (spam/trash, deleted before they were
+-- fetched, already logged from another mailbox) never reach email_logs, so
+-- they were listed as new on every run and the backlog never drained. They
+-- are now recorded here and left out of the next listing, as are messages
+-- that failed to ingest a few times in a row.
+
+CREATE TABLE IF NOT EXISTS gmail_skipped_messages (
+  mailbox_id UUID NOT NULL REFERENCES gmail_mailboxes(id) ON DELETE CASCADE,
+  gmail_message_id TEXT NOT NULL,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('skipped_label', 'deleted', 'duplicate', 'failed')),
+  -- A failed message is listed again until its third attempt
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (mailbox_id, gmail_message_id)
+);
+
+ALTER TABLE gmail_skipped_messages ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated" ON gmail_skipped_messages FOR ALL USING (true);
+
+COMMENT ON TABLE gmail_skipped_messages IS 'Gmail messages the sync left out of email_logs, so backfills do not list them again';
+COMMENT ON COLUMN gmail_skipped_messages.attempts IS 'Ingest attempts of a failed message; given up on after three';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,75 @@
+-- Migration 051: Invoice Constraints
+-- services/invoices.ts checked for an open tax invoice, and for what was left
+-- to credit, before inserting - two requests at once could both pass the
+-- check and issue two tax invoices for one order, or credit notes adding up
+-- to more than the invoice. Both rules are now enforced here.
+
+-- ============================================
+-- One open tax invoice per order
+-- ============================================
+
+-- A fully credited invoice leaves the index, so the order can be invoiced again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_one_tax_invoice_per_order
+  ON invoices(order_no)
+  WHERE document_type = 'tax_invoice' AND status = 'issued';
+
+-- ============================================
+-- Credit notes never exceed the invoice
+-- ============================================
+
+-- The credited invoice stays locked until the credit note commits, so
+-- concurrent credit notes see each other's totals. The invoice is marked
+-- credited in the same transaction once nothing is left.
+CREATE OR REPLACE FUNCTION check_credit_note_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  credited invoices%ROWTYPE;
+  already_credited NUMERIC(12, 2);
+  remaining NUMERIC(12, 2);
+BEGIN
+  IF NEW.document_type <> 'credit_note' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO credited
+    FROM invoices
+    WHERE id = NEW.credited_invoice_id
+    FOR UPDATE;
+
+  IF credited.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid credit note: credited invoice not found';
+  END IF;
+
+  IF credited.document_type <> 'tax_invoice' THEN
+    RAISE EXCEPTION 'Invalid credit note: only tax invoices can be credited';
+  END IF;
+
+  SELECT COALESCE(SUM(total), 0) INTO already_credited
+    FROM invoices
+    WHERE credited_invoice_id = credited.id;
+
+  remaining := credited.total - already_credited;
+
+  IF NEW.total > remaining THEN
+    RAISE EXCEPTION 'Invalid credit note: only % % of % is left to credit',
+      credited.currency, TO_CHAR(remaining, 'FM999999999990.00'), credited.invoice_number;
+  END IF;
+
+  IF remaining - NEW.total <= 0 THEN
+    UPDATE invoices SET status = 'credited' WHERE id = credited.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_check_credit_note ON invoices;
+CREATE TRIGGER invoices_check_credit_note
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION check_credit_note_total();
+
+COMMENT ON INDEX idx_invoices_one_tax_invoice_per_order IS 'An order has one tax invoice until it is fully credited';
+COMMENT ON FUNCTION check_credit_note_total() IS 'Locks the credited invoice and rejects credit notes beyond its total';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,11 @@
+-- Migration 052: Supplier Merge Survivor After
+-- Undoing a merge wrote the survivor's whole pre-merge snapshot back,
+-- discarding anything edited on the survivor since. The merge log now also
+-- keeps the fields the merge wrote, so an undo restores only those - and
+-- only where they still hold what the merge wrote.
+
+ALTER TABLE supplier_merges ADD COLUMN IF NOT EXISTS survivor_after JSONB;
+
+COMMENT ON COLUMN supplier_merges.survivor_after IS 'Survivor fields as the merge wrote them; null for merges logged before migration 052';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,110 @@
+/**
+ * Type definitions for domain events
+ * Matches Supabase database schema for domain_events / event_deliveries
+ */
+
+/**
+ * Payload of each event type - the contract between publishers and subscribers
+ */
+export interface DomainEventPayloads {
+  'email.classified': {
+    emailId: string
+    category: string
+    subIntent: string | null
+    priority: string
+    confidence: number
+    fromEmail: string
+    subject: string
+  }
+  'quote_request.created': {
+    quoteRequestId: string
+    emailId: string | null
+    customerEmail: string
+    confidenceScore: number
+    /** Quote Agent task or Jarvis review task created for the request */
+    taskId: string | null
+  }
+  'supplier.responded': {
+    supplierId: string
+    emailId: string
+    interactionId: string
+    quoteRequestId: string | null
+    /**
+     * Set once every supplier has responded (or timed out) and the next task
+     * was created: the RFQ award task, or the quote task for requests without
+     * an RFQ round
+     */
+    quoteTaskId: string | null
+  }
+  'quote.generated': {
+    quoteRequestId: string
+    quoteNumber: string
+    pdfUrl: string
+    approvalTaskId: string | null
+  }
+  'quote.approved': {
+    quoteRequestId: string
+    quoteNumber: string
+    customerEmail: string
+    approvedBy: string
+  }
+  'quote.outcome_recorded': {
+    quoteRequestId: string
+    quoteNumber: string
+    quoteVersionId: string | null
+    outcome: 'accepted' | 'rejected' | 'negotiation' | 'no_response' | 'pending'
+    outcomeId: string
+    /** api: recorded by staff, customer_portal: the customer's own decision */
+    source: 'api' | 'customer_portal'
+  }
+  'order.created': {
+    orderNo: string
+    quoteRequestId: string
+    quoteNumber: string
+    purchaseOrderIds: string[]
+    /** Supplier cost and profit, excluding VAT */
+    cost: number
+    profit: number
+  }
+  'post.published': {
+    postId: string
+    platform: 'twitter' | 'facebook' | 'instagram'
+    platformPostId: string
+    url: string | null
+  }
+}
+
+export type DomainEventType = keyof DomainEventPayloads
+
+export type DeliveryStatus = 'pending' | 'in_progress' | 'delivered' | 'dead'
+
+/**
+ * DomainEvent - Represents an event in the domain_events table
+ */
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+  id: string
+  type: T
+  payload: DomainEventPayloads[T]
+  source: string
+  correlation_id: string | null
+  created_at: string
+}
+
+/**
+ * EventDelivery - Represents one subscriber's copy of an event in event_deliveries
+ */
+export interface EventDelivery {
+  id: string
+  event_id: string
+  subscriber: string
+  status: DeliveryStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  lease_owner: string | null
+  lease_expires_at: string | null
+  last_error: string | null
+  delivered_at: string | null
+  replayed_at: string | null
+  created_at: string
+}
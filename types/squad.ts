@@ -3,7 +3,7 @@
  * Matches Supabase database schema for squad_* tables
  */
 
-export type TaskStatus = 'new' | 'in_progress' | 'completed' | 'failed' | 'rejected'
+export type TaskStatus = 'new' | 'in_progress' | 'completed' | 'failed' | 'rejected' | 'dead_letter'
 export type Priority = 'low' | 'medium' | 'high' | 'urgent'
 
 /**
@@ -27,12 +27,24 @@ export interface Task {
   rejected_by?: string | null
   rejected_at?: string | null
   rejection_reason?: string | null
+  approval_policy_id?: string | null
+  approval_severity?: Priority | null
+  required_approver_role?: string | null
+  required_approvals?: number | null
 
   // Execution tracking
   execution_attempts: number
   last_execution_attempt?: string | null
   execution_error?: string | null
 
+  // Queue lease / retry tracking
+  lease_owner?: string | null
+  lease_expires_at?: string | null
+  max_attempts?: number | null
+  next_attempt_at?: string | null
+  dead_lettered_at?: string | null
+  replay_count?: number | null
+
   // Timestamps
   created_at: string
   updated_at: string
@@ -123,3 +135,129 @@ export interface OutreachTracking {
   metadata?: Record<string, any> | null
   created_at: string
 }
+
+/**
+ * Approval Policy Condition - One predicate on a task
+ * field: 'agent' | 'title' | 'amount' | 'customer_segment' | 'time_of_day' | 'metadata.<path>'
+ */
+export interface PolicyCondition {
+  field: string
+  operator: 'eq' | 'neq' | 'in' | 'not_in' | 'contains' | 'contains_any' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'between'
+  value?: any
+}
+
+/**
+ * Approval Policy - Represents a rule in the approval_policies table
+ */
+export interface ApprovalPolicy {
+  id: string
+  name: string
+  description?: string | null
+  agent?: string | null
+  action: 'require_approval' | 'auto_execute'
+  severity: Priority
+  required_role?: string | null
+  conditions: PolicyCondition[]
+  auto_approve_below?: number | null
+  amount_field: string
+  required_approvals: number
+  priority: number
+  enabled: boolean
+  created_at: string
+  updated_at: string
+  updated_by?: string | null
+}
+
+/**
+ * Approval Policy Evaluation - Audit row in the approval_policy_evaluations table
+ */
+export interface ApprovalPolicyEvaluation {
+  id: string
+  task_id: string
+  policy_id?: string | null
+  policy_name?: string | null
+  decision: 'require_approval' | 'auto_execute' | 'auto_approved' | 'default'
+  severity: Priority
+  required_role?: string | null
+  reason?: string | null
+  context?: Record<string, any> | null
+  evaluated_at: string
+}
+
+export type ApproverRole = 'sales' | 'accounts' | 'marketing' | 'admin'
+
+/**
+ * Approver - A person who may approve tasks (approvers table)
+ */
+export interface Approver {
+  id: string
+  user_id?: string | null
+  name: string
+  email?: string | null
+  roles: ApproverRole[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Approver Delegation - Temporary hand-over of roles (approver_delegations table)
+ */
+export interface ApproverDelegation {
+  id: string
+  delegator_id: string
+  delegate_id: string
+  starts_at: string
+  ends_at: string
+  reason?: string | null
+  revoked_at?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+/**
+ * Task Approval - One person's decision on a task (task_approvals table)
+ */
+export interface TaskApproval {
+  id: string
+  task_id: string
+  approver_id: string
+  approver_name: string
+  on_behalf_of_id?: string | null
+  decision: 'approve' | 'reject'
+  comment?: string | null
+  created_at: string
+}
+
+export type LlmProvider = 'anthropic' | 'openai'
+
+/**
+ * LLM Usage - Measured tokens and cost of one LLM call (llm_usage table)
+ */
+export interface LlmUsage {
+  id: string
+  agent: string
+  task_id?: string | null
+  workflow?: string | null
+  operation?: string | null
+  provider: LlmProvider
+  model: string
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  usd_zar_rate: number
+  cost_zar: number
+  created_at: string
+}
+
+/**
+ * Agent Budget - Daily/monthly LLM spend caps in rand (agent_budgets table)
+ */
+export interface AgentBudget {
+  agent: string
+  daily_limit_zar?: number | null
+  monthly_limit_zar?: number | null
+  enabled: boolean
+  updated_at: string
+  updated_by?: string | null
+}